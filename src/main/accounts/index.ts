@@ -0,0 +1,387 @@
+import type { AuthController, AuthResult } from "../auth";
+import {
+  accountClaimLedgerStore,
+  accountClaimQueueStore,
+  accountReliabilityStore,
+  accountSessionStore,
+  accountStatsStore,
+  invalidateSessionStores,
+  loadAccountRegistry,
+  newAccountId,
+  removeAccountData,
+  saveAccountRegistry,
+} from "../core/accounts";
+import {
+  emptyRegistry,
+  removeAccount,
+  setAccountProxy,
+  setActiveAccount,
+  upsertAccount,
+  type AccountEntry,
+  type AccountRegistry,
+} from "../core/accountRegistry";
+import type { StatsStore } from "../core/stats";
+import type { ChannelReliabilityStore } from "../core/channelReliability";
+import type { ClaimLedgerStore } from "../core/claimLedger";
+import { AccountRuntime, type AccountRuntimeStatus } from "../twitch/accountRuntime";
+import { TwitchAuthError } from "../twitch/client";
+import { GqlScheduler } from "../twitch/gqlScheduler";
+import { PersistedQueryRegistry } from "../twitch/persistedQueries";
+import type { TrafficRecorder } from "../twitch/trafficRecorder";
+import {
+  loadPersistedQueryOverrides,
+  loadPersistedQueryState,
+  savePersistedQueryState,
+} from "../core/persistedQueryStore";
+import type { ChannelTrackerMode } from "../twitch/tracker";
+import { normalizeProxyUrl } from "../../shared/proxy";
+import {
+  DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  type ChannelDirectorySettings,
+} from "../../shared/channelDirectory";
+import { DEFAULT_FARM_SCHEDULE, type FarmSchedule } from "../../shared/farmSchedule";
+
+export type AccountSummary = AccountEntry & {
+  active: boolean;
+  runtime: AccountRuntimeStatus | null;
+};
+
+export type AccountsState = {
+  activeAccountId: string | null;
+  accounts: AccountSummary[];
+};
+
+type RuntimeObserver = (runtime: AccountRuntime) => (() => void) | void;
+
+/**
+ * Stats shown while no account is linked (e.g. demo mode). Real account ids
+ * are 16 hex chars, so this directory can never collide with one.
+ */
+const GUEST_STATS_ID = "guest";
+
+/**
+ * Owns the account registry and one AccountRuntime per linked account. The
+ * IPC layer always talks to the active runtime; every other runtime keeps its
+ * PubSub socket and background watch loop alive.
+ */
+export class AccountManager {
+  /** Shared by every runtime so extra accounts do not raise the GQL request rate. */
+  readonly gqlScheduler = new GqlScheduler();
+  /** Hash knowledge is global to Twitch, so one registry serves every account. */
+  readonly persistedQueries = new PersistedQueryRegistry();
+  private registry: AccountRegistry = { ...emptyRegistry, accounts: [] };
+  private readonly runtimes = new Map<string, AccountRuntime>();
+  private readonly observers = new Set<RuntimeObserver>();
+  private readonly observerCleanups = new Map<string, Array<() => void>>();
+  private readonly changeListeners = new Set<(state: AccountsState) => void>();
+  private readonly guestStats: StatsStore = accountStatsStore(GUEST_STATS_ID);
+  private readonly guestReliability: ChannelReliabilityStore =
+    accountReliabilityStore(GUEST_STATS_ID);
+  private readonly guestClaims: ClaimLedgerStore = accountClaimLedgerStore(GUEST_STATS_ID);
+  private started = false;
+  /** Global proxy from settings; accounts without an override use it. */
+  private proxyUrl = "";
+  /** Channel directory pages and languages from settings, shared by every account. */
+  private channelDirectory: ChannelDirectorySettings = {
+    pages: DEFAULT_CHANNEL_DIRECTORY_PAGES,
+    languages: [],
+  };
+
+  /** Farming schedule and manual pause from settings; background watching obeys them. */
+  private farmSchedule: { schedule: FarmSchedule; pauseUntil: number | null } = {
+    schedule: DEFAULT_FARM_SCHEDULE,
+    pauseUntil: null,
+  };
+
+  constructor(
+    private readonly auth: AuthController,
+    private readonly trackerMode: ChannelTrackerMode,
+    private readonly trafficRecorder?: TrafficRecorder,
+  ) {}
+
+  async init(): Promise<void> {
+    const [queryState, queryOverrides] = await Promise.all([
+      loadPersistedQueryState(),
+      loadPersistedQueryOverrides(),
+    ]);
+    this.persistedQueries.restore(queryState);
+    this.persistedQueries.setOverrides(queryOverrides);
+    this.persistedQueries.onChange((state) => {
+      savePersistedQueryState(state).catch((err) => {
+        console.warn("persisted-queries: save failed", err);
+      });
+    });
+    this.registry = await loadAccountRegistry();
+    for (const account of this.registry.accounts) {
+      this.createRuntime(account.id);
+    }
+    this.applyForeground();
+  }
+
+  /** Starts every runtime's PubSub; call after IPC observers are attached. */
+  start() {
+    this.started = true;
+    for (const runtime of this.runtimes.values()) {
+      runtime.start();
+    }
+  }
+
+  dispose() {
+    for (const id of [...this.runtimes.keys()]) {
+      this.disposeRuntime(id);
+    }
+    this.observers.clear();
+    this.changeListeners.clear();
+    this.gqlScheduler.dispose();
+  }
+
+  get activeAccountId(): string | null {
+    return this.registry.activeAccountId;
+  }
+
+  getActive(): AccountRuntime | null {
+    const id = this.registry.activeAccountId;
+    return id ? (this.runtimes.get(id) ?? null) : null;
+  }
+
+  /** Active runtime or a TwitchAuthError, mirroring the single-account "Not logged in". */
+  requireActive(): AccountRuntime {
+    const runtime = this.getActive();
+    if (!runtime) {
+      throw new TwitchAuthError("Not logged in");
+    }
+    return runtime;
+  }
+
+  activeStats(): StatsStore {
+    return this.getActive()?.stats ?? this.guestStats;
+  }
+
+  activeReliability(): ChannelReliabilityStore {
+    return this.getActive()?.reliability ?? this.guestReliability;
+  }
+
+  activeClaims(): ClaimLedgerStore {
+    return this.getActive()?.claims ?? this.guestClaims;
+  }
+
+  /**
+   * Registers a callback for every current and future runtime. The optional
+   * cleanup it returns runs when that runtime is removed.
+   */
+  observeRuntimes(observer: RuntimeObserver): () => void {
+    this.observers.add(observer);
+    for (const runtime of this.runtimes.values()) {
+      this.attachObserver(observer, runtime);
+    }
+    return () => {
+      this.observers.delete(observer);
+    };
+  }
+
+  onChange(listener: (state: AccountsState) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  getState(): AccountsState {
+    const activeId = this.registry.activeAccountId;
+    return {
+      activeAccountId: activeId,
+      accounts: this.registry.accounts.map((account) => ({
+        ...account,
+        active: account.id === activeId,
+        runtime: this.runtimes.get(account.id)?.getStatus() ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Links another Twitch account and makes it active. Re-linking an account
+   * that is already registered refreshes its session instead of adding a
+   * duplicate.
+   */
+  async add(): Promise<AuthResult> {
+    const id = newAccountId();
+    const store = accountSessionStore(id);
+    let result: AuthResult;
+    try {
+      result = await this.auth.login(store, {
+        partition: `account-link-${id}`,
+        proxyUrl: this.proxyUrl,
+      });
+    } catch (err) {
+      await removeAccountData(id);
+      throw err;
+    }
+    const session = await store.load();
+    const upserted = upsertAccount(this.registry, {
+      id,
+      login: session?.loginName ?? "",
+      addedAt: Date.now(),
+    });
+    if (upserted.id !== id) {
+      if (session) {
+        await accountSessionStore(upserted.id).save(session);
+      }
+      await removeAccountData(id);
+      this.runtimes.get(upserted.id)?.notifySessionChanged();
+    } else {
+      const runtime = this.createRuntime(id);
+      if (this.started) runtime.start();
+    }
+    await this.commit(setActiveAccount(upserted.registry, upserted.id));
+    void this.refreshDisplayName(upserted.id);
+    return result;
+  }
+
+  /** Re-reads every account's session, e.g. after the session vault was unlocked. */
+  notifySessionsChanged() {
+    invalidateSessionStores();
+    for (const runtime of this.runtimes.values()) {
+      runtime.notifySessionChanged();
+    }
+  }
+
+  /** Applies the global proxy setting to every account without an override. */
+  setProxy(url: string) {
+    this.proxyUrl = normalizeProxyUrl(url);
+    this.applyProxies();
+  }
+
+  /** Applies the channel directory settings to every account. */
+  setChannelDirectory(pages: number, languages: string[]) {
+    this.channelDirectory = { pages, languages: [...languages] };
+    for (const runtime of this.runtimes.values()) {
+      runtime.setChannelDirectory(this.channelDirectory);
+    }
+  }
+
+  /** Applies the farming schedule and manual pause to every account. */
+  setFarmSchedule(schedule: FarmSchedule, pauseUntil: number | null) {
+    this.farmSchedule = { schedule, pauseUntil };
+    for (const runtime of this.runtimes.values()) {
+      runtime.setFarmSchedule(schedule, pauseUntil);
+    }
+  }
+
+  async setAccountProxy(id: string, url: string): Promise<AccountsState> {
+    if (!this.runtimes.has(id)) {
+      throw new Error(`Unknown account: ${id}`);
+    }
+    await this.commit(setAccountProxy(this.registry, id, url));
+    return this.getState();
+  }
+
+  async switchTo(id: string): Promise<AccountsState> {
+    if (!this.runtimes.has(id)) {
+      throw new Error(`Unknown account: ${id}`);
+    }
+    await this.commit(setActiveAccount(this.registry, id));
+    return this.getState();
+  }
+
+  async remove(id: string): Promise<AccountsState> {
+    if (!this.runtimes.has(id)) {
+      throw new Error(`Unknown account: ${id}`);
+    }
+    this.disposeRuntime(id);
+    await removeAccountData(id);
+    await this.commit(removeAccount(this.registry, id));
+    return this.getState();
+  }
+
+  private async commit(next: AccountRegistry) {
+    this.registry = await saveAccountRegistry(next);
+    this.applyForeground();
+    this.applyProxies();
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+
+  private applyForeground() {
+    for (const [id, runtime] of this.runtimes) {
+      runtime.setBackground(id !== this.registry.activeAccountId);
+    }
+  }
+
+  private effectiveProxy(id: string): string {
+    const account = this.registry.accounts.find((entry) => entry.id === id);
+    return account?.proxyUrl ?? this.proxyUrl;
+  }
+
+  private applyProxies() {
+    for (const [id, runtime] of this.runtimes) {
+      runtime.proxy.set(this.effectiveProxy(id));
+    }
+  }
+
+  private async refreshDisplayName(id: string) {
+    const runtime = this.runtimes.get(id);
+    if (!runtime) return;
+    try {
+      const profile = await runtime.twitch.getProfile();
+      const current = this.registry.accounts.find((account) => account.id === id);
+      if (!current || current.displayName === profile.displayName) return;
+      await this.commit(
+        upsertAccount(this.registry, {
+          ...current,
+          login: profile.login || current.login,
+          displayName: profile.displayName,
+        }).registry,
+      );
+    } catch (err) {
+      console.warn(`accounts: profile lookup failed for ${id}`, err);
+    }
+  }
+
+  private createRuntime(id: string): AccountRuntime {
+    const runtime = new AccountRuntime(
+      id,
+      accountSessionStore(id),
+      accountStatsStore(id),
+      accountReliabilityStore(id),
+      accountClaimLedgerStore(id),
+      accountClaimQueueStore(id),
+      this.trackerMode,
+      {
+        gqlScheduler: this.gqlScheduler,
+        persistedQueries: this.persistedQueries,
+        trafficRecorder: this.trafficRecorder,
+      },
+      this.effectiveProxy(id),
+    );
+    runtime.setChannelDirectory(this.channelDirectory);
+    runtime.setFarmSchedule(this.farmSchedule.schedule, this.farmSchedule.pauseUntil);
+    this.runtimes.set(id, runtime);
+    for (const observer of this.observers) {
+      this.attachObserver(observer, runtime);
+    }
+    return runtime;
+  }
+
+  private attachObserver(observer: RuntimeObserver, runtime: AccountRuntime) {
+    const cleanup = observer(runtime);
+    if (!cleanup) return;
+    const list = this.observerCleanups.get(runtime.id) ?? [];
+    list.push(cleanup);
+    this.observerCleanups.set(runtime.id, list);
+  }
+
+  private disposeRuntime(id: string) {
+    for (const cleanup of this.observerCleanups.get(id) ?? []) {
+      cleanup();
+    }
+    this.observerCleanups.delete(id);
+    this.runtimes.get(id)?.dispose();
+    this.runtimes.delete(id);
+  }
+}
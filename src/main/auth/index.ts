@@ -1,12 +1,9 @@
 import { BrowserWindow, shell } from "electron";
-import {
-  TWITCH_CLIENT_ID,
-  TWITCH_OAUTH_DEVICE_URL,
-  TWITCH_OAUTH_TOKEN_URL,
-  TWITCH_ACTIVATE_URL,
-} from "../config";
-import { saveSession } from "../core/storage";
+import { TWITCH_CLIENT_ID, twitchEndpoints } from "../config";
+import type { SessionStore } from "../core/storage";
 import { ensureSessionIds } from "../core/session";
+import { ProxyRoute } from "../twitch/proxy";
+import { parseProxyUrl } from "../../shared/proxy";
 
 export interface AuthResult {
   accessToken: string;
@@ -15,20 +12,53 @@ export interface AuthResult {
   scopes: string[];
 }
 
+/**
+ * Chromium takes proxy rules without credentials; HTTP proxy credentials are
+ * answered from the popup's login event. Chromium cannot authenticate to a
+ * SOCKS5 proxy, so the popup needs one that accepts it without credentials.
+ */
+const popupProxyConfig = (url: string): Electron.ProxyConfig => {
+  const config = parseProxyUrl(url);
+  if (!config) return { mode: "direct" };
+  return { proxyRules: `${config.protocol}://${config.host}:${config.port}` };
+};
+
 export class AuthController {
   private popup: BrowserWindow | null = null;
   private log = (...args: unknown[]) => console.log("[Auth]", ...args);
 
-  async login(): Promise<AuthResult> {
+  /**
+   * Runs the device-code flow and writes the resulting session into `store`.
+   * `partition` isolates the popup's cookie jar so linking a second account
+   * does not silently reuse the first account's twitch.tv web login.
+   * `proxyUrl` routes the token requests and the popup through a proxy.
+   */
+  async login(
+    store: SessionStore,
+    opts: { partition?: string; proxyUrl?: string } = {},
+  ): Promise<AuthResult> {
+    const proxy = new ProxyRoute(opts.proxyUrl);
+    try {
+      return await this.runLogin(store, proxy, opts.partition);
+    } finally {
+      proxy.dispose();
+    }
+  }
+
+  private async runLogin(
+    store: SessionStore,
+    proxy: ProxyRoute,
+    partition: string | undefined,
+  ): Promise<AuthResult> {
     await this.ensureSinglePopupClosed();
 
-    const ids = await ensureSessionIds();
+    const ids = await ensureSessionIds(store);
 
     // 1) Request device code
-    const device = await this.requestDeviceCode();
+    const device = await this.requestDeviceCode(proxy);
 
     // 2) Open verification URL inside Electron window to capture cookies
-    const verifyUrl = device.verification_uri || TWITCH_ACTIVATE_URL;
+    const verifyUrl = device.verification_uri || twitchEndpoints.activate;
     this.popup = new BrowserWindow({
       width: 520,
       height: 760,
@@ -36,6 +66,7 @@ export class AuthController {
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
+        partition,
       },
       title: "Twitch Login",
     });
@@ -47,6 +78,13 @@ export class AuthController {
 
     const cookieStore = new Map<string, string>();
     const cookieSession = this.popup.webContents.session;
+    await cookieSession.setProxy(popupProxyConfig(proxy.url));
+    const proxyCredentials = parseProxyUrl(proxy.url);
+    this.popup.webContents.on("login", (event, _details, authInfo, callback) => {
+      if (!authInfo.isProxy || !proxyCredentials?.username) return;
+      event.preventDefault();
+      callback(proxyCredentials.username, proxyCredentials.password ?? "");
+    });
     const cookieListener = (_event: any, cookie: Electron.Cookie) => {
       if (!cookie.domain || !cookie.domain.includes("twitch.tv")) return;
       cookieStore.set(cookie.name, cookie.value);
@@ -63,7 +101,7 @@ export class AuthController {
 
     try {
       // 3) Poll token endpoint until user confirms or code expires
-      const result = await this.pollForToken(device, () => cancelled);
+      const result = await this.pollForToken(proxy, device, () => cancelled);
 
       // collect cookies from session (changed listener may miss some)
       try {
@@ -80,7 +118,7 @@ export class AuthController {
       // fetch validate info to get login name and add auth-token/login cookies explicitly
       let loginName: string | undefined;
       try {
-        const validateRes = await fetch("https://id.twitch.tv/oauth2/validate", {
+        const validateRes = await proxy.fetch(twitchEndpoints.validate, {
           headers: { Authorization: `OAuth ${result.accessToken}` },
         });
         const validateJson = (await validateRes.json()) as any;
@@ -96,7 +134,7 @@ export class AuthController {
       }
       const cookieHeader = cookiesList.join("; ");
 
-      await saveSession({
+      await store.save({
         accessToken: result.accessToken,
         refreshToken: result.refreshToken,
         expiresAt: Date.now() + result.expiresIn * 1000,
@@ -118,14 +156,14 @@ export class AuthController {
     }
   }
 
-  private async requestDeviceCode(): Promise<{
+  private async requestDeviceCode(proxy: ProxyRoute): Promise<{
     device_code: string;
     user_code: string;
     verification_uri: string;
     expires_in: number;
     interval: number;
   }> {
-    const res = await fetch(TWITCH_OAUTH_DEVICE_URL, {
+    const res = await proxy.fetch(twitchEndpoints.oauthDevice, {
       method: "POST",
       headers: {
         "Client-Id": TWITCH_CLIENT_ID,
@@ -143,6 +181,7 @@ export class AuthController {
   }
 
   private async pollForToken(
+    proxy: ProxyRoute,
     device: {
       device_code: string;
       user_code: string;
@@ -162,7 +201,7 @@ export class AuthController {
       }
       await new Promise((r) => setTimeout(r, intervalMs));
 
-      const res = await fetch(TWITCH_OAUTH_TOKEN_URL, {
+      const res = await proxy.fetch(twitchEndpoints.oauthToken, {
         method: "POST",
         headers: {
           "Client-Id": TWITCH_CLIENT_ID,
@@ -4,9 +4,75 @@ import { randomInt } from "node:crypto";
 export const TWITCH_CLIENT_ID = process.env.TWITCH_CLIENT_ID ?? "kd1unb4b3q4t58fwlpcbzcbnm76a8fp";
 // Optional: needed for refresh_token grant. Leave unset if you cannot store secrets.
 export const TWITCH_CLIENT_SECRET = process.env.TWITCH_CLIENT_SECRET;
-export const TWITCH_OAUTH_DEVICE_URL = "https://id.twitch.tv/oauth2/device";
-export const TWITCH_OAUTH_TOKEN_URL = "https://id.twitch.tv/oauth2/token";
-export const TWITCH_ACTIVATE_URL = "https://www.twitch.tv/activate";
+
+export type TwitchEndpoints = {
+  gql: string;
+  pubsub: string;
+  validate: string;
+  oauthDevice: string;
+  oauthToken: string;
+  activate: string;
+  /** Client-Integrity token endpoint (only used with the web client id). */
+  integrity: string;
+  helix: string;
+  /** www.twitch.tv; fetched for baseline cookies when a session has none. */
+  web: string;
+};
+
+const DEFAULT_TWITCH_ENDPOINTS: TwitchEndpoints = {
+  gql: "https://gql.twitch.tv/gql",
+  pubsub: "wss://pubsub-edge.twitch.tv/v1",
+  validate: "https://id.twitch.tv/oauth2/validate",
+  oauthDevice: "https://id.twitch.tv/oauth2/device",
+  oauthToken: "https://id.twitch.tv/oauth2/token",
+  activate: "https://www.twitch.tv/activate",
+  integrity: "https://gql.twitch.tv/integrity",
+  helix: "https://api.twitch.tv/helix",
+  web: "https://www.twitch.tv",
+};
+
+/** Path layout of a local stand-in server (fake Twitch, replay) rooted at `base`. */
+export function twitchEndpointsForBase(base: string): TwitchEndpoints {
+  const root = base.replace(/\/+$/, "");
+  return {
+    gql: `${root}/gql`,
+    pubsub: `${root.replace(/^http/, "ws")}/pubsub`,
+    validate: `${root}/oauth2/validate`,
+    oauthDevice: `${root}/oauth2/device`,
+    oauthToken: `${root}/oauth2/token`,
+    activate: `${root}/activate`,
+    integrity: `${root}/integrity`,
+    helix: `${root}/helix`,
+    web: root,
+  };
+}
+
+const baseEndpoints = process.env.DROPPILOT_TWITCH_BASE_URL
+  ? twitchEndpointsForBase(process.env.DROPPILOT_TWITCH_BASE_URL)
+  : DEFAULT_TWITCH_ENDPOINTS;
+
+/**
+ * Every Twitch endpoint the main process talks to. Read at call time, so
+ * `overrideTwitchEndpoints` (or DROPPILOT_TWITCH_BASE_URL at startup) redirects
+ * every client, socket and auth flow created afterwards to a stand-in server.
+ */
+export const twitchEndpoints: TwitchEndpoints = {
+  ...baseEndpoints,
+  gql: process.env.TWITCH_GQL_URL ?? baseEndpoints.gql,
+  pubsub: process.env.TWITCH_PUBSUB_URL ?? baseEndpoints.pubsub,
+  validate: process.env.TWITCH_VALIDATE_URL ?? baseEndpoints.validate,
+};
+
+export function overrideTwitchEndpoints(overrides: Partial<TwitchEndpoints>) {
+  Object.assign(twitchEndpoints, overrides);
+}
+
+// Record every GQL/PubSub exchange to this JSONL file (redacted) for bug reports.
+export const TRAFFIC_RECORD_FILE = process.env.DROPPILOT_RECORD_TRAFFIC;
+// Serve a recording from a local stand-in server instead of talking to Twitch.
+export const TRAFFIC_REPLAY_FILE = process.env.DROPPILOT_REPLAY_TRAFFIC;
+// Run against the built-in fake Twitch server: "1" for the demo scenario or a scenario JSON file.
+export const FAKE_TWITCH_SCENARIO = process.env.DROPPILOT_FAKE_TWITCH;
 
 const TWITCH_ANDROID_USER_AGENTS = [
   "Dalvik/2.1.0 (Linux; U; Android 16; SM-S911B Build/TP1A.220624.014) tv.twitch.android.app/25.3.0/2503006",
@@ -27,7 +93,5 @@ const pickUserAgent = (list: string[]) => list[randomInt(0, list.length)];
 export const TWITCH_WEB_USER_AGENT =
   process.env.TWITCH_WEB_USER_AGENT ?? pickUserAgent(TWITCH_ANDROID_USER_AGENTS);
 
-// Twitch Integrity endpoint (used to obtain Client-Integrity header for GQL when using the web client)
-export const TWITCH_INTEGRITY_URL = "https://gql.twitch.tv/integrity";
 // Optional manual cookie override (e.g., "auth-token=...; persistent=...; login=...")
 export const TWITCH_COOKIE_OVERRIDE = process.env.TWITCH_COOKIES;
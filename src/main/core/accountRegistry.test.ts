@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeRegistry,
+  upsertAccount,
+  removeAccount,
+  setAccountProxy,
+  setActiveAccount,
+  type AccountRegistry,
+} from "./accountRegistry";
+
+const base: AccountRegistry = {
+  activeAccountId: "acc-1",
+  accounts: [
+    { id: "acc-1", login: "alpha", addedAt: 1 },
+    { id: "acc-2", login: "beta", addedAt: 2 },
+  ],
+};
+
+describe("normalizeRegistry", () => {
+  it("returns an empty registry for garbage input", () => {
+    expect(normalizeRegistry(null)).toEqual({ activeAccountId: null, accounts: [] });
+    expect(normalizeRegistry("nope")).toEqual({ activeAccountId: null, accounts: [] });
+  });
+
+  it("drops malformed and duplicate entries", () => {
+    const result = normalizeRegistry({
+      activeAccountId: "acc-1",
+      accounts: [
+        { id: "acc-1", login: "Alpha", addedAt: 5 },
+        { id: "acc-1", login: "dupe" },
+        { id: "../evil", login: "x" },
+        { login: "no-id" },
+      ],
+    });
+    expect(result.accounts).toEqual([
+      { id: "acc-1", login: "alpha", displayName: undefined, addedAt: 5 },
+    ]);
+  });
+
+  it("falls back to the first account when the active id is dangling", () => {
+    const result = normalizeRegistry({ ...base, activeAccountId: "missing" });
+    expect(result.activeAccountId).toBe("acc-1");
+  });
+});
+
+describe("upsertAccount", () => {
+  it("appends a new account and activates it when none is active", () => {
+    const { registry, id } = upsertAccount(
+      { activeAccountId: null, accounts: [] },
+      { id: "acc-9", login: "Gamma", addedAt: 9 },
+    );
+    expect(id).toBe("acc-9");
+    expect(registry.activeAccountId).toBe("acc-9");
+    expect(registry.accounts[0].login).toBe("gamma");
+  });
+
+  it("matches an existing account by login instead of duplicating it", () => {
+    const { registry, id } = upsertAccount(base, {
+      id: "acc-new",
+      login: "BETA",
+      displayName: "Beta",
+      addedAt: 10,
+    });
+    expect(id).toBe("acc-2");
+    expect(registry.accounts).toHaveLength(2);
+    expect(registry.accounts[1]).toMatchObject({ id: "acc-2", displayName: "Beta", addedAt: 2 });
+  });
+});
+
+describe("removeAccount / setActiveAccount", () => {
+  it("moves the active pointer when removing the active account", () => {
+    const next = removeAccount(base, "acc-1");
+    expect(next.accounts.map((a) => a.id)).toEqual(["acc-2"]);
+    expect(next.activeAccountId).toBe("acc-2");
+  });
+
+  it("clears the active pointer when the last account is removed", () => {
+    const next = removeAccount(removeAccount(base, "acc-1"), "acc-2");
+    expect(next).toEqual({ activeAccountId: null, accounts: [] });
+  });
+
+  it("ignores unknown ids when switching", () => {
+    expect(setActiveAccount(base, "nope")).toBe(base);
+    expect(setActiveAccount(base, "acc-2").activeAccountId).toBe("acc-2");
+  });
+});
+
+describe("setAccountProxy", () => {
+  it("stores a normalized override and clears it again", () => {
+    const withProxy = setAccountProxy(base, "acc-2", "socks5h://gw:9050");
+    expect(withProxy.accounts[1].proxyUrl).toBe("socks5://gw:9050");
+    expect(withProxy.accounts[0].proxyUrl).toBeUndefined();
+    expect(setAccountProxy(withProxy, "acc-2", "").accounts[1].proxyUrl).toBeUndefined();
+    expect(setAccountProxy(base, "nope", "http://proxy:8080")).toBe(base);
+  });
+
+  it("drops unusable overrides when loading the registry", () => {
+    const registry = normalizeRegistry({
+      accounts: [{ id: "acc-1", login: "alpha", addedAt: 1, proxyUrl: "ftp://nope" }],
+    });
+    expect(registry.accounts[0].proxyUrl).toBeUndefined();
+  });
+});
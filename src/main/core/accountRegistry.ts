@@ -0,0 +1,125 @@
+import { normalizeProxyUrl } from "../../shared/proxy";
+
+export type AccountEntry = {
+  id: string;
+  login: string;
+  displayName?: string;
+  addedAt: number;
+  /** Overrides the global proxy setting for this account's Twitch traffic. */
+  proxyUrl?: string;
+};
+
+export type AccountRegistry = {
+  activeAccountId: string | null;
+  accounts: AccountEntry[];
+};
+
+export const emptyRegistry: AccountRegistry = { activeAccountId: null, accounts: [] };
+
+const ID_RE = /^[a-z0-9-]{4,64}$/i;
+
+export function isValidAccountId(value: unknown): value is string {
+  return typeof value === "string" && ID_RE.test(value);
+}
+
+function normalizeEntry(input: unknown): AccountEntry | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  if (!isValidAccountId(raw.id)) return null;
+  const login = typeof raw.login === "string" ? raw.login.trim().toLowerCase() : "";
+  const displayName = typeof raw.displayName === "string" ? raw.displayName.trim() : "";
+  const addedAt = Number(raw.addedAt);
+  return {
+    id: raw.id,
+    login,
+    displayName: displayName || undefined,
+    addedAt: Number.isFinite(addedAt) && addedAt > 0 ? addedAt : 0,
+    proxyUrl: normalizeProxyUrl(raw.proxyUrl) || undefined,
+  };
+}
+
+/**
+ * Sanitizes a parsed accounts.json. Drops malformed and duplicate entries and
+ * repairs a dangling activeAccountId by falling back to the first account.
+ */
+export function normalizeRegistry(input: unknown): AccountRegistry {
+  if (!input || typeof input !== "object") return { ...emptyRegistry, accounts: [] };
+  const raw = input as Record<string, unknown>;
+  const seen = new Set<string>();
+  const accounts: AccountEntry[] = [];
+  for (const entry of Array.isArray(raw.accounts) ? raw.accounts : []) {
+    const normalized = normalizeEntry(entry);
+    if (!normalized || seen.has(normalized.id)) continue;
+    seen.add(normalized.id);
+    accounts.push(normalized);
+  }
+  const requested = typeof raw.activeAccountId === "string" ? raw.activeAccountId : null;
+  const activeAccountId = requested && seen.has(requested) ? requested : (accounts[0]?.id ?? null);
+  return { activeAccountId, accounts };
+}
+
+/**
+ * Inserts or updates an account. Accounts are matched by id first and by login
+ * second, so re-linking the same Twitch user does not create a duplicate.
+ * Returns the id of the stored entry alongside the next registry.
+ */
+export function upsertAccount(
+  registry: AccountRegistry,
+  entry: AccountEntry,
+): { registry: AccountRegistry; id: string } {
+  const login = entry.login.trim().toLowerCase();
+  const existing =
+    registry.accounts.find((account) => account.id === entry.id) ??
+    (login ? registry.accounts.find((account) => account.login === login) : undefined);
+  if (existing) {
+    const updated: AccountEntry = {
+      ...existing,
+      login: login || existing.login,
+      displayName: entry.displayName ?? existing.displayName,
+    };
+    return {
+      id: existing.id,
+      registry: {
+        ...registry,
+        accounts: registry.accounts.map((account) =>
+          account.id === existing.id ? updated : account,
+        ),
+      },
+    };
+  }
+  return {
+    id: entry.id,
+    registry: {
+      activeAccountId: registry.activeAccountId ?? entry.id,
+      accounts: [...registry.accounts, { ...entry, login }],
+    },
+  };
+}
+
+export function removeAccount(registry: AccountRegistry, id: string): AccountRegistry {
+  const accounts = registry.accounts.filter((account) => account.id !== id);
+  const activeAccountId =
+    registry.activeAccountId === id ? (accounts[0]?.id ?? null) : registry.activeAccountId;
+  return { activeAccountId, accounts };
+}
+
+/** Sets or clears (empty/invalid URL) an account's proxy override. */
+export function setAccountProxy(
+  registry: AccountRegistry,
+  id: string,
+  proxyUrl: string,
+): AccountRegistry {
+  if (!registry.accounts.some((account) => account.id === id)) return registry;
+  const normalized = normalizeProxyUrl(proxyUrl) || undefined;
+  return {
+    ...registry,
+    accounts: registry.accounts.map((account) =>
+      account.id === id ? { ...account, proxyUrl: normalized } : account,
+    ),
+  };
+}
+
+export function setActiveAccount(registry: AccountRegistry, id: string): AccountRegistry {
+  if (!registry.accounts.some((account) => account.id === id)) return registry;
+  return { ...registry, activeAccountId: id };
+}
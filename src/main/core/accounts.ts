@@ -0,0 +1,125 @@
+import { app } from "electron";
+import { promises as fs } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { createSessionStore, legacySessionFile, type SessionStore } from "./storage";
+import { createStatsStore, type StatsStore } from "./stats";
+import { createChannelReliabilityStore, type ChannelReliabilityStore } from "./channelReliability";
+import { createClaimLedgerStore, type ClaimLedgerStore } from "./claimLedger";
+import { createClaimQueueStore, type ClaimQueueStore } from "./claimQueue";
+import {
+  emptyRegistry,
+  isValidAccountId,
+  normalizeRegistry,
+  type AccountRegistry,
+} from "./accountRegistry";
+
+const registryFile = join(app.getPath("userData"), "accounts.json");
+const accountsDir = join(app.getPath("userData"), "accounts");
+const legacyStatsFile = join(app.getPath("userData"), "stats.json");
+
+export function newAccountId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+export function accountDir(id: string): string {
+  if (!isValidAccountId(id)) {
+    throw new Error(`Invalid account id: ${id}`);
+  }
+  return join(accountsDir, id);
+}
+
+// One store per account so every consumer shares the decrypted-session cache.
+const sessionStores = new Map<string, SessionStore>();
+
+export function accountSessionStore(id: string): SessionStore {
+  let store = sessionStores.get(id);
+  if (!store) {
+    store = createSessionStore(join(accountDir(id), "session.json"));
+    sessionStores.set(id, store);
+  }
+  return store;
+}
+
+/** Forces every account to re-read its session file (e.g. after a vault unlock). */
+export function invalidateSessionStores() {
+  for (const store of sessionStores.values()) {
+    store.invalidate();
+  }
+}
+
+export function accountStatsStore(id: string): StatsStore {
+  return createStatsStore(join(accountDir(id), "stats.json"));
+}
+
+export function accountReliabilityStore(id: string): ChannelReliabilityStore {
+  return createChannelReliabilityStore(join(accountDir(id), "channel-reliability.json"));
+}
+
+export function accountClaimLedgerStore(id: string): ClaimLedgerStore {
+  return createClaimLedgerStore(join(accountDir(id), "claim-ledger.json"));
+}
+
+export function accountClaimQueueStore(id: string): ClaimQueueStore {
+  return createClaimQueueStore(join(accountDir(id), "claim-queue.json"));
+}
+
+export async function removeAccountData(id: string): Promise<void> {
+  sessionStores.get(id)?.invalidate();
+  sessionStores.delete(id);
+  await fs.rm(accountDir(id), { recursive: true, force: true });
+}
+
+export async function saveAccountRegistry(registry: AccountRegistry): Promise<AccountRegistry> {
+  const normalized = normalizeRegistry(registry);
+  await fs.mkdir(app.getPath("userData"), { recursive: true });
+  await fs.writeFile(registryFile, JSON.stringify(normalized, null, 2), "utf-8");
+  return normalized;
+}
+
+async function readRegistryFile(): Promise<AccountRegistry | null> {
+  try {
+    const raw = await fs.readFile(registryFile, "utf-8");
+    return normalizeRegistry(JSON.parse(raw));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    console.warn("accounts: registry unreadable, starting empty", err);
+    return { ...emptyRegistry, accounts: [] };
+  }
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+  }
+}
+
+/**
+ * Single-account installs kept session.json and stats.json directly in
+ * userData. On first start with the registry, adopt them as the first account
+ * so existing users stay logged in and keep their stats.
+ */
+async function migrateLegacySession(): Promise<AccountRegistry> {
+  const legacy = await createSessionStore(legacySessionFile).load();
+  if (!legacy?.accessToken) {
+    return saveAccountRegistry({ ...emptyRegistry, accounts: [] });
+  }
+  const id = newAccountId();
+  await fs.mkdir(accountDir(id), { recursive: true });
+  await moveFile(legacySessionFile, join(accountDir(id), "session.json"));
+  await moveFile(legacyStatsFile, join(accountDir(id), "stats.json"));
+  console.log("accounts: migrated legacy session into account", id);
+  return saveAccountRegistry({
+    activeAccountId: id,
+    accounts: [{ id, login: legacy.loginName ?? "", addedAt: Date.now() }],
+  });
+}
+
+export async function loadAccountRegistry(): Promise<AccountRegistry> {
+  const existing = await readRegistryFile();
+  if (existing) return existing;
+  return migrateLegacySession();
+}
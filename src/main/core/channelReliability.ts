@@ -0,0 +1,29 @@
+import {
+  applyChannelReliabilityEvents,
+  normalizeChannelReliabilityLedger,
+  type ChannelReliabilityEvent,
+  type ChannelReliabilityLedger,
+} from "../../shared/channelReliability";
+import { createSerializedJsonStore } from "./jsonStore";
+
+export type ChannelReliabilityStore = {
+  load: () => Promise<ChannelReliabilityLedger>;
+  record: (events: ChannelReliabilityEvent[]) => Promise<ChannelReliabilityLedger>;
+  reset: () => Promise<ChannelReliabilityLedger>;
+};
+
+/**
+ * The reliability ledger is kept per account next to its stats. Main (watch
+ * pings) and the renderer (credits, stalls) both record into it.
+ */
+export function createChannelReliabilityStore(ledgerFile: string): ChannelReliabilityStore {
+  const store = createSerializedJsonStore(ledgerFile, normalizeChannelReliabilityLedger);
+  return {
+    load: store.load,
+    record: (events) =>
+      store.update((current) =>
+        applyChannelReliabilityEvents(current, Array.isArray(events) ? events : [], Date.now()),
+      ),
+    reset: () => store.save({}),
+  };
+}
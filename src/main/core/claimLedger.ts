@@ -0,0 +1,24 @@
+import {
+  normalizeClaimLedger,
+  recordClaimLedgerEntry,
+  type ClaimLedger,
+  type ClaimLedgerEntry,
+} from "../../shared/claimLedger";
+import { createSerializedJsonStore } from "./jsonStore";
+
+export type ClaimLedgerStore = {
+  load: () => Promise<ClaimLedger>;
+  record: (entry: ClaimLedgerEntry) => Promise<ClaimLedger>;
+};
+
+/**
+ * The claim ledger is kept per account next to its stats. Claims can land from
+ * several places at once (auto-claim, a manual claim, a PubSub claim event).
+ */
+export function createClaimLedgerStore(ledgerFile: string): ClaimLedgerStore {
+  const store = createSerializedJsonStore(ledgerFile, normalizeClaimLedger);
+  return {
+    load: store.load,
+    record: (entry) => store.update((current) => recordClaimLedgerEntry(current, entry)),
+  };
+}
@@ -0,0 +1,16 @@
+import { normalizeClaimQueueState, type ClaimQueueState } from "../../shared/claimQueue";
+import { createSerializedJsonStore } from "./jsonStore";
+
+export type ClaimQueueStore = {
+  load: () => Promise<ClaimQueueState>;
+  save: (state: ClaimQueueState) => Promise<ClaimQueueState>;
+};
+
+/**
+ * Pending claims and the claim audit log, per account. The queue keeps its
+ * state in memory and writes it after every change.
+ */
+export function createClaimQueueStore(queueFile: string): ClaimQueueStore {
+  const { load, save } = createSerializedJsonStore(queueFile, normalizeClaimQueueState);
+  return { load, save };
+}
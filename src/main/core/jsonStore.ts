@@ -0,0 +1,53 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+
+export type SerializedJsonStore<T> = {
+  load: () => Promise<T>;
+  save: (value: T) => Promise<T>;
+  /** Applies `change` to the stored value; nothing is written when it returns the value unchanged. */
+  update: (change: (current: T) => T) => Promise<T>;
+};
+
+/**
+ * A JSON file that several writers share (main and the renderer, or claims
+ * landing from different places). Every read and write goes through one queue,
+ * so an update never works on a stale copy and an older write never lands
+ * after a newer one. A missing or unreadable file reads as `normalize(undefined)`.
+ */
+export function createSerializedJsonStore<T>(
+  file: string,
+  normalize: (raw: unknown) => T,
+): SerializedJsonStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const readValue = async (): Promise<T> => {
+    try {
+      return normalize(JSON.parse(await fs.readFile(file, "utf-8")));
+    } catch {
+      return normalize(undefined);
+    }
+  };
+
+  const writeValue = async (value: T) => {
+    await fs.mkdir(dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(value, null, 2), "utf-8");
+    return value;
+  };
+
+  return {
+    load: () => enqueue(readValue),
+    save: (value) => enqueue(() => writeValue(value)),
+    update: (change) =>
+      enqueue(async () => {
+        const current = await readValue();
+        const next = change(current);
+        return next === current ? current : writeValue(next);
+      }),
+  };
+}
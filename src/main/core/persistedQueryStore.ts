@@ -0,0 +1,49 @@
+import { app } from "electron";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import {
+  emptyPersistedQueryState,
+  normalizePersistedQueryOverrides,
+  normalizePersistedQueryState,
+  type PersistedQueryOverrides,
+  type PersistedQueryState,
+} from "../twitch/persistedQueries";
+
+const stateFile = join(app.getPath("userData"), "persisted-queries.json");
+
+/**
+ * Hand-edited file for hotfixing a rotated hash without waiting for a
+ * release: `{ "OperationName": ["<sha256>", ...] }`. Never written by the app.
+ */
+export const persistedQueryOverridesFile = join(
+  app.getPath("userData"),
+  "persisted-queries.override.json",
+);
+
+export async function loadPersistedQueryState(): Promise<PersistedQueryState> {
+  try {
+    return normalizePersistedQueryState(JSON.parse(await fs.readFile(stateFile, "utf-8")));
+  } catch {
+    return emptyPersistedQueryState();
+  }
+}
+
+export async function savePersistedQueryState(state: PersistedQueryState): Promise<void> {
+  await fs.mkdir(app.getPath("userData"), { recursive: true });
+  await fs.writeFile(stateFile, JSON.stringify(state, null, 2), "utf-8");
+}
+
+export async function loadPersistedQueryOverrides(): Promise<PersistedQueryOverrides> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(persistedQueryOverridesFile, "utf-8");
+  } catch {
+    return {};
+  }
+  try {
+    return normalizePersistedQueryOverrides(JSON.parse(raw));
+  } catch (err) {
+    console.warn("persisted-queries: override file is not valid JSON, ignoring", err);
+    return {};
+  }
+}
@@ -1,15 +1,15 @@
-import { loadSession, saveSession, type SessionData } from "./storage";
+import type { SessionData, SessionStore } from "./storage";
 import { randomBytes } from "node:crypto";
 
 function hexId(bytes = 16): string {
   return randomBytes(bytes).toString("hex");
 }
 
-export async function ensureSessionIds(): Promise<{
+export async function ensureSessionIds(store: SessionStore): Promise<{
   deviceId: string;
   sessionId: string;
 }> {
-  const existing = await loadSession();
+  const existing = await store.load();
   const deviceId = existing?.deviceId ?? hexId(16);
   const sessionId = existing?.sessionId ?? hexId(16);
   if (!existing) {
@@ -17,7 +17,7 @@ export async function ensureSessionIds(): Promise<{
     return { deviceId, sessionId };
   }
   if (!existing.deviceId || !existing.sessionId) {
-    await saveSession({
+    await store.save({
       ...existing,
       deviceId,
       sessionId,
@@ -26,8 +26,8 @@ export async function ensureSessionIds(): Promise<{
   return { deviceId, sessionId };
 }
 
-export async function updateSession(partial: Partial<SessionData>) {
-  const existing = await loadSession();
+export async function updateSession(store: SessionStore, partial: Partial<SessionData>) {
+  const existing = await store.load();
   if (!existing) {
     const accessToken = typeof partial.accessToken === "string" ? partial.accessToken.trim() : "";
     if (!accessToken) {
@@ -39,11 +39,11 @@ export async function updateSession(partial: Partial<SessionData>) {
       expiresAt: typeof partial.expiresAt === "number" ? partial.expiresAt : Date.now(),
       scopes: Array.isArray(partial.scopes) ? partial.scopes : [],
     };
-    await saveSession({
+    await store.save({
       ...safe,
       ...partial,
     });
     return;
   }
-  await saveSession({ ...existing, ...partial });
+  await store.save({ ...existing, ...partial });
 }
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  deriveKey,
+  isSessionEnvelope,
+  newSalt,
+  openWithKey,
+  openWithOs,
+  sealWithKey,
+  sealWithOs,
+  type OsCipher,
+} from "./sessionCrypto";
+
+const plain = JSON.stringify({ accessToken: "secret-token", scopes: [] });
+
+// Reversible stand-in for safeStorage; enough to exercise the envelope plumbing.
+const fakeOs: OsCipher = {
+  encrypt: (text) => Buffer.from(text, "utf8").reverse(),
+  decrypt: (data) => Buffer.from(data).reverse().toString("utf8"),
+};
+
+describe("passphrase envelopes", () => {
+  const salt = newSalt();
+  const key = deriveKey("correct horse", salt);
+
+  it("round-trips and hides the plaintext", () => {
+    const envelope = sealWithKey(plain, key);
+    expect(envelope.scheme).toBe("passphrase");
+    expect(JSON.stringify(envelope)).not.toContain("secret-token");
+    expect(openWithKey(envelope, key)).toBe(plain);
+  });
+
+  it("uses a fresh IV per seal", () => {
+    const a = sealWithKey(plain, key);
+    const b = sealWithKey(plain, key);
+    expect(a.scheme === "passphrase" && b.scheme === "passphrase" && a.iv !== b.iv).toBe(true);
+  });
+
+  it("rejects the wrong passphrase", () => {
+    const envelope = sealWithKey(plain, key);
+    expect(() => openWithKey(envelope, deriveKey("wrong", salt))).toThrow();
+  });
+
+  it("rejects tampered ciphertext", () => {
+    const envelope = sealWithKey(plain, key);
+    if (envelope.scheme !== "passphrase") throw new Error("unexpected scheme");
+    const data = Buffer.from(envelope.data, "base64");
+    data[0] ^= 0xff;
+    expect(() => openWithKey({ ...envelope, data: data.toString("base64") }, key)).toThrow();
+  });
+});
+
+describe("keychain envelopes", () => {
+  it("round-trips through the OS cipher", () => {
+    const envelope = sealWithOs(plain, fakeOs);
+    expect(envelope.scheme).toBe("keychain");
+    expect(openWithOs(envelope, fakeOs)).toBe(plain);
+  });
+
+  it("refuses to open an envelope with the wrong scheme", () => {
+    const key = deriveKey("pw", newSalt());
+    expect(() => openWithOs(sealWithKey(plain, key), fakeOs)).toThrow();
+    expect(() => openWithKey(sealWithOs(plain, fakeOs), key)).toThrow();
+  });
+});
+
+describe("isSessionEnvelope", () => {
+  it("distinguishes envelopes from plaintext sessions", () => {
+    expect(isSessionEnvelope(sealWithOs(plain, fakeOs))).toBe(true);
+    expect(isSessionEnvelope(JSON.parse(plain))).toBe(false);
+    expect(isSessionEnvelope({ v: 1, scheme: "passphrase", data: "x" })).toBe(false);
+    expect(isSessionEnvelope(null)).toBe(false);
+  });
+});
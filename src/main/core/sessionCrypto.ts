@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+
+/**
+ * On-disk format of an encrypted session file.
+ *
+ * - `keychain`: sealed by the OS (Electron safeStorage: DPAPI on Windows,
+ *   Keychain on macOS, libsecret/kwallet on Linux).
+ * - `passphrase`: AES-256-GCM with a key derived from a user passphrase, for
+ *   machines without a usable keychain.
+ */
+export type SessionEnvelope =
+  | { v: 1; scheme: "keychain"; data: string }
+  | { v: 1; scheme: "passphrase"; iv: string; tag: string; data: string };
+
+export type OsCipher = {
+  encrypt: (plain: string) => Buffer;
+  decrypt: (data: Buffer) => string;
+};
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+export const SALT_BYTES = 16;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+export function isSessionEnvelope(value: unknown): value is SessionEnvelope {
+  if (!value || typeof value !== "object") return false;
+  const raw = value as Record<string, unknown>;
+  if (raw.v !== 1 || !isString(raw.data)) return false;
+  if (raw.scheme === "keychain") return true;
+  return raw.scheme === "passphrase" && isString(raw.iv) && isString(raw.tag);
+}
+
+export function newSalt(): Buffer {
+  return randomBytes(SALT_BYTES);
+}
+
+/** scrypt is deliberately slow; derive once per unlock and keep the key. */
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase.normalize("NFKC"), salt, KEY_BYTES);
+}
+
+export function sealWithKey(plain: string, key: Buffer): SessionEnvelope {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return {
+    v: 1,
+    scheme: "passphrase",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/** Throws when the key is wrong or the ciphertext was tampered with. */
+export function openWithKey(envelope: SessionEnvelope, key: Buffer): string {
+  if (envelope.scheme !== "passphrase") {
+    throw new Error("Session envelope is not passphrase-sealed");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export function sealWithOs(plain: string, cipher: OsCipher): SessionEnvelope {
+  return { v: 1, scheme: "keychain", data: cipher.encrypt(plain).toString("base64") };
+}
+
+export function openWithOs(envelope: SessionEnvelope, cipher: OsCipher): string {
+  if (envelope.scheme !== "keychain") {
+    throw new Error("Session envelope is not keychain-sealed");
+  }
+  return cipher.decrypt(Buffer.from(envelope.data, "base64"));
+}
@@ -0,0 +1,167 @@
+import { app, safeStorage } from "electron";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import {
+  deriveKey,
+  isSessionEnvelope,
+  newSalt,
+  openWithKey,
+  openWithOs,
+  sealWithKey,
+  sealWithOs,
+  type OsCipher,
+  type SessionEnvelope,
+} from "./sessionCrypto";
+
+export type SessionVaultMode = "keychain" | "passphrase";
+
+export type SessionVaultStatus = {
+  mode: SessionVaultMode;
+  locked: boolean;
+  /** False until a passphrase has been chosen on this machine. */
+  initialized: boolean;
+};
+
+export class SessionVaultLockedError extends Error {
+  constructor() {
+    super("Session vault is locked");
+    this.name = "SessionVaultLockedError";
+  }
+}
+
+/**
+ * Passphrase metadata. `check` is a sealed known value so a wrong passphrase
+ * is rejected at unlock time instead of silently failing every session read.
+ */
+type VaultFile = { v: 1; salt: string; check: SessionEnvelope };
+
+const vaultFile = join(app.getPath("userData"), "vault.json");
+const CHECK_VALUE = "droppilot-session-vault";
+
+let passphraseKey: Buffer | null = null;
+
+const osCipher: OsCipher = {
+  encrypt: (plain) => safeStorage.encryptString(plain),
+  decrypt: (data) => safeStorage.decryptString(data),
+};
+
+function keychainAvailable(): boolean {
+  try {
+    if (!safeStorage.isEncryptionAvailable()) return false;
+    // On Linux without a secret service, Chromium falls back to a hardcoded
+    // key ("basic_text"); that is obfuscation, not encryption.
+    if (process.platform === "linux") {
+      return safeStorage.getSelectedStorageBackend() !== "basic_text";
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getVaultMode(): SessionVaultMode {
+  return keychainAvailable() ? "keychain" : "passphrase";
+}
+
+async function readVaultFile(): Promise<VaultFile | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(vaultFile, "utf-8")) as VaultFile;
+    if (parsed?.v !== 1 || typeof parsed.salt !== "string" || !isSessionEnvelope(parsed.check)) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function getVaultStatus(): Promise<SessionVaultStatus> {
+  const mode = getVaultMode();
+  const initialized = mode === "keychain" || (await readVaultFile()) !== null;
+  return { mode, locked: mode === "passphrase" && !passphraseKey, initialized };
+}
+
+/**
+ * Unlocks passphrase mode for this app session. The first call on a machine
+ * sets the passphrase; later calls must match it.
+ */
+export async function unlockVault(passphrase: string): Promise<SessionVaultStatus> {
+  const secret = passphrase.trim();
+  if (secret.length < 8) {
+    throw new Error("Passphrase must be at least 8 characters");
+  }
+  const existing = await readVaultFile();
+  if (!existing) {
+    const salt = newSalt();
+    const key = deriveKey(secret, salt);
+    const file: VaultFile = {
+      v: 1,
+      salt: salt.toString("base64"),
+      check: sealWithKey(CHECK_VALUE, key),
+    };
+    await fs.mkdir(app.getPath("userData"), { recursive: true });
+    await fs.writeFile(vaultFile, JSON.stringify(file, null, 2), "utf-8");
+    passphraseKey = key;
+    return getVaultStatus();
+  }
+  const key = deriveKey(secret, Buffer.from(existing.salt, "base64"));
+  let valid = false;
+  try {
+    valid = openWithKey(existing.check, key) === CHECK_VALUE;
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new Error("Wrong passphrase");
+  }
+  passphraseKey = key;
+  return getVaultStatus();
+}
+
+/** Seals with the keychain when available, else with the unlocked passphrase key. */
+export function sealSession(plain: string): SessionEnvelope {
+  if (getVaultMode() === "keychain") {
+    return sealWithOs(plain, osCipher);
+  }
+  if (!passphraseKey) {
+    throw new SessionVaultLockedError();
+  }
+  return sealWithKey(plain, passphraseKey);
+}
+
+/**
+ * Opens an envelope of either scheme. Returns null when the needed key is not
+ * available (vault locked, or the keychain that sealed it is gone).
+ */
+export function openSession(envelope: SessionEnvelope): string | null {
+  try {
+    if (envelope.scheme === "keychain") {
+      return keychainAvailable() ? openWithOs(envelope, osCipher) : null;
+    }
+    return passphraseKey ? openWithKey(envelope, passphraseKey) : null;
+  } catch (err) {
+    console.warn("session-vault: unable to open session", err);
+    return null;
+  }
+}
+
+/** True when `envelope` was sealed with something other than the current mode. */
+export function needsReseal(envelope: SessionEnvelope): boolean {
+  return envelope.scheme !== getVaultMode();
+}
+
+/**
+ * Call after app "ready" (safeStorage reports unavailable before that).
+ * Headless/unattended runs can supply the passphrase via the environment.
+ */
+export async function initSessionVault(): Promise<SessionVaultStatus> {
+  const envPassphrase = process.env.DROPPILOT_SESSION_PASSPHRASE;
+  if (envPassphrase && getVaultMode() === "passphrase" && !passphraseKey) {
+    try {
+      return await unlockVault(envPassphrase);
+    } catch (err) {
+      console.warn("session-vault: DROPPILOT_SESSION_PASSPHRASE rejected", err);
+    }
+  }
+  return getVaultStatus();
+}
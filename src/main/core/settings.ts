@@ -7,17 +7,78 @@ import {
   normalizeUpdateChannel,
   type UpdateChannel,
 } from "../../shared/updateChannels";
+import {
+  normalizeProxyUrl,
+  restoreProxyCredentials,
+  stripProxyCredentials,
+} from "../../shared/proxy";
+import { normalizePriorityRules, type PriorityRule } from "../../shared/priorityRules";
+import {
+  normalizePriorityProfiles,
+  reconcilePriorityProfiles,
+  type PriorityProfile,
+} from "../../shared/priorityProfiles";
+import {
+  DEFAULT_PRIORITY_STRATEGY,
+  normalizePriorityStrategy,
+  type PriorityStrategy,
+} from "../../shared/priorityStrategy";
+import {
+  DEFAULT_CHANNEL_SCORING,
+  normalizeChannelScoring,
+  parseLanguageList,
+  type ChannelScoringSettings,
+} from "../../shared/channelScoring";
+import {
+  DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  normalizeChannelDirectoryPages,
+} from "../../shared/channelDirectory";
+import { normalizeChannelLogins } from "../../shared/streamerLists";
+import {
+  DEFAULT_FARM_SCHEDULE,
+  normalizeFarmPauseUntil,
+  normalizeFarmSchedule,
+  type FarmSchedule,
+} from "../../shared/farmSchedule";
+import {
+  DEFAULT_WATCH_SLOTS,
+  normalizeWatchSlots,
+  type WatchSlotCount,
+} from "../../shared/watchSlots";
 
 export type SettingsData = {
-  priorityGames: string[];
+  /** Ordered priority rules; legacy plain game names migrate on load. */
+  priorityGames: PriorityRule[];
   excludeGames: string[];
   obeyPriority: boolean;
+  /** Ordering of actionable games: manual list or soonest-deadline first. */
+  priorityStrategy: PriorityStrategy;
+  /** Named snapshots of the priority settings, switchable from the tray. */
+  priorityProfiles: PriorityProfile[];
+  /** Profile the live priority settings belong to; null when none is active. */
+  activePriorityProfileId: string | null;
   language: Language;
   autoStart: boolean;
   autoClaim: boolean;
   autoSelect: boolean;
   autoSwitch: boolean;
   warmupEnabled: boolean;
+  /** Streams watched in parallel (1 or 2); each slot farms its own target. */
+  watchSlots: WatchSlotCount;
+  /** Weights the channel picker uses to rank live channels of the target game. */
+  channelScoring: ChannelScoringSettings;
+  /** Streamer logins the channel picker prefers across all games. */
+  favoriteChannels: string[];
+  /** Streamer logins that are never watched, even when a drop allows them. */
+  blockedChannels: string[];
+  /** Viewer-sorted directory pages fetched per game. */
+  channelDirectoryPages: number;
+  /** Broadcaster languages the directory is filtered to server-side; empty means all. */
+  channelLanguageFilter: string[];
+  /** Weekly blocks that limit auto-watch and mute notifications. */
+  farmSchedule: FarmSchedule;
+  /** End of a manual "pause for a while"; null when not paused. */
+  farmPauseUntil: number | null;
   updateChannel: UpdateChannel;
   refreshMinMs: number;
   refreshMaxMs: number;
@@ -37,6 +98,11 @@ export type SettingsData = {
   closeToTray: boolean;
   /** When true, minimizing the window hides it to the tray instead of leaving it in the taskbar. */
   minimizeToTray: boolean;
+  /**
+   * HTTP(S) or SOCKS5 proxy for all Twitch traffic ("" = direct). Accounts
+   * can override it in the account registry.
+   */
+  proxyUrl: string;
   /**
    * UI preferences. Durable here (the renderer's localStorage is only a fast
    * first-paint cache — file:// localStorage is not reliably persisted across
@@ -102,12 +168,23 @@ const defaultSettings: SettingsData = {
   priorityGames: [],
   excludeGames: [],
   obeyPriority: false,
+  priorityStrategy: DEFAULT_PRIORITY_STRATEGY,
+  priorityProfiles: [],
+  activePriorityProfileId: null,
   language: "de",
   autoStart: false,
   autoClaim: true,
   autoSelect: true,
   autoSwitch: true,
   warmupEnabled: true,
+  watchSlots: DEFAULT_WATCH_SLOTS,
+  channelScoring: DEFAULT_CHANNEL_SCORING,
+  favoriteChannels: [],
+  blockedChannels: [],
+  channelDirectoryPages: DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  channelLanguageFilter: [],
+  farmSchedule: DEFAULT_FARM_SCHEDULE,
+  farmPauseUntil: null,
   updateChannel: DEFAULT_UPDATE_CHANNEL,
   refreshMinMs: 3_600_000,
   refreshMaxMs: 4_200_000,
@@ -125,6 +202,7 @@ const defaultSettings: SettingsData = {
   allowUnlinkedGames: false,
   closeToTray: true,
   minimizeToTray: false,
+  proxyUrl: "",
   theme: null,
   accent: null,
   fontPair: "pro-console",
@@ -179,14 +257,22 @@ export async function loadSettings(): Promise<SettingsData> {
   try {
     const parsed = JSON.parse(source.raw);
     const refresh = normalizeRefreshIntervals(parsed?.refreshMinMs, parsed?.refreshMaxMs);
+    const priorityProfiles = normalizePriorityProfiles(parsed?.priorityProfiles, defaultSettings);
     return {
       ...defaultSettings,
-      priorityGames: Array.isArray(parsed?.priorityGames) ? parsed.priorityGames : [],
+      priorityGames: normalizePriorityRules(parsed?.priorityGames),
       excludeGames: Array.isArray(parsed?.excludeGames) ? parsed.excludeGames : [],
       obeyPriority:
         typeof parsed?.obeyPriority === "boolean"
           ? parsed.obeyPriority
           : defaultSettings.obeyPriority,
+      priorityStrategy: normalizePriorityStrategy(parsed?.priorityStrategy),
+      priorityProfiles,
+      activePriorityProfileId: priorityProfiles.some(
+        (profile) => profile.id === parsed?.activePriorityProfileId,
+      )
+        ? parsed.activePriorityProfileId
+        : null,
       language: parsed?.language === "en" ? "en" : "de",
       autoStart:
         typeof parsed?.autoStart === "boolean" ? parsed.autoStart : defaultSettings.autoStart,
@@ -200,6 +286,14 @@ export async function loadSettings(): Promise<SettingsData> {
         typeof parsed?.warmupEnabled === "boolean"
           ? parsed.warmupEnabled
           : defaultSettings.warmupEnabled,
+      watchSlots: normalizeWatchSlots(parsed?.watchSlots),
+      channelScoring: normalizeChannelScoring(parsed?.channelScoring),
+      favoriteChannels: normalizeChannelLogins(parsed?.favoriteChannels),
+      blockedChannels: normalizeChannelLogins(parsed?.blockedChannels),
+      channelDirectoryPages: normalizeChannelDirectoryPages(parsed?.channelDirectoryPages),
+      channelLanguageFilter: parseLanguageList(parsed?.channelLanguageFilter),
+      farmSchedule: normalizeFarmSchedule(parsed?.farmSchedule),
+      farmPauseUntil: normalizeFarmPauseUntil(parsed?.farmPauseUntil),
       updateChannel: normalizeUpdateChannel(parsed?.updateChannel, parsed?.betaUpdates),
       refreshMinMs: refresh.min,
       refreshMaxMs: refresh.max,
@@ -254,6 +348,7 @@ export async function loadSettings(): Promise<SettingsData> {
         typeof parsed?.minimizeToTray === "boolean"
           ? parsed.minimizeToTray
           : defaultSettings.minimizeToTray,
+      proxyUrl: normalizeProxyUrl(parsed?.proxyUrl),
       theme: parsed?.theme === "light" || parsed?.theme === "dark" ? parsed.theme : null,
       accent: typeof parsed?.accent === "string" ? parsed.accent : null,
       fontPair: typeof parsed?.fontPair === "string" ? parsed.fontPair : defaultSettings.fontPair,
@@ -284,13 +379,25 @@ async function persistSettings(data: SettingsSaveData): Promise<SettingsData> {
     ...current,
     ...restData,
     priorityGames: Array.isArray(restData.priorityGames)
-      ? restData.priorityGames
+      ? normalizePriorityRules(restData.priorityGames)
       : current.priorityGames,
     excludeGames: Array.isArray(restData.excludeGames)
       ? restData.excludeGames
       : current.excludeGames,
     obeyPriority:
       typeof restData.obeyPriority === "boolean" ? restData.obeyPriority : current.obeyPriority,
+    priorityStrategy:
+      restData.priorityStrategy !== undefined
+        ? normalizePriorityStrategy(restData.priorityStrategy)
+        : current.priorityStrategy,
+    priorityProfiles: Array.isArray(restData.priorityProfiles)
+      ? normalizePriorityProfiles(restData.priorityProfiles, current)
+      : current.priorityProfiles,
+    activePriorityProfileId:
+      typeof restData.activePriorityProfileId === "string" ||
+      restData.activePriorityProfileId === null
+        ? restData.activePriorityProfileId
+        : current.activePriorityProfileId,
     language:
       restData.language === "en" || restData.language === "de"
         ? restData.language
@@ -301,6 +408,35 @@ async function persistSettings(data: SettingsSaveData): Promise<SettingsData> {
     autoSwitch: typeof restData.autoSwitch === "boolean" ? restData.autoSwitch : current.autoSwitch,
     warmupEnabled:
       typeof restData.warmupEnabled === "boolean" ? restData.warmupEnabled : current.warmupEnabled,
+    watchSlots:
+      restData.watchSlots !== undefined
+        ? normalizeWatchSlots(restData.watchSlots)
+        : current.watchSlots,
+    channelScoring:
+      restData.channelScoring !== undefined
+        ? normalizeChannelScoring(restData.channelScoring)
+        : current.channelScoring,
+    favoriteChannels: Array.isArray(restData.favoriteChannels)
+      ? normalizeChannelLogins(restData.favoriteChannels)
+      : current.favoriteChannels,
+    blockedChannels: Array.isArray(restData.blockedChannels)
+      ? normalizeChannelLogins(restData.blockedChannels)
+      : current.blockedChannels,
+    channelDirectoryPages:
+      restData.channelDirectoryPages !== undefined
+        ? normalizeChannelDirectoryPages(restData.channelDirectoryPages)
+        : current.channelDirectoryPages,
+    channelLanguageFilter: Array.isArray(restData.channelLanguageFilter)
+      ? parseLanguageList(restData.channelLanguageFilter)
+      : current.channelLanguageFilter,
+    farmSchedule:
+      restData.farmSchedule !== undefined
+        ? normalizeFarmSchedule(restData.farmSchedule)
+        : current.farmSchedule,
+    farmPauseUntil:
+      restData.farmPauseUntil !== undefined
+        ? normalizeFarmPauseUntil(restData.farmPauseUntil)
+        : current.farmPauseUntil,
     updateChannel:
       typeof restData.updateChannel === "string" || typeof legacyBetaUpdates === "boolean"
         ? normalizeUpdateChannel(restData.updateChannel, legacyBetaUpdates)
@@ -355,6 +491,10 @@ async function persistSettings(data: SettingsSaveData): Promise<SettingsData> {
       typeof restData.minimizeToTray === "boolean"
         ? restData.minimizeToTray
         : current.minimizeToTray,
+    proxyUrl:
+      typeof restData.proxyUrl === "string"
+        ? normalizeProxyUrl(restData.proxyUrl)
+        : current.proxyUrl,
     theme:
       restData.theme === "light" || restData.theme === "dark" || restData.theme === null
         ? restData.theme
@@ -373,6 +513,16 @@ async function persistSettings(data: SettingsSaveData): Promise<SettingsData> {
         ? normalizeWindowBounds(restData.windowBounds)
         : current.windowBounds,
   };
+  const profiles = reconcilePriorityProfiles({
+    profiles: next.priorityProfiles,
+    activeId: next.activePriorityProfileId,
+    previousActiveId: current.activePriorityProfileId,
+    live: next,
+  });
+  Object.assign(next, profiles.live, {
+    priorityProfiles: profiles.profiles,
+    activePriorityProfileId: profiles.activeId,
+  });
   const serialized = JSON.stringify(next, null, 2);
   await atomicWrite(settingsFile, serialized);
   // Mirror to the backup so a future corrupt primary can be recovered.
@@ -380,11 +530,20 @@ async function persistSettings(data: SettingsSaveData): Promise<SettingsData> {
   return next;
 }
 
+/** Exports are shared; the proxy's username and password stay on this machine. */
 export async function exportSettings(): Promise<SettingsData> {
-  return loadSettings();
+  const settings = await loadSettings();
+  return { ...settings, proxyUrl: stripProxyCredentials(settings.proxyUrl) };
 }
 
 export async function importSettings(payload: SettingsSaveData): Promise<SettingsData> {
-  // Reuse the same merge/validation logic as saveSettings
-  return saveSettings(payload);
+  if (payload.proxyUrl === undefined) {
+    // Reuse the same merge/validation logic as saveSettings
+    return saveSettings(payload);
+  }
+  const current = await loadSettings();
+  return saveSettings({
+    ...payload,
+    proxyUrl: restoreProxyCredentials(payload.proxyUrl, current.proxyUrl),
+  });
 }
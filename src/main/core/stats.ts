@@ -1,6 +1,5 @@
-import { app } from "electron";
 import { promises as fs } from "node:fs";
-import { join } from "node:path";
+import { dirname } from "node:path";
 import { DailyMap, normalizeDaily, addToDaily, pruneDaily } from "./statsDaily";
 
 export type StatsData = {
@@ -12,20 +11,21 @@ export type StatsData = {
   lastDropTitle?: string;
   lastGame?: string;
   claimsByGame: Record<string, number>;
+  /** Watch minutes credited per game; parallel watch slots credit their own game. */
+  minutesByGame: Record<string, number>;
   daily: DailyMap;
 };
 
-const statsFile = join(app.getPath("userData"), "stats.json");
-
 const defaultStats: StatsData = {
   totalMinutes: 0,
   totalClaims: 0,
   lastReset: Date.now(),
   claimsByGame: {},
+  minutesByGame: {},
   daily: {},
 };
 
-function normalizeClaimsByGame(input: unknown): Record<string, number> {
+function normalizeCountsByGame(input: unknown): Record<string, number> {
   if (!input || typeof input !== "object") return {};
   const entries = Object.entries(input as Record<string, unknown>);
   const result: Record<string, number> = {};
@@ -38,79 +38,114 @@ function normalizeClaimsByGame(input: unknown): Record<string, number> {
   return result;
 }
 
-async function writeStats(data: StatsData): Promise<StatsData> {
-  await fs.mkdir(app.getPath("userData"), { recursive: true });
-  await fs.writeFile(statsFile, JSON.stringify(data, null, 2), "utf-8");
-  return data;
-}
-
-export async function loadStats(): Promise<StatsData> {
-  try {
-    const raw = await fs.readFile(statsFile, "utf-8");
-    const parsed = JSON.parse(raw) as Partial<StatsData>;
-    return {
-      ...defaultStats,
-      ...parsed,
-      totalMinutes: Math.max(0, Number(parsed?.totalMinutes) || 0),
-      totalClaims: Math.max(0, Number(parsed?.totalClaims) || 0),
-      lastReset: typeof parsed?.lastReset === "number" ? parsed.lastReset : defaultStats.lastReset,
-      claimsByGame: normalizeClaimsByGame((parsed as StatsData)?.claimsByGame),
-      daily: normalizeDaily((parsed as StatsData)?.daily),
-    };
-  } catch {
-    return defaultStats;
-  }
-}
-
-export async function saveStats(data: Partial<StatsData>): Promise<StatsData> {
-  const current = await loadStats();
-  const next: StatsData = {
-    ...current,
-    ...data,
-    totalMinutes: Math.max(0, Number(data.totalMinutes ?? current.totalMinutes) || 0),
-    totalClaims: Math.max(0, Number(data.totalClaims ?? current.totalClaims) || 0),
-    lastReset: typeof data.lastReset === "number" ? data.lastReset : current.lastReset,
-    claimsByGame:
-      data.claimsByGame !== undefined
-        ? normalizeClaimsByGame(data.claimsByGame)
-        : current.claimsByGame,
-    daily: data.daily !== undefined ? normalizeDaily(data.daily) : current.daily,
-  };
-  return writeStats(next);
-}
-
-export async function bumpStats(delta: {
+export type StatsDelta = {
   minutes?: number;
   claims?: number;
   lastDropTitle?: string;
   lastGame?: string;
-}): Promise<StatsData> {
-  const current = await loadStats();
-  const claims = Math.max(0, delta.claims ?? 0);
-  const nextClaimsByGame = { ...current.claimsByGame };
-  if (claims > 0 && delta.lastGame) {
-    const key = String(delta.lastGame).trim();
-    if (key) {
-      nextClaimsByGame[key] = Math.max(0, (nextClaimsByGame[key] ?? 0) + claims);
+  /**
+   * Game the minutes/claims belong to when it differs from `lastGame`, e.g. a
+   * secondary watch slot that should not replace the primary's last game.
+   */
+  creditGame?: string;
+};
+
+export type StatsStore = {
+  load: () => Promise<StatsData>;
+  save: (data: Partial<StatsData>) => Promise<StatsData>;
+  bump: (delta: StatsDelta) => Promise<StatsData>;
+  reset: () => Promise<StatsData>;
+};
+
+/** Stats are kept per account; each account directory owns one stats file. */
+export function createStatsStore(statsFile: string): StatsStore {
+  const writeStats = async (data: StatsData): Promise<StatsData> => {
+    await fs.mkdir(dirname(statsFile), { recursive: true });
+    await fs.writeFile(statsFile, JSON.stringify(data, null, 2), "utf-8");
+    return data;
+  };
+
+  const loadStats = async (): Promise<StatsData> => {
+    try {
+      const raw = await fs.readFile(statsFile, "utf-8");
+      const parsed = JSON.parse(raw) as Partial<StatsData>;
+      return {
+        ...defaultStats,
+        ...parsed,
+        totalMinutes: Math.max(0, Number(parsed?.totalMinutes) || 0),
+        totalClaims: Math.max(0, Number(parsed?.totalClaims) || 0),
+        lastReset:
+          typeof parsed?.lastReset === "number" ? parsed.lastReset : defaultStats.lastReset,
+        claimsByGame: normalizeCountsByGame((parsed as StatsData)?.claimsByGame),
+        minutesByGame: normalizeCountsByGame((parsed as StatsData)?.minutesByGame),
+        daily: normalizeDaily((parsed as StatsData)?.daily),
+      };
+    } catch {
+      return defaultStats;
     }
-  }
-  const now = Date.now();
-  const next: StatsData = {
-    ...current,
-    totalMinutes: Math.max(0, current.totalMinutes + Math.max(0, delta.minutes ?? 0)),
-    totalClaims: Math.max(0, current.totalClaims + claims),
-    lastMinuteAt: delta.minutes && delta.minutes > 0 ? now : current.lastMinuteAt,
-    lastClaimAt: claims > 0 ? now : current.lastClaimAt,
-    lastDropTitle: delta.lastDropTitle ?? current.lastDropTitle,
-    lastGame: delta.lastGame ?? current.lastGame,
-    lastReset: current.lastReset,
-    claimsByGame: nextClaimsByGame,
-    daily: pruneDaily(addToDaily(current.daily, now, { minutes: delta.minutes, claims }), now),
   };
-  return writeStats(next);
-}
 
-export async function resetStats(): Promise<StatsData> {
-  const base: StatsData = { ...defaultStats, lastReset: Date.now(), claimsByGame: {}, daily: {} };
-  return writeStats(base);
+  const saveStats = async (data: Partial<StatsData>): Promise<StatsData> => {
+    const current = await loadStats();
+    const next: StatsData = {
+      ...current,
+      ...data,
+      totalMinutes: Math.max(0, Number(data.totalMinutes ?? current.totalMinutes) || 0),
+      totalClaims: Math.max(0, Number(data.totalClaims ?? current.totalClaims) || 0),
+      lastReset: typeof data.lastReset === "number" ? data.lastReset : current.lastReset,
+      claimsByGame:
+        data.claimsByGame !== undefined
+          ? normalizeCountsByGame(data.claimsByGame)
+          : current.claimsByGame,
+      minutesByGame:
+        data.minutesByGame !== undefined
+          ? normalizeCountsByGame(data.minutesByGame)
+          : current.minutesByGame,
+      daily: data.daily !== undefined ? normalizeDaily(data.daily) : current.daily,
+    };
+    return writeStats(next);
+  };
+
+  const bumpStats = async (delta: StatsDelta): Promise<StatsData> => {
+    const current = await loadStats();
+    const claims = Math.max(0, delta.claims ?? 0);
+    const minutes = Math.max(0, delta.minutes ?? 0);
+    const creditKey = String(delta.creditGame ?? delta.lastGame ?? "").trim();
+    const nextClaimsByGame = { ...current.claimsByGame };
+    if (claims > 0 && creditKey) {
+      nextClaimsByGame[creditKey] = Math.max(0, (nextClaimsByGame[creditKey] ?? 0) + claims);
+    }
+    const nextMinutesByGame = { ...current.minutesByGame };
+    if (minutes > 0 && creditKey) {
+      nextMinutesByGame[creditKey] = Math.max(0, (nextMinutesByGame[creditKey] ?? 0) + minutes);
+    }
+    const now = Date.now();
+    const next: StatsData = {
+      ...current,
+      totalMinutes: Math.max(0, current.totalMinutes + minutes),
+      totalClaims: Math.max(0, current.totalClaims + claims),
+      lastMinuteAt: minutes > 0 ? now : current.lastMinuteAt,
+      lastClaimAt: claims > 0 ? now : current.lastClaimAt,
+      lastDropTitle: delta.lastDropTitle ?? current.lastDropTitle,
+      lastGame: delta.lastGame ?? current.lastGame,
+      lastReset: current.lastReset,
+      claimsByGame: nextClaimsByGame,
+      minutesByGame: nextMinutesByGame,
+      daily: pruneDaily(addToDaily(current.daily, now, { minutes, claims, game: creditKey }), now),
+    };
+    return writeStats(next);
+  };
+
+  const resetStats = async (): Promise<StatsData> => {
+    const base: StatsData = {
+      ...defaultStats,
+      lastReset: Date.now(),
+      claimsByGame: {},
+      minutesByGame: {},
+      daily: {},
+    };
+    return writeStats(base);
+  };
+
+  return { load: loadStats, save: saveStats, bump: bumpStats, reset: resetStats };
 }
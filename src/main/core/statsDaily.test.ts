@@ -57,6 +57,18 @@ describe("addToDaily", () => {
     expect(result[key]).toEqual({ minutes: 0, claims: 5 });
   });
 
+  it("tracks minutes per game when a game is given", () => {
+    const ts = new Date(2025, 5, 15, 10, 0, 0).getTime();
+    const first = addToDaily({}, ts, { minutes: 30, game: "Rust" });
+    const second = addToDaily(first, ts, { minutes: 15, claims: 1, game: "WoW" });
+    expect(second[localDateKey(ts)]).toEqual({
+      minutes: 45,
+      claims: 1,
+      minutesByGame: { Rust: 30, WoW: 15 },
+    });
+    expect(normalizeDaily(second)).toEqual(second);
+  });
+
   it("does not mutate the input map", () => {
     const ts = new Date(2025, 5, 15, 10, 0, 0).getTime();
     const input: DailyMap = {};
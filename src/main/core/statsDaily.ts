@@ -1,5 +1,10 @@
 export const RETENTION_DAYS = 180;
-export type DailyEntry = { minutes: number; claims: number };
+export type DailyEntry = {
+  minutes: number;
+  claims: number;
+  /** Minutes per game that day; feeds the per-game daily budget of priority rules. */
+  minutesByGame?: Record<string, number>;
+};
 export type DailyMap = Record<string, DailyEntry>;
 
 // "YYYY-MM-DD" in LOCAL time (so streaks align to the user's day)
@@ -17,6 +22,16 @@ const clampInt = (v: unknown): number => {
   return Number.isFinite(n) ? Math.max(0, n) : 0;
 };
 
+function normalizeGameMinutes(input: unknown): Record<string, number> | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const out: Record<string, number> = {};
+  for (const [game, value] of Object.entries(input as Record<string, unknown>)) {
+    const minutes = clampInt(value);
+    if (game.trim() && minutes > 0) out[game] = minutes;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
 export function normalizeDaily(input: unknown): DailyMap {
   if (!input || typeof input !== "object") return {};
   const out: DailyMap = {};
@@ -24,7 +39,9 @@ export function normalizeDaily(input: unknown): DailyMap {
     if (!KEY_RE.test(k) || !v || typeof v !== "object") continue;
     const minutes = clampInt((v as DailyEntry).minutes);
     const claims = clampInt((v as DailyEntry).claims);
-    if (minutes > 0 || claims > 0) out[k] = { minutes, claims };
+    if (minutes <= 0 && claims <= 0) continue;
+    const minutesByGame = normalizeGameMinutes((v as DailyEntry).minutesByGame);
+    out[k] = minutesByGame ? { minutes, claims, minutesByGame } : { minutes, claims };
   }
   return out;
 }
@@ -32,17 +49,23 @@ export function normalizeDaily(input: unknown): DailyMap {
 export function addToDaily(
   daily: DailyMap,
   now: number,
-  delta: { minutes?: number; claims?: number },
+  delta: { minutes?: number; claims?: number; game?: string },
 ): DailyMap {
   const key = localDateKey(now);
   const cur = daily[key] ?? { minutes: 0, claims: 0 };
-  return {
-    ...daily,
-    [key]: {
-      minutes: cur.minutes + clampInt(delta.minutes),
-      claims: cur.claims + clampInt(delta.claims),
-    },
+  const next: DailyEntry = {
+    minutes: cur.minutes + clampInt(delta.minutes),
+    claims: cur.claims + clampInt(delta.claims),
   };
+  const game = delta.game?.trim();
+  const gameMinutes = clampInt(delta.minutes);
+  if (cur.minutesByGame || (game && gameMinutes > 0)) {
+    next.minutesByGame = { ...cur.minutesByGame };
+    if (game && gameMinutes > 0) {
+      next.minutesByGame[game] = (next.minutesByGame[game] ?? 0) + gameMinutes;
+    }
+  }
+  return { ...daily, [key]: next };
 }
 
 export function pruneDaily(daily: DailyMap, now: number, retentionDays = RETENTION_DAYS): DailyMap {
@@ -1,6 +1,8 @@
 import { app } from "electron";
 import { promises as fs } from "node:fs";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
+import { isSessionEnvelope } from "./sessionCrypto";
+import { needsReseal, openSession, sealSession } from "./sessionVault";
 
 export interface SessionData {
   accessToken: string;
@@ -13,26 +15,80 @@ export interface SessionData {
   loginName?: string;
 }
 
-const sessionFile = join(app.getPath("userData"), "session.json");
+export type SessionStore = {
+  load: () => Promise<SessionData | null>;
+  save: (session: SessionData) => Promise<void>;
+  clear: () => Promise<void>;
+  /** Drops the decrypted copy so the next load re-reads (e.g. after unlock). */
+  invalidate: () => void;
+};
 
-export async function saveSession(session: SessionData): Promise<void> {
-  await fs.mkdir(app.getPath("userData"), { recursive: true });
-  await fs.writeFile(sessionFile, JSON.stringify(session, null, 2), "utf-8");
-}
+/**
+ * Pre multi-account location of the single session. Only read by the account
+ * migration in core/accounts.ts; every account now owns its own session file.
+ */
+export const legacySessionFile = join(app.getPath("userData"), "session.json");
 
-export async function loadSession(): Promise<SessionData | null> {
-  try {
-    const raw = await fs.readFile(sessionFile, "utf-8");
-    return JSON.parse(raw) as SessionData;
-  } catch {
-    return null;
-  }
-}
+/**
+ * Session files hold a SessionEnvelope (see core/sessionVault.ts), never the
+ * raw tokens. Plaintext files written by older versions are still readable
+ * and get re-sealed on first load. Decrypted sessions are cached in memory
+ * because load() runs on nearly every Twitch request.
+ */
+export function createSessionStore(sessionFile: string): SessionStore {
+  let cached: SessionData | null | undefined;
+
+  const writeSealed = async (session: SessionData) => {
+    const envelope = sealSession(JSON.stringify(session));
+    await fs.mkdir(dirname(sessionFile), { recursive: true });
+    await fs.writeFile(sessionFile, JSON.stringify(envelope, null, 2), "utf-8");
+  };
 
-export async function clearSession(): Promise<void> {
-  try {
-    await fs.unlink(sessionFile);
-  } catch {
-    // ignore
-  }
+  return {
+    async save(session) {
+      await writeSealed(session);
+      cached = session;
+    },
+    async load() {
+      if (cached !== undefined) return cached;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(sessionFile, "utf-8"));
+      } catch {
+        return null;
+      }
+      if (isSessionEnvelope(parsed)) {
+        const plain = openSession(parsed);
+        // Locked vault: report "no session" without caching so a later
+        // unlock can read the file.
+        if (plain === null) return null;
+        const session = JSON.parse(plain) as SessionData;
+        cached = session;
+        if (needsReseal(parsed)) {
+          await writeSealed(session).catch(() => undefined);
+        }
+        return session;
+      }
+      const session = parsed as SessionData;
+      cached = session;
+      try {
+        await writeSealed(session);
+        console.log("session: migrated plaintext session file to encrypted storage");
+      } catch (err) {
+        console.warn("session: plaintext session kept until the vault is unlocked", err);
+      }
+      return session;
+    },
+    async clear() {
+      cached = null;
+      try {
+        await fs.unlink(sessionFile);
+      } catch {
+        // ignore
+      }
+    },
+    invalidate() {
+      cached = undefined;
+    },
+  };
 }
@@ -1,17 +1,32 @@
 import { app, BrowserWindow, shell, Tray, Menu, nativeImage, Notification } from "electron";
 import { autoUpdater } from "electron-updater";
 import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { format } from "node:url";
 import { allowsPrereleaseBuilds } from "../shared/updateChannels";
+import { evaluateFarmSchedule, farmPauseEnd } from "../shared/farmSchedule";
+import { summarizeClaimBatch } from "../shared/claimBatch";
 import { AuthController } from "./auth";
-import { loadSession, clearSession } from "./core/storage";
-import { TwitchService } from "./twitch/service";
-import { createChannelTracker, normalizeTrackerMode } from "./twitch/tracker";
-import { UserPubSub } from "./twitch/userPubSub";
+import { AccountManager } from "./accounts";
+import { initSessionVault } from "./core/sessionVault";
+import { normalizeTrackerMode } from "./twitch/tracker";
 import { registerIpcHandlers } from "./ipc";
 import { loadSettings, saveSettings, type SettingsData } from "./core/settings";
-import { loadStats, saveStats, bumpStats, resetStats } from "./core/stats";
+import {
+  FAKE_TWITCH_SCENARIO,
+  overrideTwitchEndpoints,
+  TRAFFIC_RECORD_FILE,
+  TRAFFIC_REPLAY_FILE,
+} from "./config";
+import {
+  createFileTrafficSink,
+  parseTrafficFixture,
+  TrafficRecorder,
+} from "./twitch/trafficRecorder";
+import { startTrafficReplayServer } from "./twitch/trafficReplay";
+import { DEMO_FAKE_TWITCH_SCENARIO, type FakeTwitchScenario } from "./twitch/fakeTwitch";
+import { startFakeTwitchServer } from "./twitch/fakeTwitchServer";
 
 const isDev = !app.isPackaged;
 
@@ -36,6 +51,14 @@ let lastBoundsSnapshot: SettingsData["windowBounds"] | undefined;
 let boundsSaveTimer: NodeJS.Timeout | null = null;
 const BOUNDS_SAVE_DEBOUNCE_MS = 500;
 
+/**
+ * Settings the tray menu was last built from. Schedule pauses end on the
+ * clock, so the tray is rebuilt from these on a timer as well as on saves.
+ */
+let lastTraySettings: SettingsData | undefined;
+let trayScheduleTimer: NodeJS.Timeout | null = null;
+const TRAY_SCHEDULE_TICK_MS = 60_000;
+
 function snapshotWindowBounds(win: BrowserWindow): SettingsData["windowBounds"] | undefined {
   if (win.isDestroyed()) return undefined;
   // When maximized, save the pre-maximize "normal" bounds so restore on next
@@ -82,9 +105,12 @@ const debugLogsOptIn =
 const verboseLogsEnabled = isDev || debugLogsOptIn;
 const trackerMode = normalizeTrackerMode(process.env.DROPPILOT_TRACKER_MODE);
 const auth = new AuthController();
-const twitchService = new TwitchService(loadSession);
-const channelTracker = createChannelTracker(twitchService, trackerMode);
-const userPubSub = new UserPubSub(loadSession);
+const trafficRecorder = TRAFFIC_RECORD_FILE
+  ? new TrafficRecorder(createFileTrafficSink(TRAFFIC_RECORD_FILE))
+  : undefined;
+const accounts = new AccountManager(auth, trackerMode, trafficRecorder);
+/** Local replay or fake Twitch server the app was pointed at, if any. */
+let standInServer: { close: () => Promise<void> } | null = null;
 let tray: Tray | null = null;
 let updateTimer: NodeJS.Timeout | null = null;
 const UPDATE_INTERVAL_MS = 60 * 60 * 1000;
@@ -319,10 +345,79 @@ function resolveTrayIcon() {
   return nativeImage.createFromPath(devIcon);
 }
 
-function createTray(win: BrowserWindow) {
-  if (tray) return tray;
-  const icon = resolveTrayIcon();
-  tray = new Tray(icon);
+/**
+ * Switches the live priority settings to another profile and tells every
+ * window to reload its settings, since the switch did not start there.
+ */
+async function switchPriorityProfile(win: BrowserWindow, profileId: string | null) {
+  try {
+    const next = await saveSettings({ activePriorityProfileId: profileId });
+    updateTrayMenu(win, next);
+    for (const target of BrowserWindow.getAllWindows()) {
+      if (!target.isDestroyed()) target.webContents.send("settings/changed", next);
+    }
+  } catch (err) {
+    console.warn("tray: profile switch failed", err);
+  }
+}
+
+/**
+ * Pauses auto-watch until `until` (or resumes it for null) from the tray and
+ * tells every window to reload its settings, like a profile switch.
+ */
+async function setFarmPause(win: BrowserWindow, until: number | null) {
+  try {
+    const next = await saveSettings({ farmPauseUntil: until });
+    accounts.setFarmSchedule(next.farmSchedule, next.farmPauseUntil);
+    updateTrayMenu(win, next);
+    for (const target of BrowserWindow.getAllWindows()) {
+      if (!target.isDestroyed()) target.webContents.send("settings/changed", next);
+    }
+  } catch (err) {
+    console.warn("tray: farm pause failed", err);
+  }
+}
+
+/**
+ * Claims every ready drop of the active account from the tray. Results also
+ * reach an open window through the claim-all progress broadcast; the
+ * notification covers a window that is hidden in the tray.
+ */
+async function claimAllReadyDrops() {
+  try {
+    const runtime = accounts.getActive();
+    if (!runtime) return;
+    const summary = summarizeClaimBatch(await runtime.claimAllReady());
+    if (!Notification.isSupported()) return;
+    const settings = await loadSettings();
+    if (evaluateFarmSchedule(settings.farmSchedule, settings.farmPauseUntil).muted) return;
+    const body =
+      summary.claimed + summary["already-claimed"] + summary.failed === 0
+        ? "Keine Drops bereit."
+        : `${summary.claimed} eingesammelt, ${summary["already-claimed"]} bereits eingesammelt, ${summary.failed} fehlgeschlagen.`;
+    new Notification({ title: "Drops einsammeln", body }).show();
+  } catch (err) {
+    console.warn("tray: claim all failed", err);
+  }
+}
+
+function formatTrayTooltip(settings?: SettingsData): string {
+  if (!settings) return "DropPilot";
+  const state = evaluateFarmSchedule(settings.farmSchedule, settings.farmPauseUntil);
+  if (!state.paused) return "DropPilot";
+  const label = state.pauseReason === "schedule" ? "Zeitplan-Pause" : "pausiert";
+  if (state.pausedUntil === null) return `DropPilot - ${label}`;
+  const time = new Date(state.pausedUntil).toLocaleTimeString("de-DE", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `DropPilot - ${label} bis ${time}`;
+}
+
+function updateTrayMenu(win: BrowserWindow, settings?: SettingsData) {
+  if (!tray) return;
+  if (settings) lastTraySettings = settings;
+  tray.setToolTip(formatTrayTooltip(settings));
   const toggleDevTools = () => {
     const targets = BrowserWindow.getAllWindows().filter((w) => !w.isDestroyed());
     if (targets.length === 0) {
@@ -338,6 +433,10 @@ function createTray(win: BrowserWindow) {
       }
     }
   };
+  const profiles = settings?.priorityProfiles ?? [];
+  const activeProfileId = settings?.activePriorityProfileId ?? null;
+  const manualPauseActive =
+    typeof settings?.farmPauseUntil === "number" && settings.farmPauseUntil > Date.now();
   const contextMenuItems = [
     {
       label: "Oeffnen",
@@ -350,6 +449,50 @@ function createTray(win: BrowserWindow) {
       label: "Minimieren",
       click: () => win.hide(),
     },
+    { type: "separator" as const },
+    {
+      label: "Alle bereiten Drops einsammeln",
+      click: () => void claimAllReadyDrops(),
+    },
+    ...(manualPauseActive
+      ? [
+          {
+            label: "Fortsetzen",
+            click: () => void setFarmPause(win, null),
+          },
+        ]
+      : [
+          {
+            label: "1 Stunde pausieren",
+            click: () => void setFarmPause(win, farmPauseEnd("hour")),
+          },
+          {
+            label: "Bis morgen pausieren",
+            click: () => void setFarmPause(win, farmPauseEnd("tomorrow")),
+          },
+        ]),
+    ...(profiles.length > 0
+      ? [
+          { type: "separator" as const },
+          {
+            label: "Prioritaetsprofil",
+            submenu: [
+              {
+                label: "Kein Profil",
+                type: "radio" as const,
+                checked: activeProfileId === null,
+                click: () => void switchPriorityProfile(win, null),
+              },
+              ...profiles.map((profile) => ({
+                label: profile.name,
+                type: "radio" as const,
+                checked: profile.id === activeProfileId,
+                click: () => void switchPriorityProfile(win, profile.id),
+              })),
+            ],
+          },
+        ]
+      : []),
     ...(devToolsEnabled
       ? [
           { type: "separator" as const },
@@ -367,9 +510,30 @@ function createTray(win: BrowserWindow) {
       },
     },
   ];
-  const contextMenu = Menu.buildFromTemplate(contextMenuItems);
-  tray.setToolTip("DropPilot");
-  tray.setContextMenu(contextMenu);
+  tray.setContextMenu(Menu.buildFromTemplate(contextMenuItems));
+}
+
+function stopTrayScheduleTimer() {
+  if (!trayScheduleTimer) return;
+  clearInterval(trayScheduleTimer);
+  trayScheduleTimer = null;
+}
+
+/** Rebuilds the tray menu periodically so schedule blocks show up as they start and end. */
+function startTrayScheduleTimer(win: BrowserWindow) {
+  stopTrayScheduleTimer();
+  trayScheduleTimer = setInterval(() => {
+    if (!win.isDestroyed()) updateTrayMenu(win, lastTraySettings);
+  }, TRAY_SCHEDULE_TICK_MS);
+  win.once("closed", stopTrayScheduleTimer);
+}
+
+function createTray(win: BrowserWindow, settings?: SettingsData) {
+  startTrayScheduleTimer(win);
+  if (tray) return tray;
+  const icon = resolveTrayIcon();
+  tray = new Tray(icon);
+  updateTrayMenu(win, settings);
   tray.on("click", () => {
     if (win.isVisible()) {
       win.hide();
@@ -468,21 +632,66 @@ app.whenReady().then(async () => {
   } catch (err) {
     console.warn("settings: initial load failed", err);
   }
+  if (TRAFFIC_REPLAY_FILE) {
+    // Must run before accounts.init() so every runtime is built against the stand-in.
+    try {
+      const fixture = parseTrafficFixture(await readFile(TRAFFIC_REPLAY_FILE, "utf-8"));
+      const replay = await startTrafficReplayServer(fixture, {
+        speed: Number(process.env.DROPPILOT_REPLAY_SPEED) || 1,
+      });
+      standInServer = replay;
+      overrideTwitchEndpoints(replay.endpoints);
+      console.log(
+        `[DropPilot] Replaying ${fixture.length} recorded entries from ${TRAFFIC_REPLAY_FILE}`,
+        replay.endpoints,
+      );
+    } catch (err) {
+      // Never fall through to the real Twitch API when an offline replay was asked for.
+      console.error("traffic-replay: could not start", err);
+      app.exit(1);
+      return;
+    }
+  } else if (FAKE_TWITCH_SCENARIO) {
+    try {
+      const scenario =
+        FAKE_TWITCH_SCENARIO === "1"
+          ? DEMO_FAKE_TWITCH_SCENARIO
+          : (JSON.parse(await readFile(FAKE_TWITCH_SCENARIO, "utf-8")) as FakeTwitchScenario);
+      const fake = await startFakeTwitchServer(scenario);
+      standInServer = fake;
+      overrideTwitchEndpoints(fake.endpoints);
+      console.log(`[DropPilot] Using fake Twitch server at ${fake.baseUrl}`);
+    } catch (err) {
+      console.error("fake-twitch: could not start", err);
+      app.exit(1);
+      return;
+    }
+  }
+  if (trafficRecorder) {
+    console.log(`[DropPilot] Recording Twitch traffic to ${TRAFFIC_RECORD_FILE}`);
+  }
+  try {
+    await initSessionVault();
+    accounts.setProxy(initialSettings?.proxyUrl ?? "");
+    if (initialSettings) {
+      accounts.setChannelDirectory(
+        initialSettings.channelDirectoryPages,
+        initialSettings.channelLanguageFilter,
+      );
+      accounts.setFarmSchedule(initialSettings.farmSchedule, initialSettings.farmPauseUntil);
+    }
+    await accounts.init();
+  } catch (err) {
+    console.warn("accounts: init failed", err);
+  }
   const win = createWindow(startHidden, initialSettings?.windowBounds);
   if (!isDev && debugLogsOptIn) {
     console.log("[DropPilot] Verbose logging enabled (prod opt-in).");
   }
-  const effectiveTrackerMode = channelTracker.mode;
-  if (effectiveTrackerMode !== trackerMode) {
-    console.log(
-      `[DropPilot] Channel tracker mode: ${effectiveTrackerMode} (requested: ${trackerMode})`,
-    );
-  } else {
-    console.log(`[DropPilot] Channel tracker mode: ${effectiveTrackerMode}`);
-  }
-  createTray(win);
+  console.log(`[DropPilot] Channel tracker mode requested: ${trackerMode}`);
+  createTray(win, initialSettings);
   setupAutoUpdater();
-  // NOTE: deliberately NOT calling userPubSub.start() here. It used to run
+  // NOTE: deliberately NOT calling accounts.start() here. userPubSub.start() used to run
   // BEFORE registerIpcHandlers() below, which meant the IPC bridge listener
   // (registered inside registerIpcHandlers via userPubSub.onEvent) wasn't
   // attached when the first connection's RESPONSE / early MESSAGE frames
@@ -493,67 +702,66 @@ app.whenReady().then(async () => {
   }
 
   // Forward noisy Twitch logs only in development or explicit prod opt-in.
-  if (verboseLogsEnabled) {
-    const forwardLog = (scope: string, ...args: unknown[]) => {
-      console.log(`[${scope}]`, ...args);
-      if (!win.isDestroyed()) {
-        win.webContents.send("main-log", { scope, args });
-      }
-    };
-    (twitchService as any).debug = (...args: unknown[]) => forwardLog("TwitchService", ...args);
-  } else {
-    (twitchService as any).debug = () => {};
-  }
+  const forwardLog = (scope: string, ...args: unknown[]) => {
+    console.log(`[${scope}]`, ...args);
+    if (!win.isDestroyed()) {
+      win.webContents.send("main-log", { scope, args });
+    }
+  };
 
   // Wrap saveSettings so the tray-behavior flags stay live with user toggles
   // without forcing every close/minimize handler to read settings from disk.
+  // The tray's profile submenu is rebuilt from the same result.
   const saveSettingsWithBehaviorSync: typeof saveSettings = async (data) => {
     const next = await saveSettings(data);
     appBehavior = {
       closeToTray: next.closeToTray,
       minimizeToTray: next.minimizeToTray,
     };
+    if (!win.isDestroyed()) updateTrayMenu(win, next);
     return next;
   };
 
   registerIpcHandlers({
-    auth,
-    twitch: twitchService,
-    channelTracker,
-    userPubSub,
-    loadSession,
-    clearSession,
+    accounts,
     loadSettings,
     saveSettings: saveSettingsWithBehaviorSync,
-    loadStats,
-    saveStats,
-    bumpStats,
-    resetStats,
     applyAutoStartSetting,
   });
 
-  // Pipe userPubSub diagnostic logs to ALL renderer windows via the existing
-  // 'main-log' channel — they show up in the DebugView's Log panel. Without
-  // this, [userPubSub] lines only land in the main process stdout, which is
-  // invisible in packaged builds (and only available in the dev terminal).
-  userPubSub.setLogger((level, message, data) => {
-    const scope = level === "warn" ? "userPubSub:warn" : "userPubSub";
-    const args = data !== undefined ? [message, data] : [message];
-    if (level === "warn") console.warn(`[${scope}]`, ...args);
-    else console.log(`[${scope}]`, ...args);
-    for (const w of BrowserWindow.getAllWindows()) {
-      if (w.isDestroyed()) continue;
-      w.webContents.send("main-log", { scope, args });
+  accounts.observeRuntimes((runtime) => {
+    const scopeSuffix = `@${runtime.id.slice(0, 6)}`;
+    (runtime.twitch as any).debug = verboseLogsEnabled
+      ? (...args: unknown[]) => forwardLog(`TwitchService${scopeSuffix}`, ...args)
+      : () => {};
+    if (runtime.channelTracker.mode !== trackerMode) {
+      console.log(
+        `[DropPilot] Channel tracker mode: ${runtime.channelTracker.mode} (requested: ${trackerMode})`,
+      );
     }
+    // Pipe userPubSub diagnostic logs to ALL renderer windows via the existing
+    // 'main-log' channel — they show up in the DebugView's Log panel. Without
+    // this, [userPubSub] lines only land in the main process stdout, which is
+    // invisible in packaged builds (and only available in the dev terminal).
+    runtime.userPubSub.setLogger((level, message, data) => {
+      const scope = level === "warn" ? `userPubSub${scopeSuffix}:warn` : `userPubSub${scopeSuffix}`;
+      const args = data !== undefined ? [message, data] : [message];
+      if (level === "warn") console.warn(`[${scope}]`, ...args);
+      else console.log(`[${scope}]`, ...args);
+      for (const w of BrowserWindow.getAllWindows()) {
+        if (w.isDestroyed()) continue;
+        w.webContents.send("main-log", { scope, args });
+      }
+    });
   });
 
-  // Start the user PubSub connection AFTER the IPC handlers register the
-  // userPubSub.onEvent listener that forwards events to renderer windows.
-  // Otherwise early RESPONSE / MESSAGE frames are received before any
+  // Start every account's user PubSub connection AFTER the IPC handlers
+  // register the userPubSub.onEvent listeners that forward events to renderer
+  // windows. Otherwise early RESPONSE / MESSAGE frames are received before any
   // listener exists in the Set and get silently dropped — which manifested
   // as 'no drop progress ever arrives' even on a successful connection.
-  console.log("[main] starting userPubSub (IPC handlers now registered)");
-  userPubSub.start();
+  console.log("[main] starting account runtimes (IPC handlers now registered)");
+  accounts.start();
 
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -576,12 +784,14 @@ app.on("window-all-closed", () => {
 
 app.on("before-quit", () => {
   isQuitting = true;
-  if (typeof channelTracker.dispose === "function") {
-    channelTracker.dispose();
+  accounts.dispose();
+  if (standInServer) {
+    void standInServer.close();
+    standInServer = null;
   }
-  userPubSub.dispose();
   if (updateTimer) {
     clearInterval(updateTimer);
     updateTimer = null;
   }
+  stopTrayScheduleTimer();
 });
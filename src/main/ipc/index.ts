@@ -1,19 +1,33 @@
-import { BrowserWindow, ipcMain, Notification, app } from "electron";
+import { BrowserWindow, dialog, ipcMain, Notification, app } from "electron";
+import { promises as fs } from "node:fs";
 import { autoUpdater } from "electron-updater";
-import type { AuthController, AuthResult } from "../auth";
-import type { TwitchService } from "../twitch/service";
-import type { SessionData } from "../core/storage";
+import type { AuthResult } from "../auth";
+import type { AccountManager } from "../accounts";
 import {
   exportSettings,
   importSettings,
   type SettingsData,
   type SettingsSaveData,
 } from "../core/settings";
-import type { StatsData } from "../core/stats";
+import type { StatsData, StatsDelta } from "../core/stats";
+import type { ChannelReliabilityEvent } from "../../shared/channelReliability";
+import type { ClaimBatchReport } from "../../shared/claimBatch";
+import { claimLedgerToCsv, type ClaimLedgerEntry } from "../../shared/claimLedger";
+import {
+  emptyClaimQueueState,
+  type ClaimQueueRequest,
+  type ClaimQueueState,
+} from "../../shared/claimQueue";
+import { getVaultStatus, unlockVault } from "../core/sessionVault";
+import { persistedQueryOverridesFile } from "../core/persistedQueryStore";
+import { redactSession } from "../../shared/sessionView";
 import type { PriorityPlan } from "../twitch/channels";
+import type { SessionHealth } from "../twitch/sessionHealth";
+import { TwitchAuthError } from "../twitch/client";
 import { TwitchServiceError } from "../twitch/errors";
-import type { ChannelTracker, ChannelTrackerDiffEvent } from "../twitch/tracker";
-import type { UserPubSub, UserPubSubEvent } from "../twitch/userPubSub";
+import { probeProxy } from "../twitch/proxy";
+import type { ChannelTrackerDiffEvent } from "../twitch/tracker";
+import type { UserPubSubEvent } from "../twitch/userPubSub";
 import { allowsPrereleaseBuilds } from "../../shared/updateChannels";
 import { loadReleaseHistory, type ReleaseCache } from "../../shared/releaseHistory";
 
@@ -82,80 +96,122 @@ function normalizeReleaseNotes(value: unknown): string | undefined {
 }
 
 export function registerIpcHandlers(deps: {
-  auth: AuthController;
-  twitch: TwitchService;
-  channelTracker: ChannelTracker;
-  userPubSub?: UserPubSub;
-  loadSession: () => Promise<SessionData | null>;
-  clearSession: () => Promise<void>;
+  accounts: AccountManager;
   loadSettings: () => Promise<SettingsData>;
   saveSettings: (data: SettingsSaveData) => Promise<SettingsData>;
-  loadStats: () => Promise<StatsData>;
-  saveStats: (data: Partial<StatsData>) => Promise<StatsData>;
-  bumpStats: (delta: {
-    minutes?: number;
-    claims?: number;
-    lastDropTitle?: string;
-    lastGame?: string;
-  }) => Promise<StatsData>;
-  resetStats: () => Promise<StatsData>;
   applyAutoStartSetting?: (enabled: boolean) => void;
 }) {
-  const {
-    auth,
-    twitch,
-    channelTracker,
-    userPubSub,
-    loadSession,
-    clearSession,
-    loadSettings,
-    saveSettings,
-    loadStats,
-    saveStats,
-    bumpStats,
-    resetStats,
-    applyAutoStartSetting,
-  } = deps;
+  const { accounts, loadSettings, saveSettings, applyAutoStartSetting } = deps;
 
   let releaseHistoryCache: ReleaseCache = null;
 
-  const broadcastChannelsDiff = (payload: ChannelTrackerDiffEvent) => {
+  const broadcast = (channel: string, payload: unknown) => {
     for (const win of BrowserWindow.getAllWindows()) {
       if (!win.isDestroyed()) {
-        win.webContents.send("twitch/channelsDiff", payload);
+        win.webContents.send(channel, payload);
       }
     }
   };
-  const unsubscribeChannelsDiff = channelTracker.onDiff(broadcastChannelsDiff);
-  const broadcastUserPubSubEvent = (payload: UserPubSubEvent) => {
-    for (const win of BrowserWindow.getAllWindows()) {
-      if (!win.isDestroyed()) {
-        win.webContents.send("twitch/userPubSubEvent", payload);
-      }
-    }
-  };
-  const unsubscribeUserPubSub =
-    userPubSub?.onEvent((payload) => {
-      broadcastUserPubSubEvent(payload);
-    }) ?? null;
+  // Every account keeps its tracker and PubSub running, but only the active
+  // account's events reach the renderer — it renders a single account's state.
+  const stopObserving = accounts.observeRuntimes((runtime) => {
+    const unsubscribeChannelsDiff = runtime.channelTracker.onDiff(
+      (payload: ChannelTrackerDiffEvent) => {
+        if (accounts.activeAccountId !== runtime.id) return;
+        broadcast("twitch/channelsDiff", payload);
+      },
+    );
+    const unsubscribeUserPubSub = runtime.userPubSub.onEvent((payload: UserPubSubEvent) => {
+      if (accounts.activeAccountId !== runtime.id) return;
+      broadcast("twitch/userPubSubEvent", payload);
+    });
+    const unsubscribeSessionHealth = runtime.sessionHealth.onChange((health: SessionHealth) => {
+      if (accounts.activeAccountId !== runtime.id) return;
+      broadcast("auth/sessionHealthChanged", health);
+    });
+    const unsubscribeClaimQueue = runtime.claimQueue.onChange((state: ClaimQueueState) => {
+      if (accounts.activeAccountId !== runtime.id) return;
+      broadcast("claimQueue/changed", state);
+    });
+    const unsubscribeClaimBatch = runtime.onClaimBatch((report: ClaimBatchReport) => {
+      if (accounts.activeAccountId !== runtime.id) return;
+      broadcast("claimQueue/claimAllProgress", report);
+    });
+    return () => {
+      unsubscribeChannelsDiff();
+      unsubscribeUserPubSub();
+      unsubscribeSessionHealth();
+      unsubscribeClaimQueue();
+      unsubscribeClaimBatch();
+    };
+  });
+  const unsubscribeAccounts = accounts.onChange((state) => {
+    broadcast("accounts/changed", state);
+  });
   app.once("before-quit", () => {
-    unsubscribeChannelsDiff();
-    if (unsubscribeUserPubSub) unsubscribeUserPubSub();
+    stopObserving();
+    unsubscribeAccounts();
+  });
+
+  ipcMain.handle("accounts/list", async () => {
+    return accounts.getState();
+  });
+
+  ipcMain.handle("accounts/add", async () => {
+    try {
+      await accounts.add();
+      return { ok: true, state: accounts.getState() };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  ipcMain.handle("accounts/switch", async (_e, payload: { id?: string }) => {
+    try {
+      return { ok: true, state: await accounts.switchTo(String(payload?.id ?? "")) };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  ipcMain.handle("accounts/remove", async (_e, payload: { id?: string }) => {
+    try {
+      return { ok: true, state: await accounts.remove(String(payload?.id ?? "")) };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  ipcMain.handle("accounts/setProxy", async (_e, payload: { id?: string; proxyUrl?: string }) => {
+    try {
+      const state = await accounts.setAccountProxy(
+        String(payload?.id ?? ""),
+        String(payload?.proxyUrl ?? ""),
+      );
+      return { ok: true, state };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // An empty URL probes the direct connection.
+  ipcMain.handle("net/testProxy", async (_e, payload: { proxyUrl?: string }) => {
+    return probeProxy(String(payload?.proxyUrl ?? ""));
   });
 
   ipcMain.handle("auth/login", async (): Promise<AuthResult> => {
-    const result = await auth.login();
-    userPubSub?.notifySessionChanged();
-    return result;
+    return accounts.add();
   });
 
   ipcMain.handle("auth/revalidate", async () => {
     try {
-      const result = await twitch.revalidateSession();
-      if (result.ok && result.status === "refreshed") {
-        userPubSub?.notifySessionChanged();
+      const runtime = accounts.getActive();
+      if (!runtime) {
+        return { ok: false, status: "missing_token" };
       }
-      return result;
+      // Goes through the scheduler so the published session health and the
+      // next proactive check reflect this result too.
+      return await runtime.sessionHealth.checkNow();
     } catch (err) {
       return {
         ok: false,
@@ -165,21 +221,46 @@ export function registerIpcHandlers(deps: {
     }
   });
 
+  // Tokens and cookies never leave the main process; the renderer only needs
+  // to know whether the active account is linked.
   ipcMain.handle("auth/session", async () => {
-    return loadSession();
+    return redactSession(await accounts.getActive()?.sessionStore.load());
   });
 
+  ipcMain.handle("auth/sessionHealth", async () => {
+    return accounts.getActive()?.sessionHealth.getHealth() ?? null;
+  });
+
+  ipcMain.handle("auth/vaultStatus", async () => {
+    return getVaultStatus();
+  });
+
+  ipcMain.handle("auth/unlockVault", async (_e, payload: { passphrase?: string }) => {
+    try {
+      const status = await unlockVault(String(payload?.passphrase ?? ""));
+      accounts.notifySessionsChanged();
+      return { ok: true, status };
+    } catch (err) {
+      return { ok: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // Logout only drops the active account's session; the account and its data
+  // stay until it is removed explicitly through `accounts/remove`.
   ipcMain.handle("auth/logout", async () => {
-    await clearSession();
-    userPubSub?.notifySessionChanged();
+    const runtime = accounts.getActive();
+    if (runtime) {
+      await runtime.sessionStore.clear();
+      runtime.notifySessionChanged();
+    }
     return true;
   });
 
   ipcMain.handle("twitch/profile", async () => {
     try {
-      return await twitch.getProfile();
+      return await accounts.requireActive().twitch.getProfile();
     } catch (err) {
-      if (twitch.isAuthError(err)) {
+      if (err instanceof TwitchAuthError) {
         return { error: "auth", message: (err as Error).message, status: (err as any).status };
       }
       if (err instanceof TwitchServiceError) {
@@ -191,9 +272,9 @@ export function registerIpcHandlers(deps: {
 
   ipcMain.handle("twitch/inventory", async () => {
     try {
-      return await twitch.getInventoryBundle();
+      return await accounts.requireActive().twitch.getInventoryBundle();
     } catch (err) {
-      if (twitch.isAuthError(err)) {
+      if (err instanceof TwitchAuthError) {
         return { error: "auth", message: (err as Error).message, status: (err as any).status };
       }
       if (err instanceof TwitchServiceError) {
@@ -205,9 +286,9 @@ export function registerIpcHandlers(deps: {
 
   ipcMain.handle("twitch/campaigns", async () => {
     try {
-      return await twitch.getCampaigns();
+      return await accounts.requireActive().twitch.getCampaigns();
     } catch (err) {
-      if (twitch.isAuthError(err)) {
+      if (err instanceof TwitchAuthError) {
         return { error: "auth", message: (err as Error).message, status: (err as any).status };
       }
       if (err instanceof TwitchServiceError) {
@@ -220,10 +301,10 @@ export function registerIpcHandlers(deps: {
   ipcMain.handle("twitch/priorityPlan", async (_e, payload: { priorityGames?: string[] }) => {
     const list = payload?.priorityGames ?? [];
     try {
-      const plan: PriorityPlan = await twitch.getPriorityPlan(list);
+      const plan: PriorityPlan = await accounts.requireActive().twitch.getPriorityPlan(list);
       return plan;
     } catch (err) {
-      if (twitch.isAuthError(err)) {
+      if (err instanceof TwitchAuthError) {
         return { error: "auth", message: (err as Error).message, status: (err as any).status };
       }
       if (err instanceof TwitchServiceError) {
@@ -233,31 +314,49 @@ export function registerIpcHandlers(deps: {
     }
   });
 
-  ipcMain.handle("twitch/channels", async (_e, payload: { game: string }) => {
-    try {
-      return await channelTracker.getChannelsForGame(payload.game);
-    } catch (err) {
-      if (twitch.isAuthError(err)) {
-        return { error: "auth", message: (err as Error).message, status: (err as any).status };
-      }
-      if (err instanceof TwitchServiceError) {
-        return { error: "twitch", code: err.code, message: err.message };
+  ipcMain.handle(
+    "twitch/channels",
+    async (_e, payload: { game: string; logins?: string[]; ids?: string[] }) => {
+      try {
+        const runtime = accounts.requireActive();
+        return await runtime.channelTracker.getChannelsForGame(
+          payload.game,
+          runtime.channelDirectoryRequest(payload),
+        );
+      } catch (err) {
+        if (err instanceof TwitchAuthError) {
+          return { error: "auth", message: (err as Error).message, status: (err as any).status };
+        }
+        if (err instanceof TwitchServiceError) {
+          return { error: "twitch", code: err.code, message: err.message };
+        }
+        return { error: "unknown", message: err instanceof Error ? err.message : String(err) };
       }
-      return { error: "unknown", message: err instanceof Error ? err.message : String(err) };
-    }
-  });
+    },
+  );
 
   ipcMain.handle("twitch/trackerStatus", async () => {
-    return channelTracker.getStatus();
+    return accounts.getActive()?.channelTracker.getStatus() ?? null;
+  });
+
+  ipcMain.handle("twitch/gqlStatus", async () => {
+    return accounts.gqlScheduler.getStatus();
+  });
+
+  ipcMain.handle("twitch/persistedQueries", async () => {
+    return {
+      overridesFile: persistedQueryOverridesFile,
+      operations: accounts.persistedQueries.getStatus(),
+    };
   });
 
   ipcMain.handle("twitch/trackerClearChannels", async () => {
-    channelTracker.clearTrackedChannels();
+    accounts.getActive()?.channelTracker.clearTrackedChannels();
     return { ok: true };
   });
 
   ipcMain.handle("twitch/userPubSubStatus", async () => {
-    return userPubSub?.getStatus() ?? null;
+    return accounts.getActive()?.userPubSub.getStatus() ?? null;
   });
 
   ipcMain.handle(
@@ -274,6 +373,7 @@ export function registerIpcHandlers(deps: {
         notificationType?: string;
       },
     ) => {
+      const userPubSub = accounts.getActive()?.userPubSub;
       if (!userPubSub) {
         return { ok: false, message: "UserPubSub unavailable" };
       }
@@ -299,11 +399,12 @@ export function registerIpcHandlers(deps: {
 
   ipcMain.handle(
     "twitch/watch",
-    async (_e, payload: { channelId: string; login: string; streamId?: string }) => {
+    async (_e, payload: { channelId: string; login: string; streamId?: string; slot?: number }) => {
       try {
-        return await twitch.sendWatchPing(payload);
+        const { slot, ...target } = payload;
+        return await accounts.requireActive().sendWatchPing(target, slot);
       } catch (err) {
-        if (twitch.isAuthError(err)) {
+        if (err instanceof TwitchAuthError) {
           return { error: "auth", message: (err as Error).message, status: (err as any).status };
         }
         if (err instanceof TwitchServiceError) {
@@ -314,12 +415,19 @@ export function registerIpcHandlers(deps: {
     },
   );
 
+  ipcMain.handle("twitch/watchRelease", async (_e, payload: { slot?: number }) => {
+    accounts.getActive()?.releaseWatchSlot(payload?.slot ?? 0);
+    return { ok: true };
+  });
+
   ipcMain.handle("twitch/dropProgress", async (_e, payload: { channelId?: string }) => {
     try {
-      const progress = await twitch.fetchDropProgress(payload?.channelId ?? "");
+      const progress = await accounts
+        .requireActive()
+        .twitch.fetchDropProgress(payload?.channelId ?? "");
       return { ok: true, progress };
     } catch (err) {
-      if (twitch.isAuthError(err)) {
+      if (err instanceof TwitchAuthError) {
         return { error: "auth", message: (err as Error).message, status: (err as any).status };
       }
       if (err instanceof TwitchServiceError) {
@@ -333,9 +441,52 @@ export function registerIpcHandlers(deps: {
     "twitch/claimDrop",
     async (_e, payload: { dropInstanceId?: string; dropId?: string; campaignId?: string }) => {
       try {
-        return await twitch.claimDrop(payload);
+        return await accounts.requireActive().twitch.claimDrop(payload);
       } catch (err) {
-        if (twitch.isAuthError(err)) {
+        if (err instanceof TwitchAuthError) {
+          return { error: "auth", message: (err as Error).message, status: (err as any).status };
+        }
+        if (err instanceof TwitchServiceError) {
+          return { error: "twitch", code: err.code, message: err.message };
+        }
+        return { error: "unknown", message: err instanceof Error ? err.message : String(err) };
+      }
+    },
+  );
+
+  ipcMain.handle("claimQueue/get", async (): Promise<ClaimQueueState> => {
+    return (await accounts.getActive()?.claimQueue.snapshot()) ?? emptyClaimQueueState();
+  });
+
+  // Queued claims resolve like `twitch/claimDrop`; a drop that is still backing
+  // off answers `{ ok: false, queued: true }` and is retried from main.
+  ipcMain.handle("claimQueue/enqueue", async (_e, payload: ClaimQueueRequest) => {
+    try {
+      const result = await accounts.requireActive().claimQueue.enqueue(payload ?? {});
+      if (result.queued) return { ok: false, queued: true, nextAttemptAt: result.nextAttemptAt };
+      return { ok: true, status: result.status, claimId: result.claimId };
+    } catch (err) {
+      if (err instanceof TwitchAuthError) {
+        return { error: "auth", message: (err as Error).message, status: (err as any).status };
+      }
+      if (err instanceof TwitchServiceError) {
+        return { error: "twitch", code: err.code, message: err.message };
+      }
+      return { error: "unknown", message: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // Progress is broadcast as `claimQueue/claimAllProgress`; the call resolves
+  // with the finished report.
+  ipcMain.handle(
+    "claimQueue/claimAll",
+    async (_e, payload?: { requests?: ClaimQueueRequest[] }) => {
+      try {
+        const requests = Array.isArray(payload?.requests) ? payload.requests : undefined;
+        const report = await accounts.requireActive().claimAllReady(requests);
+        return { ok: true, report };
+      } catch (err) {
+        if (err instanceof TwitchAuthError) {
           return { error: "auth", message: (err as Error).message, status: (err as any).status };
         }
         if (err instanceof TwitchServiceError) {
@@ -353,6 +504,9 @@ export function registerIpcHandlers(deps: {
   ipcMain.handle("settings/save", async (_e, payload: SettingsSaveData) => {
     const saved = await saveSettings(payload);
     applyAutoStartSetting?.(saved.autoStart);
+    accounts.setProxy(saved.proxyUrl);
+    accounts.setChannelDirectory(saved.channelDirectoryPages, saved.channelLanguageFilter);
+    accounts.setFarmSchedule(saved.farmSchedule, saved.farmPauseUntil);
     if (process.platform === "win32" && app.isPackaged) {
       autoUpdater.allowPrerelease = allowsPrereleaseBuilds(saved.updateChannel);
     }
@@ -366,6 +520,9 @@ export function registerIpcHandlers(deps: {
   ipcMain.handle("settings/import", async (_e, payload: SettingsSaveData) => {
     const saved = await importSettings(payload);
     applyAutoStartSetting?.(saved.autoStart);
+    accounts.setProxy(saved.proxyUrl);
+    accounts.setChannelDirectory(saved.channelDirectoryPages, saved.channelLanguageFilter);
+    accounts.setFarmSchedule(saved.farmSchedule, saved.farmPauseUntil);
     if (process.platform === "win32" && app.isPackaged) {
       autoUpdater.allowPrerelease = allowsPrereleaseBuilds(saved.updateChannel);
     }
@@ -373,25 +530,60 @@ export function registerIpcHandlers(deps: {
   });
 
   ipcMain.handle("stats/get", async () => {
-    return loadStats();
+    return accounts.activeStats().load();
   });
 
   ipcMain.handle("stats/save", async (_e, payload: Partial<StatsData>) => {
-    return saveStats(payload);
+    return accounts.activeStats().save(payload);
   });
 
-  ipcMain.handle(
-    "stats/bump",
-    async (
-      _e,
-      payload: { minutes?: number; claims?: number; lastDropTitle?: string; lastGame?: string },
-    ) => {
-      return bumpStats(payload);
-    },
-  );
+  ipcMain.handle("stats/bump", async (_e, payload: StatsDelta) => {
+    return accounts.activeStats().bump(payload);
+  });
 
   ipcMain.handle("stats/reset", async () => {
-    return resetStats();
+    return accounts.activeStats().reset();
+  });
+
+  ipcMain.handle("reliability/get", async () => {
+    return accounts.activeReliability().load();
+  });
+
+  ipcMain.handle("reliability/record", async (_e, payload: ChannelReliabilityEvent[]) => {
+    return accounts.activeReliability().record(payload);
+  });
+
+  ipcMain.handle("reliability/reset", async () => {
+    return accounts.activeReliability().reset();
+  });
+
+  ipcMain.handle("claims/get", async () => {
+    return accounts.activeClaims().load();
+  });
+
+  ipcMain.handle("claims/record", async (_e, payload: ClaimLedgerEntry) => {
+    return accounts.activeClaims().record(payload);
+  });
+
+  ipcMain.handle("claims/export", async (event, format: "csv" | "json") => {
+    const kind = format === "json" ? "json" : "csv";
+    try {
+      const ledger = await accounts.activeClaims().load();
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        defaultPath: `droppilot-rewards.${kind}`,
+        filters: [{ name: kind.toUpperCase(), extensions: [kind] }],
+      };
+      const result = win
+        ? await dialog.showSaveDialog(win, options)
+        : await dialog.showSaveDialog(options);
+      if (result.canceled || !result.filePath) return { ok: false, canceled: true };
+      const body = kind === "json" ? JSON.stringify(ledger, null, 2) : claimLedgerToCsv(ledger);
+      await fs.writeFile(result.filePath, body, "utf-8");
+      return { ok: true, path: result.filePath, count: ledger.length };
+    } catch (err) {
+      return { error: "unknown", message: err instanceof Error ? err.message : String(err) };
+    }
   });
 
   ipcMain.handle("app/isMaximized", async (event) => {
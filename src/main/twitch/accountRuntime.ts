@@ -0,0 +1,341 @@
+import type { SessionStore } from "../core/storage";
+import type { StatsStore } from "../core/stats";
+import type { ChannelReliabilityStore } from "../core/channelReliability";
+import type { ClaimLedgerStore } from "../core/claimLedger";
+import type { ClaimQueueStore } from "../core/claimQueue";
+import type {
+  ChannelReliabilityEvent,
+  ChannelReliabilityEventKind,
+} from "../../shared/channelReliability";
+import {
+  DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  normalizeChannelDirectoryRequest,
+  type ChannelDirectorySettings,
+} from "../../shared/channelDirectory";
+import { readyClaimRequests, type ClaimBatchReport } from "../../shared/claimBatch";
+import type { ClaimQueueRequest } from "../../shared/claimQueue";
+import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import {
+  DEFAULT_FARM_SCHEDULE,
+  evaluateFarmSchedule,
+  type FarmSchedule,
+} from "../../shared/farmSchedule";
+import { normalizeWatchSlotIndex, PRIMARY_WATCH_SLOT } from "../../shared/watchSlots";
+import { runClaimBatch } from "./claimBatch";
+import { canRefreshSession } from "./client";
+import { ClaimQueue } from "./claimQueue";
+import { TwitchServiceError } from "./errors";
+import { TwitchService, type TwitchServiceShared } from "./service";
+import { ProxyRoute } from "./proxy";
+import { SessionHealthScheduler } from "./sessionHealth";
+import { createChannelTracker, type ChannelTracker, type ChannelTrackerMode } from "./tracker";
+import { UserPubSub } from "./userPubSub";
+
+export type WatchTarget = { channelId: string; login: string; streamId?: string };
+
+export type AccountRuntimeStatus = {
+  background: boolean;
+  /** Primary slot target; kept for older renderers. */
+  watchTarget: WatchTarget | null;
+  /** Every occupied watch slot, in slot order. */
+  watchTargets: WatchTarget[];
+  lastBackgroundPingAt: number | null;
+  lastBackgroundError?: string;
+};
+
+/**
+ * Matches the renderer's WATCH_INTERVAL_MS so a backgrounded account keeps
+ * earning minutes at the same cadence it had while it was in the foreground.
+ */
+const BACKGROUND_WATCH_INTERVAL_MS = 59_000;
+
+/**
+ * Errors after which a background watch target is abandoned. The renderer's
+ * engine would pick a new channel here; a backgrounded account cannot, so it
+ * idles until the user switches back to it.
+ */
+const TERMINAL_WATCH_CODES = new Set<string>([
+  TWITCH_ERROR_CODES.WATCH_OFFLINE,
+  TWITCH_ERROR_CODES.WATCH_MISSING_LOGIN,
+  TWITCH_ERROR_CODES.WATCH_MISSING_IDS,
+]);
+
+/**
+ * Everything that talks to Twitch on behalf of one linked account: its own
+ * TwitchService (and thus TwitchClient + device/session ids), channel tracker,
+ * user PubSub socket, watch loop, claim queue and the proxy all of them
+ * connect through.
+ *
+ * The foreground account's watch loop is driven by the renderer through the
+ * `twitch/watch` IPC, one target per watch slot. When the user switches to
+ * another account, the runtime takes over and keeps pinging the last target of
+ * every slot from main until it goes offline or the account is brought back to
+ * the foreground.
+ */
+export class AccountRuntime {
+  readonly twitch: TwitchService;
+  readonly channelTracker: ChannelTracker;
+  readonly userPubSub: UserPubSub;
+  readonly sessionHealth: SessionHealthScheduler;
+  readonly claimQueue: ClaimQueue;
+  readonly proxy: ProxyRoute;
+  private watchTargets: Array<WatchTarget | null> = [];
+  private background = false;
+  private backgroundTimer: NodeJS.Timeout | null = null;
+  private lastBackgroundPingAt: number | null = null;
+  private lastBackgroundError: string | undefined;
+  private disposed = false;
+  /** Directory pages and languages from settings; see `setChannelDirectory`. */
+  private channelDirectory: ChannelDirectorySettings = {
+    pages: DEFAULT_CHANNEL_DIRECTORY_PAGES,
+    languages: [],
+  };
+  private farmSchedule: FarmSchedule = DEFAULT_FARM_SCHEDULE;
+  private farmPauseUntil: number | null = null;
+  private claimBatch: Promise<ClaimBatchReport> | null = null;
+  private readonly claimBatchListeners = new Set<(report: ClaimBatchReport) => void>();
+
+  constructor(
+    readonly id: string,
+    readonly sessionStore: SessionStore,
+    readonly stats: StatsStore,
+    readonly reliability: ChannelReliabilityStore,
+    readonly claims: ClaimLedgerStore,
+    claimQueueStore: ClaimQueueStore,
+    trackerMode: ChannelTrackerMode,
+    shared: TwitchServiceShared,
+    proxyUrl = "",
+  ) {
+    this.proxy = new ProxyRoute(proxyUrl);
+    this.twitch = new TwitchService(sessionStore, shared, this.proxy);
+    this.channelTracker = createChannelTracker(this.twitch, trackerMode, {
+      trafficRecorder: shared.trafficRecorder,
+      proxy: this.proxy,
+    });
+    this.userPubSub = new UserPubSub(() => sessionStore.load(), {
+      trafficRecorder: shared.trafficRecorder,
+      proxy: this.proxy,
+    });
+    this.sessionHealth = new SessionHealthScheduler({
+      loadSession: () => sessionStore.load(),
+      revalidate: (opts) => this.twitch.revalidateSession(opts),
+      canRefresh: canRefreshSession,
+      onRefreshed: () => this.userPubSub.notifySessionChanged(),
+    });
+    this.claimQueue = new ClaimQueue({
+      store: claimQueueStore,
+      ledger: claims,
+      claimDrop: (payload) => this.twitch.claimDrop(payload),
+      label: `[account:${id}]`,
+    });
+  }
+
+  start() {
+    if (this.disposed) return;
+    this.userPubSub.start();
+    this.sessionHealth.start();
+    this.claimQueue.start();
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.stopBackgroundWatch();
+    this.sessionHealth.stop();
+    this.claimQueue.stop();
+    this.claimBatchListeners.clear();
+    if (typeof this.channelTracker.dispose === "function") {
+      this.channelTracker.dispose();
+    }
+    this.userPubSub.dispose();
+    this.proxy.dispose();
+  }
+
+  getStatus(): AccountRuntimeStatus {
+    return {
+      background: this.background,
+      watchTarget: this.watchTargets[PRIMARY_WATCH_SLOT] ?? null,
+      watchTargets: this.watchTargets.filter((target): target is WatchTarget => target !== null),
+      lastBackgroundPingAt: this.lastBackgroundPingAt,
+      lastBackgroundError: this.lastBackgroundError,
+    };
+  }
+
+  /**
+   * Claims every ready drop through the claim queue, one at a time. Without
+   * requests (tray) the ready drops come from a fresh inventory. A second call
+   * while a batch runs joins that batch.
+   */
+  claimAllReady(requests?: ClaimQueueRequest[]): Promise<ClaimBatchReport> {
+    if (!this.claimBatch) {
+      this.claimBatch = this.runClaimAllReady(requests).finally(() => {
+        this.claimBatch = null;
+      });
+    }
+    return this.claimBatch;
+  }
+
+  onClaimBatch(listener: (report: ClaimBatchReport) => void): () => void {
+    this.claimBatchListeners.add(listener);
+    return () => {
+      this.claimBatchListeners.delete(listener);
+    };
+  }
+
+  private async runClaimAllReady(requests?: ClaimQueueRequest[]) {
+    const ready = requests ?? readyClaimRequests(await this.twitch.getInventory());
+    return runClaimBatch(ready, {
+      claim: (request) => this.claimQueue.enqueue({ ...request, source: "manual" }),
+      onProgress: (report) => {
+        for (const listener of this.claimBatchListeners) listener(report);
+      },
+    });
+  }
+
+  /** Applies the directory settings; pushed by the account manager whenever settings are saved. */
+  setChannelDirectory(directory: ChannelDirectorySettings) {
+    this.channelDirectory = directory;
+  }
+
+  /**
+   * Schedule and manual pause from settings. The renderer enforces them for
+   * the foreground account; the background loop checks them before each ping.
+   */
+  setFarmSchedule(schedule: FarmSchedule, pauseUntil: number | null) {
+    this.farmSchedule = schedule;
+    this.farmPauseUntil = pauseUntil;
+  }
+
+  /** A channel fetch for the renderer's allowlist, with the configured pages and languages. */
+  channelDirectoryRequest(allowlist: { logins?: string[]; ids?: string[] }) {
+    return normalizeChannelDirectoryRequest({
+      ...this.channelDirectory,
+      logins: allowlist.logins,
+      ids: allowlist.ids,
+    });
+  }
+
+  /** The stored session was replaced (re-login, vault unlock). */
+  notifySessionChanged() {
+    this.userPubSub.notifySessionChanged();
+    this.sessionHealth.notifySessionChanged();
+  }
+
+  /** Foreground ping issued by the renderer; remembers the slot's target for later. */
+  async sendWatchPing(target: WatchTarget, slot: number = PRIMARY_WATCH_SLOT) {
+    this.watchTargets[normalizeWatchSlotIndex(slot)] = {
+      channelId: target.channelId,
+      login: target.login,
+      streamId: target.streamId,
+    };
+    try {
+      const result = await this.twitch.sendWatchPing(target);
+      // The renderer records credits only for the active account's primary slot.
+      const creditTracked =
+        normalizeWatchSlotIndex(slot) === PRIMARY_WATCH_SLOT && !this.background;
+      this.recordWatchOutcome(target, null, creditTracked);
+      return result;
+    } catch (err) {
+      this.recordWatchOutcome(target, err);
+      throw err;
+    }
+  }
+
+  /** The renderer stopped a slot; it must not be resumed in the background. */
+  releaseWatchSlot(slot: number) {
+    this.watchTargets[normalizeWatchSlotIndex(slot)] = null;
+  }
+
+  /**
+   * Feeds a ping result into the channel reliability ledger. Only outcomes that
+   * say something about the channel count; auth and missing-id errors do not.
+   * Pings count towards the credit ratio only where credits are recorded too.
+   */
+  private recordWatchOutcome(target: WatchTarget, err: unknown, creditTracked = false) {
+    let kind: ChannelReliabilityEventKind | null = null;
+    if (err === null) kind = "ping";
+    else if (err instanceof TwitchServiceError) {
+      if (err.code === TWITCH_ERROR_CODES.WATCH_OFFLINE) kind = "offline";
+      else if (err.code === TWITCH_ERROR_CODES.WATCH_PING_FAILED) kind = "pingFailed";
+    }
+    if (!kind || !target.login) return;
+    const event: ChannelReliabilityEvent = { login: target.login, kind };
+    if (kind === "ping") event.creditTracked = creditTracked;
+    this.reliability.record([event]).catch((recordErr) => {
+      console.warn(`[account:${this.id}] reliability record failed`, recordErr);
+    });
+  }
+
+  private hasWatchTarget() {
+    return this.watchTargets.some((target) => target !== null);
+  }
+
+  setBackground(background: boolean) {
+    if (this.disposed || this.background === background) return;
+    this.background = background;
+    if (background) {
+      this.lastBackgroundError = undefined;
+      this.scheduleBackgroundPing();
+    } else {
+      this.stopBackgroundWatch();
+    }
+  }
+
+  private stopBackgroundWatch() {
+    if (!this.backgroundTimer) return;
+    clearTimeout(this.backgroundTimer);
+    this.backgroundTimer = null;
+  }
+
+  private scheduleBackgroundPing() {
+    this.stopBackgroundWatch();
+    if (!this.background || !this.hasWatchTarget() || this.disposed) return;
+    this.backgroundTimer = setTimeout(() => {
+      this.backgroundTimer = null;
+      void this.backgroundPing();
+    }, BACKGROUND_WATCH_INTERVAL_MS);
+  }
+
+  private async backgroundPing() {
+    if (!this.background || this.disposed) return;
+    // Paused by the schedule or from the tray: keep the targets and try again
+    // on the next tick, so watching resumes once the pause ends.
+    if (evaluateFarmSchedule(this.farmSchedule, this.farmPauseUntil).paused) {
+      this.scheduleBackgroundPing();
+      return;
+    }
+    const errors: string[] = [];
+    for (const [slot, target] of this.watchTargets.entries()) {
+      if (!target) continue;
+      const error = await this.backgroundPingSlot(slot, target);
+      if (error) errors.push(error);
+      if (!this.background || this.disposed) return;
+    }
+    if (errors.length === 0) this.lastBackgroundError = undefined;
+    else this.lastBackgroundError = errors.join("; ");
+    this.scheduleBackgroundPing();
+  }
+
+  /** Pings one slot; returns the error message when the ping failed. */
+  private async backgroundPingSlot(slot: number, target: WatchTarget) {
+    try {
+      await this.twitch.sendWatchPing(target);
+      this.recordWatchOutcome(target, null);
+      this.lastBackgroundPingAt = Date.now();
+      await this.stats.bump({ minutes: 1 }).catch((err) => {
+        console.warn(`[account:${this.id}] stats bump failed`, err);
+      });
+      return undefined;
+    } catch (err) {
+      this.recordWatchOutcome(target, err);
+      const message = err instanceof Error ? err.message : String(err);
+      const terminal =
+        this.twitch.isAuthError(err) ||
+        (err instanceof TwitchServiceError && TERMINAL_WATCH_CODES.has(err.code));
+      if (terminal) {
+        console.log(`[account:${this.id}] background watch stopped (slot ${slot})`, message);
+        this.watchTargets[slot] = null;
+      }
+      return message;
+    }
+  }
+}
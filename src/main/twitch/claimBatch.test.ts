@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ClaimBatchReport } from "../../shared/claimBatch";
+import type { ClaimQueueRequest } from "../../shared/claimQueue";
+import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import { runClaimBatch } from "./claimBatch";
+import type { ClaimQueueEnqueueResult } from "./claimQueue";
+import { TwitchAuthError } from "./client";
+import { TwitchServiceError } from "./errors";
+
+const drop = (id: string): ClaimQueueRequest => ({
+  dropId: id,
+  campaignId: "camp-1",
+  title: `Drop ${id}`,
+  game: "Rust",
+  source: "manual",
+});
+
+describe("runClaimBatch", () => {
+  it("claims each drop with a pause in between and reports every outcome", async () => {
+    const claim = vi.fn(async (request: ClaimQueueRequest): Promise<ClaimQueueEnqueueResult> => {
+      if (request.dropId === "a") return { queued: false, status: "ELIGIBLE_FOR_ALL" };
+      if (request.dropId === "b") return { queued: false, status: "ALREADY_CLAIMED" };
+      if (request.dropId === "c") return { queued: true, nextAttemptAt: 5 };
+      throw new TwitchServiceError(TWITCH_ERROR_CODES.CLAIM_FAILED, "Claim failed: UNKNOWN");
+    });
+    const sleep = vi.fn(async () => undefined);
+    const progress: ClaimBatchReport[] = [];
+    let clock = 100;
+
+    const report = await runClaimBatch([drop("a"), drop("b"), drop("c"), drop("d")], {
+      claim,
+      sleep,
+      paceMs: 250,
+      now: () => (clock += 1),
+      onProgress: (next) => progress.push(next),
+    });
+
+    expect(sleep.mock.calls).toEqual([[250], [250], [250]]);
+    expect(
+      report.results.map((result) => [result.dropId, result.outcome, result.reason, result.code]),
+    ).toEqual([
+      ["a", "claimed", "ELIGIBLE_FOR_ALL", ""],
+      ["b", "already-claimed", "ALREADY_CLAIMED", ""],
+      ["c", "failed", "Claim is backing off after an earlier failure", "claim.backing_off"],
+      ["d", "failed", "Claim failed: UNKNOWN", "claim.failed"],
+    ]);
+    expect(report).toMatchObject({ startedAt: 101, finishedAt: 102, total: 4 });
+    expect(progress.map((next) => next.results.length)).toEqual([0, 1, 2, 3, 4, 4]);
+    expect(progress[progress.length - 1].finishedAt).toBe(102);
+  });
+
+  it("stops at an auth error and fails the drops still waiting", async () => {
+    const claim = vi.fn(async (): Promise<ClaimQueueEnqueueResult> => {
+      throw new TwitchAuthError("Session expired", 401);
+    });
+
+    const report = await runClaimBatch([drop("a"), drop("b")], {
+      claim,
+      sleep: async () => undefined,
+    });
+
+    expect(claim).toHaveBeenCalledTimes(1);
+    expect(report.results.map((result) => [result.dropId, result.reason, result.code])).toEqual([
+      ["a", "Session expired", "claim.auth_expired"],
+      ["b", "Session expired", "claim.auth_expired"],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  CLAIM_BATCH_PACE_MS,
+  classifyClaimStatus,
+  type ClaimBatchReport,
+  type ClaimBatchResult,
+} from "../../shared/claimBatch";
+import type { ClaimQueueRequest } from "../../shared/claimQueue";
+import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import type { ClaimQueueEnqueueResult } from "./claimQueue";
+import { TwitchAuthError } from "./client";
+import { TwitchServiceError } from "./errors";
+
+export type ClaimBatchDeps = {
+  claim: (request: ClaimQueueRequest) => Promise<ClaimQueueEnqueueResult>;
+  /** Called with a fresh report after every drop and once more when the batch is done. */
+  onProgress?: (report: ClaimBatchReport) => void;
+  paceMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+};
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const resultFor = (
+  request: ClaimQueueRequest,
+  outcome: ClaimBatchResult["outcome"],
+  reason: string,
+  code = "",
+): ClaimBatchResult => ({
+  dropId: request.dropId || request.dropInstanceId || "",
+  title: request.title ?? "",
+  game: request.game ?? "",
+  outcome,
+  reason,
+  code,
+});
+
+const errorCodeOf = (err: unknown): string => {
+  if (err instanceof TwitchServiceError) return err.code;
+  if (err instanceof TwitchAuthError) return TWITCH_ERROR_CODES.CLAIM_AUTH_EXPIRED;
+  return TWITCH_ERROR_CODES.CLAIM_FAILED;
+};
+
+/**
+ * Claims the given drops one after another, pausing between claims. Each drop
+ * gets its own result; a failed claim does not stop the batch, except for an
+ * auth error, which fails every drop still waiting with the same reason.
+ */
+export async function runClaimBatch(
+  requests: ClaimQueueRequest[],
+  deps: ClaimBatchDeps,
+): Promise<ClaimBatchReport> {
+  const now = deps.now ?? Date.now;
+  const sleep = deps.sleep ?? defaultSleep;
+  const paceMs = deps.paceMs ?? CLAIM_BATCH_PACE_MS;
+  const report: ClaimBatchReport = {
+    startedAt: now(),
+    finishedAt: null,
+    total: requests.length,
+    results: [],
+  };
+  const emit = () => deps.onProgress?.({ ...report, results: [...report.results] });
+  emit();
+
+  for (let index = 0; index < requests.length; index += 1) {
+    const request = requests[index];
+    if (index > 0) await sleep(paceMs);
+    try {
+      const result = await deps.claim(request);
+      report.results.push(
+        result.queued
+          ? resultFor(
+              request,
+              "failed",
+              "Claim is backing off after an earlier failure",
+              TWITCH_ERROR_CODES.CLAIM_BACKING_OFF,
+            )
+          : resultFor(request, classifyClaimStatus(result.status), result.status),
+      );
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      const code = errorCodeOf(err);
+      report.results.push(resultFor(request, "failed", reason, code));
+      if (err instanceof TwitchAuthError) {
+        for (const rest of requests.slice(index + 1)) {
+          report.results.push(resultFor(rest, "failed", reason, code));
+        }
+        break;
+      }
+    }
+    emit();
+  }
+
+  report.finishedAt = now();
+  emit();
+  return { ...report, results: [...report.results] };
+}
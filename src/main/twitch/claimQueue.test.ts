@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ClaimLedgerEntry } from "../../shared/claimLedger";
+import { CLAIM_ATTEMPT_RETRY_MS, type ClaimQueueState } from "../../shared/claimQueue";
+import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import { ClaimQueue } from "./claimQueue";
+import { TwitchServiceError } from "./errors";
+
+const request = {
+  dropId: "drop-1",
+  campaignId: "camp-1",
+  title: "Golden Crate",
+  game: "Rust",
+  source: "auto" as const,
+};
+
+const claimFailed = () => new TwitchServiceError(TWITCH_ERROR_CODES.CLAIM_FAILED, "Claim failed");
+
+describe("ClaimQueue", () => {
+  let saved: ClaimQueueState[];
+  let recorded: ClaimLedgerEntry[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    saved = [];
+    recorded = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const makeQueue = (
+    claimDrop: ConstructorParameters<typeof ClaimQueue>[0]["claimDrop"],
+    initial: ClaimQueueState = { jobs: [], log: [] },
+  ) =>
+    new ClaimQueue({
+      store: {
+        load: async () => initial,
+        save: async (state) => {
+          saved.push(state);
+          return state;
+        },
+      },
+      ledger: {
+        load: async () => recorded,
+        record: async (entry) => {
+          recorded.push(entry);
+          return recorded;
+        },
+      },
+      claimDrop,
+      label: "[test]",
+    });
+
+  it("claims right away and records the claim in the ledger", async () => {
+    const claimDrop = vi.fn(async () => ({ status: "ELIGIBLE_FOR_ALL", claimId: "claim-1" }));
+    const queue = makeQueue(claimDrop);
+    queue.start();
+
+    await expect(queue.enqueue(request)).resolves.toEqual({
+      queued: false,
+      status: "ELIGIBLE_FOR_ALL",
+      claimId: "claim-1",
+    });
+    expect(recorded.map((entry) => entry.id)).toEqual(["camp-1:drop-1"]);
+    await expect(queue.enqueue(request)).resolves.toEqual({
+      queued: false,
+      status: "ALREADY_CLAIMED",
+    });
+    expect(claimDrop).toHaveBeenCalledTimes(1);
+    const state = await queue.snapshot();
+    expect(state.jobs).toEqual([]);
+    expect(state.log[0]).toMatchObject({ outcome: "claimed", attempt: 1 });
+
+    // A second request for the same drop is answered from the audit log.
+    await queue.enqueue(request);
+    expect(claimDrop).toHaveBeenCalledTimes(1);
+    queue.stop();
+  });
+
+  it("persists failed claims and retries them after the backoff", async () => {
+    const claimDrop = vi
+      .fn<ConstructorParameters<typeof ClaimQueue>[0]["claimDrop"]>()
+      .mockRejectedValueOnce(claimFailed())
+      .mockResolvedValue({ status: "ELIGIBLE_FOR_ALL", claimId: "claim-1" });
+    const queue = makeQueue(claimDrop);
+    queue.start();
+
+    await expect(queue.enqueue(request)).rejects.toThrow("Claim failed");
+    expect(saved[saved.length - 1]?.jobs[0]).toMatchObject({ id: "drop-1", attempts: 1 });
+    await expect(queue.enqueue(request)).resolves.toEqual({
+      queued: true,
+      nextAttemptAt: Date.now() + CLAIM_ATTEMPT_RETRY_MS,
+    });
+
+    await vi.advanceTimersByTimeAsync(CLAIM_ATTEMPT_RETRY_MS);
+
+    expect(claimDrop).toHaveBeenCalledTimes(2);
+    const state = await queue.snapshot();
+    expect(state.jobs).toEqual([]);
+    expect(state.log.map((entry) => entry.outcome)).toEqual(["claimed", "failed"]);
+    queue.stop();
+  });
+
+  it("resumes jobs persisted by an earlier session", async () => {
+    const claimDrop = vi.fn(async () => ({ status: "ALREADY_CLAIMED", claimId: "claim-1" }));
+    const queue = makeQueue(claimDrop, {
+      jobs: [
+        {
+          id: "drop-1",
+          dropId: "drop-1",
+          dropInstanceId: "",
+          campaignId: "camp-1",
+          title: "Golden Crate",
+          imageUrl: "",
+          game: "Rust",
+          campaignName: "",
+          channel: "",
+          minutes: 0,
+          source: "auto",
+          enqueuedAt: 1,
+          attempts: 2,
+          nextAttemptAt: Date.now() + 5_000,
+        },
+      ],
+      log: [],
+    });
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(claimDrop).toHaveBeenCalledWith({
+      dropInstanceId: undefined,
+      dropId: "drop-1",
+      campaignId: "camp-1",
+    });
+    expect((await queue.snapshot()).log[0]).toMatchObject({ outcome: "claimed", attempt: 3 });
+    queue.stop();
+  });
+});
@@ -0,0 +1,209 @@
+import type { ClaimLedgerStore } from "../core/claimLedger";
+import type { ClaimQueueStore } from "../core/claimQueue";
+import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import {
+  CLAIM_ATTEMPT_RETRY_MS,
+  claimJobFromRequest,
+  claimLedgerEntryFromJob,
+  dueClaimJobs,
+  emptyClaimQueueState,
+  enqueueClaimJob,
+  findRecentClaim,
+  nextClaimAttemptAt,
+  recordClaimAttempt,
+  type ClaimAttemptResult,
+  type ClaimJob,
+  type ClaimQueueRequest,
+  type ClaimQueueState,
+} from "../../shared/claimQueue";
+import { TwitchAuthError } from "./client";
+import { TwitchServiceError } from "./errors";
+
+export type ClaimQueueDeps = {
+  store: ClaimQueueStore;
+  ledger: ClaimLedgerStore;
+  claimDrop: (payload: {
+    dropInstanceId?: string;
+    dropId?: string;
+    campaignId?: string;
+  }) => Promise<{ status: string | null; claimId: string }>;
+  /** Prefix for console warnings, e.g. `[account:abc]`. */
+  label: string;
+  now?: () => number;
+};
+
+export type ClaimQueueEnqueueResult =
+  | { queued: false; status: string; claimId?: string }
+  | { queued: true; nextAttemptAt: number };
+
+/**
+ * A drop claimed this recently is reported as already claimed instead of
+ * asking Twitch twice; PubSub and the inventory often ask for the same drop.
+ */
+const RECENT_CLAIM_MS = CLAIM_ATTEMPT_RETRY_MS;
+
+/** Twitch cannot claim without an id; retrying the same job never helps. */
+const PERMANENT_CLAIM_CODES = new Set<string>([TWITCH_ERROR_CODES.CLAIM_MISSING_ID]);
+
+const describeFailure = (err: unknown): ClaimAttemptResult => {
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof TwitchAuthError) return { ok: false, code: "auth", message };
+  if (err instanceof TwitchServiceError) {
+    return { ok: false, code: err.code, message, permanent: PERMANENT_CLAIM_CODES.has(err.code) };
+  }
+  return { ok: false, code: "unknown", message };
+};
+
+/**
+ * One account's claim queue. A claim is attempted as soon as it is queued;
+ * when it fails, the job is persisted with its backoff and retried from main,
+ * so it still lands after a reload or while the window is closed to the tray.
+ * Attempts run one at a time and every one is written to the audit log.
+ */
+export class ClaimQueue {
+  private state: ClaimQueueState = emptyClaimQueueState();
+  private loading: Promise<void> | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+  private readonly listeners = new Set<(state: ClaimQueueState) => void>();
+  private readonly now: () => number;
+
+  constructor(private readonly deps: ClaimQueueDeps) {
+    this.now = deps.now ?? Date.now;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    void this.load().then(() => this.schedule());
+  }
+
+  stop() {
+    this.running = false;
+    this.clearTimer();
+    this.listeners.clear();
+  }
+
+  async snapshot(): Promise<ClaimQueueState> {
+    await this.load();
+    return { jobs: [...this.state.jobs], log: [...this.state.log] };
+  }
+
+  onChange(listener: (state: ClaimQueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queues a claim and attempts it right away unless the drop is already
+   * queued and backing off. A failed attempt rethrows the claim error after
+   * the job was scheduled for a retry.
+   */
+  async enqueue(request: ClaimQueueRequest): Promise<ClaimQueueEnqueueResult> {
+    await this.load();
+    return this.exclusive(async () => {
+      const now = this.now();
+      const fresh = claimJobFromRequest(request, now);
+      if (!fresh) {
+        throw new TwitchServiceError(TWITCH_ERROR_CODES.CLAIM_MISSING_ID, "Claim id missing");
+      }
+      const recent = findRecentClaim(this.state, fresh.id, now - RECENT_CLAIM_MS);
+      if (recent) return { queued: false, status: "ALREADY_CLAIMED" };
+      const { state, job } = enqueueClaimJob(this.state, fresh);
+      this.state = state;
+      if (job.nextAttemptAt > now) {
+        await this.commit();
+        return { queued: true, nextAttemptAt: job.nextAttemptAt };
+      }
+      return this.attempt(job);
+    });
+  }
+
+  private async attempt(job: ClaimJob): Promise<ClaimQueueEnqueueResult> {
+    let result: { status: string | null; claimId: string };
+    try {
+      result = await this.deps.claimDrop({
+        dropInstanceId: job.dropInstanceId || undefined,
+        dropId: job.dropId || undefined,
+        campaignId: job.campaignId || undefined,
+      });
+    } catch (err) {
+      this.state = recordClaimAttempt(this.state, job.id, describeFailure(err), this.now());
+      await this.commit();
+      throw err;
+    }
+    const status = result.status ?? "";
+    const claimedAt = this.now();
+    this.state = recordClaimAttempt(this.state, job.id, { ok: true, status }, claimedAt);
+    await this.commit();
+    this.deps.ledger.record(claimLedgerEntryFromJob(job, claimedAt)).catch((err) => {
+      console.warn(`${this.deps.label} claim ledger record failed`, err);
+    });
+    return { queued: false, status, claimId: result.claimId };
+  }
+
+  private async processDue() {
+    this.processing = true;
+    try {
+      await this.exclusive(async () => {
+        for (const job of dueClaimJobs(this.state, this.now())) {
+          if (!this.running) return;
+          await this.attempt(job).catch(() => undefined);
+        }
+      });
+    } finally {
+      this.processing = false;
+      this.schedule();
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.deps.store.load().then((state) => {
+        this.state = state;
+      });
+    }
+    return this.loading;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task, task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async commit() {
+    const state = this.state;
+    for (const listener of this.listeners) {
+      listener({ jobs: [...state.jobs], log: [...state.log] });
+    }
+    await this.deps.store.save(state).catch((err) => {
+      console.warn(`${this.deps.label} claim queue save failed`, err);
+    });
+    if (!this.processing) this.schedule();
+  }
+
+  private schedule() {
+    this.clearTimer();
+    if (!this.running) return;
+    const next = nextClaimAttemptAt(this.state);
+    if (next === null) return;
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        void this.processDue();
+      },
+      Math.max(0, next - this.now()),
+    );
+  }
+
+  private clearTimer() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -3,12 +3,16 @@ import {
   TWITCH_CLIENT_ID,
   TWITCH_CLIENT_SECRET,
   TWITCH_WEB_USER_AGENT,
-  TWITCH_INTEGRITY_URL,
   TWITCH_COOKIE_OVERRIDE,
-  TWITCH_OAUTH_TOKEN_URL,
+  twitchEndpoints,
 } from "../config";
-import type { SessionData } from "../core/storage";
+import type { SessionData, SessionStore } from "../core/storage";
 import { ensureSessionIds, updateSession } from "../core/session";
+import { GqlHttpError, parseRetryAfterMs } from "./errors";
+import { GqlBatcher, gqlEntryError, type GqlOperation } from "./gqlBatcher";
+import { GqlScheduler, type GqlPriority } from "./gqlScheduler";
+import { ProxyRoute } from "./proxy";
+import type { TrafficRecorder } from "./trafficRecorder";
 
 export interface TwitchUser {
   id: string;
@@ -64,6 +68,11 @@ export class TwitchAuthError extends Error {
   }
 }
 
+/** A forced refresh needs a stored refresh token and the OAuth client secret. */
+export function canRefreshSession(session: SessionData | null | undefined): boolean {
+  return Boolean(TWITCH_CLIENT_SECRET && session?.refreshToken?.trim());
+}
+
 export class TwitchClient {
   private deviceId: string;
   private sessionId: string;
@@ -74,7 +83,17 @@ export class TwitchClient {
   private log = (...args: unknown[]) => console.log("[TwitchClient]", ...args);
   private requireIntegrity = TWITCH_CLIENT_ID === "kimne78kx3ncx6brgo4mv6wki5h1ko";
 
-  constructor(private sessionProvider: () => Promise<SessionData | null>) {
+  private sessionProvider: () => Promise<SessionData | null>;
+  private readonly batcher: GqlBatcher;
+
+  constructor(
+    private sessionStore: SessionStore,
+    private readonly scheduler: GqlScheduler = new GqlScheduler(),
+    private readonly recorder?: TrafficRecorder,
+    private readonly proxy: ProxyRoute = new ProxyRoute(),
+  ) {
+    this.sessionProvider = () => sessionStore.load();
+    this.batcher = new GqlBatcher((ops, priority) => this.sendBatch(ops, priority));
     // defaults, replaced in ensureIds()
     this.deviceId = randomUUID();
     this.sessionId = randomUUID();
@@ -100,7 +119,7 @@ export class TwitchClient {
   }
 
   private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
-    const res = await fetch(url, init);
+    const res = await this.proxy.fetch(url, init);
     if (res.status === 401) {
       throw new TwitchAuthError("Unauthorized", 401);
     }
@@ -148,7 +167,45 @@ export class TwitchClient {
     };
   }
 
-  async gqlRequest<T>(body: Record<string, unknown> | Record<string, unknown>[]): Promise<T> {
+  /**
+   * Queued through the GqlScheduler; headers are built per attempt so a
+   * retried request picks up a token refreshed in the meantime. Throws if any
+   * entry of an array body carries errors.
+   */
+  async gqlRequest<T>(
+    body: Record<string, unknown> | Record<string, unknown>[],
+    opts: { priority?: GqlPriority } = {},
+  ): Promise<T> {
+    return this.scheduler.schedule(async () => {
+      const payload = await this.postGql(body);
+      const list = Array.isArray(payload) ? payload : [payload];
+      for (const entry of list) {
+        const error = gqlEntryError(entry);
+        if (error) throw error;
+      }
+      return payload as T;
+    }, opts.priority);
+  }
+
+  /**
+   * Single operation that may share an array POST with other operations
+   * issued at the same time. Only this operation's errors reject the promise.
+   * A failed batch is retried whole, so mutations must use `gqlRequest`.
+   */
+  async gqlOperation<T>(op: GqlOperation, opts: { priority?: GqlPriority } = {}): Promise<T> {
+    return this.batcher.request<T>(op, opts.priority);
+  }
+
+  private sendBatch(ops: GqlOperation[], priority: GqlPriority): Promise<unknown[]> {
+    return this.scheduler.schedule(async () => {
+      // A lone operation goes out as a plain object, exactly like before batching.
+      if (ops.length === 1) return [await this.postGql(ops[0])];
+      const payload = await this.postGql(ops);
+      return Array.isArray(payload) ? payload : [payload];
+    }, priority);
+  }
+
+  private async postGql(body: Record<string, unknown> | Record<string, unknown>[]): Promise<any> {
     const headers = await this.gqlHeaders();
     const hasCookieHeader = typeof headers.Cookie === "string" && headers.Cookie.length > 0;
     this.log("GQL request", {
@@ -164,7 +221,7 @@ export class TwitchClient {
         Referer: headers.Referer ?? "<missing>",
       },
     });
-    const res = await fetch("https://gql.twitch.tv/gql", {
+    const res = await this.proxy.fetch(twitchEndpoints.gql, {
       method: "POST",
       headers: {
         ...headers,
@@ -173,25 +230,21 @@ export class TwitchClient {
       body: JSON.stringify(body),
     });
     if (res.status === 401) {
+      this.recorder?.recordGql(body, 401, null);
       throw new TwitchAuthError("Unauthorized", 401);
     }
     if (!res.ok) {
       const text = await res.text();
-      throw new Error(`Twitch GQL error ${res.status}: ${text}`);
+      this.recorder?.recordGql(body, res.status, text);
+      throw new GqlHttpError(
+        res.status,
+        `Twitch GQL error ${res.status}: ${text}`,
+        parseRetryAfterMs(res.headers.get("retry-after")),
+      );
     }
     const payload = (await res.json()) as any;
-    // basic error surfacing
-    const list = Array.isArray(payload) ? payload : [payload];
-    for (const entry of list) {
-      if (entry?.errors?.length) {
-        throw new Error(
-          `GQL errors: ${entry.errors
-            .map((e: any) => e.message ?? JSON.stringify(e))
-            .join("; ")} | payload=${JSON.stringify(entry)}`,
-        );
-      }
-    }
-    return payload as T;
+    this.recorder?.recordGql(body, res.status, payload);
+    return payload;
   }
 
   async getCookieHeader(): Promise<string> {
@@ -228,7 +281,7 @@ export class TwitchClient {
     if (!session?.accessToken) {
       throw new TwitchAuthError("Not logged in");
     }
-    const res = await fetch(TWITCH_INTEGRITY_URL, {
+    const res = await this.proxy.fetch(twitchEndpoints.integrity, {
       method: "POST",
       headers: {
         "Client-Id": TWITCH_CLIENT_ID,
@@ -289,7 +342,7 @@ export class TwitchClient {
 
     // If still empty, fetch basic cookies from twitch.tv
     if (!parts.length) {
-      const res = await fetch("https://www.twitch.tv/?no-cache=1", {
+      const res = await this.proxy.fetch(`${twitchEndpoints.web}/?no-cache=1`, {
         redirect: "follow",
         headers: {
           "User-Agent": TWITCH_WEB_USER_AGENT,
@@ -349,7 +402,7 @@ export class TwitchClient {
 
     const finalParts = Array.from(cookieMap.entries()).map(([k, v]) => `${k}=${v}`);
     this.cookieHeader = finalParts.join("; ");
-    await updateSession({
+    await updateSession(this.sessionStore, {
       cookies: this.cookieHeader,
       deviceId: this.deviceId,
       sessionId: this.sessionId,
@@ -372,7 +425,7 @@ export class TwitchClient {
     ) {
       return;
     }
-    const ids = await ensureSessionIds();
+    const ids = await ensureSessionIds(this.sessionStore);
     this.deviceId = ids.deviceId;
     this.sessionId = ids.sessionId;
   }
@@ -383,10 +436,11 @@ export class TwitchClient {
     { ok: true; data: ValidateResponse } | { ok: false; status: number; message?: string }
   > {
     try {
-      const validateRes = await fetch("https://id.twitch.tv/oauth2/validate", {
+      const validateRes = await this.proxy.fetch(twitchEndpoints.validate, {
         headers: { Authorization: `OAuth ${token}` },
       });
       if (validateRes.status === 401) {
+        this.recorder?.recordValidate(401, null);
         return { ok: false, status: 401 };
       }
       if (!validateRes.ok) {
@@ -399,6 +453,7 @@ export class TwitchClient {
         return { ok: false, status: validateRes.status, message: message || undefined };
       }
       const data = (await validateRes.json()) as ValidateResponse;
+      this.recorder?.recordValidate(validateRes.status, data);
       return { ok: true, data };
     } catch (err) {
       return {
@@ -423,7 +478,7 @@ export class TwitchClient {
       };
     }
     try {
-      const res = await fetch(TWITCH_OAUTH_TOKEN_URL, {
+      const res = await this.proxy.fetch(twitchEndpoints.oauthToken, {
         method: "POST",
         headers: {
           "Client-Id": TWITCH_CLIENT_ID,
@@ -503,13 +558,25 @@ export class TwitchClient {
     return this.validateInfo;
   }
 
-  async revalidateSession(): Promise<RevalidateResult> {
+  /**
+   * Validates the stored token and refreshes it on a 401. With `forceRefresh`
+   * the refresh token is redeemed up front (proactive refresh before expiry);
+   * if that fails the current token is still validated so a transient refresh
+   * error does not look like a dead session.
+   */
+  async revalidateSession(opts: { forceRefresh?: boolean } = {}): Promise<RevalidateResult> {
     const session = await this.sessionProvider();
     const token = session?.accessToken?.trim();
     if (!token) {
       return { ok: false, status: "missing_token" };
     }
 
+    const storedRefreshToken = session?.refreshToken?.trim();
+    if (opts.forceRefresh && storedRefreshToken && canRefreshSession(session)) {
+      const forced = await this.redeemRefreshToken(session, storedRefreshToken);
+      if (forced.ok) return forced;
+    }
+
     const validateRes = await this.requestValidateInfo(token);
     if (validateRes.ok) {
       const expiresIn = Math.max(0, Number(validateRes.data.expires_in) || 0);
@@ -520,7 +587,7 @@ export class TwitchClient {
         expiresIn,
         scopes: validateRes.data.scopes,
       };
-      await updateSession({
+      await updateSession(this.sessionStore, {
         expiresAt,
         loginName: validateRes.data.login,
         scopes: Array.isArray(validateRes.data.scopes)
@@ -541,30 +608,7 @@ export class TwitchClient {
       if (!refreshToken) {
         return { ok: false, status: "unauthorized" };
       }
-      const refreshed = await this.refreshAccessToken(refreshToken);
-      if (!refreshed.ok) {
-        return {
-          ok: false,
-          status: refreshed.status,
-          message: refreshed.message,
-        };
-      }
-      const expiresIn = Math.max(0, Number(refreshed.expiresIn) || 0);
-      const expiresAt = Date.now() + expiresIn * 1000;
-      this.validateInfo = undefined;
-      await updateSession({
-        accessToken: refreshed.accessToken,
-        refreshToken: refreshed.refreshToken ?? refreshToken,
-        expiresAt,
-        scopes: refreshed.scopes.length > 0 ? refreshed.scopes : (session?.scopes ?? []),
-      });
-      return {
-        ok: true,
-        status: "refreshed",
-        expiresAt,
-        expiresIn,
-        login: session?.loginName,
-      };
+      return this.redeemRefreshToken(session, refreshToken);
     }
 
     return {
@@ -576,13 +620,43 @@ export class TwitchClient {
     };
   }
 
+  private async redeemRefreshToken(
+    session: SessionData | null,
+    refreshToken: string,
+  ): Promise<RevalidateResult> {
+    const refreshed = await this.refreshAccessToken(refreshToken);
+    if (!refreshed.ok) {
+      return {
+        ok: false,
+        status: refreshed.status,
+        message: refreshed.message,
+      };
+    }
+    const expiresIn = Math.max(0, Number(refreshed.expiresIn) || 0);
+    const expiresAt = Date.now() + expiresIn * 1000;
+    this.validateInfo = undefined;
+    await updateSession(this.sessionStore, {
+      accessToken: refreshed.accessToken,
+      refreshToken: refreshed.refreshToken ?? refreshToken,
+      expiresAt,
+      scopes: refreshed.scopes.length > 0 ? refreshed.scopes : (session?.scopes ?? []),
+    });
+    return {
+      ok: true,
+      status: "refreshed",
+      expiresAt,
+      expiresIn,
+      login: session?.loginName,
+    };
+  }
+
   async getUser(): Promise<TwitchUser> {
     const validate = await this.getValidateInfo();
 
     const headers = await this.authHeaders();
     try {
       const data = await this.fetchJson<{ data: any[] }>(
-        `https://api.twitch.tv/helix/users?id=${validate.userId}`,
+        `${twitchEndpoints.helix}/users?id=${validate.userId}`,
         { headers },
       );
       const user = data.data?.[0];
@@ -616,7 +690,7 @@ export class TwitchClient {
       `,
       variables: {},
     };
-    const res = await fetch("https://gql.twitch.tv/gql", {
+    const res = await this.proxy.fetch(twitchEndpoints.gql, {
       method: "POST",
       headers: {
         ...headers,
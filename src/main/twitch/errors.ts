@@ -15,3 +15,27 @@ export class TwitchServiceError extends Error {
     }
   }
 }
+
+/** Non-2xx answer from gql.twitch.tv; the scheduler uses `status` to decide on retries. */
+export class GqlHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "GqlHttpError";
+    this.status = status;
+    if (retryAfterMs !== undefined) {
+      this.retryAfterMs = retryAfterMs;
+    }
+  }
+}
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+export function parseRetryAfterMs(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - now) : undefined;
+}
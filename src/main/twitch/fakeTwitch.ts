@@ -0,0 +1,557 @@
+import { gunzipSync } from "node:zlib";
+
+export type FakeDropScript = {
+  id: string;
+  name: string;
+  requiredMinutes: number;
+  /** Minutes already earned when the scenario starts. */
+  earnedMinutes?: number;
+  claimed?: boolean;
+  preconditionDropIds?: string[];
+  imageUrl?: string;
+  /** Status DropsPage_ClaimDropRewards answers with instead of succeeding. */
+  claimError?: string;
+};
+
+export type FakeCampaignScript = {
+  id: string;
+  name: string;
+  game: { id: string; name: string; slug?: string };
+  /** ISO timestamps; default to started yesterday, ending in a week. */
+  startsAt?: string;
+  endsAt?: string;
+  accountConnected?: boolean;
+  /** Restricts progress to these channels (DropChannelRestriction). */
+  allowedChannelLogins?: string[];
+  drops: FakeDropScript[];
+};
+
+export type FakeStreamScript = {
+  channelId: string;
+  login: string;
+  displayName?: string;
+  /** Game name, as shown in the directory. */
+  game: string;
+  viewers?: number;
+  language?: string;
+  title?: string;
+  online?: boolean;
+  dropsEnabled?: boolean;
+  /** false: watch pings succeed but earn nothing, which is what a stall looks like. */
+  creditsMinutes?: boolean;
+};
+
+export type FakeTwitchScenario = {
+  user?: { id: string; login: string; displayName?: string };
+  campaigns: FakeCampaignScript[];
+  streams: FakeStreamScript[];
+  /** Approve device codes on creation instead of waiting for the /activate page. */
+  autoApproveDeviceCodes?: boolean;
+};
+
+export type FakePubSubPublisher = (topic: string, message: unknown) => void;
+
+type DropState = { earned: number; claimed: boolean };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/** A small scenario with one game, two channels and a three-drop campaign. */
+export const DEMO_FAKE_TWITCH_SCENARIO: FakeTwitchScenario = {
+  user: { id: "1000", login: "fakeviewer", displayName: "FakeViewer" },
+  autoApproveDeviceCodes: true,
+  campaigns: [
+    {
+      id: "campaign-demo",
+      name: "Demo Drops",
+      game: { id: "5000", name: "Demo Game" },
+      drops: [
+        { id: "drop-demo-1", name: "Demo Reward 1", requiredMinutes: 5 },
+        { id: "drop-demo-2", name: "Demo Reward 2", requiredMinutes: 15 },
+        {
+          id: "drop-demo-3",
+          name: "Demo Reward 3",
+          requiredMinutes: 30,
+          preconditionDropIds: ["drop-demo-2"],
+        },
+      ],
+    },
+  ],
+  streams: [
+    { channelId: "2001", login: "demo_streamer", game: "Demo Game", viewers: 1200 },
+    {
+      channelId: "2002",
+      login: "demo_stalls",
+      game: "Demo Game",
+      viewers: 800,
+      creditsMinutes: false,
+    },
+  ],
+};
+
+/**
+ * Scriptable in-memory model of the parts of Twitch the app uses: campaigns,
+ * live streams, per-drop progress and claims. `resolveGql` answers one GQL
+ * operation the way gql.twitch.tv would for the shapes TwitchService reads;
+ * every watch ping credits one minute so tests do not have to wait.
+ */
+export class FakeTwitch {
+  readonly user: { id: string; login: string; displayName: string };
+  private readonly campaigns = new Map<string, FakeCampaignScript>();
+  private readonly streams = new Map<string, FakeStreamScript>();
+  private readonly drops = new Map<string, DropState>();
+  private readonly publishers = new Set<FakePubSubPublisher>();
+  private watchPings = 0;
+
+  constructor(
+    scenario: FakeTwitchScenario,
+    private readonly now: () => number = () => Date.now(),
+  ) {
+    const user = scenario.user ?? { id: "1000", login: "fakeviewer" };
+    this.user = { ...user, displayName: user.displayName ?? user.login };
+    // Scripting mutates streams in place; keep the caller's scenario reusable.
+    const copy = structuredClone(scenario);
+    for (const campaign of copy.campaigns) this.addCampaign(campaign);
+    for (const stream of copy.streams) this.streams.set(stream.login.toLowerCase(), stream);
+  }
+
+  addCampaign(campaign: FakeCampaignScript) {
+    this.campaigns.set(campaign.id, campaign);
+    for (const drop of campaign.drops) {
+      this.drops.set(drop.id, { earned: drop.earnedMinutes ?? 0, claimed: !!drop.claimed });
+    }
+  }
+
+  addStream(stream: FakeStreamScript) {
+    this.streams.set(stream.login.toLowerCase(), { ...stream });
+  }
+
+  setStreamOnline(login: string, online: boolean) {
+    const stream = this.stream(login);
+    if (!stream || (stream.online !== false) === online) return;
+    stream.online = online;
+    this.publish(`video-playback-by-id.${stream.channelId}`, {
+      type: online ? "stream-up" : "stream-down",
+      server_time: this.now() / 1000,
+    });
+  }
+
+  setViewers(login: string, viewers: number) {
+    const stream = this.stream(login);
+    if (!stream) return;
+    stream.viewers = viewers;
+    this.publish(`video-playback-by-id.${stream.channelId}`, {
+      type: "viewcount",
+      viewers,
+      server_time: this.now() / 1000,
+    });
+  }
+
+  setCreditsMinutes(login: string, credits: boolean) {
+    const stream = this.stream(login);
+    if (stream) stream.creditsMinutes = credits;
+  }
+
+  setProgress(dropId: string, minutes: number) {
+    const state = this.drops.get(dropId);
+    if (state) state.earned = Math.max(0, minutes);
+  }
+
+  getProgress(dropId: string): { earned: number; claimed: boolean } | null {
+    const state = this.drops.get(dropId);
+    return state ? { ...state } : null;
+  }
+
+  getWatchPingCount() {
+    return this.watchPings;
+  }
+
+  onPublish(publisher: FakePubSubPublisher): () => void {
+    this.publishers.add(publisher);
+    return () => {
+      this.publishers.delete(publisher);
+    };
+  }
+
+  resolveGql(op: unknown): unknown {
+    const record = (op && typeof op === "object" ? op : {}) as {
+      operationName?: string;
+      query?: string;
+      variables?: Record<string, unknown>;
+    };
+    const variables = record.variables ?? {};
+    const query = typeof record.query === "string" ? record.query : "";
+    if (query.includes("sendSpadeEvents")) return this.sendEvents(variables);
+    if (query.includes("currentUser")) return { data: { currentUser: this.currentUserNode() } };
+    switch (record.operationName) {
+      case "Inventory":
+        return this.inventory();
+      case "ViewerDropsDashboard":
+        return {
+          data: {
+            currentUser: {
+              id: this.user.id,
+              dropCampaigns: [...this.campaigns.values()].map((c) => this.campaignSummary(c)),
+            },
+          },
+        };
+      case "DropCampaignDetails": {
+        const campaign = this.campaigns.get(String(variables.dropID ?? ""));
+        return {
+          data: { user: { dropCampaign: campaign ? this.campaignDetails(campaign) : null } },
+        };
+      }
+      case "DirectoryGameRedirect": {
+        const game = this.findGame(String(variables.name ?? ""));
+        return { data: { game: game ? { slug: game.slug, displayName: game.name } : null } };
+      }
+      case "DirectoryPage_Game":
+        return this.directory(variables);
+      case "DropsHighlightService_AvailableDrops":
+        return this.availableDrops(String(variables.channelID ?? ""));
+      case "VideoPlayerStreamInfoOverlayChannel":
+        return this.streamInfo(String(variables.channel ?? ""));
+      case "DropCurrentSessionContext":
+        return this.currentSession(String(variables.channelID ?? ""));
+      case "DropsPage_ClaimDropRewards": {
+        const input = (variables.input ?? {}) as { dropInstanceID?: string };
+        return this.claim(String(input.dropInstanceID ?? ""));
+      }
+      default:
+        return {
+          errors: [
+            { message: `fake twitch: unsupported operation ${record.operationName ?? "?"}` },
+          ],
+        };
+    }
+  }
+
+  private stream(login: string) {
+    return this.streams.get(login.trim().toLowerCase());
+  }
+
+  private publish(topic: string, message: unknown) {
+    for (const publisher of this.publishers) publisher(topic, message);
+  }
+
+  private campaignWindow(campaign: FakeCampaignScript) {
+    const now = this.now();
+    const startsAt = campaign.startsAt ?? new Date(now - DAY_MS).toISOString();
+    const endsAt = campaign.endsAt ?? new Date(now + 7 * DAY_MS).toISOString();
+    const start = Date.parse(startsAt);
+    const end = Date.parse(endsAt);
+    const status = now < start ? "UPCOMING" : now > end ? "EXPIRED" : "ACTIVE";
+    return { startsAt, endsAt, status };
+  }
+
+  private findGame(name: string) {
+    const wanted = name.trim().toLowerCase();
+    for (const campaign of this.campaigns.values()) {
+      const slug = campaign.game.slug ?? slugify(campaign.game.name);
+      if (campaign.game.name.toLowerCase() === wanted || slug === wanted) {
+        return { ...campaign.game, slug };
+      }
+    }
+    return null;
+  }
+
+  private channelAllowed(campaign: FakeCampaignScript, stream: FakeStreamScript) {
+    const allowed = campaign.allowedChannelLogins;
+    return (
+      !allowed?.length ||
+      allowed.some((login) => login.toLowerCase() === stream.login.toLowerCase())
+    );
+  }
+
+  private preconditionsMet(drop: FakeDropScript) {
+    return (drop.preconditionDropIds ?? []).every((id) => this.drops.get(id)?.claimed);
+  }
+
+  private dropInstanceId(campaign: FakeCampaignScript, drop: FakeDropScript) {
+    return `${this.user.id}#${campaign.id}#${drop.id}`;
+  }
+
+  private currentUserNode() {
+    return {
+      id: this.user.id,
+      login: this.user.login,
+      displayName: this.user.displayName,
+      profileImageURL: null,
+      email: null,
+    };
+  }
+
+  private campaignSummary(campaign: FakeCampaignScript) {
+    const window = this.campaignWindow(campaign);
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      status: window.status,
+      startAt: window.startsAt,
+      endAt: window.endsAt,
+      game: {
+        id: campaign.game.id,
+        displayName: campaign.game.name,
+        slug: campaign.game.slug ?? slugify(campaign.game.name),
+      },
+      self: { isAccountConnected: campaign.accountConnected !== false },
+    };
+  }
+
+  private campaignDetails(campaign: FakeCampaignScript) {
+    const allowed = (campaign.allowedChannelLogins ?? []).map((login) => {
+      const stream = this.stream(login);
+      return {
+        id: stream?.channelId ?? login,
+        login,
+        name: login,
+        displayName: stream?.displayName ?? login,
+      };
+    });
+    return {
+      ...this.campaignSummary(campaign),
+      allow: { isEnabled: allowed.length > 0, channels: allowed.length > 0 ? allowed : null },
+      timeBasedDrops: campaign.drops.map((drop) => {
+        const state = this.drops.get(drop.id) ?? { earned: 0, claimed: false };
+        const finished = state.earned >= drop.requiredMinutes;
+        return {
+          id: drop.id,
+          name: drop.name,
+          requiredMinutesWatched: drop.requiredMinutes,
+          preconditionDrops: (drop.preconditionDropIds ?? []).map((id) => ({ id })),
+          benefitEdges: [
+            {
+              benefit: {
+                id: `benefit-${drop.id}`,
+                name: drop.name,
+                distributionType: "DIRECT_ENTITLEMENT",
+                imageAssetURL: drop.imageUrl ?? "",
+              },
+            },
+          ],
+          self: {
+            currentMinutesWatched: Math.min(state.earned, drop.requiredMinutes),
+            isClaimed: state.claimed,
+            hasPreconditionsMet: this.preconditionsMet(drop),
+            dropInstanceID: finished && !state.claimed ? this.dropInstanceId(campaign, drop) : null,
+          },
+        };
+      }),
+    };
+  }
+
+  private inventory() {
+    const inProgress = [...this.campaigns.values()]
+      .filter((campaign) =>
+        campaign.drops.some((drop) => (this.drops.get(drop.id)?.earned ?? 0) > 0),
+      )
+      .map((campaign) => this.campaignDetails(campaign));
+    const claimed = [...this.campaigns.values()].flatMap((campaign) =>
+      campaign.drops
+        .filter((drop) => this.drops.get(drop.id)?.claimed)
+        .map((drop) => ({ id: `benefit-${drop.id}`, name: drop.name })),
+    );
+    return {
+      data: {
+        currentUser: {
+          id: this.user.id,
+          inventory: { dropCampaignsInProgress: inProgress, gameEventDrops: claimed },
+        },
+      },
+    };
+  }
+
+  /** Viewer-sorted directory page; the cursor is the offset of the next entry. */
+  private directory(variables: Record<string, unknown>) {
+    const game = this.findGame(String(variables.slug ?? ""));
+    if (!game) return { data: { game: null } };
+    const limit = Math.max(1, Number(variables.limit) || 30);
+    const offset = Math.max(0, Number(variables.cursor) || 0);
+    const options = (variables.options ?? {}) as { broadcasterLanguages?: string[] };
+    const languages = (options.broadcasterLanguages ?? []).map((language) =>
+      language.toLowerCase(),
+    );
+    const matching = [...this.streams.values()]
+      .filter(
+        (stream) =>
+          stream.online !== false &&
+          stream.game.toLowerCase() === game.name.toLowerCase() &&
+          (languages.length === 0 || languages.includes((stream.language ?? "en").toLowerCase())),
+      )
+      .sort((a, b) => (b.viewers ?? 0) - (a.viewers ?? 0));
+    const edges = matching.slice(offset, offset + limit).map((stream, index) => ({
+      cursor: String(offset + index + 1),
+      node: {
+        id: `stream-${stream.channelId}`,
+        viewersCount: stream.viewers ?? 0,
+        previewImageURL: "",
+        broadcaster: {
+          id: stream.channelId,
+          login: stream.login,
+          displayName: stream.displayName ?? stream.login,
+          language: stream.language ?? "en",
+          broadcastSettings: {
+            title: stream.title ?? `${stream.login} plays ${stream.game}`,
+            isDropsEnabled: stream.dropsEnabled !== false,
+          },
+        },
+      },
+    }));
+    return {
+      data: {
+        game: {
+          id: game.id,
+          streams: { edges, pageInfo: { hasNextPage: offset + limit < matching.length } },
+        },
+      },
+    };
+  }
+
+  /** Active, connected campaigns this stream currently earns progress for. */
+  private earningCampaigns(stream: FakeStreamScript) {
+    return [...this.campaigns.values()].filter(
+      (campaign) =>
+        this.campaignWindow(campaign).status === "ACTIVE" &&
+        campaign.game.name.toLowerCase() === stream.game.toLowerCase() &&
+        this.channelAllowed(campaign, stream),
+    );
+  }
+
+  private availableDrops(channelId: string) {
+    const stream = [...this.streams.values()].find((entry) => entry.channelId === channelId);
+    const campaigns =
+      stream && stream.online !== false && stream.dropsEnabled !== false
+        ? this.earningCampaigns(stream).map((campaign) => ({
+            id: campaign.id,
+            name: campaign.name,
+          }))
+        : [];
+    return { data: { channel: { id: channelId, viewerDropCampaigns: campaigns } } };
+  }
+
+  private streamInfo(login: string) {
+    const stream = this.stream(login);
+    if (!stream) return { data: { user: null } };
+    const game = this.findGame(stream.game);
+    return {
+      data: {
+        user: {
+          id: stream.channelId,
+          login: stream.login,
+          displayName: stream.displayName ?? stream.login,
+          broadcastSettings: {
+            title: stream.title ?? "",
+            game: { id: game?.id ?? "0", name: stream.game, displayName: stream.game },
+          },
+          stream:
+            stream.online === false
+              ? null
+              : { id: `stream-${stream.channelId}`, viewersCount: stream.viewers ?? 0 },
+        },
+      },
+    };
+  }
+
+  /** First drop still earning on this channel, like Twitch's dropCurrentSession. */
+  private nextEarningDrop(stream: FakeStreamScript) {
+    for (const campaign of this.earningCampaigns(stream)) {
+      if (campaign.accountConnected === false) continue;
+      for (const drop of campaign.drops) {
+        const state = this.drops.get(drop.id);
+        if (!state || state.claimed || state.earned >= drop.requiredMinutes) continue;
+        if (!this.preconditionsMet(drop)) continue;
+        return { campaign, drop, state };
+      }
+    }
+    return null;
+  }
+
+  private currentSession(channelId: string) {
+    const stream = [...this.streams.values()].find((entry) => entry.channelId === channelId);
+    const next = stream && stream.online !== false ? this.nextEarningDrop(stream) : null;
+    return {
+      data: {
+        currentUser: {
+          id: this.user.id,
+          dropCurrentSession:
+            stream && next
+              ? {
+                  dropID: next.drop.id,
+                  currentMinutesWatched: next.state.earned,
+                  requiredMinutesWatched: next.drop.requiredMinutes,
+                  channel: { id: stream.channelId, name: stream.login },
+                  game: { id: next.campaign.game.id, name: next.campaign.game.name },
+                }
+              : null,
+        },
+      },
+    };
+  }
+
+  private sendEvents(variables: Record<string, unknown>) {
+    const input = (variables.input ?? {}) as { data?: string };
+    let events: Array<{ event?: string; properties?: { channel_id?: string } }> = [];
+    try {
+      events = JSON.parse(gunzipSync(Buffer.from(input.data ?? "", "base64")).toString("utf-8"));
+    } catch {
+      return { data: { sendSpadeEvents: { statusCode: 400 } } };
+    }
+    for (const event of events) {
+      if (event.event !== "minute-watched") continue;
+      this.watchPings += 1;
+      const channelId = String(event.properties?.channel_id ?? "");
+      const stream = [...this.streams.values()].find((entry) => entry.channelId === channelId);
+      if (!stream || stream.online === false || stream.creditsMinutes === false) continue;
+      this.creditMinute(stream);
+    }
+    return { data: { sendSpadeEvents: { statusCode: 204 } } };
+  }
+
+  /** Twitch advances every eligible drop of a campaign in parallel. */
+  private creditMinute(stream: FakeStreamScript) {
+    for (const campaign of this.earningCampaigns(stream)) {
+      if (campaign.accountConnected === false) continue;
+      for (const drop of campaign.drops) {
+        const state = this.drops.get(drop.id);
+        if (!state || state.claimed || state.earned >= drop.requiredMinutes) continue;
+        if (!this.preconditionsMet(drop)) continue;
+        state.earned += 1;
+        const topic = `user-drop-events.${this.user.id}`;
+        this.publish(topic, {
+          type: "drop-progress",
+          data: {
+            drop_id: drop.id,
+            channel_id: stream.channelId,
+            current_progress_min: state.earned,
+            required_progress_min: drop.requiredMinutes,
+          },
+        });
+        if (state.earned >= drop.requiredMinutes) {
+          this.publish(topic, {
+            type: "drop-claim",
+            data: { drop_id: drop.id, drop_instance_id: this.dropInstanceId(campaign, drop) },
+          });
+        }
+      }
+    }
+  }
+
+  private claim(dropInstanceId: string) {
+    const [, campaignId, dropId] = dropInstanceId.split("#");
+    const campaign = this.campaigns.get(campaignId ?? "");
+    const drop = campaign?.drops.find((entry) => entry.id === dropId);
+    const state = drop ? this.drops.get(drop.id) : undefined;
+    const result = (status: string) => ({ data: { claimDropRewards: { status } } });
+    if (!drop || !state) return result("DROP_INSTANCE_NOT_FOUND");
+    if (state.claimed) return result("DROP_INSTANCE_ALREADY_CLAIMED");
+    if (drop.claimError) return result(drop.claimError);
+    if (state.earned < drop.requiredMinutes) return result("DROP_INSTANCE_NOT_CLAIMABLE");
+    state.claimed = true;
+    return result("ELIGIBLE_FOR_ALL");
+  }
+}
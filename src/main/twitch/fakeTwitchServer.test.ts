@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { overrideTwitchEndpoints, twitchEndpoints } from "../config";
+import type { SessionData, SessionStore } from "../core/storage";
+import type { FakeTwitchScenario } from "./fakeTwitch";
+import { startFakeTwitchServer, type FakeTwitchServer } from "./fakeTwitchServer";
+import { normalizeChannelDirectoryRequest } from "../../shared/channelDirectory";
+import { TwitchService } from "./service";
+import { WsChannelTracker, type ChannelTrackerDiffEvent } from "./tracker";
+import { UserPubSub, type UserPubSubEvent } from "./userPubSub";
+
+const scenario: FakeTwitchScenario = {
+  user: { id: "77", login: "tester" },
+  campaigns: [
+    {
+      id: "c1",
+      name: "Campaign",
+      game: { id: "g1", name: "Test Game" },
+      drops: [
+        { id: "d1", name: "First", requiredMinutes: 2 },
+        { id: "d2", name: "Broken", requiredMinutes: 1, claimError: "DROP_INSTANCE_NOT_CLAIMABLE" },
+      ],
+    },
+  ],
+  streams: [
+    { channelId: "500", login: "good", game: "Test Game", viewers: 10 },
+    { channelId: "501", login: "stalled", game: "Test Game", viewers: 20, creditsMinutes: false },
+  ],
+};
+
+const session: SessionData = {
+  accessToken: "token",
+  expiresAt: Date.now() + 3_600_000,
+  scopes: [],
+  cookies: "auth-token=token",
+  loginName: "tester",
+};
+
+const memoryStore = (initial: SessionData): SessionStore => {
+  let data: SessionData | null = { ...initial };
+  return {
+    load: async () => data,
+    save: async (next) => {
+      data = next;
+    },
+    clear: async () => {
+      data = null;
+    },
+    invalidate: () => {},
+  };
+};
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 4_000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("waitFor timed out");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("fake Twitch server", () => {
+  const original = { ...twitchEndpoints };
+  let server: FakeTwitchServer;
+  let service: TwitchService;
+
+  beforeEach(async () => {
+    server = await startFakeTwitchServer(scenario);
+    overrideTwitchEndpoints(server.endpoints);
+    service = new TwitchService(memoryStore(session));
+  });
+
+  afterEach(async () => {
+    overrideTwitchEndpoints(original);
+    await server.close();
+  });
+
+  it("drives inventory, channels, watch progress and claims through TwitchService", async () => {
+    const channels = await service.getChannelsForGame("Test Game");
+    expect(channels.map((channel) => channel.login)).toEqual(["stalled", "good"]);
+
+    await service.sendWatchPing({ channelId: "501", login: "stalled" });
+    expect(server.twitch.getProgress("d1")?.earned).toBe(0);
+
+    await service.sendWatchPing({ channelId: "500", login: "good" });
+    expect(await service.fetchDropProgress("500")).toMatchObject({
+      dropId: "d1",
+      currentMinutesWatched: 1,
+      requiredMinutesWatched: 2,
+    });
+    await service.sendWatchPing({ channelId: "500", login: "good" });
+    expect(await service.fetchDropProgress("500")).toBeNull();
+
+    const { items } = await service.getInventoryBundle();
+    const first = items.find((item) => item.id === "d1");
+    expect(first).toMatchObject({ earnedMinutes: 2, isClaimable: true });
+    await expect(
+      service.claimDrop({ dropInstanceId: first?.dropInstanceId }),
+    ).resolves.toMatchObject({ ok: true, status: "ELIGIBLE_FOR_ALL" });
+    await expect(service.claimDrop({ dropId: "d2", campaignId: "c1" })).rejects.toThrow(
+      /DROP_INSTANCE_NOT_CLAIMABLE/,
+    );
+    expect(server.twitch.getProgress("d1")).toEqual({ earned: 2, claimed: true });
+  });
+
+  it("never batches a claim with other operations", async () => {
+    await service.sendWatchPing({ channelId: "500", login: "good" });
+    await service.sendWatchPing({ channelId: "500", login: "good" });
+    const { items } = await service.getInventoryBundle();
+    const first = items.find((item) => item.id === "d1");
+    server.gqlPosts.length = 0;
+
+    await Promise.all([
+      service.fetchDropProgress("500"),
+      service.claimDrop({ dropInstanceId: first?.dropInstanceId }),
+      service.fetchDropProgress("500"),
+    ]);
+
+    const claimPosts = server.gqlPosts.filter((ops) => ops.includes("DropsPage_ClaimDropRewards"));
+    expect(claimPosts).toEqual([["DropsPage_ClaimDropRewards"]]);
+  });
+
+  it("pages the directory, filters languages and looks up allowlisted logins", async () => {
+    for (let index = 0; index < 25; index += 1) {
+      server.twitch.addStream({
+        channelId: String(600 + index),
+        login: `crowd${index}`,
+        game: "Test Game",
+        viewers: 1_000 - index,
+        language: index % 2 === 0 ? "en" : "de",
+      });
+    }
+
+    const firstPage = await service.getChannelsForGame("Test Game");
+    expect(firstPage).toHaveLength(20);
+    expect(firstPage.some((channel) => channel.login === "good")).toBe(false);
+
+    const deep = await service.getChannelsForGame("Test Game", {
+      pages: 2,
+      languages: [],
+      logins: [],
+      ids: [],
+    });
+    expect(deep).toHaveLength(27);
+
+    const german = await service.getChannelsForGame("Test Game", {
+      pages: 1,
+      languages: ["de"],
+      logins: [],
+      ids: [],
+    });
+    expect(german.every((channel) => channel.language === "de")).toBe(true);
+
+    const allowlisted = await service.getChannelsForGame("Test Game", {
+      pages: 1,
+      languages: [],
+      logins: ["good", "nobody"],
+      ids: [],
+    });
+    expect(allowlisted).toHaveLength(21);
+    expect(allowlisted[allowlisted.length - 1]).toMatchObject({
+      id: "500",
+      login: "good",
+      viewers: 10,
+    });
+  });
+
+  it("watches offline allowlisted channels and merges them once they go live", async () => {
+    server.twitch.addStream({
+      channelId: "700",
+      login: "partner",
+      game: "Test Game",
+      viewers: 3,
+      online: false,
+    });
+    const tracker = new WsChannelTracker(service, { mode: "ws", refreshMs: 60_000 });
+    const diffs: ChannelTrackerDiffEvent[] = [];
+    tracker.onDiff((event) => diffs.push(event));
+    try {
+      const request = normalizeChannelDirectoryRequest({ logins: ["partner"] });
+      const before = await tracker.getChannelsForGame("Test Game", request);
+      expect(before.map((channel) => channel.login)).not.toContain("partner");
+      await waitFor(() => tracker.getStatus().subscriptions === 3);
+      // Let the stand-in register the LISTEN frames before the stream comes up.
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      server.twitch.setStreamOnline("partner", true);
+      await waitFor(() => diffs.some((event) => event.reason === "stream-up"));
+      const streamUp = diffs.find((event) => event.reason === "stream-up");
+      expect(streamUp?.added).toMatchObject([{ id: "700", login: "partner", viewers: 3 }]);
+      expect(streamUp?.added[0]?.startedAt).toBeTruthy();
+      const after = await tracker.getChannelsForGame("Test Game", request);
+      expect(after.map((channel) => channel.login)).toContain("partner");
+    } finally {
+      tracker.dispose();
+    }
+  });
+
+  it("reports offline streams and revoked sessions like Twitch", async () => {
+    server.twitch.setStreamOnline("good", false);
+    await expect(service.sendWatchPing({ channelId: "500", login: "good" })).rejects.toThrow(
+      /offline/,
+    );
+
+    server.revokeTokens();
+    const result = await service.revalidateSession();
+    expect(result.status).toBe("unauthorized");
+  });
+
+  it("publishes drop progress over the pubsub socket", async () => {
+    const events: UserPubSubEvent[] = [];
+    const pubsub = new UserPubSub(async () => session);
+    pubsub.onEvent((event) => events.push(event));
+    pubsub.start();
+    try {
+      await waitFor(() => pubsub.getStatus().listening);
+      await service.sendWatchPing({ channelId: "500", login: "good" });
+      await waitFor(() => events.some((event) => event.kind === "drop-progress"));
+      expect(events.find((event) => event.kind === "drop-progress")).toMatchObject({
+        dropId: "d1",
+        currentProgressMin: 1,
+        requiredProgressMin: 2,
+      });
+    } finally {
+      pubsub.dispose();
+    }
+  });
+});
@@ -0,0 +1,205 @@
+import { randomBytes } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { WebSocketServer } from "ws";
+import { twitchEndpointsForBase, type TwitchEndpoints } from "../config";
+import { FakeTwitch, type FakeTwitchScenario } from "./fakeTwitch";
+import { attachPubSubStandIn, listenLocal, readRequestBody, sendJson } from "./standInServer";
+
+export type FakeTwitchServer = {
+  baseUrl: string;
+  endpoints: TwitchEndpoints;
+  /** Script campaigns, streams and progress while the app runs against the server. */
+  twitch: FakeTwitch;
+  /** Operation names of every GQL POST, one list per request, oldest first. */
+  gqlPosts: string[][];
+  /** Validate and GQL answer 401 from now on, until the app obtains a fresh token. */
+  revokeTokens: () => void;
+  close: () => Promise<void>;
+};
+
+type DeviceCode = { userCode: string; approved: boolean; expiresAt: number };
+
+const TOKEN_TTL_S = 4 * 60 * 60;
+
+const token = () => randomBytes(15).toString("hex");
+
+const bearer = (req: IncomingMessage) =>
+  String(req.headers.authorization ?? "")
+    .replace(/^(OAuth|Bearer)\s+/i, "")
+    .trim();
+
+const readForm = async (req: IncomingMessage) => new URLSearchParams(await readRequestBody(req));
+
+/**
+ * Serves a FakeTwitch over HTTP + WebSocket using the same path layout as
+ * `twitchEndpointsForBase`: GQL, the OAuth device flow, validate, helix
+ * users, integrity and pubsub-edge. Any token it issued validates until
+ * `revokeTokens`; tokens it never issued are accepted too, so a session
+ * linked against real Twitch can be pointed at the fake unchanged.
+ */
+export async function startFakeTwitchServer(
+  scenario: FakeTwitchScenario,
+  opts: { host?: string } = {},
+): Promise<FakeTwitchServer> {
+  const host = opts.host ?? "127.0.0.1";
+  const twitch = new FakeTwitch(scenario);
+  const deviceCodes = new Map<string, DeviceCode>();
+  const revoked = new Set<string>();
+  const issued = new Set<string>();
+  let revokeAll = false;
+  const gqlPosts: string[][] = [];
+
+  const issueTokens = () => {
+    const accessToken = token();
+    issued.add(accessToken);
+    return {
+      access_token: accessToken,
+      refresh_token: token(),
+      expires_in: TOKEN_TTL_S,
+      scope: [],
+      token_type: "bearer",
+    };
+  };
+
+  const isRevoked = (accessToken: string) =>
+    !accessToken || revoked.has(accessToken) || (revokeAll && !issued.has(accessToken));
+
+  const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+    "POST /gql": async (req, res) => {
+      if (isRevoked(bearer(req))) {
+        sendJson(res, 401, { error: "Unauthorized", status: 401, message: "invalid token" });
+        return;
+      }
+      const body = JSON.parse(await readRequestBody(req)) as unknown;
+      gqlPosts.push(
+        (Array.isArray(body) ? body : [body]).map((op) =>
+          String((op as { operationName?: unknown })?.operationName ?? ""),
+        ),
+      );
+      const payload = Array.isArray(body)
+        ? body.map((op) => twitch.resolveGql(op))
+        : twitch.resolveGql(body);
+      sendJson(res, 200, payload);
+    },
+    "GET /oauth2/validate": async (req, res) => {
+      if (isRevoked(bearer(req))) {
+        sendJson(res, 401, { status: 401, message: "invalid access token" });
+        return;
+      }
+      sendJson(res, 200, {
+        client_id: "fake",
+        login: twitch.user.login,
+        user_id: twitch.user.id,
+        scopes: [],
+        expires_in: TOKEN_TTL_S,
+      });
+    },
+    "POST /oauth2/device": async (_req, res) => {
+      const deviceCode = token();
+      const userCode = randomBytes(4).toString("hex").toUpperCase();
+      deviceCodes.set(deviceCode, {
+        userCode,
+        approved: !!scenario.autoApproveDeviceCodes,
+        expiresAt: Date.now() + 10 * 60_000,
+      });
+      sendJson(res, 200, {
+        device_code: deviceCode,
+        user_code: userCode,
+        verification_uri: `${baseUrl}/activate?device-code=${userCode}`,
+        expires_in: 600,
+        interval: 1,
+      });
+    },
+    "POST /oauth2/token": async (req, res) => {
+      const form = await readForm(req);
+      if (form.get("grant_type") === "refresh_token") {
+        sendJson(res, 200, issueTokens());
+        return;
+      }
+      const code = deviceCodes.get(form.get("device_code") ?? "");
+      if (!code || code.expiresAt < Date.now()) {
+        sendJson(res, 400, { status: 400, message: "expired_token" });
+        return;
+      }
+      if (!code.approved) {
+        sendJson(res, 400, { status: 400, message: "authorization_pending" });
+        return;
+      }
+      deviceCodes.delete(form.get("device_code") ?? "");
+      sendJson(res, 200, issueTokens());
+    },
+    "GET /activate": async (req, res) => {
+      const userCode = new URL(req.url ?? "/", baseUrl).searchParams.get("device-code");
+      for (const code of deviceCodes.values()) {
+        if (!userCode || code.userCode === userCode) code.approved = true;
+      }
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(
+        `<!doctype html><title>Fake Twitch</title><p>Signed in as ${twitch.user.displayName}. You can close this window.</p>`,
+      );
+    },
+    "GET /helix/users": async (_req, res) => {
+      sendJson(res, 200, {
+        data: [
+          {
+            id: twitch.user.id,
+            login: twitch.user.login,
+            display_name: twitch.user.displayName,
+            profile_image_url: "",
+          },
+        ],
+      });
+    },
+    "POST /integrity": async (_req, res) => {
+      sendJson(res, 200, {
+        token: `fake-integrity-${token()}`,
+        expiration: Date.now() + 16 * 3600_000,
+      });
+    },
+    "GET /": async (_req, res) => {
+      res.setHeader("Set-Cookie", [
+        `unique_id=${token()}; Path=/`,
+        `server_session_id=${token()}; Path=/`,
+      ]);
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<!doctype html><title>Fake Twitch</title>");
+    },
+  };
+
+  const http = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const route = routes[`${req.method} ${path}`];
+    if (!route) {
+      sendJson(res, 404, { error: "fake twitch: unknown endpoint" });
+      return;
+    }
+    route(req, res).catch((err) => {
+      sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+  const port = await listenLocal(http, host);
+  const baseUrl = `http://${host}:${port}`;
+
+  const wss = new WebSocketServer({ server: http });
+  const pubsub = attachPubSubStandIn(wss);
+  const stopPublishing = twitch.onPublish((topic, message) => {
+    pubsub.publish(topic, message);
+  });
+
+  return {
+    baseUrl,
+    endpoints: twitchEndpointsForBase(baseUrl),
+    twitch,
+    gqlPosts,
+    revokeTokens: () => {
+      for (const accessToken of issued) revoked.add(accessToken);
+      revokeAll = true;
+    },
+    close: async () => {
+      stopPublishing();
+      pubsub.close();
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+      await new Promise<void>((resolve) => http.close(() => resolve()));
+    },
+  };
+}
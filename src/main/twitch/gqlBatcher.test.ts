@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GqlBatcher, gqlEntryError, type GqlBatchSender } from "./gqlBatcher";
+
+const op = (id: number) => ({ operationName: "Op", variables: { id } });
+const echo: GqlBatchSender = async (ops) =>
+  ops.map((entry) => ({ data: { id: (entry.variables as { id: number }).id } }));
+
+describe("gqlEntryError", () => {
+  it("keeps the GQL errors message format", () => {
+    const err = gqlEntryError({ errors: [{ message: "PersistedQueryNotFound" }] });
+    expect(err?.message).toMatch(/^GQL errors: PersistedQueryNotFound \| payload=/);
+    expect(gqlEntryError({ data: {} })).toBeNull();
+    expect(gqlEntryError(null)).toBeNull();
+  });
+});
+
+describe("GqlBatcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("coalesces operations issued within the window", async () => {
+    const send = vi.fn(echo);
+    const batcher = new GqlBatcher(send, { windowMs: 10 });
+    const results = Promise.all([batcher.request(op(1)), batcher.request(op(2))]);
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toHaveLength(2);
+    expect(await results).toEqual([{ data: { id: 1 } }, { data: { id: 2 } }]);
+  });
+
+  it("flushes early at the batch size limit and keeps priorities apart", async () => {
+    const send = vi.fn(echo);
+    const batcher = new GqlBatcher(send, { windowMs: 10, maxBatchSize: 2 });
+    void batcher.request(op(1));
+    void batcher.request(op(2));
+    expect(send).toHaveBeenCalledTimes(1);
+
+    void batcher.request(op(3), "high");
+    void batcher.request(op(4), "low");
+    await vi.advanceTimersByTimeAsync(10);
+    expect(send.mock.calls.map((call) => call[1])).toEqual(["normal", "high", "low"]);
+  });
+
+  it("rejects only the operation whose entry has errors", async () => {
+    const send: GqlBatchSender = async () => [
+      { data: { ok: true } },
+      { errors: [{ message: "service timeout" }] },
+    ];
+    const batcher = new GqlBatcher(send, { windowMs: 5 });
+    const ok = batcher.request(op(1));
+    const failed = batcher.request(op(2)).catch((err: Error) => err.message);
+
+    await vi.advanceTimersByTimeAsync(5);
+    expect(await ok).toEqual({ data: { ok: true } });
+    expect(await failed).toMatch(/service timeout/);
+  });
+
+  it("rejects the whole batch on transport errors or mismatched responses", async () => {
+    const transport = new GqlBatcher(
+      async () => {
+        throw new Error("Twitch GQL error 500");
+      },
+      { windowMs: 5 },
+    );
+    const a = transport.request(op(1)).catch((err: Error) => err.message);
+    const b = transport.request(op(2)).catch((err: Error) => err.message);
+    await vi.advanceTimersByTimeAsync(5);
+    expect(await Promise.all([a, b])).toEqual(["Twitch GQL error 500", "Twitch GQL error 500"]);
+
+    const short = new GqlBatcher(async () => [{ data: {} }], { windowMs: 5 });
+    const c = short.request(op(1)).catch((err: Error) => err.message);
+    const d = short.request(op(2)).catch((err: Error) => err.message);
+    await vi.advanceTimersByTimeAsync(5);
+    expect(await c).toMatch(/1 entries for 2 operations/);
+    expect(await d).toMatch(/1 entries for 2 operations/);
+  });
+});
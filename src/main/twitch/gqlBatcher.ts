@@ -0,0 +1,115 @@
+import type { GqlPriority } from "./gqlScheduler";
+
+export type GqlOperation = Record<string, unknown>;
+
+/** Posts the given operations; resolves with one response entry per operation, in order. */
+export type GqlBatchSender = (ops: GqlOperation[], priority: GqlPriority) => Promise<unknown[]>;
+
+export type GqlBatcherOptions = {
+  /** How long to wait for more operations before posting. */
+  windowMs: number;
+  /** Twitch rejects very large arrays; 20 matches the chunk size the service always used. */
+  maxBatchSize: number;
+};
+
+export const DEFAULT_GQL_BATCHER_OPTIONS: GqlBatcherOptions = {
+  windowMs: 15,
+  maxBatchSize: 20,
+};
+
+/**
+ * Error for one GQL response entry, or null when it succeeded. Keeps the
+ * historical "GQL errors: ..." message so PersistedQueryNotFound detection and
+ * logs read the same for batched and unbatched calls.
+ */
+export function gqlEntryError(entry: unknown): Error | null {
+  const errors = (entry as { errors?: unknown[] } | null)?.errors;
+  if (!Array.isArray(errors) || errors.length === 0) return null;
+  return new Error(
+    `GQL errors: ${errors
+      .map((e: any) => e?.message ?? JSON.stringify(e))
+      .join("; ")} | payload=${JSON.stringify(entry)}`,
+  );
+}
+
+type Pending = {
+  op: GqlOperation;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+};
+
+/**
+ * Coalesces single GQL operations issued within a short window into one array
+ * POST and hands every caller its own entry back. A failing operation only
+ * rejects its own caller; transport errors (HTTP status, network, auth) reject
+ * the whole batch because no entry was delivered.
+ */
+export class GqlBatcher {
+  private readonly opts: GqlBatcherOptions;
+  private readonly pending: Record<GqlPriority, Pending[]> = { high: [], normal: [], low: [] };
+  private readonly timers: Partial<Record<GqlPriority, NodeJS.Timeout>> = {};
+
+  constructor(
+    private readonly send: GqlBatchSender,
+    opts: Partial<GqlBatcherOptions> = {},
+  ) {
+    this.opts = { ...DEFAULT_GQL_BATCHER_OPTIONS, ...opts };
+  }
+
+  request<T>(op: GqlOperation, priority: GqlPriority = "normal"): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.pending[priority];
+      queue.push({ op, resolve: resolve as (value: unknown) => void, reject });
+      if (queue.length >= this.opts.maxBatchSize) {
+        this.flush(priority);
+        return;
+      }
+      if (!this.timers[priority]) {
+        this.timers[priority] = setTimeout(() => this.flush(priority), this.opts.windowMs);
+      }
+    });
+  }
+
+  private flush(priority: GqlPriority) {
+    const timer = this.timers[priority];
+    if (timer) {
+      clearTimeout(timer);
+      delete this.timers[priority];
+    }
+    const batch = this.pending[priority].splice(0, this.opts.maxBatchSize);
+    if (this.pending[priority].length > 0) {
+      this.timers[priority] = setTimeout(() => this.flush(priority), 0);
+    }
+    if (batch.length === 0) return;
+    void this.dispatch(batch, priority);
+  }
+
+  private async dispatch(batch: Pending[], priority: GqlPriority) {
+    let entries: unknown[];
+    try {
+      entries = await this.send(
+        batch.map((item) => item.op),
+        priority,
+      );
+    } catch (err) {
+      for (const item of batch) item.reject(err);
+      return;
+    }
+    if (entries.length !== batch.length) {
+      const err = new Error(
+        `GQL batch returned ${entries.length} entries for ${batch.length} operations`,
+      );
+      for (const item of batch) item.reject(err);
+      return;
+    }
+    batch.forEach((item, index) => {
+      const entry = entries[index];
+      const error = gqlEntryError(entry);
+      if (error) {
+        item.reject(error);
+      } else {
+        item.resolve(entry);
+      }
+    });
+  }
+}
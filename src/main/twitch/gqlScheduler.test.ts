@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GqlHttpError, parseRetryAfterMs } from "./errors";
+import { classifyGqlFailure, GqlScheduler, retryDelayMs } from "./gqlScheduler";
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("classifyGqlFailure", () => {
+  it("separates throttling, transient and fatal failures", () => {
+    expect(classifyGqlFailure(new GqlHttpError(429, "slow down"))).toBe("throttled");
+    expect(classifyGqlFailure(new GqlHttpError(503, "unavailable"))).toBe("transient");
+    expect(classifyGqlFailure(new TypeError("fetch failed"))).toBe("transient");
+    expect(classifyGqlFailure({ cause: { code: "ECONNRESET" } })).toBe("transient");
+    expect(classifyGqlFailure(new GqlHttpError(400, "bad request"))).toBe("fatal");
+    expect(classifyGqlFailure(new Error("GQL errors: service error"))).toBe("fatal");
+  });
+});
+
+describe("retryDelayMs", () => {
+  const opts = { retryBaseMs: 1000, retryMaxMs: 5000 };
+
+  it("grows per attempt within the jitter band and caps", () => {
+    expect(retryDelayMs(1, opts, () => 0)).toBe(500);
+    expect(retryDelayMs(1, opts, () => 1)).toBe(1000);
+    expect(retryDelayMs(3, opts, () => 1)).toBe(4000);
+    expect(retryDelayMs(10, opts, () => 1)).toBe(5000);
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfterMs("3")).toBe(3000);
+    expect(parseRetryAfterMs(new Date(10_000).toUTCString(), 4_000)).toBe(6_000);
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+    expect(parseRetryAfterMs("soon")).toBeUndefined();
+  });
+});
+
+describe("GqlScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const make = (opts: ConstructorParameters<typeof GqlScheduler>[0] = {}) =>
+    new GqlScheduler({ now: () => Date.now(), random: () => 1, ...opts });
+
+  it("caps concurrency and serves higher priorities first", async () => {
+    const scheduler = make({ maxConcurrent: 1 });
+    const order: string[] = [];
+    const first = deferred<void>();
+    void scheduler.schedule(async () => {
+      order.push("first");
+      await first.promise;
+    });
+    const low = scheduler.schedule(async () => void order.push("low"), "low");
+    const high = scheduler.schedule(async () => void order.push("high"), "high");
+
+    expect(scheduler.getStatus()).toMatchObject({ inFlight: 1, queued: 2 });
+    first.resolve();
+    await Promise.all([low, high]);
+    expect(order).toEqual(["first", "high", "low"]);
+  });
+
+  it("waits for tokens once the bucket is empty", async () => {
+    const scheduler = make({ capacity: 1, refillPerSecond: 1 });
+    const run = vi.fn(async () => "ok");
+    void scheduler.schedule(run);
+    void scheduler.schedule(run);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries transient failures with backoff, then gives up", async () => {
+    const scheduler = make({ maxRetries: 2, retryBaseMs: 100 });
+    const run = vi.fn(async () => {
+      throw new GqlHttpError(502, "bad gateway");
+    });
+    const result = scheduler.schedule(run);
+    const settled = result.catch((err) => err);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(await settled).toBeInstanceOf(GqlHttpError);
+    expect(scheduler.getStatus()).toMatchObject({ retried: 2, failed: 1 });
+  });
+
+  it("does not retry fatal failures", async () => {
+    const scheduler = make();
+    const run = vi.fn(async () => {
+      throw new Error("GQL errors: nope");
+    });
+    await expect(scheduler.schedule(run)).rejects.toThrow("nope");
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("pauses the whole queue for Retry-After on 429", async () => {
+    const scheduler = make();
+    let calls = 0;
+    const throttledOnce = scheduler.schedule(async () => {
+      calls += 1;
+      if (calls === 1) throw new GqlHttpError(429, "rate limited", 2_000);
+      return "done";
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    const other = vi.fn(async () => "other");
+    void scheduler.schedule(other);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(other).not.toHaveBeenCalled();
+    expect(scheduler.getStatus()).toMatchObject({ throttled: 1, throttledUntil: 2_000 });
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(await throttledOnce).toBe("done");
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+});
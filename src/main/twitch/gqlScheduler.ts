@@ -0,0 +1,293 @@
+import { GqlHttpError } from "./errors";
+
+/**
+ * `high` is for calls that directly earn or secure rewards (watch pings and
+ * the stream lookup they need, claims, live progress); `low` is for directory
+ * and availability fetches that can wait a few seconds.
+ */
+export type GqlPriority = "high" | "normal" | "low";
+
+export type GqlSchedulerStatus = {
+  inFlight: number;
+  queued: number;
+  queuedByPriority: Record<GqlPriority, number>;
+  /** Tokens currently available in the bucket (fractional). */
+  tokens: number;
+  completed: number;
+  failed: number;
+  retried: number;
+  throttled: number;
+  /** Set while a 429 pauses every queued request. */
+  throttledUntil: number | null;
+  lastErrorAt: number | null;
+  lastErrorMessage?: string;
+};
+
+export type GqlSchedulerOptions = {
+  /** Bucket size, i.e. the largest burst sent without waiting. */
+  capacity: number;
+  refillPerSecond: number;
+  maxConcurrent: number;
+  /** Retries for 5xx / network failures (429s have their own budget). */
+  maxRetries: number;
+  maxThrottleRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  /** Pause after a 429 that carries no Retry-After header. */
+  defaultThrottleMs: number;
+  now: () => number;
+  random: () => number;
+};
+
+export const DEFAULT_GQL_SCHEDULER_OPTIONS: GqlSchedulerOptions = {
+  capacity: 12,
+  refillPerSecond: 4,
+  maxConcurrent: 6,
+  maxRetries: 2,
+  maxThrottleRetries: 4,
+  retryBaseMs: 750,
+  retryMaxMs: 10_000,
+  defaultThrottleMs: 5_000,
+  now: Date.now,
+  random: Math.random,
+};
+
+const PRIORITIES: GqlPriority[] = ["high", "normal", "low"];
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+export type GqlFailureKind = "throttled" | "transient" | "fatal";
+
+/** Node's fetch rejects with `TypeError("fetch failed")` and the socket error as `cause`. */
+export function classifyGqlFailure(err: unknown): GqlFailureKind {
+  if (err instanceof GqlHttpError) {
+    if (err.status === 429) return "throttled";
+    return err.status >= 500 ? "transient" : "fatal";
+  }
+  if (err instanceof TypeError && err.message === "fetch failed") return "transient";
+  const code = (err as { cause?: { code?: unknown } })?.cause?.code;
+  if (typeof code === "string" && TRANSIENT_NETWORK_CODES.has(code)) return "transient";
+  return "fatal";
+}
+
+/** Exponential backoff with full jitter in the upper half: [base/2, base] per attempt. */
+export function retryDelayMs(
+  attempt: number,
+  opts: Pick<GqlSchedulerOptions, "retryBaseMs" | "retryMaxMs">,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(opts.retryMaxMs, opts.retryBaseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base / 2 + random() * (base / 2));
+}
+
+type Job = {
+  run: () => Promise<unknown>;
+  priority: GqlPriority;
+  attempts: number;
+  throttleAttempts: number;
+  notBefore: number;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+};
+
+/**
+ * Funnels GQL requests through a token bucket with a concurrency cap. Higher
+ * priorities always dequeue first; 5xx and network failures are retried with
+ * jittered backoff, and a 429 pauses the whole queue for Retry-After. One
+ * instance is shared by every account so linked accounts do not multiply the
+ * request rate seen by Twitch.
+ */
+export class GqlScheduler {
+  private readonly opts: GqlSchedulerOptions;
+  private readonly queues: Record<GqlPriority, Job[]> = { high: [], normal: [], low: [] };
+  private tokens: number;
+  private lastRefillAt: number;
+  private inFlight = 0;
+  private throttledUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private timerAt = 0;
+  private counters = { completed: 0, failed: 0, retried: 0, throttled: 0 };
+  private lastErrorAt: number | null = null;
+  private lastErrorMessage: string | undefined;
+
+  constructor(opts: Partial<GqlSchedulerOptions> = {}) {
+    this.opts = { ...DEFAULT_GQL_SCHEDULER_OPTIONS, ...opts };
+    this.tokens = this.opts.capacity;
+    this.lastRefillAt = this.opts.now();
+  }
+
+  schedule<T>(run: () => Promise<T>, priority: GqlPriority = "normal"): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        run,
+        priority,
+        attempts: 0,
+        throttleAttempts: 0,
+        notBefore: 0,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  getStatus(): GqlSchedulerStatus {
+    this.refill(this.opts.now());
+    const queuedByPriority = {
+      high: this.queues.high.length,
+      normal: this.queues.normal.length,
+      low: this.queues.low.length,
+    };
+    return {
+      inFlight: this.inFlight,
+      queued: queuedByPriority.high + queuedByPriority.normal + queuedByPriority.low,
+      queuedByPriority,
+      tokens: Math.round(this.tokens * 100) / 100,
+      ...this.counters,
+      throttledUntil: this.throttledUntil > this.opts.now() ? this.throttledUntil : null,
+      lastErrorAt: this.lastErrorAt,
+      lastErrorMessage: this.lastErrorMessage,
+    };
+  }
+
+  /** Rejects everything still queued; in-flight requests finish normally. */
+  dispose() {
+    this.clearTimer();
+    for (const priority of PRIORITIES) {
+      const jobs = this.queues[priority].splice(0);
+      for (const job of jobs) {
+        job.reject(new Error("GQL scheduler disposed"));
+      }
+    }
+  }
+
+  private refill(now: number) {
+    const elapsed = Math.max(0, now - this.lastRefillAt) / 1000;
+    this.tokens = Math.min(this.opts.capacity, this.tokens + elapsed * this.opts.refillPerSecond);
+    this.lastRefillAt = now;
+  }
+
+  /** First ready job by priority, FIFO within a priority; backoff waits do not block others. */
+  private takeReadyJob(now: number): Job | null {
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      const index = queue.findIndex((job) => job.notBefore <= now);
+      if (index >= 0) {
+        return queue.splice(index, 1)[0];
+      }
+    }
+    return null;
+  }
+
+  private earliestNotBefore(): number | null {
+    let earliest: number | null = null;
+    for (const priority of PRIORITIES) {
+      for (const job of this.queues[priority]) {
+        if (earliest === null || job.notBefore < earliest) earliest = job.notBefore;
+      }
+    }
+    return earliest;
+  }
+
+  private pump() {
+    const now = this.opts.now();
+    this.refill(now);
+    while (this.inFlight < this.opts.maxConcurrent) {
+      if (now < this.throttledUntil) {
+        this.wakeAt(this.throttledUntil);
+        return;
+      }
+      const earliest = this.earliestNotBefore();
+      if (earliest === null) return;
+      if (this.tokens < 1) {
+        const waitMs = ((1 - this.tokens) / this.opts.refillPerSecond) * 1000;
+        this.wakeAt(Math.max(now + waitMs, earliest));
+        return;
+      }
+      const job = this.takeReadyJob(now);
+      if (!job) {
+        this.wakeAt(earliest);
+        return;
+      }
+      this.tokens -= 1;
+      this.start(job);
+    }
+  }
+
+  private start(job: Job) {
+    this.inFlight += 1;
+    job.attempts += 1;
+    job
+      .run()
+      .then(
+        (value) => {
+          this.counters.completed += 1;
+          job.resolve(value);
+        },
+        (err) => this.handleFailure(job, err),
+      )
+      .finally(() => {
+        this.inFlight -= 1;
+        this.pump();
+      });
+  }
+
+  private handleFailure(job: Job, err: unknown) {
+    const now = this.opts.now();
+    const kind = classifyGqlFailure(err);
+    this.lastErrorAt = now;
+    this.lastErrorMessage = err instanceof Error ? err.message : String(err);
+
+    if (kind === "throttled" && job.throttleAttempts < this.opts.maxThrottleRetries) {
+      this.counters.throttled += 1;
+      job.throttleAttempts += 1;
+      // A throttled attempt should not eat into the transient retry budget.
+      job.attempts -= 1;
+      const retryAfter =
+        err instanceof GqlHttpError && err.retryAfterMs !== undefined
+          ? err.retryAfterMs
+          : this.opts.defaultThrottleMs;
+      this.throttledUntil = Math.max(this.throttledUntil, now + retryAfter);
+      this.queues[job.priority].unshift(job);
+      return;
+    }
+    if (kind === "transient" && job.attempts <= this.opts.maxRetries) {
+      this.counters.retried += 1;
+      job.notBefore = now + retryDelayMs(job.attempts, this.opts, this.opts.random);
+      this.queues[job.priority].unshift(job);
+      return;
+    }
+    this.counters.failed += 1;
+    job.reject(err);
+  }
+
+  private wakeAt(at: number) {
+    if (this.timer && this.timerAt <= at) return;
+    this.clearTimer();
+    this.timerAt = at;
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.pump();
+      },
+      Math.max(0, at - this.opts.now()),
+    );
+  }
+
+  private clearTimer() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  normalizePersistedQueryOverrides,
+  normalizePersistedQueryState,
+  PersistedQueryRegistry,
+} from "./persistedQueries";
+
+const hash = (ch: string) => ch.repeat(64);
+const A = hash("a");
+const B = hash("b");
+const C = hash("c");
+const O = hash("0");
+
+describe("PersistedQueryRegistry", () => {
+  it("orders overrides, the remembered hash, then defaults", () => {
+    const registry = new PersistedQueryRegistry(
+      { Op: [A, B] },
+      { Op: [O] },
+      { v: 1, working: { Op: B }, stale: {} },
+    );
+    expect(registry.candidates("Op")).toEqual([O, B, A]);
+    expect(registry.candidates("Unknown")).toEqual([]);
+  });
+
+  it("moves stale hashes to the back and remembers what worked", () => {
+    const registry = new PersistedQueryRegistry({ Op: [A, B, C] });
+    registry.markNotFound("Op", A, 100);
+    registry.markWorked("Op", C);
+    expect(registry.candidates("Op")).toEqual([C, B, A]);
+
+    const [status] = registry.getStatus();
+    expect(status).toMatchObject({
+      operationName: "Op",
+      activeHash: C,
+      activeSource: "remembered",
+    });
+    expect(status.candidates.find((entry) => entry.hash === A)?.staleAt).toBe(100);
+  });
+
+  it("clears the stale mark when a hash works again", () => {
+    const registry = new PersistedQueryRegistry({ Op: [A] });
+    registry.markNotFound("Op", A);
+    expect(registry.getStatus()[0].exhausted).toBe(true);
+    registry.markWorked("Op", A);
+    expect(registry.getState().stale).toEqual({});
+    expect(registry.getStatus()[0].exhausted).toBe(false);
+  });
+
+  it("notifies listeners only on actual changes", () => {
+    const registry = new PersistedQueryRegistry({ Op: [A] });
+    const listener = vi.fn();
+    registry.onChange(listener);
+    registry.markWorked("Op", A);
+    registry.markWorked("Op", A);
+    registry.markNotFound("Op", B);
+    registry.markNotFound("Op", B);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("normalizers", () => {
+  it("keeps only well-formed override hashes", () => {
+    expect(
+      normalizePersistedQueryOverrides({
+        One: A.toUpperCase(),
+        Many: [B, "nope", 5],
+        Bad: "short",
+      }),
+    ).toEqual({ One: [A], Many: [B] });
+    expect(normalizePersistedQueryOverrides([A])).toEqual({});
+  });
+
+  it("drops malformed persisted state", () => {
+    expect(
+      normalizePersistedQueryState({
+        v: 1,
+        working: { Op: A, Bad: "x" },
+        stale: { Op: { [B]: 5, junk: 1 }, Empty: { [C]: "soon" } },
+      }),
+    ).toEqual({ v: 1, working: { Op: A }, stale: { Op: { [B]: 5 } } });
+    expect(normalizePersistedQueryState(null)).toEqual({ v: 1, working: {}, stale: {} });
+  });
+});
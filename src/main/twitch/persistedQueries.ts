@@ -0,0 +1,204 @@
+/**
+ * Known persisted-query hashes per GQL operation, newest first. Twitch
+ * rotates these without notice; when one answers PersistedQueryNotFound the
+ * registry moves on to the next candidate and remembers the one that worked.
+ */
+export const DEFAULT_PERSISTED_QUERY_HASHES: Record<string, string[]> = {
+  DirectoryGameRedirect: ["1f0300090caceec51f33c5e20647aceff9017f740f223c3c532ba6fa59f6b6cc"],
+  DirectoryPage_Game: [
+    "76cb069d835b8a02914c08dc42c421d0dafda8af5b113a3f19141824b901402f",
+    "98a996c3c3ebb1ba4fd65d6671c6028d7ee8d615cb540b0731b3db2a911d3649",
+  ],
+  DropsPage_ClaimDropRewards: ["a455deea71bdc9015b78eb49f4acfbce8baa7ccbedd28e549bb025bd0f751930"],
+  VideoPlayerStreamInfoOverlayChannel: [
+    "198492e0857f6aedead9665c81c5a06d67b25b58034649687124083ff288597d",
+  ],
+  // Used by the Twitch web client + drop miners for live drop progress.
+  DropCurrentSessionContext: ["4d06b702d25d652afb9ef835d2a550031f1cf762b193523a92166f40ea3d142b"],
+  Inventory: ["d86775d0ef16a63a33ad52e80eaff963b2d5b72fada7c991504a57496e1d8e4b"],
+  ViewerDropsDashboard: ["5a4da2ab3d5b47c9f9ce864e727b2cb346af1e3ea8b897fe8f704a97ff017619"],
+  DropCampaignDetails: ["039277bf98f3130929262cc7c6efd9c141ca3749cb6dca442fc8ead9a53f77c1"],
+  DropsHighlightService_AvailableDrops: [
+    "9a62a09bce5b53e26e64a671e530bc599cb6aab1e5ba3cbd5d85966d3940716f",
+  ],
+};
+
+const HASH_RE = /^[0-9a-f]{64}$/i;
+
+export type PersistedQueryOverrides = Record<string, string[]>;
+
+/** What the registry learned at runtime; persisted between app starts. */
+export type PersistedQueryState = {
+  v: 1;
+  /** Last hash that returned data, per operation. */
+  working: Record<string, string>;
+  /** Hashes that answered PersistedQueryNotFound, with when that happened. */
+  stale: Record<string, Record<string, number>>;
+};
+
+export type PersistedQueryHashSource = "override" | "remembered" | "default";
+
+export type PersistedQueryOperationStatus = {
+  operationName: string;
+  activeHash: string | null;
+  activeSource: PersistedQueryHashSource | null;
+  candidates: Array<{ hash: string; source: PersistedQueryHashSource; staleAt: number | null }>;
+  /** True when every candidate has been reported missing; needs an override or release. */
+  exhausted: boolean;
+};
+
+export const emptyPersistedQueryState = (): PersistedQueryState => ({
+  v: 1,
+  working: {},
+  stale: {},
+});
+
+/** Accepts `{ "Operation": "hash" }` or `{ "Operation": ["hash", ...] }`; drops anything else. */
+export function normalizePersistedQueryOverrides(raw: unknown): PersistedQueryOverrides {
+  const out: PersistedQueryOverrides = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+  for (const [operation, value] of Object.entries(raw as Record<string, unknown>)) {
+    const list = Array.isArray(value) ? value : [value];
+    const hashes = list.filter(
+      (hash): hash is string => typeof hash === "string" && HASH_RE.test(hash),
+    );
+    if (hashes.length > 0) out[operation] = hashes.map((hash) => hash.toLowerCase());
+  }
+  return out;
+}
+
+export function normalizePersistedQueryState(raw: unknown): PersistedQueryState {
+  const state = emptyPersistedQueryState();
+  if (!raw || typeof raw !== "object") return state;
+  const record = raw as Partial<PersistedQueryState>;
+  if (record.working && typeof record.working === "object") {
+    for (const [operation, hash] of Object.entries(record.working)) {
+      if (typeof hash === "string" && HASH_RE.test(hash)) state.working[operation] = hash;
+    }
+  }
+  if (record.stale && typeof record.stale === "object") {
+    for (const [operation, entries] of Object.entries(record.stale)) {
+      if (!entries || typeof entries !== "object") continue;
+      const kept: Record<string, number> = {};
+      for (const [hash, at] of Object.entries(entries)) {
+        if (HASH_RE.test(hash) && typeof at === "number" && Number.isFinite(at)) kept[hash] = at;
+      }
+      if (Object.keys(kept).length > 0) state.stale[operation] = kept;
+    }
+  }
+  return state;
+}
+
+/**
+ * Orders candidate hashes per operation: local overrides first, then the hash
+ * that last worked, then the built-in defaults. Hashes already known to be
+ * stale move to the back instead of being dropped, so a hash Twitch brings
+ * back is still tried before giving up.
+ */
+export class PersistedQueryRegistry {
+  private state: PersistedQueryState;
+  private readonly listeners = new Set<(state: PersistedQueryState) => void>();
+
+  constructor(
+    private readonly defaults: Record<string, string[]> = DEFAULT_PERSISTED_QUERY_HASHES,
+    private overrides: PersistedQueryOverrides = {},
+    state: PersistedQueryState = emptyPersistedQueryState(),
+  ) {
+    this.state = normalizePersistedQueryState(state);
+  }
+
+  /** Replaces the learned state (e.g. with the copy persisted by the last run). */
+  restore(state: PersistedQueryState) {
+    this.state = normalizePersistedQueryState(state);
+  }
+
+  setOverrides(overrides: PersistedQueryOverrides) {
+    this.overrides = overrides;
+  }
+
+  candidates(operationName: string): string[] {
+    return this.rankedCandidates(operationName).map((entry) => entry.hash);
+  }
+
+  markWorked(operationName: string, hash: string) {
+    const staleForOp = this.state.stale[operationName];
+    const wasStale = !!staleForOp?.[hash];
+    if (this.state.working[operationName] === hash && !wasStale) return;
+    this.state.working[operationName] = hash;
+    if (wasStale) {
+      delete staleForOp[hash];
+      if (Object.keys(staleForOp).length === 0) delete this.state.stale[operationName];
+    }
+    this.emit();
+  }
+
+  markNotFound(operationName: string, hash: string, at = Date.now()) {
+    const staleForOp = (this.state.stale[operationName] ??= {});
+    if (staleForOp[hash]) return;
+    staleForOp[hash] = at;
+    if (this.state.working[operationName] === hash) delete this.state.working[operationName];
+    this.emit();
+  }
+
+  getState(): PersistedQueryState {
+    return JSON.parse(JSON.stringify(this.state)) as PersistedQueryState;
+  }
+
+  getStatus(): PersistedQueryOperationStatus[] {
+    const operations = new Set([
+      ...Object.keys(this.defaults),
+      ...Object.keys(this.overrides),
+      ...Object.keys(this.state.working),
+    ]);
+    return [...operations].sort().map((operationName) => {
+      const candidates = this.rankedCandidates(operationName);
+      const active = candidates.find((entry) => entry.staleAt === null) ?? null;
+      return {
+        operationName,
+        activeHash: active?.hash ?? null,
+        activeSource: active?.source ?? null,
+        candidates,
+        exhausted: candidates.length > 0 && !active,
+      };
+    });
+  }
+
+  onChange(listener: (state: PersistedQueryState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private rankedCandidates(operationName: string) {
+    const seen = new Map<string, PersistedQueryHashSource>();
+    const add = (hash: string | undefined, source: PersistedQueryHashSource) => {
+      if (hash && !seen.has(hash)) seen.set(hash, source);
+    };
+    for (const hash of this.overrides[operationName] ?? []) add(hash, "override");
+    add(this.state.working[operationName], "remembered");
+    for (const hash of this.defaults[operationName] ?? []) add(hash, "default");
+    const staleForOp = this.state.stale[operationName] ?? {};
+    const entries = [...seen].map(([hash, source]) => ({
+      hash,
+      source,
+      staleAt: staleForOp[hash] ?? null,
+    }));
+    // Stable sort: fresh hashes keep their order ahead of stale ones.
+    return [
+      ...entries.filter((entry) => entry.staleAt === null),
+      ...entries.filter((entry) => entry.staleAt !== null),
+    ];
+  }
+
+  private emit() {
+    const snapshot = this.getState();
+    for (const listener of this.listeners) {
+      try {
+        listener(snapshot);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { createServer, type Server } from "node:http";
+import { connect, type AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { overrideTwitchEndpoints, twitchEndpoints } from "../config";
+import type { SessionData, SessionStore } from "../core/storage";
+import { DEMO_FAKE_TWITCH_SCENARIO } from "./fakeTwitch";
+import { startFakeTwitchServer, type FakeTwitchServer } from "./fakeTwitchServer";
+import { probeProxy, ProxyRoute } from "./proxy";
+import { TwitchService } from "./service";
+import { UserPubSub } from "./userPubSub";
+
+const session: SessionData = {
+  accessToken: "token",
+  expiresAt: Date.now() + 3_600_000,
+  scopes: [],
+  cookies: "auth-token=token",
+  loginName: "tester",
+};
+
+const memoryStore = (initial: SessionData): SessionStore => {
+  let data: SessionData | null = { ...initial };
+  return {
+    load: async () => data,
+    save: async (next) => {
+      data = next;
+    },
+    clear: async () => {
+      data = null;
+    },
+    invalidate: () => {},
+  };
+};
+
+/** Minimal CONNECT proxy that counts the tunnels it opened. */
+const startConnectProxy = async () => {
+  const tunnels: string[] = [];
+  const server: Server = createServer((_req, res) => {
+    res.writeHead(405);
+    res.end();
+  });
+  server.on("connect", (req, clientSocket, head) => {
+    tunnels.push(req.url ?? "");
+    const [host, port] = (req.url ?? "").split(":");
+    const upstream = connect(Number(port), host, () => {
+      clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+    upstream.on("error", () => clientSocket.destroy());
+    clientSocket.on("error", () => upstream.destroy());
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tunnels,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 4_000) => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error("waitFor timed out");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("ProxyRoute", () => {
+  const original = { ...twitchEndpoints };
+  let server: FakeTwitchServer;
+  let proxy: Awaited<ReturnType<typeof startConnectProxy>>;
+
+  beforeEach(async () => {
+    server = await startFakeTwitchServer(DEMO_FAKE_TWITCH_SCENARIO);
+    overrideTwitchEndpoints(server.endpoints);
+    proxy = await startConnectProxy();
+  });
+
+  afterEach(async () => {
+    overrideTwitchEndpoints(original);
+    await proxy.close();
+    await server.close();
+  });
+
+  it("tunnels GQL and PubSub through the proxy until it is cleared", async () => {
+    const route = new ProxyRoute(proxy.url);
+    const service = new TwitchService(memoryStore(session), {}, route);
+    const pubsub = new UserPubSub(async () => session, { proxy: route });
+    try {
+      const { items } = await service.getInventoryBundle();
+      expect(items.length).toBeGreaterThan(0);
+      const host = new URL(server.baseUrl).host;
+      expect(proxy.tunnels).toContain(host);
+
+      pubsub.start();
+      await waitFor(() => pubsub.getStatus().listening);
+      const tunnelled = proxy.tunnels.length;
+
+      route.set("");
+      await service.getInventoryBundle();
+      await waitFor(() => pubsub.getStatus().listening);
+      expect(proxy.tunnels).toHaveLength(tunnelled);
+    } finally {
+      pubsub.dispose();
+      route.dispose();
+    }
+  });
+
+  it("probes HTTP and WebSocket reachability", async () => {
+    const result = await probeProxy(proxy.url);
+    expect(result).toMatchObject({
+      ok: true,
+      proxy: proxy.url,
+      // Unauthenticated validate answers 401, which still proves the path.
+      http: { ok: true, status: 401 },
+      websocket: { ok: true },
+    });
+    expect(proxy.tunnels).toHaveLength(2);
+    expect(await probeProxy("ftp://nope")).toMatchObject({ ok: false, invalid: true });
+  });
+});
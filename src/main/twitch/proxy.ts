@@ -0,0 +1,191 @@
+import type { Agent } from "node:http";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { SocksProxyAgent } from "socks-proxy-agent";
+import {
+  fetch as proxiedFetch,
+  ProxyAgent,
+  Socks5ProxyAgent,
+  type Dispatcher,
+  type RequestInit as ProxiedRequestInit,
+} from "undici";
+import { WebSocket as NodeWebSocket } from "ws";
+import { twitchEndpoints } from "../config";
+import { normalizeProxyUrl, parseProxyUrl, redactProxyUrl } from "../../shared/proxy";
+
+type ProxyHandles = { dispatcher: Dispatcher; agent: Agent };
+
+const buildHandles = (url: string): ProxyHandles | null => {
+  const config = parseProxyUrl(url);
+  if (!config) return null;
+  if (config.protocol === "socks5") {
+    // socks5h: the proxy resolves Twitch host names, so egress-only networks
+    // without public DNS still work.
+    return {
+      dispatcher: new Socks5ProxyAgent(url),
+      agent: new SocksProxyAgent(url.replace(/^socks5:/, "socks5h:")),
+    };
+  }
+  return { dispatcher: new ProxyAgent(url), agent: new HttpsProxyAgent(url) };
+};
+
+/**
+ * The network path one account uses to reach Twitch: direct, or through an
+ * HTTP(S)/SOCKS5 proxy. TwitchClient fetches and both PubSub sockets read it
+ * on every request, so `set` takes effect without rebuilding the runtime;
+ * sockets that are already open are re-dialled by their owners via `onChange`.
+ */
+export class ProxyRoute {
+  private current = "";
+  private handles: ProxyHandles | null = null;
+  private readonly listeners = new Set<(url: string) => void>();
+
+  constructor(url = "") {
+    this.set(url);
+  }
+
+  get url(): string {
+    return this.current;
+  }
+
+  /** Applies a new proxy URL; invalid input falls back to a direct connection. */
+  set(url: string) {
+    const next = normalizeProxyUrl(url);
+    if (next === this.current) return;
+    const previous = this.handles;
+    this.current = next;
+    this.handles = next ? buildHandles(next) : null;
+    if (previous) {
+      void previous.dispatcher.close().catch(() => undefined);
+      previous.agent.destroy();
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(next);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+
+  onChange(listener: (url: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Drop-in for the global fetch that honours the configured proxy. */
+  fetch = (url: string, init: RequestInit = {}): Promise<Response> => {
+    if (!this.handles) return fetch(url, init);
+    // undici's own fetch is used so the dispatcher matches its version; its
+    // Response is interchangeable with the global one at runtime.
+    return proxiedFetch(url, {
+      ...(init as ProxiedRequestInit),
+      dispatcher: this.handles.dispatcher,
+    }) as unknown as Promise<Response>;
+  };
+
+  /** Options for `new WebSocket(url, options)`. */
+  wsOptions(): { agent?: Agent } {
+    return this.handles ? { agent: this.handles.agent } : {};
+  }
+
+  dispose() {
+    this.listeners.clear();
+    this.set("");
+  }
+}
+
+export type ProxyProbeResult = {
+  ok: boolean;
+  /** Proxy URL with the password masked; "" for a direct connection. */
+  proxy: string;
+  http: { ok: boolean; status?: number; latencyMs: number; error?: string };
+  websocket: { ok: boolean; latencyMs: number; error?: string };
+  /** Set when `url` is not a usable proxy URL; nothing was probed. */
+  invalid?: boolean;
+};
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+const errorMessage = (err: unknown) => {
+  if (err instanceof Error) {
+    const cause = (err as Error & { cause?: unknown }).cause;
+    return cause instanceof Error ? `${err.message}: ${cause.message}` : err.message;
+  }
+  return String(err);
+};
+
+const probeWebSocket = (route: ProxyRoute): Promise<ProxyProbeResult["websocket"]> => {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    let ws: NodeWebSocket;
+    let settled = false;
+    const finish = (result: Omit<ProxyProbeResult["websocket"], "latencyMs">) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try {
+        ws.close(1000, "DropPilot proxy test");
+      } catch {
+        // ignore close errors
+      }
+      resolve({ ...result, latencyMs: Date.now() - startedAt });
+    };
+    const timer = setTimeout(
+      () => finish({ ok: false, error: "Timed out opening the PubSub socket" }),
+      PROBE_TIMEOUT_MS,
+    );
+    try {
+      ws = new NodeWebSocket(twitchEndpoints.pubsub, route.wsOptions());
+    } catch (err) {
+      settled = true;
+      clearTimeout(timer);
+      resolve({ ok: false, latencyMs: Date.now() - startedAt, error: errorMessage(err) });
+      return;
+    }
+    ws.on("open", () => finish({ ok: true }));
+    ws.on("error", (err) => finish({ ok: false, error: errorMessage(err) }));
+    ws.on("close", () => finish({ ok: false, error: "PubSub socket closed before opening" }));
+  });
+};
+
+/**
+ * Checks that Twitch is reachable through `url` (or directly when empty): one
+ * HTTPS request to the token validate endpoint — any HTTP answer proves the
+ * path works — and one PubSub WebSocket handshake.
+ */
+export async function probeProxy(url: string): Promise<ProxyProbeResult> {
+  if (url.trim() && !normalizeProxyUrl(url)) {
+    return {
+      ok: false,
+      proxy: "",
+      http: { ok: false, latencyMs: 0 },
+      websocket: { ok: false, latencyMs: 0 },
+      invalid: true,
+    };
+  }
+  const route = new ProxyRoute(url);
+  try {
+    const startedAt = Date.now();
+    let httpResult: ProxyProbeResult["http"];
+    try {
+      const res = await route.fetch(twitchEndpoints.validate, {
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      await res.arrayBuffer().catch(() => undefined);
+      httpResult = { ok: true, status: res.status, latencyMs: Date.now() - startedAt };
+    } catch (err) {
+      httpResult = { ok: false, latencyMs: Date.now() - startedAt, error: errorMessage(err) };
+    }
+    const websocket = await probeWebSocket(route);
+    return {
+      ok: httpResult.ok && websocket.ok,
+      proxy: redactProxyUrl(route.url),
+      http: httpResult,
+      websocket,
+    };
+  } finally {
+    route.dispose();
+  }
+}
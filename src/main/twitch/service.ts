@@ -1,9 +1,18 @@
 import { gzipSync } from "node:zlib";
-import type { SessionData } from "../core/storage";
+import type { SessionStore } from "../core/storage";
 import { TwitchClient, TwitchAuthError, type RevalidateResult, type TwitchUser } from "./client";
 import { buildPriorityPlan, type PriorityPlan } from "./channels";
 import { TwitchServiceError } from "./errors";
+import type { GqlPriority, GqlScheduler } from "./gqlScheduler";
+import { PersistedQueryRegistry } from "./persistedQueries";
+import { ProxyRoute } from "./proxy";
+import type { TrafficRecorder } from "./trafficRecorder";
 import { TWITCH_ERROR_CODES } from "../../shared/errorCodes";
+import {
+  CHANNEL_DIRECTORY_PAGE_SIZE,
+  normalizeChannelDirectoryRequest,
+  type ChannelDirectoryRequest,
+} from "../../shared/channelDirectory";
 import {
   buildCampaignSummaries,
   collectBlockingReasonHints,
@@ -32,7 +41,6 @@ import {
   type ClaimDropRewardsResponse,
   type DirectoryGameRedirectResponse,
   type DirectoryPageGameResponse,
-  type DirectoryStreamNode,
   type DropCampaignDetailsResponse,
   type DropCurrentSessionResponse,
   type InventoryResponse,
@@ -42,6 +50,8 @@ import {
 export interface InventoryItem {
   id: string;
   game: string;
+  /** Twitch game (category) id, matched by `id:` priority and exclude entries. */
+  gameId?: string;
   title: string;
   requiredMinutes: number;
   earnedMinutes: number;
@@ -64,10 +74,25 @@ export interface InventoryItem {
   allowedChannelLogins?: string[];
 }
 
-const DIRECTORY_PAGE_GAME_HASHES = [
-  "76cb069d835b8a02914c08dc42c421d0dafda8af5b113a3f19141824b901402f",
-  "98a996c3c3ebb1ba4fd65d6671c6028d7ee8d615cb540b0731b3db2a911d3649",
-];
+/**
+ * Scheduler priority per GQL operation. Anything that earns or secures drops
+ * jumps the queue; directory and availability scans yield to it.
+ */
+const GQL_PRIORITY: Record<string, GqlPriority> = {
+  SendEvents: "high",
+  VideoPlayerStreamInfoOverlayChannel: "high",
+  DropsPage_ClaimDropRewards: "high",
+  DropCurrentSessionContext: "high",
+  DirectoryGameRedirect: "low",
+  DirectoryPage_Game: "low",
+  DropsHighlightService_AvailableDrops: "low",
+};
+
+/**
+ * Mutations are not idempotent: a retried batch would send them again along
+ * with whatever queries shared their POST, so they always go out alone.
+ */
+const GQL_MUTATIONS = new Set<string>(["DropsPage_ClaimDropRewards", "SendEvents"]);
 
 export type ChannelInfo = {
   id: string; // broadcaster id
@@ -78,9 +103,33 @@ export type ChannelInfo = {
   viewers: number;
   language?: string;
   thumbnail?: string;
+  /** ISO time the stream went live, when the tracker saw it come up. */
+  startedAt?: string;
   game: string;
 };
 
+/** An allowlisted channel resolved by login; `channel` is set while it is live in the game. */
+export type AllowlistedChannel = {
+  id: string;
+  login: string;
+  displayName: string;
+  channel: ChannelInfo | null;
+};
+
+/** A game's channel list plus the allowlisted channels it was asked about. */
+export type ChannelDirectory = {
+  channels: ChannelInfo[];
+  allowlisted: AllowlistedChannel[];
+};
+
+/** Process-wide collaborators shared by every account's service. */
+export type TwitchServiceShared = {
+  gqlScheduler?: GqlScheduler;
+  persistedQueries?: PersistedQueryRegistry;
+  /** Set when traffic recording is enabled (see DROPPILOT_RECORD_TRAFFIC). */
+  trafficRecorder?: TrafficRecorder;
+};
+
 export type InventoryBundle = {
   items: InventoryItem[];
   campaigns: CampaignInfo[];
@@ -90,9 +139,20 @@ export class TwitchService {
   private client: TwitchClient;
   private debug = (...args: unknown[]) => console.log("[TwitchService]", ...args);
   private loggedCampaignDiagnostics = new Set<string>();
+  private readonly persistedQueries: PersistedQueryRegistry;
 
-  constructor(sessionProvider: () => Promise<SessionData | null>) {
-    this.client = new TwitchClient(sessionProvider);
+  constructor(
+    sessionStore: SessionStore,
+    shared: TwitchServiceShared = {},
+    proxy: ProxyRoute = new ProxyRoute(),
+  ) {
+    this.client = new TwitchClient(
+      sessionStore,
+      shared.gqlScheduler,
+      shared.trafficRecorder,
+      proxy,
+    );
+    this.persistedQueries = shared.persistedQueries ?? new PersistedQueryRegistry();
   }
 
   async getProfile(): Promise<TwitchUser> {
@@ -110,8 +170,8 @@ export class TwitchService {
     }
   }
 
-  async revalidateSession(): Promise<RevalidateResult> {
-    return this.client.revalidateSession();
+  async revalidateSession(opts: { forceRefresh?: boolean } = {}): Promise<RevalidateResult> {
+    return this.client.revalidateSession(opts);
   }
 
   async getInventoryBundle(): Promise<InventoryBundle> {
@@ -148,25 +208,34 @@ export class TwitchService {
   }
 
   async resolveGameSlug(name: string): Promise<string | null> {
-    const res = await this.gqlRequest<DirectoryGameRedirectResponse>(
-      {
-        operationName: "DirectoryGameRedirect",
-        extensions: {
-          persistedQuery: {
-            version: 1,
-            sha256Hash: "1f0300090caceec51f33c5e20647aceff9017f740f223c3c532ba6fa59f6b6cc",
-          },
-        },
-        variables: { name },
-      },
-      "DirectoryGameRedirect",
-    );
+    const res = await this.persistedQuery<DirectoryGameRedirectResponse>("DirectoryGameRedirect", {
+      name,
+    });
     const slug =
       res?.data?.game?.slug ?? res?.data?.game?.displayName ?? res?.data?.game?.name ?? null;
     return slug;
   }
 
-  async getChannelsForGame(gameName: string): Promise<ChannelInfo[]> {
+  /**
+   * Live, drops-enabled channels for a game: up to `request.pages` directory
+   * pages by viewers (optionally limited to broadcaster languages), plus any
+   * allowlisted logins that the directory did not return.
+   */
+  async getChannelsForGame(
+    gameName: string,
+    request: ChannelDirectoryRequest = normalizeChannelDirectoryRequest(null),
+  ): Promise<ChannelInfo[]> {
+    return (await this.getChannelDirectory(gameName, request)).channels;
+  }
+
+  /**
+   * `getChannelsForGame` plus every allowlisted channel that could be
+   * identified, live or not, so a tracker can watch offline ones go live.
+   */
+  async getChannelDirectory(
+    gameName: string,
+    request: ChannelDirectoryRequest = normalizeChannelDirectoryRequest(null),
+  ): Promise<ChannelDirectory> {
     const slug = await this.resolveGameSlug(gameName);
     if (!slug) {
       throw new TwitchServiceError(
@@ -174,92 +243,144 @@ export class TwitchService {
         `Game slug missing for ${gameName}`,
       );
     }
-    const variables = {
-      limit: 20,
-      slug,
-      imageWidth: 70,
-      includeCostreaming: false,
-      options: {
-        broadcasterLanguages: [],
-        freeformTags: null,
-        includeRestricted: ["SUB_ONLY_LIVE"],
-        recommendationsContext: { platform: "web" },
-        sort: "VIEWER_COUNT",
-        systemFilters: ["DROPS_ENABLED"], // only show drops-enabled streams
-        tags: [],
-        requestID: "COD-CHANNEL-FETCH",
-      },
-      sortTypeIsRecency: false,
-    };
 
-    let res: DirectoryPageGameResponse | null = null;
-    let lastPersistedQueryErr: unknown = null;
-    for (const sha of DIRECTORY_PAGE_GAME_HASHES) {
+    const channels: ChannelInfo[] = [];
+    const seenIds = new Set<string>();
+    let cursor: string | null = null;
+    for (let page = 0; page < request.pages; page += 1) {
+      const variables = {
+        limit: CHANNEL_DIRECTORY_PAGE_SIZE,
+        slug,
+        imageWidth: 70,
+        includeCostreaming: false,
+        options: {
+          broadcasterLanguages: request.languages.map((language) => language.toUpperCase()),
+          freeformTags: null,
+          includeRestricted: ["SUB_ONLY_LIVE"],
+          recommendationsContext: { platform: "web" },
+          sort: "VIEWER_COUNT",
+          systemFilters: ["DROPS_ENABLED"], // only show drops-enabled streams
+          tags: [],
+          requestID: "COD-CHANNEL-FETCH",
+        },
+        sortTypeIsRecency: false,
+        ...(cursor ? { cursor } : {}),
+      };
+
+      const res: DirectoryPageGameResponse = await this.persistedQuery<DirectoryPageGameResponse>(
+        "DirectoryPage_Game",
+        variables,
+      );
+
+      const streams = res?.data?.game?.streams;
+      const edges = streams?.edges ?? [];
+      for (const edge of edges) {
+        const node = edge?.node;
+        if (!node || node.broadcaster?.broadcastSettings?.isDropsEnabled === false) continue;
+        const channel: ChannelInfo = {
+          id: node.broadcaster?.id ?? node.id ?? "",
+          streamId: node.id,
+          displayName: node.broadcaster?.displayName ?? node.broadcaster?.login ?? "unknown",
+          login: node.broadcaster?.login ?? node.broadcaster?.displayName ?? "",
+          title: node.broadcaster?.broadcastSettings?.title ?? "",
+          viewers: node.viewersCount ?? 0,
+          language: node.broadcaster?.language ?? "",
+          thumbnail: node.previewImageURL,
+          game: gameName,
+        };
+        if (!channel.id || !channel.login || seenIds.has(channel.id)) continue;
+        seenIds.add(channel.id);
+        channels.push(channel);
+      }
+      cursor = edges[edges.length - 1]?.cursor ?? null;
+      if (!cursor || streams?.pageInfo?.hasNextPage === false) break;
+    }
+
+    const requestedIds = new Set(request.ids);
+    const allowlisted: AllowlistedChannel[] = channels
+      .filter(
+        (channel) =>
+          requestedIds.has(channel.id) || request.logins.includes(channel.login.toLowerCase()),
+      )
+      .map((channel) => ({
+        id: channel.id,
+        login: channel.login,
+        displayName: channel.displayName,
+        channel,
+      }));
+    const listedLogins = new Set(channels.map((channel) => channel.login.toLowerCase()));
+    const missingLogins = request.logins.filter((login) => !listedLogins.has(login));
+    if (missingLogins.length > 0) {
       try {
-        res = await this.gqlRequest<DirectoryPageGameResponse>(
-          {
-            operationName: "DirectoryPage_Game",
-            extensions: {
-              persistedQuery: {
-                version: 1,
-                sha256Hash: sha,
-              },
-            },
-            variables,
-          },
-          "DirectoryPage_Game",
-        );
-        break;
-      } catch (err) {
-        if (isPersistedQueryNotFound(err)) {
-          lastPersistedQueryErr = err;
-          this.debug("DirectoryPage_Game persisted query not found", {
-            gameName,
-            slug,
-            sha,
-          });
-          continue;
+        for (const entry of await this.lookupAllowlistedChannels(missingLogins, gameName)) {
+          allowlisted.push(entry);
+          if (!entry.channel || seenIds.has(entry.id)) continue;
+          seenIds.add(entry.id);
+          channels.push(entry.channel);
         }
-        throw err;
+      } catch (err) {
+        if (this.isAuthError(err)) throw err;
+        this.debug("Allowlisted channel lookup failed", err);
       }
     }
-    if (!res) {
-      if (lastPersistedQueryErr) throw lastPersistedQueryErr;
-      throw new TwitchServiceError(
-        TWITCH_ERROR_CODES.GQL_FAILED,
-        "DirectoryPage_Game failed: no successful persisted query",
-      );
-    }
-
-    const edges = res?.data?.game?.streams?.edges ?? [];
-    const channels: ChannelInfo[] = edges
-      .map((e) => e?.node)
-      .filter((node): node is DirectoryStreamNode => !!node)
-      .filter((node) => node.broadcaster?.broadcastSettings?.isDropsEnabled !== false)
-      .map((node) => ({
-        id: node.broadcaster?.id ?? node.id ?? "",
-        streamId: node.id,
-        displayName: node.broadcaster?.displayName ?? node.broadcaster?.login ?? "unknown",
-        login: node.broadcaster?.login ?? node.broadcaster?.displayName ?? "",
-        title: node.broadcaster?.broadcastSettings?.title ?? "",
-        viewers: node.viewersCount ?? 0,
-        language: node.broadcaster?.language ?? "",
-        thumbnail: node.previewImageURL,
-        game: gameName,
-      }))
-      .filter((channel) => channel.id && channel.login);
 
     // Additional eligibility check: ensure the channel actually has viewerDropCampaigns.
     try {
       const eligibleIds = await this.getChannelsWithAvailableDrops(channels.map((c) => c.id));
       if (eligibleIds.size > 0) {
-        return channels.filter((c) => eligibleIds.has(c.id));
+        return { channels: channels.filter((c) => eligibleIds.has(c.id)), allowlisted };
       }
     } catch (err) {
       this.debug("AvailableDrops filter failed", err);
     }
 
-    return channels;
+    return { channels, allowlisted };
+  }
+
+  /**
+   * Looks channels up by login, one request each. Unknown logins are left out;
+   * `channel` is only set for streams that are live in `gameName`.
+   */
+  async lookupAllowlistedChannels(
+    logins: string[],
+    gameName: string,
+  ): Promise<AllowlistedChannel[]> {
+    const wantedGame = gameName.trim().toLowerCase();
+    const results = await this.settleEach(logins, (login) =>
+      this.persistedQuery<VideoPlayerStreamInfoOverlayChannelResponse>(
+        "VideoPlayerStreamInfoOverlayChannel",
+        { channel: login },
+      ),
+    );
+    const entries: AllowlistedChannel[] = [];
+    for (const res of results) {
+      const user = res?.data?.user;
+      if (!user?.id || !user.login) continue;
+      const displayName = user.displayName ?? user.login;
+      const stream = user.stream;
+      const game = user.broadcastSettings?.game ?? stream?.game ?? null;
+      const liveGames = [game?.name, game?.displayName].map((name) =>
+        (name ?? "").trim().toLowerCase(),
+      );
+      entries.push({
+        id: user.id,
+        login: user.login,
+        displayName,
+        channel:
+          stream?.id && liveGames.includes(wantedGame)
+            ? {
+                id: user.id,
+                streamId: stream.id,
+                displayName,
+                login: user.login,
+                title: user.broadcastSettings?.title ?? "",
+                viewers: stream.viewersCount ?? 0,
+                game: gameName,
+              }
+            : null,
+      });
+    }
+    return entries;
   }
 
   async claimDrop(payload: { dropInstanceId?: string; dropId?: string; campaignId?: string }) {
@@ -270,14 +391,9 @@ export class TwitchService {
       this.debug("claim: missing claim id", payload);
       throw new TwitchServiceError(TWITCH_ERROR_CODES.CLAIM_MISSING_ID, "Claim id missing");
     }
-    const body = createPersistedQuery(
-      "DropsPage_ClaimDropRewards",
-      "a455deea71bdc9015b78eb49f4acfbce8baa7ccbedd28e549bb025bd0f751930",
-      {
-        input: { dropInstanceID: claimId },
-      },
-    );
-    const res = await this.gqlRequest<ClaimDropRewardsResponse>(body, "DropsPage_ClaimDropRewards");
+    const res = await this.persistedQuery<ClaimDropRewardsResponse>("DropsPage_ClaimDropRewards", {
+      input: { dropInstanceID: claimId },
+    });
     const status =
       res?.data?.claimDropRewards?.status ??
       res?.data?.claimDropRewards?.payload?.status ??
@@ -312,19 +428,9 @@ export class TwitchService {
     gameName?: string;
     gameId?: string;
   } | null> {
-    const body = {
-      operationName: "VideoPlayerStreamInfoOverlayChannel",
-      extensions: {
-        persistedQuery: {
-          version: 1,
-          sha256Hash: "198492e0857f6aedead9665c81c5a06d67b25b58034649687124083ff288597d",
-        },
-      },
-      variables: { channel: login },
-    };
-    const res = await this.gqlRequest<VideoPlayerStreamInfoOverlayChannelResponse>(
-      body,
+    const res = await this.persistedQuery<VideoPlayerStreamInfoOverlayChannelResponse>(
       "VideoPlayerStreamInfoOverlayChannel",
+      { channel: login },
     );
     const user = res?.data?.user;
     const stream = user?.stream ?? null;
@@ -468,21 +574,19 @@ export class TwitchService {
       this.debug("dropProgress: no channelId provided, skipping");
       return null;
     }
-    const body = createPersistedQuery(
-      "DropCurrentSessionContext",
-      // Known persisted-query hash used by the Twitch web client + drop miners.
-      // If Twitch rotates it, this call returns a PersistedQueryNotFound error
-      // (logged below) and we fall back to keeping the last known progress.
-      "4d06b702d25d652afb9ef835d2a550031f1cf762b193523a92166f40ea3d142b",
-      // channelID (the watched channel id, as a string) is REQUIRED — the
-      // resolver returns dropCurrentSession: null without it. channelLogin is
-      // always "" (mirrors the Twitch web client + TwitchDropsMiner). This was
-      // the bug: we previously sent {} and so always got a null session.
-      { channelID: watchedChannelId, channelLogin: "" },
-    );
+    // channelID (the watched channel id, as a string) is REQUIRED — the
+    // resolver returns dropCurrentSession: null without it. channelLogin is
+    // always "" (mirrors the Twitch web client + TwitchDropsMiner). This was
+    // the bug: we previously sent {} and so always got a null session.
+    const variables = { channelID: watchedChannelId, channelLogin: "" };
     let res: DropCurrentSessionResponse;
     try {
-      res = await this.gqlRequest<DropCurrentSessionResponse>(body, "DropCurrentSessionContext");
+      // If Twitch rotates every known hash this fails with PersistedQueryNotFound
+      // (logged below) and we fall back to keeping the last known progress.
+      res = await this.persistedQuery<DropCurrentSessionResponse>(
+        "DropCurrentSessionContext",
+        variables,
+      );
     } catch (err) {
       this.debug("dropProgress: gql failed", err);
       return null;
@@ -545,12 +649,9 @@ export class TwitchService {
     };
 
     // 1) Inventory (in-progress campaigns).
-    const inventoryPayload = createPersistedQuery(
-      "Inventory",
-      "d86775d0ef16a63a33ad52e80eaff963b2d5b72fada7c991504a57496e1d8e4b",
-      { fetchRewardCampaigns: true },
-    );
-    const inv = await this.gqlRequest<InventoryResponse>(inventoryPayload, "Inventory");
+    const inv = await this.persistedQuery<InventoryResponse>("Inventory", {
+      fetchRewardCampaigns: true,
+    });
     const inventoryRoot = inv?.data?.currentUser?.inventory;
     const inProgressRaw = inventoryRoot?.dropCampaignsInProgress ?? [];
     const allInventoryRaw = inventoryRoot?.dropCampaigns ?? [];
@@ -589,10 +690,6 @@ export class TwitchService {
 
     if (includeAvailable) {
       // 2) ViewerDropsDashboard (available campaigns) — merge/overwrite by id
-      const campaignsPayloadBase = {
-        operationName: "ViewerDropsDashboard",
-        sha: "5a4da2ab3d5b47c9f9ce864e727b2cb346af1e3ea8b897fe8f704a97ff017619",
-      };
       const maxCampaignPages = 20;
       let nextCursor: string | null | undefined;
       let fetchedEdges = 0;
@@ -605,15 +702,10 @@ export class TwitchService {
           first: 100,
         };
         if (nextCursor) variables.after = nextCursor;
-        const campaignsPayload = createPersistedQuery(
-          campaignsPayloadBase.operationName,
-          campaignsPayloadBase.sha,
+        const campaigns = await this.persistedQuery<CampaignsResponse>(
+          "ViewerDropsDashboard",
           variables,
         );
-        const campaigns = await this.gqlRequest<CampaignsResponse>(
-          campaignsPayload,
-          campaignsPayloadBase.operationName,
-        );
         sawCurrentUser = sawCurrentUser || !!campaigns?.data?.currentUser;
         if (page === 0) {
           this.debug("Campaigns first page summary", {
@@ -718,35 +810,23 @@ export class TwitchService {
       }
     }
 
-    const chunkSize = 20;
     const ids = Array.from(campaignsById.keys());
-    this.debug("Enrich campaigns", { total: ids.length, chunkSize });
-
-    for (let i = 0; i < ids.length; i += chunkSize) {
-      const chunk = ids.slice(i, i + chunkSize);
-      this.debug("Detail chunk", { idx: i, size: chunk.length });
-      const gqlPayload = chunk.map((cid) =>
-        createPersistedQuery(
-          "DropCampaignDetails",
-          "039277bf98f3130929262cc7c6efd9c141ca3749cb6dca442fc8ead9a53f77c1",
-          {
-            channelLogin: validate.login, // use login as user identifier
-            dropID: cid,
-          },
-        ),
-      );
+    this.debug("Enrich campaigns", { total: ids.length });
 
-      const responses = await this.gqlRequest<
-        DropCampaignDetailsResponse | DropCampaignDetailsResponse[]
-      >(gqlPayload, "DropCampaignDetails");
-      const responseList = Array.isArray(responses) ? responses : [responses];
-      for (const res of responseList) {
-        const node = res?.data?.user?.dropCampaign;
-        if (node?.id && campaignsById.has(node.id)) {
-          const base = campaignsById.get(node.id)!;
-          const merged = mergePrimaryData(base, node) as CampaignNode;
-          campaignsById.set(node.id, merged);
-        }
+    // One operation per campaign; the client batches them into array requests
+    // and a campaign whose details fail keeps its inventory/dashboard data.
+    const results = await this.settleEach(ids, (cid) =>
+      this.persistedQuery<DropCampaignDetailsResponse>("DropCampaignDetails", {
+        channelLogin: validate.login, // use login as user identifier
+        dropID: cid,
+      }),
+    );
+    for (const res of results) {
+      const node = res?.data?.user?.dropCampaign;
+      if (node?.id && campaignsById.has(node.id)) {
+        const base = campaignsById.get(node.id)!;
+        const merged = mergePrimaryData(base, node) as CampaignNode;
+        campaignsById.set(node.id, merged);
       }
     }
 
@@ -765,28 +845,17 @@ export class TwitchService {
     const eligible = new Set<string>();
     if (!channelIds.length) return eligible;
 
-    const chunkSize = 20;
-    for (let i = 0; i < channelIds.length; i += chunkSize) {
-      const chunk = channelIds.slice(i, i + chunkSize);
-      const payload = chunk.map((id) =>
-        createPersistedQuery(
-          "DropsHighlightService_AvailableDrops",
-          "9a62a09bce5b53e26e64a671e530bc599cb6aab1e5ba3cbd5d85966d3940716f",
-          { channelID: String(id) },
-        ),
-      );
-      const res = await this.gqlRequest<AvailableDropsResponse | AvailableDropsResponse[]>(
-        payload,
-        "DropsHighlightService_AvailableDrops",
-      );
-      const list = Array.isArray(res) ? res : [res];
-      for (const entry of list) {
-        const channel = entry?.data?.channel;
-        const id = channel?.id;
-        const campaigns = channel?.viewerDropCampaigns ?? [];
-        if (id && Array.isArray(campaigns) && campaigns.length > 0) {
-          eligible.add(String(id));
-        }
+    const results = await this.settleEach(channelIds, (id) =>
+      this.persistedQuery<AvailableDropsResponse>("DropsHighlightService_AvailableDrops", {
+        channelID: String(id),
+      }),
+    );
+    for (const entry of results) {
+      const channel = entry?.data?.channel;
+      const id = channel?.id;
+      const campaigns = channel?.viewerDropCampaigns ?? [];
+      if (id && Array.isArray(campaigns) && campaigns.length > 0) {
+        eligible.add(String(id));
       }
     }
 
@@ -812,6 +881,7 @@ export class TwitchService {
     for (const campaign of detailed) {
       if (!campaign.timeBasedDrops) continue;
       const game = campaign.game?.displayName ?? "Unknown game";
+      const gameId = campaign.game?.id != null ? String(campaign.game.id) : undefined;
       const linked = isTruthyFlag(campaign.self?.isAccountConnected);
       const campaignStatus = campaign.status;
       const campaignName = campaign.name;
@@ -985,6 +1055,7 @@ export class TwitchService {
         items.push({
           id: drop.id,
           game,
+          gameId,
           title: drop.name,
           requiredMinutes,
           earnedMinutes,
@@ -1033,12 +1104,79 @@ export class TwitchService {
     return err instanceof TwitchAuthError;
   }
 
+  /**
+   * Runs one request per key concurrently and returns the successful results.
+   * Failures are logged and skipped, except auth errors and the case where
+   * every request failed, which are rethrown so callers still see an outage.
+   */
+  private async settleEach<K, T>(keys: K[], request: (key: K) => Promise<T>): Promise<T[]> {
+    if (keys.length === 0) return [];
+    const settled = await Promise.allSettled(keys.map((key) => request(key)));
+    const values: T[] = [];
+    const failures: unknown[] = [];
+    for (const result of settled) {
+      if (result.status === "fulfilled") {
+        values.push(result.value);
+      } else {
+        failures.push(result.reason);
+      }
+    }
+    const authError = failures.find((err) => this.isAuthError(err));
+    if (authError) throw authError;
+    if (values.length === 0) throw failures[0];
+    if (failures.length > 0) {
+      this.debug("Partial GQL failures", {
+        failed: failures.length,
+        total: keys.length,
+        first: failures[0] instanceof Error ? failures[0].message : String(failures[0]),
+      });
+    }
+    return values;
+  }
+
+  /**
+   * Sends a persisted query, walking the registry's candidate hashes on
+   * PersistedQueryNotFound and remembering whichever one answered.
+   */
+  private async persistedQuery<T>(
+    operationName: string,
+    variables: Record<string, unknown>,
+  ): Promise<T> {
+    let lastNotFound: unknown = null;
+    for (const sha of this.persistedQueries.candidates(operationName)) {
+      try {
+        const res = await this.gqlRequest<T>(
+          createPersistedQuery(operationName, sha, variables),
+          operationName,
+        );
+        this.persistedQueries.markWorked(operationName, sha);
+        return res;
+      } catch (err) {
+        if (!isPersistedQueryNotFound(err)) throw err;
+        lastNotFound = err;
+        this.persistedQueries.markNotFound(operationName, sha);
+        this.debug(`${operationName} persisted query not found`, { sha });
+      }
+    }
+    if (lastNotFound) throw lastNotFound;
+    throw new TwitchServiceError(
+      TWITCH_ERROR_CODES.GQL_FAILED,
+      `${operationName} failed: no persisted query hash known`,
+    );
+  }
+
   private async gqlRequest<T>(
     body: Record<string, unknown> | Record<string, unknown>[],
     context: string,
   ): Promise<T> {
+    const priority = GQL_PRIORITY[context] ?? "normal";
+    // Single queries are batched with whatever else is in flight; explicit
+    // arrays, mutations and high-priority operations go out as their own POST.
+    const unbatched = Array.isArray(body) || priority === "high" || GQL_MUTATIONS.has(context);
     try {
-      return await this.client.gqlRequest<T>(body);
+      return unbatched
+        ? await this.client.gqlRequest<T>(body, { priority })
+        : await this.client.gqlOperation<T>(body, { priority });
     } catch (err) {
       if (this.isAuthError(err)) {
         throw err;
@@ -119,7 +119,7 @@ export type CampaignNode = {
   name: string;
   accountLinkURL?: string;
   accountLinkUrl?: string;
-  game?: { displayName?: string; boxArtURL?: string; boxArtUrl?: string };
+  game?: { id?: string | number; displayName?: string; boxArtURL?: string; boxArtUrl?: string };
   startAt?: string;
   endAt?: string;
   status?: string;
@@ -201,6 +201,8 @@ export type VideoPlayerStreamInfoOverlayChannelResponse = {
   data?: {
     user?: {
       id?: string;
+      login?: string;
+      displayName?: string;
       // The game lives under broadcastSettings (what TDM reads), not stream.
       broadcastSettings?: {
         title?: string;
@@ -208,6 +210,7 @@ export type VideoPlayerStreamInfoOverlayChannelResponse = {
       } | null;
       stream?: {
         id?: string;
+        viewersCount?: number;
         game?: { id?: string | number; name?: string; displayName?: string } | null;
         stream?: {
           id?: string;
@@ -247,7 +250,8 @@ export type DirectoryPageGameResponse = {
   data?: {
     game?: {
       streams?: {
-        edges?: Array<{ node?: DirectoryStreamNode }>;
+        edges?: Array<{ cursor?: string | null; node?: DirectoryStreamNode }>;
+        pageInfo?: { hasNextPage?: boolean };
       };
     };
   };
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RevalidateResult } from "./client";
+import {
+  backoffDelay,
+  classifyExpiry,
+  EXPIRING_WINDOW_MS,
+  MAX_CHECK_INTERVAL_MS,
+  MIN_CHECK_DELAY_MS,
+  nextCheckDelay,
+  REFRESH_LEAD_MS,
+  SessionHealthScheduler,
+  STARTUP_CHECK_DELAY_MS,
+} from "./sessionHealth";
+
+const HOUR = 60 * 60_000;
+
+describe("classifyExpiry", () => {
+  const now = 1_000_000;
+
+  it("treats unknown / non-expiring tokens as healthy", () => {
+    expect(classifyExpiry(null, now)).toBe("healthy");
+  });
+
+  it("flags tokens inside the expiring window and past expiry", () => {
+    expect(classifyExpiry(now + 4 * HOUR, now)).toBe("healthy");
+    expect(classifyExpiry(now + EXPIRING_WINDOW_MS - 1, now)).toBe("expiring");
+    expect(classifyExpiry(now, now)).toBe("expired");
+  });
+});
+
+describe("nextCheckDelay", () => {
+  const now = 0;
+
+  it("validates hourly when the expiry is far or unknown", () => {
+    expect(nextCheckDelay(null, now)).toBe(MAX_CHECK_INTERVAL_MS);
+    expect(nextCheckDelay(now + 5 * HOUR, now)).toBe(MAX_CHECK_INTERVAL_MS);
+  });
+
+  it("wakes up at the start of the refresh lead window", () => {
+    expect(nextCheckDelay(now + 30 * 60_000, now)).toBe(30 * 60_000 - REFRESH_LEAD_MS);
+  });
+
+  it("halves the remaining time inside the lead window, bounded below", () => {
+    expect(nextCheckDelay(now + 8 * 60_000, now)).toBe(4 * 60_000);
+    expect(nextCheckDelay(now + 30_000, now)).toBe(MIN_CHECK_DELAY_MS);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per failure and caps", () => {
+    const mid = () => 0.5;
+    expect(backoffDelay(1, mid)).toBe(30_000);
+    expect(backoffDelay(2, mid)).toBe(60_000);
+    expect(backoffDelay(20, mid)).toBe(15 * 60_000);
+  });
+
+  it("applies +/-20% jitter", () => {
+    expect(backoffDelay(1, () => 0)).toBe(24_000);
+    expect(backoffDelay(1, () => 1)).toBe(36_000);
+  });
+});
+
+describe("SessionHealthScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const makeScheduler = (
+    expiresAt: number,
+    revalidate: (opts: { forceRefresh?: boolean }) => Promise<RevalidateResult>,
+    onRefreshed?: () => void,
+    canRefresh?: () => boolean,
+  ) =>
+    new SessionHealthScheduler({
+      loadSession: async () => ({ accessToken: "token", expiresAt, scopes: [] }),
+      revalidate,
+      canRefresh,
+      onRefreshed,
+      random: () => 0.5,
+    });
+
+  it("force-refreshes a token inside the lead window", async () => {
+    const revalidate = vi.fn(async (opts: { forceRefresh?: boolean }) =>
+      opts.forceRefresh
+        ? ({ ok: true, status: "refreshed", expiresAt: 4 * HOUR, expiresIn: 4 * 3600 } as const)
+        : ({ ok: true, status: "valid", expiresAt: 5 * 60_000, expiresIn: 300 } as const),
+    );
+    const onRefreshed = vi.fn();
+    const scheduler = makeScheduler(5 * 60_000, revalidate, onRefreshed);
+    const states: string[] = [];
+    scheduler.onChange((health) => states.push(health.state));
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+
+    expect(revalidate).toHaveBeenCalledWith({ forceRefresh: true });
+    expect(onRefreshed).toHaveBeenCalledTimes(1);
+    expect(states).toContain("refreshing");
+    expect(scheduler.getHealth()).toMatchObject({ state: "healthy", expiresAt: 4 * HOUR });
+    scheduler.stop();
+  });
+
+  it("reports expiring instead of refreshing when no refresh is possible", async () => {
+    const revalidate = vi.fn(
+      async () => ({ ok: true, status: "valid", expiresAt: 5 * 60_000, expiresIn: 300 }) as const,
+    );
+    const scheduler = makeScheduler(5 * 60_000, revalidate, undefined, () => false);
+    const states: string[] = [];
+    scheduler.onChange((health) => states.push(health.state));
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+
+    expect(revalidate).toHaveBeenCalledWith({ forceRefresh: false });
+    expect(states).not.toContain("refreshing");
+    expect(scheduler.getHealth().state).toBe("expiring");
+    scheduler.stop();
+  });
+
+  it("backs off on transient errors and recovers", async () => {
+    const revalidate = vi
+      .fn<(opts: { forceRefresh?: boolean }) => Promise<RevalidateResult>>()
+      .mockResolvedValueOnce({ ok: false, status: "error", message: "offline" })
+      .mockResolvedValue({ ok: true, status: "valid", expiresAt: 4 * HOUR, expiresIn: 14_000 });
+    const scheduler = makeScheduler(4 * HOUR, revalidate);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+    expect(scheduler.getHealth()).toMatchObject({ failures: 1, lastError: "offline" });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(revalidate).toHaveBeenCalledTimes(2);
+    expect(scheduler.getHealth()).toMatchObject({ state: "healthy", failures: 0 });
+    scheduler.stop();
+  });
+
+  it("parks as expired on terminal failures until the session changes", async () => {
+    const revalidate = vi.fn(
+      async (): Promise<RevalidateResult> => ({ ok: false, status: "unauthorized" }),
+    );
+    const scheduler = makeScheduler(4 * HOUR, revalidate);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+    expect(scheduler.getHealth()).toMatchObject({ state: "expired", nextCheckAt: null });
+
+    await vi.advanceTimersByTimeAsync(2 * HOUR);
+    expect(revalidate).toHaveBeenCalledTimes(1);
+
+    scheduler.notifySessionChanged();
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+    expect(revalidate).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("treats expires_in 0 as a non-expiring token", async () => {
+    const revalidate = vi.fn(
+      async (): Promise<RevalidateResult> => ({
+        ok: true,
+        status: "valid",
+        expiresAt: 0,
+        expiresIn: 0,
+      }),
+    );
+    const scheduler = makeScheduler(0, revalidate);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(STARTUP_CHECK_DELAY_MS);
+    expect(scheduler.getHealth()).toMatchObject({
+      state: "healthy",
+      expiresAt: null,
+      nextCheckAt: STARTUP_CHECK_DELAY_MS + MAX_CHECK_INTERVAL_MS,
+    });
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,271 @@
+import type { SessionData } from "../core/storage";
+import type { RevalidateResult } from "./client";
+
+export type SessionHealthState = "healthy" | "expiring" | "refreshing" | "expired";
+
+export type SessionHealth = {
+  state: SessionHealthState;
+  /** Null when Twitch reports a non-expiring token (expires_in 0) or nothing is known yet. */
+  expiresAt: number | null;
+  lastCheckedAt: number | null;
+  lastRefreshedAt: number | null;
+  nextCheckAt: number | null;
+  /** Consecutive transient failures (network / 5xx); drives the backoff. */
+  failures: number;
+  lastError?: string;
+};
+
+/** Refresh this long before the token expires. */
+export const REFRESH_LEAD_MS = 10 * 60_000;
+/** Tokens closer to expiry than this are reported as "expiring". */
+export const EXPIRING_WINDOW_MS = 15 * 60_000;
+/** Validate at least this often even when the token is far from expiry. */
+export const MAX_CHECK_INTERVAL_MS = 60 * 60_000;
+export const MIN_CHECK_DELAY_MS = 60_000;
+/** First check after start, so it does not compete with the initial inventory load. */
+export const STARTUP_CHECK_DELAY_MS = 5_000;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 15 * 60_000;
+const BACKOFF_JITTER = 0.2;
+
+/**
+ * Results after which retrying cannot help: the token is gone or rejected and
+ * there is no usable refresh token. Only a new login recovers from these.
+ */
+const TERMINAL_STATUSES = new Set<string>([
+  "missing_token",
+  "unauthorized",
+  "refresh_unavailable",
+  "refresh_failed",
+]);
+
+export function classifyExpiry(
+  expiresAt: number | null,
+  now: number,
+): Exclude<SessionHealthState, "refreshing"> {
+  if (!expiresAt) return "healthy";
+  const remaining = expiresAt - now;
+  if (remaining <= 0) return "expired";
+  if (remaining <= EXPIRING_WINDOW_MS) return "expiring";
+  return "healthy";
+}
+
+/** True once the token is inside the refresh lead window. */
+export function isRefreshDue(expiresAt: number | null, now: number): boolean {
+  return !!expiresAt && expiresAt - now <= REFRESH_LEAD_MS;
+}
+
+/**
+ * Delay until the next check after a successful one: the start of the refresh
+ * lead window, capped to the hourly validation. Inside the window (refresh
+ * not possible or not yet effective) the remaining time is halved so the
+ * state still flips to "expired" close to the real expiry.
+ */
+export function nextCheckDelay(expiresAt: number | null, now: number): number {
+  if (!expiresAt) return MAX_CHECK_INTERVAL_MS;
+  const remaining = expiresAt - now;
+  const target = remaining > REFRESH_LEAD_MS ? remaining - REFRESH_LEAD_MS : remaining / 2;
+  return Math.min(MAX_CHECK_INTERVAL_MS, Math.max(MIN_CHECK_DELAY_MS, Math.round(target)));
+}
+
+/** Exponential backoff with +/-20% jitter so several accounts do not retry in lockstep. */
+export function backoffDelay(failures: number, random: () => number = Math.random): number {
+  const exp = Math.max(0, failures - 1);
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** exp);
+  const jitter = 1 + (random() * 2 - 1) * BACKOFF_JITTER;
+  return Math.round(base * jitter);
+}
+
+export function isTerminalRevalidate(result: RevalidateResult): boolean {
+  return !result.ok && TERMINAL_STATUSES.has(result.status);
+}
+
+function resultExpiresAt(result: Extract<RevalidateResult, { ok: true }>): number | null {
+  return result.expiresIn > 0 ? result.expiresAt : null;
+}
+
+export type SessionHealthDeps = {
+  loadSession: () => Promise<SessionData | null>;
+  revalidate: (opts: { forceRefresh?: boolean }) => Promise<RevalidateResult>;
+  /**
+   * Whether a forced refresh can happen for the session (refresh token and
+   * client secret present). Without it the lead window skips "refreshing".
+   */
+  canRefresh?: (session: SessionData | null) => boolean;
+  /** Called after a refresh swapped the access token (PubSub must re-listen). */
+  onRefreshed?: () => void;
+  now?: () => number;
+  random?: () => number;
+};
+
+/**
+ * Keeps one account's token alive without waiting for a request to fail:
+ * refreshes shortly before `expiresAt`, validates at least hourly, and backs
+ * off on transient errors. Terminal failures park the scheduler until
+ * `notifySessionChanged` (new login / vault unlock).
+ */
+export class SessionHealthScheduler {
+  private health: SessionHealth = {
+    state: "healthy",
+    expiresAt: null,
+    lastCheckedAt: null,
+    lastRefreshedAt: null,
+    nextCheckAt: null,
+    failures: 0,
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<RevalidateResult> | null = null;
+  private readonly listeners = new Set<(health: SessionHealth) => void>();
+  private running = false;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(private readonly deps: SessionHealthDeps) {
+    this.now = deps.now ?? Date.now;
+    this.random = deps.random ?? Math.random;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(STARTUP_CHECK_DELAY_MS);
+  }
+
+  stop() {
+    this.running = false;
+    this.clearTimer();
+    this.listeners.clear();
+  }
+
+  getHealth(): SessionHealth {
+    return { ...this.health };
+  }
+
+  onChange(listener: (health: SessionHealth) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** The stored session was replaced; forget old failures and check soon. */
+  notifySessionChanged() {
+    this.update({ failures: 0, lastError: undefined });
+    if (this.running) this.schedule(STARTUP_CHECK_DELAY_MS);
+  }
+
+  /** Validates (and refreshes when due) right away; concurrent callers share one request. */
+  checkNow(): Promise<RevalidateResult> {
+    if (!this.inFlight) {
+      this.clearTimer();
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async run(): Promise<RevalidateResult> {
+    let session: SessionData | null = null;
+    try {
+      session = await this.deps.loadSession();
+    } catch {
+      session = null;
+    }
+    const storedExpiresAt = session?.expiresAt && session.expiresAt > 0 ? session.expiresAt : null;
+    const refreshDue = isRefreshDue(storedExpiresAt, this.now());
+    const forceRefresh = refreshDue && (this.deps.canRefresh?.(session) ?? true);
+    if (forceRefresh) {
+      this.update({ state: "refreshing", expiresAt: storedExpiresAt });
+    } else if (refreshDue) {
+      this.update({
+        state: classifyExpiry(storedExpiresAt, this.now()),
+        expiresAt: storedExpiresAt,
+      });
+    }
+
+    let result: RevalidateResult;
+    try {
+      result = await this.deps.revalidate({ forceRefresh });
+    } catch (err) {
+      result = {
+        ok: false,
+        status: "error",
+        message: err instanceof Error ? err.message : String(err),
+      };
+    }
+    const now = this.now();
+
+    if (result.ok) {
+      const expiresAt = resultExpiresAt(result);
+      const refreshed = result.status === "refreshed";
+      this.update({
+        state: classifyExpiry(expiresAt, now),
+        expiresAt,
+        lastCheckedAt: now,
+        lastRefreshedAt: refreshed ? now : this.health.lastRefreshedAt,
+        failures: 0,
+        lastError: undefined,
+      });
+      if (refreshed) this.deps.onRefreshed?.();
+      this.schedule(nextCheckDelay(expiresAt, now));
+      return result;
+    }
+
+    if (isTerminalRevalidate(result)) {
+      this.clearTimer();
+      this.update({
+        state: "expired",
+        lastCheckedAt: now,
+        nextCheckAt: null,
+        lastError: result.message ?? result.status,
+      });
+      return result;
+    }
+
+    const failures = this.health.failures + 1;
+    const expiresAt = this.health.expiresAt ?? storedExpiresAt;
+    this.update({
+      state: classifyExpiry(expiresAt, now),
+      expiresAt,
+      lastCheckedAt: now,
+      failures,
+      lastError: result.message ?? result.status,
+    });
+    this.schedule(backoffDelay(failures, this.random));
+    return result;
+  }
+
+  private schedule(delayMs: number) {
+    this.clearTimer();
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.checkNow();
+    }, delayMs);
+    this.update({ nextCheckAt: this.now() + delayMs });
+  }
+
+  private clearTimer() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private update(patch: Partial<SessionHealth>) {
+    const next = { ...this.health, ...patch };
+    const changed = (Object.keys(next) as Array<keyof SessionHealth>).some(
+      (key) => next[key] !== this.health[key],
+    );
+    if (!changed) return;
+    this.health = next;
+    const snapshot = this.getHealth();
+    for (const listener of this.listeners) {
+      try {
+        listener(snapshot);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
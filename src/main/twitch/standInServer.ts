@@ -0,0 +1,105 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { WebSocket, WebSocketServer } from "ws";
+
+/** Listens on an ephemeral port and resolves with it. */
+export const listenLocal = (server: Server, host: string) =>
+  new Promise<number>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, host, () => {
+      const address = server.address();
+      resolve(address && typeof address === "object" ? address.port : 0);
+    });
+  });
+
+export const readRequestBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+
+/** Strings are sent verbatim so recorded non-JSON error bodies replay unchanged. */
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(text);
+};
+
+export type PubSubStandIn = {
+  /** Sends a MESSAGE frame to every socket listening on `topic`; false if nobody was. */
+  publish: (topic: string, message: unknown) => boolean;
+  /** Sends an already-framed recorded message as-is. */
+  publishFrame: (topic: string, frame: unknown) => boolean;
+  close: () => void;
+};
+
+/**
+ * Minimal pubsub-edge protocol for local stand-in servers: answers PING and
+ * LISTEN/UNLISTEN (always successfully) and routes published messages to the
+ * sockets listening on their topic. `onListen` lets callers flush anything
+ * queued for a topic before a client subscribed.
+ */
+export function attachPubSubStandIn(
+  wss: WebSocketServer,
+  opts: { onListen?: (topic: string) => void } = {},
+): PubSubStandIn {
+  const listeners = new Map<WebSocket, Set<string>>();
+
+  wss.on("connection", (socket) => {
+    const topics = new Set<string>();
+    listeners.set(socket, topics);
+    socket.on("message", (raw) => {
+      let frame: { type?: string; nonce?: string; data?: { topics?: unknown } };
+      try {
+        frame = JSON.parse(String(raw)) as typeof frame;
+      } catch {
+        return;
+      }
+      const type = String(frame.type ?? "").toUpperCase();
+      if (type === "PING") {
+        socket.send(JSON.stringify({ type: "PONG" }));
+        return;
+      }
+      if (type !== "LISTEN" && type !== "UNLISTEN") return;
+      const requested = Array.isArray(frame.data?.topics)
+        ? frame.data.topics.filter((topic): topic is string => typeof topic === "string")
+        : [];
+      socket.send(JSON.stringify({ type: "RESPONSE", nonce: frame.nonce, error: "" }));
+      for (const topic of requested) {
+        if (type === "UNLISTEN") {
+          topics.delete(topic);
+          continue;
+        }
+        topics.add(topic);
+        opts.onListen?.(topic);
+      }
+    });
+    socket.on("close", () => {
+      listeners.delete(socket);
+    });
+  });
+
+  const publishFrame = (topic: string, frame: unknown) => {
+    let delivered = false;
+    for (const [socket, topics] of listeners) {
+      if (!topics.has(topic)) continue;
+      socket.send(JSON.stringify(frame));
+      delivered = true;
+    }
+    return delivered;
+  };
+
+  return {
+    publish: (topic, message) =>
+      publishFrame(topic, {
+        type: "MESSAGE",
+        data: { topic, message: typeof message === "string" ? message : JSON.stringify(message) },
+      }),
+    publishFrame,
+    close: () => {
+      for (const socket of listeners.keys()) socket.close();
+      listeners.clear();
+    },
+  };
+}
@@ -32,7 +32,10 @@ const makeChannels = (count: number, game: string): ChannelInfo[] =>
 
 const makeTwitchService = (channelsByGame: Record<string, ChannelInfo[]>): TwitchService =>
   ({
-    getChannelsForGame: async (gameName: string) => channelsByGame[gameName] ?? [],
+    getChannelDirectory: async (gameName: string) => ({
+      channels: channelsByGame[gameName] ?? [],
+      allowlisted: [],
+    }),
   }) as unknown as TwitchService;
 
 const createServer = async () => {
@@ -119,6 +122,81 @@ describe("WsChannelTracker", () => {
     expect(shards.reduce((total, shard) => total + shard.subscriptions, 0)).toBe(55);
   });
 
+  it("keeps allowlisted channel ids subscribed ahead of the directory", async () => {
+    const game = "AllowlistGame";
+    const { server, wsUrl } = await createServer();
+    serversToClose.push(server);
+    const listened = new Set<string>();
+    server.on("connection", (socket) => {
+      socket.on("message", (raw) => {
+        const frame = JSON.parse(String(raw)) as { type?: string; data?: { topics?: string[] } };
+        if (frame.type === "LISTEN") frame.data?.topics?.forEach((topic) => listened.add(topic));
+      });
+    });
+
+    const tracker = new WsChannelTracker(makeTwitchService({ [game]: makeChannels(10, game) }), {
+      mode: "ws",
+      wsUrl,
+      maxSockets: 1,
+      maxTrackedTopics: 5,
+      refreshMs: 60_000,
+    });
+    trackersToDispose.push(tracker);
+
+    await tracker.getChannelsForGame(game, {
+      pages: 1,
+      languages: [],
+      logins: [],
+      ids: ["900", "901"],
+    });
+    await waitFor(() => listened.size === 5);
+
+    expect(tracker.getStatus().desiredSubscriptions).toBe(5);
+    expect(listened.has("video-playback-by-id.900")).toBe(true);
+    expect(listened.has("video-playback-by-id.901")).toBe(true);
+  });
+
+  it("refetches the game when a channel known only by id goes live", async () => {
+    const game = "IdOnlyGame";
+    const { server, wsUrl } = await createServer();
+    serversToClose.push(server);
+    server.on("connection", (socket) => {
+      socket.on("message", (raw) => {
+        const frame = JSON.parse(String(raw)) as { type?: string; data?: { topics?: string[] } };
+        if (frame.type !== "LISTEN" || !frame.data?.topics?.includes("video-playback-by-id.900")) {
+          return;
+        }
+        socket.send(
+          JSON.stringify({
+            type: "MESSAGE",
+            data: {
+              topic: "video-playback-by-id.900",
+              message: JSON.stringify({ type: "stream-up", server_time: 1_700_000_000 }),
+            },
+          }),
+        );
+      });
+    });
+    const live: ChannelInfo = { ...makeChannels(1, game)[0], id: "900", login: "small_one" };
+    let fetches = 0;
+    const twitch = {
+      getChannelDirectory: async () => {
+        fetches += 1;
+        return { channels: fetches > 1 ? [live] : [], allowlisted: [] };
+      },
+    } as unknown as TwitchService;
+
+    const tracker = new WsChannelTracker(twitch, { mode: "ws", wsUrl, refreshMs: 600_000 });
+    trackersToDispose.push(tracker);
+    const added: string[] = [];
+    tracker.onDiff((event) => added.push(...event.added.map((channel) => channel.id)));
+
+    await tracker.getChannelsForGame(game, { pages: 1, languages: [], logins: [], ids: ["900"] });
+    await waitFor(() => added.includes("900"));
+
+    expect(fetches).toBe(2);
+  });
+
   it("switches to polling fallback when reconnect budget is exhausted", async () => {
     const game = "FallbackGame";
     const tracker = new WsChannelTracker(makeTwitchService({ [game]: makeChannels(8, game) }), {
@@ -1,5 +1,13 @@
-import type { ChannelInfo, TwitchService } from "./service";
+import type { AllowlistedChannel, ChannelInfo, TwitchService } from "./service";
 import { WebSocket as NodeWebSocket, type RawData } from "ws";
+import { twitchEndpoints } from "../config";
+import { ProxyRoute } from "./proxy";
+import type { TrafficRecorder } from "./trafficRecorder";
+import {
+  channelDirectoryRequestKey,
+  normalizeChannelDirectoryRequest,
+  type ChannelDirectoryRequest,
+} from "../../shared/channelDirectory";
 
 export type ChannelTrackerMode = "polling" | "ws" | "hybrid";
 export type ChannelTrackerState = "idle" | "ok" | "error";
@@ -48,11 +56,13 @@ export type ChannelTrackerDiffListener = (event: ChannelTrackerDiffEvent) => voi
 
 export interface ChannelTracker {
   mode: ChannelTrackerMode;
-  getChannelsForGame(gameName: string): Promise<ChannelInfo[]>;
+  getChannelsForGame(gameName: string, request?: ChannelDirectoryRequest): Promise<ChannelInfo[]>;
   getStatus(): ChannelTrackerStatus;
   clearTrackedChannels(): void;
   onDiff(listener: ChannelTrackerDiffListener): () => void;
   dispose?(): void;
+  /** Re-dials open sockets, e.g. after the proxy changed. */
+  reconnect?(reason: string): void;
 }
 
 export class PollingChannelTracker implements ChannelTracker {
@@ -69,11 +79,14 @@ export class PollingChannelTracker implements ChannelTracker {
 
   constructor(private readonly twitch: TwitchService) {}
 
-  async getChannelsForGame(gameName: string): Promise<ChannelInfo[]> {
+  async getChannelsForGame(
+    gameName: string,
+    request: ChannelDirectoryRequest = normalizeChannelDirectoryRequest(null),
+  ): Promise<ChannelInfo[]> {
     this.requests += 1;
     this.lastRequestAt = Date.now();
     try {
-      const channels = await this.twitch.getChannelsForGame(gameName);
+      const channels = await this.twitch.getChannelsForGame(gameName, request);
       const prevChannels = this.gameChannels.get(gameName) ?? [];
       const nextChannels = cloneChannels(channels);
       this.gameChannels.set(gameName, nextChannels);
@@ -142,7 +155,6 @@ export class PollingChannelTracker implements ChannelTracker {
   }
 }
 
-const PUBSUB_URL = "wss://pubsub-edge.twitch.tv/v1";
 const TOPIC_PREFIX = "video-playback-by-id.";
 const WS_TOPICS_LIMIT = 50;
 const LISTEN_BATCH_SIZE = WS_TOPICS_LIMIT;
@@ -163,8 +175,13 @@ type WsTrackerOptions = {
   fallbackAfterReconnectAttempts?: number;
   fallbackCooldownMs?: number;
   offlineUnsubscribeGraceMs?: number;
+  trafficRecorder?: TrafficRecorder;
+  proxy?: ProxyRoute;
 };
 
+/** An allowlisted channel kept subscribed while offline; `login` is empty when only the id is known. */
+type AllowlistWatch = Pick<AllowlistedChannel, "id" | "login" | "displayName">;
+
 type WsShard = {
   id: number;
   ws: NodeWebSocket | null;
@@ -186,6 +203,7 @@ type PubSubEnvelope = {
 
 type PlaybackPayload = {
   type?: string;
+  server_time?: number;
   viewers?: number;
   viewer_count?: number;
   viewers_count?: number;
@@ -204,6 +222,7 @@ const sameChannelInfo = (left: ChannelInfo, right: ChannelInfo): boolean =>
   left.viewers === right.viewers &&
   left.language === right.language &&
   left.thumbnail === right.thumbnail &&
+  left.startedAt === right.startedAt &&
   left.game === right.game;
 
 const buildChannelListDiff = (
@@ -288,9 +307,14 @@ export class WsChannelTracker implements ChannelTracker {
   private channelShardById = new Map<string, number>();
   private gameChannels = new Map<string, ChannelInfo[]>();
   private gameRefreshedAt = new Map<string, number>();
+  private gameRequestKeys = new Map<string, string>();
+  /** Last directory request per game, to refetch it when an id-only channel goes live. */
+  private gameRequests = new Map<string, ChannelDirectoryRequest>();
   private gameChannelIds = new Map<string, Set<string>>();
   private channelDetails = new Map<string, ChannelInfo>();
   private channelToGames = new Map<string, Set<string>>();
+  private gameAllowlistWatches = new Map<string, Map<string, AllowlistWatch>>();
+  private allowlistLookups = new Set<string>();
   private offlineSinceByChannelId = new Map<string, number>();
   private offlinePruneTimers = new Map<string, NodeJS.Timeout>();
   private readonly diffListeners = new Set<ChannelTrackerDiffListener>();
@@ -305,13 +329,19 @@ export class WsChannelTracker implements ChannelTracker {
   private readonly offlineUnsubscribeGraceMs: number;
   private readonly shards: WsShard[];
   private lastTopicCapWarnAt: number | null = null;
+  private readonly trafficRecorder?: TrafficRecorder;
+  private readonly proxy: ProxyRoute;
+  private readonly stopProxyWatch: () => void;
 
   constructor(
     private readonly twitch: TwitchService,
     opts: WsTrackerOptions = {},
   ) {
     this.mode = opts.mode ?? "ws";
-    this.wsUrl = opts.wsUrl ?? PUBSUB_URL;
+    this.wsUrl = opts.wsUrl ?? twitchEndpoints.pubsub;
+    this.trafficRecorder = opts.trafficRecorder;
+    this.proxy = opts.proxy ?? new ProxyRoute();
+    this.stopProxyWatch = this.proxy.onChange(() => this.reconnect("Proxy changed"));
     this.pingIntervalMs = Math.max(30_000, opts.pingIntervalMs ?? 4 * 60_000);
     this.maxSockets = Math.min(MAX_WS_SOCKETS, Math.max(1, opts.maxSockets ?? MAX_WS_SOCKETS));
     const requestedMaxTrackedTopics = Math.max(
@@ -337,16 +367,25 @@ export class WsChannelTracker implements ChannelTracker {
     this.shards = Array.from({ length: this.maxSockets }, (_, idx) => this.createShard(idx));
   }
 
-  async getChannelsForGame(gameName: string): Promise<ChannelInfo[]> {
+  async getChannelsForGame(
+    gameName: string,
+    request: ChannelDirectoryRequest = normalizeChannelDirectoryRequest(null),
+  ): Promise<ChannelInfo[]> {
     this.requests += 1;
     const now = Date.now();
+    const requestKey = channelDirectoryRequestKey(request);
     this.lastRequestAt = now;
     this.maybeRestoreWs(now);
     const fallbackActive = this.isPollingFallbackActive(now);
     const cached = this.gameChannels.get(gameName);
     const refreshedAt = this.gameRefreshedAt.get(gameName) ?? 0;
     const refreshWindow = fallbackActive ? this.fallbackPollRefreshMs : this.refreshMs;
-    const hasFreshCache = cached !== undefined && now - refreshedAt < refreshWindow;
+    // A list fetched with other directory options (depth, languages,
+    // allowlisted logins) is still served on errors, but never counts as fresh.
+    const hasFreshCache =
+      cached !== undefined &&
+      now - refreshedAt < refreshWindow &&
+      this.gameRequestKeys.get(gameName) === requestKey;
     if (hasFreshCache) {
       this.state = "ok";
       this.lastSuccessAt = now;
@@ -356,11 +395,14 @@ export class WsChannelTracker implements ChannelTracker {
     }
     try {
       const prevChannels = this.gameChannels.get(gameName) ?? [];
-      const channels = await this.twitch.getChannelsForGame(gameName);
+      const { channels, allowlisted } = await this.twitch.getChannelDirectory(gameName, request);
+      this.gameRequestKeys.set(gameName, requestKey);
+      this.gameRequests.set(gameName, request);
       this.state = "ok";
       this.lastSuccessAt = Date.now();
       this.lastErrorMessage = undefined;
       this.replaceGameChannels(gameName, channels);
+      this.replaceAllowlistWatches(gameName, allowlisted, request.ids);
       const nextChannels = this.gameChannels.get(gameName) ?? [];
       this.emitDiff(gameName, "snapshot", "fetch", prevChannels, nextChannels);
       this.recomputeDesiredChannels();
@@ -447,9 +489,12 @@ export class WsChannelTracker implements ChannelTracker {
     this.offlineSinceByChannelId.clear();
     this.gameChannels.clear();
     this.gameRefreshedAt.clear();
+    this.gameRequestKeys.clear();
+    this.gameRequests.clear();
     this.gameChannelIds.clear();
     this.channelDetails.clear();
     this.channelToGames.clear();
+    this.gameAllowlistWatches.clear();
     this.desiredChannelIds.clear();
     this.desiredChannelIdsByShard.clear();
     this.channelShardById.clear();
@@ -463,8 +508,17 @@ export class WsChannelTracker implements ChannelTracker {
     };
   }
 
+  reconnect(reason: string) {
+    if (this.disposed) return;
+    for (const shard of this.shards) {
+      this.disconnectShard(shard, reason, true);
+    }
+    this.syncSubscriptions();
+  }
+
   dispose() {
     this.disposed = true;
+    this.stopProxyWatch();
     if (this.fallbackTimer) {
       clearTimeout(this.fallbackTimer);
       this.fallbackTimer = null;
@@ -503,6 +557,11 @@ export class WsChannelTracker implements ChannelTracker {
       if (!channel.id) continue;
       nextIds.add(channel.id);
       this.clearOfflineMarker(channel.id);
+      // Directory snapshots carry no start time; keep the one seen on stream-up.
+      const prior = this.channelDetails.get(channel.id);
+      if (!channel.startedAt && prior?.startedAt) {
+        channel.startedAt = prior.startedAt;
+      }
       this.channelDetails.set(channel.id, cloneChannel(channel));
       const games = this.channelToGames.get(channel.id) ?? new Set<string>();
       games.add(gameName);
@@ -523,6 +582,36 @@ export class WsChannelTracker implements ChannelTracker {
     this.gameRefreshedAt.set(gameName, Date.now());
   }
 
+  /**
+   * Allowlisted channels stay subscribed while offline so their stream-up is
+   * seen right away; channels only known by id are watched as well.
+   */
+  private replaceAllowlistWatches(
+    gameName: string,
+    allowlisted: AllowlistedChannel[],
+    channelIds: string[],
+  ) {
+    const watches = new Map<string, AllowlistWatch>();
+    for (const id of channelIds) {
+      watches.set(id, { id, login: "", displayName: id });
+    }
+    for (const entry of allowlisted) {
+      watches.set(entry.id, { id: entry.id, login: entry.login, displayName: entry.displayName });
+    }
+    if (watches.size > 0) {
+      this.gameAllowlistWatches.set(gameName, watches);
+    } else {
+      this.gameAllowlistWatches.delete(gameName);
+    }
+  }
+
+  private isAllowlistWatched(channelId: string): boolean {
+    for (const watches of this.gameAllowlistWatches.values()) {
+      if (watches.has(channelId)) return true;
+    }
+    return false;
+  }
+
   private isChannelSubscribed(channelId: string): boolean {
     for (const shard of this.shards) {
       if (shard.subscribedChannelIds.has(channelId)) return true;
@@ -537,6 +626,11 @@ export class WsChannelTracker implements ChannelTracker {
         allChannelIds.add(channelId);
       }
     }
+    for (const watches of this.gameAllowlistWatches.values()) {
+      for (const channelId of watches.keys()) {
+        allChannelIds.add(channelId);
+      }
+    }
 
     const ranked = Array.from(allChannelIds).map((channelId) => {
       const games = this.channelToGames.get(channelId);
@@ -548,6 +642,7 @@ export class WsChannelTracker implements ChannelTracker {
       }
       return {
         channelId,
+        allowlisted: this.isAllowlistWatched(channelId),
         gamePriority,
         offline: this.offlineSinceByChannelId.has(channelId),
         subscribed: this.isChannelSubscribed(channelId),
@@ -557,6 +652,9 @@ export class WsChannelTracker implements ChannelTracker {
     });
 
     ranked.sort((left, right) => {
+      if (left.allowlisted !== right.allowlisted) {
+        return left.allowlisted ? -1 : 1;
+      }
       if (left.gamePriority !== right.gamePriority) {
         return right.gamePriority - left.gamePriority;
       }
@@ -767,7 +865,7 @@ export class WsChannelTracker implements ChannelTracker {
     shard.connectionState = "connecting";
     let ws: NodeWebSocket;
     try {
-      ws = new NodeWebSocket(this.wsUrl);
+      ws = new NodeWebSocket(this.wsUrl, this.proxy.wsOptions());
     } catch (err) {
       this.markWsError(err);
       this.scheduleShardReconnect(shard);
@@ -864,6 +962,7 @@ export class WsChannelTracker implements ChannelTracker {
     if (!this.isShardOpen(shard) || !shard.ws) return;
     try {
       shard.ws.send(JSON.stringify(payload));
+      this.trafficRecorder?.recordPubSub("tracker", "send", payload);
     } catch (err) {
       this.markWsError(err);
     }
@@ -887,6 +986,7 @@ export class WsChannelTracker implements ChannelTracker {
   private handleWsMessage(shard: WsShard, raw: unknown) {
     const text = toMessageText(raw);
     if (!text) return;
+    this.trafficRecorder?.recordPubSub("tracker", "receive", text);
     let envelope: PubSubEnvelope;
     try {
       envelope = JSON.parse(text) as PubSubEnvelope;
@@ -932,13 +1032,20 @@ export class WsChannelTracker implements ChannelTracker {
   }
 
   private applyPlaybackUpdate(channelId: string, payload: PlaybackPayload) {
-    const games = this.channelToGames.get(channelId);
-    if (!games?.size) return;
     const now = Date.now();
+    const eventType = String(payload.type ?? "").toLowerCase();
+    const games = this.channelToGames.get(channelId);
+    if (!games?.size) {
+      if (eventType === "stream-up") {
+        this.handleAllowlistedStreamUp(channelId, this.readStartedAt(payload, now));
+      }
+      return;
+    }
     const gameList = Array.from(games);
 
-    const eventType = String(payload.type ?? "").toLowerCase();
     if (eventType === "stream-down") {
+      const known = this.channelDetails.get(channelId);
+      if (known) delete known.startedAt;
       for (const game of gameList) {
         const current = this.gameChannels.get(game);
         if (!current?.length) continue;
@@ -966,6 +1073,7 @@ export class WsChannelTracker implements ChannelTracker {
       this.clearOfflineMarker(channelId);
       const known = this.channelDetails.get(channelId);
       if (!known) return;
+      known.startedAt = this.readStartedAt(payload, now);
       for (const game of gameList) {
         const current = this.gameChannels.get(game) ?? [];
         if (current.some((channel) => channel.id === channelId)) continue;
@@ -1026,6 +1134,82 @@ export class WsChannelTracker implements ChannelTracker {
     this.lastErrorMessage = undefined;
   }
 
+  /**
+   * An allowlisted channel the tracker holds no details for went live. Its
+   * stream info is looked up to confirm the game before it is merged; a
+   * channel known only by id cannot be looked up, so its game is refetched.
+   */
+  private handleAllowlistedStreamUp(channelId: string, startedAt: string) {
+    for (const [game, watches] of this.gameAllowlistWatches) {
+      const watch = watches.get(channelId);
+      if (!watch) continue;
+      if (watch.login) {
+        void this.mergeAllowlistedChannel(game, watch, startedAt);
+      } else {
+        void this.refreshAllowlistedGame(game);
+      }
+    }
+  }
+
+  /** Refetches a game right away; the snapshot diff carries the channel that went live. */
+  private async refreshAllowlistedGame(game: string) {
+    const request = this.gameRequests.get(game);
+    const lookupKey = `${game}|refresh`;
+    if (!request || this.allowlistLookups.has(lookupKey)) return;
+    this.allowlistLookups.add(lookupKey);
+    this.gameRequestKeys.delete(game);
+    try {
+      if (!this.disposed) await this.getChannelsForGame(game, request);
+    } catch (err) {
+      console.warn(`[DropPilot] Allowlisted game refresh failed for ${game}:`, err);
+    } finally {
+      this.allowlistLookups.delete(lookupKey);
+    }
+  }
+
+  private async mergeAllowlistedChannel(game: string, watch: AllowlistWatch, startedAt: string) {
+    const lookupKey = `${game}|${watch.id}`;
+    if (this.allowlistLookups.has(lookupKey)) return;
+    this.allowlistLookups.add(lookupKey);
+    try {
+      const [entry] = await this.twitch.lookupAllowlistedChannels([watch.login], game);
+      const live = entry?.channel;
+      if (this.disposed || !live || !this.gameAllowlistWatches.get(game)?.has(watch.id)) return;
+      const current = this.gameChannels.get(game) ?? [];
+      if (current.some((channel) => channel.id === live.id)) return;
+      const channel: ChannelInfo = { ...live, startedAt };
+      this.clearOfflineMarker(channel.id);
+      this.channelDetails.set(channel.id, cloneChannel(channel));
+      const games = this.channelToGames.get(channel.id) ?? new Set<string>();
+      games.add(game);
+      this.channelToGames.set(channel.id, games);
+      const ids = this.gameChannelIds.get(game) ?? new Set<string>();
+      ids.add(channel.id);
+      this.gameChannelIds.set(game, ids);
+      this.gameChannels.set(game, [...current, channel]);
+      this.emitPatch({
+        game,
+        at: Date.now(),
+        source: "ws",
+        reason: "stream-up",
+        added: [cloneChannel(channel)],
+        removedIds: [],
+        updated: [],
+      });
+    } catch (err) {
+      console.warn(`[DropPilot] Allowlisted channel lookup failed for ${watch.login}:`, err);
+    } finally {
+      this.allowlistLookups.delete(lookupKey);
+    }
+  }
+
+  private readStartedAt(payload: PlaybackPayload, now: number): string {
+    const serverTime = Number(payload.server_time);
+    return new Date(
+      Number.isFinite(serverTime) && serverTime > 0 ? serverTime * 1000 : now,
+    ).toISOString();
+  }
+
   private readViewerCount(payload: PlaybackPayload): number | null {
     const candidates = [
       payload.viewers,
@@ -1170,9 +1354,14 @@ export function normalizeTrackerMode(input: string | undefined | null): ChannelT
 export function createChannelTracker(
   twitch: TwitchService,
   mode: ChannelTrackerMode,
+  opts: { trafficRecorder?: TrafficRecorder; proxy?: ProxyRoute } = {},
 ): ChannelTracker {
   if (mode === "ws" || mode === "hybrid") {
-    return new WsChannelTracker(twitch, { mode });
+    return new WsChannelTracker(twitch, {
+      mode,
+      trafficRecorder: opts.trafficRecorder,
+      proxy: opts.proxy,
+    });
   }
   return new PollingChannelTracker(twitch);
 }
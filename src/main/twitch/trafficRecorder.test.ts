@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseTrafficFixture,
+  redactTrafficValue,
+  REDACTED,
+  TrafficRecorder,
+  type TrafficEntry,
+} from "./trafficRecorder";
+
+const collect = () => {
+  const lines: string[] = [];
+  let at = 1_000;
+  const recorder = new TrafficRecorder(
+    (line) => lines.push(line),
+    () => at++,
+  );
+  return { recorder, entries: () => lines.map((line) => JSON.parse(line) as TrafficEntry) };
+};
+
+describe("redactTrafficValue", () => {
+  it("masks secret keys and inline credentials but keeps ids", () => {
+    expect(
+      redactTrafficValue({
+        data: { topics: ["user-drop-events.42"], auth_token: "abc" },
+        headers: { Authorization: "OAuth abc", Cookie: "auth-token=abc; device_id=d1" },
+        note: "sent Bearer xyz and auth-token=abc; unique_id=u1",
+        empty: { refreshToken: "" },
+      }),
+    ).toEqual({
+      data: { topics: ["user-drop-events.42"], auth_token: REDACTED },
+      headers: { Authorization: REDACTED, Cookie: REDACTED },
+      note: `sent Bearer ${REDACTED} and auth-token=${REDACTED}; unique_id=u1`,
+      empty: { refreshToken: "" },
+    });
+  });
+});
+
+describe("TrafficRecorder", () => {
+  it("splits GQL batches into one entry per operation", () => {
+    const { recorder, entries } = collect();
+    recorder.recordGql([{ operationName: "A" }, { operationName: "B" }], 200, [
+      { data: { a: 1 } },
+      { data: { b: 2 } },
+    ]);
+    recorder.recordGql({ operationName: "C" }, 500, "boom");
+
+    const [meta, ...rest] = entries();
+    expect(meta).toEqual({ kind: "meta", v: 1, startedAt: 1_000 });
+    expect(rest).toEqual([
+      {
+        kind: "gql",
+        at: 1_001,
+        status: 200,
+        request: { operationName: "A" },
+        response: { data: { a: 1 } },
+      },
+      {
+        kind: "gql",
+        at: 1_001,
+        status: 200,
+        request: { operationName: "B" },
+        response: { data: { b: 2 } },
+      },
+      { kind: "gql", at: 1_002, status: 500, request: { operationName: "C" }, response: "boom" },
+    ]);
+  });
+
+  it("stores PubSub frames structured and redacted", () => {
+    const { recorder, entries } = collect();
+    recorder.recordPubSub("user", "send", { type: "LISTEN", data: { auth_token: "secret" } });
+    recorder.recordPubSub("tracker", "receive", '{"type":"PONG"}');
+    recorder.recordPubSub("tracker", "receive", "not json");
+
+    expect(entries().slice(1)).toEqual([
+      {
+        kind: "pubsub",
+        at: 1_001,
+        source: "user",
+        direction: "send",
+        frame: { type: "LISTEN", data: { auth_token: REDACTED } },
+      },
+      {
+        kind: "pubsub",
+        at: 1_002,
+        source: "tracker",
+        direction: "receive",
+        frame: { type: "PONG" },
+      },
+      { kind: "pubsub", at: 1_003, source: "tracker", direction: "receive", frame: "not json" },
+    ]);
+  });
+
+  it("survives a failing sink", () => {
+    const recorder = new TrafficRecorder(() => {
+      throw new Error("disk full");
+    });
+    expect(() => recorder.recordValidate(200, {})).not.toThrow();
+  });
+});
+
+describe("parseTrafficFixture", () => {
+  it("skips blank and torn lines", () => {
+    const text = ['{"kind":"meta","v":1,"startedAt":5}', "", '{"kind":"gql","at"', "[1]"].join(
+      "\n",
+    );
+    expect(parseTrafficFixture(text)).toEqual([{ kind: "meta", v: 1, startedAt: 5 }]);
+  });
+});
@@ -0,0 +1,129 @@
+import { appendFileSync } from "node:fs";
+
+export type PubSubTrafficSource = "user" | "tracker";
+export type PubSubTrafficDirection = "send" | "receive";
+
+/**
+ * One line of a traffic fixture. GQL batches are split into one entry per
+ * operation so a replay can answer them however the app happens to batch.
+ */
+export type TrafficEntry =
+  | { kind: "meta"; v: 1; startedAt: number }
+  | { kind: "gql"; at: number; status: number; request: unknown; response: unknown }
+  | { kind: "validate"; at: number; status: number; response: unknown }
+  | {
+      kind: "pubsub";
+      at: number;
+      source: PubSubTrafficSource;
+      direction: PubSubTrafficDirection;
+      frame: unknown;
+    };
+
+export type TrafficSink = (line: string) => void;
+
+export const REDACTED = "<redacted>";
+
+const SECRET_KEY_RE = /token|authorization|cookie|secret|password|integrity|email|device_code/i;
+const SECRET_VALUE_RE = /\b(OAuth|Bearer)\s+[^\s"]+/gi;
+const COOKIE_PAIR_RE = /\b(auth-token|persistent|twilight-user|api_token)=[^;\s"]+/gi;
+
+const redactString = (value: string) =>
+  value.replace(SECRET_VALUE_RE, `$1 ${REDACTED}`).replace(COOKIE_PAIR_RE, `$1=${REDACTED}`);
+
+/**
+ * Deep copy with credentials removed: values under secret-looking keys are
+ * replaced and inline `OAuth …` / auth cookie fragments are masked. Channel
+ * and user ids are kept on purpose — replay needs them to match topics.
+ */
+export function redactTrafficValue(value: unknown): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (Array.isArray(value)) return value.map(redactTrafficValue);
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    out[key] =
+      SECRET_KEY_RE.test(key) && entry !== null && entry !== undefined && entry !== ""
+        ? REDACTED
+        : redactTrafficValue(entry);
+  }
+  return out;
+}
+
+/** PubSub frames arrive as text; keep them structured in the fixture when possible. */
+const parseFrame = (frame: unknown): unknown => {
+  if (typeof frame !== "string") return frame;
+  try {
+    return JSON.parse(frame) as unknown;
+  } catch {
+    return frame;
+  }
+};
+
+/**
+ * Writes redacted GQL and PubSub traffic as JSONL. Recording must never
+ * break the app, so sink failures are logged once and then swallowed.
+ */
+export class TrafficRecorder {
+  private sinkFailed = false;
+
+  constructor(
+    private readonly sink: TrafficSink,
+    private readonly now: () => number = () => Date.now(),
+  ) {
+    this.write({ kind: "meta", v: 1, startedAt: this.now() });
+  }
+
+  recordGql(request: unknown, status: number, response: unknown) {
+    const at = this.now();
+    if (Array.isArray(request)) {
+      request.forEach((op, index) => {
+        const entry = Array.isArray(response) ? response[index] : response;
+        this.write({ kind: "gql", at, status, request: op, response: entry ?? null });
+      });
+      return;
+    }
+    this.write({ kind: "gql", at, status, request, response });
+  }
+
+  recordValidate(status: number, response: unknown) {
+    this.write({ kind: "validate", at: this.now(), status, response });
+  }
+
+  recordPubSub(source: PubSubTrafficSource, direction: PubSubTrafficDirection, frame: unknown) {
+    this.write({ kind: "pubsub", at: this.now(), source, direction, frame: parseFrame(frame) });
+  }
+
+  private write(entry: TrafficEntry) {
+    try {
+      this.sink(JSON.stringify(redactTrafficValue(entry)));
+    } catch (err) {
+      if (this.sinkFailed) return;
+      this.sinkFailed = true;
+      console.warn("traffic-recorder: write failed, further errors are suppressed", err);
+    }
+  }
+}
+
+/** Appends synchronously so a crash still leaves every frame up to it on disk. */
+export const createFileTrafficSink =
+  (file: string): TrafficSink =>
+  (line) => {
+    appendFileSync(file, `${line}\n`, "utf-8");
+  };
+
+/** Parses a fixture, skipping blank or malformed lines (e.g. a torn last write). */
+export function parseTrafficFixture(text: string): TrafficEntry[] {
+  const entries: TrafficEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as TrafficEntry;
+      if (entry && typeof entry === "object" && typeof entry.kind === "string") {
+        entries.push(entry);
+      }
+    } catch {
+      // ignore torn lines
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import type { TrafficEntry } from "./trafficRecorder";
+import {
+  startTrafficReplayServer,
+  TrafficReplayIndex,
+  type TrafficReplayServer,
+} from "./trafficReplay";
+
+const gql = (
+  operationName: string,
+  variables: Record<string, unknown>,
+  response: unknown,
+  status = 200,
+): TrafficEntry => ({
+  kind: "gql",
+  at: 0,
+  status,
+  request: { operationName, variables },
+  response,
+});
+
+const fixture: TrafficEntry[] = [
+  { kind: "meta", v: 1, startedAt: 1_000 },
+  gql("Inventory", { fetchRewardCampaigns: true }, { data: { n: 1 } }),
+  gql("Inventory", { fetchRewardCampaigns: true }, { data: { n: 2 } }),
+  gql("DirectoryPage_Game", { slug: "a" }, { data: { slug: "a" } }),
+  { kind: "validate", at: 1_000, status: 200, response: { user_id: "42", login: "someone" } },
+  {
+    kind: "pubsub",
+    at: 1_010,
+    source: "user",
+    direction: "receive",
+    frame: { type: "MESSAGE", data: { topic: "user-drop-events.42", message: "{}" } },
+  },
+  {
+    kind: "pubsub",
+    at: 1_020,
+    source: "user",
+    direction: "receive",
+    frame: { type: "PONG" },
+  },
+];
+
+describe("TrafficReplayIndex", () => {
+  it("replays answers in order, repeats the last and falls back by operation name", () => {
+    const index = new TrafficReplayIndex(fixture);
+    const inventory = { operationName: "Inventory", variables: { fetchRewardCampaigns: true } };
+    expect(index.answerGql(inventory).body).toEqual({ data: { n: 1 } });
+    expect(index.answerGql(inventory).body).toEqual({ data: { n: 2 } });
+    expect(index.answerGql(inventory).body).toEqual({ data: { n: 2 } });
+    expect(
+      index.answerGql({ operationName: "DirectoryPage_Game", variables: { slug: "b" } }).body,
+    ).toEqual({ data: { slug: "a" } });
+    expect(index.answerGql({ operationName: "Unknown" }).body).toMatchObject({
+      errors: [{ message: "replay: no recording for Unknown" }],
+    });
+  });
+
+  it("keeps only topic messages, timed from the recording start", () => {
+    expect(new TrafficReplayIndex(fixture).pubsubFrames()).toEqual([
+      {
+        offsetMs: 10,
+        topic: "user-drop-events.42",
+        frame: { type: "MESSAGE", data: { topic: "user-drop-events.42", message: "{}" } },
+      },
+    ]);
+  });
+});
+
+describe("startTrafficReplayServer", () => {
+  let server: TrafficReplayServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("answers batched GQL and validate over HTTP", async () => {
+    server = await startTrafficReplayServer(fixture);
+    const res = await fetch(server.endpoints.gql!, {
+      method: "POST",
+      body: JSON.stringify([
+        { operationName: "DirectoryPage_Game", variables: { slug: "a" } },
+        { operationName: "Inventory", variables: { fetchRewardCampaigns: true } },
+      ]),
+    });
+    expect(await res.json()).toEqual([{ data: { slug: "a" } }, { data: { n: 1 } }]);
+
+    const validate = await fetch(server.endpoints.validate!);
+    expect(await validate.json()).toEqual({ user_id: "42", login: "someone" });
+  });
+
+  it("delivers recorded frames to sockets listening on their topic", async () => {
+    server = await startTrafficReplayServer(fixture, { speed: 10 });
+    const socket = new WebSocket(server.endpoints.pubsub!);
+    const received: Array<{ type?: string }> = [];
+    const done = new Promise<void>((resolve) => {
+      socket.on("message", (raw) => {
+        received.push(JSON.parse(String(raw)) as { type?: string });
+        if (received.some((frame) => frame.type === "MESSAGE")) resolve();
+      });
+    });
+    socket.on("open", () => {
+      socket.send(
+        JSON.stringify({ type: "LISTEN", nonce: "n1", data: { topics: ["user-drop-events.42"] } }),
+      );
+    });
+    await done;
+    socket.close();
+    expect(received[0]).toEqual({ type: "RESPONSE", nonce: "n1", error: "" });
+    expect(received.map((frame) => frame.type)).toContain("MESSAGE");
+  });
+});
@@ -0,0 +1,201 @@
+import { createServer } from "node:http";
+import { WebSocketServer } from "ws";
+import type { TwitchEndpoints } from "../config";
+import { attachPubSubStandIn, listenLocal, readRequestBody, sendJson } from "./standInServer";
+import type { TrafficEntry } from "./trafficRecorder";
+
+type RecordedAnswer = { status: number; body: unknown };
+
+type QueuedAnswers = { answers: RecordedAnswer[]; next: number };
+
+export type ReplayPubSubFrame = { offsetMs: number; topic: string; frame: unknown };
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+const operationNameOf = (op: unknown): string =>
+  op &&
+  typeof op === "object" &&
+  typeof (op as { operationName?: unknown }).operationName === "string"
+    ? (op as { operationName: string }).operationName
+    : "<anonymous>";
+
+const operationKey = (op: unknown) =>
+  `${operationNameOf(op)}|${stableStringify((op as { variables?: unknown } | null)?.variables ?? {})}`;
+
+/** Serves recorded answers in order and keeps repeating the last one once exhausted. */
+const take = (queue: QueuedAnswers | undefined): RecordedAnswer | null => {
+  if (!queue || queue.answers.length === 0) return null;
+  const answer = queue.answers[Math.min(queue.next, queue.answers.length - 1)];
+  queue.next += 1;
+  return answer;
+};
+
+/**
+ * Answers requests from a recorded fixture. GQL operations are matched by
+ * operation name + variables first and by operation name alone second, so a
+ * replay still works when the app asks for a slightly different page or
+ * channel than it did while recording.
+ */
+export class TrafficReplayIndex {
+  private readonly byKey = new Map<string, QueuedAnswers>();
+  private readonly byOperation = new Map<string, QueuedAnswers>();
+  private readonly validateAnswers: QueuedAnswers = { answers: [], next: 0 };
+  private readonly frames: ReplayPubSubFrame[] = [];
+
+  constructor(entries: TrafficEntry[]) {
+    const meta = entries.find((entry) => entry.kind === "meta");
+    const firstAt = entries.find((entry) => entry.kind !== "meta") as { at?: number } | undefined;
+    const startedAt = meta?.kind === "meta" ? meta.startedAt : (firstAt?.at ?? 0);
+    for (const entry of entries) {
+      if (entry.kind === "gql") {
+        const answer = { status: entry.status, body: entry.response };
+        const push = (map: Map<string, QueuedAnswers>, key: string) => {
+          const queue = map.get(key) ?? { answers: [], next: 0 };
+          queue.answers.push(answer);
+          map.set(key, queue);
+        };
+        push(this.byKey, operationKey(entry.request));
+        push(this.byOperation, operationNameOf(entry.request));
+      } else if (entry.kind === "validate") {
+        this.validateAnswers.answers.push({ status: entry.status, body: entry.response });
+      } else if (entry.kind === "pubsub" && entry.direction === "receive") {
+        const frame = entry.frame as { type?: unknown; data?: { topic?: unknown } } | null;
+        if (String(frame?.type ?? "").toUpperCase() !== "MESSAGE") continue;
+        const topic = frame?.data?.topic;
+        if (typeof topic !== "string") continue;
+        this.frames.push({ offsetMs: Math.max(0, entry.at - startedAt), topic, frame });
+      }
+    }
+  }
+
+  answerGql(op: unknown): RecordedAnswer {
+    const answer =
+      take(this.byKey.get(operationKey(op))) ?? take(this.byOperation.get(operationNameOf(op)));
+    if (answer) return answer;
+    return {
+      status: 200,
+      body: { errors: [{ message: `replay: no recording for ${operationNameOf(op)}` }] },
+    };
+  }
+
+  answerValidate(): RecordedAnswer {
+    return (
+      take(this.validateAnswers) ?? {
+        status: 200,
+        body: { client_id: "replay", login: "replay", user_id: "0", scopes: [], expires_in: 0 },
+      }
+    );
+  }
+
+  pubsubFrames(): ReplayPubSubFrame[] {
+    return this.frames.slice();
+  }
+}
+
+export type TrafficReplayServer = {
+  endpoints: Partial<TwitchEndpoints>;
+  close: () => Promise<void>;
+};
+
+export type TrafficReplayOptions = {
+  host?: string;
+  /** 2 replays PubSub frames twice as fast as recorded. */
+  speed?: number;
+};
+
+/**
+ * Local stand-in for gql.twitch.tv, the validate endpoint and pubsub-edge,
+ * fed from a recorded fixture. Pair with `overrideTwitchEndpoints` so the
+ * unmodified main process runs against it offline.
+ */
+export async function startTrafficReplayServer(
+  entries: TrafficEntry[],
+  opts: TrafficReplayOptions = {},
+): Promise<TrafficReplayServer> {
+  const host = opts.host ?? "127.0.0.1";
+  const speed = Math.max(0.01, opts.speed ?? 1);
+  const index = new TrafficReplayIndex(entries);
+
+  const http = createServer((req, res) => {
+    void (async () => {
+      if (req.url?.startsWith("/oauth2/validate")) {
+        const answer = index.answerValidate();
+        sendJson(res, answer.status, answer.body);
+        return;
+      }
+      if (req.method !== "POST" || !req.url?.startsWith("/gql")) {
+        sendJson(res, 404, { error: "replay: unknown endpoint" });
+        return;
+      }
+      let body: unknown;
+      try {
+        body = JSON.parse(await readRequestBody(req));
+      } catch {
+        sendJson(res, 400, { error: "replay: invalid JSON" });
+        return;
+      }
+      const ops = Array.isArray(body) ? body : [body];
+      const answers = ops.map((op) => index.answerGql(op));
+      const failed = answers.find((answer) => answer.status !== 200);
+      if (failed) {
+        sendJson(res, failed.status, failed.body);
+        return;
+      }
+      const payload = answers.map((answer) => answer.body);
+      sendJson(res, 200, Array.isArray(body) ? payload : payload[0]);
+    })().catch((err) => {
+      sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+  const httpPort = await listenLocal(http, host);
+
+  const wss = new WebSocketServer({ host, port: 0 });
+  await new Promise<void>((resolve) => wss.once("listening", () => resolve()));
+  const wsAddress = wss.address();
+  const wsPort = wsAddress && typeof wsAddress === "object" ? wsAddress.port : 0;
+
+  // Frames whose time came before anyone listened; flushed on the next LISTEN.
+  const pending = new Map<string, unknown[]>();
+  const pubsub = attachPubSubStandIn(wss, {
+    onListen: (topic) => {
+      const queued = pending.get(topic);
+      if (!queued) return;
+      pending.delete(topic);
+      for (const frame of queued) pubsub.publishFrame(topic, frame);
+    },
+  });
+  const deliver = (topic: string, frame: unknown) => {
+    if (!pubsub.publishFrame(topic, frame)) {
+      pending.set(topic, [...(pending.get(topic) ?? []), frame]);
+    }
+  };
+
+  const timers = index
+    .pubsubFrames()
+    .map(({ offsetMs, topic, frame }) =>
+      setTimeout(() => deliver(topic, frame), Math.round(offsetMs / speed)),
+    );
+
+  return {
+    endpoints: {
+      gql: `http://${host}:${httpPort}/gql`,
+      validate: `http://${host}:${httpPort}/oauth2/validate`,
+      pubsub: `ws://${host}:${wsPort}`,
+    },
+    close: async () => {
+      for (const timer of timers) clearTimeout(timer);
+      pubsub.close();
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+      await new Promise<void>((resolve) => http.close(() => resolve()));
+    },
+  };
+}
@@ -1,7 +1,9 @@
 import type { SessionData } from "../core/storage";
 import { WebSocket as NodeWebSocket, type RawData } from "ws";
+import { twitchEndpoints } from "../config";
+import { ProxyRoute } from "./proxy";
+import type { TrafficRecorder } from "./trafficRecorder";
 
-const PUBSUB_URL = "wss://pubsub-edge.twitch.tv/v1";
 const DROPS_TOPIC_PREFIX = "user-drop-events.";
 const NOTIFICATIONS_TOPIC_PREFIX = "onsite-notifications.";
 const DEFAULT_NOTIFICATION_TYPES = new Set<string>([
@@ -68,6 +70,10 @@ type UserPubSubOptions = {
    * builds and only available in the dev terminal otherwise).
    */
   onLog?: (level: "log" | "warn", message: string, data?: unknown) => void;
+  /** Receives every frame sent and received, for traffic fixtures. */
+  trafficRecorder?: TrafficRecorder;
+  /** Proxy for the socket and the validate request; changes re-dial the socket. */
+  proxy?: ProxyRoute;
 };
 
 const toMessageText = (raw: unknown): string => {
@@ -212,18 +218,24 @@ export class UserPubSub {
   private readonly authSyncIntervalMs: number;
   private readonly notificationTypes: Set<string>;
   private onLog?: UserPubSubOptions["onLog"];
+  private readonly trafficRecorder?: TrafficRecorder;
+  private readonly proxy: ProxyRoute;
+  private readonly stopProxyWatch: () => void;
 
   constructor(
     private readonly sessionProvider: () => Promise<SessionData | null>,
     opts: UserPubSubOptions = {},
   ) {
-    this.wsUrl = opts.wsUrl ?? PUBSUB_URL;
+    this.wsUrl = opts.wsUrl ?? twitchEndpoints.pubsub;
     this.reconnectMinMs = Math.max(1_000, opts.reconnectMinMs ?? 1_500);
     this.reconnectMaxMs = Math.max(this.reconnectMinMs, opts.reconnectMaxMs ?? 60_000);
     this.pingIntervalMs = Math.max(30_000, opts.pingIntervalMs ?? 4 * 60_000);
     this.authSyncIntervalMs = Math.max(5_000, opts.authSyncIntervalMs ?? 20_000);
     this.notificationTypes = opts.notificationTypes ?? DEFAULT_NOTIFICATION_TYPES;
     this.onLog = opts.onLog;
+    this.trafficRecorder = opts.trafficRecorder;
+    this.proxy = opts.proxy ?? new ProxyRoute();
+    this.stopProxyWatch = this.proxy.onChange(() => this.reconnect("Proxy changed"));
   }
 
   /**
@@ -262,9 +274,20 @@ export class UserPubSub {
   dispose() {
     this.disposed = true;
     this.stop();
+    this.stopProxyWatch();
     this.listeners.clear();
   }
 
+  /** Drops the socket and dials again, keeping the resolved auth context. */
+  reconnect(reason: string) {
+    if (this.disposed) return;
+    this.clearReconnectTimer();
+    this.disconnect(reason, true);
+    if (this.running) {
+      void this.ensureConnection();
+    }
+  }
+
   notifySessionChanged() {
     if (this.disposed) return;
     this.currentAccessToken = null;
@@ -420,7 +443,7 @@ export class UserPubSub {
     this.currentUserId = auth.userId;
     let ws: NodeWebSocket;
     try {
-      ws = new NodeWebSocket(this.wsUrl);
+      ws = new NodeWebSocket(this.wsUrl, this.proxy.wsOptions());
     } catch (err) {
       this.logWarn("ensureConnection: ws constructor threw", err);
       this.markError(err);
@@ -528,6 +551,7 @@ export class UserPubSub {
     if (!this.isOpen() || !this.ws) return;
     try {
       this.ws.send(JSON.stringify(payload));
+      this.trafficRecorder?.recordPubSub("user", "send", payload);
     } catch (err) {
       this.markError(err);
     }
@@ -550,6 +574,7 @@ export class UserPubSub {
   private handleMessage(raw: unknown) {
     const text = toMessageText(raw);
     if (!text) return;
+    this.trafficRecorder?.recordPubSub("user", "receive", text);
     let envelope: PubSubEnvelope;
     try {
       envelope = JSON.parse(text) as PubSubEnvelope;
@@ -639,7 +664,7 @@ export class UserPubSub {
     }
     let res: Response;
     try {
-      res = await fetch("https://id.twitch.tv/oauth2/validate", {
+      res = await this.proxy.fetch(twitchEndpoints.validate, {
         headers: {
           Authorization: `OAuth ${accessToken}`,
         },
@@ -1,11 +1,13 @@
 declare module "ws" {
+  import type { Agent, Server } from "node:http";
+
   export type RawData = string | ArrayBuffer | ArrayBufferView | Uint8Array | Uint8Array[];
 
   export class WebSocket {
     static readonly OPEN: number;
     readyState: number;
 
-    constructor(url: string);
+    constructor(url: string, options?: { agent?: Agent });
 
     on(event: string, listener: (...args: unknown[]) => void): this;
     send(data: string): void;
@@ -13,9 +15,10 @@ declare module "ws" {
   }
 
   export class WebSocketServer {
-    constructor(options?: { host?: string; port?: number });
+    constructor(options?: { host?: string; port?: number; server?: Server });
 
     once(event: "listening", listener: () => void): this;
+    on(event: "connection", listener: (socket: WebSocket) => void): this;
     address(): string | { port: number } | null;
     close(callback?: (err?: Error) => void): void;
   }
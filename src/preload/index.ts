@@ -1,17 +1,36 @@
 import type { Language } from "../renderer/shared/i18n";
 import { contextBridge, ipcRenderer, shell } from "electron";
 import type { UpdateChannel } from "../shared/updateChannels";
+import type { PriorityRule } from "../shared/priorityRules";
+import type { PriorityProfile } from "../shared/priorityProfiles";
+import type { ChannelScoringSettings } from "../shared/channelScoring";
+import type { ChannelReliabilityEvent } from "../shared/channelReliability";
+import type { ClaimLedgerEntry } from "../shared/claimLedger";
+import type { ClaimBatchReport } from "../shared/claimBatch";
+import type { ClaimQueueRequest, ClaimQueueState } from "../shared/claimQueue";
+import type { FarmSchedule } from "../shared/farmSchedule";
 
 type SettingsPayload = {
-  priorityGames?: string[];
+  priorityGames?: PriorityRule[];
   excludeGames?: string[];
   obeyPriority?: boolean;
+  priorityStrategy?: string;
+  priorityProfiles?: PriorityProfile[];
+  activePriorityProfileId?: string | null;
   language?: Language;
   autoStart?: boolean;
   autoClaim?: boolean;
   autoSelect?: boolean;
   autoSwitch?: boolean;
   warmupEnabled?: boolean;
+  watchSlots?: number;
+  channelScoring?: ChannelScoringSettings;
+  favoriteChannels?: string[];
+  blockedChannels?: string[];
+  channelDirectoryPages?: number;
+  channelLanguageFilter?: string[];
+  farmSchedule?: FarmSchedule;
+  farmPauseUntil?: number | null;
   updateChannel?: UpdateChannel;
   betaUpdates?: boolean;
   refreshMinMs?: number;
@@ -31,6 +50,7 @@ type SettingsPayload = {
   accent?: string | null;
   fontPair?: string;
   uiPrefsMigrated?: boolean;
+  proxyUrl?: string;
 };
 
 type ChannelsDiffPayload = {
@@ -85,12 +105,62 @@ type DebugUserPubSubEmitPayload = {
   notificationType?: string;
 };
 
+type AccountsStatePayload = {
+  activeAccountId: string | null;
+  accounts: Array<{
+    id: string;
+    login: string;
+    displayName?: string;
+    addedAt: number;
+    active: boolean;
+    runtime: {
+      background: boolean;
+      watchTarget: { channelId: string; login: string; streamId?: string } | null;
+      watchTargets?: Array<{ channelId: string; login: string; streamId?: string }>;
+      lastBackgroundPingAt: number | null;
+      lastBackgroundError?: string;
+    } | null;
+  }>;
+};
+
+type SessionHealthPayload = {
+  state: "healthy" | "expiring" | "refreshing" | "expired";
+  expiresAt: number | null;
+  lastCheckedAt: number | null;
+  lastRefreshedAt: number | null;
+  nextCheckAt: number | null;
+  failures: number;
+  lastError?: string;
+};
+
 const api = {
   openExternal: (url: string) => shell.openExternal(url),
+  accounts: {
+    list: () => ipcRenderer.invoke("accounts/list"),
+    add: () => ipcRenderer.invoke("accounts/add"),
+    switch: (payload: { id: string }) => ipcRenderer.invoke("accounts/switch", payload),
+    remove: (payload: { id: string }) => ipcRenderer.invoke("accounts/remove", payload),
+    setProxy: (payload: { id: string; proxyUrl: string }) =>
+      ipcRenderer.invoke("accounts/setProxy", payload),
+    onChanged: (handler: (payload: AccountsStatePayload) => void) => {
+      const listener = (_event: unknown, payload: AccountsStatePayload) => handler(payload);
+      ipcRenderer.on("accounts/changed", listener);
+      return () => ipcRenderer.removeListener("accounts/changed", listener);
+    },
+  },
   auth: {
     login: () => ipcRenderer.invoke("auth/login"),
     revalidate: () => ipcRenderer.invoke("auth/revalidate"),
     session: () => ipcRenderer.invoke("auth/session"),
+    sessionHealth: () => ipcRenderer.invoke("auth/sessionHealth"),
+    onSessionHealth: (handler: (payload: SessionHealthPayload) => void) => {
+      const listener = (_event: unknown, payload: SessionHealthPayload) => handler(payload);
+      ipcRenderer.on("auth/sessionHealthChanged", listener);
+      return () => ipcRenderer.removeListener("auth/sessionHealthChanged", listener);
+    },
+    vaultStatus: () => ipcRenderer.invoke("auth/vaultStatus"),
+    unlockVault: (payload: { passphrase: string }) =>
+      ipcRenderer.invoke("auth/unlockVault", payload),
     logout: () => ipcRenderer.invoke("auth/logout"),
   },
   twitch: {
@@ -99,14 +169,18 @@ const api = {
     campaigns: () => ipcRenderer.invoke("twitch/campaigns"),
     priorityPlan: (payload: { priorityGames?: string[] }) =>
       ipcRenderer.invoke("twitch/priorityPlan", payload),
-    channels: (payload: { game: string }) => ipcRenderer.invoke("twitch/channels", payload),
+    channels: (payload: { game: string; logins?: string[]; ids?: string[] }) =>
+      ipcRenderer.invoke("twitch/channels", payload),
     trackerStatus: () => ipcRenderer.invoke("twitch/trackerStatus"),
+    gqlStatus: () => ipcRenderer.invoke("twitch/gqlStatus"),
+    persistedQueries: () => ipcRenderer.invoke("twitch/persistedQueries"),
     trackerClearChannels: () => ipcRenderer.invoke("twitch/trackerClearChannels"),
     userPubSubStatus: () => ipcRenderer.invoke("twitch/userPubSubStatus"),
     debugEmitUserPubSubEvent: (payload: DebugUserPubSubEmitPayload) =>
       ipcRenderer.invoke("twitch/debugEmitUserPubSubEvent", payload),
-    watch: (payload: { channelId: string; login: string; streamId?: string }) =>
+    watch: (payload: { channelId: string; login: string; streamId?: string; slot?: number }) =>
       ipcRenderer.invoke("twitch/watch", payload),
+    watchRelease: (payload: { slot: number }) => ipcRenderer.invoke("twitch/watchRelease", payload),
     dropProgress: (payload: { channelId: string }) =>
       ipcRenderer.invoke("twitch/dropProgress", payload),
     claimDrop: (payload: { dropInstanceId?: string; dropId?: string; campaignId?: string }) =>
@@ -127,6 +201,15 @@ const api = {
     save: (payload: SettingsPayload) => ipcRenderer.invoke("settings/save", payload),
     export: () => ipcRenderer.invoke("settings/export"),
     import: (payload: SettingsPayload) => ipcRenderer.invoke("settings/import", payload),
+    /** Fires when main changed settings on its own, e.g. a tray profile switch. */
+    onChanged: (handler: () => void) => {
+      const listener = () => handler();
+      ipcRenderer.on("settings/changed", listener);
+      return () => ipcRenderer.removeListener("settings/changed", listener);
+    },
+  },
+  net: {
+    testProxy: (payload: { proxyUrl: string }) => ipcRenderer.invoke("net/testProxy", payload),
   },
   stats: {
     get: () => ipcRenderer.invoke("stats/get"),
@@ -135,15 +218,46 @@ const api = {
       totalClaims?: number;
       lastReset?: number;
       claimsByGame?: Record<string, number>;
+      minutesByGame?: Record<string, number>;
     }) => ipcRenderer.invoke("stats/save", payload),
     bump: (payload: {
       minutes?: number;
       claims?: number;
       lastDropTitle?: string;
       lastGame?: string;
+      creditGame?: string;
     }) => ipcRenderer.invoke("stats/bump", payload),
     reset: () => ipcRenderer.invoke("stats/reset"),
   },
+  reliability: {
+    get: () => ipcRenderer.invoke("reliability/get"),
+    record: (events: ChannelReliabilityEvent[]) => ipcRenderer.invoke("reliability/record", events),
+    reset: () => ipcRenderer.invoke("reliability/reset"),
+  },
+  claims: {
+    get: () => ipcRenderer.invoke("claims/get"),
+    record: (entry: ClaimLedgerEntry) => ipcRenderer.invoke("claims/record", entry),
+    /** Opens a save dialog and writes the ledger; resolves `{ ok: false, canceled }` if dismissed. */
+    export: (format: "csv" | "json") => ipcRenderer.invoke("claims/export", format),
+  },
+  claimQueue: {
+    get: (): Promise<ClaimQueueState> => ipcRenderer.invoke("claimQueue/get"),
+    /** Claims right away unless the drop is backing off; main retries failed claims. */
+    enqueue: (request: ClaimQueueRequest) => ipcRenderer.invoke("claimQueue/enqueue", request),
+    onChanged: (handler: (state: ClaimQueueState) => void) => {
+      const listener = (_event: unknown, state: ClaimQueueState) => handler(state);
+      ipcRenderer.on("claimQueue/changed", listener);
+      return () => ipcRenderer.removeListener("claimQueue/changed", listener);
+    },
+    /** Claims the given drops one by one; without requests main claims every ready drop. */
+    claimAll: (requests?: ClaimQueueRequest[]) =>
+      ipcRenderer.invoke("claimQueue/claimAll", { requests }),
+    onClaimAllProgress: (handler: (report: ClaimBatchReport) => void) => {
+      const listener = (_event: unknown, report: ClaimBatchReport) => handler(report);
+      ipcRenderer.on("claimQueue/claimAllProgress", listener);
+      return () => ipcRenderer.removeListener("claimQueue/claimAllProgress", listener);
+    },
+  },
   app: {
     windowControl: (action: "minimize" | "maximize" | "restore" | "close" | "hide-to-tray") =>
       ipcRenderer.invoke("app/windowControl", { action }),
@@ -4,13 +4,30 @@ import { Titlebar } from "@renderer/shared/components/chrome/Titlebar";
 import { AppNav, type AppNavItem } from "@renderer/shared/components/chrome/AppNav";
 import { Statusbar } from "@renderer/shared/components/chrome/Statusbar";
 import { Button } from "@renderer/shared/components/ui/button";
-import { useAppModel } from "@renderer/shared/hooks";
+import { useAccounts, useAppModel, type AccountsHook } from "@renderer/shared/hooks";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@renderer/shared/components/ui/select";
 import { I18nProvider, useI18n } from "@renderer/shared/i18n";
 import { DevPrimitivesView } from "@renderer/features/dev-primitives";
+import { ClaimAllDialog } from "@renderer/features/inventory";
 import { formatRelative } from "@renderer/features/overview/formatters";
 
 function App() {
-  const model = useAppModel();
+  const accounts = useAccounts();
+  if (!accounts.loaded) return null;
+  // Keyed by account: switching remounts the engine so no watch target,
+  // inventory or stall state leaks from one account into the next.
+  return <AccountApp key={accounts.state.activeAccountId ?? "none"} accounts={accounts} />;
+}
+
+function AccountApp({ accounts }: { accounts: AccountsHook }) {
+  const model = useAppModel(accounts);
 
   // Dev-only primitives showcase. Phase 1 introduced this route.
   if (
@@ -43,12 +60,14 @@ function AppShell({ model }: { model: Model }) {
     overviewProps,
     statsProps,
     inventoryProps,
+    rewardsProps,
     priorityProps,
     settingsProps,
     controlProps,
     debugSnapshot,
     debugEnabled,
     updateOverlayProps,
+    claimAllProps,
   } = model;
 
   const [now, setNow] = React.useState<number>(() => Date.now());
@@ -85,6 +104,7 @@ function AppShell({ model }: { model: Model }) {
       { key: "overview", label: t("nav.overview") },
       { key: "stats", label: t("nav.stats") },
       { key: "inventory", label: t("nav.inventory") },
+      { key: "rewards", label: t("nav.rewards") },
       { key: "control", label: t("nav.control") },
       { key: "priorities", label: t("nav.priorities") },
       { key: "settings", label: t("nav.settings") },
@@ -100,10 +120,34 @@ function AppShell({ model }: { model: Model }) {
   const sessionRight = React.useMemo(() => {
     const linked = navProps.auth.status === "ok" || navProps.demoMode;
     const ready = navProps.profile.status === "ready" ? navProps.profile : null;
+    const { state: accountsState, switchAccount, busy: accountsBusy } = navProps.accounts;
     if (linked && ready) {
       return (
         <>
-          <span>{ready.displayName}</span>
+          {accountsState.accounts.length > 1 && accountsState.activeAccountId ? (
+            <Select
+              value={accountsState.activeAccountId}
+              onValueChange={(id) => void switchAccount(id)}
+              disabled={accountsBusy}
+            >
+              <SelectTrigger tone="dp" aria-label={t("session.switchAccount")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent tone="dp">
+                <SelectGroup>
+                  {accountsState.accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.active
+                        ? ready.displayName
+                        : account.displayName || account.login || account.id}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          ) : (
+            <span>{ready.displayName}</span>
+          )}
           <span style={{ color: "var(--dp-accent)" }}>●</span>
           <span>{t("session.connected").toLowerCase()}</span>
         </>
@@ -119,7 +163,14 @@ function AppShell({ model }: { model: Model }) {
         {navProps.auth.status === "pending" ? t("session.login") : t("session.loginBrowser")}
       </Button>
     );
-  }, [navProps.auth, navProps.profile, navProps.startLogin, navProps.demoMode, t]);
+  }, [
+    navProps.auth,
+    navProps.profile,
+    navProps.startLogin,
+    navProps.demoMode,
+    navProps.accounts,
+    t,
+  ]);
 
   // Statusbar
   const engineLabel = React.useMemo(() => {
@@ -127,7 +178,8 @@ function AppShell({ model }: { model: Model }) {
     if (d === "watching-progress" || d === "watching-recover") return t("statusbar.engine.running");
     if (d === "watching-no-farmable" || d === "watching-no-watchable")
       return t("statusbar.engine.standby");
-    if (d === "suppressed" || d === "cooldown") return t("statusbar.engine.paused");
+    if (d === "schedule-paused" || d === "suppressed" || d === "cooldown")
+      return t("statusbar.engine.paused");
     if (d === "no-target") return t("statusbar.engine.idle");
     if (d.startsWith("idle")) return t("statusbar.engine.idle");
     return t("statusbar.engine.idle");
@@ -183,6 +235,7 @@ function AppShell({ model }: { model: Model }) {
         />
       )}
       <UpdateOverlay {...updateOverlayProps} />
+      <ClaimAllDialog {...claimAllProps} />
       <AppNav
         view={navProps.view}
         onChange={navProps.setView}
@@ -198,6 +251,7 @@ function AppShell({ model }: { model: Model }) {
           overviewProps={overviewPropsExtended}
           statsProps={statsProps}
           inventoryProps={inventoryProps}
+          rewardsProps={rewardsProps}
           priorityProps={priorityProps}
           settingsProps={settingsProps}
           controlProps={controlProps}
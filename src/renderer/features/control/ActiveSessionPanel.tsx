@@ -19,6 +19,8 @@ export type ActiveSessionPanelProps = {
   activeDropRequiredMinutes: number;
   activeEtaText: string | null;
   lastWatchOk?: number;
+  /** Shown when more than one watch slot is configured. */
+  slotLabel?: string;
 };
 
 export function ActiveSessionPanel({
@@ -31,6 +33,7 @@ export function ActiveSessionPanel({
   activeDropRequiredMinutes,
   activeEtaText,
   lastWatchOk,
+  slotLabel,
 }: ActiveSessionPanelProps) {
   const { t } = useI18n();
 
@@ -48,11 +51,14 @@ export function ActiveSessionPanel({
   return (
     <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)]">
       <div className="flex items-center justify-between px-5 py-4 border-b border-[color:var(--dp-border-soft)]">
-        <SectionLabel inline>
-          {isWatching
-            ? t("control.activeSession.nowWatching")
-            : t("control.activeSession.noActiveSession")}
-        </SectionLabel>
+        <div className="flex items-center gap-2 min-w-0">
+          <SectionLabel inline>
+            {isWatching
+              ? t("control.activeSession.nowWatching")
+              : t("control.activeSession.noActiveSession")}
+          </SectionLabel>
+          {slotLabel && <Pill tone="dim">{slotLabel}</Pill>}
+        </div>
         {lastWatchOk && (
           <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
             {t("control.activeSession.lastPing")} · {formatRelative(lastWatchOk)}
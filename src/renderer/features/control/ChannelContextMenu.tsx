@@ -0,0 +1,116 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { useI18n } from "@renderer/shared/i18n";
+import { Ban, Star, X } from "@renderer/shared/lib/icons";
+import type { StreamerListMembership } from "../../../shared/streamerLists";
+
+const MENU_WIDTH = 200;
+const MENU_HEIGHT = 120;
+
+export type ChannelContextMenuState = {
+  login: string;
+  displayName: string;
+  membership: StreamerListMembership;
+  x: number;
+  y: number;
+};
+
+export type ChannelContextMenuProps = {
+  menu: ChannelContextMenuState;
+  onSelect: (login: string, membership: StreamerListMembership) => void;
+  onClose: () => void;
+};
+
+function MenuItem({
+  icon,
+  label,
+  onClick,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      role="menuitem"
+      onClick={onClick}
+      className="flex w-full items-center gap-2 rounded-[var(--dp-radius-xs)] px-2 py-1.5 text-left font-mono text-[11px] text-[color:var(--dp-text-dim)] hover:bg-[color:var(--dp-bg-elevated-2)] hover:text-[color:var(--dp-text)]"
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
+
+/** Right-click menu on a channel tile: favourite, block, or clear the streamer. */
+export function ChannelContextMenu({ menu, onSelect, onClose }: ChannelContextMenuProps) {
+  const { t } = useI18n();
+  const menuRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    const onDown = (e: MouseEvent) => {
+      if (menuRef.current?.contains(e.target as Node)) return;
+      onClose();
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("mousedown", onDown);
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("blur", onClose);
+    return () => {
+      window.removeEventListener("mousedown", onDown);
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("blur", onClose);
+    };
+  }, [onClose]);
+
+  const select = (membership: StreamerListMembership) => {
+    onSelect(menu.login, membership);
+    onClose();
+  };
+
+  const left = Math.max(8, Math.min(menu.x, window.innerWidth - MENU_WIDTH - 8));
+  const top = Math.max(8, Math.min(menu.y, window.innerHeight - MENU_HEIGHT - 8));
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label={t("control.channelMenu.aria", { name: menu.displayName })}
+      style={{ position: "fixed", top, left, width: MENU_WIDTH }}
+      className="z-[300] rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] p-1 shadow-2xl shadow-black/50"
+    >
+      <div className="truncate px-2 py-1 font-mono text-[10px] uppercase tracking-[0.08em] text-[color:var(--dp-text-dimmer)]">
+        {menu.displayName}
+      </div>
+      {menu.membership !== "favorite" && (
+        <MenuItem
+          icon={<Star size={11} strokeWidth={1.8} />}
+          label={t("control.channelMenu.favorite")}
+          onClick={() => select("favorite")}
+        />
+      )}
+      {menu.membership !== "blocked" && (
+        <MenuItem
+          icon={<Ban size={11} strokeWidth={1.8} />}
+          label={t("control.channelMenu.block")}
+          onClick={() => select("blocked")}
+        />
+      )}
+      {menu.membership !== null && (
+        <MenuItem
+          icon={<X size={11} strokeWidth={1.8} />}
+          label={
+            menu.membership === "favorite"
+              ? t("control.channelMenu.unfavorite")
+              : t("control.channelMenu.unblock")
+          }
+          onClick={() => select(null)}
+        />
+      )}
+    </div>,
+    document.body,
+  );
+}
@@ -1,17 +1,37 @@
 import * as React from "react";
 import type { ChannelEntry, ErrorInfo } from "@renderer/shared/types";
+import type { ChannelScore } from "@renderer/shared/hooks/watch";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
 import { Button } from "@renderer/shared/components/ui/button";
 import { Pill } from "@renderer/shared/components/ui/pill";
-import { RotateCw } from "@renderer/shared/lib/icons";
+import { RotateCw, Star } from "@renderer/shared/lib/icons";
 import { useI18n } from "@renderer/shared/i18n";
 import { cn } from "@renderer/shared/lib/utils";
 import { resolveErrorMessage } from "@renderer/shared/utils/errors";
+import {
+  CHANNEL_SCORING_CRITERIA,
+  type ChannelScoringCriterion,
+} from "../../../shared/channelScoring";
+import {
+  getStreamerListMembership,
+  type StreamerListMembership,
+} from "../../../shared/streamerLists";
+import { ChannelContextMenu, type ChannelContextMenuState } from "./ChannelContextMenu";
 
 type CombinedChannel = ChannelEntry & { exiting?: boolean };
 
+const formatScore = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+const scoreEntries = (score: ChannelScore): Array<[ChannelScoringCriterion, number]> =>
+  CHANNEL_SCORING_CRITERIA.flatMap((criterion) => {
+    const value = score.parts[criterion];
+    return value === undefined ? [] : [[criterion, value] as [ChannelScoringCriterion, number]];
+  });
+
 export type ChannelGridPanelProps = {
   channels: CombinedChannel[];
+  /** Picker score per channel id; channels without a non-zero part show no breakdown. */
+  channelScores?: Record<string, ChannelScore>;
   animatedViewersById: Record<string, number>;
   channelChangedIds: Set<string>;
   channelsLoading: boolean;
@@ -22,12 +42,17 @@ export type ChannelGridPanelProps = {
   onStartWatching: (ch: ChannelEntry) => void;
   watchingChannelId?: string;
   onRefresh: () => void;
+  favoriteChannels?: string[];
+  blockedChannels?: string[];
+  /** Right-click action; omitted when the streamer lists can't be edited here. */
+  onSetChannelMembership?: (login: string, membership: StreamerListMembership) => void;
 };
 
 const SKELETON_TILES = Array.from({ length: 6 }, (_, i) => i);
 
 export function ChannelGridPanel({
   channels,
+  channelScores,
   animatedViewersById,
   channelChangedIds,
   channelsLoading,
@@ -38,8 +63,13 @@ export function ChannelGridPanel({
   onStartWatching,
   watchingChannelId,
   onRefresh,
+  favoriteChannels = [],
+  blockedChannels = [],
+  onSetChannelMembership,
 }: ChannelGridPanelProps) {
   const { t } = useI18n();
+  const [menu, setMenu] = React.useState<ChannelContextMenuState | null>(null);
+  const closeMenu = React.useCallback(() => setMenu(null), []);
   const errorText = channelError ? resolveErrorMessage(t, channelError) : null;
   const refreshDisabled = channelsLoading || channelsRefreshing;
 
@@ -102,11 +132,33 @@ export function ChannelGridPanel({
               const isExiting = !!channel.exiting;
               const animated = animatedViewersById[channel.id] ?? channel.viewers;
               const changed = channelChangedIds.has(channel.id);
+              const score = channelScores?.[channel.id];
+              const breakdown = score ? scoreEntries(score) : [];
+              const isFavorite =
+                getStreamerListMembership({ favoriteChannels, blockedChannels }, channel.login) ===
+                "favorite";
               return (
                 <li key={channel.id}>
                   <button
                     type="button"
                     onClick={() => !isExiting && onStartWatching(channel)}
+                    onContextMenu={
+                      onSetChannelMembership
+                        ? (e) => {
+                            e.preventDefault();
+                            setMenu({
+                              login: channel.login,
+                              displayName: channel.displayName,
+                              membership: getStreamerListMembership(
+                                { favoriteChannels, blockedChannels },
+                                channel.login,
+                              ),
+                              x: e.clientX,
+                              y: e.clientY,
+                            });
+                          }
+                        : undefined
+                    }
                     disabled={isExiting || isWatching}
                     className={cn(
                       "block w-full text-left rounded-[var(--dp-radius-md)] border overflow-hidden transition-all",
@@ -143,6 +195,16 @@ export function ChannelGridPanel({
                       <span className="absolute bottom-1 right-1">
                         <Pill tone="dim">{Math.round(animated).toLocaleString()}</Pill>
                       </span>
+                      {breakdown.length > 0 && score && (
+                        <span
+                          className="absolute top-1 right-1"
+                          title={t("control.channelGrid.scoreTitle")}
+                        >
+                          <Pill tone={score.total < 0 ? "warn" : "info"}>
+                            {formatScore(score.total)}
+                          </Pill>
+                        </span>
+                      )}
                       {isWatching && (
                         <span className="absolute top-1 left-1">
                           <Pill tone="accent" dot>
@@ -155,14 +217,41 @@ export function ChannelGridPanel({
                       <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] uppercase tracking-[0.08em] truncate">
                         {channel.game}
                       </div>
-                      <div className="text-[13px] font-medium text-[color:var(--dp-text-dim)] truncate mt-0.5">
-                        {channel.displayName}
+                      <div className="flex items-center gap-1 text-[13px] font-medium text-[color:var(--dp-text-dim)] mt-0.5">
+                        {isFavorite && (
+                          <Star
+                            size={11}
+                            strokeWidth={1.8}
+                            className="shrink-0 text-[color:var(--dp-accent)]"
+                            aria-label={t("control.channelGrid.favorite")}
+                          />
+                        )}
+                        <span className="truncate">{channel.displayName}</span>
                       </div>
                       {channel.title && (
                         <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] truncate mt-1">
                           {channel.title}
                         </div>
                       )}
+                      {breakdown.length > 0 && (
+                        <div
+                          className="flex flex-wrap gap-x-2 gap-y-0.5 mt-1.5 font-mono text-[10px] text-[color:var(--dp-text-dimmer)]"
+                          aria-label={t("control.channelGrid.scoreAria")}
+                        >
+                          {breakdown.map(([criterion, value]) => (
+                            <span
+                              key={criterion}
+                              className={cn(
+                                value > 0
+                                  ? "text-[color:var(--dp-text-dim)]"
+                                  : "text-[color:var(--dp-signal-warn)]",
+                              )}
+                            >
+                              {t(`control.channelGrid.score.${criterion}`)} {formatScore(value)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </button>
                 </li>
@@ -171,6 +260,9 @@ export function ChannelGridPanel({
           </ul>
         )}
       </div>
+      {menu && onSetChannelMembership && (
+        <ChannelContextMenu menu={menu} onSelect={onSetChannelMembership} onClose={closeMenu} />
+      )}
     </div>
   );
 }
@@ -19,6 +19,9 @@ import { EngineStatusPanel } from "./EngineStatusPanel";
 import { ActiveSessionPanel } from "./ActiveSessionPanel";
 import { ChannelGridPanel } from "./ChannelGridPanel";
 import { CampaignsPanel, type CampaignGroup } from "./CampaignsPanel";
+import type { ChannelScore, SecondaryWatchSlot } from "@renderer/shared/hooks/watch";
+import type { StreamerListMembership } from "../../../shared/streamerLists";
+import type { FarmPauseReason, FarmPauseSpan } from "../../../shared/farmSchedule";
 import type { WatchEngineDecision, WatchEngineSuppressionReason } from "./controlHelpers";
 
 type WatchEngineSnapshot = {
@@ -36,6 +39,7 @@ type WatchEngineSnapshot = {
   allowlistedLiveChannels: number;
   totalLiveChannels: number;
   noProgressTracker: { recoveryCount: number; sinceProgressMs: number } | null;
+  schedulePause: { reason: FarmPauseReason; until: number | null } | null;
 };
 
 type ControlProps = {
@@ -48,6 +52,10 @@ type ControlProps = {
   lastWatchedChannelIdentity: { id: string; login: string } | null;
   stopWatching: () => void;
   channels: ChannelEntry[];
+  channelScores?: Record<string, ChannelScore>;
+  favoriteChannels?: string[];
+  blockedChannels?: string[];
+  setChannelMembership?: (login: string, membership: StreamerListMembership) => void;
   channelsLoading: boolean;
   channelsRefreshing: boolean;
   channelDiff: ChannelDiff | null;
@@ -72,6 +80,10 @@ type ControlProps = {
   autoSwitchInfo?: AutoSwitchInfo | null;
   trackerStatus?: ChannelTrackerStatus | null;
   watchEngineSnapshot: WatchEngineSnapshot;
+  pauseFarming: (span: FarmPauseSpan) => void;
+  resumeFarming: () => void;
+  watchSlots?: number;
+  secondarySlot?: SecondaryWatchSlot | null;
 };
 
 export function ControlView(props: ControlProps) {
@@ -86,6 +98,10 @@ export function ControlView(props: ControlProps) {
     lastWatchedChannelIdentity,
     stopWatching,
     channels,
+    channelScores,
+    favoriteChannels,
+    blockedChannels,
+    setChannelMembership,
     channelsLoading,
     channelsRefreshing,
     channelDiff,
@@ -99,6 +115,8 @@ export function ControlView(props: ControlProps) {
     watchError,
     trackerStatus,
     watchEngineSnapshot,
+    watchSlots = 1,
+    secondarySlot,
   } = props;
 
   const state = useControlViewState({
@@ -255,6 +273,9 @@ export function ControlView(props: ControlProps) {
         totalLiveChannels={watchEngineSnapshot.totalLiveChannels}
         noProgressTracker={watchEngineSnapshot.noProgressTracker}
         trackerStatus={trackerStatus ?? null}
+        schedulePause={watchEngineSnapshot.schedulePause}
+        onPause={props.pauseFarming}
+        onResume={props.resumeFarming}
       />
 
       {/* Active session */}
@@ -275,8 +296,35 @@ export function ControlView(props: ControlProps) {
         activeDropRequiredMinutes={activeDropInfo?.requiredMinutes ?? 0}
         activeEtaText={state.activeEtaText}
         lastWatchOk={lastWatchOk}
+        slotLabel={watchSlots > 1 ? t("control.activeSession.slot", { slot: 1 }) : undefined}
       />
 
+      {secondarySlot && (
+        <ActiveSessionPanel
+          watching={secondarySlot.watching}
+          activeChannel={secondarySlot.channel}
+          activeThumb={
+            secondarySlot.channel?.thumbnail
+              ? secondarySlot.channel.thumbnail.replace("{width}", "640").replace("{height}", "360")
+              : null
+          }
+          activeLoginMismatch={null}
+          activeDropTitle={secondarySlot.activeDrop?.title ?? null}
+          activeDropEarnedMinutes={secondarySlot.activeDrop?.earnedMinutes ?? 0}
+          activeDropRequiredMinutes={secondarySlot.activeDrop?.requiredMinutes ?? 0}
+          activeEtaText={null}
+          lastWatchOk={secondarySlot.watchStats.lastOk || undefined}
+          slotLabel={
+            secondarySlot.target
+              ? t("control.activeSession.slotTarget", {
+                  slot: 2,
+                  game: secondarySlot.target.game,
+                })
+              : t("control.activeSession.slotIdle")
+          }
+        />
+      )}
+
       {/* Campaigns */}
       <CampaignsPanel
         groups={campaignGroups}
@@ -287,6 +335,10 @@ export function ControlView(props: ControlProps) {
       {/* Live channels */}
       <ChannelGridPanel
         channels={state.combinedChannels}
+        channelScores={channelScores}
+        favoriteChannels={favoriteChannels}
+        blockedChannels={blockedChannels}
+        onSetChannelMembership={setChannelMembership}
         animatedViewersById={state.animatedViewersById}
         channelChangedIds={state.channelChangedIds}
         channelsLoading={channelsLoading}
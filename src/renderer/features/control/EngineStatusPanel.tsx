@@ -1,9 +1,11 @@
 import * as React from "react";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import { Button } from "@renderer/shared/components/ui/button";
 import { ChevronDown } from "@renderer/shared/lib/icons";
 import { cn } from "@renderer/shared/lib/utils";
 import { useI18n } from "@renderer/shared/i18n";
 import type { ChannelTrackerStatus } from "@renderer/shared/types";
+import type { FarmPauseReason, FarmPauseSpan } from "../../../shared/farmSchedule";
 import {
   formatDurationMs,
   mapWatchEngineDecisionDetails,
@@ -30,6 +32,10 @@ export type EngineStatusPanelProps = {
   totalLiveChannels: number;
   noProgressTracker: { recoveryCount: number; sinceProgressMs: number } | null;
   trackerStatus?: ChannelTrackerStatus | null;
+  /** Set while auto-watch is held by the farming schedule or a manual pause. */
+  schedulePause: { reason: FarmPauseReason; until: number | null } | null;
+  onPause: (span: FarmPauseSpan) => void;
+  onResume: () => void;
 };
 
 const TONE_DOT: Record<ReturnType<typeof watchEngineTone>, string> = {
@@ -47,12 +53,29 @@ const TONE_TEXT: Record<ReturnType<typeof watchEngineTone>, string> = {
 };
 
 export function EngineStatusPanel(props: EngineStatusPanelProps) {
-  const { t } = useI18n();
+  const { t, language } = useI18n();
   const [expanded, setExpanded] = React.useState(false);
   const detailsId = React.useId();
   const tone = watchEngineTone(props.decision);
   const suppressionReason = props.suppression?.reason ?? null;
-  const label = mapWatchEngineDecisionLabel(props.decision, suppressionReason, t);
+  const formatClock = (at: number) =>
+    new Date(at).toLocaleTimeString(language === "de" ? "de-DE" : "en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  const schedulePause = props.schedulePause;
+  const label = schedulePause
+    ? t(
+        schedulePause.reason === "manual"
+          ? schedulePause.until !== null
+            ? "control.schedulePause.manualUntil"
+            : "control.schedulePause.manual"
+          : schedulePause.until !== null
+            ? "control.schedulePause.scheduleUntil"
+            : "control.schedulePause.schedule",
+        { time: schedulePause.until !== null ? formatClock(schedulePause.until) : "" },
+      )
+    : mapWatchEngineDecisionLabel(props.decision, suppressionReason, t);
   const details = mapWatchEngineDecisionDetails(props.decision, suppressionReason, t);
 
   const targetText =
@@ -163,6 +186,22 @@ export function EngineStatusPanel(props: EngineStatusPanelProps) {
             <span className="text-[color:var(--dp-text-dim)] flex-1">{details.next}</span>
           </div>
         </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {schedulePause?.reason === "manual" ? (
+            <Button variant="dp-outline" size="dp-sm" onClick={props.onResume}>
+              {t("control.schedulePause.resume")}
+            </Button>
+          ) : (
+            <>
+              <Button variant="dp-ghost" size="dp-sm" onClick={() => props.onPause("hour")}>
+                {t("control.schedulePause.pauseHour")}
+              </Button>
+              <Button variant="dp-ghost" size="dp-sm" onClick={() => props.onPause("tomorrow")}>
+                {t("control.schedulePause.pauseTomorrow")}
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
       {expanded && (
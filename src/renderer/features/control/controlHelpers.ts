@@ -2,6 +2,7 @@ import type { InventoryItem, WatchingState } from "@renderer/shared/types";
 import { DropChannelRestriction } from "@renderer/shared/domain/dropDomain";
 
 export type WatchEngineDecision =
+  | "schedule-paused"
   | "no-target"
   | "suppressed"
   | "cooldown"
@@ -26,6 +27,7 @@ export const watchEngineTone = (decision: WatchEngineDecision): WatchEngineTone
     case "watching-progress":
     case "idle-ready":
       return "ok";
+    case "schedule-paused":
     case "suppressed":
     case "cooldown":
       return "hold";
@@ -43,6 +45,8 @@ export const mapWatchEngineDecisionLabel = (
   t: Translator,
 ): string => {
   switch (decision) {
+    case "schedule-paused":
+      return t("control.watchEngineDecision.schedulePaused");
     case "no-target":
       return t("control.watchEngineDecision.noTarget");
     case "suppressed":
@@ -93,6 +97,11 @@ export const mapWatchEngineDecisionDetails = (
   t: Translator,
 ): { why: string; next: string } => {
   switch (decision) {
+    case "schedule-paused":
+      return {
+        why: t("control.watchEngineWhy.schedulePaused"),
+        next: t("control.watchEngineNext.schedulePaused"),
+      };
     case "no-target":
       return {
         why: t("control.watchEngineWhy.noTarget"),
@@ -0,0 +1,81 @@
+import { useI18n } from "@renderer/shared/i18n";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import type { PersistedQueriesStatus } from "@renderer/shared/types";
+
+export type DebugPersistedQueriesPanelProps = {
+  status: PersistedQueriesStatus | null;
+  formatRelativeTime: (value: number | null) => string;
+};
+
+const shortHash = (hash: string) => hash.slice(0, 10);
+
+export function DebugPersistedQueriesPanel({
+  status,
+  formatRelativeTime,
+}: DebugPersistedQueriesPanelProps) {
+  const { t } = useI18n();
+  const operations = status?.operations ?? [];
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] px-5 py-4">
+      <SectionLabel>{t("debug.persistedQueries.title")}</SectionLabel>
+      <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1 mb-3 break-all">
+        {t("debug.persistedQueries.help", { file: status?.overridesFile ?? "-" })}
+      </div>
+      {operations.length > 0 ? (
+        <ul className="flex flex-col gap-2">
+          {operations.map((op) => {
+            const stale = op.candidates.filter((candidate) => candidate.staleAt !== null);
+            const tone: "ok" | "warn" | "err" = op.exhausted
+              ? "err"
+              : stale.length > 0
+                ? "warn"
+                : "ok";
+            return (
+              <li
+                key={op.operationName}
+                className="flex items-center justify-between gap-3 rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] px-3 py-2"
+              >
+                <div className="flex flex-col gap-0.5 min-w-0">
+                  <span className="text-[12px] font-medium text-[color:var(--dp-text)] truncate">
+                    {op.operationName}
+                  </span>
+                  <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] truncate">
+                    {op.activeHash
+                      ? t("debug.persistedQueries.active", {
+                          hash: shortHash(op.activeHash),
+                          source: t(`debug.persistedQueries.source.${op.activeSource}`),
+                        })
+                      : t("debug.persistedQueries.none")}
+                  </span>
+                  {stale.map((candidate) => (
+                    <span
+                      key={candidate.hash}
+                      className="font-mono text-[10px] text-[color:var(--dp-signal-warn)] truncate"
+                    >
+                      {t("debug.persistedQueries.staleHash", {
+                        hash: shortHash(candidate.hash),
+                        when: formatRelativeTime(candidate.staleAt),
+                      })}
+                    </span>
+                  ))}
+                </div>
+                <Pill tone={tone} dot>
+                  {op.exhausted
+                    ? t("debug.persistedQueries.exhausted")
+                    : stale.length > 0
+                      ? t("debug.persistedQueries.fallback")
+                      : t("debug.persistedQueries.ok")}
+                </Pill>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="rounded-[var(--dp-radius-md)] border border-dashed border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated-2)] px-3 py-4 font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+          {t("debug.summary.noSignal")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useI18n } from "@renderer/shared/i18n";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { Button } from "@renderer/shared/components/ui/button";
+import {
+  channelCreditRatio,
+  isChannelCoolingDown,
+  type ChannelReliabilityLedger,
+} from "../../../shared/channelReliability";
+
+export type DebugReliabilityPanelProps = {
+  ledger: ChannelReliabilityLedger;
+  onReset: () => void;
+  formatNumber: (value: number) => string;
+  formatRelativeTime: (value: number | null) => string;
+};
+
+/** Most recently active channels first; the ledger keeps more than fits on screen. */
+const VISIBLE_CHANNELS = 25;
+
+export function DebugReliabilityPanel({
+  ledger,
+  onReset,
+  formatNumber,
+  formatRelativeTime,
+}: DebugReliabilityPanelProps) {
+  const { t } = useI18n();
+  const now = Date.now();
+  const rows = Object.entries(ledger)
+    .sort(([, left], [, right]) => right.lastEventAt - left.lastEventAt)
+    .slice(0, VISIBLE_CHANNELS);
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] px-5 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <SectionLabel>{t("debug.reliability.title")}</SectionLabel>
+        <Button variant="dp-ghost" size="dp-sm" onClick={onReset} disabled={rows.length === 0}>
+          {t("debug.reliability.reset")}
+        </Button>
+      </div>
+      <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1 mb-3">
+        {t("debug.reliability.help")}
+      </div>
+      {rows.length > 0 ? (
+        <ul className="flex flex-col gap-2">
+          {rows.map(([login, entry]) => {
+            const ratio = channelCreditRatio(entry);
+            const coolingDown = isChannelCoolingDown(entry, now);
+            return (
+              <li
+                key={login}
+                className="flex items-center justify-between gap-3 rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] px-3 py-2"
+              >
+                <div className="flex flex-col gap-0.5 min-w-0">
+                  <span className="text-[12px] font-medium text-[color:var(--dp-text)] truncate">
+                    {login}
+                  </span>
+                  <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] truncate">
+                    {t("debug.reliability.minutes", {
+                      credited: formatNumber(entry.creditedMinutes),
+                      pinged: formatNumber(entry.pingedMinutes),
+                      ratio: ratio === null ? "-" : `${Math.round(ratio * 100)}%`,
+                    })}
+                    {" · "}
+                    {t("debug.reliability.errors", {
+                      offline: formatNumber(entry.offlineErrors),
+                      failed: formatNumber(entry.pingErrors),
+                      stalls: formatNumber(entry.stallRecoveries),
+                    })}
+                  </span>
+                  <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] truncate">
+                    {t("debug.summary.lastSeen", { time: formatRelativeTime(entry.lastEventAt) })}
+                  </span>
+                </div>
+                <Pill tone={coolingDown ? "warn" : "ok"} dot>
+                  {coolingDown
+                    ? t("debug.reliability.coolingDown", {
+                        reason: t(`debug.reliability.reason.${entry.cooldownReason ?? "stall"}`),
+                        time: formatRelativeTime(entry.cooldownUntil),
+                      })
+                    : t("debug.reliability.ok")}
+                </Pill>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="rounded-[var(--dp-radius-md)] border border-dashed border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated-2)] px-3 py-4 font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+          {t("debug.summary.noSignal")}
+        </div>
+      )}
+    </div>
+  );
+}
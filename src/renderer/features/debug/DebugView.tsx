@@ -1,7 +1,7 @@
 import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import { useInterval } from "@renderer/shared/hooks/useInterval";
 import { useI18n } from "@renderer/shared/i18n";
-import type { ChannelTrackerStatus } from "@renderer/shared/types";
+import type { ChannelTrackerStatus, PersistedQueriesStatus } from "@renderer/shared/types";
 import { WATCH_INTERVAL_MS } from "@renderer/shared/hooks/watch/useWatchPing";
 import { Pill } from "@renderer/shared/components/ui/pill";
 import {
@@ -13,7 +13,7 @@ import {
   type LogEntry,
 } from "@renderer/shared/utils/logStore";
 import { resetPerfStore } from "@renderer/shared/utils/perfStore";
-import { isChannelTrackerStatus } from "@renderer/shared/utils/ipc";
+import { isChannelTrackerStatus, isPersistedQueriesStatus } from "@renderer/shared/utils/ipc";
 import {
   LOG_WINDOW_STEP,
   SEARCH_LOG_WINDOW,
@@ -29,6 +29,12 @@ import { DebugSummary, type DebugSummaryCard } from "./DebugSummary";
 import { DebugRuntimePanel, type DebugFact } from "./DebugRuntimePanel";
 import { DebugLogPanel } from "./DebugLogPanel";
 import { DebugAdvancedPanel } from "./DebugAdvancedPanel";
+import { DebugPersistedQueriesPanel } from "./DebugPersistedQueriesPanel";
+import { DebugReliabilityPanel } from "./DebugReliabilityPanel";
+import {
+  normalizeChannelReliabilityLedger,
+  type ChannelReliabilityLedger,
+} from "../../../shared/channelReliability";
 
 type DebugViewProps = {
   snapshot: Record<string, unknown>;
@@ -57,6 +63,47 @@ export function DebugView({ snapshot }: DebugViewProps) {
   const pausedLogRef = useRef<boolean | null>(null);
   const autoScrollLogRef = useRef<boolean | null>(null);
   const snapshotData = snapshot as DebugSnapshot;
+  const [persistedQueries, setPersistedQueries] = useState<PersistedQueriesStatus | null>(null);
+
+  const loadPersistedQueries = useCallback(async () => {
+    try {
+      const res: unknown = await window.electronAPI.twitch.persistedQueries();
+      if (isPersistedQueriesStatus(res)) setPersistedQueries(res);
+    } catch (err) {
+      pushLog("warn", ["debug: persisted query status failed", err]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPersistedQueries();
+  }, [loadPersistedQueries]);
+  useInterval(() => void loadPersistedQueries(), 30_000);
+
+  const [reliability, setReliability] = useState<ChannelReliabilityLedger>({});
+
+  const loadReliability = useCallback(async () => {
+    try {
+      const res: unknown = await window.electronAPI.reliability.get();
+      setReliability(normalizeChannelReliabilityLedger(res));
+    } catch (err) {
+      pushLog("warn", ["debug: reliability ledger failed", err]);
+    }
+  }, []);
+
+  const resetReliability = useCallback(async () => {
+    try {
+      const res: unknown = await window.electronAPI.reliability.reset();
+      setReliability(normalizeChannelReliabilityLedger(res));
+      pushLog("info", ["debug: reliability ledger reset"]);
+    } catch (err) {
+      pushLog("warn", ["debug: reliability reset failed", err]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReliability();
+  }, [loadReliability]);
+  useInterval(() => void loadReliability(), 30_000);
 
   useEffect(() => {
     if (pausedLogRef.current === null) {
@@ -599,6 +646,20 @@ export function DebugView({ snapshot }: DebugViewProps) {
         />
       </div>
 
+      {/* Persisted-query hashes */}
+      <DebugPersistedQueriesPanel
+        status={persistedQueries}
+        formatRelativeTime={formatRelativeTime}
+      />
+
+      {/* Channel reliability ledger */}
+      <DebugReliabilityPanel
+        ledger={reliability}
+        onReset={() => void resetReliability()}
+        formatNumber={formatNumber}
+        formatRelativeTime={formatRelativeTime}
+      />
+
       {/* Advanced */}
       <DebugAdvancedPanel
         simDropId={simDropId}
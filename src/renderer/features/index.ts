@@ -3,5 +3,6 @@ export { DebugView } from "./debug";
 export { InventoryView } from "./inventory";
 export { OverviewView } from "./overview";
 export { PriorityView } from "./priority";
+export { RewardsView } from "./rewards";
 export { SettingsView } from "./settings";
 export { StatsView } from "./stats";
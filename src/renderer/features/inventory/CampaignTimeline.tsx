@@ -0,0 +1,224 @@
+import * as React from "react";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { cn } from "@renderer/shared/lib/utils";
+import { useI18n } from "@renderer/shared/i18n";
+import { formatHourMinute } from "@renderer/features/overview/formatters";
+import type { TimelineLayout, TimelinePhase, TimelineRow, TimelineSpan } from "./timelineLayout";
+
+export type CampaignTimelineProps = {
+  timeline: TimelineLayout;
+  now: number;
+  span: TimelineSpan;
+  onSpanChange: (next: TimelineSpan) => void;
+  selectedDropId: string | null;
+  onSelectDrop: (id: string) => void;
+  emptyMessage: string;
+};
+
+const PHASE_TONE: Record<TimelinePhase, "info" | "ok" | "warn"> = {
+  upcoming: "info",
+  active: "ok",
+  expiring: "warn",
+};
+
+const PHASE_BAR: Record<TimelinePhase, string> = {
+  upcoming:
+    "border-[color-mix(in_srgb,var(--dp-signal-info)_35%,transparent)] bg-[color-mix(in_srgb,var(--dp-signal-info)_10%,transparent)]",
+  active:
+    "border-[color-mix(in_srgb,var(--dp-signal-ok)_35%,transparent)] bg-[color-mix(in_srgb,var(--dp-signal-ok)_10%,transparent)]",
+  expiring:
+    "border-[color-mix(in_srgb,var(--dp-signal-warn)_35%,transparent)] bg-[color-mix(in_srgb,var(--dp-signal-warn)_10%,transparent)]",
+};
+
+const PHASE_FILL: Record<TimelinePhase, string> = {
+  upcoming: "bg-[color-mix(in_srgb,var(--dp-signal-info)_35%,transparent)]",
+  active: "bg-[color-mix(in_srgb,var(--dp-signal-ok)_35%,transparent)]",
+  expiring: "bg-[color-mix(in_srgb,var(--dp-signal-warn)_35%,transparent)]",
+};
+
+const SPANS: TimelineSpan[] = ["week", "month"];
+const LABEL_COLUMN = "220px";
+
+export function CampaignTimeline({
+  timeline,
+  now,
+  span,
+  onSpanChange,
+  selectedDropId,
+  onSelectDrop,
+  emptyMessage,
+}: CampaignTimelineProps) {
+  const { t, language } = useI18n();
+  const locale = language === "de" ? "de-DE" : "en-US";
+  const { axis, rows } = timeline;
+  const axisLength = axis.endMs - axis.startMs;
+  const nowOffset = (now - axis.startMs) / axisLength;
+  // A month has too many days to label each one.
+  const labelEvery = span === "month" ? 5 : 1;
+
+  const formatDate = (ms: number) =>
+    new Date(ms).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" });
+
+  const barTitle = (row: TimelineRow) =>
+    [
+      row.name,
+      row.startMs !== null ? t("inventory.timeline.starts", { date: formatDate(row.startMs) }) : "",
+      t("inventory.timeline.ends", { date: formatDate(row.endMs) }),
+      t("inventory.timeline.minutes", {
+        earned: formatHourMinute(row.earnedMinutes),
+        required: formatHourMinute(row.requiredMinutes),
+      }),
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[color:var(--dp-border)] px-4 py-2.5">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Pill tone="info" dot>
+            {t("inventory.timeline.phase.upcoming")}
+          </Pill>
+          <Pill tone="ok" dot>
+            {t("inventory.timeline.phase.active")}
+          </Pill>
+          <Pill tone="warn" dot>
+            {t("inventory.timeline.phase.expiring")}
+          </Pill>
+          <Pill tone="err" dot>
+            {t("inventory.timeline.risk.legend")}
+          </Pill>
+        </div>
+        <div className="flex gap-1" role="tablist" aria-label={t("inventory.timeline.spanAria")}>
+          {SPANS.map((key) => (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={key === span}
+              onClick={() => onSpanChange(key)}
+              className={cn(
+                "rounded-[var(--dp-radius-sm)] border px-2.5 py-1 font-mono text-[11px] tracking-[0.02em] transition-colors",
+                key === span
+                  ? "border-[color:var(--dp-accent-soft)] bg-[color:var(--dp-accent-soft)] text-[color:var(--dp-accent)]"
+                  : "border-[color:var(--dp-border)] bg-transparent text-[color:var(--dp-text-dim)] hover:text-[color:var(--dp-text)]",
+              )}
+            >
+              {t(`inventory.timeline.span.${key}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-5 py-12 text-center font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+          {emptyMessage}
+        </p>
+      ) : (
+        <div className="relative">
+          <div
+            className="grid border-b border-[color:var(--dp-border)]"
+            style={{ gridTemplateColumns: `${LABEL_COLUMN} 1fr` }}
+          >
+            <span className="px-4 py-2 font-mono text-[10px] uppercase tracking-[0.12em] text-[color:var(--dp-text-dimmer)]">
+              {t("inventory.timeline.campaign")}
+            </span>
+            <div className="relative h-8">
+              {axis.days.map((day, index) =>
+                index % labelEvery === 0 ? (
+                  <span
+                    key={day}
+                    className="absolute top-2 pl-1 font-mono text-[10px] text-[color:var(--dp-text-dimmer)] whitespace-nowrap"
+                    style={{ left: `${((day - axis.startMs) / axisLength) * 100}%` }}
+                  >
+                    {new Date(day).toLocaleDateString(
+                      locale,
+                      span === "week"
+                        ? { weekday: "short", day: "numeric" }
+                        : { day: "numeric", month: "short" },
+                    )}
+                  </span>
+                ) : null,
+              )}
+            </div>
+          </div>
+
+          {rows.map((row) => {
+            const progress =
+              row.requiredMinutes > 0 ? Math.min(1, row.earnedMinutes / row.requiredMinutes) : 0;
+            const selected = selectedDropId === row.dropId;
+            return (
+              <div
+                key={row.id}
+                className="grid items-center border-b border-[color:var(--dp-border)] last:border-b-0"
+                style={{ gridTemplateColumns: `${LABEL_COLUMN} 1fr` }}
+              >
+                <div className="min-w-0 px-4 py-2">
+                  <div className="truncate text-[12px] text-[color:var(--dp-text)]">{row.name}</div>
+                  <div className="flex items-center gap-1.5 mt-0.5 font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+                    <span className="truncate">{row.game}</span>
+                    <span>·</span>
+                    <span className="whitespace-nowrap">
+                      {formatHourMinute(row.earnedMinutes)} /{" "}
+                      {formatHourMinute(row.requiredMinutes)}
+                    </span>
+                  </div>
+                  {row.risk && (
+                    <div className="mt-0.5 font-mono text-[10px] text-[color:var(--dp-signal-err)]">
+                      {t(`inventory.timeline.risk.${row.risk}`)}
+                    </div>
+                  )}
+                </div>
+                <div className="relative h-10">
+                  {axis.days.map((day) => (
+                    <span
+                      key={day}
+                      aria-hidden="true"
+                      className="absolute inset-y-0 w-px bg-[color:var(--dp-border)] opacity-50"
+                      style={{ left: `${((day - axis.startMs) / axisLength) * 100}%` }}
+                    />
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => onSelectDrop(row.dropId)}
+                    title={barTitle(row)}
+                    aria-label={row.name}
+                    className={cn(
+                      "absolute top-2.5 h-5 min-w-[6px] overflow-hidden rounded-[var(--dp-radius-sm)] border text-left transition-colors",
+                      PHASE_BAR[row.phase],
+                      row.risk &&
+                        "border-[color:var(--dp-signal-err)] shadow-[0_0_0_1px_var(--dp-signal-err)]",
+                      selected && "ring-1 ring-[color:var(--dp-accent)]",
+                    )}
+                    style={{ left: `${row.left * 100}%`, width: `${row.width * 100}%` }}
+                  >
+                    <span
+                      aria-hidden="true"
+                      className={cn("absolute inset-y-0 left-0", PHASE_FILL[row.phase])}
+                      style={{ width: `${progress * 100}%` }}
+                    />
+                    <span className="relative flex h-full items-center gap-1.5 px-1.5">
+                      <Pill tone={row.risk ? "err" : PHASE_TONE[row.phase]} className="py-0">
+                        {t(`inventory.timeline.phase.${row.phase}`)}
+                      </Pill>
+                    </span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {nowOffset >= 0 && nowOffset <= 1 && (
+            <span
+              aria-hidden="true"
+              className="pointer-events-none absolute inset-y-0 w-px bg-[color:var(--dp-accent)]"
+              style={{
+                left: `calc(${LABEL_COLUMN} + (100% - ${LABEL_COLUMN}) * ${nowOffset})`,
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@renderer/shared/components/ui/alert-dialog";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { useI18n } from "@renderer/shared/i18n";
+import type { ErrorInfo } from "@renderer/shared/types";
+import { resolveErrorMessage } from "@renderer/shared/utils/errors";
+import {
+  summarizeClaimBatch,
+  type ClaimBatchOutcome,
+  type ClaimBatchReport,
+} from "../../../shared/claimBatch";
+
+export type ClaimAllDialogProps = {
+  report: ClaimBatchReport | null;
+  error: ErrorInfo | null;
+  onClose: () => void;
+};
+
+const OUTCOME_TONE: Record<ClaimBatchOutcome, "ok" | "dim" | "err"> = {
+  claimed: "ok",
+  "already-claimed": "dim",
+  failed: "err",
+};
+
+/**
+ * Per-drop results of a "claim all ready drops" run. Opens with the first
+ * progress report, whether the run started here or from the tray, and cannot
+ * be closed until the run is done.
+ */
+export function ClaimAllDialog({ report, error, onClose }: ClaimAllDialogProps) {
+  const { t } = useI18n();
+  const running = report !== null && report.finishedAt === null;
+  const summary = report ? summarizeClaimBatch(report) : null;
+  return (
+    <AlertDialog
+      open={report !== null || error !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("claimAll.title")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {error
+              ? resolveErrorMessage(t, error)
+              : running
+                ? t("claimAll.running", {
+                    done: report?.results.length ?? 0,
+                    total: report?.total ?? 0,
+                  })
+                : report?.total === 0
+                  ? t("claimAll.none")
+                  : t("claimAll.summary", {
+                      claimed: summary?.claimed ?? 0,
+                      already: summary?.["already-claimed"] ?? 0,
+                      failed: summary?.failed ?? 0,
+                    })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {report && report.results.length > 0 && (
+          <div className="max-h-[320px] overflow-y-auto rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border)]">
+            <table className="w-full text-[12px]">
+              <thead>
+                <tr className="font-mono text-[10px] uppercase tracking-[0.12em] text-[color:var(--dp-text-dimmer)]">
+                  <th className="px-3 py-2 text-left font-normal">{t("claimAll.col.drop")}</th>
+                  <th className="px-3 py-2 text-left font-normal">{t("claimAll.col.result")}</th>
+                  <th className="px-3 py-2 text-left font-normal">{t("claimAll.col.reason")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((result) => (
+                  <tr key={result.dropId} className="border-t border-[color:var(--dp-border)]">
+                    <td className="px-3 py-2">
+                      <div className="text-[color:var(--dp-text)]">
+                        {result.title || result.dropId}
+                      </div>
+                      {result.game && (
+                        <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+                          {result.game}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Pill tone={OUTCOME_TONE[result.outcome]}>
+                        {t(`claimAll.outcome.${result.outcome}`)}
+                      </Pill>
+                    </td>
+                    <td
+                      className="px-3 py-2 font-mono text-[10px] text-[color:var(--dp-text-dim)] break-all"
+                      title={result.code ? result.reason : undefined}
+                    >
+                      {result.code
+                        ? resolveErrorMessage(t, { code: result.code, message: result.reason })
+                        : result.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={running}>{t("claimAll.close")}</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -9,7 +9,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@renderer/shared/components/ui/select";
-import { Search, RotateCw, ExternalLink } from "@renderer/shared/lib/icons";
+import { Search, RotateCw, ExternalLink, Gift } from "@renderer/shared/lib/icons";
 import { useI18n } from "@renderer/shared/i18n";
 
 export type InventoryHeaderProps = {
@@ -23,6 +23,11 @@ export type InventoryHeaderProps = {
   refreshing: boolean;
   refreshDisabled: boolean;
   onRefresh: () => void;
+  /** Drops ready to claim right now. */
+  readyClaims: number;
+  claimingAll: boolean;
+  /** Absent in demo mode, which hides the button. */
+  onClaimAll?: () => void | Promise<void>;
   unlinkedCount: number;
   onOpenAccountLink: () => void;
 };
@@ -38,6 +43,9 @@ export function InventoryHeader({
   refreshing,
   refreshDisabled,
   onRefresh,
+  readyClaims,
+  claimingAll,
+  onClaimAll,
   unlinkedCount,
   onOpenAccountLink,
 }: InventoryHeaderProps) {
@@ -86,6 +94,20 @@ export function InventoryHeader({
               </SelectGroup>
             </SelectContent>
           </Select>
+          {onClaimAll && (readyClaims > 0 || claimingAll) && (
+            <Button
+              variant="dp-primary"
+              size="dp-md"
+              onClick={() => void onClaimAll()}
+              disabled={claimingAll}
+              title={t("inventory.header.claimAllTitle")}
+            >
+              <Gift size={11} strokeWidth={1.8} />
+              {claimingAll
+                ? t("inventory.header.claimingAll")
+                : t("inventory.header.claimAll", { count: readyClaims })}
+            </Button>
+          )}
           <Button
             variant="dp-secondary"
             size="dp-md"
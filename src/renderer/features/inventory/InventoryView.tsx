@@ -8,17 +8,21 @@ import type {
 import { Button } from "@renderer/shared/components/ui/button";
 import { resolveErrorMessage } from "@renderer/shared/utils/errors";
 import { useI18n } from "@renderer/shared/i18n";
+import { cn } from "@renderer/shared/lib/utils";
+import { WATCH_INTERVAL_MS } from "@renderer/shared/hooks/watch/useWatchPing";
 import {
   createPriorityGameSet,
   shouldDisplayDropEntry,
   compareDropsByKey,
   type CampaignLookup,
 } from "./inventoryFilters";
-import { useInventoryViewState } from "./useInventoryViewState";
+import { useInventoryViewState, type InventoryLayout } from "./useInventoryViewState";
+import { buildCampaignTimeline } from "./timelineLayout";
 import { InventoryHeader } from "./InventoryHeader";
 import { InventoryFilterStrip } from "./InventoryFilterStrip";
 import { InventoryTable } from "./InventoryTable";
 import { InventoryDrawer } from "./InventoryDrawer";
+import { CampaignTimeline } from "./CampaignTimeline";
 
 // Re-export legacy helpers for InventoryView.test.ts (back-compat)
 export {
@@ -29,6 +33,7 @@ export {
 } from "./inventoryFilters";
 
 const PAGE_SIZE = 25;
+const LAYOUTS: InventoryLayout[] = ["table", "timeline"];
 
 type InventoryProps = {
   inventory: InventoryState;
@@ -39,6 +44,9 @@ type InventoryProps = {
   uniqueGames: string[];
   refreshing: boolean;
   onRefresh: () => void;
+  readyClaims: number;
+  claimingAll: boolean;
+  onClaimAll?: () => void | Promise<void>;
   campaigns: CampaignSummary[];
   campaignsLoading: boolean;
   isLinked: boolean;
@@ -46,6 +54,8 @@ type InventoryProps = {
   priorityGames: string[];
   onAddPriorityGame: (game: string) => void;
   onOpenAccountLink: (url?: string) => void;
+  /** Streams watched at once; the timeline's feasibility check credits each. */
+  watchSlots: number;
 };
 
 export function InventoryView({
@@ -57,12 +67,16 @@ export function InventoryView({
   uniqueGames,
   refreshing,
   onRefresh,
+  readyClaims,
+  claimingAll,
+  onClaimAll,
   campaigns,
   isLinked,
   allowUnlinkedGames,
   priorityGames,
   onAddPriorityGame,
   onOpenAccountLink,
+  watchSlots,
 }: InventoryProps) {
   const { t } = useI18n();
   const state = useInventoryViewState();
@@ -146,6 +160,19 @@ export function InventoryView({
     return [...filteredItems].sort((a, b) => compareDropsByKey(a, b, key, direction));
   }, [filteredItems, state.sort]);
 
+  const timeline = React.useMemo(() => {
+    const now = Date.now();
+    return {
+      now,
+      layout: buildCampaignTimeline(filteredItems, campaignLookup.byId, {
+        span: state.timelineSpan,
+        now,
+        slots: watchSlots,
+        intervalMs: WATCH_INTERVAL_MS,
+      }),
+    };
+  }, [filteredItems, campaignLookup, state.timelineSpan, watchSlots]);
+
   // Paginate
   const totalPages = Math.max(1, Math.ceil(sortedItems.length / PAGE_SIZE));
   const currentPage = Math.min(state.page, totalPages);
@@ -215,22 +242,58 @@ export function InventoryView({
         refreshing={refreshing}
         refreshDisabled={refreshing || isLoading}
         onRefresh={onRefresh}
+        readyClaims={readyClaims}
+        claimingAll={claimingAll}
+        onClaimAll={onClaimAll}
         unlinkedCount={unlinkedCount}
         onOpenAccountLink={() => onOpenAccountLink()}
       />
 
-      <InventoryFilterStrip filter={filter} onFilterChange={onFilterChange} />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <InventoryFilterStrip filter={filter} onFilterChange={onFilterChange} />
+        <div className="flex gap-1" role="tablist" aria-label={t("inventory.layout.aria")}>
+          {LAYOUTS.map((key) => (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={key === state.layout}
+              onClick={() => state.setLayout(key)}
+              className={cn(
+                "rounded-[var(--dp-radius-sm)] border px-2.5 py-1 font-mono text-[11px] tracking-[0.02em] transition-colors",
+                key === state.layout
+                  ? "border-[color:var(--dp-accent-soft)] bg-[color:var(--dp-accent-soft)] text-[color:var(--dp-accent)]"
+                  : "border-[color:var(--dp-border)] bg-transparent text-[color:var(--dp-text-dim)] hover:text-[color:var(--dp-text)]",
+              )}
+            >
+              {t(`inventory.layout.${key}`)}
+            </button>
+          ))}
+        </div>
+      </div>
 
-      <InventoryTable
-        items={paginatedItems}
-        sort={state.sort}
-        onToggleSort={state.toggleSort}
-        selectedDropId={state.selectedDropId}
-        onSelectDrop={state.selectDrop}
-        emptyMessage={emptyMessage}
-      />
+      {state.layout === "timeline" ? (
+        <CampaignTimeline
+          timeline={timeline.layout}
+          now={timeline.now}
+          span={state.timelineSpan}
+          onSpanChange={state.setTimelineSpan}
+          selectedDropId={state.selectedDropId}
+          onSelectDrop={state.selectDrop}
+          emptyMessage={sortedItems.length === 0 ? emptyMessage : t("inventory.timeline.empty")}
+        />
+      ) : (
+        <InventoryTable
+          items={paginatedItems}
+          sort={state.sort}
+          onToggleSort={state.toggleSort}
+          selectedDropId={state.selectedDropId}
+          onSelectDrop={state.selectDrop}
+          emptyMessage={emptyMessage}
+        />
+      )}
 
-      {totalPages > 1 && (
+      {state.layout === "table" && totalPages > 1 && (
         <div className="flex items-center justify-between font-mono text-[11px] text-[color:var(--dp-text-dim)]">
           <Button
             variant="dp-ghost"
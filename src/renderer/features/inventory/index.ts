@@ -1 +1,2 @@
+export { ClaimAllDialog } from "./ClaimAllDialog";
 export { InventoryView } from "./InventoryView";
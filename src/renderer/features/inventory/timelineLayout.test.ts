@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { CampaignSummary, InventoryItem } from "@renderer/shared/types";
+import { buildCampaignTimeline, buildTimelineAxis } from "./timelineLayout";
+
+const HOUR = 60 * 60_000;
+const NOW = new Date(2026, 9, 18, 12, 0, 0).getTime();
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const makeItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "drop-1",
+  game: "Game",
+  title: "Drop",
+  requiredMinutes: 120,
+  earnedMinutes: 0,
+  status: "progress",
+  campaignId: "camp-1",
+  startsAt: iso(NOW - 24 * HOUR),
+  endsAt: iso(NOW + 5 * 24 * HOUR),
+  ...overrides,
+});
+
+const noCampaign = () => null;
+const opts = { span: "week" as const, now: NOW, slots: 1, intervalMs: 60_000 };
+
+describe("buildTimelineAxis", () => {
+  it("starts at local midnight and spans the requested days", () => {
+    const axis = buildTimelineAxis("month", NOW);
+    expect(axis.startMs).toBe(new Date(2026, 9, 18).getTime());
+    expect(axis.days).toHaveLength(30);
+    expect(axis.endMs).toBe(new Date(2026, 10, 17).getTime());
+  });
+});
+
+describe("buildCampaignTimeline", () => {
+  it("summarizes a campaign by its longest drop and opens on the next unfinished drop", () => {
+    const { rows } = buildCampaignTimeline(
+      [
+        makeItem({ id: "a", requiredMinutes: 60, earnedMinutes: 60, status: "claimed" }),
+        makeItem({ id: "b", requiredMinutes: 240, earnedMinutes: 90 }),
+        makeItem({ id: "c", requiredMinutes: 120, earnedMinutes: 90 }),
+      ],
+      noCampaign,
+      opts,
+    );
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      phase: "active",
+      requiredMinutes: 240,
+      earnedMinutes: 90,
+      remainingMinutes: 150,
+      dropId: "c",
+      risk: null,
+    });
+  });
+
+  it("marks upcoming and expiring campaigns and skips ended ones", () => {
+    const { rows } = buildCampaignTimeline(
+      [
+        makeItem({ id: "soon", campaignId: "soon", endsAt: iso(NOW + 10 * HOUR) }),
+        makeItem({
+          id: "later",
+          campaignId: "later",
+          startsAt: iso(NOW + 48 * HOUR),
+          endsAt: iso(NOW + 96 * HOUR),
+        }),
+        makeItem({ id: "gone", campaignId: "gone", endsAt: iso(NOW - HOUR) }),
+      ],
+      noCampaign,
+      opts,
+    );
+    expect(rows.map((row) => [row.id, row.phase])).toEqual([
+      ["soon", "expiring"],
+      ["later", "upcoming"],
+    ]);
+  });
+
+  it("prefers campaign dates and names from the campaign list", () => {
+    const campaign: CampaignSummary = {
+      id: "camp-1",
+      name: "Autumn Drops",
+      game: "Game",
+      startsAt: iso(NOW - 48 * HOUR),
+      endsAt: iso(NOW + 24 * 24 * HOUR),
+    };
+    const { axis, rows } = buildCampaignTimeline(
+      [makeItem()],
+      (id) => (id === "camp-1" ? campaign : null),
+      opts,
+    );
+    expect(rows[0].name).toBe("Autumn Drops");
+    expect(rows[0].left).toBe(0);
+    expect(rows[0].width).toBe(1);
+    expect(rows[0].endMs).toBeGreaterThan(axis.endMs);
+  });
+
+  it("flags campaigns that cannot be finished alone", () => {
+    const { rows } = buildCampaignTimeline(
+      [makeItem({ requiredMinutes: 600, endsAt: iso(NOW + 2 * HOUR) })],
+      noCampaign,
+      opts,
+    );
+    expect(rows[0].risk).toBe("too-late");
+  });
+
+  it("flags overlapping games whose combined watch time does not fit", () => {
+    const items = [
+      makeItem({ id: "a", game: "Alpha", campaignId: "a", endsAt: iso(NOW + 3 * HOUR) }),
+      makeItem({ id: "b", game: "Beta", campaignId: "b", endsAt: iso(NOW + 3 * HOUR) }),
+      makeItem({ id: "c", game: "Gamma", campaignId: "c", endsAt: iso(NOW + 96 * HOUR) }),
+    ];
+    const single = buildCampaignTimeline(items, noCampaign, opts);
+    expect(single.rows.map((row) => row.risk)).toEqual(["overlap", "overlap", null]);
+
+    const dual = buildCampaignTimeline(items, noCampaign, { ...opts, slots: 2 });
+    expect(dual.rows.map((row) => row.risk)).toEqual([null, null, null]);
+  });
+
+  it("does not count campaigns of the same game against each other", () => {
+    const { rows } = buildCampaignTimeline(
+      [
+        makeItem({ id: "a", campaignId: "a", endsAt: iso(NOW + 3 * HOUR) }),
+        makeItem({ id: "b", campaignId: "b", endsAt: iso(NOW + 3 * HOUR) }),
+      ],
+      noCampaign,
+      opts,
+    );
+    expect(rows.map((row) => row.risk)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,224 @@
+import type { CampaignSummary, InventoryItem } from "@renderer/shared/types";
+
+export type TimelineSpan = "week" | "month";
+
+/**
+ * Where a campaign stands relative to now. `expiring` is an active campaign
+ * ending within {@link EXPIRING_WINDOW_MS}.
+ */
+export type TimelinePhase = "upcoming" | "active" | "expiring";
+
+/**
+ * Why a campaign will not be finished at the current watch cadence:
+ * - `too-late`: not even watching it alone leaves enough time.
+ * - `overlap`: finishable alone, but together with the campaigns ending
+ *   before it there is more to watch than the watch slots can credit.
+ */
+export type TimelineRisk = "too-late" | "overlap";
+
+export type TimelineRow = {
+  id: string;
+  name: string;
+  game: string;
+  imageUrl?: string;
+  startMs: number | null;
+  endMs: number;
+  phase: TimelinePhase;
+  /** Minutes of the campaign's longest drop; drops of one campaign accrue in parallel. */
+  requiredMinutes: number;
+  earnedMinutes: number;
+  remainingMinutes: number;
+  risk: TimelineRisk | null;
+  /** Drop the inventory drawer opens on: the next unfinished drop, else the first. */
+  dropId: string;
+  /** Bar placement as fractions of the axis. */
+  left: number;
+  width: number;
+};
+
+export type TimelineAxis = {
+  startMs: number;
+  endMs: number;
+  /** Local midnights inside the axis, for day gridlines. */
+  days: number[];
+};
+
+export type TimelineLayout = {
+  axis: TimelineAxis;
+  rows: TimelineRow[];
+};
+
+export const EXPIRING_WINDOW_MS = 48 * 60 * 60_000;
+
+const SPAN_DAYS: Record<TimelineSpan, number> = { week: 7, month: 30 };
+
+const parseIsoMs = (value?: string): number | null => {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+const campaignKeyFor = (item: InventoryItem): string =>
+  item.campaignId?.trim() || item.campaignName?.trim() || item.game.trim();
+
+const startOfLocalDay = (ms: number): number => {
+  const date = new Date(ms);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const buildTimelineAxis = (span: TimelineSpan, now: number): TimelineAxis => {
+  const startMs = startOfLocalDay(now);
+  const days: number[] = [];
+  const cursor = new Date(startMs);
+  for (let day = 0; day < SPAN_DAYS[span]; day += 1) {
+    days.push(cursor.getTime());
+    // setDate keeps midnights aligned across DST changes.
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return { startMs, endMs: cursor.getTime(), days };
+};
+
+type CampaignGroup = {
+  campaign: CampaignSummary | null;
+  items: InventoryItem[];
+};
+
+const groupByCampaign = (
+  items: InventoryItem[],
+  lookupCampaign: (id?: string) => CampaignSummary | null,
+): Map<string, CampaignGroup> => {
+  const groups = new Map<string, CampaignGroup>();
+  for (const item of items) {
+    if (!item?.id || !item.game?.trim()) continue;
+    const key = campaignKeyFor(item);
+    const group = groups.get(key) ?? { campaign: lookupCampaign(item.campaignId), items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  }
+  return groups;
+};
+
+const isDone = (item: InventoryItem): boolean =>
+  item.status === "claimed" || item.isClaimable === true;
+
+const summarizeMinutes = (items: InventoryItem[]) => {
+  let requiredMinutes = 0;
+  let earnedMinutes = 0;
+  let remainingMinutes = 0;
+  for (const item of items) {
+    const required = Math.max(0, Number(item.requiredMinutes) || 0);
+    const earned = isDone(item)
+      ? required
+      : Math.min(required, Math.max(0, Number(item.earnedMinutes) || 0));
+    requiredMinutes = Math.max(requiredMinutes, required);
+    earnedMinutes = Math.max(earnedMinutes, earned);
+    if (!isDone(item)) remainingMinutes = Math.max(remainingMinutes, required - earned);
+  }
+  return { requiredMinutes, earnedMinutes, remainingMinutes };
+};
+
+const pickDropId = (items: InventoryItem[]): string => {
+  const pending = items
+    .filter((item) => !isDone(item))
+    .sort((a, b) => (Number(a.requiredMinutes) || 0) - (Number(b.requiredMinutes) || 0));
+  return (pending[0] ?? items[0]).id;
+};
+
+/**
+ * Flags campaigns that will expire unfinished. A watch slot credits one drop
+ * minute per `intervalMs`, and watching a game credits all of its campaigns,
+ * so a game needs as many minutes as its furthest-behind campaign. For every
+ * deadline, the campaigns ending by then must fit into the slot time left
+ * before it; when they do not, that whole group is flagged as an overlap.
+ */
+const assignRisks = (rows: TimelineRow[], now: number, slots: number, intervalMs: number) => {
+  const slotMinutesBetween = (fromMs: number, toMs: number) =>
+    Math.floor(Math.max(0, toMs - fromMs) / intervalMs);
+  const pending: TimelineRow[] = [];
+  for (const row of rows) {
+    if (row.remainingMinutes <= 0) continue;
+    const windowStart = Math.max(now, row.startMs ?? now);
+    if (row.remainingMinutes > slotMinutesBetween(windowStart, row.endMs)) {
+      row.risk = "too-late";
+      continue;
+    }
+    pending.push(row);
+  }
+  pending.sort((a, b) => a.endMs - b.endMs);
+  for (let index = 0; index < pending.length; index += 1) {
+    const deadline = pending[index].endMs;
+    const group = pending.filter((row) => row.endMs <= deadline);
+    const demandByGame = new Map<string, number>();
+    let windowStart = deadline;
+    for (const row of group) {
+      const game = row.game.toLowerCase();
+      demandByGame.set(game, Math.max(demandByGame.get(game) ?? 0, row.remainingMinutes));
+      windowStart = Math.min(windowStart, Math.max(now, row.startMs ?? now));
+    }
+    if (demandByGame.size < 2) continue;
+    let demand = 0;
+    for (const minutes of demandByGame.values()) demand += minutes;
+    if (demand <= slotMinutesBetween(windowStart, deadline) * slots) continue;
+    for (const row of group) row.risk = "overlap";
+  }
+};
+
+/**
+ * One row per campaign that has not ended and overlaps the axis, ordered by
+ * end date. Campaign details come from `lookupCampaign` when the campaign
+ * list knows the campaign, otherwise from its drops.
+ */
+export const buildCampaignTimeline = (
+  items: InventoryItem[],
+  lookupCampaign: (id?: string) => CampaignSummary | null,
+  opts: { span: TimelineSpan; now: number; slots: number; intervalMs: number },
+): TimelineLayout => {
+  const { now } = opts;
+  const axis = buildTimelineAxis(opts.span, now);
+  const axisLength = axis.endMs - axis.startMs;
+  const rows: TimelineRow[] = [];
+  for (const [key, { campaign, items: drops }] of groupByCampaign(items, lookupCampaign)) {
+    const first = drops[0];
+    let startMs = parseIsoMs(campaign?.startsAt);
+    let endMs = parseIsoMs(campaign?.endsAt);
+    for (const drop of drops) {
+      const dropStart = parseIsoMs(drop.startsAt);
+      const dropEnd = parseIsoMs(drop.endsAt);
+      if (!campaign?.startsAt && dropStart !== null) {
+        startMs = startMs === null ? dropStart : Math.min(startMs, dropStart);
+      }
+      if (!campaign?.endsAt && dropEnd !== null) {
+        endMs = endMs === null ? dropEnd : Math.max(endMs, dropEnd);
+      }
+    }
+    // Without an end date a campaign cannot be placed on the calendar.
+    if (endMs === null || endMs <= now) continue;
+    if (startMs !== null && startMs >= axis.endMs) continue;
+    const phase: TimelinePhase =
+      startMs !== null && startMs > now
+        ? "upcoming"
+        : endMs - now <= EXPIRING_WINDOW_MS
+          ? "expiring"
+          : "active";
+    const barStart = Math.max(axis.startMs, startMs ?? axis.startMs);
+    const barEnd = Math.min(axis.endMs, endMs);
+    rows.push({
+      id: campaign?.id || key,
+      name: campaign?.name || first.campaignName?.trim() || `${first.game} Drops`,
+      game: campaign?.game || first.game.trim(),
+      imageUrl: campaign?.imageUrl || first.campaignImageUrl || first.imageUrl,
+      startMs,
+      endMs,
+      phase,
+      ...summarizeMinutes(drops),
+      risk: null,
+      dropId: pickDropId(drops),
+      left: (barStart - axis.startMs) / axisLength,
+      width: Math.max(0, barEnd - barStart) / axisLength,
+    });
+  }
+  assignRisks(rows, now, Math.max(1, opts.slots), opts.intervalMs);
+  rows.sort((a, b) => a.endMs - b.endMs);
+  return { axis, rows };
+};
@@ -1,8 +1,11 @@
 import * as React from "react";
 import type { DropSortKey, SortDirection } from "./inventoryFilters";
+import type { TimelineSpan } from "./timelineLayout";
 
 export type SortState = { key: DropSortKey; direction: SortDirection } | null;
 
+export type InventoryLayout = "table" | "timeline";
+
 export type InventoryViewState = {
   search: string;
   setSearch: (next: string) => void;
@@ -13,6 +16,10 @@ export type InventoryViewState = {
   resetPage: () => void;
   selectedDropId: string | null;
   selectDrop: (id: string | null) => void;
+  layout: InventoryLayout;
+  setLayout: (next: InventoryLayout) => void;
+  timelineSpan: TimelineSpan;
+  setTimelineSpan: (next: TimelineSpan) => void;
 };
 
 export const DEFAULT_SORT: SortState = { key: "status", direction: "asc" };
@@ -22,6 +29,8 @@ export function useInventoryViewState(): InventoryViewState {
   const [sort, setSort] = React.useState<SortState>(DEFAULT_SORT);
   const [page, setPage] = React.useState<number>(1);
   const [selectedDropId, setSelectedDropId] = React.useState<string | null>(null);
+  const [layout, setLayout] = React.useState<InventoryLayout>("table");
+  const [timelineSpan, setTimelineSpan] = React.useState<TimelineSpan>("week");
 
   const setSearch = React.useCallback((next: string) => {
     setSearchRaw(next);
@@ -52,5 +61,9 @@ export function useInventoryViewState(): InventoryViewState {
     resetPage,
     selectedDropId,
     selectDrop,
+    layout,
+    setLayout,
+    timelineSpan,
+    setTimelineSpan,
   };
 }
@@ -1,19 +1,35 @@
 import * as React from "react";
 import { FeedItem } from "@renderer/shared/components/ui/feed-item";
-import { Check, RotateCw, Plus, AlertTriangle, Play } from "@renderer/shared/lib/icons";
-import { formatRelative } from "./formatters";
+import { Check, RotateCw, Plus, AlertTriangle, Play, Clock, Ban } from "@renderer/shared/lib/icons";
+import { formatRelative, formatUntil } from "./formatters";
 import { useI18n } from "@renderer/shared/i18n";
 import { useActivityFeed, type ActivityEvent } from "@renderer/shared/utils/activityFeed";
+import type { ClaimAttemptOutcome, ClaimQueueState } from "../../../shared/claimQueue";
 
 export type ActivityPanelProps = {
   maxItems?: number;
+  /** Pending claims and claim attempts from main's claim queue. */
+  claimQueue?: ClaimQueueState;
 };
 
 type EventVisual = {
   icon: React.ReactNode;
-  tone: "ok" | "accent" | "warn" | "info";
+  tone: "ok" | "accent" | "warn" | "info" | "err";
 };
 
+const MAX_CLAIM_LOG_ROWS = 5;
+
+function claimOutcomeVisual(outcome: ClaimAttemptOutcome): EventVisual {
+  switch (outcome) {
+    case "claimed":
+      return { icon: <Check />, tone: "ok" };
+    case "failed":
+      return { icon: <AlertTriangle />, tone: "warn" };
+    case "abandoned":
+      return { icon: <Ban />, tone: "err" };
+  }
+}
+
 /** Icon + tone per event kind. Keeps the render switch concise. */
 function visualFor(kind: ActivityEvent["kind"]): EventVisual {
   switch (kind) {
@@ -119,7 +135,103 @@ function renderMeta(event: ActivityEvent, t: ReturnType<typeof useI18n>["t"]): R
   }
 }
 
-export function ActivityPanel({ maxItems = 8 }: ActivityPanelProps) {
+/**
+ * Claims main is still retrying, then the latest claim attempts. Hidden until
+ * the queue has seen a claim.
+ */
+function ClaimQueueSection({ claimQueue }: { claimQueue: ClaimQueueState }) {
+  const { t } = useI18n();
+  const { jobs, log } = claimQueue;
+  if (jobs.length === 0 && log.length === 0) return null;
+  const recent = log.slice(0, MAX_CLAIM_LOG_ROWS);
+  const rows = jobs.length + recent.length;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-[color:var(--dp-border-soft)]">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-mono text-[11px] uppercase tracking-[0.14em] text-[color:var(--dp-text-dim)]">
+          {t("activity.claimQueue.header")}
+        </span>
+        <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {jobs.length === 0
+            ? t("activity.claimQueue.idle")
+            : t(
+                jobs.length === 1
+                  ? "activity.claimQueue.pending.one"
+                  : "activity.claimQueue.pending.other",
+                { count: jobs.length },
+              )}
+        </span>
+      </div>
+      {jobs.map((job, idx) => (
+        <FeedItem
+          key={job.id}
+          tone="info"
+          icon={<Clock />}
+          title={job.lastError?.message}
+          msg={
+            <>
+              {t("activity.claimQueue.retrying")} <strong>{job.title || job.id}</strong>
+            </>
+          }
+          meta={
+            <>
+              {job.game && (
+                <>
+                  <span style={{ color: "var(--dp-accent)" }}>{job.game}</span>
+                  {" · "}
+                </>
+              )}
+              {t("activity.claimQueue.attempts", { count: job.attempts })}
+              {" · "}
+              {t("activity.claimQueue.next", { when: formatUntil(job.nextAttemptAt) })}
+              {job.lastError && (
+                <>
+                  {" · "}
+                  <span className="font-mono text-[10px]">{job.lastError.code}</span>
+                </>
+              )}
+            </>
+          }
+          last={idx === rows - 1}
+        />
+      ))}
+      {recent.map((entry, idx) => {
+        const { icon, tone } = claimOutcomeVisual(entry.outcome);
+        return (
+          <FeedItem
+            key={`${entry.jobId}:${entry.attempt}:${entry.at}`}
+            tone={tone}
+            icon={icon}
+            title={entry.message || undefined}
+            msg={
+              <>
+                {t(`activity.claimQueue.outcome.${entry.outcome}`)}{" "}
+                <strong>{entry.title || entry.jobId}</strong>
+              </>
+            }
+            meta={
+              <>
+                {entry.code && (
+                  <>
+                    <span className="font-mono text-[10px]">{entry.code}</span>
+                    {" · "}
+                  </>
+                )}
+                {t("activity.claimQueue.attempt", { attempt: entry.attempt })}
+                {" · "}
+                {formatRelative(entry.at)}
+              </>
+            }
+            last={jobs.length + idx === rows - 1}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function ActivityPanel({ maxItems = 8, claimQueue }: ActivityPanelProps) {
   const { t } = useI18n();
   const events = useActivityFeed();
   const slice = React.useMemo(() => events.slice(0, maxItems), [events, maxItems]);
@@ -148,6 +260,7 @@ export function ActivityPanel({ maxItems = 8 }: ActivityPanelProps) {
           );
         })
       )}
+      {claimQueue && <ClaimQueueSection claimQueue={claimQueue} />}
     </div>
   );
 }
@@ -9,6 +9,8 @@ export type AttentionStripProps = {
   activeGame: string;
   channelsCount: number;
   trackerStatus: ChannelTrackerStatus | null | undefined;
+  /** Makes the claim pill a "claim all ready drops" button. */
+  onClaimAll?: () => void | Promise<void>;
 };
 
 export function AttentionStrip({
@@ -17,6 +19,7 @@ export function AttentionStrip({
   activeGame,
   channelsCount,
   trackerStatus,
+  onClaimAll,
 }: AttentionStripProps) {
   const { t } = useI18n();
   const pills: React.ReactNode[] = [];
@@ -26,10 +29,25 @@ export function AttentionStrip({
       claimableDrops === 1
         ? t("attention.claimReady", { count: claimableDrops })
         : t("attention.claimsReady", { count: claimableDrops });
-    pills.push(
-      <Pill key="claim-ready" tone="warn" dot>
+    const claimPill = (
+      <Pill tone="warn" dot>
         {claimText}
-      </Pill>,
+      </Pill>
+    );
+    pills.push(
+      onClaimAll ? (
+        <button
+          key="claim-ready"
+          type="button"
+          onClick={() => void onClaimAll()}
+          title={t("attention.claimAllTitle")}
+          className="cursor-pointer rounded-full hover:opacity-80"
+        >
+          {claimPill}
+        </button>
+      ) : (
+        <React.Fragment key="claim-ready">{claimPill}</React.Fragment>
+      ),
     );
   }
   if (watchError) {
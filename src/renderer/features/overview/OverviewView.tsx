@@ -1,8 +1,11 @@
 import type { ChannelTrackerStatus, ErrorInfo, InventoryState } from "@renderer/shared/types";
+import type { CompletionForecast } from "@renderer/shared/hooks/priority";
+import type { ClaimQueueState } from "../../../shared/claimQueue";
 import { HeroPanel } from "./HeroPanel";
 import { QueuePanel } from "./QueuePanel";
 import { ActivityPanel } from "./ActivityPanel";
 import { EnginePanel } from "./EnginePanel";
+import { WatchSlotsPanel, type WatchSlotSummary } from "./WatchSlotsPanel";
 import { AttentionStrip } from "./AttentionStrip";
 
 type OverviewProps = {
@@ -21,6 +24,7 @@ type OverviewProps = {
   channelsCount: number;
   canWatchTarget: boolean;
   watchDecision:
+    | "schedule-paused"
     | "no-target"
     | "suppressed"
     | "cooldown"
@@ -38,9 +42,17 @@ type OverviewProps = {
   inventoryFetchedAt?: number | null;
   trackerStatus?: ChannelTrackerStatus | null;
   watchError?: ErrorInfo | null;
+  /** Which earnable drops the current priority order finishes in time. */
+  completionForecast?: CompletionForecast;
+  /** Claims main is still retrying, plus the audit log of claim attempts. */
+  claimQueue?: ClaimQueueState;
+  /** One entry per configured watch slot; only set when more than one is active. */
+  watchSlots?: WatchSlotSummary[];
   onPause?: () => void;
   onSwitchTarget?: () => void;
   onClaimNow?: () => void | Promise<void>;
+  /** Claims every ready drop; hidden in demo mode. */
+  onClaimAll?: () => void | Promise<void>;
   claimStatus?: { kind: "success" | "error"; message?: string; code?: string } | null;
   refreshMinMs?: number;
   refreshMaxMs?: number;
@@ -63,9 +75,13 @@ export function OverviewView({
   watchingSince,
   trackerStatus,
   watchError,
+  completionForecast,
+  claimQueue,
+  watchSlots,
   onPause,
   onSwitchTarget,
   onClaimNow,
+  onClaimAll,
   claimStatus,
   refreshMinMs,
   refreshMaxMs,
@@ -88,6 +104,7 @@ export function OverviewView({
           activeGame={activeGame}
           channelsCount={channelsCount}
           trackerStatus={trackerStatus}
+          onClaimAll={onClaimAll}
         />
         <HeroPanel
           activeGame={activeGame}
@@ -105,10 +122,16 @@ export function OverviewView({
           onClaimNow={onClaimNow}
           claimStatus={claimStatus}
         />
-        <QueuePanel items={items} activeDrop={activeDrop ?? null} targetGame={activeGame} />
+        <QueuePanel
+          items={items}
+          activeDrop={activeDrop ?? null}
+          targetGame={activeGame}
+          forecast={completionForecast}
+        />
       </div>
       <div className="flex flex-col gap-4">
-        <ActivityPanel />
+        <ActivityPanel claimQueue={claimQueue} />
+        {watchSlots && watchSlots.length > 1 && <WatchSlotsPanel slots={watchSlots} />}
         <EnginePanel
           lastWatchOk={lastWatchOk}
           watchingSince={watchingSince}
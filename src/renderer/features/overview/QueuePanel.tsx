@@ -14,6 +14,7 @@ import { useI18n } from "@renderer/shared/i18n";
 import { cn } from "@renderer/shared/lib/utils";
 import { sameGameName } from "@renderer/shared/domain/gameName";
 import { InventoryDrop } from "@renderer/shared/domain/dropDomain";
+import type { CompletionForecast, DropForecast } from "@renderer/shared/hooks/priority";
 
 export type QueuePanelProps = {
   items: InventoryItem[];
@@ -32,6 +33,18 @@ export type QueuePanelProps = {
    * showing an arbitrary cross-game mix sorted by remaining time.
    */
   targetGame?: string;
+  /**
+   * Completion forecast for the current priority order. Adds a column saying
+   * whether each queued drop finishes before its campaign ends, plus a
+   * summary across all earnable drops.
+   */
+  forecast?: CompletionForecast;
+};
+
+const FORECAST_TONE: Record<DropForecast["outcome"], "ok" | "err" | "dim"> = {
+  finishes: "ok",
+  misses: "err",
+  unscheduled: "dim",
 };
 
 export function QueuePanel({
@@ -40,8 +53,13 @@ export function QueuePanel({
   maxRows = 8,
   activeDrop,
   targetGame,
+  forecast,
 }: QueuePanelProps) {
   const { t } = useI18n();
+  const forecastById = React.useMemo(
+    () => new Map((forecast?.drops ?? []).map((drop) => [drop.dropId, drop])),
+    [forecast],
+  );
   const hasTarget = !!targetGame && targetGame.length > 0;
   const queued = React.useMemo(() => {
     const now = Date.now();
@@ -111,13 +129,14 @@ export function QueuePanel({
             )}
           </div>
         ) : (
-          <Table columns="40px 2fr 1fr 1fr 110px">
+          <Table columns={forecast ? "40px 2fr 1fr 1fr 110px 110px" : "40px 2fr 1fr 1fr 110px"}>
             <TableHead>
               <span>#</span>
               <span>{t("queue.table.dropGame")}</span>
               <span>{t("queue.table.watched")}</span>
               <span>{t("queue.table.progress")}</span>
               <span>{t("queue.table.status")}</span>
+              {forecast && <span>{t("queue.table.forecast")}</span>}
             </TableHead>
             {queued.map((item, idx) => {
               const isActive = !!(activeDrop && activeDrop.id === item.id);
@@ -169,11 +188,33 @@ export function QueuePanel({
                           : t("queue.pill.queued")}
                     </Pill>
                   </TableCell>
+                  {forecast && (
+                    <TableCell>
+                      <ForecastPill forecast={forecastById.get(item.id)} />
+                    </TableCell>
+                  )}
                 </TableRow>
               );
             })}
           </Table>
         )}
+        {forecast && forecast.drops.length > 0 && (
+          <div
+            className={cn(
+              "border-t border-[color:var(--dp-border-soft)] px-5 py-2 font-mono text-[10px] text-center",
+              forecast.missing > 0
+                ? "text-[color:var(--dp-signal-warn)]"
+                : "text-[color:var(--dp-text-dimmer)]",
+            )}
+          >
+            {t("queue.forecast.summary", {
+              finishing: forecast.finishing,
+              total: forecast.drops.length,
+            })}
+            {forecast.missing > 0 &&
+              ` · ${t("queue.forecast.atRisk", { count: forecast.missing })}`}
+          </div>
+        )}
         {/* Footer hint when filtered AND we hid drops from other games.
             Helps the user understand they're seeing a focused slice, not
             an exhaustive list. */}
@@ -186,3 +227,15 @@ export function QueuePanel({
     </Card>
   );
 }
+
+function ForecastPill({ forecast }: { forecast?: DropForecast }) {
+  const { t } = useI18n();
+  if (!forecast) return <span className="text-[color:var(--dp-text-dimmer)]">—</span>;
+  const label =
+    forecast.outcome === "finishes" && forecast.finishAt !== null
+      ? t("queue.forecast.finishes", {
+          eta: formatHourMinute(Math.max(0, (forecast.finishAt - Date.now()) / 60_000)),
+        })
+      : t(`queue.forecast.${forecast.outcome}`);
+  return <Pill tone={FORECAST_TONE[forecast.outcome]}>{label}</Pill>;
+}
@@ -0,0 +1,58 @@
+import * as React from "react";
+import { formatPercent } from "./formatters";
+import { useI18n } from "@renderer/shared/i18n";
+
+export type WatchSlotSummary = {
+  game: string;
+  /** Display name of the watched stream, empty while the slot looks for one. */
+  channel: string;
+  dropTitle?: string;
+  earnedMinutes?: number;
+  requiredMinutes?: number;
+};
+
+export type WatchSlotsPanelProps = {
+  slots: WatchSlotSummary[];
+};
+
+export function WatchSlotsPanel({ slots }: WatchSlotsPanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] px-4 py-4">
+      <span className="block font-mono text-[11px] uppercase tracking-[0.14em] text-[color:var(--dp-text-dim)] mb-3">
+        {t("slots.header")}
+      </span>
+      <div className="grid gap-3">
+        {slots.map((slot, index) => {
+          const required = slot.requiredMinutes ?? 0;
+          const progress =
+            required > 0 ? Math.round(((slot.earnedMinutes ?? 0) / required) * 100) : null;
+          const status = !slot.game
+            ? t("slots.idle")
+            : slot.channel
+              ? slot.channel
+              : t("slots.searching");
+          return (
+            <div key={index} className="grid gap-1 font-mono text-[11px]">
+              <div className="flex justify-between gap-2">
+                <span className="text-[color:var(--dp-text-dimmer)]">
+                  {t("slots.slot", { slot: index + 1 })}
+                </span>
+                <span className="truncate text-[color:var(--dp-text)]">{slot.game || "--"}</span>
+              </div>
+              <div className="flex justify-between gap-2 text-[color:var(--dp-text-dim)]">
+                <span className="truncate">{status}</span>
+                {progress !== null && (
+                  <span className="tabular-nums" title={slot.dropTitle}>
+                    {formatPercent(progress)}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { formatRelative, formatUptime } from "./formatters";
+import { formatRelative, formatUntil, formatUptime } from "./formatters";
 
 describe("formatRelative", () => {
   const now = 1_000_000_000_000;
@@ -36,3 +36,18 @@ describe("formatUptime", () => {
     expect(formatUptime(now, now)).toBe("0h 00m");
   });
 });
+
+describe("formatUntil", () => {
+  const now = 1_000_000_000_000;
+
+  it("counts down to future timestamps", () => {
+    expect(formatUntil(now + 5_000, now)).toBe("in 5s");
+    expect(formatUntil(now + 90_000, now)).toBe("in 2m");
+    expect(formatUntil(now + 75 * 60_000, now)).toBe("in 1h 15m");
+  });
+
+  it("reads 'now' once the timestamp has passed", () => {
+    expect(formatUntil(now, now)).toBe("now");
+    expect(formatUntil(now - 5_000, now)).toBe("now");
+  });
+});
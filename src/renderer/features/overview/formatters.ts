@@ -55,6 +55,17 @@ export function formatRelative(
   return `${days}d ago`;
 }
 
+/** Time left until a future timestamp, e.g. "in 4m"; past timestamps read "now". */
+export function formatUntil(timestamp: number, now: number = Date.now()): string {
+  if (!Number.isFinite(timestamp)) return "--";
+  const seconds = Math.ceil((timestamp - now) / 1000);
+  if (seconds <= 0) return "now";
+  if (seconds < 60) return `in ${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `in ${minutes}m`;
+  return `in ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 export function formatUptime(sinceMs: number, now: number = Date.now()): string {
   const diffMs = Math.max(0, now - sinceMs);
   const totalMinutes = Math.floor(diffMs / 60000);
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { isGamePattern } from "@renderer/shared/domain/gameName";
+import type { GamePatternMatch } from "@renderer/shared/hooks/priority";
+import { useI18n } from "@renderer/shared/i18n";
+import { describePatternPreview } from "./priorityHelpers";
+
+/** Live "matches …" line under an entry input; renders nothing for plain names. */
+export function PatternPreview({
+  entry,
+  previewPattern,
+}: {
+  entry: string;
+  previewPattern: (entry: string) => GamePatternMatch[] | null;
+}) {
+  const { t } = useI18n();
+  const trimmed = entry.trim();
+  const matches = React.useMemo(
+    () => (trimmed && isGamePattern(trimmed) ? previewPattern(trimmed) : undefined),
+    [previewPattern, trimmed],
+  );
+  if (matches === undefined) return null;
+  const { key, vars } = describePatternPreview(matches);
+  return (
+    <p
+      className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-2 truncate"
+      title={t(key, vars)}
+    >
+      {t(key, vars)}
+    </p>
+  );
+}
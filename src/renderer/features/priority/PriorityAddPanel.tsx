@@ -12,6 +12,9 @@ import {
 } from "@renderer/shared/components/ui/select";
 import { Plus } from "@renderer/shared/lib/icons";
 import { useI18n } from "@renderer/shared/i18n";
+import type { GamePatternMatch } from "@renderer/shared/hooks/priority";
+import type { PriorityStrategy } from "../../../shared/priorityStrategy";
+import { PatternPreview } from "./PatternPreview";
 
 const NO_GAME_SELECT_VALUE = "__dp_none__";
 
@@ -25,6 +28,9 @@ export type PriorityAddPanelProps = {
   addGame: () => void;
   obeyPriority: boolean;
   setObeyPriority: (val: boolean) => void;
+  priorityStrategy: PriorityStrategy;
+  setPriorityStrategy: (val: PriorityStrategy) => void;
+  previewPattern: (entry: string) => GamePatternMatch[] | null;
 };
 
 export function PriorityAddPanel({
@@ -37,6 +43,9 @@ export function PriorityAddPanel({
   addGame,
   obeyPriority,
   setObeyPriority,
+  priorityStrategy,
+  setPriorityStrategy,
+  previewPattern,
 }: PriorityAddPanelProps) {
   const { t } = useI18n();
   const hasSelectableSelectedGame = selectableDropGames.includes(selectedGame);
@@ -116,6 +125,7 @@ export function PriorityAddPanel({
             <Plus size={11} strokeWidth={2} /> {t("priorities.add.addButton")}
           </Button>
         </div>
+        <PatternPreview entry={newGame} previewPattern={previewPattern} />
       </div>
 
       <div className="rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] p-4 flex items-start gap-3">
@@ -135,6 +145,24 @@ export function PriorityAddPanel({
           </div>
         </label>
       </div>
+
+      <div className="rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] p-4 flex items-start gap-3">
+        <input
+          id="dp-deadline-priority"
+          type="checkbox"
+          checked={priorityStrategy === "deadline"}
+          onChange={(e) => setPriorityStrategy(e.target.checked ? "deadline" : "list")}
+          className="mt-0.5 h-4 w-4 cursor-pointer accent-[var(--dp-accent)]"
+        />
+        <label htmlFor="dp-deadline-priority" className="flex-1 cursor-pointer">
+          <div className="text-[12px] text-[color:var(--dp-text)] font-medium">
+            {t("priorities.add.deadlineLabel")}
+          </div>
+          <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-0.5">
+            {t("priorities.add.deadlineHint")}
+          </div>
+        </label>
+      </div>
     </div>
   );
 }
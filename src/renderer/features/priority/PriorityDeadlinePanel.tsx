@@ -0,0 +1,79 @@
+import * as React from "react";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import type { DeadlineRankEntry } from "@renderer/shared/hooks/priority";
+import { useI18n } from "@renderer/shared/i18n";
+import { describeDeadlineRank, padPriorityRank } from "./priorityHelpers";
+
+export type PriorityDeadlinePanelProps = {
+  ranking: DeadlineRankEntry[];
+  activeTargetGame: string;
+};
+
+const REASON_TONE: Record<DeadlineRankEntry["reason"], "warn" | "err" | "dim"> = {
+  "at-risk": "warn",
+  infeasible: "err",
+  "no-deadline": "dim",
+};
+
+export function PriorityDeadlinePanel({ ranking, activeTargetGame }: PriorityDeadlinePanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)]">
+      <div className="px-5 py-4 border-b border-[color:var(--dp-border-soft)]">
+        <SectionLabel inline>{t("priorities.deadline.title")}</SectionLabel>
+        <p className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1">
+          {t("priorities.deadline.hint")}
+        </p>
+      </div>
+      {ranking.length === 0 ? (
+        <p className="px-5 py-8 text-center font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.deadline.empty")}
+        </p>
+      ) : (
+        <ul className="list-none p-0 m-0">
+          {ranking.map((entry, index) => {
+            const reason = describeDeadlineRank(entry);
+            return (
+              <li
+                key={entry.game}
+                className="grid items-center gap-3 px-5 py-3 border-b border-[color:var(--dp-border-soft)] last:border-b-0"
+                style={{ gridTemplateColumns: "40px 1fr auto" }}
+              >
+                <span className="font-mono text-[12px] text-[color:var(--dp-text-dimmer)] tabular-nums">
+                  {padPriorityRank(index + 1)}
+                </span>
+                <div className="min-w-0">
+                  <div className="truncate text-[13px] text-[color:var(--dp-text)]">
+                    {entry.game}
+                    {entry.campaignName && (
+                      <span className="text-[color:var(--dp-text-dimmer)]">
+                        {" · "}
+                        {entry.campaignName}
+                      </span>
+                    )}
+                  </div>
+                  <div className="font-mono text-[10px] text-[color:var(--dp-text-dim)] mt-0.5 truncate">
+                    {t(reason.key, reason.vars)}
+                  </div>
+                </div>
+                {entry.game === activeTargetGame ? (
+                  <Pill tone="ok" dot>
+                    {t("priorities.state.target")}
+                  </Pill>
+                ) : (
+                  <Pill tone={REASON_TONE[entry.reason]}>
+                    {entry.pressure !== null && Number.isFinite(entry.pressure)
+                      ? `${Math.round(entry.pressure * 100)}%`
+                      : "—"}
+                  </Pill>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
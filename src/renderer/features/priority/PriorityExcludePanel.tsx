@@ -0,0 +1,148 @@
+import * as React from "react";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@renderer/shared/components/ui/select";
+import { Plus, X } from "@renderer/shared/lib/icons";
+import { useI18n } from "@renderer/shared/i18n";
+import { isGamePattern } from "@renderer/shared/domain/gameName";
+import type { GamePatternMatch } from "@renderer/shared/hooks/priority";
+import { PatternPreview } from "./PatternPreview";
+import { describePatternPreview, getSelectableDropGames } from "./priorityHelpers";
+
+const NO_GAME_SELECT_VALUE = "__dp_none__";
+
+export type PriorityExcludePanelProps = {
+  uniqueGames: string[];
+  excludeGames: string[];
+  setExcludeGames: (list: string[]) => void;
+  previewPattern: (entry: string) => GamePatternMatch[] | null;
+};
+
+export function PriorityExcludePanel({
+  uniqueGames,
+  excludeGames,
+  setExcludeGames,
+  previewPattern,
+}: PriorityExcludePanelProps) {
+  const { t } = useI18n();
+  const [selected, setSelected] = React.useState("");
+  const [typed, setTyped] = React.useState("");
+  const selectable = React.useMemo(
+    () => getSelectableDropGames(uniqueGames, excludeGames),
+    [excludeGames, uniqueGames],
+  );
+  const hasSelected = selectable.includes(selected);
+
+  const addSelected = () => {
+    if (!hasSelected) return;
+    setExcludeGames([...excludeGames, selected]);
+    setSelected("");
+  };
+
+  const addTyped = () => {
+    const entry = typed.trim();
+    if (!entry) return;
+    if (!excludeGames.includes(entry)) setExcludeGames([...excludeGames, entry]);
+    setTyped("");
+  };
+
+  const chipTitle = (entry: string): string | undefined => {
+    if (!isGamePattern(entry)) return undefined;
+    const { key, vars } = describePatternPreview(previewPattern(entry));
+    return t(key, vars);
+  };
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] p-5 flex flex-col gap-3">
+      <div>
+        <SectionLabel inline>{t("priorities.exclude.title")}</SectionLabel>
+        <p className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1">
+          {t("priorities.exclude.hint")}
+        </p>
+      </div>
+      {selectable.length > 0 && (
+        <div className="flex gap-2">
+          <Select
+            value={hasSelected ? selected : NO_GAME_SELECT_VALUE}
+            onValueChange={(value) => setSelected(value === NO_GAME_SELECT_VALUE ? "" : value)}
+          >
+            <SelectTrigger tone="dp" className="flex-1" aria-label={t("priorities.exclude.aria")}>
+              <SelectValue placeholder={t("priorities.add.selectPlaceholder")} />
+            </SelectTrigger>
+            <SelectContent tone="dp">
+              <SelectGroup>
+                <SelectItem value={NO_GAME_SELECT_VALUE}>
+                  {t("priorities.add.selectPlaceholder")}
+                </SelectItem>
+                {selectable.map((game) => (
+                  <SelectItem key={game} value={game}>
+                    {game}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          <Button variant="dp-outline" size="dp-md" onClick={addSelected} disabled={!hasSelected}>
+            <Plus size={11} strokeWidth={2} /> {t("priorities.add.addButton")}
+          </Button>
+        </div>
+      )}
+      <div>
+        <div className="flex gap-2">
+          <Input
+            tone="dp"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTyped();
+              }
+            }}
+            placeholder={t("priorities.exclude.patternPlaceholder")}
+            className="flex-1"
+            aria-label={t("priorities.exclude.patternAria")}
+          />
+          <Button variant="dp-outline" size="dp-md" onClick={addTyped} disabled={!typed.trim()}>
+            <Plus size={11} strokeWidth={2} /> {t("priorities.add.addButton")}
+          </Button>
+        </div>
+        <PatternPreview entry={typed} previewPattern={previewPattern} />
+      </div>
+      {excludeGames.length === 0 ? (
+        <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.exclude.empty")}
+        </div>
+      ) : (
+        <ul className="list-none p-0 m-0 flex flex-wrap gap-2">
+          {excludeGames.map((game) => (
+            <li
+              key={game}
+              title={chipTitle(game)}
+              className="inline-flex items-center gap-1 rounded-[var(--dp-radius-xs)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] pl-2 pr-1 py-0.5 font-mono text-[11px] text-[color:var(--dp-text-dim)]"
+            >
+              {game}
+              <button
+                type="button"
+                onClick={() => setExcludeGames(excludeGames.filter((entry) => entry !== game))}
+                aria-label={t("priorities.exclude.removeAria", { game })}
+                title={t("priorities.exclude.removeAria", { game })}
+                className="flex h-5 w-5 items-center justify-center rounded-[var(--dp-radius-xs)] text-[color:var(--dp-text-dimmer)] hover:text-[color:var(--dp-signal-err)]"
+              >
+                <X size={11} strokeWidth={1.8} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import * as React from "react";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import type { CompletionForecast, ForecastRescue } from "@renderer/shared/hooks/priority";
+import { useI18n } from "@renderer/shared/i18n";
+import { describeDropForecast, describeForecastRescue } from "./priorityHelpers";
+
+export type PriorityForecastPanelProps = {
+  forecast: CompletionForecast;
+  /** Applies a suggested reordering to the priority list. */
+  applyRescue: (game: string, before: string | null) => void;
+};
+
+const MAX_AT_RISK_ROWS = 6;
+
+export function PriorityForecastPanel({ forecast, applyRescue }: PriorityForecastPanelProps) {
+  const { t } = useI18n();
+  const atRisk = React.useMemo(
+    () => forecast.drops.filter((drop) => drop.outcome !== "finishes"),
+    [forecast],
+  );
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)]">
+      <div className="flex items-start justify-between gap-3 px-5 py-4 border-b border-[color:var(--dp-border-soft)]">
+        <div>
+          <SectionLabel inline>{t("priorities.forecast.title")}</SectionLabel>
+          <p className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1">
+            {t("priorities.forecast.hint")}
+          </p>
+        </div>
+        <Pill tone={forecast.missing > 0 ? "warn" : "ok"}>
+          {t("priorities.forecast.count", {
+            finishing: forecast.finishing,
+            total: forecast.drops.length,
+          })}
+        </Pill>
+      </div>
+      {atRisk.length === 0 ? (
+        <p className="px-5 py-6 text-center font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.forecast.allFinish")}
+        </p>
+      ) : (
+        <ul className="list-none p-0 m-0">
+          {atRisk.slice(0, MAX_AT_RISK_ROWS).map((drop) => {
+            const reason = describeDropForecast(drop);
+            return (
+              <li
+                key={drop.dropId}
+                className="grid items-center gap-3 px-5 py-2.5 border-b border-[color:var(--dp-border-soft)] last:border-b-0"
+                style={{ gridTemplateColumns: "1fr auto" }}
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-[13px] text-[color:var(--dp-text)]">
+                    {drop.game}
+                    <span className="text-[color:var(--dp-text-dimmer)]">
+                      {" · "}
+                      {drop.title}
+                    </span>
+                  </div>
+                  <div className="font-mono text-[10px] text-[color:var(--dp-text-dim)] mt-0.5 truncate">
+                    {t(reason.key, reason.vars)}
+                  </div>
+                </div>
+                <Pill tone={drop.outcome === "misses" ? "err" : "dim"}>
+                  {t(`priorities.forecast.outcome.${drop.outcome}`)}
+                </Pill>
+              </li>
+            );
+          })}
+          {atRisk.length > MAX_AT_RISK_ROWS && (
+            <li className="px-5 py-2 font-mono text-[10px] text-[color:var(--dp-text-dimmer)] text-center">
+              {t("priorities.forecast.more", { count: atRisk.length - MAX_AT_RISK_ROWS })}
+            </li>
+          )}
+        </ul>
+      )}
+      {forecast.rescues.length > 0 && (
+        <div className="flex flex-col gap-2 px-5 py-4 border-t border-[color:var(--dp-border-soft)]">
+          <SectionLabel inline>{t("priorities.forecast.rescues")}</SectionLabel>
+          {forecast.rescues.map((rescue) => (
+            <RescueRow key={rescue.game} rescue={rescue} applyRescue={applyRescue} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RescueRow({
+  rescue,
+  applyRescue,
+}: {
+  rescue: ForecastRescue;
+  applyRescue: PriorityForecastPanelProps["applyRescue"];
+}) {
+  const { t } = useI18n();
+  const text = describeForecastRescue(rescue);
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="min-w-0 truncate text-[12px] text-[color:var(--dp-text)]">
+        {t(text.key, text.vars)}
+      </span>
+      <Button
+        variant="dp-outline"
+        size="dp-sm"
+        onClick={() => applyRescue(rescue.game, rescue.before)}
+      >
+        {t("priorities.forecast.apply")}
+      </Button>
+    </div>
+  );
+}
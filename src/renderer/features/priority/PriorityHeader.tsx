@@ -9,6 +9,7 @@ export type PriorityHeaderProps = {
   watchingGame: string;
   topGame: string;
   obeyPriority: boolean;
+  deadlineMode?: boolean;
 };
 
 export function PriorityHeader({
@@ -18,14 +19,17 @@ export function PriorityHeader({
   watchingGame,
   topGame,
   obeyPriority,
+  deadlineMode = false,
 }: PriorityHeaderProps) {
   const { t } = useI18n();
   const currentTargetValue = activeTargetGame || "—";
   const currentTargetSub = watchingGame
     ? t("priorities.header.watchingNow", { game: watchingGame })
-    : obeyPriority
-      ? t("priorities.header.modeStrict")
-      : t("priorities.header.modeFlexible");
+    : deadlineMode
+      ? t("priorities.header.modeDeadline")
+      : obeyPriority
+        ? t("priorities.header.modeStrict")
+        : t("priorities.header.modeFlexible");
   const queueHealthValue = totalCount > 0 ? `${livePriorityCount}/${totalCount}` : "—";
   const topGameValue = topGame || "—";
   const rankedCountLabel = t(
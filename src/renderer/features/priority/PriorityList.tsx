@@ -16,8 +16,19 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { PriorityRow, PriorityRowOverlay } from "./PriorityRow";
-import { derivePriorityRowState } from "./priorityHelpers";
+import {
+  derivePriorityEntryState,
+  derivePriorityRowState,
+  describePatternPreview,
+} from "./priorityHelpers";
+import { isGamePattern } from "@renderer/shared/domain/gameName";
 import { useI18n } from "@renderer/shared/i18n";
+import {
+  findPriorityRule,
+  type GamePatternMatch,
+  type PriorityRuleBlock,
+} from "@renderer/shared/hooks/priority";
+import type { PriorityRule } from "../../../shared/priorityRules";
 
 export type PriorityListProps = {
   priorityGames: string[];
@@ -26,6 +37,10 @@ export type PriorityListProps = {
   liveGameSet: Set<string>;
   movePriorityGame: (active: string, over: string) => void;
   removeGame: (name: string) => void;
+  priorityRules: PriorityRule[];
+  updatePriorityRule: (rule: PriorityRule) => void;
+  ruleBlocks: Record<string, PriorityRuleBlock>;
+  previewPattern: (entry: string) => GamePatternMatch[] | null;
 };
 
 export function PriorityList({
@@ -35,8 +50,33 @@ export function PriorityList({
   liveGameSet,
   movePriorityGame,
   removeGame,
+  priorityRules,
+  updatePriorityRule,
+  ruleBlocks,
+  previewPattern,
 }: PriorityListProps) {
   const { t } = useI18n();
+  const patternMatches = React.useMemo(
+    () =>
+      new Map(
+        priorityGames
+          .filter((entry) => isGamePattern(entry))
+          .map((entry) => [entry, previewPattern(entry)] as const),
+      ),
+    [previewPattern, priorityGames],
+  );
+  const entryState = (entry: string) => {
+    if (!patternMatches.has(entry)) {
+      return derivePriorityRowState(entry, activeTargetGame, watchingGame, liveGameSet);
+    }
+    const games = (patternMatches.get(entry) ?? []).map((match) => match.game);
+    return derivePriorityEntryState(games, activeTargetGame, watchingGame, liveGameSet);
+  };
+  const entryPreview = (entry: string): string | undefined => {
+    if (!patternMatches.has(entry)) return undefined;
+    const { key, vars } = describePatternPreview(patternMatches.get(entry) ?? null);
+    return t(key, vars);
+  };
   const [activeId, setActiveId] = React.useState<string | null>(null);
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
@@ -92,19 +132,19 @@ export function PriorityList({
                 key={game}
                 rank={index + 1}
                 game={game}
-                state={derivePriorityRowState(game, activeTargetGame, watchingGame, liveGameSet)}
+                state={entryState(game)}
+                preview={entryPreview(game)}
+                rule={findPriorityRule(priorityRules, game) ?? { game }}
+                block={ruleBlocks[game]}
                 onRemove={removeGame}
+                onRuleChange={updatePriorityRule}
               />
             ))}
           </ul>
         </SortableContext>
         <DragOverlay>
           {activeId ? (
-            <PriorityRowOverlay
-              rank={activeRank}
-              game={activeId}
-              state={derivePriorityRowState(activeId, activeTargetGame, watchingGame, liveGameSet)}
-            />
+            <PriorityRowOverlay rank={activeRank} game={activeId} state={entryState(activeId)} />
           ) : null}
         </DragOverlay>
       </DndContext>
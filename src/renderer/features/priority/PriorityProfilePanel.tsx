@@ -0,0 +1,114 @@
+import * as React from "react";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@renderer/shared/components/ui/select";
+import { Plus, X } from "@renderer/shared/lib/icons";
+import { useI18n } from "@renderer/shared/i18n";
+import type { PriorityProfile } from "../../../shared/priorityProfiles";
+
+const NO_PROFILE_SELECT_VALUE = "__dp_none__";
+
+export type PriorityProfilePanelProps = {
+  priorityProfiles: PriorityProfile[];
+  activePriorityProfileId: string | null;
+  activatePriorityProfile: (id: string | null) => void;
+  createPriorityProfile: (name: string) => void;
+  deletePriorityProfile: (id: string) => void;
+};
+
+export function PriorityProfilePanel({
+  priorityProfiles,
+  activePriorityProfileId,
+  activatePriorityProfile,
+  createPriorityProfile,
+  deletePriorityProfile,
+}: PriorityProfilePanelProps) {
+  const { t } = useI18n();
+  const [name, setName] = React.useState("");
+  const activeProfile = priorityProfiles.find((profile) => profile.id === activePriorityProfileId);
+
+  const create = () => {
+    if (!name.trim()) return;
+    createPriorityProfile(name);
+    setName("");
+  };
+
+  return (
+    <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] p-5 flex flex-col gap-3">
+      <div>
+        <SectionLabel inline>{t("priorities.profiles.title")}</SectionLabel>
+        <p className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)] mt-1">
+          {t("priorities.profiles.hint")}
+        </p>
+      </div>
+      {priorityProfiles.length > 0 && (
+        <div className="flex gap-2">
+          <Select
+            value={activeProfile?.id ?? NO_PROFILE_SELECT_VALUE}
+            onValueChange={(value) =>
+              activatePriorityProfile(value === NO_PROFILE_SELECT_VALUE ? null : value)
+            }
+          >
+            <SelectTrigger tone="dp" className="flex-1" aria-label={t("priorities.profiles.aria")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent tone="dp">
+              <SelectGroup>
+                <SelectItem value={NO_PROFILE_SELECT_VALUE}>
+                  {t("priorities.profiles.none")}
+                </SelectItem>
+                {priorityProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="dp-outline"
+            size="dp-md"
+            onClick={() => activeProfile && deletePriorityProfile(activeProfile.id)}
+            disabled={!activeProfile}
+            aria-label={t("priorities.profiles.deleteAria", { name: activeProfile?.name ?? "" })}
+            title={t("priorities.profiles.deleteAria", { name: activeProfile?.name ?? "" })}
+          >
+            <X size={11} strokeWidth={2} />
+          </Button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          tone="dp"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              create();
+            }
+          }}
+          placeholder={t("priorities.profiles.namePlaceholder")}
+          className="flex-1"
+          aria-label={t("priorities.profiles.nameAria")}
+        />
+        <Button variant="dp-outline" size="dp-md" onClick={create} disabled={!name.trim()}>
+          <Plus size={11} strokeWidth={2} /> {t("priorities.profiles.saveButton")}
+        </Button>
+      </div>
+      {priorityProfiles.length > 1 && (
+        <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.profiles.shortcutHint")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,29 @@
 import * as React from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical, X } from "@renderer/shared/lib/icons";
+import { GripVertical, SlidersHorizontal, X } from "@renderer/shared/lib/icons";
 import { Pill } from "@renderer/shared/components/ui/pill";
 import { cn } from "@renderer/shared/lib/utils";
 import { useI18n } from "@renderer/shared/i18n";
-import { padPriorityRank, type PriorityRowState } from "./priorityHelpers";
+import type { PriorityRuleBlock } from "@renderer/shared/hooks/priority";
+import { hasPriorityRuleConstraints, type PriorityRule } from "../../../shared/priorityRules";
+import { PriorityRuleEditor } from "./PriorityRuleEditor";
+import { describeRuleBlock, padPriorityRank, type PriorityRowState } from "./priorityHelpers";
 
 export type PriorityRowProps = {
   rank: number;
   game: string;
   state: PriorityRowState;
+  rule: PriorityRule;
+  /** Set while the game's rule keeps it from being farmed. */
+  block?: PriorityRuleBlock;
+  /** What a pattern entry currently matches; omitted for plain names. */
+  preview?: string;
   onRemove: (game: string) => void;
+  onRuleChange: (rule: PriorityRule) => void;
 };
 
-const GRID_COLS = "32px 40px 1fr 150px 32px";
+const GRID_COLS = "32px 40px 1fr 150px 32px 32px";
 const ROW_BASE = "group grid items-center gap-3 px-4 h-[52px]";
 
 const STATE_TONE: Record<PriorityRowState, "accent" | "ok" | "info" | "dim"> = {
@@ -38,7 +47,20 @@ function useStateLabels(): Record<PriorityRowState, string> {
 }
 
 /** Shared visual cells (rank / name / status pill) — grid columns 2–4. */
-function RowCells({ rank, game, state }: { rank: number; game: string; state: PriorityRowState }) {
+function RowCells({
+  rank,
+  game,
+  state,
+  block,
+  preview,
+}: {
+  rank: number;
+  game: string;
+  state: PriorityRowState;
+  block?: PriorityRuleBlock;
+  preview?: string;
+}) {
+  const { t } = useI18n();
   const labels = useStateLabels();
   return (
     <>
@@ -54,20 +76,49 @@ function RowCells({ rank, game, state }: { rank: number; game: string; state: Pr
             style={{ boxShadow: "0 0 6px var(--dp-accent-glow)" }}
           />
         )}
-        <span className="truncate text-[13px] text-[color:var(--dp-text)]">{game}</span>
+        {preview === undefined ? (
+          <span className="truncate text-[13px] text-[color:var(--dp-text)]">{game}</span>
+        ) : (
+          <span className="flex min-w-0 flex-col">
+            <span className="truncate font-mono text-[12px] text-[color:var(--dp-text)]">
+              {game}
+            </span>
+            <span
+              className="truncate font-mono text-[10px] text-[color:var(--dp-text-dimmer)]"
+              title={preview}
+            >
+              {preview}
+            </span>
+          </span>
+        )}
       </span>
 
       <span className="flex justify-start">
-        <Pill tone={STATE_TONE[state]} dot={state === "watching" || state === "target"}>
-          {labels[state]}
-        </Pill>
+        {block ? (
+          <Pill tone="warn">{t(describeRuleBlock(block))}</Pill>
+        ) : (
+          <Pill tone={STATE_TONE[state]} dot={state === "watching" || state === "target"}>
+            {labels[state]}
+          </Pill>
+        )}
       </span>
     </>
   );
 }
 
-export function PriorityRow({ rank, game, state, onRemove }: PriorityRowProps) {
+export function PriorityRow({
+  rank,
+  game,
+  state,
+  rule,
+  block,
+  preview,
+  onRemove,
+  onRuleChange,
+}: PriorityRowProps) {
   const { t } = useI18n();
+  const [editing, setEditing] = React.useState(false);
+  const hasRules = hasPriorityRuleConstraints(rule);
 
   const {
     attributes,
@@ -82,7 +133,6 @@ export function PriorityRow({ rank, game, state, onRemove }: PriorityRowProps) {
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
     transition,
-    gridTemplateColumns: GRID_COLS,
     // While dragging, the visible "lifted" copy is rendered in the DragOverlay;
     // hide the original (keeps its slot) so there's no transform-reset flicker.
     opacity: isDragging ? 0 : 1,
@@ -92,44 +142,66 @@ export function PriorityRow({ rank, game, state, onRemove }: PriorityRowProps) {
     <li
       ref={setNodeRef}
       style={style}
-      className={cn(
-        ROW_BASE,
-        "border-b border-[color:var(--dp-border-soft)] last:border-b-0",
-        "transition-colors hover:bg-[color:var(--dp-bg-elevated-2)]",
-      )}
+      className="border-b border-[color:var(--dp-border-soft)] last:border-b-0"
     >
-      <button
-        type="button"
-        ref={setActivatorNodeRef}
-        {...attributes}
-        {...listeners}
-        aria-label={t("priorities.row.dragAria", { game })}
-        title={t("priorities.row.dragAria", { game })}
-        className={cn(
-          "flex h-6 w-6 cursor-grab items-center justify-center rounded-[var(--dp-radius-xs)] active:cursor-grabbing",
-          "text-[color:var(--dp-text-dimmer)] opacity-0 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-[color:var(--dp-accent)] group-hover:opacity-100",
-          "hover:bg-[color:var(--dp-bg-elevated)] hover:text-[color:var(--dp-text-dim)]",
-        )}
+      <div
+        style={{ gridTemplateColumns: GRID_COLS }}
+        className={cn(ROW_BASE, "transition-colors hover:bg-[color:var(--dp-bg-elevated-2)]")}
       >
-        <GripVertical size={13} strokeWidth={1.7} />
-      </button>
+        <button
+          type="button"
+          ref={setActivatorNodeRef}
+          {...attributes}
+          {...listeners}
+          aria-label={t("priorities.row.dragAria", { game })}
+          title={t("priorities.row.dragAria", { game })}
+          className={cn(
+            "flex h-6 w-6 cursor-grab items-center justify-center rounded-[var(--dp-radius-xs)] active:cursor-grabbing",
+            "text-[color:var(--dp-text-dimmer)] opacity-0 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-[color:var(--dp-accent)] group-hover:opacity-100",
+            "hover:bg-[color:var(--dp-bg-elevated)] hover:text-[color:var(--dp-text-dim)]",
+          )}
+        >
+          <GripVertical size={13} strokeWidth={1.7} />
+        </button>
 
-      <RowCells rank={rank} game={game} state={state} />
+        <RowCells rank={rank} game={game} state={state} block={block} preview={preview} />
 
-      <button
-        type="button"
-        onClick={() => onRemove(game)}
-        aria-label={t("priorities.row.removeAria", { game })}
-        title={t("priorities.row.removeAria", { game })}
-        className={cn(
-          "flex h-6 w-6 items-center justify-center rounded-[var(--dp-radius-xs)]",
-          "text-[color:var(--dp-text-dimmer)] opacity-0 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-[color:var(--dp-signal-err)] group-hover:opacity-100",
-          "hover:bg-[rgba(248,113,113,0.10)] hover:text-[color:var(--dp-signal-err)]",
-          "transition-colors",
-        )}
-      >
-        <X size={13} strokeWidth={1.8} />
-      </button>
+        <button
+          type="button"
+          onClick={() => setEditing((prev) => !prev)}
+          aria-expanded={editing}
+          aria-label={t("priorities.row.rulesAria", { game })}
+          title={t("priorities.row.rulesAria", { game })}
+          className={cn(
+            "flex h-6 w-6 items-center justify-center rounded-[var(--dp-radius-xs)]",
+            "focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-[color:var(--dp-accent)] group-hover:opacity-100",
+            "hover:bg-[color:var(--dp-bg-elevated)] transition-colors",
+            hasRules || editing
+              ? "text-[color:var(--dp-accent)]"
+              : "text-[color:var(--dp-text-dimmer)] opacity-0 hover:text-[color:var(--dp-text-dim)]",
+          )}
+        >
+          <SlidersHorizontal size={13} strokeWidth={1.8} />
+        </button>
+
+        <button
+          type="button"
+          onClick={() => onRemove(game)}
+          aria-label={t("priorities.row.removeAria", { game })}
+          title={t("priorities.row.removeAria", { game })}
+          className={cn(
+            "flex h-6 w-6 items-center justify-center rounded-[var(--dp-radius-xs)]",
+            "text-[color:var(--dp-text-dimmer)] opacity-0 focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-[color:var(--dp-signal-err)] group-hover:opacity-100",
+            "hover:bg-[rgba(248,113,113,0.10)] hover:text-[color:var(--dp-signal-err)]",
+            "transition-colors",
+          )}
+        >
+          <X size={13} strokeWidth={1.8} />
+        </button>
+      </div>
+      {editing && (
+        <PriorityRuleEditor rule={rule} onSave={onRuleChange} onClose={() => setEditing(false)} />
+      )}
     </li>
   );
 }
@@ -158,6 +230,7 @@ export function PriorityRowOverlay({
       </span>
       <RowCells rank={rank} game={game} state={state} />
       <span aria-hidden="true" />
+      <span aria-hidden="true" />
     </div>
   );
 }
@@ -0,0 +1,162 @@
+import * as React from "react";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
+import { cn } from "@renderer/shared/lib/utils";
+import { useI18n } from "@renderer/shared/i18n";
+import type { PriorityRule } from "../../../shared/priorityRules";
+import {
+  fromPriorityRuleDraft,
+  toPriorityRuleDraft,
+  type PriorityRuleDraft,
+} from "./priorityHelpers";
+
+/** Monday-first display order of `Date#getDay()` values. */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export type PriorityRuleEditorProps = {
+  rule: PriorityRule;
+  onSave: (rule: PriorityRule) => void;
+  onClose: () => void;
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="font-mono text-[10px] uppercase tracking-[0.08em] text-[color:var(--dp-text-dimmer)]">
+        {label}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+export function PriorityRuleEditor({ rule, onSave, onClose }: PriorityRuleEditorProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = React.useState<PriorityRuleDraft>(() => toPriorityRuleDraft(rule));
+
+  React.useEffect(() => {
+    setDraft(toPriorityRuleDraft(rule));
+  }, [rule]);
+
+  const update = (patch: Partial<PriorityRuleDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: draft.weekdays.includes(day)
+        ? draft.weekdays.filter((entry) => entry !== day)
+        : [...draft.weekdays, day],
+    });
+
+  const save = () => {
+    onSave(fromPriorityRuleDraft(rule.game, draft));
+    onClose();
+  };
+
+  const clear = () => {
+    onSave({ game: rule.game });
+    onClose();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] px-4 py-3">
+      <div className="grid grid-cols-3 gap-3">
+        <Field label={t("priorities.rules.hours")}>
+          <span className="flex items-center gap-1">
+            <Input
+              tone="dp"
+              type="number"
+              min={0}
+              max={24}
+              value={draft.hoursFrom}
+              onChange={(event) => update({ hoursFrom: event.target.value })}
+              aria-label={t("priorities.rules.hoursFrom")}
+            />
+            <span className="font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">–</span>
+            <Input
+              tone="dp"
+              type="number"
+              min={0}
+              max={24}
+              value={draft.hoursTo}
+              onChange={(event) => update({ hoursTo: event.target.value })}
+              aria-label={t("priorities.rules.hoursTo")}
+            />
+          </span>
+        </Field>
+        <Field label={t("priorities.rules.maxMinutesPerDay")}>
+          <Input
+            tone="dp"
+            type="number"
+            min={1}
+            value={draft.maxMinutesPerDay}
+            onChange={(event) => update({ maxMinutesPerDay: event.target.value })}
+          />
+        </Field>
+        <Field label={t("priorities.rules.language")}>
+          <Input
+            tone="dp"
+            maxLength={8}
+            placeholder="en"
+            value={draft.language}
+            onChange={(event) => update({ language: event.target.value })}
+          />
+        </Field>
+        <Field label={t("priorities.rules.stopAfterClaims")}>
+          <Input
+            tone="dp"
+            type="number"
+            min={1}
+            value={draft.stopAfterClaims}
+            onChange={(event) => update({ stopAfterClaims: event.target.value })}
+          />
+        </Field>
+        <Field label={t("priorities.rules.endsWithinDays")}>
+          <Input
+            tone="dp"
+            type="number"
+            min={1}
+            value={draft.endsWithinDays}
+            onChange={(event) => update({ endsWithinDays: event.target.value })}
+          />
+        </Field>
+      </div>
+      <div className="flex flex-col gap-1">
+        <span className="font-mono text-[10px] uppercase tracking-[0.08em] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.rules.weekdays")}
+        </span>
+        <div className="flex gap-1">
+          {WEEKDAY_ORDER.map((day) => {
+            const active = draft.weekdays.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                aria-pressed={active}
+                onClick={() => toggleWeekday(day)}
+                className={cn(
+                  "h-6 min-w-[32px] rounded-[var(--dp-radius-xs)] border px-1.5 font-mono text-[10px] transition-colors",
+                  active
+                    ? "border-[color:var(--dp-accent)] text-[color:var(--dp-accent)]"
+                    : "border-[color:var(--dp-border-soft)] text-[color:var(--dp-text-dimmer)] hover:text-[color:var(--dp-text-dim)]",
+                )}
+              >
+                {t(`priorities.rules.weekday.${day}`)}
+              </button>
+            );
+          })}
+        </div>
+        <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {t("priorities.rules.hint")}
+        </span>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="dp-ghost" size="dp-sm" onClick={clear}>
+          {t("priorities.rules.clear")}
+        </Button>
+        <Button variant="dp-outline" size="dp-sm" onClick={save}>
+          {t("priorities.rules.save")}
+        </Button>
+      </div>
+    </div>
+  );
+}
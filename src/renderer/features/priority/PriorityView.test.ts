@@ -1,5 +1,13 @@
 import { describe, expect, it } from "vitest";
 import { getSelectableDropGames } from "./PriorityView";
+import {
+  derivePriorityEntryState,
+  describeDeadlineRank,
+  describeForecastRescue,
+  describePatternPreview,
+  fromPriorityRuleDraft,
+  toPriorityRuleDraft,
+} from "./priorityHelpers";
 
 describe("getSelectableDropGames", () => {
   it("filters out games that are already in the priority list", () => {
@@ -14,3 +22,101 @@ describe("getSelectableDropGames", () => {
     expect(getSelectableDropGames(["Rust", "WoW"], ["Rust", "WoW"])).toEqual([]);
   });
 });
+
+describe("describeDeadlineRank", () => {
+  it("explains at-risk, infeasible and undated positions", () => {
+    expect(
+      describeDeadlineRank({
+        game: "Rust",
+        reason: "at-risk",
+        remainingMinutes: 90,
+        minutesLeft: 180,
+        pressure: 0.5,
+      }),
+    ).toEqual({
+      key: "priorities.deadline.reason.atRisk",
+      vars: { remaining: "1h 30m", left: "3h 00m", pressure: "50%" },
+    });
+    expect(
+      describeDeadlineRank({
+        game: "Rust",
+        reason: "infeasible",
+        remainingMinutes: 300,
+        minutesLeft: 60,
+        pressure: 5,
+      }).key,
+    ).toBe("priorities.deadline.reason.infeasible");
+    expect(
+      describeDeadlineRank({
+        game: "Rust",
+        reason: "no-deadline",
+        remainingMinutes: 30,
+        minutesLeft: null,
+        pressure: null,
+      }).vars,
+    ).toEqual({ remaining: "0h 30m" });
+  });
+});
+
+describe("priority rule drafts", () => {
+  it("round-trips a rule and drops blank or incomplete fields", () => {
+    const rule = {
+      game: "Rust",
+      hours: { from: 22, to: 2 },
+      weekdays: [5, 6],
+      maxMinutesPerDay: 120,
+      language: "de",
+    };
+    expect(fromPriorityRuleDraft("Rust", toPriorityRuleDraft(rule))).toEqual(rule);
+    expect(
+      fromPriorityRuleDraft("Rust", {
+        ...toPriorityRuleDraft({ game: "Rust" }),
+        hoursFrom: "8",
+        stopAfterClaims: "0",
+        endsWithinDays: " 3 ",
+      }),
+    ).toEqual({ game: "Rust", endsWithinDays: 3 });
+  });
+});
+
+describe("pattern entries", () => {
+  it("previews matches and flags invalid patterns", () => {
+    expect(describePatternPreview(null).key).toBe("priorities.pattern.invalid");
+    expect(describePatternPreview([]).key).toBe("priorities.pattern.none");
+    expect(
+      describePatternPreview([
+        { game: "Call of Duty: Warzone", campaigns: ["Season 3", "BlackCell"] },
+        { game: "Call of Duty: Black Ops 6", campaigns: [] },
+      ]),
+    ).toEqual({
+      key: "priorities.pattern.matches",
+      vars: { games: "Call of Duty: Warzone (Season 3, BlackCell); Call of Duty: Black Ops 6" },
+    });
+  });
+
+  it("takes the most active state among matched games", () => {
+    const live = new Set(["Call of Duty: Warzone", "Call of Duty: Black Ops 6"]);
+    expect(
+      derivePriorityEntryState(
+        ["Call of Duty: Warzone", "Call of Duty: Black Ops 6"],
+        "Call of Duty: Black Ops 6",
+        "",
+        live,
+      ),
+    ).toBe("target");
+    expect(derivePriorityEntryState([], "", "", live)).toBe("idle");
+  });
+});
+
+describe("describeForecastRescue", () => {
+  it("describes moving a game up or adding it to the list", () => {
+    expect(describeForecastRescue({ game: "Rust", before: "WoW", rescuedDrops: 2 })).toEqual({
+      key: "priorities.forecast.rescue.move.other",
+      vars: { game: "Rust", before: "WoW", count: "2" },
+    });
+    expect(describeForecastRescue({ game: "Rust", before: null, rescuedDrops: 1 })).toEqual({
+      key: "priorities.forecast.rescue.append.one",
+      vars: { game: "Rust", count: "1" },
+    });
+  });
+});
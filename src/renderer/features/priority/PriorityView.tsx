@@ -2,6 +2,19 @@ import * as React from "react";
 import { PriorityHeader } from "./PriorityHeader";
 import { PriorityAddPanel } from "./PriorityAddPanel";
 import { PriorityList } from "./PriorityList";
+import { PriorityDeadlinePanel } from "./PriorityDeadlinePanel";
+import { PriorityForecastPanel } from "./PriorityForecastPanel";
+import { PriorityExcludePanel } from "./PriorityExcludePanel";
+import { PriorityProfilePanel } from "./PriorityProfilePanel";
+import type {
+  CompletionForecast,
+  DeadlineRankEntry,
+  GamePatternMatch,
+  PriorityRuleBlock,
+} from "@renderer/shared/hooks/priority";
+import type { PriorityProfile } from "../../../shared/priorityProfiles";
+import type { PriorityRule } from "../../../shared/priorityRules";
+import type { PriorityStrategy } from "../../../shared/priorityStrategy";
 import { getSelectableDropGames } from "./priorityHelpers";
 
 // Re-export for PriorityView.test.ts (back-compat)
@@ -22,6 +35,26 @@ type PriorityViewProps = {
   movePriorityGame: (activeGame: string, overGame: string) => void;
   obeyPriority: boolean;
   setObeyPriority: (val: boolean) => void;
+  priorityStrategy: PriorityStrategy;
+  setPriorityStrategy: (val: PriorityStrategy) => void;
+  /** Deadline-mode ranking with the reason behind each position. */
+  deadlineRanking: DeadlineRankEntry[];
+  /** Which earnable drops the current order finishes, with suggested reorderings. */
+  completionForecast: CompletionForecast;
+  applyForecastRescue: (game: string, before: string | null) => void;
+  excludeGames: string[];
+  setExcludeGames: (list: string[]) => void;
+  priorityRules: PriorityRule[];
+  updatePriorityRule: (rule: PriorityRule) => void;
+  /** Rule games currently held back, with the reason. */
+  ruleBlocks: Record<string, PriorityRuleBlock>;
+  priorityProfiles: PriorityProfile[];
+  activePriorityProfileId: string | null;
+  activatePriorityProfile: (id: string | null) => void;
+  createPriorityProfile: (name: string) => void;
+  deletePriorityProfile: (id: string) => void;
+  /** Current games and campaigns a priority or exclude entry matches. */
+  previewPattern: (entry: string) => GamePatternMatch[] | null;
 };
 
 export function PriorityView({
@@ -39,6 +72,22 @@ export function PriorityView({
   movePriorityGame,
   obeyPriority,
   setObeyPriority,
+  priorityStrategy,
+  setPriorityStrategy,
+  deadlineRanking,
+  completionForecast,
+  applyForecastRescue,
+  excludeGames,
+  setExcludeGames,
+  priorityRules,
+  updatePriorityRule,
+  ruleBlocks,
+  priorityProfiles,
+  activePriorityProfileId,
+  activatePriorityProfile,
+  createPriorityProfile,
+  deletePriorityProfile,
+  previewPattern,
 }: PriorityViewProps) {
   const selectableDropGames = React.useMemo(
     () => getSelectableDropGames(uniqueGames, priorityGames),
@@ -52,7 +101,8 @@ export function PriorityView({
     [priorityGames, liveGameSet],
   );
 
-  const topGame = priorityGames[0] ?? "";
+  const deadlineMode = priorityStrategy === "deadline";
+  const topGame = deadlineMode ? (deadlineRanking[0]?.game ?? "") : (priorityGames[0] ?? "");
 
   const hasSelectableSelectedGame = selectableDropGames.includes(selectedGame);
   React.useEffect(() => {
@@ -69,29 +119,63 @@ export function PriorityView({
         watchingGame={watchingGame}
         topGame={topGame}
         obeyPriority={obeyPriority}
+        deadlineMode={deadlineMode}
       />
 
       <div className="grid gap-5" style={{ gridTemplateColumns: "minmax(320px, 1fr) 1.4fr" }}>
-        <PriorityAddPanel
-          selectableDropGames={selectableDropGames}
-          selectedGame={selectedGame}
-          setSelectedGame={setSelectedGame}
-          addGameFromSelect={addGameFromSelect}
-          newGame={newGame}
-          setNewGame={setNewGame}
-          addGame={addGame}
-          obeyPriority={obeyPriority}
-          setObeyPriority={setObeyPriority}
-        />
+        <div className="flex flex-col gap-5">
+          <PriorityProfilePanel
+            priorityProfiles={priorityProfiles}
+            activePriorityProfileId={activePriorityProfileId}
+            activatePriorityProfile={activatePriorityProfile}
+            createPriorityProfile={createPriorityProfile}
+            deletePriorityProfile={deletePriorityProfile}
+          />
+          <PriorityAddPanel
+            selectableDropGames={selectableDropGames}
+            selectedGame={selectedGame}
+            setSelectedGame={setSelectedGame}
+            addGameFromSelect={addGameFromSelect}
+            newGame={newGame}
+            setNewGame={setNewGame}
+            addGame={addGame}
+            obeyPriority={obeyPriority}
+            setObeyPriority={setObeyPriority}
+            priorityStrategy={priorityStrategy}
+            setPriorityStrategy={setPriorityStrategy}
+            previewPattern={previewPattern}
+          />
+          <PriorityExcludePanel
+            uniqueGames={uniqueGames}
+            excludeGames={excludeGames}
+            setExcludeGames={setExcludeGames}
+            previewPattern={previewPattern}
+          />
+        </div>
 
-        <PriorityList
-          priorityGames={priorityGames}
-          activeTargetGame={activeTargetGame}
-          watchingGame={watchingGame}
-          liveGameSet={liveGameSet}
-          movePriorityGame={movePriorityGame}
-          removeGame={removeGame}
-        />
+        <div className="flex flex-col gap-5">
+          {deadlineMode && (
+            <PriorityDeadlinePanel ranking={deadlineRanking} activeTargetGame={activeTargetGame} />
+          )}
+          {completionForecast.drops.length > 0 && (
+            <PriorityForecastPanel
+              forecast={completionForecast}
+              applyRescue={applyForecastRescue}
+            />
+          )}
+          <PriorityList
+            priorityGames={priorityGames}
+            activeTargetGame={activeTargetGame}
+            watchingGame={watchingGame}
+            liveGameSet={liveGameSet}
+            movePriorityGame={movePriorityGame}
+            removeGame={removeGame}
+            priorityRules={priorityRules}
+            updatePriorityRule={updatePriorityRule}
+            ruleBlocks={ruleBlocks}
+            previewPattern={previewPattern}
+          />
+        </div>
       </div>
     </div>
   );
@@ -2,6 +2,15 @@
  * Helpers for the Priorities view. Pure functions, no React.
  */
 import { sameGameName } from "@renderer/shared/domain/gameName";
+import type {
+  DeadlineRankEntry,
+  DropForecast,
+  ForecastRescue,
+  GamePatternMatch,
+  PriorityRuleBlock,
+} from "@renderer/shared/hooks/priority";
+import { normalizePriorityRule, type PriorityRule } from "../../../shared/priorityRules";
+import { formatHourMinute, formatPercent } from "@renderer/features/overview/formatters";
 
 export const getSelectableDropGames = (uniqueGames: string[], priorityGames: string[]): string[] =>
   uniqueGames.filter((game) => !priorityGames.includes(game));
@@ -20,6 +29,129 @@ export const derivePriorityRowState = (
   return "idle";
 };
 
+const STATE_RANK: Record<PriorityRowState, number> = { watching: 0, target: 1, live: 2, idle: 3 };
+
+/** Row state of a pattern entry: the most active state among the games it matches. */
+export const derivePriorityEntryState = (
+  games: string[],
+  activeTargetGame: string,
+  watchingGame: string,
+  liveGameSet: Set<string>,
+): PriorityRowState =>
+  games.reduce<PriorityRowState>((best, game) => {
+    const state = derivePriorityRowState(game, activeTargetGame, watchingGame, liveGameSet);
+    return STATE_RANK[state] < STATE_RANK[best] ? state : best;
+  }, "idle");
+
+/** i18n key + values previewing what a pattern entry currently matches. */
+export const describePatternPreview = (
+  matches: GamePatternMatch[] | null,
+): { key: string; vars: Record<string, string> } => {
+  if (matches === null) return { key: "priorities.pattern.invalid", vars: {} };
+  if (matches.length === 0) return { key: "priorities.pattern.none", vars: {} };
+  const games = matches
+    .map((match) =>
+      match.campaigns.length ? `${match.game} (${match.campaigns.join(", ")})` : match.game,
+    )
+    .join("; ");
+  return { key: "priorities.pattern.matches", vars: { games } };
+};
+
 /** Pad rank to fixed-width mono display (e.g. "01", "02", ..., "12"). */
 export const padPriorityRank = (rank: number, width: number = 2): string =>
   String(Math.max(1, Math.floor(rank))).padStart(width, "0");
+
+/** i18n key + values explaining a game's place in the deadline ranking. */
+export const describeDeadlineRank = (
+  entry: DeadlineRankEntry,
+): { key: string; vars: Record<string, string> } => {
+  const remaining = formatHourMinute(entry.remainingMinutes);
+  const left = entry.minutesLeft === null ? "" : formatHourMinute(entry.minutesLeft);
+  switch (entry.reason) {
+    case "at-risk":
+      return {
+        key: "priorities.deadline.reason.atRisk",
+        vars: { remaining, left, pressure: formatPercent((entry.pressure ?? 0) * 100) },
+      };
+    case "infeasible":
+      return { key: "priorities.deadline.reason.infeasible", vars: { remaining, left } };
+    default:
+      return { key: "priorities.deadline.reason.noDeadline", vars: { remaining } };
+  }
+};
+
+/** i18n key + values explaining why the forecast expects a drop to be missed. */
+export const describeDropForecast = (
+  drop: DropForecast,
+): { key: string; vars: Record<string, string> } => {
+  const remaining = formatHourMinute(drop.remainingMinutes);
+  return drop.outcome === "unscheduled"
+    ? { key: "priorities.forecast.reason.unscheduled", vars: { remaining } }
+    : { key: "priorities.forecast.reason.misses", vars: { remaining } };
+};
+
+/** i18n key + values for a suggested reordering. */
+export const describeForecastRescue = (
+  rescue: ForecastRescue,
+): { key: string; vars: Record<string, string> } => {
+  const plural = rescue.rescuedDrops === 1 ? "one" : "other";
+  const vars = { game: rescue.game, count: String(rescue.rescuedDrops) };
+  return rescue.before === null
+    ? { key: `priorities.forecast.rescue.append.${plural}`, vars }
+    : {
+        key: `priorities.forecast.rescue.move.${plural}`,
+        vars: { ...vars, before: rescue.before },
+      };
+};
+
+/** Text fields of the rule editor; blank means "no constraint". */
+export type PriorityRuleDraft = {
+  hoursFrom: string;
+  hoursTo: string;
+  weekdays: number[];
+  maxMinutesPerDay: string;
+  stopAfterClaims: string;
+  endsWithinDays: string;
+  language: string;
+};
+
+const numberField = (value: number | undefined): string =>
+  value === undefined ? "" : String(value);
+
+export const toPriorityRuleDraft = (rule: PriorityRule): PriorityRuleDraft => ({
+  hoursFrom: numberField(rule.hours?.from),
+  hoursTo: numberField(rule.hours?.to),
+  weekdays: rule.weekdays ?? [],
+  maxMinutesPerDay: numberField(rule.maxMinutesPerDay),
+  stopAfterClaims: numberField(rule.stopAfterClaims),
+  endsWithinDays: numberField(rule.endsWithinDays),
+  language: rule.language ?? "",
+});
+
+const parseField = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : undefined;
+};
+
+/** Builds a normalized rule; invalid or incomplete fields are dropped. */
+export const fromPriorityRuleDraft = (game: string, draft: PriorityRuleDraft): PriorityRule =>
+  normalizePriorityRule({
+    game,
+    hours: { from: parseField(draft.hoursFrom), to: parseField(draft.hoursTo) },
+    weekdays: draft.weekdays,
+    maxMinutesPerDay: parseField(draft.maxMinutesPerDay),
+    stopAfterClaims: parseField(draft.stopAfterClaims),
+    endsWithinDays: parseField(draft.endsWithinDays),
+    language: draft.language,
+  }) ?? { game };
+
+const RULE_BLOCK_KEYS: Record<PriorityRuleBlock, string> = {
+  weekday: "priorities.rules.block.weekday",
+  hours: "priorities.rules.block.hours",
+  "daily-budget": "priorities.rules.block.dailyBudget",
+  "claim-limit": "priorities.rules.block.claimLimit",
+  "ends-too-late": "priorities.rules.block.endsTooLate",
+};
+
+/** i18n key of the pill explaining why a rule holds its game back. */
+export const describeRuleBlock = (block: PriorityRuleBlock): string => RULE_BLOCK_KEYS[block];
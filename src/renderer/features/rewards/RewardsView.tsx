@@ -0,0 +1,190 @@
+import * as React from "react";
+import { Table, TableHead, TableRow, TableCell } from "@renderer/shared/components/ui/table";
+import { Pill } from "@renderer/shared/components/ui/pill";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
+import { Download, Search } from "@renderer/shared/lib/icons";
+import { formatHourMinute } from "@renderer/features/overview/formatters";
+import { useI18n } from "@renderer/shared/i18n";
+import type { ClaimLedgerExportResult } from "@renderer/shared/hooks/app/useClaimLedger";
+import { searchClaimLedger, type ClaimLedger, type ClaimSource } from "../../../shared/claimLedger";
+
+export type RewardsViewProps = {
+  ledger: ClaimLedger;
+  exportLedger: (format: "csv" | "json") => Promise<ClaimLedgerExportResult>;
+};
+
+const COLUMNS_TEMPLATE = "36px 2fr 1.2fr 1fr 90px 90px 130px";
+
+const SOURCE_TONE: Record<ClaimSource, "accent" | "info" | "dim"> = {
+  auto: "accent",
+  manual: "info",
+  pubsub: "dim",
+};
+
+export function RewardsView({ ledger, exportLedger }: RewardsViewProps) {
+  const { t, language } = useI18n();
+  const [search, setSearch] = React.useState("");
+  const [exporting, setExporting] = React.useState(false);
+  const [exportStatus, setExportStatus] = React.useState<{
+    tone: "ok" | "err";
+    message: string;
+  } | null>(null);
+  const entries = React.useMemo(() => searchClaimLedger(ledger, search), [ledger, search]);
+  const locale = language === "de" ? "de-DE" : "en-US";
+
+  const runExport = async (format: "csv" | "json") => {
+    setExporting(true);
+    setExportStatus(null);
+    try {
+      const res = await exportLedger(format);
+      if (res.ok) {
+        setExportStatus({
+          tone: "ok",
+          message: t("rewards.export.done", { count: res.count, path: res.path }),
+        });
+      } else if (!res.canceled) {
+        setExportStatus({
+          tone: "err",
+          message: t("rewards.export.failed", { message: res.message ?? "" }),
+        });
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-[22px] font-medium tracking-[-0.01em] text-[color:var(--dp-text)] leading-tight">
+            {t("rewards.title")}
+          </h2>
+          <div className="font-mono text-[10px] uppercase tracking-[0.12em] text-[color:var(--dp-text-dimmer)] mt-1">
+            {t("rewards.countOf", { shown: entries.length, total: ledger.length })}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <Search
+              size={13}
+              strokeWidth={1.7}
+              className="absolute left-2.5 top-1/2 -translate-y-1/2 text-[color:var(--dp-text-dimmer)] pointer-events-none"
+            />
+            <Input
+              tone="dp"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t("rewards.searchPlaceholder")}
+              className="pl-7 w-[220px]"
+            />
+          </div>
+          <Button
+            variant="dp-secondary"
+            size="dp-md"
+            onClick={() => void runExport("csv")}
+            disabled={exporting || ledger.length === 0}
+          >
+            <Download size={11} strokeWidth={1.8} />
+            {t("rewards.export.csv")}
+          </Button>
+          <Button
+            variant="dp-secondary"
+            size="dp-md"
+            onClick={() => void runExport("json")}
+            disabled={exporting || ledger.length === 0}
+          >
+            <Download size={11} strokeWidth={1.8} />
+            {t("rewards.export.json")}
+          </Button>
+        </div>
+      </div>
+
+      {exportStatus && (
+        <div
+          className={
+            exportStatus.tone === "ok"
+              ? "font-mono text-[11px] text-[color:var(--dp-signal-ok)]"
+              : "font-mono text-[11px] text-[color:var(--dp-signal-err)]"
+          }
+        >
+          {exportStatus.message}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] px-5 py-12 text-center">
+          <p className="font-mono text-[11px] text-[color:var(--dp-text-dimmer)]">
+            {ledger.length === 0 ? t("rewards.empty") : t("rewards.noMatches")}
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-[var(--dp-radius-lg)] border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated)] overflow-hidden">
+          <Table columns={COLUMNS_TEMPLATE}>
+            <TableHead>
+              <span />
+              <span>{t("rewards.column.reward")}</span>
+              <span>{t("rewards.column.campaign")}</span>
+              <span>{t("rewards.column.channel")}</span>
+              <span>{t("rewards.column.minutes")}</span>
+              <span>{t("rewards.column.source")}</span>
+              <span>{t("rewards.column.claimedAt")}</span>
+            </TableHead>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  <RewardThumb url={entry.imageUrl} game={entry.game} />
+                </TableCell>
+                <TableCell>
+                  <div className="truncate text-[color:var(--dp-text)]">{entry.title}</div>
+                  <div className="font-mono text-[11px] text-[color:var(--dp-text-dimmer)] mt-0.5 truncate">
+                    {entry.game || "—"}
+                  </div>
+                </TableCell>
+                <TableCell dim={!entry.campaignName}>{entry.campaignName || "—"}</TableCell>
+                <TableCell mono dim={!entry.channel}>
+                  {entry.channel || "—"}
+                </TableCell>
+                <TableCell mono>{formatHourMinute(entry.minutes)}</TableCell>
+                <TableCell>
+                  <Pill tone={SOURCE_TONE[entry.source]}>
+                    {t(`rewards.source.${entry.source}`)}
+                  </Pill>
+                </TableCell>
+                <TableCell mono dim>
+                  {new Date(entry.claimedAt).toLocaleString(locale, {
+                    dateStyle: "short",
+                    timeStyle: "short",
+                  })}
+                </TableCell>
+              </TableRow>
+            ))}
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RewardThumb({ url, game }: { url: string; game: string }) {
+  if (url) {
+    return (
+      <img
+        src={url}
+        alt=""
+        loading="lazy"
+        className="block w-9 h-9 rounded-[var(--dp-radius-md)] object-cover border border-[color:var(--dp-border)] bg-[color:var(--dp-bg-elevated-2)]"
+      />
+    );
+  }
+  const initials = (game || "?").trim().slice(0, 2).toUpperCase();
+  return (
+    <div
+      aria-hidden="true"
+      className="flex items-center justify-center w-9 h-9 rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border)] bg-[color:var(--dp-accent-soft)] font-mono text-[10px] text-[color:var(--dp-accent)]"
+    >
+      {initials}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RewardsView } from "./RewardsView";
@@ -7,12 +7,14 @@ import {
   AlertTriangle,
   User,
   Bug,
+  Star,
 } from "@renderer/shared/lib/icons";
 import { cn } from "@renderer/shared/lib/utils";
 
 export type SettingsSectionKey =
   | "general"
   | "engine"
+  | "streamers"
   | "appearance"
   | "updates"
   | "alerts"
@@ -36,6 +38,7 @@ const ICON_MAP: Record<
 > = {
   general: SettingsIcon,
   engine: Play,
+  streamers: Star,
   appearance: Sun,
   updates: Download,
   alerts: AlertTriangle,
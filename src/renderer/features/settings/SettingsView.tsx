@@ -1,10 +1,17 @@
 import * as React from "react";
 import type { ThemePreference } from "@renderer/shared/theme";
 import type { UpdateChannel } from "../../../shared/updateChannels";
+import type { WatchSlotCount } from "../../../shared/watchSlots";
+import type { ChannelScoringSettings } from "../../../shared/channelScoring";
+import type { StreamerLists } from "../../../shared/streamerLists";
+import type { FarmSchedule } from "../../../shared/farmSchedule";
+import type { AccountsHook } from "@renderer/shared/hooks/app/useAccounts";
+import type { SessionHealth, SessionVaultState } from "@renderer/shared/types";
 import { SettingsSidebar, type SettingsSectionKey } from "./SettingsSidebar";
 import { useSettingsViewState } from "./useSettingsViewState";
 import { GeneralSection } from "./sections/GeneralSection";
 import { EngineSection } from "./sections/EngineSection";
+import { StreamersSection } from "./sections/StreamersSection";
 import { AppearanceSection } from "./sections/AppearanceSection";
 import { UpdatesSection } from "./sections/UpdatesSection";
 import { AlertsSection } from "./sections/AlertsSection";
@@ -16,6 +23,10 @@ type SettingsProps = {
   isLinked: boolean;
   onLogout: () => void;
   onLogin: () => void;
+  accounts: AccountsHook;
+  vault: SessionVaultState | null;
+  sessionHealth: SessionHealth | null;
+  onUnlockVault: (passphrase: string) => Promise<string | null>;
   language: "de" | "en";
   setLanguage: (val: "de" | "en") => void;
   theme: ThemePreference;
@@ -34,6 +45,18 @@ type SettingsProps = {
   setAutoSwitchEnabled: (val: boolean) => void;
   warmupEnabled: boolean;
   setWarmupEnabled: (val: boolean) => void;
+  watchSlots: WatchSlotCount;
+  setWatchSlots: (val: WatchSlotCount) => void;
+  channelScoring: ChannelScoringSettings;
+  setChannelScoring: (val: ChannelScoringSettings) => void;
+  channelDirectoryPages: number;
+  channelLanguageFilter: string[];
+  saveChannelDirectory: (pages: number, languages: string[]) => void;
+  farmSchedule: FarmSchedule;
+  saveFarmSchedule: (val: FarmSchedule) => void;
+  favoriteChannels: string[];
+  blockedChannels: string[];
+  saveStreamerLists: (val: StreamerLists) => void;
   updateChannel: UpdateChannel;
   setUpdateChannel: (val: UpdateChannel) => void;
   demoMode: boolean;
@@ -64,6 +87,8 @@ type SettingsProps = {
   setCloseToTray: (val: boolean) => void;
   minimizeToTray: boolean;
   setMinimizeToTray: (val: boolean) => void;
+  proxyUrl: string;
+  setProxyUrl: (val: string) => void;
   sendTestAlert: () => void;
   refreshMinMs: number;
   refreshMaxMs: number;
@@ -106,6 +131,7 @@ export function SettingsView(props: SettingsProps) {
   const items: { key: SettingsSectionKey; label: string }[] = [
     { key: "general", label: t("settings.section.general.sidebar") },
     { key: "engine", label: t("settings.section.engine.sidebar") },
+    { key: "streamers", label: t("settings.section.streamers.sidebar") },
     { key: "appearance", label: t("settings.section.appearance.sidebar") },
     ...(props.showUpdateCheck
       ? [{ key: "updates" as SettingsSectionKey, label: t("settings.section.updates.sidebar") }]
@@ -118,6 +144,7 @@ export function SettingsView(props: SettingsProps) {
   const sectionTitle: Record<SettingsSectionKey, string> = {
     general: t("settings.section.general"),
     engine: t("settings.section.engine"),
+    streamers: t("settings.section.streamers"),
     appearance: t("settings.section.appearance"),
     updates: t("settings.section.updates"),
     alerts: t("settings.section.alerts"),
@@ -146,6 +173,8 @@ export function SettingsView(props: SettingsProps) {
               setLanguage={props.setLanguage}
               demoMode={props.demoMode}
               setDemoMode={props.setDemoMode}
+              farmSchedule={props.farmSchedule}
+              saveFarmSchedule={props.saveFarmSchedule}
               sendTestAlert={props.sendTestAlert}
             />
           )}
@@ -162,6 +191,13 @@ export function SettingsView(props: SettingsProps) {
               setAutoSwitchEnabled={props.setAutoSwitchEnabled}
               warmupEnabled={props.warmupEnabled}
               setWarmupEnabled={props.setWarmupEnabled}
+              watchSlots={props.watchSlots}
+              setWatchSlots={props.setWatchSlots}
+              channelScoring={props.channelScoring}
+              setChannelScoring={props.setChannelScoring}
+              channelDirectoryPages={props.channelDirectoryPages}
+              channelLanguageFilter={props.channelLanguageFilter}
+              saveChannelDirectory={props.saveChannelDirectory}
               refreshMinMs={props.refreshMinMs}
               refreshMaxMs={props.refreshMaxMs}
               setRefreshIntervals={props.setRefreshIntervals}
@@ -172,6 +208,13 @@ export function SettingsView(props: SettingsProps) {
               setMinimizeToTray={props.setMinimizeToTray}
             />
           )}
+          {active === "streamers" && (
+            <StreamersSection
+              favoriteChannels={props.favoriteChannels}
+              blockedChannels={props.blockedChannels}
+              saveStreamerLists={props.saveStreamerLists}
+            />
+          )}
           {active === "appearance" && (
             <AppearanceSection
               theme={props.theme}
@@ -219,6 +262,10 @@ export function SettingsView(props: SettingsProps) {
               isLinked={props.isLinked}
               onLogout={props.onLogout}
               onLogin={props.onLogin}
+              accounts={props.accounts}
+              vault={props.vault}
+              sessionHealth={props.sessionHealth}
+              onUnlockVault={props.onUnlockVault}
               allowUnlinkedGames={props.allowUnlinkedGames}
               setAllowUnlinkedGames={props.setAllowUnlinkedGames}
             />
@@ -227,6 +274,9 @@ export function SettingsView(props: SettingsProps) {
             <AdvancedSection
               debugEnabled={props.debugEnabled}
               setDebugEnabled={props.setDebugEnabled}
+              proxyUrl={props.proxyUrl}
+              setProxyUrl={props.setProxyUrl}
+              accounts={props.accounts}
               settingsJson={props.settingsJson}
               setSettingsJson={props.setSettingsJson}
               exportSettings={props.exportSettings}
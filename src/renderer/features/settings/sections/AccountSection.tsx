@@ -5,21 +5,136 @@ import { SectionLabel } from "@renderer/shared/components/ui/section-label";
 import { SettingRow } from "../SettingRow";
 import { SettingsToggle } from "../SettingsToggle";
 import { useI18n } from "@renderer/shared/i18n";
+import type { AccountsHook } from "@renderer/shared/hooks/app/useAccounts";
+import type { SessionHealth, SessionVaultState } from "@renderer/shared/types";
+import { Input } from "@renderer/shared/components/ui/input";
 
 export type AccountSectionProps = {
   isLinked: boolean;
   onLogout: () => void;
   onLogin: () => void;
+  accounts: AccountsHook;
+  vault: SessionVaultState | null;
+  sessionHealth: SessionHealth | null;
+  onUnlockVault: (passphrase: string) => Promise<string | null>;
   allowUnlinkedGames: boolean;
   setAllowUnlinkedGames: (val: boolean) => void;
 };
 
+const SESSION_HEALTH_TONE = {
+  healthy: "ok",
+  expiring: "warn",
+  refreshing: "info",
+  expired: "err",
+} as const;
+
 export function AccountSection(props: AccountSectionProps) {
-  const { t } = useI18n();
+  const { t, language } = useI18n();
+  const { state, busy, error, addAccount, switchAccount, removeAccount } = props.accounts;
+  const [passphrase, setPassphrase] = React.useState("");
+  const [vaultError, setVaultError] = React.useState<string | null>(null);
+  const [unlocking, setUnlocking] = React.useState(false);
+  const vault = props.vault;
+  const health = props.sessionHealth;
+
+  const formatClock = (at: number) =>
+    new Date(at).toLocaleTimeString(language === "de" ? "de-DE" : "en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  const healthDescription = () => {
+    if (!health) return "";
+    if (health.state === "expired") {
+      return t("settings.sessionHealth.expiredDescription");
+    }
+    const parts = [
+      health.expiresAt
+        ? t("settings.sessionHealth.expiresAt", { time: formatClock(health.expiresAt) })
+        : t("settings.sessionHealth.noExpiry"),
+    ];
+    if (health.failures > 0 && health.nextCheckAt) {
+      parts.push(
+        t("settings.sessionHealth.retrying", {
+          count: health.failures,
+          time: formatClock(health.nextCheckAt),
+        }),
+      );
+    }
+    return parts.join(" · ");
+  };
+
+  const submitPassphrase = async () => {
+    setUnlocking(true);
+    setVaultError(null);
+    try {
+      const message = await props.onUnlockVault(passphrase);
+      if (message) {
+        setVaultError(message);
+        return;
+      }
+      setPassphrase("");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
   return (
     <div className="flex flex-col">
       <SectionLabel>{t("settings.subsection.twitchAccount")}</SectionLabel>
+      {vault ? (
+        <SettingRow
+          label={t("settings.row.sessionVault.label")}
+          description={
+            vault.mode === "keychain"
+              ? t("settings.row.sessionVault.keychain")
+              : vault.initialized
+                ? t("settings.row.sessionVault.passphrase")
+                : t("settings.row.sessionVault.passphraseSetup")
+          }
+          control={
+            vault.locked ? (
+              <div className="flex flex-col items-end gap-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    tone="dp"
+                    type="password"
+                    value={passphrase}
+                    placeholder={t("settings.sessionVault.placeholder")}
+                    aria-label={t("settings.sessionVault.placeholder")}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && passphrase) void submitPassphrase();
+                    }}
+                  />
+                  <Button
+                    variant="dp-primary"
+                    size="dp-sm"
+                    disabled={!passphrase || unlocking}
+                    onClick={() => void submitPassphrase()}
+                  >
+                    {vault.initialized
+                      ? t("settings.sessionVault.unlock")
+                      : t("settings.sessionVault.set")}
+                  </Button>
+                </div>
+                {vaultError ? (
+                  <span className="text-[12px] text-[color:var(--dp-signal-err)]">
+                    {t(vaultError)}
+                  </span>
+                ) : null}
+              </div>
+            ) : (
+              <Pill tone="ok" dot>
+                {vault.mode === "keychain"
+                  ? t("settings.sessionVault.keychainPill")
+                  : t("settings.sessionVault.unlockedPill")}
+              </Pill>
+            )
+          }
+        />
+      ) : null}
       <SettingRow
+        divided={!!vault}
         label={t("settings.row.connectionStatus.label")}
         description={t("settings.row.connectionStatus.description")}
         control={
@@ -46,6 +161,102 @@ export function AccountSection(props: AccountSectionProps) {
         }
       />
 
+      {props.isLinked && health ? (
+        <SettingRow
+          divided
+          label={t("settings.row.sessionHealth.label")}
+          description={healthDescription()}
+          control={
+            <Pill tone={SESSION_HEALTH_TONE[health.state]} dot>
+              {t(`settings.sessionHealth.${health.state}`)}
+            </Pill>
+          }
+        />
+      ) : null}
+
+      <div className="mt-6">
+        <SectionLabel>{t("settings.subsection.linkedAccounts")}</SectionLabel>
+        <SettingRow
+          stacked
+          label={t("settings.subsection.linkedAccounts")}
+          description={t("settings.account.listDescription")}
+          control={
+            <div className="flex flex-col gap-2">
+              {state.accounts.length === 0 ? (
+                <span className="text-[12px] text-[color:var(--dp-text-dim)]">
+                  {t("settings.account.empty")}
+                </span>
+              ) : (
+                state.accounts.map((account) => {
+                  const watchLogin =
+                    account.runtime?.watchTargets?.map((target) => target.login).join(", ") ||
+                    account.runtime?.watchTarget?.login;
+                  return (
+                    <div
+                      key={account.id}
+                      className="flex items-center gap-3 rounded-[var(--dp-radius-sm)] border border-[color:var(--dp-border-soft)] px-3 py-2"
+                    >
+                      <div className="flex min-w-0 flex-1 flex-col">
+                        <span className="truncate text-[13px] text-[color:var(--dp-text)]">
+                          {account.displayName || account.login || account.id}
+                        </span>
+                        {account.login ? (
+                          <span className="truncate text-[11px] text-[color:var(--dp-text-dim)]">
+                            {account.login}
+                          </span>
+                        ) : null}
+                      </div>
+                      {account.active ? (
+                        <Pill tone="ok" dot>
+                          {t("settings.account.active")}
+                        </Pill>
+                      ) : (
+                        <Pill dot>
+                          {watchLogin
+                            ? t("settings.account.background", { channel: watchLogin })
+                            : t("settings.account.idle")}
+                        </Pill>
+                      )}
+                      {!account.active ? (
+                        <Button
+                          variant="dp-outline"
+                          size="dp-sm"
+                          disabled={busy}
+                          onClick={() => void switchAccount(account.id)}
+                        >
+                          {t("settings.account.switch")}
+                        </Button>
+                      ) : null}
+                      <Button
+                        variant="dp-outline"
+                        size="dp-sm"
+                        disabled={busy}
+                        onClick={() => void removeAccount(account.id)}
+                      >
+                        {t("settings.account.remove")}
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="dp-primary"
+                  size="dp-sm"
+                  disabled={busy}
+                  onClick={() => void addAccount()}
+                >
+                  {busy ? t("settings.account.adding") : t("settings.account.add")}
+                </Button>
+                {error ? (
+                  <span className="text-[12px] text-[color:var(--dp-signal-err)]">{error}</span>
+                ) : null}
+              </div>
+            </div>
+          }
+        />
+      </div>
+
       <div className="mt-6">
         <SectionLabel>{t("settings.subsection.gameLinking")}</SectionLabel>
         <SettingRow
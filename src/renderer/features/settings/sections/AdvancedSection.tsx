@@ -1,13 +1,21 @@
 import * as React from "react";
 import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
 import { SettingRow } from "../SettingRow";
 import { SettingsToggle } from "../SettingsToggle";
 import { useI18n } from "@renderer/shared/i18n";
+import type { AccountsHook } from "@renderer/shared/hooks/app/useAccounts";
+import type { ProxyProbeResult } from "@renderer/shared/types";
+import { isProxyProbeResult } from "@renderer/shared/utils/ipc";
+import { parseProxyUrl } from "../../../../shared/proxy";
 
 export type AdvancedSectionProps = {
   debugEnabled: boolean;
   setDebugEnabled: (val: boolean) => void;
+  proxyUrl: string;
+  setProxyUrl: (val: string) => void;
+  accounts: AccountsHook;
   settingsJson: string;
   setSettingsJson: (val: string) => void;
   exportSettings: () => void;
@@ -16,6 +24,114 @@ export type AdvancedSectionProps = {
   settingsError?: string | null;
 };
 
+type ProxyFieldProps = {
+  value: string;
+  onSave: (val: string) => void;
+  placeholder: string;
+  disabled?: boolean;
+  ariaLabel: string;
+  /** Tested instead of an empty field, i.e. the proxy the empty field inherits. */
+  inheritedUrl?: string;
+};
+
+/**
+ * Proxy URL input with save + connectivity test. An empty field is valid (it
+ * means "direct" for the global proxy and "inherit" for an account override).
+ */
+function ProxyField(props: ProxyFieldProps) {
+  const { t } = useI18n();
+  const { value } = props;
+  const [draft, setDraft] = React.useState(value);
+  const [testing, setTesting] = React.useState(false);
+  const [result, setResult] = React.useState<ProxyProbeResult | null>(null);
+
+  React.useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const invalid = draft.trim() !== "" && !parseProxyUrl(draft);
+  const dirty = draft.trim() !== value;
+
+  const runTest = async () => {
+    setTesting(true);
+    setResult(null);
+    try {
+      const res: unknown = await window.electronAPI.net.testProxy({
+        proxyUrl: draft.trim() || props.inheritedUrl || "",
+      });
+      if (isProxyProbeResult(res)) setResult(res);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <Input
+          tone="dp"
+          value={draft}
+          placeholder={props.placeholder}
+          aria-label={props.ariaLabel}
+          spellCheck={false}
+          className="flex-1 font-mono"
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setResult(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && dirty && !invalid) props.onSave(draft.trim());
+          }}
+        />
+        <Button
+          variant="dp-primary"
+          size="dp-sm"
+          disabled={props.disabled || !dirty || invalid}
+          onClick={() => props.onSave(draft.trim())}
+        >
+          {t("settings.proxy.save")}
+        </Button>
+        <Button
+          variant="dp-outline"
+          size="dp-sm"
+          disabled={testing || invalid}
+          onClick={() => void runTest()}
+        >
+          {testing ? t("settings.proxy.testing") : t("settings.proxy.test")}
+        </Button>
+      </div>
+      {invalid ? (
+        <span className="font-mono text-[10px] text-[color:var(--dp-signal-err)]">
+          {t("settings.proxy.invalid")}
+        </span>
+      ) : null}
+      {result ? (
+        <span
+          className={`font-mono text-[10px] ${
+            result.ok ? "text-[color:var(--dp-signal-ok)]" : "text-[color:var(--dp-signal-err)]"
+          }`}
+        >
+          {result.ok
+            ? t("settings.proxy.reachable", {
+                http: result.http.latencyMs,
+                ws: result.websocket.latencyMs,
+              })
+            : [
+                result.http.ok
+                  ? null
+                  : t("settings.proxy.httpFailed", { error: result.http.error ?? "?" }),
+                result.websocket.ok
+                  ? null
+                  : t("settings.proxy.wsFailed", { error: result.websocket.error ?? "?" }),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
 export function AdvancedSection(props: AdvancedSectionProps) {
   const { t } = useI18n();
   const { setSettingsJson } = props;
@@ -43,6 +159,56 @@ export function AdvancedSection(props: AdvancedSectionProps) {
         control={<SettingsToggle checked={props.debugEnabled} onChange={props.setDebugEnabled} />}
       />
 
+      <div className="mt-6">
+        <SectionLabel>{t("settings.subsection.network")}</SectionLabel>
+        <SettingRow
+          stacked
+          label={t("settings.row.proxy.label")}
+          description={t("settings.row.proxy.description")}
+          control={
+            <ProxyField
+              value={props.proxyUrl}
+              onSave={props.setProxyUrl}
+              placeholder={t("settings.proxy.placeholder")}
+              ariaLabel={t("settings.row.proxy.label")}
+            />
+          }
+        />
+        {props.accounts.state.accounts.length > 0 ? (
+          <SettingRow
+            divided
+            stacked
+            label={t("settings.row.accountProxy.label")}
+            description={t("settings.row.accountProxy.description")}
+            control={
+              <div className="flex flex-col gap-3">
+                {props.accounts.state.accounts.map((account) => {
+                  const name = account.displayName || account.login || account.id;
+                  return (
+                    <div key={account.id} className="flex flex-col gap-1">
+                      <span className="text-[12px] text-[color:var(--dp-text-dim)]">{name}</span>
+                      <ProxyField
+                        value={account.proxyUrl ?? ""}
+                        onSave={(val) => void props.accounts.setAccountProxy(account.id, val)}
+                        placeholder={t("settings.proxy.inherit")}
+                        inheritedUrl={props.proxyUrl}
+                        ariaLabel={`${t("settings.row.accountProxy.label")}: ${name}`}
+                        disabled={props.accounts.busy}
+                      />
+                    </div>
+                  );
+                })}
+                {props.accounts.error ? (
+                  <span className="text-[12px] text-[color:var(--dp-signal-err)]">
+                    {props.accounts.error}
+                  </span>
+                ) : null}
+              </div>
+            }
+          />
+        ) : null}
+      </div>
+
       <div className="mt-6">
         <SectionLabel>{t("settings.subsection.backup")}</SectionLabel>
         <div className="py-4">
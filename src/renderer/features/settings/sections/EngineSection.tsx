@@ -1,10 +1,29 @@
 import * as React from "react";
 import { Button } from "@renderer/shared/components/ui/button";
 import { Input } from "@renderer/shared/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@renderer/shared/components/ui/select";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
 import { SettingRow } from "../SettingRow";
 import { SettingsToggle } from "../SettingsToggle";
 import { useI18n } from "@renderer/shared/i18n";
+import { normalizeWatchSlots, type WatchSlotCount } from "../../../../shared/watchSlots";
+import {
+  CHANNEL_SCORING_CRITERIA,
+  MAX_CHANNEL_SCORING_WEIGHT,
+  parseLanguageList,
+  type ChannelScoringSettings,
+} from "../../../../shared/channelScoring";
+import {
+  CHANNEL_DIRECTORY_PAGE_SIZE,
+  MAX_CHANNEL_DIRECTORY_PAGES,
+} from "../../../../shared/channelDirectory";
 
 export type EngineSectionProps = {
   autoStart?: boolean;
@@ -18,6 +37,13 @@ export type EngineSectionProps = {
   setAutoSwitchEnabled: (val: boolean) => void;
   warmupEnabled: boolean;
   setWarmupEnabled: (val: boolean) => void;
+  watchSlots: WatchSlotCount;
+  setWatchSlots: (val: WatchSlotCount) => void;
+  channelScoring: ChannelScoringSettings;
+  setChannelScoring: (val: ChannelScoringSettings) => void;
+  channelDirectoryPages: number;
+  channelLanguageFilter: string[];
+  saveChannelDirectory: (pages: number, languages: string[]) => void;
   refreshMinMs: number;
   refreshMaxMs: number;
   setRefreshIntervals: (minMs: number, maxMs: number) => void;
@@ -28,6 +54,128 @@ export type EngineSectionProps = {
   setMinimizeToTray?: (val: boolean) => void;
 };
 
+function ChannelScoringControls({
+  value,
+  onChange,
+}: {
+  value: ChannelScoringSettings;
+  onChange: (val: ChannelScoringSettings) => void;
+}) {
+  const { t } = useI18n();
+  const [languages, setLanguages] = React.useState(value.preferredLanguages.join(", "));
+
+  React.useEffect(() => {
+    setLanguages(value.preferredLanguages.join(", "));
+  }, [value.preferredLanguages]);
+
+  const commitLanguages = () => {
+    const next = parseLanguageList(languages);
+    if (next.join(",") === value.preferredLanguages.join(",")) return;
+    onChange({ ...value, preferredLanguages: next });
+  };
+
+  const numberLabel =
+    "font-mono text-[10px] uppercase tracking-[0.08em] text-[color:var(--dp-text-dimmer)]";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-3 gap-3">
+        {CHANNEL_SCORING_CRITERIA.map((criterion) => (
+          <label key={criterion} className="flex flex-col gap-1">
+            <span className={numberLabel}>{t(`settings.channelScoring.weight.${criterion}`)}</span>
+            <Input
+              tone="dp"
+              type="number"
+              min={0}
+              max={MAX_CHANNEL_SCORING_WEIGHT}
+              value={value.weights[criterion]}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  weights: { ...value.weights, [criterion]: Number(e.target.value) || 0 },
+                })
+              }
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className={numberLabel}>{t("settings.channelScoring.languages")}</span>
+          <Input
+            tone="dp"
+            value={languages}
+            placeholder="de, en"
+            onChange={(e) => setLanguages(e.target.value)}
+            onBlur={commitLanguages}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitLanguages();
+            }}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={numberLabel}>{t("settings.channelScoring.viewerBandMin")}</span>
+          <Input
+            tone="dp"
+            type="number"
+            min={0}
+            value={value.viewerBandMin || ""}
+            placeholder="0"
+            onChange={(e) => onChange({ ...value, viewerBandMin: Number(e.target.value) || 0 })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={numberLabel}>{t("settings.channelScoring.viewerBandMax")}</span>
+          <Input
+            tone="dp"
+            type="number"
+            min={0}
+            value={value.viewerBandMax || ""}
+            placeholder="∞"
+            onChange={(e) => onChange({ ...value, viewerBandMax: Number(e.target.value) || 0 })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+function LanguageFilterInput({
+  value,
+  onChange,
+}: {
+  value: string[];
+  onChange: (val: string[]) => void;
+}) {
+  const { t } = useI18n();
+  const [text, setText] = React.useState(value.join(", "));
+
+  React.useEffect(() => {
+    setText(value.join(", "));
+  }, [value]);
+
+  const commit = () => {
+    const next = parseLanguageList(text);
+    if (next.join(",") === value.join(",")) return;
+    onChange(next);
+  };
+
+  return (
+    <Input
+      tone="dp"
+      value={text}
+      placeholder={t("settings.channelDirectory.allLanguages")}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      aria-label={t("settings.row.channelLanguageFilter.label")}
+      className="w-40"
+    />
+  );
+}
+
 export function EngineSection(props: EngineSectionProps) {
   const { t } = useI18n();
   return (
@@ -102,6 +250,88 @@ export function EngineSection(props: EngineSectionProps) {
             <SettingsToggle checked={props.warmupEnabled} onChange={props.setWarmupEnabled} />
           }
         />
+        <SettingRow
+          divided
+          label={t("settings.row.watchSlots.label")}
+          description={t("settings.row.watchSlots.description")}
+          control={
+            <Select
+              value={String(props.watchSlots)}
+              onValueChange={(v) => props.setWatchSlots(normalizeWatchSlots(v))}
+            >
+              <SelectTrigger tone="dp" aria-label={t("settings.aria.watchSlots")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent tone="dp">
+                <SelectGroup>
+                  <SelectItem value="1">{t("settings.watchSlots.one")}</SelectItem>
+                  <SelectItem value="2">{t("settings.watchSlots.two")}</SelectItem>
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          }
+        />
+      </div>
+
+      <div className="mt-6">
+        <SectionLabel>{t("settings.subsection.channelScoring")}</SectionLabel>
+        <SettingRow
+          stacked
+          label={t("settings.row.channelScoring.label")}
+          description={t("settings.row.channelScoring.description")}
+          control={
+            <ChannelScoringControls
+              value={props.channelScoring}
+              onChange={props.setChannelScoring}
+            />
+          }
+        />
+      </div>
+
+      <div className="mt-6">
+        <SectionLabel>{t("settings.subsection.channelDirectory")}</SectionLabel>
+        <SettingRow
+          label={t("settings.row.channelDirectoryPages.label")}
+          description={t("settings.row.channelDirectoryPages.description")}
+          control={
+            <Select
+              value={String(props.channelDirectoryPages)}
+              onValueChange={(v) =>
+                props.saveChannelDirectory(Number(v), props.channelLanguageFilter)
+              }
+            >
+              <SelectTrigger tone="dp" aria-label={t("settings.row.channelDirectoryPages.label")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent tone="dp">
+                <SelectGroup>
+                  {Array.from({ length: MAX_CHANNEL_DIRECTORY_PAGES }, (_, index) => index + 1).map(
+                    (pages) => (
+                      <SelectItem key={pages} value={String(pages)}>
+                        {t("settings.channelDirectory.pages", {
+                          count: pages * CHANNEL_DIRECTORY_PAGE_SIZE,
+                        })}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          }
+        />
+        <SettingRow
+          divided
+          label={t("settings.row.channelLanguageFilter.label")}
+          description={t("settings.row.channelLanguageFilter.description")}
+          control={
+            <LanguageFilterInput
+              value={props.channelLanguageFilter}
+              onChange={(languages) =>
+                props.saveChannelDirectory(props.channelDirectoryPages, languages)
+              }
+            />
+          }
+        />
       </div>
 
       <div className="mt-6">
@@ -8,19 +8,169 @@ import {
   SelectValue,
 } from "@renderer/shared/components/ui/select";
 import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import { cn } from "@renderer/shared/lib/utils";
 import { SettingRow } from "../SettingRow";
 import { SettingsToggle } from "../SettingsToggle";
 import { useI18n } from "@renderer/shared/i18n";
+import {
+  FARM_SCHEDULE_ACTIONS,
+  MAX_FARM_SCHEDULE_BLOCKS,
+  formatScheduleMinute,
+  parseScheduleMinute,
+  type FarmSchedule,
+  type FarmScheduleAction,
+  type FarmScheduleBlock,
+} from "../../../../shared/farmSchedule";
 
 export type GeneralSectionProps = {
   language: "de" | "en";
   setLanguage: (val: "de" | "en") => void;
   demoMode: boolean;
   setDemoMode: (val: boolean) => void;
+  farmSchedule: FarmSchedule;
+  saveFarmSchedule: (val: FarmSchedule) => void;
   sendTestAlert: () => void;
 };
 
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function FarmScheduleEditor({
+  value,
+  onChange,
+}: {
+  value: FarmSchedule;
+  onChange: (val: FarmSchedule) => void;
+}) {
+  const { t } = useI18n();
+
+  const updateBlock = (id: string, patch: Partial<FarmScheduleBlock>) => {
+    onChange({
+      ...value,
+      blocks: value.blocks.map((block) => (block.id === id ? { ...block, ...patch } : block)),
+    });
+  };
+
+  const toggleDay = (block: FarmScheduleBlock, day: number) => {
+    const days = block.days.includes(day)
+      ? block.days.filter((entry) => entry !== day)
+      : [...block.days, day].sort((a, b) => a - b);
+    updateBlock(block.id, { days });
+  };
+
+  const addBlock = () => {
+    const block: FarmScheduleBlock = {
+      id: `block-${Date.now().toString(36)}`,
+      action: "pause",
+      days: [0, 1, 2, 3, 4, 5, 6],
+      start: 23 * 60,
+      end: 7 * 60,
+    };
+    onChange({ ...value, blocks: [...value.blocks, block] });
+  };
+
+  const removeBlock = (id: string) => {
+    onChange({ ...value, blocks: value.blocks.filter((block) => block.id !== id) });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {value.blocks.length === 0 && (
+        <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {t("settings.farmSchedule.empty")}
+        </div>
+      )}
+      {value.blocks.map((block) => (
+        <div
+          key={block.id}
+          className="flex flex-wrap items-center gap-2 rounded-[var(--dp-radius-md)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] px-3 py-2"
+        >
+          <Select
+            value={block.action}
+            onValueChange={(v) => updateBlock(block.id, { action: v as FarmScheduleAction })}
+          >
+            <SelectTrigger tone="dp" aria-label={t("settings.farmSchedule.action")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent tone="dp">
+              <SelectGroup>
+                {FARM_SCHEDULE_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action}>
+                    {t(`settings.farmSchedule.action.${action}`)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          <div className="flex gap-1">
+            {WEEKDAY_ORDER.map((day) => {
+              const active = block.days.includes(day);
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() => toggleDay(block, day)}
+                  className={cn(
+                    "h-6 min-w-[32px] rounded-[var(--dp-radius-xs)] border px-1.5 font-mono text-[10px] transition-colors",
+                    active
+                      ? "border-[color:var(--dp-accent)] text-[color:var(--dp-accent)]"
+                      : "border-[color:var(--dp-border-soft)] text-[color:var(--dp-text-dimmer)] hover:text-[color:var(--dp-text-dim)]",
+                  )}
+                >
+                  {t(`priorities.rules.weekday.${day}`)}
+                </button>
+              );
+            })}
+          </div>
+          <Input
+            tone="dp"
+            type="time"
+            value={formatScheduleMinute(block.start)}
+            aria-label={t("settings.farmSchedule.start")}
+            onChange={(e) => {
+              const start = parseScheduleMinute(e.target.value);
+              if (start !== null) updateBlock(block.id, { start });
+            }}
+            className="w-28"
+          />
+          <span className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">–</span>
+          <Input
+            tone="dp"
+            type="time"
+            value={formatScheduleMinute(block.end)}
+            aria-label={t("settings.farmSchedule.end")}
+            onChange={(e) => {
+              const end = parseScheduleMinute(e.target.value);
+              if (end !== null) updateBlock(block.id, { end });
+            }}
+            className="w-28"
+          />
+          <Button
+            variant="dp-ghost"
+            size="dp-sm"
+            onClick={() => removeBlock(block.id)}
+            className="ml-auto"
+          >
+            {t("settings.farmSchedule.remove")}
+          </Button>
+        </div>
+      ))}
+      <div>
+        <Button
+          variant="dp-outline"
+          size="dp-sm"
+          onClick={addBlock}
+          disabled={value.blocks.length >= MAX_FARM_SCHEDULE_BLOCKS}
+        >
+          {t("settings.farmSchedule.add")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function GeneralSection(props: GeneralSectionProps) {
   const { t } = useI18n();
   return (
@@ -50,6 +200,30 @@ export function GeneralSection(props: GeneralSectionProps) {
         control={<SettingsToggle checked={props.demoMode} onChange={props.setDemoMode} />}
       />
 
+      <div className="mt-6">
+        <SectionLabel>{t("settings.subsection.farmSchedule")}</SectionLabel>
+        <SettingRow
+          label={t("settings.row.farmSchedule.label")}
+          description={t("settings.row.farmSchedule.description")}
+          control={
+            <SettingsToggle
+              checked={props.farmSchedule.enabled}
+              onChange={(enabled) => props.saveFarmSchedule({ ...props.farmSchedule, enabled })}
+            />
+          }
+        />
+        <SettingRow
+          divided
+          stacked
+          disabled={!props.farmSchedule.enabled}
+          label={t("settings.row.farmScheduleBlocks.label")}
+          description={t("settings.row.farmScheduleBlocks.description")}
+          control={
+            <FarmScheduleEditor value={props.farmSchedule} onChange={props.saveFarmSchedule} />
+          }
+        />
+      </div>
+
       <div className="mt-6">
         <SectionLabel>{t("settings.subsection.diagnostics")}</SectionLabel>
         <SettingRow
@@ -0,0 +1,130 @@
+import * as React from "react";
+import { Button } from "@renderer/shared/components/ui/button";
+import { Input } from "@renderer/shared/components/ui/input";
+import { SectionLabel } from "@renderer/shared/components/ui/section-label";
+import { Plus, X } from "@renderer/shared/lib/icons";
+import { SettingRow } from "../SettingRow";
+import { useI18n } from "@renderer/shared/i18n";
+import {
+  normalizeChannelLogin,
+  setStreamerListMembership,
+  type StreamerListMembership,
+  type StreamerLists,
+} from "../../../../shared/streamerLists";
+
+export type StreamersSectionProps = {
+  favoriteChannels: string[];
+  blockedChannels: string[];
+  saveStreamerLists: (val: StreamerLists) => void;
+};
+
+function LoginList({
+  logins,
+  membership,
+  lists,
+  onChange,
+}: {
+  logins: string[];
+  membership: Exclude<StreamerListMembership, null>;
+  lists: StreamerLists;
+  onChange: (val: StreamerLists) => void;
+}) {
+  const { t } = useI18n();
+  const [typed, setTyped] = React.useState("");
+  const login = normalizeChannelLogin(typed);
+
+  const add = () => {
+    if (!login) return;
+    onChange(setStreamerListMembership(lists, login, membership));
+    setTyped("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <Input
+          tone="dp"
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder={t("settings.streamers.placeholder")}
+          className="flex-1"
+          aria-label={t(`settings.streamers.${membership}.aria`)}
+        />
+        <Button variant="dp-outline" size="dp-md" onClick={add} disabled={!login}>
+          <Plus size={11} strokeWidth={2} /> {t("settings.streamers.add")}
+        </Button>
+      </div>
+      {logins.length === 0 ? (
+        <div className="font-mono text-[10px] text-[color:var(--dp-text-dimmer)]">
+          {t(`settings.streamers.${membership}.empty`)}
+        </div>
+      ) : (
+        <ul className="list-none p-0 m-0 flex flex-wrap gap-2">
+          {logins.map((entry) => (
+            <li
+              key={entry}
+              className="inline-flex items-center gap-1 rounded-[var(--dp-radius-xs)] border border-[color:var(--dp-border-soft)] bg-[color:var(--dp-bg-elevated-2)] pl-2 pr-1 py-0.5 font-mono text-[11px] text-[color:var(--dp-text-dim)]"
+            >
+              {entry}
+              <button
+                type="button"
+                onClick={() => onChange(setStreamerListMembership(lists, entry, null))}
+                aria-label={t("settings.streamers.removeAria", { login: entry })}
+                title={t("settings.streamers.removeAria", { login: entry })}
+                className="flex h-5 w-5 items-center justify-center rounded-[var(--dp-radius-xs)] text-[color:var(--dp-text-dimmer)] hover:text-[color:var(--dp-signal-err)]"
+              >
+                <X size={11} strokeWidth={1.8} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function StreamersSection(props: StreamersSectionProps) {
+  const { t } = useI18n();
+  const lists: StreamerLists = {
+    favoriteChannels: props.favoriteChannels,
+    blockedChannels: props.blockedChannels,
+  };
+  return (
+    <div className="flex flex-col">
+      <SectionLabel>{t("settings.subsection.streamers")}</SectionLabel>
+      <SettingRow
+        stacked
+        label={t("settings.row.favoriteChannels.label")}
+        description={t("settings.row.favoriteChannels.description")}
+        control={
+          <LoginList
+            logins={props.favoriteChannels}
+            membership="favorite"
+            lists={lists}
+            onChange={props.saveStreamerLists}
+          />
+        }
+      />
+      <SettingRow
+        stacked
+        divided
+        label={t("settings.row.blockedChannels.label")}
+        description={t("settings.row.blockedChannels.description")}
+        control={
+          <LoginList
+            logins={props.blockedChannels}
+            membership="blocked"
+            lists={lists}
+            onChange={props.saveStreamerLists}
+          />
+        }
+      />
+    </div>
+  );
+}
@@ -53,7 +53,7 @@ export function StatsView({ stats, resetStats }: StatsViewProps) {
 
       <div className="grid gap-6" style={{ gridTemplateColumns: "1.7fr 1fr" }}>
         <WatchTimeTrend daily={data.daily} />
-        <TopGamesPanel claimsByGame={data.claimsByGame} />
+        <TopGamesPanel claimsByGame={data.claimsByGame} minutesByGame={data.minutesByGame} />
       </div>
 
       <ActivityHeatmap daily={data.daily} longestStreak={longest} />
@@ -1,12 +1,13 @@
 import { useI18n } from "@renderer/shared/i18n";
 import { SectionLabel } from "@renderer/shared/components/ui/section-label";
-import { topGames } from "./statsDerive";
+import { formatWatchTime, topGames } from "./statsDerive";
 
 export type TopGamesPanelProps = {
   claimsByGame: Record<string, number>;
+  minutesByGame?: Record<string, number>;
 };
 
-export function TopGamesPanel({ claimsByGame }: TopGamesPanelProps) {
+export function TopGamesPanel({ claimsByGame, minutesByGame }: TopGamesPanelProps) {
   const { t } = useI18n();
   const rows = topGames(claimsByGame, 5);
   const max = rows[0]?.claims || 1;
@@ -25,7 +26,11 @@ export function TopGamesPanel({ claimsByGame }: TopGamesPanelProps) {
             <div key={row.name} className="flex items-center gap-3">
               <span
                 className="w-28 shrink-0 truncate font-mono text-[11px] text-[color:var(--dp-text-dim)]"
-                title={row.name}
+                title={
+                  minutesByGame?.[row.name]
+                    ? `${row.name} · ${formatWatchTime(minutesByGame[row.name])}`
+                    : row.name
+                }
               >
                 {row.name}
               </span>
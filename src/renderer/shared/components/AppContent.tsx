@@ -6,6 +6,7 @@ import {
   InventoryView,
   OverviewView,
   PriorityView,
+  RewardsView,
   SettingsView,
   StatsView,
 } from "@renderer/features";
@@ -22,6 +23,7 @@ type AppContentProps = {
   overviewProps: ComponentProps<typeof OverviewView>;
   statsProps: ComponentProps<typeof StatsView>;
   inventoryProps: ComponentProps<typeof InventoryView>;
+  rewardsProps: ComponentProps<typeof RewardsView>;
   priorityProps: ComponentProps<typeof PriorityView>;
   settingsProps: ComponentProps<typeof SettingsView>;
   controlProps: ComponentProps<typeof ControlView>;
@@ -34,6 +36,7 @@ export function AppContent({
   overviewProps,
   statsProps,
   inventoryProps,
+  rewardsProps,
   priorityProps,
   settingsProps,
   controlProps,
@@ -59,6 +62,7 @@ export function AppContent({
       {view === "stats" && renderWithPerf("StatsView", <StatsView {...statsProps} />)}
       {view === "inventory" &&
         renderWithPerf("InventoryView", <InventoryView {...inventoryProps} />)}
+      {view === "rewards" && renderWithPerf("RewardsView", <RewardsView {...rewardsProps} />)}
       {view === "priorities" && renderWithPerf("PriorityView", <PriorityView {...priorityProps} />)}
       {view === "settings" && renderWithPerf("SettingsView", <SettingsView {...settingsProps} />)}
       {view === "control" && renderWithPerf("ControlView", <ControlView {...controlProps} />)}
@@ -4,6 +4,7 @@ import {
   LayoutGrid,
   LineChart,
   Package,
+  Gift,
   Play,
   ListOrdered,
   Settings,
@@ -15,6 +16,7 @@ export type AppNavView =
   | "overview"
   | "stats"
   | "inventory"
+  | "rewards"
   | "control"
   | "priorities"
   | "settings"
@@ -24,6 +26,7 @@ const ICON_MAP: Record<AppNavView, LucideIcon> = {
   overview: LayoutGrid,
   stats: LineChart,
   inventory: Package,
+  rewards: Gift,
   control: Play,
   priorities: ListOrdered,
   settings: Settings,
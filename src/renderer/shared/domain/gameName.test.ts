@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  isGamePattern,
+  matchesGamePattern,
+  parseGamePattern,
+  resolveGamePatterns,
+  sameGameName,
+} from "./gameName";
+
+const games = [
+  { name: "Call of Duty: Warzone", id: "512710" },
+  { name: "Call of Duty: Black Ops 6", id: "1234" },
+  { name: "Apex Legends", id: "511224" },
+];
+
+describe("sameGameName", () => {
+  it("ignores case and surrounding whitespace", () => {
+    expect(sameGameName("Marvel Rivals", "  marvel rivals  ")).toBe(true);
+    expect(sameGameName("Marvel Rivals", "Marvel Rivals 2")).toBe(false);
+    expect(sameGameName("", "")).toBe(false);
+  });
+});
+
+describe("game patterns", () => {
+  it("classifies entries", () => {
+    expect(parseGamePattern("Rust").kind).toBe("name");
+    expect(parseGamePattern("Call of Duty*").kind).toBe("wildcard");
+    expect(parseGamePattern("/^apex/").kind).toBe("regex");
+    expect(parseGamePattern("id:512710").kind).toBe("id");
+    expect(parseGamePattern("/([/").kind).toBe("invalid");
+    expect(isGamePattern("Rust")).toBe(false);
+  });
+
+  it("matches wildcards, regexes and ids against a game", () => {
+    expect(matchesGamePattern("call of duty*", games[0])).toBe(true);
+    expect(matchesGamePattern("Call of Duty?", games[0])).toBe(false);
+    expect(matchesGamePattern("/legends$/", games[2])).toBe(true);
+    expect(matchesGamePattern("id:1234", games[1])).toBe(true);
+    expect(matchesGamePattern("id:1234", { name: "Call of Duty: Black Ops 6" })).toBe(false);
+    expect(matchesGamePattern("/([/", games[0])).toBe(false);
+  });
+
+  it("resolves entries in order without duplicates", () => {
+    expect(
+      resolveGamePatterns(["id:511224", "Call of Duty*", "Rust", "apex legends"], games),
+    ).toEqual(["Apex Legends", "Call of Duty: Warzone", "Call of Duty: Black Ops 6", "Rust"]);
+  });
+});
@@ -40,3 +40,106 @@ export function sameGameName(a: string | null | undefined, b: string | null | un
   if (na.length === 0 || nb.length === 0) return false;
   return na === nb;
 }
+
+/**
+ * Priority and exclude entries may also be patterns that resolve against the
+ * inventory at runtime, so new or renamed categories need no list edits:
+ *
+ *   "Call of Duty*"   wildcard, `*` any run of characters, `?` one character
+ *   "/^apex/i"        regular expression between slashes, flags optional
+ *   "id:512710"       Twitch game (category) id
+ *
+ * Anything else is a plain name compared with `sameGameName`. Patterns are
+ * case-insensitive and must match the whole name (regexes match anywhere
+ * unless anchored).
+ */
+export type GamePattern =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard"; regex: RegExp }
+  | { kind: "regex"; regex: RegExp }
+  | { kind: "id"; id: string }
+  | { kind: "invalid" };
+
+export type GameRef = { name: string; id?: string };
+
+const REGEX_ENTRY = /^\/(.+)\/([a-z]*)$/;
+const ID_ENTRY = /^id:\s*(\S+)$/i;
+
+const escapeRegex = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+// Entries are parsed on every render and preview keystroke; keep it bounded.
+const parsedPatterns = new Map<string, GamePattern>();
+const MAX_PARSED_PATTERNS = 256;
+
+export function parseGamePattern(entry: string): GamePattern {
+  const cached = parsedPatterns.get(entry);
+  if (cached) return cached;
+  const trimmed = entry.trim();
+  let pattern: GamePattern;
+  const idMatch = ID_ENTRY.exec(trimmed);
+  const regexMatch = REGEX_ENTRY.exec(trimmed);
+  if (idMatch) {
+    pattern = { kind: "id", id: idMatch[1] };
+  } else if (regexMatch) {
+    try {
+      const flags = regexMatch[2].includes("i") ? regexMatch[2] : `${regexMatch[2]}i`;
+      pattern = { kind: "regex", regex: new RegExp(regexMatch[1], flags.replace(/[gy]/g, "")) };
+    } catch {
+      pattern = { kind: "invalid" };
+    }
+  } else if (/[*?]/.test(trimmed)) {
+    const source = trimmed
+      .split("")
+      .map((char) => (char === "*" ? ".*" : char === "?" ? "." : escapeRegex(char)))
+      .join("");
+    pattern = { kind: "wildcard", regex: new RegExp(`^${source}$`, "i") };
+  } else {
+    pattern = { kind: "name", name: trimmed };
+  }
+  if (parsedPatterns.size >= MAX_PARSED_PATTERNS) parsedPatterns.clear();
+  parsedPatterns.set(entry, pattern);
+  return pattern;
+}
+
+/** True when the entry is a wildcard, regex or id rather than a plain name. */
+export function isGamePattern(entry: string): boolean {
+  return parseGamePattern(entry).kind !== "name";
+}
+
+export function matchesGamePattern(entry: string, game: GameRef): boolean {
+  const pattern = parseGamePattern(entry);
+  switch (pattern.kind) {
+    case "name":
+      return sameGameName(pattern.name, game.name);
+    case "id":
+      return Boolean(game.id) && game.id === pattern.id;
+    case "wildcard":
+    case "regex":
+      return pattern.regex.test(game.name.trim());
+    default:
+      return false;
+  }
+}
+
+/**
+ * Expands entries into concrete game names, keeping entry order. Plain names
+ * pass through even without a match so an empty inventory keeps the list;
+ * patterns contribute the known games they match, in inventory order.
+ */
+export function resolveGamePatterns(entries: string[], games: GameRef[]): string[] {
+  const resolved: string[] = [];
+  const push = (name: string) => {
+    if (!resolved.some((known) => sameGameName(known, name))) resolved.push(name);
+  };
+  for (const entry of entries) {
+    const pattern = parseGamePattern(entry);
+    if (pattern.kind === "name") {
+      if (pattern.name) push(pattern.name);
+      continue;
+    }
+    for (const game of games) {
+      if (matchesGamePattern(entry, game)) push(game.name);
+    }
+  }
+  return resolved;
+}
@@ -63,6 +63,12 @@ describe("InventoryClaimEngine.autoClaimFromInventory", () => {
       dropInstanceId: "inst-1",
       dropId: "drop-1",
       campaignId: "camp-1",
+      title: "Drop 1",
+      imageUrl: undefined,
+      game: "Game",
+      campaignName: undefined,
+      minutes: 60,
+      source: "auto",
     });
     expect(onClaimed).toHaveBeenCalledWith({ title: "Drop 1", game: "Game" });
     expect(setClaimStatus).toHaveBeenCalledWith(
@@ -88,6 +94,24 @@ describe("InventoryClaimEngine.autoClaimFromInventory", () => {
     expect(markClaimed).toHaveBeenCalledWith(item);
   });
 
+  it("records claims with their source", async () => {
+    const engine = new InventoryClaimEngine();
+    const onClaimRecorded = vi.fn();
+    const item = makeItem();
+
+    await engine.autoClaimFromInventory([item], {
+      claimDrop: vi.fn(async () => ({ ok: true })),
+      onAuthError: vi.fn(),
+      onClaimed: vi.fn(),
+      onClaimRecorded,
+      setClaimStatus: vi.fn<(status: ClaimStatus) => void>(),
+      source: "manual",
+      now: () => 1_000,
+    });
+
+    expect(onClaimRecorded).toHaveBeenCalledWith(item, "manual");
+  });
+
   it("does not mark claimed when the claim fails", async () => {
     const engine = new InventoryClaimEngine();
     const markClaimed = vi.fn();
@@ -125,6 +149,25 @@ describe("InventoryClaimEngine.autoClaimFromInventory", () => {
     );
   });
 
+  it("waits quietly for drops the claim queue is still retrying", async () => {
+    const engine = new InventoryClaimEngine();
+    const claimDrop = vi.fn(async () => ({ ok: false, queued: true, nextAttemptAt: 60_000 }));
+    const setClaimStatus = vi.fn<(status: ClaimStatus) => void>();
+    const onClaimed = vi.fn();
+    let now = 2_000;
+    const deps = { claimDrop, onAuthError: vi.fn(), onClaimed, setClaimStatus, now: () => now };
+
+    await engine.autoClaimFromInventory([makeItem()], deps);
+    now = 59_999;
+    await engine.autoClaimFromInventory([makeItem()], deps);
+    now = 60_000;
+    await engine.autoClaimFromInventory([makeItem()], deps);
+
+    expect(claimDrop).toHaveBeenCalledTimes(2);
+    expect(onClaimed).not.toHaveBeenCalled();
+    expect(setClaimStatus).not.toHaveBeenCalled();
+  });
+
   it("caps fallback auto-claim attempts per run", async () => {
     const engine = new InventoryClaimEngine();
     const claimDrop = vi.fn(async () => ({ ok: true }));
@@ -2,14 +2,17 @@ import type { ClaimStatus, InventoryItem, UserPubSubEvent } from "@renderer/shar
 import { errorInfoFromIpc, errorInfoFromUnknown } from "@renderer/shared/utils/errors";
 import { logInfo, logWarn } from "@renderer/shared/utils/logger";
 import {
+  isClaimQueuedResponse,
   isIpcAuthErrorResponse,
   isIpcErrorResponse,
   isIpcOkFalseResponse,
 } from "@renderer/shared/utils/ipc";
 import { TWITCH_ERROR_CODES } from "../../../../shared/errorCodes";
+import { isClaimBatchCandidate } from "../../../../shared/claimBatch";
+import type { ClaimSource } from "../../../../shared/claimLedger";
+import type { ClaimQueueRequest } from "../../../../shared/claimQueue";
 import {
   buildClaimRetrySignature,
-  canClaimDrop,
   CLAIM_ATTEMPT_RETRY_MS,
   getClaimRetryDelay,
 } from "./inventoryRules";
@@ -19,16 +22,18 @@ const MAX_CLAIM_ERROR_LOGS_PER_RUN = 3;
 
 export type ClaimRetryState = { attempts: number; nextAllowedAt: number; signature: string };
 
-export type ClaimDropPayload = {
-  dropInstanceId?: string;
-  dropId?: string;
-  campaignId?: string;
-};
+/**
+ * Claims go through main's claim queue, which records them in the ledger and
+ * retries failures on its own; the drop's details travel along for both.
+ */
+export type ClaimDropPayload = ClaimQueueRequest;
 
 type ClaimEngineBaseDeps = {
   claimDrop: (payload: ClaimDropPayload) => Promise<unknown>;
   onAuthError: (message?: string) => void;
   setClaimStatus: (status: ClaimStatus) => void;
+  /** Every successful claim with its drop, for the claim ledger. */
+  onClaimRecorded?: (drop: InventoryItem, source: ClaimSource) => void;
   now?: () => number;
 };
 
@@ -40,6 +45,8 @@ type AutoClaimDeps = ClaimEngineBaseDeps & {
    * immediately instead of staying stuck until the next inventory reload.
    */
   markClaimed?: (drop: InventoryItem) => void;
+  /** "manual" when the user asked for the run (claim now); defaults to "auto". */
+  source?: ClaimSource;
 };
 
 type PubSubClaimDeps = ClaimEngineBaseDeps & {
@@ -47,9 +54,20 @@ type PubSubClaimDeps = ClaimEngineBaseDeps & {
   claimedItem?: InventoryItem;
 };
 
-export const isAutoClaimCandidate = (item: InventoryItem, now = Date.now()): boolean => {
-  return canClaimDrop(item, { now, allowFallbackWhenNotExplicit: true });
-};
+export const isAutoClaimCandidate = (item: InventoryItem, now = Date.now()): boolean =>
+  isClaimBatchCandidate(item, now);
+
+const claimPayloadFor = (drop: InventoryItem, source: ClaimSource): ClaimDropPayload => ({
+  dropInstanceId: drop.dropInstanceId,
+  dropId: drop.id,
+  campaignId: drop.campaignId,
+  title: drop.title,
+  imageUrl: drop.imageUrl,
+  game: drop.game,
+  campaignName: drop.campaignName,
+  minutes: drop.requiredMinutes,
+  source,
+});
 
 const throwIfClaimErrorResponse = (response: unknown): void => {
   if (isIpcErrorResponse(response)) {
@@ -127,14 +145,20 @@ export class InventoryClaimEngine {
 
       this.claimAttemptsById.set(drop.id, now);
       try {
-        const response = await deps.claimDrop({
-          dropInstanceId: drop.dropInstanceId,
-          dropId: drop.id,
-          campaignId: drop.campaignId,
-        });
+        const response = await deps.claimDrop(claimPayloadFor(drop, deps.source ?? "auto"));
+        if (isClaimQueuedResponse(response)) {
+          // Main is already retrying this drop; follow its schedule quietly.
+          this.claimRetryByDropId.set(drop.id, {
+            attempts: retryState?.signature === retrySignature ? retryState.attempts : 1,
+            nextAllowedAt: response.nextAttemptAt,
+            signature: retrySignature,
+          });
+          continue;
+        }
         throwIfClaimErrorResponse(response);
 
         deps.onClaimed({ title: drop.title, game: drop.game });
+        deps.onClaimRecorded?.(drop, deps.source ?? "auto");
         // Mirror TDM: flip the drop to claimed in local state on success so the
         // UI reflects it instantly (no waiting for the next inventory fetch).
         deps.markClaimed?.(drop);
@@ -206,15 +230,17 @@ export class InventoryClaimEngine {
     this.markClaimAttempt(claimId, now);
 
     const claimPayload: ClaimDropPayload = {
+      ...(claimedItem ? claimPayloadFor(claimedItem, "pubsub") : { source: "pubsub" }),
       dropInstanceId: dropInstanceIdFromEvent || claimedItem?.dropInstanceId,
       dropId: dropIdFromEvent || claimedItem?.id,
-      campaignId: claimedItem?.campaignId,
     };
 
     try {
       const response = await deps.claimDrop(claimPayload);
+      if (isClaimQueuedResponse(response)) return;
       throwIfClaimErrorResponse(response);
       if (claimedItem) {
+        deps.onClaimRecorded?.(claimedItem, "pubsub");
         deps.setClaimStatus({
           kind: "success",
           message: `Auto-claimed: ${claimedItem.title}`,
@@ -1,3 +1,4 @@
+export * from "./useAccounts";
 export * from "./useAlertEffects";
 export * from "./useAppActions";
 export * from "./useAppBootstrap";
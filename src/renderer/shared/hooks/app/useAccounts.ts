@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AccountsState } from "@renderer/shared/types";
+import { isAccountsState } from "@renderer/shared/utils/ipc";
+import { setActivityScope } from "@renderer/shared/utils/activityFeed";
+import { logWarn } from "@renderer/shared/utils/logger";
+
+export type AccountsHook = {
+  loaded: boolean;
+  state: AccountsState;
+  busy: boolean;
+  error: string | null;
+  addAccount: () => Promise<void>;
+  switchAccount: (id: string) => Promise<void>;
+  removeAccount: (id: string) => Promise<void>;
+  /** "" clears the override so the account follows the global proxy again. */
+  setAccountProxy: (id: string, proxyUrl: string) => Promise<void>;
+};
+
+const EMPTY_STATE: AccountsState = { activeAccountId: null, accounts: [] };
+
+type AccountsMutationResult = { ok: boolean; state?: unknown; message?: string };
+
+/**
+ * Account registry mirror. Lives above useAppModel (see App.tsx): the app
+ * model is keyed by the active account id, so a switch remounts the whole
+ * engine against the newly active account's main-process runtime.
+ */
+export function useAccounts(): AccountsHook {
+  const [state, setState] = useState<AccountsState>(EMPTY_STATE);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyState = useCallback((next: unknown) => {
+    if (!isAccountsState(next)) return;
+    setActivityScope(next.activeAccountId);
+    setState(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI.accounts
+      .list()
+      .then((res: unknown) => {
+        if (!cancelled) applyState(res);
+      })
+      .catch((err: unknown) => logWarn("accounts: list failed", err))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    const unsubscribe = window.electronAPI.accounts.onChanged(applyState);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [applyState]);
+
+  const run = useCallback(
+    async (action: () => Promise<AccountsMutationResult>) => {
+      setBusy(true);
+      setError(null);
+      try {
+        const res = await action();
+        if (!res?.ok) {
+          setError(res?.message ?? "Account action failed");
+          return;
+        }
+        applyState(res.state);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [applyState],
+  );
+
+  const addAccount = useCallback(() => run(() => window.electronAPI.accounts.add()), [run]);
+  const switchAccount = useCallback(
+    (id: string) => run(() => window.electronAPI.accounts.switch({ id })),
+    [run],
+  );
+  const removeAccount = useCallback(
+    (id: string) => run(() => window.electronAPI.accounts.remove({ id })),
+    [run],
+  );
+
+  const setAccountProxy = useCallback(
+    (id: string, proxyUrl: string) =>
+      run(() => window.electronAPI.accounts.setProxy({ id, proxyUrl })),
+    [run],
+  );
+
+  return {
+    loaded,
+    state,
+    busy,
+    error,
+    addAccount,
+    switchAccount,
+    removeAccount,
+    setAccountProxy,
+  };
+}
@@ -4,6 +4,7 @@ import { useInterval } from "@renderer/shared/hooks/useInterval";
 import type {
   AuthState,
   ChannelTrackerStatus,
+  GqlSchedulerStatus,
   ProfileState,
   UserPubSubStatus,
   View,
@@ -11,6 +12,7 @@ import type {
 import { errorInfoFromIpc, errorInfoFromUnknown } from "@renderer/shared/utils/errors";
 import {
   isChannelTrackerStatus,
+  isGqlSchedulerStatus,
   isIpcAuthErrorResponse,
   isIpcErrorResponse,
   isTwitchProfile,
@@ -69,6 +71,7 @@ export function useAppBootstrap({
   const [appVersion, setAppVersion] = useState<string>("");
   const [trackerStatus, setTrackerStatus] = useState<ChannelTrackerStatus | null>(null);
   const [userPubSubStatus, setUserPubSubStatus] = useState<UserPubSubStatus | null>(null);
+  const [gqlStatus, setGqlStatus] = useState<GqlSchedulerStatus | null>(null);
   const fetchInventoryRef = useRef(fetchInventory);
 
   useEffect(() => {
@@ -195,6 +198,22 @@ export function useAppBootstrap({
   }, [pollUserPubSubStatus]);
   useInterval(() => void pollUserPubSubStatus(), 15_000);
 
+  // Scheduler counters only feed the Debug snapshot; skip the polling otherwise.
+  const pollGqlStatus = useCallback(async () => {
+    try {
+      const res: unknown = await window.electronAPI.twitch.gqlStatus();
+      if (!isGqlSchedulerStatus(res)) return;
+      setGqlStatus(res);
+    } catch (err) {
+      logDebug("twitch: gqlStatus failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (debugEnabled) void pollGqlStatus();
+  }, [debugEnabled, pollGqlStatus]);
+  useInterval(() => void pollGqlStatus(), 15_000, debugEnabled);
+
   useEffect(() => {
     let cancelled = false;
     const fetchVersion = async () => {
@@ -282,5 +301,6 @@ export function useAppBootstrap({
     setUpdateStatus,
     trackerStatus,
     userPubSubStatus,
+    gqlStatus,
   };
 }
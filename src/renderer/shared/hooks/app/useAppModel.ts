@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "r
 import { useAlertEffects } from "./useAlertEffects";
 import { useAppActions } from "./useAppActions";
 import { useAppBootstrap } from "./useAppBootstrap";
+import type { AccountsHook } from "./useAccounts";
 import { useAuth } from "./useAuth";
 import {
   useCampaignWarmup,
@@ -12,6 +13,8 @@ import {
 } from "@renderer/shared/hooks/inventory";
 import {
   buildChannelAllowlist,
+  recordChannelProgress,
+  recordChannelStall,
   useChannels,
   useWatchPing,
   WATCH_INTERVAL_MS,
@@ -28,19 +31,41 @@ import {
   watchEngineReducer,
   type WatchEngineEvent,
   WATCH_ENGINE_INITIAL_STATE,
+  type ChannelHistory,
   type WatchStallTracker,
+  useSecondaryWatchSlot,
 } from "@renderer/shared/hooks/watch";
 import { useDebugCpu } from "./useDebugCpu";
 import { useDebugSnapshot } from "./useDebugSnapshot";
-import { isGameActionable, usePriorityOrchestration } from "@renderer/shared/hooks/priority";
+import {
+  computeCompletionForecast,
+  createRescueFilter,
+  findPriorityRule,
+  isGameActionable,
+  previewGamePattern,
+  resolvePatternGames,
+  selectMinutesTodayByGame,
+  usePriorityOrchestration,
+  usePriorityProfileShortcut,
+} from "@renderer/shared/hooks/priority";
 import { useSettingsStore } from "./useSettingsStore";
 import { useSmartAlerts } from "./useSmartAlerts";
 import { useStats } from "./useStats";
+import { useChannelReliability } from "./useChannelReliability";
+import { useClaimAll } from "./useClaimAll";
+import { useClaimLedger } from "./useClaimLedger";
+import { useClaimQueue } from "./useClaimQueue";
+import {
+  evaluateFarmSchedule,
+  farmPauseEnd,
+  type FarmPauseSpan,
+} from "../../../../shared/farmSchedule";
 import { useAccent, useFontPair, useTheme } from "@renderer/shared/theme";
 import { DropChannelRestriction } from "@renderer/shared/domain/dropDomain";
 import { canEarnDrop } from "@renderer/shared/domain/inventory";
 import { sameGameName } from "@renderer/shared/domain/gameName";
-import type { FilterKey, View } from "@renderer/shared/types";
+import type { ClaimSource } from "../../../../shared/claimLedger";
+import type { ChannelEntry, FilterKey, InventoryItem, View } from "@renderer/shared/types";
 import { isVerboseLoggingEnabled, logDebug, logInfo } from "@renderer/shared/utils/logger";
 import { recordActivity } from "@renderer/shared/utils/activityFeed";
 import type { ActivityEvent } from "@renderer/shared/utils/activityFeed";
@@ -56,6 +81,7 @@ const STALL_CONFIRMATION_PROBE_COOLDOWN_MS = 60_000;
 const NO_FARMABLE_DROP_GRACE_MS = 30_000;
 const NO_FARMABLE_GAME_COOLDOWN_MS = 10 * 60_000;
 const NO_PROGRESS_GAME_COOLDOWN_MS = 30 * 60_000;
+const FARM_SCHEDULE_TICK_MS = 30_000;
 
 const toConsoleSnapshot = <T>(value: T): T => {
   try {
@@ -65,8 +91,8 @@ const toConsoleSnapshot = <T>(value: T): T => {
   }
 };
 
-export function useAppModel() {
-  const { auth, startLogin, logout } = useAuth();
+export function useAppModel(accounts: AccountsHook) {
+  const { auth, vault, sessionHealth, startLogin, logout, unlockVault } = useAuth();
   const { theme, setTheme } = useTheme();
   const { accent, setAccent } = useAccent();
   const { fontPair, setFontPair } = useFontPair();
@@ -74,13 +100,24 @@ export function useAppModel() {
   const [view, setView] = useState<View>("inventory");
   const {
     priorityGames,
+    priorityRules,
     obeyPriority,
+    priorityStrategy,
+    excludeGames,
+    priorityProfiles,
+    activePriorityProfileId,
     language,
     autoStart,
     autoClaim,
     autoSelect,
     autoSwitchEnabled,
     warmupEnabled,
+    watchSlots,
+    channelScoring,
+    favoriteChannels,
+    blockedChannels,
+    channelDirectoryPages,
+    channelLanguageFilter,
     updateChannel,
     refreshMinMs,
     refreshMaxMs,
@@ -98,14 +135,30 @@ export function useAppModel() {
     allowUnlinkedGames,
     closeToTray,
     minimizeToTray,
+    proxyUrl,
     savePriorityGames,
+    savePriorityRule,
     saveObeyPriority,
+    savePriorityStrategy,
+    saveExcludeGames,
+    activatePriorityProfile,
+    createPriorityProfile,
+    deletePriorityProfile,
     saveLanguage,
     saveAutoStart,
     saveAutoClaim,
     saveAutoSelect,
     saveAutoSwitchEnabled,
     saveWarmupEnabled,
+    saveWatchSlots,
+    saveChannelScoring,
+    saveStreamerLists,
+    saveChannelDirectory,
+    farmSchedule,
+    farmPauseUntil,
+    saveFarmSchedule,
+    saveFarmPauseUntil,
+    setChannelMembership,
     saveUpdateChannel,
     saveRefreshIntervals,
     saveDemoMode,
@@ -122,6 +175,7 @@ export function useAppModel() {
     saveAllowUnlinkedGames,
     saveCloseToTray,
     saveMinimizeToTray,
+    saveProxyUrl,
     resetAutomation,
     selectedGame,
     setSelectedGame,
@@ -134,6 +188,29 @@ export function useAppModel() {
     settingsInfo,
     settingsError,
   } = useSettingsStore();
+  // Schedule blocks and manual pauses end on the clock, not on a settings change,
+  // so the schedule is re-evaluated on a short tick.
+  const [farmClock, setFarmClock] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setFarmClock(Date.now()), FARM_SCHEDULE_TICK_MS);
+    return () => window.clearInterval(id);
+  }, []);
+  const farmState = useMemo(
+    () => evaluateFarmSchedule(farmSchedule, farmPauseUntil, farmClock),
+    [farmClock, farmPauseUntil, farmSchedule],
+  );
+  const pauseFarming = useCallback(
+    (span: FarmPauseSpan) => {
+      const now = Date.now();
+      setFarmClock(now);
+      void saveFarmPauseUntil(farmPauseEnd(span, now));
+    },
+    [saveFarmPauseUntil],
+  );
+  const resumeFarming = useCallback(() => {
+    setFarmClock(Date.now());
+    void saveFarmPauseUntil(null);
+  }, [saveFarmPauseUntil]);
   const [gameFilter, setGameFilter] = useState<string>("all");
   const [watchEngineState, dispatchWatchEngine] = useReducer(
     watchEngineReducer,
@@ -148,7 +225,18 @@ export function useAppModel() {
     id: string;
     login: string;
   } | null>(null);
-  const { watching, setWatchingFromChannel, clearWatching } = useWatchingController();
+  const { watching, setWatchingFromChannel, clearWatching } = useWatchingController(null, {
+    paused: farmState.paused,
+  });
+  // Auto-select, auto-switch and stall recovery stand down while farming is
+  // paused; a channel the user starts by hand is still watched.
+  const setWatchingFromAutomation = useCallback(
+    (channel: ChannelEntry) => {
+      if (farmState.paused) return;
+      setWatchingFromChannel(channel);
+    },
+    [farmState.paused, setWatchingFromChannel],
+  );
   // Engine-watch uptime: stamped when watching starts, kept across channel
   // switches, cleared on pause/stop. Derived here (not in EnginePanel) so it
   // survives Overview tab remounts.
@@ -157,6 +245,7 @@ export function useAppModel() {
   const claimProbeInFlightRef = useRef(false);
   const claimProbeLastAtRef = useRef(0);
   const watchStallTrackerRef = useRef<WatchStallTracker | null>(null);
+  const [channelHistory, setChannelHistory] = useState<ChannelHistory>({});
   const watchConfirmationProbeRef = useRef<{
     key: string;
     baselineProgressAt: number;
@@ -377,9 +466,34 @@ export function useAppModel() {
   }, [watching]);
 
   const { stats, bumpStats, resetStats } = useStats({ demoMode });
+  const { reliability, recordReliability } = useChannelReliability({ demoMode });
+  const { claimLedger, loadClaimLedger, recordClaim, exportClaimLedger } = useClaimLedger({
+    demoMode,
+  });
+  const { claimQueue } = useClaimQueue({ demoMode });
+  // Main records queued claims in the ledger itself, including the retries it
+  // lands while no window is open; pick those up when the audit log says so.
+  const lastQueuedClaimAt = claimQueue.log[0]?.outcome === "claimed" ? claimQueue.log[0].at : 0;
+  useEffect(() => {
+    if (lastQueuedClaimAt > 0) void loadClaimLedger();
+  }, [lastQueuedClaimAt, loadClaimLedger]);
+  // Last channel watched per game, so a claim that lands after the engine moved
+  // on still records where the drop was farmed.
+  const watchedLoginByGameRef = useRef<Record<string, string>>({});
+  const resolveClaimChannel = useCallback(
+    (game: string) => watchedLoginByGameRef.current[game] ?? "",
+    [],
+  );
+  const handleClaimRecorded = useCallback(
+    (drop: InventoryItem, source: ClaimSource) => {
+      void recordClaim(drop, source, resolveClaimChannel(drop.game));
+    },
+    [recordClaim, resolveClaimChannel],
+  );
   const { notify } = useSmartAlerts({
     enabled: alertsEnabled,
     notifyWhileFocused: alertsNotifyWhileFocused,
+    muted: farmState.muted,
   });
   const { handleDropClaimed, handleTestAlert } = useDropClaimAlerts({
     language,
@@ -409,6 +523,8 @@ export function useAppModel() {
     isLinkedOrDemo,
     {
       onClaimed: handleDropClaimed,
+      onClaimRecorded: handleClaimRecorded,
+      resolveClaimChannel,
       onAuthError: forwardAuthError,
     },
     {
@@ -418,6 +534,24 @@ export function useAppModel() {
       allowUnlinkedGames,
     },
   );
+  const { readyClaims, claimingAll, claimAllReport, claimAllError, claimAll, dismissClaimAll } =
+    useClaimAll({
+      demoMode,
+      items: inventoryItems,
+      resolveClaimChannel,
+      onFinished: () => void fetchInventory(),
+      onAuthError: forwardAuthError,
+    });
+  // Pattern entries (wildcards, regexes, game ids) expand against the current
+  // inventory; everything downstream of the Priority view sees concrete names.
+  const resolvedPriorityGames = useMemo(
+    () => resolvePatternGames(priorityGames, withCategories),
+    [priorityGames, withCategories],
+  );
+  const previewPattern = useCallback(
+    (entry: string) => previewGamePattern(entry, withCategories),
+    [withCategories],
+  );
 
   const inventoryRefresh = useInventoryRefresh({
     watching,
@@ -463,25 +597,32 @@ export function useAppModel() {
     inventoryStatus: inventory.status,
     inventoryFetchedAt,
     withCategories,
-    priorityGames,
+    priorityGames: resolvedPriorityGames,
     allowUnlinkedGames,
     watching,
     fetchInventory,
     forwardAuthError,
   });
 
-  const { profile, appVersion, updateStatus, setUpdateStatus, trackerStatus, userPubSubStatus } =
-    useAppBootstrap({
-      authStatus: auth.status,
-      demoMode,
-      debugEnabled,
-      autoSelect,
-      view,
-      setView,
-      setAutoSelectEnabled,
-      fetchInventory,
-      forwardAuthError,
-    });
+  const {
+    profile,
+    appVersion,
+    updateStatus,
+    setUpdateStatus,
+    trackerStatus,
+    userPubSubStatus,
+    gqlStatus,
+  } = useAppBootstrap({
+    authStatus: auth.status,
+    demoMode,
+    debugEnabled,
+    autoSelect,
+    view,
+    setView,
+    setAutoSelectEnabled,
+    fetchInventory,
+    forwardAuthError,
+  });
 
   const actions = useAppActions({
     newGame,
@@ -560,19 +701,61 @@ export function useAppModel() {
       return !isGameInStallCooldown(game, now);
     });
   }, [isGameInStallCooldown, stallSuppressedGame, stalledGameCooldownUntil, withCategories]);
+  usePriorityProfileShortcut({
+    profiles: priorityProfiles,
+    activeId: activePriorityProfileId,
+    activate: activatePriorityProfile,
+  });
+  const minutesTodayByGame = useMemo(
+    () =>
+      selectMinutesTodayByGame(stats.status === "ready" ? stats.data.daily : undefined, Date.now()),
+    [stats],
+  );
 
-  const { activeTargetGame, setActiveTargetGame, priorityOrder, priorityListPreemptionActive } =
-    usePriorityOrchestration({
-      demoMode,
-      inventoryStatus: inventory.status,
-      inventoryItems,
-      withCategories: orchestrationCategories,
-      priorityGames,
-      obeyPriority,
+  const {
+    activeTargetGame,
+    setActiveTargetGame,
+    priorityOrder,
+    deadlineRanking,
+    eligibleCategories,
+    ruleBlocks,
+    priorityListPreemptionActive,
+  } = usePriorityOrchestration({
+    demoMode,
+    inventoryStatus: inventory.status,
+    inventoryItems,
+    withCategories: orchestrationCategories,
+    priorityGames: resolvedPriorityGames,
+    obeyPriority,
+    priorityStrategy,
+    excludeGames,
+    priorityRules,
+    minutesTodayByGame,
+    allowUnlinkedGames,
+    watching,
+    stopWatching: stopWatchingForAutomation,
+  });
+
+  const completionForecast = useMemo(
+    () =>
+      computeCompletionForecast(eligibleCategories, priorityOrder, {
+        intervalMs: WATCH_INTERVAL_MS,
+        slots: watchSlots,
+        allowUpcoming: allowUnlinkedGames,
+        // Deadline mode orders games itself, so there is no list to rearrange.
+        suggestRescues: priorityStrategy === "list",
+        canRescue: createRescueFilter(priorityGames, withCategories),
+      }),
+    [
       allowUnlinkedGames,
-      watching,
-      stopWatching: stopWatchingForAutomation,
-    });
+      eligibleCategories,
+      priorityGames,
+      priorityOrder,
+      priorityStrategy,
+      watchSlots,
+      withCategories,
+    ],
+  );
 
   const targetGame = selectVisibleTargetGame(watchEngineState, activeTargetGame);
   const displayTargetGame = useMemo(() => {
@@ -583,6 +766,35 @@ export function useAppModel() {
     }
     return "";
   }, [activeTargetGame, targetGame, watchEngineState.suppressionReason]);
+  const getPreferredLanguage = useCallback(
+    (game: string) => findPriorityRule(priorityRules, game)?.language,
+    [priorityRules],
+  );
+  const secondarySlot = useSecondaryWatchSlot({
+    enabled: watchSlots === 2 && allowWatching && Boolean(watching) && !farmState.paused,
+    demoMode,
+    primaryWatching: watching,
+    primaryGame: watching?.game || targetGame,
+    priorityOrder,
+    withCategories: eligibleCategories,
+    allowUnlinkedGames,
+    isGameBlocked: isGameInStallCooldown,
+    getPreferredLanguage,
+    favoriteChannels,
+    blockedChannels,
+    channelScoring,
+    channelHistory,
+    channelReliability: reliability,
+    bumpStats,
+    forwardAuthError,
+  });
+  useEffect(() => {
+    const next = { ...watchedLoginByGameRef.current };
+    for (const slot of [secondarySlot.watching, watching]) {
+      if (slot?.game && slot.login) next[slot.game] = slot.login;
+    }
+    watchedLoginByGameRef.current = next;
+  }, [secondarySlot.watching, watching]);
   const shouldClearSuppressedWatching = shouldForceClearWatchingOnSuppressedTarget(
     watchEngineState,
     watching?.game ?? "",
@@ -778,12 +990,14 @@ export function useAppModel() {
         targetGame: displayTargetGame,
         withCategories,
         allowUpcoming: allowUnlinkedGames,
+        blockedLogins: blockedChannels,
       }),
-    [allowUnlinkedGames, displayTargetGame, withCategories],
+    [allowUnlinkedGames, blockedChannels, displayTargetGame, withCategories],
   );
 
   const {
     channels,
+    channelScores,
     channelDiff,
     channelError,
     channelsLoading,
@@ -794,9 +1008,9 @@ export function useAppModel() {
     targetGame: displayTargetGame,
     view,
     watching,
-    setWatchingFromChannel,
+    setWatchingFromChannel: setWatchingFromAutomation,
     clearWatching,
-    autoSelectEnabled,
+    autoSelectEnabled: autoSelectEnabled && !farmState.paused,
     autoSwitchEnabled,
     forcePrioritySwitch: obeyPriority || priorityListPreemptionActive,
     allowWatching,
@@ -806,6 +1020,12 @@ export function useAppModel() {
     onAuthError: forwardAuthError,
     channelAllowlist,
     manualWatchOverride,
+    preferredLanguage: getPreferredLanguage(displayTargetGame),
+    channelScoring,
+    channelHistory,
+    channelReliability: reliability,
+    favoriteChannels,
+    blockedChannels,
   });
 
   const { autoSwitchInfo } = useAlertEffects({
@@ -1019,7 +1239,7 @@ export function useAppModel() {
           },
         });
         if (nextChannel) {
-          setWatchingFromChannel(nextChannel);
+          setWatchingFromAutomation(nextChannel);
           noFarmableDropRef.current = null;
           return;
         }
@@ -1029,7 +1249,7 @@ export function useAppModel() {
         ? channels.find((channel) => allowlistRestriction.allowsChannel(channel))
         : channels[0];
       if (!sameGameName(watching.game, targetGame) && fallbackChannel) {
-        setWatchingFromChannel(fallbackChannel);
+        setWatchingFromAutomation(fallbackChannel);
         noFarmableDropRef.current = null;
         return;
       }
@@ -1077,8 +1297,15 @@ export function useAppModel() {
     const noProgressWindowMs = nearEndNoProgressProbe
       ? STALL_NO_PROGRESS_WINDOW_NEAR_END_MS
       : STALL_NO_PROGRESS_WINDOW_MS;
+    const priorTracker = watchStallTrackerRef.current;
+    const watchingLogin = watching.login ?? watching.name;
+    if (priorTracker?.key === key && earnedMinutes > priorTracker.lastEarnedMinutes) {
+      const credited = earnedMinutes - priorTracker.lastEarnedMinutes;
+      setChannelHistory((prev) => recordChannelProgress(prev, watchingLogin, credited));
+      void recordReliability([{ login: watchingLogin, kind: "credit", minutes: credited }]);
+    }
     const evaluation = evaluateNoProgressStall({
-      tracker: watchStallTrackerRef.current,
+      tracker: priorTracker,
       key,
       earnedMinutes,
       now,
@@ -1129,6 +1356,8 @@ export function useAppModel() {
       void fetchInventory({ forceLoading: true });
     }
     if (!evaluation.shouldRecover) return;
+    setChannelHistory((prev) => recordChannelStall(prev, watchingLogin));
+    void recordReliability([{ login: watchingLogin, kind: "stall" }]);
     const maxChannelRecoveryAttempts = nearEndNoProgressProbe
       ? STALL_MAX_CHANNEL_RECOVERY_ATTEMPTS_NEAR_END
       : STALL_MAX_CHANNEL_RECOVERY_ATTEMPTS;
@@ -1146,7 +1375,7 @@ export function useAppModel() {
         },
       });
       if (nextChannel) {
-        setWatchingFromChannel(nextChannel);
+        setWatchingFromAutomation(nextChannel);
         return;
       }
       // No alternate channel currently visible: force-refresh state before game-level retarget.
@@ -1208,10 +1437,11 @@ export function useAppModel() {
     getNextPriorityTargetGame,
     fetchChannels,
     fetchInventory,
+    recordReliability,
     setAutoSelectEnabled,
     setActiveTargetGame,
     setStalledGameCooldown,
-    setWatchingFromChannel,
+    setWatchingFromAutomation,
     stallCheckHeartbeat,
     targetDrops,
     targetGame,
@@ -1255,6 +1485,7 @@ export function useAppModel() {
     cpu: debugCpu,
     trackerStatus,
     userPubSubStatus,
+    gqlStatus,
     warmup: warmupState,
   });
   const watchEngineSnapshot = useMemo(() => {
@@ -1307,6 +1538,7 @@ export function useAppModel() {
     );
 
     let decision:
+      | "schedule-paused"
       | "no-target"
       | "suppressed"
       | "cooldown"
@@ -1319,7 +1551,9 @@ export function useAppModel() {
       | "idle-ready"
       | "idle-no-watchable-drops" = "no-target";
     const activeTarget = activeTargetGame.trim();
-    if (suppressionGame && activeTarget && suppressionGame === activeTarget) {
+    if (farmState.paused) {
+      decision = "schedule-paused";
+    } else if (suppressionGame && activeTarget && suppressionGame === activeTarget) {
       decision = "suppressed";
     } else if (targetGame && isGameInStallCooldown(targetGame, now)) {
       decision = "cooldown";
@@ -1363,6 +1597,10 @@ export function useAppModel() {
       allowlistedLiveChannels,
       totalLiveChannels: channels.length,
       noProgressTracker,
+      schedulePause:
+        farmState.paused && farmState.pauseReason
+          ? { reason: farmState.pauseReason, until: farmState.pausedUntil }
+          : null,
     };
   }, [
     activeDropInfo,
@@ -1372,6 +1610,9 @@ export function useAppModel() {
     channels,
     channelsLoading,
     channelsRefreshing,
+    farmState.pauseReason,
+    farmState.paused,
+    farmState.pausedUntil,
     isGameInStallCooldown,
     stalledGameCooldownUntil,
     targetGame,
@@ -1388,6 +1629,7 @@ export function useAppModel() {
     profile,
     startLogin,
     logout,
+    accounts,
     showDebug: debugEnabled,
     demoMode,
   };
@@ -1426,6 +1668,28 @@ export function useAppModel() {
     inventoryFetchedAt,
     trackerStatus,
     watchError: watchStats.lastError,
+    completionForecast,
+    claimQueue,
+    onClaimAll: demoMode ? undefined : claimAll,
+    watchSlots:
+      watchSlots === 2
+        ? [
+            {
+              game: watching?.game || displayTargetGame,
+              channel: watching?.name ?? "",
+              dropTitle: activeDropInfo?.title,
+              earnedMinutes: activeDropInfo?.virtualEarned,
+              requiredMinutes: activeDropInfo?.requiredMinutes,
+            },
+            {
+              game: secondarySlot.target?.game ?? "",
+              channel: secondarySlot.watching?.name ?? "",
+              dropTitle: secondarySlot.activeDrop?.title,
+              earnedMinutes: secondarySlot.activeDrop?.earnedMinutes,
+              requiredMinutes: secondarySlot.activeDrop?.requiredMinutes,
+            },
+          ]
+        : undefined,
   };
   const inventoryProps = {
     inventory,
@@ -1436,13 +1700,21 @@ export function useAppModel() {
     uniqueGames,
     refreshing: inventoryRefreshing,
     onRefresh: actions.handleFetchInventory,
+    readyClaims,
+    claimingAll,
+    onClaimAll: demoMode ? undefined : claimAll,
     campaigns,
     campaignsLoading,
     isLinked: isLinkedOrDemo,
     allowUnlinkedGames,
-    priorityGames,
+    priorityGames: resolvedPriorityGames,
     onAddPriorityGame: actions.addGameByName,
     onOpenAccountLink: openAccountLink,
+    watchSlots,
+  };
+  const rewardsProps = {
+    ledger: claimLedger,
+    exportLedger: exportClaimLedger,
   };
   const priorityProps = {
     uniqueGames,
@@ -1459,11 +1731,31 @@ export function useAppModel() {
     movePriorityGame: actions.movePriorityGame,
     obeyPriority,
     setObeyPriority: actions.handleSetObeyPriority,
+    priorityStrategy,
+    setPriorityStrategy: savePriorityStrategy,
+    deadlineRanking,
+    completionForecast,
+    applyForecastRescue: actions.placeGameBefore,
+    excludeGames,
+    setExcludeGames: saveExcludeGames,
+    priorityRules,
+    updatePriorityRule: savePriorityRule,
+    ruleBlocks,
+    priorityProfiles,
+    activePriorityProfileId,
+    activatePriorityProfile,
+    createPriorityProfile,
+    deletePriorityProfile,
+    previewPattern,
   };
   const settingsProps = {
     isLinked,
     onLogout: logout,
     onLogin: startLogin,
+    accounts,
+    vault,
+    sessionHealth,
+    onUnlockVault: unlockVault,
     theme,
     setTheme,
     accent,
@@ -1480,6 +1772,18 @@ export function useAppModel() {
     setAutoSwitchEnabled: actions.handleSetAutoSwitchEnabled,
     warmupEnabled,
     setWarmupEnabled: actions.handleSetWarmupEnabled,
+    watchSlots,
+    setWatchSlots: saveWatchSlots,
+    channelScoring,
+    setChannelScoring: saveChannelScoring,
+    channelDirectoryPages,
+    channelLanguageFilter,
+    saveChannelDirectory,
+    farmSchedule,
+    saveFarmSchedule,
+    favoriteChannels,
+    blockedChannels,
+    saveStreamerLists,
     updateChannel,
     setUpdateChannel: actions.handleSetUpdateChannel,
     demoMode,
@@ -1510,6 +1814,8 @@ export function useAppModel() {
     setCloseToTray: actions.handleSetCloseToTray,
     minimizeToTray,
     setMinimizeToTray: actions.handleSetMinimizeToTray,
+    proxyUrl,
+    setProxyUrl: saveProxyUrl,
     sendTestAlert: handleTestAlert,
     refreshMinMs,
     refreshMaxMs,
@@ -1542,6 +1848,10 @@ export function useAppModel() {
     lastWatchedChannelIdentity,
     stopWatching: handleStopWatchingWithSuppressedTarget,
     channels,
+    channelScores,
+    favoriteChannels,
+    blockedChannels,
+    setChannelMembership,
     channelsLoading,
     channelsRefreshing,
     channelDiff,
@@ -1555,6 +1865,10 @@ export function useAppModel() {
     autoSwitchInfo,
     trackerStatus,
     watchEngineSnapshot,
+    pauseFarming,
+    resumeFarming,
+    watchSlots,
+    secondarySlot: watchSlots === 2 ? secondarySlot : null,
   };
 
   // The active drop's own live completion %, so the Hero card's "% complete"
@@ -1605,6 +1919,11 @@ export function useAppModel() {
     updateStatus,
     onInstallUpdate: actions.handleInstallUpdate,
   };
+  const claimAllProps = {
+    report: claimAllReport,
+    error: claimAllError,
+    onClose: dismissClaimAll,
+  };
 
   return {
     language,
@@ -1612,10 +1931,12 @@ export function useAppModel() {
     heroProps,
     titleBarProps,
     updateOverlayProps,
+    claimAllProps,
     navProps,
     overviewProps,
     statsProps,
     inventoryProps,
+    rewardsProps,
     priorityProps,
     settingsProps,
     controlProps,
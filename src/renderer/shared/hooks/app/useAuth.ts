@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
-import type { AuthState } from "@renderer/shared/types";
+import type { AuthState, SessionHealth, SessionVaultState } from "@renderer/shared/types";
+import { isSessionHealth } from "@renderer/shared/utils/ipc";
 
 const AUTH_LOGIN_CANCELLED_KEY = "error.auth.login_cancelled";
 const AUTH_LOGIN_FAILED_KEY = "error.auth.login_failed";
@@ -19,16 +20,29 @@ function toAuthErrorMessage(err: unknown): string {
 
 type AuthHook = {
   auth: AuthState;
+  vault: SessionVaultState | null;
+  /** Main-process token refresh state of the active account. */
+  sessionHealth: SessionHealth | null;
   startLogin: () => Promise<void>;
   logout: () => Promise<void>;
+  /** Resolves to an error message, or null once the vault is unlocked. */
+  unlockVault: (passphrase: string) => Promise<string | null>;
 };
 
 export function useAuth(): AuthHook {
   const [auth, setAuth] = useState<AuthState>({ status: "idle" });
+  const [vault, setVault] = useState<SessionVaultState | null>(null);
+  const [sessionHealth, setSessionHealth] = useState<SessionHealth | null>(null);
 
   const loadSession = async () => {
-    const session = await window.electronAPI.auth.session();
-    if (!session?.accessToken) {
+    const [session, vaultStatus, health] = await Promise.all([
+      window.electronAPI.auth.session(),
+      window.electronAPI.auth.vaultStatus().catch(() => null),
+      window.electronAPI.auth.sessionHealth().catch(() => null),
+    ]);
+    setVault(vaultStatus ?? null);
+    setSessionHealth(isSessionHealth(health) ? health : null);
+    if (!session?.loggedIn) {
       setAuth({ status: "idle" });
       return;
     }
@@ -41,6 +55,15 @@ export function useAuth(): AuthHook {
     loadSession();
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.auth.onSessionHealth((payload) => {
+      if (isSessionHealth(payload)) setSessionHealth(payload);
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
   const startLogin = async () => {
     setAuth({ status: "pending" });
     try {
@@ -61,9 +84,21 @@ export function useAuth(): AuthHook {
     setAuth({ status: "idle" });
   };
 
+  const unlockVault = async (passphrase: string): Promise<string | null> => {
+    const res = await window.electronAPI.auth.unlockVault({ passphrase });
+    if (!res?.ok) {
+      return typeof res?.message === "string" ? res.message : AUTH_LOGIN_FAILED_KEY;
+    }
+    await loadSession();
+    return null;
+  };
+
   return {
     auth,
+    vault,
+    sessionHealth,
     startLogin,
     logout,
+    unlockVault,
   };
 }
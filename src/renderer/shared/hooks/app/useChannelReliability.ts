@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import { useInterval } from "@renderer/shared/hooks/useInterval";
+import { WATCH_INTERVAL_MS } from "@renderer/shared/hooks/watch/useWatchPing";
+import { logWarn } from "@renderer/shared/utils/logger";
+import {
+  applyChannelReliabilityEvents,
+  normalizeChannelReliabilityLedger,
+  type ChannelReliabilityEvent,
+  type ChannelReliabilityLedger,
+} from "../../../../shared/channelReliability";
+
+type Options = {
+  demoMode?: boolean;
+};
+
+/**
+ * The active account's channel reliability ledger. Main records ping outcomes
+ * on its own, so the ledger is re-read once per watch interval; credits and
+ * stall recoveries observed here are recorded through `recordReliability`.
+ */
+export function useChannelReliability(options: Options = {}) {
+  const demoMode = options.demoMode === true;
+  const [ledger, setLedger] = useState<ChannelReliabilityLedger>({});
+
+  const loadReliability = useCallback(async () => {
+    if (demoMode) return;
+    try {
+      const res: unknown = await window.electronAPI.reliability.get();
+      setLedger(normalizeChannelReliabilityLedger(res));
+    } catch (err) {
+      logWarn("reliability: load failed", err);
+    }
+  }, [demoMode]);
+
+  const recordReliability = useCallback(
+    async (events: ChannelReliabilityEvent[]) => {
+      if (demoMode || events.length === 0) return;
+      setLedger((prev) => applyChannelReliabilityEvents(prev, events, Date.now()));
+      try {
+        const res: unknown = await window.electronAPI.reliability.record(events);
+        setLedger(normalizeChannelReliabilityLedger(res));
+      } catch (err) {
+        logWarn("reliability: record failed", err);
+      }
+    },
+    [demoMode],
+  );
+
+  useEffect(() => {
+    void loadReliability();
+  }, [loadReliability]);
+  useInterval(() => void loadReliability(), WATCH_INTERVAL_MS, !demoMode);
+
+  return { reliability: ledger, loadReliability, recordReliability };
+}
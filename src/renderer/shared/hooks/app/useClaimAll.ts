@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isAutoClaimCandidate } from "@renderer/shared/domain/inventory";
+import type { ErrorInfo, InventoryItem } from "@renderer/shared/types";
+import { errorInfoFromIpc, errorInfoFromUnknown } from "@renderer/shared/utils/errors";
+import { isIpcAuthErrorResponse, isIpcErrorResponse } from "@renderer/shared/utils/ipc";
+import { logWarn } from "@renderer/shared/utils/logger";
+import { RENDERER_ERROR_CODES } from "../../../../shared/errorCodes";
+import {
+  claimBatchRequest,
+  normalizeClaimBatchReport,
+  type ClaimBatchReport,
+} from "../../../../shared/claimBatch";
+
+type Options = {
+  demoMode?: boolean;
+  items: InventoryItem[];
+  resolveClaimChannel: (game: string) => string;
+  /** Runs once per finished batch, e.g. to reload the inventory. */
+  onFinished: () => void;
+  onAuthError: (message?: string) => void;
+};
+
+/**
+ * "Claim all ready drops": main claims them one by one through the claim
+ * queue and reports progress, including batches started from the tray. The
+ * latest report stays up until it is dismissed. Demo mode has no batch action.
+ */
+export function useClaimAll({
+  demoMode = false,
+  items,
+  resolveClaimChannel,
+  onFinished,
+  onAuthError,
+}: Options) {
+  const [report, setReport] = useState<ClaimBatchReport | null>(null);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const finishedRef = useRef<number | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const readyDrops = useMemo(() => items.filter((item) => isAutoClaimCandidate(item)), [items]);
+
+  const applyReport = useCallback((value: unknown) => {
+    const next = normalizeClaimBatchReport(value);
+    if (!next) return;
+    setReport(next);
+    if (next.finishedAt !== null && finishedRef.current !== next.startedAt) {
+      finishedRef.current = next.startedAt;
+      onFinishedRef.current();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (demoMode) return;
+    const unsubscribe = window.electronAPI.claimQueue.onClaimAllProgress(applyReport);
+    return () => {
+      unsubscribe();
+    };
+  }, [applyReport, demoMode]);
+
+  const running = report !== null && report.finishedAt === null;
+
+  const claimAll = useCallback(async () => {
+    if (demoMode || running || readyDrops.length === 0) return;
+    setError(null);
+    const requests = readyDrops.map((item) =>
+      claimBatchRequest(item, resolveClaimChannel(item.game)),
+    );
+    try {
+      const res: unknown = await window.electronAPI.claimQueue.claimAll(requests);
+      if (isIpcErrorResponse(res)) {
+        if (isIpcAuthErrorResponse(res)) onAuthError(res.message);
+        setError(
+          errorInfoFromIpc(res, {
+            code: RENDERER_ERROR_CODES.CLAIM_ALL_FAILED,
+            message: "Claim all failed",
+          }),
+        );
+        return;
+      }
+      applyReport((res as { report?: unknown }).report);
+    } catch (err) {
+      logWarn("claimAll: failed", err);
+      setError(
+        errorInfoFromUnknown(err, {
+          code: RENDERER_ERROR_CODES.CLAIM_ALL_FAILED,
+          message: "Claim all failed",
+        }),
+      );
+    }
+  }, [applyReport, demoMode, onAuthError, readyDrops, resolveClaimChannel, running]);
+
+  const dismiss = useCallback(() => {
+    if (running) return;
+    setReport(null);
+    setError(null);
+  }, [running]);
+
+  return {
+    readyClaims: demoMode ? 0 : readyDrops.length,
+    claimingAll: running,
+    claimAllReport: report,
+    claimAllError: error,
+    claimAll,
+    dismissClaimAll: dismiss,
+  };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import type { InventoryItem } from "@renderer/shared/types";
+import { logWarn } from "@renderer/shared/utils/logger";
+import {
+  claimLedgerEntryId,
+  normalizeClaimLedger,
+  recordClaimLedgerEntry,
+  type ClaimLedger,
+  type ClaimLedgerEntry,
+  type ClaimSource,
+} from "../../../../shared/claimLedger";
+
+type Options = {
+  demoMode?: boolean;
+};
+
+export type ClaimLedgerExportResult =
+  | { ok: true; path: string; count: number }
+  | { ok: false; canceled?: boolean; message?: string };
+
+/**
+ * The active account's claim ledger. Claims are recorded here as the claim
+ * engine reports them; demo mode keeps its claims in memory only.
+ */
+export function useClaimLedger(options: Options = {}) {
+  const demoMode = options.demoMode === true;
+  const [ledger, setLedger] = useState<ClaimLedger>([]);
+
+  const loadClaimLedger = useCallback(async () => {
+    if (demoMode) {
+      setLedger([]);
+      return;
+    }
+    try {
+      const res: unknown = await window.electronAPI.claims.get();
+      setLedger(normalizeClaimLedger(res));
+    } catch (err) {
+      logWarn("claims: load failed", err);
+    }
+  }, [demoMode]);
+
+  const recordClaim = useCallback(
+    async (drop: InventoryItem, source: ClaimSource, channel = "") => {
+      const entry: ClaimLedgerEntry = {
+        id: claimLedgerEntryId(drop.campaignId ?? "", drop.id),
+        claimedAt: Date.now(),
+        title: drop.title,
+        imageUrl: drop.imageUrl ?? "",
+        game: drop.game,
+        campaignId: drop.campaignId ?? "",
+        campaignName: drop.campaignName ?? "",
+        channel,
+        minutes: drop.requiredMinutes,
+        source,
+      };
+      setLedger((prev) => recordClaimLedgerEntry(prev, entry));
+      if (demoMode) return;
+      try {
+        const res: unknown = await window.electronAPI.claims.record(entry);
+        setLedger(normalizeClaimLedger(res));
+      } catch (err) {
+        logWarn("claims: record failed", err);
+      }
+    },
+    [demoMode],
+  );
+
+  const exportClaimLedger = useCallback(
+    async (format: "csv" | "json"): Promise<ClaimLedgerExportResult> => {
+      if (demoMode) return { ok: false, canceled: true };
+      try {
+        const res = (await window.electronAPI.claims.export(format)) as
+          | ClaimLedgerExportResult
+          | { error: string; message?: string };
+        if ("error" in res) return { ok: false, message: res.message };
+        return res;
+      } catch (err) {
+        logWarn("claims: export failed", err);
+        return { ok: false, message: err instanceof Error ? err.message : String(err) };
+      }
+    },
+    [demoMode],
+  );
+
+  useEffect(() => {
+    void loadClaimLedger();
+  }, [loadClaimLedger]);
+
+  return { claimLedger: ledger, loadClaimLedger, recordClaim, exportClaimLedger };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { logWarn } from "@renderer/shared/utils/logger";
+import {
+  emptyClaimQueueState,
+  normalizeClaimQueueState,
+  type ClaimQueueState,
+} from "../../../../shared/claimQueue";
+
+type Options = {
+  demoMode?: boolean;
+};
+
+/**
+ * The active account's claim queue as main reports it: claims still waiting
+ * for a retry and the audit log of every attempt. Demo mode has no queue.
+ */
+export function useClaimQueue(options: Options = {}) {
+  const demoMode = options.demoMode === true;
+  const [claimQueue, setClaimQueue] = useState<ClaimQueueState>(emptyClaimQueueState);
+
+  useEffect(() => {
+    if (demoMode) {
+      setClaimQueue(emptyClaimQueueState());
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.claimQueue
+      .get()
+      .then((res: unknown) => {
+        if (!cancelled) setClaimQueue(normalizeClaimQueueState(res));
+      })
+      .catch((err: unknown) => logWarn("claimQueue: load failed", err));
+    const unsubscribe = window.electronAPI.claimQueue.onChanged((state: unknown) => {
+      setClaimQueue(normalizeClaimQueueState(state));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [demoMode]);
+
+  return { claimQueue };
+}
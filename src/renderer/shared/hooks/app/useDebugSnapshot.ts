@@ -4,6 +4,7 @@ import type {
   ChannelDiff,
   ChannelTrackerStatus,
   ErrorInfo,
+  GqlSchedulerStatus,
   InventoryState,
   ProfileState,
   StatsState,
@@ -52,6 +53,7 @@ type Params = {
   cpu: CpuSample;
   trackerStatus: ChannelTrackerStatus | null;
   userPubSubStatus: UserPubSubStatus | null;
+  gqlStatus: GqlSchedulerStatus | null;
   warmup: WarmupState;
 };
 
@@ -88,6 +90,7 @@ export function useDebugSnapshot({
   cpu,
   trackerStatus,
   userPubSubStatus,
+  gqlStatus,
   warmup,
 }: Params) {
   return useMemo(
@@ -126,6 +129,7 @@ export function useDebugSnapshot({
       },
       tracker: trackerStatus,
       userPubSub: userPubSubStatus,
+      gql: gqlStatus,
       automation: {
         autoClaim,
         autoSelectEnabled,
@@ -200,6 +204,7 @@ export function useDebugSnapshot({
       targetGame,
       trackerStatus,
       userPubSubStatus,
+      gqlStatus,
       cpu,
       watchStats.lastError,
       watchStats.lastOk,
@@ -1,21 +1,75 @@
 import type { Language } from "@renderer/shared/i18n";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { redactProxyUrl } from "../../../../shared/proxy";
 import {
   DEFAULT_UPDATE_CHANNEL,
   normalizeUpdateChannel,
   type UpdateChannel,
 } from "../../../../shared/updateChannels";
+import {
+  normalizePriorityRule,
+  normalizePriorityRules,
+  type PriorityRule,
+} from "../../../../shared/priorityRules";
+import {
+  createPriorityProfileId,
+  pickPriorityProfileSettings,
+  type PriorityProfile,
+} from "../../../../shared/priorityProfiles";
+import {
+  DEFAULT_PRIORITY_STRATEGY,
+  normalizePriorityStrategy,
+  type PriorityStrategy,
+} from "../../../../shared/priorityStrategy";
+import {
+  DEFAULT_CHANNEL_SCORING,
+  normalizeChannelScoring,
+  parseLanguageList,
+  type ChannelScoringSettings,
+} from "../../../../shared/channelScoring";
+import {
+  DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  normalizeChannelDirectoryPages,
+} from "../../../../shared/channelDirectory";
+import {
+  DEFAULT_FARM_SCHEDULE,
+  normalizeFarmPauseUntil,
+  normalizeFarmSchedule,
+  type FarmSchedule,
+} from "../../../../shared/farmSchedule";
+import {
+  normalizeChannelLogins,
+  setStreamerListMembership,
+  type StreamerListMembership,
+  type StreamerLists,
+} from "../../../../shared/streamerLists";
+import {
+  DEFAULT_WATCH_SLOTS,
+  normalizeWatchSlots,
+  type WatchSlotCount,
+} from "../../../../shared/watchSlots";
 
 type SettingsData = {
-  priorityGames: string[];
+  priorityGames: PriorityRule[];
   obeyPriority: boolean;
+  priorityStrategy?: PriorityStrategy;
   excludeGames?: string[];
+  priorityProfiles?: PriorityProfile[];
+  activePriorityProfileId?: string | null;
   language?: Language;
   autoStart?: boolean;
   autoClaim?: boolean;
   autoSelect?: boolean;
   autoSwitch?: boolean;
   warmupEnabled?: boolean;
+  watchSlots?: number;
+  channelScoring?: ChannelScoringSettings;
+  favoriteChannels?: string[];
+  blockedChannels?: string[];
+  channelDirectoryPages?: number;
+  channelLanguageFilter?: string[];
+  farmSchedule?: FarmSchedule;
+  farmPauseUntil?: number | null;
   updateChannel?: UpdateChannel;
   betaUpdates?: boolean;
   refreshMinMs?: number;
@@ -34,17 +88,33 @@ type SettingsData = {
   allowUnlinkedGames?: boolean;
   closeToTray?: boolean;
   minimizeToTray?: boolean;
+  proxyUrl?: string;
 };
 
 type SettingsHook = {
+  /** Game names of `priorityRules`, in priority order. */
   priorityGames: string[];
+  priorityRules: PriorityRule[];
   obeyPriority: boolean;
+  priorityStrategy: PriorityStrategy;
+  excludeGames: string[];
+  priorityProfiles: PriorityProfile[];
+  activePriorityProfileId: string | null;
   language: Language;
   autoStart: boolean;
   autoClaim: boolean;
   autoSelect: boolean;
   autoSwitchEnabled: boolean;
   warmupEnabled: boolean;
+  watchSlots: WatchSlotCount;
+  channelScoring: ChannelScoringSettings;
+  favoriteChannels: string[];
+  blockedChannels: string[];
+  channelDirectoryPages: number;
+  channelLanguageFilter: string[];
+  farmSchedule: FarmSchedule;
+  /** End of a manual pause; null when not paused by hand. */
+  farmPauseUntil: number | null;
   updateChannel: UpdateChannel;
   refreshMinMs: number;
   refreshMaxMs: number;
@@ -62,14 +132,33 @@ type SettingsHook = {
   allowUnlinkedGames: boolean;
   closeToTray: boolean;
   minimizeToTray: boolean;
+  proxyUrl: string;
   savePriorityGames: (list: string[]) => Promise<void>;
+  savePriorityRule: (rule: PriorityRule) => Promise<void>;
   saveObeyPriority: (val: boolean) => Promise<void>;
+  savePriorityStrategy: (val: PriorityStrategy) => Promise<void>;
+  saveExcludeGames: (list: string[]) => Promise<void>;
+  /** Loads a profile into the live settings; null detaches from any profile. */
+  activatePriorityProfile: (id: string | null) => Promise<void>;
+  /** Saves the live priority settings as a new profile and activates it. */
+  createPriorityProfile: (name: string) => Promise<void>;
+  deletePriorityProfile: (id: string) => Promise<void>;
   saveLanguage: (val: Language) => Promise<void>;
   saveAutoStart: (val: boolean) => Promise<void>;
   saveAutoClaim: (val: boolean) => Promise<void>;
   saveAutoSelect: (val: boolean) => Promise<void>;
   saveAutoSwitchEnabled: (val: boolean) => Promise<void>;
   saveWarmupEnabled: (val: boolean) => Promise<void>;
+  saveWatchSlots: (val: WatchSlotCount) => Promise<void>;
+  saveChannelScoring: (val: ChannelScoringSettings) => Promise<void>;
+  saveStreamerLists: (val: StreamerLists) => Promise<void>;
+  /** Directory depth and server-side broadcaster languages for channel fetches. */
+  saveChannelDirectory: (pages: number, languages: string[]) => Promise<void>;
+  saveFarmSchedule: (val: FarmSchedule) => Promise<void>;
+  /** Pauses auto-watch until the given time; null resumes right away. */
+  saveFarmPauseUntil: (until: number | null) => Promise<void>;
+  /** Marks a streamer as favourite or blocked, or clears both; the lists stay exclusive. */
+  setChannelMembership: (login: string, membership: StreamerListMembership) => Promise<void>;
   saveUpdateChannel: (val: UpdateChannel) => Promise<void>;
   saveRefreshIntervals: (minMs: number, maxMs: number) => Promise<void>;
   saveDemoMode: (val: boolean) => Promise<void>;
@@ -86,6 +175,7 @@ type SettingsHook = {
   saveAllowUnlinkedGames: (val: boolean) => Promise<void>;
   saveCloseToTray: (val: boolean) => Promise<void>;
   saveMinimizeToTray: (val: boolean) => Promise<void>;
+  saveProxyUrl: (val: string) => Promise<void>;
   resetAutomation: () => Promise<void>;
   selectedGame: string;
   setSelectedGame: (val: string) => void;
@@ -106,6 +196,14 @@ const toErrorMessage = (err: unknown, fallbackKey: string): string => {
   return fallbackKey;
 };
 
+/** The settings JSON on screen masks the proxy password; importing it keeps the stored one. */
+const settingsJsonText = (data: SettingsData): string =>
+  JSON.stringify(
+    typeof data.proxyUrl === "string" ? { ...data, proxyUrl: redactProxyUrl(data.proxyUrl) } : data,
+    null,
+    2,
+  );
+
 const MIN_REFRESH_MS = 3_600_000;
 const DEFAULT_REFRESH_MIN = 3_600_000;
 const DEFAULT_REFRESH_MAX = 4_200_000;
@@ -122,14 +220,31 @@ const normalizeRefreshIntervals = (
 };
 
 export function useSettingsStore(): SettingsHook {
-  const [priorityGames, setPriorityGames] = useState<string[]>([]);
+  const [priorityRules, setPriorityRules] = useState<PriorityRule[]>([]);
+  const priorityGames = useMemo(() => priorityRules.map((rule) => rule.game), [priorityRules]);
   const [obeyPriority, setObeyPriority] = useState<boolean>(false);
+  const [priorityStrategy, setPriorityStrategy] =
+    useState<PriorityStrategy>(DEFAULT_PRIORITY_STRATEGY);
+  const [excludeGames, setExcludeGames] = useState<string[]>([]);
+  const [priorityProfiles, setPriorityProfiles] = useState<PriorityProfile[]>([]);
+  const [activePriorityProfileId, setActivePriorityProfileId] = useState<string | null>(null);
   const [language, setLanguage] = useState<Language>("de");
   const [autoStart, setAutoStart] = useState<boolean>(false);
   const [autoClaim, setAutoClaim] = useState<boolean>(true);
   const [autoSelect, setAutoSelect] = useState<boolean>(true);
   const [autoSwitchEnabled, setAutoSwitchEnabled] = useState<boolean>(true);
   const [warmupEnabled, setWarmupEnabled] = useState<boolean>(true);
+  const [watchSlots, setWatchSlots] = useState<WatchSlotCount>(DEFAULT_WATCH_SLOTS);
+  const [channelScoring, setChannelScoring] =
+    useState<ChannelScoringSettings>(DEFAULT_CHANNEL_SCORING);
+  const [favoriteChannels, setFavoriteChannels] = useState<string[]>([]);
+  const [blockedChannels, setBlockedChannels] = useState<string[]>([]);
+  const [channelDirectoryPages, setChannelDirectoryPages] = useState<number>(
+    DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  );
+  const [channelLanguageFilter, setChannelLanguageFilter] = useState<string[]>([]);
+  const [farmSchedule, setFarmSchedule] = useState<FarmSchedule>(DEFAULT_FARM_SCHEDULE);
+  const [farmPauseUntil, setFarmPauseUntil] = useState<number | null>(null);
   const [updateChannel, setUpdateChannel] = useState<UpdateChannel>(DEFAULT_UPDATE_CHANNEL);
   const [refreshMinMs, setRefreshMinMs] = useState<number>(DEFAULT_REFRESH_MIN);
   const [refreshMaxMs, setRefreshMaxMs] = useState<number>(DEFAULT_REFRESH_MAX);
@@ -147,6 +262,7 @@ export function useSettingsStore(): SettingsHook {
   const [allowUnlinkedGames, setAllowUnlinkedGames] = useState<boolean>(false);
   const [closeToTray, setCloseToTray] = useState<boolean>(true);
   const [minimizeToTray, setMinimizeToTray] = useState<boolean>(false);
+  const [proxyUrl, setProxyUrl] = useState<string>("");
   const [selectedGame, setSelectedGame] = useState<string>("");
   const [newGame, setNewGame] = useState<string>("");
   const [settingsJson, setSettingsJson] = useState<string>("");
@@ -156,14 +272,26 @@ export function useSettingsStore(): SettingsHook {
   const loadSettings = async () => {
     try {
       const res = await window.electronAPI.settings.get();
-      setPriorityGames(res.priorityGames ?? []);
+      setPriorityRules(normalizePriorityRules(res.priorityGames));
       setObeyPriority(res.obeyPriority ?? false);
+      setPriorityStrategy(normalizePriorityStrategy(res.priorityStrategy));
+      setExcludeGames(res.excludeGames ?? []);
+      setPriorityProfiles(res.priorityProfiles ?? []);
+      setActivePriorityProfileId(res.activePriorityProfileId ?? null);
       setLanguage(res.language === "en" ? "en" : "de");
       setAutoStart(res.autoStart === true);
       setAutoClaim(res.autoClaim !== false);
       setAutoSelect(res.autoSelect !== false);
       setAutoSwitchEnabled(res.autoSwitch !== false);
       setWarmupEnabled(res.warmupEnabled !== false);
+      setWatchSlots(normalizeWatchSlots(res.watchSlots));
+      setChannelScoring(normalizeChannelScoring(res.channelScoring));
+      setFavoriteChannels(normalizeChannelLogins(res.favoriteChannels));
+      setBlockedChannels(normalizeChannelLogins(res.blockedChannels));
+      setChannelDirectoryPages(normalizeChannelDirectoryPages(res.channelDirectoryPages));
+      setChannelLanguageFilter(parseLanguageList(res.channelLanguageFilter));
+      setFarmSchedule(normalizeFarmSchedule(res.farmSchedule));
+      setFarmPauseUntil(normalizeFarmPauseUntil(res.farmPauseUntil));
       setUpdateChannel(normalizeUpdateChannel(res.updateChannel, res.betaUpdates));
       const refresh = normalizeRefreshIntervals(res.refreshMinMs, res.refreshMaxMs);
       setRefreshMinMs(refresh.min);
@@ -186,7 +314,8 @@ export function useSettingsStore(): SettingsHook {
       setAllowUnlinkedGames(res.allowUnlinkedGames === true);
       setCloseToTray(typeof res.closeToTray === "boolean" ? res.closeToTray : true);
       setMinimizeToTray(typeof res.minimizeToTray === "boolean" ? res.minimizeToTray : false);
-      setSettingsJson(JSON.stringify(res, null, 2));
+      setProxyUrl(typeof res.proxyUrl === "string" ? res.proxyUrl : "");
+      setSettingsJson(settingsJsonText(res));
     } catch (err) {
       console.error("settings load failed", err);
       setSettingsError(toErrorMessage(err, "error.settings.load_failed"));
@@ -195,19 +324,36 @@ export function useSettingsStore(): SettingsHook {
 
   useEffect(() => {
     void loadSettings();
+    // Main switches profiles from the tray; pick up the new live settings.
+    const unsubscribe = window.electronAPI.settings.onChanged(() => void loadSettings());
+    return () => {
+      unsubscribe();
+    };
   }, []);
 
   const persist = async (data: Partial<SettingsData>) => {
     try {
       const saved = await window.electronAPI.settings.save(data);
-      setPriorityGames(saved.priorityGames ?? []);
+      setPriorityRules(normalizePriorityRules(saved.priorityGames));
       setObeyPriority(saved.obeyPriority ?? false);
+      setPriorityStrategy(normalizePriorityStrategy(saved.priorityStrategy));
+      setExcludeGames(saved.excludeGames ?? []);
+      setPriorityProfiles(saved.priorityProfiles ?? []);
+      setActivePriorityProfileId(saved.activePriorityProfileId ?? null);
       setLanguage(saved.language === "en" ? "en" : "de");
       setAutoStart(saved.autoStart === true);
       setAutoClaim(saved.autoClaim !== false);
       setAutoSelect(saved.autoSelect !== false);
       setAutoSwitchEnabled(saved.autoSwitch !== false);
       setWarmupEnabled(saved.warmupEnabled !== false);
+      setWatchSlots(normalizeWatchSlots(saved.watchSlots));
+      setChannelScoring(normalizeChannelScoring(saved.channelScoring));
+      setFavoriteChannels(normalizeChannelLogins(saved.favoriteChannels));
+      setBlockedChannels(normalizeChannelLogins(saved.blockedChannels));
+      setChannelDirectoryPages(normalizeChannelDirectoryPages(saved.channelDirectoryPages));
+      setChannelLanguageFilter(parseLanguageList(saved.channelLanguageFilter));
+      setFarmSchedule(normalizeFarmSchedule(saved.farmSchedule));
+      setFarmPauseUntil(normalizeFarmPauseUntil(saved.farmPauseUntil));
       setUpdateChannel(normalizeUpdateChannel(saved.updateChannel, saved.betaUpdates));
       const refresh = normalizeRefreshIntervals(saved.refreshMinMs, saved.refreshMaxMs);
       setRefreshMinMs(refresh.min);
@@ -230,20 +376,73 @@ export function useSettingsStore(): SettingsHook {
       setAllowUnlinkedGames(saved.allowUnlinkedGames === true);
       setCloseToTray(typeof saved.closeToTray === "boolean" ? saved.closeToTray : true);
       setMinimizeToTray(typeof saved.minimizeToTray === "boolean" ? saved.minimizeToTray : false);
-      setSettingsJson(JSON.stringify(saved, null, 2));
+      setProxyUrl(typeof saved.proxyUrl === "string" ? saved.proxyUrl : "");
+      setSettingsJson(settingsJsonText(saved));
     } catch (err) {
       setSettingsError(toErrorMessage(err, "error.settings.save_failed"));
     }
   };
 
+  // Reordering or adding games keeps the rules already attached to them.
   const savePriorityGames = async (list: string[]) => {
-    setPriorityGames(list);
-    await persist({ priorityGames: list, obeyPriority });
+    const rules = list.map((game) => priorityRules.find((rule) => rule.game === game) ?? { game });
+    setPriorityRules(rules);
+    await persist({ priorityGames: rules, obeyPriority });
+  };
+
+  const savePriorityRule = async (rule: PriorityRule) => {
+    const next = normalizePriorityRule(rule);
+    if (!next) return;
+    const rules = priorityRules.map((entry) => (entry.game === next.game ? next : entry));
+    setPriorityRules(rules);
+    await persist({ priorityGames: rules, obeyPriority });
   };
 
   const saveObeyPriority = async (val: boolean) => {
     setObeyPriority(val);
-    await persist({ obeyPriority: val, priorityGames });
+    await persist({ obeyPriority: val, priorityGames: priorityRules });
+  };
+
+  const activatePriorityProfile = async (id: string | null) => {
+    await persist({ activePriorityProfileId: id });
+  };
+
+  const createPriorityProfile = async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const id = createPriorityProfileId(trimmed, priorityProfiles);
+    const profile: PriorityProfile = {
+      id,
+      name: trimmed,
+      ...pickPriorityProfileSettings({
+        priorityGames: priorityRules,
+        excludeGames,
+        obeyPriority,
+        warmupEnabled,
+        allowUnlinkedGames,
+      }),
+    };
+    await persist({
+      priorityProfiles: [...priorityProfiles, profile],
+      activePriorityProfileId: id,
+    });
+  };
+
+  const deletePriorityProfile = async (id: string) => {
+    await persist({
+      priorityProfiles: priorityProfiles.filter((profile) => profile.id !== id),
+      activePriorityProfileId: activePriorityProfileId === id ? null : activePriorityProfileId,
+    });
+  };
+
+  const savePriorityStrategy = async (val: PriorityStrategy) => {
+    setPriorityStrategy(val);
+    await persist({ priorityStrategy: val });
+  };
+
+  const saveExcludeGames = async (list: string[]) => {
+    setExcludeGames(list);
+    await persist({ excludeGames: list });
   };
 
   const saveLanguage = async (val: Language) => {
@@ -276,6 +475,55 @@ export function useSettingsStore(): SettingsHook {
     await persist({ warmupEnabled: val });
   };
 
+  const saveWatchSlots = async (val: WatchSlotCount) => {
+    setWatchSlots(val);
+    await persist({ watchSlots: val });
+  };
+
+  const saveChannelScoring = async (val: ChannelScoringSettings) => {
+    const next = normalizeChannelScoring(val);
+    setChannelScoring(next);
+    await persist({ channelScoring: next });
+  };
+
+  const saveStreamerLists = async (val: StreamerLists) => {
+    const next = {
+      favoriteChannels: normalizeChannelLogins(val.favoriteChannels),
+      blockedChannels: normalizeChannelLogins(val.blockedChannels),
+    };
+    setFavoriteChannels(next.favoriteChannels);
+    setBlockedChannels(next.blockedChannels);
+    await persist(next);
+  };
+
+  const saveChannelDirectory = async (pages: number, languages: string[]) => {
+    const next = {
+      channelDirectoryPages: normalizeChannelDirectoryPages(pages),
+      channelLanguageFilter: parseLanguageList(languages),
+    };
+    setChannelDirectoryPages(next.channelDirectoryPages);
+    setChannelLanguageFilter(next.channelLanguageFilter);
+    await persist(next);
+  };
+
+  const saveFarmSchedule = async (val: FarmSchedule) => {
+    const next = normalizeFarmSchedule(val);
+    setFarmSchedule(next);
+    await persist({ farmSchedule: next });
+  };
+
+  const saveFarmPauseUntil = async (until: number | null) => {
+    const next = normalizeFarmPauseUntil(until);
+    setFarmPauseUntil(next);
+    await persist({ farmPauseUntil: next });
+  };
+
+  const setChannelMembership = async (login: string, membership: StreamerListMembership) => {
+    await saveStreamerLists(
+      setStreamerListMembership({ favoriteChannels, blockedChannels }, login, membership),
+    );
+  };
+
   const saveUpdateChannel = async (val: UpdateChannel) => {
     setUpdateChannel(val);
     await persist({ updateChannel: val });
@@ -359,12 +607,21 @@ export function useSettingsStore(): SettingsHook {
     await persist({ minimizeToTray: val });
   };
 
+  const saveProxyUrl = async (val: string) => {
+    setProxyUrl(val);
+    await persist({ proxyUrl: val });
+  };
+
   const resetAutomation = async () => {
     const defaults = {
       autoClaim: true,
       autoSelect: true,
       autoSwitch: true,
       warmupEnabled: true,
+      watchSlots: DEFAULT_WATCH_SLOTS,
+      channelScoring: DEFAULT_CHANNEL_SCORING,
+      channelDirectoryPages: DEFAULT_CHANNEL_DIRECTORY_PAGES,
+      channelLanguageFilter: [],
       refreshMinMs: DEFAULT_REFRESH_MIN,
       refreshMaxMs: DEFAULT_REFRESH_MAX,
       demoMode: false,
@@ -375,6 +632,10 @@ export function useSettingsStore(): SettingsHook {
     setAutoSelect(defaults.autoSelect);
     setAutoSwitchEnabled(defaults.autoSwitch);
     setWarmupEnabled(defaults.warmupEnabled);
+    setWatchSlots(defaults.watchSlots);
+    setChannelScoring(defaults.channelScoring);
+    setChannelDirectoryPages(defaults.channelDirectoryPages);
+    setChannelLanguageFilter(defaults.channelLanguageFilter);
     setRefreshMinMs(defaults.refreshMinMs);
     setRefreshMaxMs(defaults.refreshMaxMs);
     setDemoMode(defaults.demoMode);
@@ -387,7 +648,7 @@ export function useSettingsStore(): SettingsHook {
     try {
       const res = await window.electronAPI.settings.export();
       const json = JSON.stringify(res, null, 2);
-      setSettingsJson(json);
+      setSettingsJson(settingsJsonText(res));
       setSettingsInfo("settings.info.exported");
       setSettingsError(null);
       if (navigator?.clipboard?.writeText) {
@@ -406,14 +667,26 @@ export function useSettingsStore(): SettingsHook {
     try {
       const parsed = JSON.parse(settingsJson);
       const saved = await window.electronAPI.settings.import(parsed);
-      setPriorityGames(saved.priorityGames ?? []);
+      setPriorityRules(normalizePriorityRules(saved.priorityGames));
       setObeyPriority(saved.obeyPriority ?? false);
+      setPriorityStrategy(normalizePriorityStrategy(saved.priorityStrategy));
+      setExcludeGames(saved.excludeGames ?? []);
+      setPriorityProfiles(saved.priorityProfiles ?? []);
+      setActivePriorityProfileId(saved.activePriorityProfileId ?? null);
       setLanguage(saved.language === "en" ? "en" : "de");
       setAutoStart(saved.autoStart === true);
       setAutoClaim(saved.autoClaim !== false);
       setAutoSelect(saved.autoSelect !== false);
       setAutoSwitchEnabled(saved.autoSwitch !== false);
       setWarmupEnabled(saved.warmupEnabled !== false);
+      setWatchSlots(normalizeWatchSlots(saved.watchSlots));
+      setChannelScoring(normalizeChannelScoring(saved.channelScoring));
+      setFavoriteChannels(normalizeChannelLogins(saved.favoriteChannels));
+      setBlockedChannels(normalizeChannelLogins(saved.blockedChannels));
+      setChannelDirectoryPages(normalizeChannelDirectoryPages(saved.channelDirectoryPages));
+      setChannelLanguageFilter(parseLanguageList(saved.channelLanguageFilter));
+      setFarmSchedule(normalizeFarmSchedule(saved.farmSchedule));
+      setFarmPauseUntil(normalizeFarmPauseUntil(saved.farmPauseUntil));
       setUpdateChannel(normalizeUpdateChannel(saved.updateChannel, saved.betaUpdates));
       const refresh = normalizeRefreshIntervals(saved.refreshMinMs, saved.refreshMaxMs);
       setRefreshMinMs(refresh.min);
@@ -435,7 +708,8 @@ export function useSettingsStore(): SettingsHook {
       setAllowUnlinkedGames(saved.allowUnlinkedGames === true);
       setCloseToTray(typeof saved.closeToTray === "boolean" ? saved.closeToTray : true);
       setMinimizeToTray(typeof saved.minimizeToTray === "boolean" ? saved.minimizeToTray : false);
-      setSettingsJson(JSON.stringify(saved, null, 2));
+      setProxyUrl(typeof saved.proxyUrl === "string" ? saved.proxyUrl : "");
+      setSettingsJson(settingsJsonText(saved));
       setSettingsInfo("settings.info.imported");
       setSettingsError(null);
     } catch (err) {
@@ -454,13 +728,26 @@ export function useSettingsStore(): SettingsHook {
 
   return {
     priorityGames,
+    priorityRules,
     obeyPriority,
+    priorityStrategy,
+    excludeGames,
+    priorityProfiles,
+    activePriorityProfileId,
     language,
     autoStart,
     autoClaim,
     autoSelect,
     autoSwitchEnabled,
     warmupEnabled,
+    watchSlots,
+    channelScoring,
+    favoriteChannels,
+    blockedChannels,
+    channelDirectoryPages,
+    channelLanguageFilter,
+    farmSchedule,
+    farmPauseUntil,
     updateChannel,
     refreshMinMs,
     refreshMaxMs,
@@ -478,14 +765,28 @@ export function useSettingsStore(): SettingsHook {
     allowUnlinkedGames,
     closeToTray,
     minimizeToTray,
+    proxyUrl,
     savePriorityGames,
+    savePriorityRule,
     saveObeyPriority,
+    savePriorityStrategy,
+    saveExcludeGames,
+    activatePriorityProfile,
+    createPriorityProfile,
+    deletePriorityProfile,
     saveLanguage,
     saveAutoStart,
     saveAutoClaim,
     saveAutoSelect,
     saveAutoSwitchEnabled,
     saveWarmupEnabled,
+    saveWatchSlots,
+    saveChannelScoring,
+    saveStreamerLists,
+    saveChannelDirectory,
+    saveFarmSchedule,
+    saveFarmPauseUntil,
+    setChannelMembership,
     saveUpdateChannel,
     saveRefreshIntervals,
     saveDemoMode,
@@ -502,6 +803,7 @@ export function useSettingsStore(): SettingsHook {
     saveAllowUnlinkedGames,
     saveCloseToTray,
     saveMinimizeToTray,
+    saveProxyUrl,
     resetAutomation,
     selectedGame,
     setSelectedGame,
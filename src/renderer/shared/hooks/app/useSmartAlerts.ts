@@ -3,6 +3,8 @@ import { useCallback, useRef } from "react";
 type SmartAlertSettings = {
   enabled: boolean;
   notifyWhileFocused: boolean;
+  /** Quiet hours from the farming schedule; forced alerts still go out. */
+  muted?: boolean;
 };
 
 type AlertPayload = {
@@ -17,11 +19,11 @@ export function useSmartAlerts(settings: SmartAlertSettings) {
   const lastSentRef = useRef(new Map<string, number>());
 
   const canNotify = useCallback(() => {
-    if (!settings.enabled) return false;
+    if (!settings.enabled || settings.muted) return false;
     if (settings.notifyWhileFocused) return true;
     if (typeof document === "undefined") return true;
     return !document.hasFocus();
-  }, [settings.enabled, settings.notifyWhileFocused]);
+  }, [settings.enabled, settings.muted, settings.notifyWhileFocused]);
 
   const notify = useCallback(
     (payload: AlertPayload) => {
@@ -4,18 +4,26 @@ import { isIpcErrorResponse, isStatsData } from "@renderer/shared/utils/ipc";
 import { errorInfoFromIpc, errorInfoFromUnknown } from "@renderer/shared/utils/errors";
 import { RENDERER_ERROR_CODES } from "../../../../shared/errorCodes";
 
-const computeNext = (
-  current: StatsData,
-  delta: { minutes?: number; claims?: number; lastDropTitle?: string; lastGame?: string },
-): StatsData => {
+export type StatsDelta = {
+  minutes?: number;
+  claims?: number;
+  lastDropTitle?: string;
+  lastGame?: string;
+  /** Credits the game without making it `lastGame` (secondary watch slot). */
+  creditGame?: string;
+};
+
+const computeNext = (current: StatsData, delta: StatsDelta): StatsData => {
   const minutes = Math.max(0, delta.minutes ?? 0);
   const claims = Math.max(0, delta.claims ?? 0);
+  const creditKey = String(delta.creditGame ?? delta.lastGame ?? "").trim();
   const nextClaimsByGame = { ...(current.claimsByGame ?? {}) };
-  if (claims > 0 && delta.lastGame) {
-    const key = String(delta.lastGame).trim();
-    if (key) {
-      nextClaimsByGame[key] = Math.max(0, (nextClaimsByGame[key] ?? 0) + claims);
-    }
+  if (claims > 0 && creditKey) {
+    nextClaimsByGame[creditKey] = Math.max(0, (nextClaimsByGame[creditKey] ?? 0) + claims);
+  }
+  const nextMinutesByGame = { ...(current.minutesByGame ?? {}) };
+  if (minutes > 0 && creditKey) {
+    nextMinutesByGame[creditKey] = Math.max(0, (nextMinutesByGame[creditKey] ?? 0) + minutes);
   }
   return {
     ...current,
@@ -26,6 +34,7 @@ const computeNext = (
     lastDropTitle: delta.lastDropTitle ?? current.lastDropTitle,
     lastGame: delta.lastGame ?? current.lastGame,
     claimsByGame: nextClaimsByGame,
+    minutesByGame: nextMinutesByGame,
   };
 };
 
@@ -76,12 +85,7 @@ export function useStats(options: StatsHookOptions = {}) {
   }, []);
 
   const bumpStats = useCallback(
-    async (delta: {
-      minutes?: number;
-      claims?: number;
-      lastDropTitle?: string;
-      lastGame?: string;
-    }) => {
+    async (delta: StatsDelta) => {
       if (demoMode) return;
       setStats((prev) => {
         if (prev.status === "ready" && prev.data) {
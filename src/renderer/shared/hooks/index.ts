@@ -1 +1 @@
-export { useAppModel } from "./app";
+export { useAccounts, useAppModel, type AccountsHook } from "./app";
@@ -21,6 +21,7 @@ import {
   getElapsedWholeMinutes,
   InventoryClaimEngine,
   InventoryPubSubReconciler,
+  type ClaimDropPayload,
   markUpdatedInventoryChange,
   mergeProgressAnchors,
   reconcileFetchedInventoryItems,
@@ -39,6 +40,7 @@ import {
   isUserPubSubEvent,
 } from "@renderer/shared/utils/ipc";
 import { RENDERER_ERROR_CODES } from "../../../../shared/errorCodes";
+import type { ClaimSource } from "../../../../shared/claimLedger";
 
 const NOOP = () => {};
 const NOOP_CLAIM = () => {};
@@ -65,6 +67,9 @@ export {
 type InventoryEvents = {
   onMinutesEarned?: (minutes: number) => void;
   onClaimed?: (payload: { title: string; game: string }) => void;
+  onClaimRecorded?: (drop: InventoryItem, source: ClaimSource) => void;
+  /** Login of the channel watched for a game, stored with its claims. */
+  resolveClaimChannel?: (game: string) => string;
   onAuthError?: (message?: string) => void;
 };
 
@@ -79,6 +84,8 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
   const onMinutesEarned = events?.onMinutesEarned ?? NOOP;
   const onClaimed = events?.onClaimed ?? NOOP_CLAIM;
   const onAuthError = events?.onAuthError ?? NOOP_AUTH;
+  const onClaimRecorded = events?.onClaimRecorded;
+  const resolveClaimChannel = events?.resolveClaimChannel;
   const autoClaimEnabled = opts?.autoClaim !== false;
   const demoMode = opts?.demoMode === true;
   const allowUnlinkedBadgeEmotes = opts?.allowUnlinkedBadgeEmotes === true;
@@ -104,6 +111,14 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
   // flowing, or a poll just ran), we skip polling entirely. 0 = never confirmed.
   const lastProgressUpdateAtRef = useRef<number>(0);
   const claimEngineRef = useRef<InventoryClaimEngine>(new InventoryClaimEngine());
+  const enqueueClaim = useCallback(
+    (payload: ClaimDropPayload) =>
+      window.electronAPI.claimQueue.enqueue({
+        ...payload,
+        channel: resolveClaimChannel?.(payload.game ?? "") ?? "",
+      }),
+    [resolveClaimChannel],
+  );
   const pubSubReconcilerRef = useRef<InventoryPubSubReconciler | null>(null);
   const fetchInFlightRef = useRef(false);
   const fetchInFlightStartedAtRef = useRef(0);
@@ -295,9 +310,10 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
 
           if (autoClaimEnabled) {
             void claimEngineRef.current.autoClaimFromInventory(nextItems, {
-              claimDrop: (payload) => window.electronAPI.twitch.claimDrop(payload),
+              claimDrop: enqueueClaim,
               onAuthError,
               onClaimed,
+              onClaimRecorded,
               setClaimStatus,
               markClaimed: (drop) =>
                 setInventory((prev) => {
@@ -336,7 +352,17 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
         }
       }
     },
-    [inventory, onClaimed, onMinutesEarned, onAuthError, autoClaimEnabled, demoMode, isLinked],
+    [
+      inventory,
+      onClaimed,
+      onClaimRecorded,
+      enqueueClaim,
+      onMinutesEarned,
+      onAuthError,
+      autoClaimEnabled,
+      demoMode,
+      isLinked,
+    ],
   );
 
   fetchInventoryRef.current = fetchInventory;
@@ -441,8 +467,9 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
         if (!result.patched) return;
         if (autoClaimEnabled) {
           void claimEngineRef.current.claimFromPubSubDropClaim({
-            claimDrop: (claimPayload) => window.electronAPI.twitch.claimDrop(claimPayload),
+            claimDrop: enqueueClaim,
             onAuthError,
+            onClaimRecorded,
             setClaimStatus,
             event: payload,
             claimedItem: result.claimedItem,
@@ -479,7 +506,16 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
       pubSubReconciler.clearScheduledReconcile();
       if (typeof unsubscribe === "function") unsubscribe();
     };
-  }, [demoMode, isLinked, onClaimed, onMinutesEarned, onAuthError, autoClaimEnabled]);
+  }, [
+    demoMode,
+    isLinked,
+    onClaimed,
+    onClaimRecorded,
+    enqueueClaim,
+    onMinutesEarned,
+    onAuthError,
+    autoClaimEnabled,
+  ]);
 
   useEffect(() => {
     if (inventoryChanges.added.size === 0 && inventoryChanges.updated.size === 0) return;
@@ -512,17 +548,19 @@ export function useInventory(isLinked: boolean, events?: InventoryEvents, opts?:
   const claimNowAll = useCallback(async () => {
     if (inventory.status !== "ready") return;
     await claimEngineRef.current.autoClaimFromInventory(inventory.items, {
-      claimDrop: (payload) => window.electronAPI.twitch.claimDrop(payload),
+      claimDrop: enqueueClaim,
       onAuthError,
       onClaimed,
+      onClaimRecorded,
       setClaimStatus,
+      source: "manual",
       markClaimed: (drop) =>
         setInventory((prev) => {
           const result = applyPubSubEventToInventoryState(prev, buildLocalClaimEvent(drop));
           return result.patched ? result.nextInventory : prev;
         }),
     });
-  }, [inventory, onAuthError, onClaimed, setClaimStatus]);
+  }, [inventory, onAuthError, onClaimed, onClaimRecorded, enqueueClaim, setClaimStatus]);
 
   /**
    * Polls the live drop progress (DropCurrentSessionContext GQL) and patches
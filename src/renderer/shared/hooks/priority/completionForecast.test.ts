@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "@renderer/shared/types";
+import { computeCompletionForecast } from "./completionForecast";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+const NOW = Date.parse("2026-01-10T00:00:00Z");
+const MINUTE = 60_000;
+const hoursFromNow = (hours: number) => new Date(NOW + hours * 3_600_000).toISOString();
+
+const inProgress = (overrides: Partial<InventoryItem>): WithCategory => ({
+  item: {
+    id: "drop-1",
+    game: "Game",
+    title: "Drop",
+    requiredMinutes: 60,
+    earnedMinutes: 0,
+    status: "progress",
+    ...overrides,
+  },
+  category: "in-progress",
+});
+
+const opts = { now: NOW, intervalMs: MINUTE };
+
+describe("computeCompletionForecast", () => {
+  it("farms games one after another in priority order", () => {
+    const forecast = computeCompletionForecast(
+      [
+        inProgress({ id: "a", game: "First", requiredMinutes: 120, endsAt: hoursFromNow(10) }),
+        inProgress({ id: "b", game: "Second", requiredMinutes: 90, endsAt: hoursFromNow(3) }),
+        inProgress({ id: "c", game: "Third", requiredMinutes: 60 }),
+      ],
+      ["First", "Second", "Third"],
+      opts,
+    );
+    expect(forecast.drops.map((drop) => [drop.dropId, drop.outcome])).toEqual([
+      ["a", "finishes"],
+      ["b", "misses"],
+      ["c", "finishes"],
+    ]);
+    expect(forecast.drops[0].finishAt).toBe(NOW + 120 * MINUTE);
+    // Second holds its slot until its campaign ends, then Third starts.
+    expect(forecast.drops[2].finishAt).toBe(NOW + 240 * MINUTE);
+    expect(forecast).toMatchObject({ finishing: 2, missing: 1, rescues: [] });
+  });
+
+  it("credits a game's drops in parallel and uses every watch slot", () => {
+    const withCategories = [
+      inProgress({ id: "a", game: "First", requiredMinutes: 60, endsAt: hoursFromNow(3) }),
+      inProgress({ id: "b", game: "First", requiredMinutes: 120, endsAt: hoursFromNow(3) }),
+      inProgress({ id: "c", game: "Second", requiredMinutes: 60, endsAt: hoursFromNow(1) }),
+    ];
+    const single = computeCompletionForecast(withCategories, ["First", "Second"], opts);
+    expect(single.drops.map((drop) => drop.outcome)).toEqual(["finishes", "finishes", "misses"]);
+    const dual = computeCompletionForecast(withCategories, ["First", "Second"], {
+      ...opts,
+      slots: 2,
+    });
+    expect(dual.missing).toBe(0);
+  });
+
+  it("marks games outside a strict order as unscheduled", () => {
+    const forecast = computeCompletionForecast(
+      [inProgress({ id: "a", game: "Listed" }), inProgress({ id: "b", game: "Other" })],
+      ["listed"],
+      opts,
+    );
+    expect(forecast.drops.map((drop) => drop.outcome)).toEqual(["finishes", "unscheduled"]);
+  });
+
+  it("suggests the smallest move that finishes more drops", () => {
+    const forecast = computeCompletionForecast(
+      [
+        inProgress({ id: "a", game: "Relaxed", requiredMinutes: 30, endsAt: hoursFromNow(48) }),
+        inProgress({ id: "b", game: "Filler", requiredMinutes: 30, endsAt: hoursFromNow(48) }),
+        inProgress({ id: "c", game: "Urgent", requiredMinutes: 60, endsAt: hoursFromNow(1.5) }),
+        inProgress({ id: "d", game: "Hopeless", requiredMinutes: 600, endsAt: hoursFromNow(2) }),
+        inProgress({ id: "e", game: "Unlisted", requiredMinutes: 30, endsAt: hoursFromNow(1) }),
+      ],
+      ["Relaxed", "Filler", "Urgent", "Hopeless"],
+      { ...opts, suggestRescues: true },
+    );
+    expect(forecast.rescues).toEqual([
+      { game: "Urgent", before: "Filler", rescuedDrops: 1 },
+      { game: "Unlisted", before: "Filler", rescuedDrops: 1 },
+    ]);
+  });
+
+  it("skips rescue moves the priority list cannot express", () => {
+    const forecast = computeCompletionForecast(
+      [
+        inProgress({ id: "a", game: "Relaxed", requiredMinutes: 30, endsAt: hoursFromNow(48) }),
+        inProgress({ id: "b", game: "Filler", requiredMinutes: 30, endsAt: hoursFromNow(48) }),
+        inProgress({ id: "c", game: "Urgent", requiredMinutes: 60, endsAt: hoursFromNow(1.5) }),
+      ],
+      ["Relaxed", "Filler", "Urgent"],
+      {
+        ...opts,
+        suggestRescues: true,
+        canRescue: (game, before) => before !== "Filler",
+      },
+    );
+    expect(forecast.rescues).toEqual([{ game: "Urgent", before: "Relaxed", rescuedDrops: 1 }]);
+  });
+});
@@ -0,0 +1,252 @@
+import { normalizeGameName } from "@renderer/shared/domain/gameName";
+import { canEarnDrop } from "@renderer/shared/domain/inventory";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+/**
+ * How a drop fares when the current priority order is farmed from now on:
+ * - `finishes`: its watch time is complete before the campaign ends.
+ * - `misses`: the campaign ends first.
+ * - `unscheduled`: its game is not in the order (strict mode), so it is never
+ *   farmed.
+ */
+export type DropOutcome = "finishes" | "misses" | "unscheduled";
+
+export type DropForecast = {
+  dropId: string;
+  game: string;
+  title: string;
+  campaignName?: string;
+  remainingMinutes: number;
+  endsAt: number | null;
+  /** Predicted completion time; null unless the drop finishes. */
+  finishAt: number | null;
+  outcome: DropOutcome;
+};
+
+/**
+ * A priority change that finishes more drops: move `game` in front of
+ * `before`, or to the end of the list when `before` is null.
+ */
+export type ForecastRescue = {
+  game: string;
+  before: string | null;
+  rescuedDrops: number;
+};
+
+export type CompletionForecast = {
+  drops: DropForecast[];
+  finishing: number;
+  missing: number;
+  rescues: ForecastRescue[];
+};
+
+type PlannedDrop = {
+  dropId: string;
+  game: string;
+  gameKey: string;
+  title: string;
+  campaignName?: string;
+  remainingMinutes: number;
+  startsAt: number | null;
+  endsAt: number | null;
+};
+
+const MAX_RESCUES = 3;
+
+const parseIso = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+const collectDrops = (withCategories: WithCategory[], allowUpcoming: boolean): PlannedDrop[] => {
+  const drops: PlannedDrop[] = [];
+  for (const { item, category } of withCategories) {
+    if (!canEarnDrop(item, { category, allowUpcoming })) continue;
+    const game = item.game.trim();
+    if (!game) continue;
+    drops.push({
+      dropId: item.id,
+      game,
+      gameKey: normalizeGameName(game),
+      title: item.title,
+      campaignName: item.campaignName?.trim() || undefined,
+      remainingMinutes: Math.max(
+        0,
+        (Number(item.requiredMinutes) || 0) - (Number(item.earnedMinutes) || 0),
+      ),
+      startsAt: parseIso(item.startsAt),
+      endsAt: parseIso(item.endsAt),
+    });
+  }
+  return drops;
+};
+
+/**
+ * Farms the games in order, each on the watch slot that frees up first, the
+ * way the engine hands the next actionable game to a free slot. A game credits
+ * all of its drops at once (one minute per `intervalMs`) and holds its slot
+ * until every drop that has started is finished or expired; drops that start
+ * later are credited from their start without holding the slot.
+ */
+const simulate = (
+  order: string[],
+  drops: PlannedDrop[],
+  now: number,
+  intervalMs: number,
+  slots: number,
+): DropForecast[] => {
+  const byGame = new Map<string, PlannedDrop[]>();
+  for (const drop of drops) {
+    const list = byGame.get(drop.gameKey) ?? [];
+    list.push(drop);
+    byGame.set(drop.gameKey, list);
+  }
+  const slotFreeAt: number[] = Array.from({ length: Math.max(1, slots) }, () => now);
+  const results = new Map<string, DropForecast>();
+  const seen = new Set<string>();
+  for (const game of order) {
+    const key = normalizeGameName(game);
+    const gameDrops = byGame.get(key);
+    if (!gameDrops || seen.has(key)) continue;
+    seen.add(key);
+    const slot = slotFreeAt.indexOf(Math.min(...slotFreeAt));
+    const turnStart = slotFreeAt[slot];
+    let holdUntil = turnStart;
+    for (const drop of gameDrops) {
+      const startedAt = Math.max(turnStart, drop.startsAt ?? turnStart);
+      const doneAt = startedAt + drop.remainingMinutes * intervalMs;
+      const finishes = drop.endsAt === null || doneAt <= drop.endsAt;
+      results.set(drop.dropId, {
+        dropId: drop.dropId,
+        game: drop.game,
+        title: drop.title,
+        campaignName: drop.campaignName,
+        remainingMinutes: drop.remainingMinutes,
+        endsAt: drop.endsAt,
+        finishAt: finishes ? doneAt : null,
+        outcome: finishes ? "finishes" : "misses",
+      });
+      if ((drop.startsAt ?? turnStart) <= turnStart) {
+        holdUntil = Math.max(holdUntil, finishes ? doneAt : (drop.endsAt ?? doneAt));
+      }
+    }
+    slotFreeAt[slot] = holdUntil;
+  }
+  return drops.map(
+    (drop) =>
+      results.get(drop.dropId) ?? {
+        dropId: drop.dropId,
+        game: drop.game,
+        title: drop.title,
+        campaignName: drop.campaignName,
+        remainingMinutes: drop.remainingMinutes,
+        endsAt: drop.endsAt,
+        finishAt: null,
+        outcome: "unscheduled",
+      },
+  );
+};
+
+const countFinishing = (forecasts: DropForecast[]): number =>
+  forecasts.filter((drop) => drop.outcome === "finishes").length;
+
+const moveBefore = (order: string[], game: string, before: string | null): string[] => {
+  const rest = order.filter((entry) => !sameKey(entry, game));
+  const index = before === null ? -1 : rest.findIndex((entry) => sameKey(entry, before));
+  return index < 0 ? [...rest, game] : [...rest.slice(0, index), game, ...rest.slice(index)];
+};
+
+const sameKey = (a: string, b: string) => normalizeGameName(a) === normalizeGameName(b);
+
+/** A drop that cannot finish even when farmed right away is beyond rescue. */
+const isRescuable = (drop: PlannedDrop, now: number, intervalMs: number): boolean => {
+  if (drop.endsAt === null) return true;
+  const startedAt = Math.max(now, drop.startsAt ?? now);
+  return startedAt + drop.remainingMinutes * intervalMs <= drop.endsAt;
+};
+
+/**
+ * For each game with rescuable missed drops, the smallest move up the order
+ * (or into it, for unscheduled games) that finishes more drops overall.
+ */
+const findRescues = (
+  order: string[],
+  drops: PlannedDrop[],
+  forecasts: DropForecast[],
+  opts: {
+    now: number;
+    intervalMs: number;
+    slots: number;
+    canRescue?: (game: string, before: string | null) => boolean;
+  },
+): ForecastRescue[] => {
+  const baseline = countFinishing(forecasts);
+  const dropById = new Map(drops.map((drop) => [drop.dropId, drop]));
+  const candidates: string[] = [];
+  for (const forecast of forecasts) {
+    if (forecast.outcome === "finishes") continue;
+    const drop = dropById.get(forecast.dropId);
+    if (!drop || !isRescuable(drop, opts.now, opts.intervalMs)) continue;
+    if (!candidates.some((game) => sameKey(game, drop.game))) candidates.push(drop.game);
+  }
+  const rescues: ForecastRescue[] = [];
+  for (const game of candidates) {
+    const index = order.findIndex((entry) => sameKey(entry, game));
+    const positions: Array<string | null> = index < 0 ? [null, ...[...order].reverse()] : [];
+    for (let position = index - 1; position >= 0; position -= 1) positions.push(order[position]);
+    for (const before of positions) {
+      if (opts.canRescue && !opts.canRescue(game, before)) continue;
+      const trial = simulate(
+        moveBefore(order, game, before),
+        drops,
+        opts.now,
+        opts.intervalMs,
+        opts.slots,
+      );
+      const gained = countFinishing(trial) - baseline;
+      if (gained <= 0) continue;
+      rescues.push({ game, before, rescuedDrops: gained });
+      break;
+    }
+  }
+  return rescues.sort((a, b) => b.rescuedDrops - a.rescuedDrops).slice(0, MAX_RESCUES);
+};
+
+/**
+ * Predicts which earnable drops finish before their campaign ends when the
+ * engine farms `priorityOrder` from now on, and (with `suggestRescues`) which
+ * reorderings would finish more of them.
+ */
+export const computeCompletionForecast = (
+  withCategories: WithCategory[],
+  priorityOrder: string[],
+  opts: {
+    intervalMs: number;
+    slots?: number;
+    allowUpcoming?: boolean;
+    suggestRescues?: boolean;
+    /** Limits suggestions to moves the priority list can actually express. */
+    canRescue?: (game: string, before: string | null) => boolean;
+    now?: number;
+  },
+): CompletionForecast => {
+  const now = opts.now ?? Date.now();
+  const slots = opts.slots ?? 1;
+  const drops = collectDrops(withCategories, opts.allowUpcoming === true);
+  const forecasts = simulate(priorityOrder, drops, now, opts.intervalMs, slots);
+  const finishing = countFinishing(forecasts);
+  return {
+    drops: forecasts,
+    finishing,
+    missing: forecasts.length - finishing,
+    rescues: opts.suggestRescues
+      ? findRescues(priorityOrder, drops, forecasts, {
+          now,
+          intervalMs: opts.intervalMs,
+          slots,
+          canRescue: opts.canRescue,
+        })
+      : [],
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "@renderer/shared/types";
+import { computeDeadlineRanking } from "./deadlinePriority";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+const NOW = Date.parse("2026-01-10T00:00:00Z");
+const hoursFromNow = (hours: number) => new Date(NOW + hours * 3_600_000).toISOString();
+
+const makeItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "drop-1",
+  game: "Game",
+  title: "Drop",
+  requiredMinutes: 60,
+  earnedMinutes: 0,
+  status: "progress",
+  ...overrides,
+});
+
+const inProgress = (overrides: Partial<InventoryItem>): WithCategory => ({
+  item: makeItem(overrides),
+  category: "in-progress",
+});
+
+describe("computeDeadlineRanking", () => {
+  it("ranks finishable campaigns by pressure, then infeasible, then undated", () => {
+    const ranking = computeDeadlineRanking(
+      [
+        inProgress({ id: "a", game: "Relaxed", requiredMinutes: 60, endsAt: hoursFromNow(48) }),
+        inProgress({ id: "b", game: "Undated", requiredMinutes: 60 }),
+        inProgress({ id: "c", game: "Hopeless", requiredMinutes: 600, endsAt: hoursFromNow(2) }),
+        inProgress({ id: "d", game: "Tight", requiredMinutes: 240, endsAt: hoursFromNow(5) }),
+      ],
+      { now: NOW },
+    );
+    expect(ranking.map((entry) => [entry.game, entry.reason])).toEqual([
+      ["Tight", "at-risk"],
+      ["Relaxed", "at-risk"],
+      ["Hopeless", "infeasible"],
+      ["Undated", "no-deadline"],
+    ]);
+    expect(ranking[0]).toMatchObject({ remainingMinutes: 240, minutesLeft: 300, pressure: 0.8 });
+  });
+
+  it("treats a campaign's drops as accruing in parallel", () => {
+    const [entry] = computeDeadlineRanking(
+      [
+        inProgress({ id: "a", campaignId: "c1", requiredMinutes: 60, earnedMinutes: 30 }),
+        inProgress({ id: "b", campaignId: "c1", requiredMinutes: 120, endsAt: hoursFromNow(4) }),
+      ],
+      { now: NOW },
+    );
+    expect(entry).toMatchObject({ game: "Game", remainingMinutes: 120, minutesLeft: 240 });
+  });
+
+  it("skips non-actionable drops and honours the strict list", () => {
+    const withCategories = [
+      inProgress({ id: "a", game: "Listed", endsAt: hoursFromNow(10) }),
+      inProgress({ id: "b", game: "Other", endsAt: hoursFromNow(1) }),
+      inProgress({ id: "c", game: "Done", status: "claimed", endsAt: hoursFromNow(1) }),
+    ];
+    expect(computeDeadlineRanking(withCategories, { now: NOW }).map((e) => e.game)).toEqual([
+      "Other",
+      "Listed",
+    ]);
+    expect(
+      computeDeadlineRanking(withCategories, { now: NOW, restrictTo: ["listed"] }).map(
+        (e) => e.game,
+      ),
+    ).toEqual(["Listed"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { sameGameName } from "@renderer/shared/domain/gameName";
+import { canEarnDrop } from "@renderer/shared/domain/inventory";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+/**
+ * Why a game sits where it does in the deadline order:
+ * - `at-risk`: finishable before its campaign ends; ranked by pressure.
+ * - `infeasible`: needs more watch time than is left; ranked after every
+ *   finishable game since farming it cannot complete the campaign.
+ * - `no-deadline`: no parseable end date; ranked last in inventory order.
+ */
+export type DeadlineRankReason = "at-risk" | "infeasible" | "no-deadline";
+
+export type DeadlineRankEntry = {
+  game: string;
+  reason: DeadlineRankReason;
+  /** Watch minutes still needed for the deciding campaign. */
+  remainingMinutes: number;
+  /** Minutes until the deciding campaign ends, null without a deadline. */
+  minutesLeft: number | null;
+  /** remainingMinutes / minutesLeft; above 1 the campaign cannot finish. */
+  pressure: number | null;
+  campaignName?: string;
+  endsAt?: number;
+};
+
+type CampaignWindow = {
+  remainingMinutes: number;
+  endsAt: number | null;
+  campaignName?: string;
+};
+
+const parseEndsAt = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+/**
+ * Drops of one campaign accrue watch time in parallel, so a campaign needs as
+ * many minutes as its furthest-away drop, and ends with its earliest drop.
+ */
+const collectCampaignWindows = (
+  withCategories: WithCategory[],
+  allowUpcoming: boolean,
+): Map<string, Map<string, CampaignWindow>> => {
+  const byGame = new Map<string, Map<string, CampaignWindow>>();
+  for (const { item, category } of withCategories) {
+    if (!canEarnDrop(item, { category, allowUpcoming })) continue;
+    const game = item.game.trim();
+    if (!game) continue;
+    const remaining = Math.max(
+      0,
+      (Number(item.requiredMinutes) || 0) - (Number(item.earnedMinutes) || 0),
+    );
+    const endsAt = parseEndsAt(item.endsAt);
+    const campaignKey = item.campaignId?.trim() || item.campaignName?.trim() || game;
+    const gameKey = Array.from(byGame.keys()).find((known) => sameGameName(known, game)) ?? game;
+    const campaigns = byGame.get(gameKey) ?? new Map<string, CampaignWindow>();
+    const current = campaigns.get(campaignKey);
+    campaigns.set(campaignKey, {
+      remainingMinutes: Math.max(current?.remainingMinutes ?? 0, remaining),
+      endsAt:
+        current?.endsAt != null && endsAt != null
+          ? Math.min(current.endsAt, endsAt)
+          : (current?.endsAt ?? endsAt),
+      campaignName: current?.campaignName ?? (item.campaignName?.trim() || undefined),
+    });
+    byGame.set(gameKey, campaigns);
+  }
+  return byGame;
+};
+
+const toEntry = (game: string, window: CampaignWindow, now: number): DeadlineRankEntry => {
+  if (window.endsAt === null) {
+    return {
+      game,
+      reason: "no-deadline",
+      remainingMinutes: window.remainingMinutes,
+      minutesLeft: null,
+      pressure: null,
+      campaignName: window.campaignName,
+    };
+  }
+  const minutesLeft = Math.max(0, (window.endsAt - now) / 60_000);
+  const pressure = minutesLeft > 0 ? window.remainingMinutes / minutesLeft : Infinity;
+  return {
+    game,
+    reason: pressure > 1 ? "infeasible" : "at-risk",
+    remainingMinutes: window.remainingMinutes,
+    minutesLeft,
+    pressure,
+    campaignName: window.campaignName,
+    endsAt: window.endsAt,
+  };
+};
+
+const REASON_RANK: Record<DeadlineRankReason, number> = {
+  "at-risk": 0,
+  infeasible: 1,
+  "no-deadline": 2,
+};
+
+const compareEntries = (a: DeadlineRankEntry, b: DeadlineRankEntry): number => {
+  const byReason = REASON_RANK[a.reason] - REASON_RANK[b.reason];
+  if (byReason !== 0) return byReason;
+  if (a.reason === "at-risk") {
+    const byPressure = (b.pressure ?? 0) - (a.pressure ?? 0);
+    if (byPressure !== 0) return byPressure;
+    return (a.minutesLeft ?? 0) - (b.minutesLeft ?? 0);
+  }
+  if (a.reason === "infeasible") {
+    // Closest to finishable first: it still yields the most drops.
+    return (a.pressure ?? 0) - (b.pressure ?? 0);
+  }
+  return 0;
+};
+
+/** A game is represented by its most urgent campaign that can still finish. */
+const pickDecidingEntry = (entries: DeadlineRankEntry[]): DeadlineRankEntry =>
+  entries.reduce((best, entry) => (compareEntries(entry, best) < 0 ? entry : best));
+
+/**
+ * Ranks actionable games by how likely their campaigns are to expire
+ * unfinished. Callers drop excluded games beforehand; with `restrictTo`
+ * (strict mode) only listed games are ranked.
+ */
+export const computeDeadlineRanking = (
+  withCategories: WithCategory[],
+  opts?: {
+    allowUpcoming?: boolean;
+    restrictTo?: string[];
+    now?: number;
+  },
+): DeadlineRankEntry[] => {
+  const now = opts?.now ?? Date.now();
+  const restrictTo = opts?.restrictTo;
+  const windows = collectCampaignWindows(withCategories, opts?.allowUpcoming === true);
+  const entries: DeadlineRankEntry[] = [];
+  for (const [game, campaigns] of windows) {
+    if (restrictTo && !restrictTo.some((listed) => sameGameName(listed, game))) continue;
+    const candidates = Array.from(campaigns.values()).map((window) => toEntry(game, window, now));
+    entries.push(pickDecidingEntry(candidates));
+  }
+  // Array.prototype.sort is stable, so no-deadline games keep inventory order.
+  return entries.sort(compareEntries);
+};
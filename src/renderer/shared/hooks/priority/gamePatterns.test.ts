@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "@renderer/shared/types";
+import {
+  collectInventoryGames,
+  createRescueFilter,
+  previewGamePattern,
+  resolvePatternGames,
+} from "./gamePatterns";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+const makeEntry = (overrides: Partial<InventoryItem>): WithCategory => ({
+  item: {
+    id: "drop",
+    game: "Game",
+    title: "Drop",
+    requiredMinutes: 60,
+    earnedMinutes: 0,
+    status: "progress",
+    ...overrides,
+  },
+  category: "in-progress",
+});
+
+const withCategories = [
+  makeEntry({ id: "a", game: "Call of Duty: Warzone", gameId: "512710", campaignName: "S3" }),
+  makeEntry({ id: "b", game: "Call of Duty: Warzone", campaignName: "BlackCell" }),
+  makeEntry({ id: "c", game: "Rust", gameId: "263490", campaignName: "Rust Drops" }),
+];
+
+describe("game patterns against the inventory", () => {
+  it("collects each game once with its id", () => {
+    expect(collectInventoryGames(withCategories)).toEqual([
+      { name: "Call of Duty: Warzone", id: "512710" },
+      { name: "Rust", id: "263490" },
+    ]);
+  });
+
+  it("resolves wildcard and id entries to inventory games", () => {
+    expect(resolvePatternGames(["id:263490", "Call of Duty*", "Apex"], withCategories)).toEqual([
+      "Rust",
+      "Call of Duty: Warzone",
+      "Apex",
+    ]);
+  });
+
+  it("previews matched campaigns per game", () => {
+    expect(previewGamePattern("call of duty*", withCategories)).toEqual([
+      { game: "Call of Duty: Warzone", campaigns: ["S3", "BlackCell"] },
+    ]);
+    expect(previewGamePattern("/^apex/", withCategories)).toEqual([]);
+    expect(previewGamePattern("/(/", withCategories)).toBeNull();
+  });
+
+  it("only lets rescues move games that are listed by name", () => {
+    const canRescue = createRescueFilter(["Call of Duty*", "id:263490", "Apex"], withCategories);
+    // Covered by a pattern entry: moving it would have to split the pattern.
+    expect(canRescue("Call of Duty: Warzone", "Apex")).toBe(false);
+    expect(canRescue("Apex", "Rust")).toBe(false);
+    expect(canRescue("Valorant", "Apex")).toBe(true);
+    expect(canRescue("Valorant", null)).toBe(true);
+    expect(canRescue("Valorant", "Unlisted")).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  isGamePattern,
+  matchesGamePattern,
+  parseGamePattern,
+  resolveGamePatterns,
+  sameGameName,
+  type GameRef,
+} from "@renderer/shared/domain/gameName";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+/** One inventory game a priority or exclude entry currently resolves to. */
+export type GamePatternMatch = {
+  game: string;
+  /** Distinct campaign names of that game, in inventory order. */
+  campaigns: string[];
+};
+
+/** Distinct inventory games with their Twitch ids, in inventory order. */
+export const collectInventoryGames = (withCategories: WithCategory[]): GameRef[] => {
+  const games: GameRef[] = [];
+  for (const { item } of withCategories) {
+    const name = item.game.trim();
+    if (!name) continue;
+    const known = games.find((game) => sameGameName(game.name, name));
+    if (known) {
+      known.id ??= item.gameId;
+      continue;
+    }
+    games.push({ name, id: item.gameId });
+  }
+  return games;
+};
+
+/** Expands priority or exclude entries into the inventory games they cover. */
+export const resolvePatternGames = (entries: string[], withCategories: WithCategory[]): string[] =>
+  entries.length === 0
+    ? entries
+    : resolveGamePatterns(entries, collectInventoryGames(withCategories));
+
+/**
+ * Rescue suggestions are planned on resolved names but applied to the raw
+ * list. A game can only be moved, or moved in front of, when it resolves from
+ * a plain-name entry; a pattern entry covers several games and cannot be
+ * split. Games not on the list at all can still be added.
+ */
+export const createRescueFilter = (
+  entries: string[],
+  withCategories: WithCategory[],
+): ((game: string, before: string | null) => boolean) => {
+  const games = collectInventoryGames(withCategories);
+  const sourceEntry = (name: string) => {
+    const ref = games.find((game) => sameGameName(game.name, name)) ?? { name };
+    return entries.find((entry) => matchesGamePattern(entry, ref));
+  };
+  return (game, before) => {
+    const from = sourceEntry(game);
+    if (from !== undefined && isGamePattern(from)) return false;
+    if (before === null) return true;
+    const anchor = sourceEntry(before);
+    return anchor !== undefined && !isGamePattern(anchor);
+  };
+};
+
+/**
+ * Which current games and campaigns an entry matches, for the Priority view
+ * preview. Returns null for an unparseable regex.
+ */
+export const previewGamePattern = (
+  entry: string,
+  withCategories: WithCategory[],
+): GamePatternMatch[] | null => {
+  if (parseGamePattern(entry).kind === "invalid") return null;
+  const matches: GamePatternMatch[] = [];
+  for (const { item } of withCategories) {
+    if (!matchesGamePattern(entry, { name: item.game, id: item.gameId })) continue;
+    const game = item.game.trim();
+    let match = matches.find((known) => sameGameName(known.game, game));
+    if (!match) {
+      match = { game, campaigns: [] };
+      matches.push(match);
+    }
+    const campaign = item.campaignName?.trim();
+    if (campaign && !match.campaigns.includes(campaign)) match.campaigns.push(campaign);
+  }
+  return matches;
+};
@@ -1,2 +1,7 @@
 export * from "./usePriorityActions";
 export * from "./usePriorityOrchestration";
+export * from "./deadlinePriority";
+export * from "./priorityRules";
+export * from "./usePriorityProfileShortcut";
+export * from "./gamePatterns";
+export * from "./completionForecast";
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "@renderer/shared/types";
+import { applyPriorityRules, selectMinutesTodayByGame } from "./priorityRules";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+const makeItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "drop-1",
+  game: "Game",
+  title: "Drop",
+  requiredMinutes: 60,
+  earnedMinutes: 0,
+  status: "progress",
+  ...overrides,
+});
+
+// Wednesday 2026-03-11, 14:00 local time.
+const NOW = new Date(2026, 2, 11, 14, 0).getTime();
+const DAY_MS = 86_400_000;
+
+describe("applyPriorityRules", () => {
+  const withCategories: WithCategory[] = [
+    { item: makeItem({ id: "a1", game: "Alpha" }), category: "in-progress" },
+    { item: makeItem({ id: "b1", game: "Beta" }), category: "in-progress" },
+  ];
+
+  it("passes everything through without constrained rules", () => {
+    const result = applyPriorityRules({
+      withCategories,
+      rules: [{ game: "Alpha" }],
+      now: NOW,
+      minutesTodayByGame: {},
+    });
+    expect(result.withCategories).toBe(withCategories);
+    expect(result.blocks).toEqual({});
+  });
+
+  it("blocks games outside their schedule or over their daily budget", () => {
+    const result = applyPriorityRules({
+      withCategories,
+      rules: [
+        { game: "Alpha", hours: { from: 20, to: 2 } },
+        { game: "Beta", maxMinutesPerDay: 60 },
+      ],
+      now: NOW,
+      minutesTodayByGame: { beta: 45, Beta: 20 },
+    });
+    expect(result.withCategories).toEqual([]);
+    expect(result.blocks).toEqual({ Alpha: "hours", Beta: "daily-budget" });
+  });
+
+  it("applies claim limits and end windows per campaign", () => {
+    const items: WithCategory[] = [
+      {
+        item: makeItem({ id: "c1", game: "Alpha", campaignId: "c", status: "claimed" }),
+        category: "finished",
+      },
+      { item: makeItem({ id: "c2", game: "Alpha", campaignId: "c" }), category: "in-progress" },
+      {
+        item: makeItem({
+          id: "d1",
+          game: "Alpha",
+          campaignId: "d",
+          endsAt: new Date(NOW + 2 * DAY_MS).toISOString(),
+        }),
+        category: "in-progress",
+      },
+      {
+        item: makeItem({
+          id: "e1",
+          game: "Beta",
+          endsAt: new Date(NOW + 10 * DAY_MS).toISOString(),
+        }),
+        category: "in-progress",
+      },
+    ];
+    const result = applyPriorityRules({
+      withCategories: items,
+      rules: [
+        { game: "Alpha", stopAfterClaims: 1 },
+        { game: "Beta", endsWithinDays: 7 },
+      ],
+      now: NOW,
+      minutesTodayByGame: {},
+    });
+    expect(result.withCategories.map(({ item }) => item.id)).toEqual(["c1", "d1"]);
+    expect(result.blocks).toEqual({ Beta: "ends-too-late" });
+  });
+});
+
+describe("selectMinutesTodayByGame", () => {
+  it("reads the local-day bucket", () => {
+    expect(
+      selectMinutesTodayByGame(
+        { "2026-03-11": { minutes: 30, claims: 0, minutesByGame: { Alpha: 30 } } },
+        NOW,
+      ),
+    ).toEqual({ Alpha: 30 });
+    expect(selectMinutesTodayByGame(undefined, NOW)).toEqual({});
+  });
+});
@@ -0,0 +1,160 @@
+import { matchesGamePattern } from "@renderer/shared/domain/gameName";
+import type { InventoryItem, StatsData } from "@renderer/shared/types";
+import {
+  hasPriorityRuleConstraints,
+  isWithinRuleSchedule,
+  type PriorityRule,
+} from "../../../../shared/priorityRules";
+import type { WithCategory } from "./usePriorityOrchestration";
+
+/**
+ * Why a priority rule currently keeps its game from being farmed:
+ * - `weekday` / `hours`: outside the rule's schedule
+ * - `daily-budget`: today's watch minutes reached `maxMinutesPerDay`
+ * - `claim-limit`: every campaign hit `stopAfterClaims`
+ * - `ends-too-late`: no campaign ends within `endsWithinDays`
+ */
+export type PriorityRuleBlock =
+  | "weekday"
+  | "hours"
+  | "daily-budget"
+  | "claim-limit"
+  | "ends-too-late";
+
+const DAY_MS = 86_400_000;
+
+/** The first rule whose entry (name or pattern) matches the game. */
+export const findPriorityRule = (
+  rules: PriorityRule[],
+  game: string,
+  gameId?: string,
+): PriorityRule | undefined =>
+  rules.find((rule) => matchesGamePattern(rule.game, { name: game, id: gameId }));
+
+const campaignKeyOf = (item: InventoryItem): string =>
+  item.campaignId?.trim() || item.campaignName?.trim() || item.game.trim();
+
+/** Claimed drops per campaign, counted over the whole inventory. */
+export const countClaimsByCampaign = (withCategories: WithCategory[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const { item } of withCategories) {
+    if (item.status !== "claimed") continue;
+    const key = campaignKeyOf(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/** Game-wide checks: schedule and daily budget. */
+export const evaluateGameRule = (
+  rule: PriorityRule,
+  { now, minutesToday }: { now: number; minutesToday: number },
+): PriorityRuleBlock | null => {
+  const schedule = isWithinRuleSchedule(rule, new Date(now));
+  if (!schedule.ok) return schedule.reason;
+  if (rule.maxMinutesPerDay !== undefined && minutesToday >= rule.maxMinutesPerDay) {
+    return "daily-budget";
+  }
+  return null;
+};
+
+/** Campaign checks for one drop: claim limit and end-date window. */
+export const evaluateDropRule = (
+  rule: PriorityRule,
+  item: InventoryItem,
+  { now, claimsByCampaign }: { now: number; claimsByCampaign: Map<string, number> },
+): PriorityRuleBlock | null => {
+  if (
+    rule.stopAfterClaims !== undefined &&
+    (claimsByCampaign.get(campaignKeyOf(item)) ?? 0) >= rule.stopAfterClaims
+  ) {
+    return "claim-limit";
+  }
+  if (rule.endsWithinDays !== undefined) {
+    const endsAt = item.endsAt ? Date.parse(item.endsAt) : NaN;
+    if (!Number.isFinite(endsAt) || endsAt - now > rule.endsWithinDays * DAY_MS) {
+      return "ends-too-late";
+    }
+  }
+  return null;
+};
+
+/**
+ * Removes drops that a priority rule currently forbids, so every ordering
+ * strategy treats those games as not actionable. Games without a rule pass
+ * through untouched. `blocks` records, per rule game, why nothing is left.
+ */
+export const applyPriorityRules = ({
+  withCategories,
+  rules,
+  now,
+  minutesTodayByGame,
+}: {
+  withCategories: WithCategory[];
+  rules: PriorityRule[];
+  now: number;
+  minutesTodayByGame: Record<string, number>;
+}): { withCategories: WithCategory[]; blocks: Record<string, PriorityRuleBlock> } => {
+  const constrained = rules.filter(hasPriorityRuleConstraints);
+  if (constrained.length === 0) return { withCategories, blocks: {} };
+  const claimsByCampaign = countClaimsByCampaign(withCategories);
+  const gameIds = new Map(withCategories.map(({ item }) => [item.game.trim(), item.gameId]));
+  // Stats are keyed by game name; a pattern rule budgets all games it matches.
+  const minutesToday = (rule: PriorityRule): number =>
+    Object.entries(minutesTodayByGame).reduce(
+      (sum, [key, minutes]) =>
+        matchesGamePattern(rule.game, { name: key, id: gameIds.get(key.trim()) })
+          ? sum + minutes
+          : sum,
+      0,
+    );
+  const gameBlocks = new Map<PriorityRule, PriorityRuleBlock | null>();
+  const blocks: Record<string, PriorityRuleBlock> = {};
+  const kept: WithCategory[] = [];
+  const keptGames = new Set<string>();
+  for (const entry of withCategories) {
+    const rule = findPriorityRule(constrained, entry.item.game, entry.item.gameId);
+    if (!rule) {
+      kept.push(entry);
+      continue;
+    }
+    if (!gameBlocks.has(rule)) {
+      gameBlocks.set(rule, evaluateGameRule(rule, { now, minutesToday: minutesToday(rule) }));
+    }
+    const block =
+      gameBlocks.get(rule) ??
+      (entry.item.status === "claimed"
+        ? null
+        : evaluateDropRule(rule, entry.item, { now, claimsByCampaign }));
+    if (block) {
+      blocks[rule.game] ??= block;
+      continue;
+    }
+    kept.push(entry);
+    if (entry.item.status !== "claimed") keptGames.add(rule.game);
+  }
+  for (const game of keptGames) delete blocks[game];
+  return { withCategories: kept, blocks };
+};
+
+/** Whether any rule depends on the clock and needs periodic re-evaluation. */
+export const hasTimeDependentRules = (rules: PriorityRule[]): boolean =>
+  rules.some(
+    (rule) =>
+      rule.hours !== undefined ||
+      rule.weekdays !== undefined ||
+      rule.maxMinutesPerDay !== undefined ||
+      rule.endsWithinDays !== undefined,
+  );
+
+/** Today's (local day) watch minutes per game from the stats daily buckets. */
+export const selectMinutesTodayByGame = (
+  daily: StatsData["daily"] | undefined,
+  now: number,
+): Record<string, number> => {
+  const d = new Date(now);
+  const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate(),
+  ).padStart(2, "0")}`;
+  return daily?.[key]?.minutesByGame ?? {};
+};
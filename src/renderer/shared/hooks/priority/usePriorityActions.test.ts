@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { reorderPriorityGamesByValue } from "./usePriorityActions";
+import { placePriorityGameBefore, reorderPriorityGamesByValue } from "./usePriorityActions";
 
 describe("reorderPriorityGamesByValue", () => {
   it("moves an item upward when dropped over an earlier item", () => {
@@ -28,3 +28,27 @@ describe("reorderPriorityGamesByValue", () => {
     expect(reorderPriorityGamesByValue(games, "Missing", "Rust")).toBe(games);
   });
 });
+
+describe("placePriorityGameBefore", () => {
+  it("moves a listed game in front of another", () => {
+    expect(placePriorityGameBefore(["Rust", "WoW", "CS2"], "cs2", "WoW")).toEqual([
+      "Rust",
+      "CS2",
+      "WoW",
+    ]);
+  });
+
+  it("adds an unlisted game, at the end when the anchor is not listed", () => {
+    expect(placePriorityGameBefore(["Rust", "WoW"], "Apex", "Rust")).toEqual([
+      "Apex",
+      "Rust",
+      "WoW",
+    ]);
+    expect(placePriorityGameBefore(["Rust"], "Apex", null)).toEqual(["Rust", "Apex"]);
+  });
+
+  it("returns the original list when nothing moves", () => {
+    const games = ["Rust", "WoW"];
+    expect(placePriorityGameBefore(games, "Rust", "WoW")).toBe(games);
+  });
+});
@@ -1,5 +1,6 @@
 import { useCallback } from "react";
 import { arrayMove } from "@dnd-kit/sortable";
+import { sameGameName } from "@renderer/shared/domain/gameName";
 
 type Params = {
   newGame: string;
@@ -21,6 +22,26 @@ export const reorderPriorityGamesByValue = (
   return arrayMove(priorityGames, activeIndex, overIndex);
 };
 
+/**
+ * Puts `game` right in front of `before`, adding it when it is not listed yet.
+ * With `before` null or not listed, the game goes to the end of the list.
+ */
+export const placePriorityGameBefore = (
+  priorityGames: string[],
+  game: string,
+  before: string | null,
+): string[] => {
+  const listed = priorityGames.find((entry) => sameGameName(entry, game)) ?? game;
+  const rest = priorityGames.filter((entry) => !sameGameName(entry, game));
+  const index = before === null ? -1 : rest.findIndex((entry) => sameGameName(entry, before));
+  const updated =
+    index < 0 ? [...rest, listed] : [...rest.slice(0, index), listed, ...rest.slice(index)];
+  const unchanged =
+    updated.length === priorityGames.length &&
+    updated.every((entry, i) => entry === priorityGames[i]);
+  return unchanged ? priorityGames : updated;
+};
+
 export function usePriorityActions({
   newGame,
   setNewGame,
@@ -79,10 +100,21 @@ export function usePriorityActions({
     [priorityGames, savePriorityGames, setAutoSelectEnabled],
   );
 
+  const placeGameBefore = useCallback(
+    (game: string, before: string | null) => {
+      const updated = placePriorityGameBefore(priorityGames, game, before);
+      if (updated === priorityGames) return;
+      setAutoSelectEnabled(true);
+      void savePriorityGames(updated);
+    },
+    [priorityGames, savePriorityGames, setAutoSelectEnabled],
+  );
+
   return {
     addGame,
     removeGame,
     movePriorityGame,
+    placeGameBefore,
     addGameFromSelect,
     addGameByName,
   };
@@ -6,6 +6,7 @@ import {
   computeNextActiveTargetGame,
   computePriorityOrder,
   isGameActionable,
+  isGameExcluded,
   normalizePriorityGames,
   type WithCategory,
 } from "./usePriorityOrchestration";
@@ -52,6 +53,24 @@ describe("priority orchestration helpers", () => {
     expect(result).toEqual(["A", "C"]);
   });
 
+  it("uses the deadline order in deadline mode, regardless of strict mode", () => {
+    const result = computePriorityOrder({
+      obeyPriority: true,
+      effectivePriorityPlan: null,
+      priorityGames: ["A"],
+      fallbackOrder: ["B"],
+      strictPriorityGames: ["A"],
+      strategy: "deadline",
+      deadlineOrder: ["C", "A"],
+    });
+    expect(result).toEqual(["C", "A"]);
+  });
+
+  it("matches excluded games tolerantly", () => {
+    expect(isGameExcluded("  marvel rivals ", ["Marvel Rivals"])).toBe(true);
+    expect(isGameExcluded("Marvel Rivals 2", ["Marvel Rivals"])).toBe(false);
+  });
+
   it("computes priority order with plan, then list, then fallback", () => {
     const fromPlan = computePriorityOrder({
       obeyPriority: false,
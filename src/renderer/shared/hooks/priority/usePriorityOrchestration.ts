@@ -1,4 +1,5 @@
 import { buildDemoPriorityPlan } from "@renderer/shared/demoData";
+import { sameGameName } from "@renderer/shared/domain/gameName";
 import { canEarnDrop } from "@renderer/shared/domain/inventory";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
@@ -7,6 +8,11 @@ import type {
   PriorityPlan,
   WatchingState,
 } from "@renderer/shared/types";
+import type { PriorityRule } from "../../../../shared/priorityRules";
+import type { PriorityStrategy } from "../../../../shared/priorityStrategy";
+import { computeDeadlineRanking } from "./deadlinePriority";
+import { resolvePatternGames } from "./gamePatterns";
+import { applyPriorityRules, hasTimeDependentRules } from "./priorityRules";
 
 export type WithCategory = { item: InventoryItem; category: string };
 
@@ -57,6 +63,10 @@ export const normalizePriorityGames = (priorityGames: string[]): string[] => {
   return order;
 };
 
+/** True when the game is on the user's exclude list; excluded games are never farmed. */
+export const isGameExcluded = (game: string, excludeGames: string[]): boolean =>
+  excludeGames.some((excluded) => sameGameName(excluded, game));
+
 const buildLivePriorityPlan = (items: InventoryItem[], priorityGames: string[]): PriorityPlan => {
   const activeItems = items.filter((i) => i.status !== "claimed");
   const availableGames = Array.from(new Set(activeItems.map((i) => i.game)));
@@ -89,13 +99,21 @@ export const computePriorityOrder = ({
   priorityGames,
   fallbackOrder,
   strictPriorityGames,
+  strategy = "list",
+  deadlineOrder = [],
 }: {
   obeyPriority: boolean;
   effectivePriorityPlan: PriorityPlan | null;
   priorityGames: string[];
   fallbackOrder: string[];
   strictPriorityGames: string[];
+  strategy?: PriorityStrategy;
+  /** Actionable games ranked by deadline risk (already strict-filtered). */
+  deadlineOrder?: string[];
 }): string[] => {
+  if (strategy === "deadline") {
+    return deadlineOrder;
+  }
   if (obeyPriority) {
     // Strict mode: only games explicitly listed by the user are allowed.
     return strictPriorityGames;
@@ -181,13 +199,26 @@ export const computeNextActiveTargetGame = ({
   return bestActionableGame !== activeTargetGame ? bestActionableGame : activeTargetGame;
 };
 
+const EMPTY_EXCLUDES: string[] = [];
+const EMPTY_RULES: PriorityRule[] = [];
+const EMPTY_MINUTES: Record<string, number> = {};
+const RULE_CLOCK_MS = 60_000;
+
 type Params = {
   demoMode: boolean;
   inventoryStatus: InventoryState["status"];
   inventoryItems: InventoryItem[];
   withCategories: WithCategory[];
+  /** Priority games with patterns already resolved against the inventory. */
   priorityGames: string[];
   obeyPriority: boolean;
+  priorityStrategy?: PriorityStrategy;
+  /** Exclude entries; names or patterns, resolved here. */
+  excludeGames?: string[];
+  /** Rules attached to priority games; constrained games drop out while blocked. */
+  priorityRules?: PriorityRule[];
+  /** Today's watch minutes per game, for `maxMinutesPerDay`. */
+  minutesTodayByGame?: Record<string, number>;
   allowUnlinkedGames: boolean;
   watching: WatchingState;
   stopWatching: (opts?: { skipRefresh?: boolean }) => void;
@@ -197,9 +228,13 @@ export function usePriorityOrchestration({
   demoMode,
   inventoryStatus,
   inventoryItems,
-  withCategories,
+  withCategories: rawWithCategories,
   priorityGames,
   obeyPriority,
+  priorityStrategy = "list",
+  excludeGames: excludeEntries = EMPTY_EXCLUDES,
+  priorityRules = EMPTY_RULES,
+  minutesTodayByGame = EMPTY_MINUTES,
   allowUnlinkedGames,
   watching,
   stopWatching,
@@ -207,6 +242,36 @@ export function usePriorityOrchestration({
   const [priorityPlan, setPriorityPlan] = useState<PriorityPlan | null>(null);
   const [activeTargetGame, setActiveTargetGame] = useState<string>("");
 
+  // Schedules and daily budgets change with the clock, not just with inventory.
+  const [ruleClock, setRuleClock] = useState(() => Date.now());
+  const clockDependent = hasTimeDependentRules(priorityRules);
+  useEffect(() => {
+    if (!clockDependent) return;
+    setRuleClock(Date.now());
+    const id = window.setInterval(() => setRuleClock(Date.now()), RULE_CLOCK_MS);
+    return () => window.clearInterval(id);
+  }, [clockDependent]);
+
+  const excludeGames = useMemo(
+    () => resolvePatternGames(excludeEntries, rawWithCategories),
+    [excludeEntries, rawWithCategories],
+  );
+
+  // Excluded games and rule-blocked drops drop out before any ordering
+  // strategy sees them.
+  const { withCategories, ruleBlocks } = useMemo(() => {
+    const allowed = excludeGames.length
+      ? rawWithCategories.filter(({ item }) => !isGameExcluded(item.game, excludeGames))
+      : rawWithCategories;
+    const ruled = applyPriorityRules({
+      withCategories: allowed,
+      rules: priorityRules,
+      now: ruleClock,
+      minutesTodayByGame,
+    });
+    return { withCategories: ruled.withCategories, ruleBlocks: ruled.blocks };
+  }, [excludeGames, minutesTodayByGame, priorityRules, rawWithCategories, ruleClock]);
+
   const refreshDemoPriorityPlan = useCallback(async () => {
     setPriorityPlan(buildDemoPriorityPlan(inventoryItems, priorityGames));
   }, [inventoryItems, priorityGames]);
@@ -230,20 +295,43 @@ export function usePriorityOrchestration({
   const strictPriorityGames = useMemo(() => {
     return normalizePriorityGames(priorityGames);
   }, [priorityGames]);
-  const priorityListKey = strictPriorityGames.join("|");
+  // Switching strategy reorders everything, so it preempts like a list edit.
+  const priorityListKey = `${priorityStrategy}:${strictPriorityGames.join("|")}`;
   const lastPriorityListKeyRef = useRef<string>(priorityListKey);
   const priorityListChanged = lastPriorityListKeyRef.current !== priorityListKey;
   const strictPriorityOrderChanged = obeyPriority && priorityListChanged;
 
+  const deadlineRanking = useMemo(() => {
+    if (priorityStrategy !== "deadline") return [];
+    return computeDeadlineRanking(withCategories, {
+      allowUpcoming: allowUnlinkedGames,
+      restrictTo: obeyPriority ? strictPriorityGames : undefined,
+    });
+  }, [allowUnlinkedGames, obeyPriority, priorityStrategy, strictPriorityGames, withCategories]);
+
   const priorityOrder = useMemo(() => {
-    return computePriorityOrder({
+    const order = computePriorityOrder({
       obeyPriority,
       effectivePriorityPlan,
       priorityGames,
       fallbackOrder,
       strictPriorityGames,
+      strategy: priorityStrategy,
+      deadlineOrder: deadlineRanking.map((entry) => entry.game),
     });
-  }, [effectivePriorityPlan, priorityGames, fallbackOrder, obeyPriority, strictPriorityGames]);
+    return excludeGames.length
+      ? order.filter((game) => !isGameExcluded(game, excludeGames))
+      : order;
+  }, [
+    deadlineRanking,
+    effectivePriorityPlan,
+    excludeGames,
+    priorityGames,
+    fallbackOrder,
+    obeyPriority,
+    priorityStrategy,
+    strictPriorityGames,
+  ]);
 
   const bestActionableGame = useMemo(
     () =>
@@ -312,6 +400,10 @@ export function usePriorityOrchestration({
     priorityPlan,
     effectivePriorityPlan,
     priorityOrder,
+    deadlineRanking,
+    /** Inventory the engine may farm after excludes and priority rules. */
+    eligibleCategories: withCategories,
+    ruleBlocks,
     priorityListPreemptionActive: priorityListChanged,
     refreshPriorityPlan,
   };
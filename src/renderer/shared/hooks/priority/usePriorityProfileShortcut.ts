@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { nextPriorityProfileId, type PriorityProfile } from "../../../../shared/priorityProfiles";
+
+/** Ctrl+Shift+P (Cmd+Shift+P on macOS) activates the next priority profile. */
+export const isPriorityProfileShortcut = (event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): boolean =>
+  (event.ctrlKey || event.metaKey) &&
+  event.shiftKey &&
+  !event.altKey &&
+  event.key.toLowerCase() === "p";
+
+export function usePriorityProfileShortcut({
+  profiles,
+  activeId,
+  activate,
+}: {
+  profiles: PriorityProfile[];
+  activeId: string | null;
+  activate: (id: string | null) => void;
+}) {
+  useEffect(() => {
+    if (profiles.length === 0) return;
+    const onKey = (event: KeyboardEvent) => {
+      if (event.repeat || !isPriorityProfileShortcut(event)) return;
+      event.preventDefault();
+      activate(nextPriorityProfileId(profiles, activeId));
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [activate, activeId, profiles]);
+}
@@ -146,4 +146,40 @@ describe("channelAllowlist helpers", () => {
       logins: ["future"],
     });
   });
+
+  it("keeps blocked streamers out of the allowlist without dropping restrictions", () => {
+    const withCategories: WithCategory[] = [
+      {
+        item: makeItem({
+          id: "a",
+          allowedChannelIds: ["1", "2"],
+          allowedChannelLogins: ["alpha", "beta"],
+        }),
+        category: "in-progress",
+      },
+      {
+        item: makeItem({
+          id: "b",
+          allowedChannelIds: ["3"],
+          allowedChannelLogins: ["gamma"],
+        }),
+        category: "in-progress",
+      },
+    ];
+
+    expect(
+      buildChannelAllowlist({ targetGame: "Game", withCategories, blockedLogins: ["gamma"] }),
+    ).toEqual({ ids: ["1", "2"], logins: ["alpha", "beta"] });
+    expect(
+      buildChannelAllowlist({ targetGame: "Game", withCategories, blockedLogins: ["Beta"] }),
+    ).toEqual({ ids: ["1", "2", "3"], logins: ["alpha", "gamma"] });
+    // Only blocked streamers can farm the game: the restriction stays so no other channel is picked.
+    expect(
+      buildChannelAllowlist({
+        targetGame: "Game",
+        withCategories: withCategories.slice(1),
+        blockedLogins: ["gamma"],
+      }),
+    ).toEqual({ ids: ["3"], logins: ["gamma"] });
+  });
 });
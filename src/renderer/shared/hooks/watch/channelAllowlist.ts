@@ -8,19 +8,42 @@ import type { InventoryItem } from "@renderer/shared/types";
 
 export type WithCategory = { item: InventoryItem; category: string };
 
+/**
+ * Whether every channel a drop allows is on the blocklist. Restrictions are
+ * matched by login, so a drop listing more ids than logins may allow a
+ * channel we cannot identify and is not treated as blocked.
+ */
+const allowsOnlyBlockedChannels = (
+  restriction: DropChannelRestriction,
+  blocked: ReadonlySet<string>,
+): boolean =>
+  blocked.size > 0 &&
+  restriction.logins.size > 0 &&
+  restriction.ids.size <= restriction.logins.size &&
+  Array.from(restriction.logins).every((login) => blocked.has(login));
+
+/**
+ * Channels the target game's actionable drops can be farmed on, or null when
+ * any live channel works. Drops that only allow blocked streamers do not widen
+ * the allowlist, and blocked logins are dropped from it.
+ */
 export const buildChannelAllowlist = ({
   targetGame,
   withCategories,
   allowUpcoming = false,
+  blockedLogins = [],
 }: {
   targetGame: string;
   withCategories: WithCategory[];
   allowUpcoming?: boolean;
+  blockedLogins?: string[];
 }): ChannelAllowlist | null => {
   const game = targetGame.trim();
   if (!game) return null;
+  const blocked = new Set(blockedLogins.map((login) => login.trim().toLowerCase()));
 
   let combinedRestriction = new DropChannelRestriction();
+  let blockedOnlyRestriction = new DropChannelRestriction();
   let sawActionableDrop = false;
 
   for (const { item, category } of withCategories) {
@@ -32,9 +55,18 @@ export const buildChannelAllowlist = ({
     if (!drop.restriction.hasConstraints) {
       return null;
     }
+    if (allowsOnlyBlockedChannels(drop.restriction, blocked)) {
+      blockedOnlyRestriction = blockedOnlyRestriction.mergedWith(drop.restriction);
+      continue;
+    }
     combinedRestriction = combinedRestriction.mergedWith(drop.restriction);
   }
 
   if (!sawActionableDrop) return null;
-  return combinedRestriction.toAllowlist();
+  // Every actionable drop is limited to blocked streamers: keep that restriction
+  // so no other channel is picked; the blocked channels are filtered out upstream.
+  if (!combinedRestriction.hasConstraints) return blockedOnlyRestriction.toAllowlist();
+  const allowlist = combinedRestriction.toAllowlist();
+  if (!allowlist || blocked.size === 0) return allowlist;
+  return { ...allowlist, logins: allowlist.logins.filter((login) => !blocked.has(login)) };
 };
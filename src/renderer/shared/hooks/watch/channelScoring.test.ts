@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { ChannelEntry } from "@renderer/shared/types";
+import { DEFAULT_CHANNEL_SCORING } from "../../../../shared/channelScoring";
+import {
+  rankChannelsByScore,
+  recordChannelProgress,
+  recordChannelStall,
+  scoreChannel,
+  type ChannelScoringContext,
+} from "./channelScoring";
+
+const NOW = Date.parse("2026-03-02T12:00:00Z");
+
+const makeChannel = (overrides: Partial<ChannelEntry> = {}): ChannelEntry => ({
+  id: "1",
+  login: "alpha",
+  displayName: "Alpha",
+  title: "Streaming",
+  viewers: 10,
+  game: "Game",
+  ...overrides,
+});
+
+const context = (overrides: Partial<ChannelScoringContext> = {}): ChannelScoringContext => ({
+  settings: DEFAULT_CHANNEL_SCORING,
+  now: NOW,
+  ...overrides,
+});
+
+describe("scoreChannel", () => {
+  it("weights each criterion and omits neutral ones", () => {
+    const channel = makeChannel({
+      login: "Alpha",
+      language: "DE",
+      viewers: 300,
+      startedAt: new Date(NOW - 2 * 60 * 60_000).toISOString(),
+    });
+    const score = scoreChannel(
+      channel,
+      context({
+        settings: {
+          ...DEFAULT_CHANNEL_SCORING,
+          preferredLanguages: ["de"],
+          viewerBandMin: 100,
+          viewerBandMax: 500,
+        },
+        favoriteLogins: new Set(["alpha"]),
+        history: { alpha: { progressMinutes: 30, stalls: 3 } },
+      }),
+    );
+    expect(score.parts).toEqual({
+      language: 3,
+      streamer: 5,
+      viewers: 1,
+      uptime: 0.5,
+      progress: 1,
+      stalls: -3,
+    });
+    expect(score.total).toBe(7.5);
+  });
+
+  it("scores the priority rule language and blocked streamers", () => {
+    const score = scoreChannel(
+      makeChannel({ language: "fr" }),
+      context({ preferredLanguage: "FR", blockedLogins: new Set(["alpha"]) }),
+    );
+    expect(score).toEqual({ total: -2, parts: { language: 3, streamer: -5 } });
+  });
+
+  it("pushes back channels cooling down in the reliability ledger", () => {
+    const entry = {
+      pingedMinutes: 30,
+      creditedMinutes: 0,
+      offlineErrors: 0,
+      pingErrors: 0,
+      stallRecoveries: 1,
+      errorStreak: 0,
+      windowPinged: 0,
+      windowCredited: 0,
+      lastEventAt: NOW,
+      cooldownUntil: NOW + 60_000,
+    };
+    const channel = makeChannel({ login: "Alpha" });
+    expect(scoreChannel(channel, context({ reliability: { alpha: entry } })).parts).toEqual({
+      reliability: -6,
+    });
+    expect(
+      scoreChannel(
+        channel,
+        context({ reliability: { alpha: { ...entry, cooldownUntil: NOW - 1 } } }),
+      ).parts,
+    ).toEqual({});
+  });
+
+  it("skips criteria with a zero weight", () => {
+    const score = scoreChannel(
+      makeChannel({ language: "de" }),
+      context({
+        settings: {
+          ...DEFAULT_CHANNEL_SCORING,
+          weights: { ...DEFAULT_CHANNEL_SCORING.weights, language: 0 },
+          preferredLanguages: ["de"],
+        },
+      }),
+    );
+    expect(score).toEqual({ total: 0, parts: {} });
+  });
+});
+
+describe("rankChannelsByScore", () => {
+  it("orders by score and keeps viewer order on ties", () => {
+    const channels = [
+      makeChannel({ id: "1", login: "a", language: "en" }),
+      makeChannel({ id: "2", login: "b", language: "de" }),
+      makeChannel({ id: "3", login: "c", language: "en" }),
+      makeChannel({ id: "4", login: "d", language: "de" }),
+    ];
+    const ranked = rankChannelsByScore(channels, context({ preferredLanguage: "de" }));
+    expect(ranked.channels.map((channel) => channel.id)).toEqual(["2", "4", "1", "3"]);
+    expect(ranked.scores["2"].total).toBe(3);
+  });
+
+  it("returns the input list when nothing scores", () => {
+    const channels = [makeChannel({ id: "1" }), makeChannel({ id: "2", login: "b" })];
+    expect(rankChannelsByScore(channels, context()).channels).toBe(channels);
+  });
+});
+
+describe("channel history", () => {
+  it("accumulates progress and stalls per login", () => {
+    let history = recordChannelProgress({}, "Alpha", 5);
+    history = recordChannelProgress(history, "alpha", 3);
+    history = recordChannelStall(history, "ALPHA");
+    expect(history).toEqual({ alpha: { progressMinutes: 8, stalls: 1 } });
+    expect(recordChannelProgress(history, "alpha", 0)).toBe(history);
+    expect(recordChannelStall(history, " ")).toBe(history);
+  });
+});
@@ -0,0 +1,181 @@
+import type { ChannelEntry } from "@renderer/shared/types";
+import type {
+  ChannelScoringCriterion,
+  ChannelScoringSettings,
+} from "../../../../shared/channelScoring";
+import {
+  isChannelCoolingDown,
+  type ChannelReliabilityLedger,
+} from "../../../../shared/channelReliability";
+
+/** Per-login watch outcomes observed this session. */
+export type ChannelHistoryEntry = {
+  /** Drop minutes credited while this channel was watched. */
+  progressMinutes: number;
+  /** No-progress recoveries that moved away from this channel. */
+  stalls: number;
+};
+
+export type ChannelHistory = Record<string, ChannelHistoryEntry>;
+
+export type ChannelScoringContext = {
+  settings: ChannelScoringSettings;
+  /** Language from the target's priority rule, on top of the configured ones. */
+  preferredLanguage?: string;
+  favoriteLogins?: ReadonlySet<string>;
+  blockedLogins?: ReadonlySet<string>;
+  history?: ChannelHistory;
+  /** Persisted per-login ledger; channels cooling down are pushed back. */
+  reliability?: ChannelReliabilityLedger;
+  now: number;
+};
+
+/**
+ * One scoring criterion. `signal` returns a value in [-1, 1] that the picker
+ * multiplies by the criterion's configured weight.
+ */
+export type ChannelScorer = {
+  id: ChannelScoringCriterion;
+  signal: (channel: ChannelEntry, context: ChannelScoringContext) => number;
+};
+
+export type ChannelScore = {
+  total: number;
+  /** Weighted contribution per criterion; criteria that contributed nothing are omitted. */
+  parts: Partial<Record<ChannelScoringCriterion, number>>;
+};
+
+const UPTIME_SATURATION_MINUTES = 4 * 60;
+const PROGRESS_SATURATION_MINUTES = 60;
+const STALL_SATURATION = 3;
+
+const loginKey = (value: string | undefined): string => (value ?? "").trim().toLowerCase();
+
+const historyFor = (
+  channel: ChannelEntry,
+  context: ChannelScoringContext,
+): ChannelHistoryEntry | undefined => context.history?.[loginKey(channel.login)];
+
+export const CHANNEL_SCORERS: ChannelScorer[] = [
+  {
+    id: "language",
+    signal: (channel, { settings, preferredLanguage }) => {
+      const language = channel.language?.trim().toLowerCase();
+      if (!language) return 0;
+      const ruleLanguage = preferredLanguage?.trim().toLowerCase();
+      return language === ruleLanguage || settings.preferredLanguages.includes(language) ? 1 : 0;
+    },
+  },
+  {
+    id: "streamer",
+    signal: (channel, { favoriteLogins, blockedLogins }) => {
+      const login = loginKey(channel.login);
+      if (blockedLogins?.has(login)) return -1;
+      return favoriteLogins?.has(login) ? 1 : 0;
+    },
+  },
+  {
+    id: "viewers",
+    signal: (channel, { settings }) => {
+      const { viewerBandMin, viewerBandMax } = settings;
+      if (viewerBandMin <= 0 && viewerBandMax <= 0) return 0;
+      if (channel.viewers < viewerBandMin) return 0;
+      if (viewerBandMax > 0 && channel.viewers > viewerBandMax) return 0;
+      return 1;
+    },
+  },
+  {
+    // Streams that have been up for a while are less likely to be short
+    // tests or restarts; the signal saturates after a few hours.
+    id: "uptime",
+    signal: (channel, { now }) => {
+      const startedAt = channel.startedAt ? Date.parse(channel.startedAt) : NaN;
+      if (!Number.isFinite(startedAt) || startedAt > now) return 0;
+      return Math.min((now - startedAt) / 60_000 / UPTIME_SATURATION_MINUTES, 1);
+    },
+  },
+  {
+    id: "progress",
+    signal: (channel, context) =>
+      Math.min(
+        (historyFor(channel, context)?.progressMinutes ?? 0) / PROGRESS_SATURATION_MINUTES,
+        1,
+      ),
+  },
+  {
+    id: "stalls",
+    signal: (channel, context) =>
+      -Math.min((historyFor(channel, context)?.stalls ?? 0) / STALL_SATURATION, 1),
+  },
+  {
+    id: "reliability",
+    signal: (channel, { reliability, now }) =>
+      isChannelCoolingDown(reliability?.[loginKey(channel.login)], now) ? -1 : 0,
+  },
+];
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+export const scoreChannel = (
+  channel: ChannelEntry,
+  context: ChannelScoringContext,
+  scorers: ChannelScorer[] = CHANNEL_SCORERS,
+): ChannelScore => {
+  const parts: ChannelScore["parts"] = {};
+  let total = 0;
+  for (const scorer of scorers) {
+    const weight = context.settings.weights[scorer.id] ?? 0;
+    if (weight <= 0) continue;
+    const contribution = roundScore(weight * scorer.signal(channel, context));
+    if (contribution === 0) continue;
+    parts[scorer.id] = contribution;
+    total += contribution;
+  }
+  return { total: roundScore(total), parts };
+};
+
+/**
+ * Orders channels by score, highest first. Equal scores keep the incoming
+ * (viewer) order, and the input array is returned untouched when no channel
+ * scores anything so memoized consumers don't see a new reference.
+ */
+export const rankChannelsByScore = (
+  channels: ChannelEntry[],
+  context: ChannelScoringContext,
+  scorers: ChannelScorer[] = CHANNEL_SCORERS,
+): { channels: ChannelEntry[]; scores: Record<string, ChannelScore> } => {
+  const scores: Record<string, ChannelScore> = {};
+  let anyScored = false;
+  for (const channel of channels) {
+    const score = scoreChannel(channel, context, scorers);
+    scores[channel.id] = score;
+    if (score.total !== 0) anyScored = true;
+  }
+  if (!anyScored) return { channels, scores };
+  const ranked = channels
+    .map((channel, index) => ({ channel, index }))
+    .sort(
+      (left, right) =>
+        scores[right.channel.id].total - scores[left.channel.id].total || left.index - right.index,
+    )
+    .map(({ channel }) => channel);
+  return { channels: ranked, scores };
+};
+
+export const recordChannelProgress = (
+  history: ChannelHistory,
+  login: string,
+  minutes: number,
+): ChannelHistory => {
+  const key = loginKey(login);
+  if (!key || !(minutes > 0)) return history;
+  const entry = history[key] ?? { progressMinutes: 0, stalls: 0 };
+  return { ...history, [key]: { ...entry, progressMinutes: entry.progressMinutes + minutes } };
+};
+
+export const recordChannelStall = (history: ChannelHistory, login: string): ChannelHistory => {
+  const key = loginKey(login);
+  if (!key) return history;
+  const entry = history[key] ?? { progressMinutes: 0, stalls: 0 };
+  return { ...history, [key]: { ...entry, stalls: entry.stalls + 1 } };
+};
@@ -1,4 +1,5 @@
 export * from "./channelAllowlist";
+export * from "./channelScoring";
 export * from "./useChannels";
 export * from "./useWatchingActions";
 export * from "./useWatchingController";
@@ -6,3 +7,5 @@ export * from "./useWatchingSince";
 export * from "./useWatchPing";
 export * from "./watchEngine";
 export * from "./watchStallRecovery";
+export * from "./useSecondaryWatchSlot";
+export * from "./watchSlots";
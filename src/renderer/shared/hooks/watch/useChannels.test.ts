@@ -4,10 +4,12 @@ import {
   applyLiveDiff,
   buildChannelDiff,
   computeAutoSwitchAction,
+  filterBlockedChannels,
   isManualPriorityOverrideActive,
   hasRecentInventory,
   isFreshCache,
   mergeChannelList,
+  preferChannelLanguage,
   shouldClearTrackerAfterStaleResponse,
   shouldAutoSelectChannel,
 } from "./useChannels";
@@ -271,3 +273,30 @@ describe("useChannels helpers", () => {
     ).toBe(false);
   });
 });
+
+describe("filterBlockedChannels", () => {
+  it("drops blocked logins case-insensitively", () => {
+    const channels = [
+      makeChannel({ id: "1", login: "Alpha" }),
+      makeChannel({ id: "2", login: "beta" }),
+    ];
+    expect(filterBlockedChannels(channels, new Set(["alpha"])).map((c) => c.id)).toEqual(["2"]);
+    expect(filterBlockedChannels(channels, new Set(["gamma"]))).toBe(channels);
+    expect(filterBlockedChannels(channels, new Set())).toBe(channels);
+  });
+});
+
+describe("preferChannelLanguage", () => {
+  it("moves matching channels first and keeps viewer order within groups", () => {
+    const channels = [
+      makeChannel({ id: "1", language: "en" }),
+      makeChannel({ id: "2", language: "de" }),
+      makeChannel({ id: "3", language: "EN" }),
+      makeChannel({ id: "4", language: "de" }),
+    ];
+    expect(preferChannelLanguage(channels, "de").map((c) => c.id)).toEqual(["2", "4", "1", "3"]);
+    expect(preferChannelLanguage(channels, "en").map((c) => c.id)).toEqual(["1", "3", "2", "4"]);
+    expect(preferChannelLanguage(channels, "fr")).toBe(channels);
+    expect(preferChannelLanguage(channels, undefined)).toBe(channels);
+  });
+});
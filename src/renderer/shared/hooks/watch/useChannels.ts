@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useInterval } from "@renderer/shared/hooks/useInterval";
 import { DropChannelRestriction, type ChannelAllowlist } from "@renderer/shared/domain/dropDomain";
 import { sameGameName } from "@renderer/shared/domain/gameName";
@@ -23,6 +23,16 @@ import {
 } from "@renderer/shared/utils/ipc";
 import { logDebug, logInfo, logWarn } from "@renderer/shared/utils/logger";
 import { RENDERER_ERROR_CODES } from "../../../../shared/errorCodes";
+import {
+  DEFAULT_CHANNEL_SCORING,
+  type ChannelScoringSettings,
+} from "../../../../shared/channelScoring";
+import {
+  rankChannelsByScore,
+  type ChannelHistory,
+  type ChannelScoringContext,
+} from "./channelScoring";
+import type { ChannelReliabilityLedger } from "../../../../shared/channelReliability";
 
 type Params = {
   targetGame: string;
@@ -40,6 +50,14 @@ type Params = {
   onAuthError?: (message?: string) => void;
   channelAllowlist?: ChannelAllowlist | null;
   manualWatchOverride?: { at: number; game: string } | null;
+  /** Stream language from the target's priority rule; scored like a preferred language. */
+  preferredLanguage?: string;
+  channelScoring?: ChannelScoringSettings;
+  channelHistory?: ChannelHistory;
+  channelReliability?: ChannelReliabilityLedger;
+  /** Normalized streamer logins; favourites score higher, blocked ones are never picked. */
+  favoriteChannels?: string[];
+  blockedChannels?: string[];
 };
 
 const MANUAL_PRIORITY_OVERRIDE_MS = 2 * 60_000;
@@ -53,6 +71,7 @@ export const sameChannel = (left: ChannelEntry, right: ChannelEntry): boolean =>
   left.viewers === right.viewers &&
   left.language === right.language &&
   left.thumbnail === right.thumbnail &&
+  left.startedAt === right.startedAt &&
   left.game === right.game;
 
 export const mergeChannelList = (prev: ChannelEntry[], next: ChannelEntry[]): ChannelEntry[] => {
@@ -71,6 +90,45 @@ export const sortChannelsByViewers = (channels: ChannelEntry[]): ChannelEntry[]
     return left.displayName.localeCompare(right.displayName);
   });
 
+/** Removes blocked streamers; returns the input when none of them is live. */
+export const filterBlockedChannels = (
+  channels: ChannelEntry[],
+  blockedLogins: ReadonlySet<string>,
+): ChannelEntry[] => {
+  if (blockedLogins.size === 0) return channels;
+  const kept = channels.filter((channel) => !blockedLogins.has(channel.login.trim().toLowerCase()));
+  return kept.length === channels.length ? channels : kept;
+};
+
+/**
+ * The order a channel picker walks: blocked streamers removed, the rest ranked
+ * by score. The primary engine and the second watch slot both pick from it.
+ */
+export const rankWatchableChannels = (
+  channels: ChannelEntry[],
+  context: ChannelScoringContext,
+): ReturnType<typeof rankChannelsByScore> =>
+  rankChannelsByScore(
+    filterBlockedChannels(channels, context.blockedLogins ?? new Set<string>()),
+    context,
+  );
+
+/**
+ * Moves channels streaming in `language` to the front, keeping the viewer
+ * order within both groups. Returns the input when nothing would change.
+ */
+export const preferChannelLanguage = (
+  channels: ChannelEntry[],
+  language: string | undefined,
+): ChannelEntry[] => {
+  const wanted = language?.trim().toLowerCase();
+  if (!wanted) return channels;
+  const matches = (channel: ChannelEntry) => channel.language?.trim().toLowerCase() === wanted;
+  const preferred = channels.filter(matches);
+  if (preferred.length === 0 || preferred.length === channels.length) return channels;
+  return [...preferred, ...channels.filter((channel) => !matches(channel))];
+};
+
 export const applyLiveDiff = (prev: ChannelEntry[], payload: ChannelLiveDiff): ChannelEntry[] => {
   const removed = new Set(payload.removedIds);
   const next = prev.filter((channel) => !removed.has(channel.id));
@@ -478,6 +536,12 @@ export function useChannels({
   onAuthError,
   channelAllowlist,
   manualWatchOverride,
+  preferredLanguage,
+  channelScoring = DEFAULT_CHANNEL_SCORING,
+  channelHistory,
+  channelReliability,
+  favoriteChannels,
+  blockedChannels,
 }: Params) {
   const TRACKER_REFRESH_WINDOW_MS =
     trackerMode && trackerMode !== "polling" ? 10 * 60_000 : 5 * 60_000;
@@ -611,7 +675,13 @@ export function useChannels({
           return;
         }
         logInfo("channels: fetch start", { game: gameName, force });
-        const res: unknown = await window.electronAPI.twitch.channels({ game: gameName });
+        // Allowlisted channels are looked up directly; the viewer-sorted
+        // directory may never reach them.
+        const res: unknown = await window.electronAPI.twitch.channels({
+          game: gameName,
+          logins: channelAllowlist?.logins,
+          ids: channelAllowlist?.ids,
+        });
         if (gameName !== targetGameRef.current || requestId < latestAppliedRequestRef.current) {
           logDebug("channels: ignore stale response", {
             game: gameName,
@@ -880,6 +950,31 @@ export function useChannels({
     shouldTrackChannels,
   );
 
+  const favoriteLogins = useMemo(() => new Set(favoriteChannels ?? []), [favoriteChannels]);
+  const blockedLogins = useMemo(() => new Set(blockedChannels ?? []), [blockedChannels]);
+  // Blocked streamers are dropped before auto-select and auto-switch ever see them.
+  const { channels: rankedChannels, scores: channelScores } = useMemo(
+    () =>
+      rankWatchableChannels(channels, {
+        settings: channelScoring,
+        preferredLanguage,
+        favoriteLogins,
+        blockedLogins,
+        history: channelHistory,
+        reliability: channelReliability,
+        now: Date.now(),
+      }),
+    [
+      channels,
+      blockedLogins,
+      channelScoring,
+      preferredLanguage,
+      favoriteLogins,
+      channelHistory,
+      channelReliability,
+    ],
+  );
+
   // Auto-select first channel if none selected
   useEffect(() => {
     if (
@@ -887,7 +982,7 @@ export function useChannels({
         allowWatching,
         autoSelectEnabled,
         canWatchTarget,
-        channels,
+        channels: rankedChannels,
         watching,
         channelAllowlist,
       })
@@ -895,12 +990,12 @@ export function useChannels({
       return;
     const normalizedAllowlist = normalizeAllowlist(channelAllowlist);
     const first = normalizedAllowlist
-      ? channels.find((channel) => normalizedAllowlist.allowsChannel(channel))
-      : channels[0];
+      ? rankedChannels.find((channel) => normalizedAllowlist.allowsChannel(channel))
+      : rankedChannels[0];
     if (!first) return;
     setWatchingFromChannel(first);
   }, [
-    channels,
+    rankedChannels,
     watching,
     targetGame,
     autoSelectEnabled,
@@ -921,7 +1016,7 @@ export function useChannels({
     const action = computeAutoSwitchAction({
       allowWatching,
       watching,
-      channels,
+      channels: rankedChannels,
       autoSwitchEnabled,
       forcePrioritySwitch: forcePrioritySwitch && !manualPriorityOverrideActive,
       canWatchTarget,
@@ -943,7 +1038,7 @@ export function useChannels({
       to: { id: action.nextChannel.id, name: action.nextChannel.displayName },
     });
   }, [
-    channels,
+    rankedChannels,
     watching,
     targetGame,
     manualWatchOverride,
@@ -976,7 +1071,8 @@ export function useChannels({
   }, [applyChannelsState, shouldTrackChannels]);
 
   return {
-    channels,
+    channels: rankedChannels,
+    channelScores,
     channelDiff,
     channelError,
     channelsLoading,
@@ -0,0 +1,390 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { getDemoChannels } from "@renderer/shared/demoData";
+import { DropChannelRestriction, type ChannelAllowlist } from "@renderer/shared/domain/dropDomain";
+import { sameGameName } from "@renderer/shared/domain/gameName";
+import type { ChannelEntry, InventoryItem, WatchingState } from "@renderer/shared/types";
+import {
+  isArrayOf,
+  isChannelEntry,
+  isIpcAuthErrorResponse,
+  isIpcErrorResponse,
+} from "@renderer/shared/utils/ipc";
+import { logInfo, logWarn } from "@renderer/shared/utils/logger";
+import { buildChannelAllowlist, type WithCategory } from "./channelAllowlist";
+import {
+  DEFAULT_CHANNEL_SCORING,
+  type ChannelScoringSettings,
+} from "../../../../shared/channelScoring";
+import type { ChannelReliabilityLedger } from "../../../../shared/channelReliability";
+import type { ChannelHistory } from "./channelScoring";
+import { rankWatchableChannels } from "./useChannels";
+import { useWatchingController } from "./useWatchingController";
+import { useWatchPing, type WatchStats } from "./useWatchPing";
+import {
+  buildWatchStallTrackerKey,
+  evaluateNoProgressStall,
+  pickStallRecoveryChannel,
+  type WatchStallTracker,
+} from "./watchStallRecovery";
+import {
+  isWatchingTakenByOtherSlot,
+  pickSlotChannel,
+  selectSecondarySlotTarget,
+  selectSlotActiveDrop,
+  type WatchSlotTarget,
+} from "./watchSlots";
+
+const SECONDARY_SLOT = 1;
+const CHANNEL_REFRESH_MS = 2 * 60_000;
+const STALL_NO_PROGRESS_WINDOW_MS = 15 * 60_000;
+const STALL_RECOVERY_COOLDOWN_MS = 60_000;
+const STALL_MAX_CHANNEL_RECOVERY_ATTEMPTS = 2;
+const SLOT_GAME_COOLDOWN_MS = 30 * 60_000;
+
+type Params = {
+  /** Second slot configured and the primary slot is actively watching. */
+  enabled: boolean;
+  demoMode: boolean;
+  primaryWatching: WatchingState;
+  primaryGame: string;
+  priorityOrder: string[];
+  withCategories: WithCategory[];
+  allowUnlinkedGames: boolean;
+  /** Games the primary engine has put on cooldown; the slot skips them too. */
+  isGameBlocked: (game: string) => boolean;
+  /** Stream language the game's priority rule prefers, if any. */
+  getPreferredLanguage?: (game: string) => string | undefined;
+  /** Streamer logins that are preferred in every game. */
+  favoriteChannels?: string[];
+  /** Streamer logins that are never watched. */
+  blockedChannels?: string[];
+  channelScoring?: ChannelScoringSettings;
+  channelHistory?: ChannelHistory;
+  /** Persisted ledger; channels cooling down are ranked last like in the primary slot. */
+  channelReliability?: ChannelReliabilityLedger;
+  bumpStats: (delta: { minutes?: number; lastGame?: string; creditGame?: string }) => void;
+  forwardAuthError: (message?: string) => void;
+};
+
+export type SecondaryWatchSlot = {
+  enabled: boolean;
+  target: WatchSlotTarget | null;
+  watching: WatchingState;
+  /** Live channel entry of the watched stream, when it is in the slot's list. */
+  channel: ChannelEntry | null;
+  activeDrop: InventoryItem | null;
+  watchStats: WatchStats;
+  channelsCount: number;
+  stallTracker: WatchStallTracker | null;
+  /** Games this slot gave up on after repeated no-progress stalls. */
+  cooldownUntil: Record<string, number>;
+};
+
+/**
+ * Second watch slot. Twitch credits up to two concurrent streams, so while the
+ * primary engine farms its target this slot farms the next priority game with
+ * its own channel list, ping loop and no-progress stall tracker. It is
+ * deliberately simpler than the primary engine: no manual overrides or
+ * suppression, only channel recovery and a per-slot game cooldown.
+ */
+export function useSecondaryWatchSlot({
+  enabled,
+  demoMode,
+  primaryWatching,
+  primaryGame,
+  priorityOrder,
+  withCategories,
+  allowUnlinkedGames,
+  isGameBlocked,
+  getPreferredLanguage,
+  favoriteChannels,
+  blockedChannels,
+  channelScoring = DEFAULT_CHANNEL_SCORING,
+  channelHistory,
+  channelReliability,
+  bumpStats,
+  forwardAuthError,
+}: Params): SecondaryWatchSlot {
+  const { watching, setWatchingFromChannel, clearWatching } = useWatchingController();
+  const [channelsState, setChannelsState] = useState<{ game: string; list: ChannelEntry[] }>({
+    game: "",
+    list: [],
+  });
+  const [cooldownUntil, setCooldownUntil] = useState<Record<string, number>>({});
+  const stallTrackerRef = useRef<WatchStallTracker | null>(null);
+
+  const target = useMemo(() => {
+    if (!enabled) return null;
+    const now = Date.now();
+    return selectSecondarySlotTarget({
+      priorityOrder,
+      withCategories,
+      primaryGame,
+      allowUpcoming: allowUnlinkedGames,
+      isGameBlocked: (game) => isGameBlocked(game) || (cooldownUntil[game] ?? 0) > now,
+    });
+  }, [
+    allowUnlinkedGames,
+    cooldownUntil,
+    enabled,
+    isGameBlocked,
+    primaryGame,
+    priorityOrder,
+    withCategories,
+  ]);
+  const targetGame = target?.game ?? "";
+  // Only the list fetched for the current target counts; a previous target's
+  // list must never be used to pick a channel. The list is ranked with the
+  // primary engine's channel scoring.
+  const channels = useMemo(
+    () =>
+      channelsState.game === targetGame
+        ? rankWatchableChannels(channelsState.list, {
+            settings: channelScoring,
+            preferredLanguage: getPreferredLanguage?.(targetGame),
+            favoriteLogins: new Set(favoriteChannels ?? []),
+            blockedLogins: new Set(blockedChannels ?? []),
+            history: channelHistory,
+            reliability: channelReliability,
+            now: Date.now(),
+          }).channels
+        : [],
+    [
+      blockedChannels,
+      channelHistory,
+      channelReliability,
+      channelScoring,
+      channelsState,
+      favoriteChannels,
+      getPreferredLanguage,
+      targetGame,
+    ],
+  );
+
+  const allowlist = useMemo(
+    () =>
+      targetGame
+        ? buildChannelAllowlist({
+            targetGame,
+            withCategories,
+            allowUpcoming: allowUnlinkedGames,
+            blockedLogins: blockedChannels,
+          })
+        : null,
+    [allowUnlinkedGames, blockedChannels, targetGame, withCategories],
+  );
+  // Read at fetch time so allowlist churn does not restart the refresh timer.
+  const allowlistRef = useRef<ChannelAllowlist | null>(null);
+  allowlistRef.current = allowlist;
+  const activeDrop = useMemo(
+    () => selectSlotActiveDrop({ target, withCategories, allowUpcoming: allowUnlinkedGames }),
+    [allowUnlinkedGames, target, withCategories],
+  );
+
+  const fetchChannels = useCallback(
+    async (game: string): Promise<ChannelEntry[] | null> => {
+      if (demoMode) return getDemoChannels(game);
+      try {
+        const res: unknown = await window.electronAPI.twitch.channels({
+          game,
+          logins: allowlistRef.current?.logins,
+          ids: allowlistRef.current?.ids,
+        });
+        if (isIpcErrorResponse(res)) {
+          if (isIpcAuthErrorResponse(res)) forwardAuthError(res.message);
+          logWarn("watch-slot: channels error", { slot: SECONDARY_SLOT, game, res });
+          return null;
+        }
+        return isArrayOf(res, isChannelEntry) ? res : null;
+      } catch (err) {
+        logWarn("watch-slot: channels error", { slot: SECONDARY_SLOT, game, err });
+        return null;
+      }
+    },
+    [demoMode, forwardAuthError],
+  );
+
+  const [channelsNonce, setChannelsNonce] = useState(0);
+  useEffect(() => {
+    if (!targetGame) return;
+    let cancelled = false;
+    const load = async () => {
+      const list = await fetchChannels(targetGame);
+      if (cancelled || !list) return;
+      setChannelsState({ game: targetGame, list });
+    };
+    void load();
+    const timer = window.setInterval(() => void load(), CHANNEL_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [channelsNonce, fetchChannels, targetGame]);
+
+  // Keep the slot on a live, allowed channel of its target that the primary
+  // slot is not already watching.
+  useEffect(() => {
+    if (!target) {
+      clearWatching();
+      return;
+    }
+    const otherSlots = [primaryWatching];
+    const current = watching;
+    const currentLive =
+      current &&
+      sameGameName(current.game, target.game) &&
+      DropChannelRestriction.fromAllowlist(allowlist).allowsWatching(current) &&
+      !isWatchingTakenByOtherSlot(current, otherSlots) &&
+      channels.some((channel) => channel.id === String(current.channelId ?? current.id));
+    if (currentLive) return;
+    const next = pickSlotChannel({ channels, allowlist, otherSlots });
+    if (next) {
+      logInfo("watch-slot: channel", {
+        slot: SECONDARY_SLOT,
+        game: target.game,
+        campaignId: target.campaignId ?? null,
+        channel: next.login,
+      });
+      setWatchingFromChannel(next);
+      return;
+    }
+    clearWatching();
+  }, [
+    allowlist,
+    channels,
+    clearWatching,
+    primaryWatching,
+    setWatchingFromChannel,
+    target,
+    watching,
+  ]);
+
+  const watchStats = useWatchPing({
+    watching,
+    bumpStats,
+    forwardAuthError,
+    demoMode,
+    slot: SECONDARY_SLOT,
+  });
+
+  // A failed ping usually means the stream ended: reload the channel list so
+  // the effect above can move the slot to another live channel.
+  useEffect(() => {
+    if (!watchStats.lastError) return;
+    setChannelsNonce((value) => value + 1);
+  }, [watchStats.lastError]);
+
+  // Main keeps the last target per slot to resume it in the background; tell
+  // it when this slot goes idle so a stale stream is not pinged later.
+  const hadWatchingRef = useRef(false);
+  useEffect(() => {
+    const active = Boolean(watching);
+    if (hadWatchingRef.current && !active && !demoMode) {
+      void window.electronAPI.twitch.watchRelease({ slot: SECONDARY_SLOT }).catch(() => undefined);
+    }
+    hadWatchingRef.current = active;
+  }, [demoMode, watching]);
+
+  useEffect(() => {
+    if (!watching || !activeDrop) {
+      stallTrackerRef.current = null;
+      return;
+    }
+    const now = Date.now();
+    const evaluation = evaluateNoProgressStall({
+      tracker: stallTrackerRef.current,
+      key: buildWatchStallTrackerKey(watching, activeDrop.id),
+      earnedMinutes: Math.max(0, Number(activeDrop.earnedMinutes) || 0),
+      now,
+      noProgressWindowMs: STALL_NO_PROGRESS_WINDOW_MS,
+      actionCooldownMs: STALL_RECOVERY_COOLDOWN_MS,
+    });
+    stallTrackerRef.current = evaluation.tracker;
+    if (!evaluation.shouldRecover) return;
+    if (evaluation.tracker.recoveryCount <= STALL_MAX_CHANNEL_RECOVERY_ATTEMPTS) {
+      const nextChannel = pickStallRecoveryChannel({
+        channels: channels.filter(
+          (channel) =>
+            !isWatchingTakenByOtherSlot(
+              {
+                id: channel.id,
+                name: channel.displayName,
+                game: channel.game,
+                login: channel.login,
+              },
+              [primaryWatching],
+            ),
+        ),
+        watching,
+        drop: {
+          id: activeDrop.id,
+          earnedMinutes: activeDrop.earnedMinutes,
+          allowedChannelIds: activeDrop.allowedChannelIds,
+          allowedChannelLogins: activeDrop.allowedChannelLogins,
+        },
+      });
+      if (nextChannel) {
+        logInfo("watch-slot: stall recovery", {
+          slot: SECONDARY_SLOT,
+          from: watching.login ?? watching.name,
+          to: nextChannel.login,
+          attempts: evaluation.tracker.recoveryCount,
+        });
+        setWatchingFromChannel(nextChannel);
+        return;
+      }
+    }
+    const game = watching.game.trim();
+    logInfo("watch-slot: cooldown", {
+      slot: SECONDARY_SLOT,
+      reason: "stall-no-progress",
+      game,
+      attempts: evaluation.tracker.recoveryCount,
+    });
+    stallTrackerRef.current = null;
+    setCooldownUntil((prev) => ({ ...prev, [game]: now + SLOT_GAME_COOLDOWN_MS }));
+    clearWatching();
+  }, [
+    activeDrop,
+    channels,
+    clearWatching,
+    primaryWatching,
+    setWatchingFromChannel,
+    watching,
+    watchStats.nextAt,
+  ]);
+
+  // Drop expired cooldowns so their games become eligible again.
+  useEffect(() => {
+    const entries = Object.values(cooldownUntil);
+    if (entries.length === 0) return;
+    const nextExpiry = Math.min(...entries);
+    const timer = window.setTimeout(
+      () => {
+        const now = Date.now();
+        setCooldownUntil((prev) => {
+          const next = Object.fromEntries(Object.entries(prev).filter(([, until]) => until > now));
+          return Object.keys(next).length === Object.keys(prev).length ? prev : next;
+        });
+      },
+      Math.max(0, nextExpiry - Date.now()) + 32,
+    );
+    return () => window.clearTimeout(timer);
+  }, [cooldownUntil]);
+
+  const channel = watching
+    ? (channels.find((entry) => entry.id === String(watching.channelId ?? watching.id)) ?? null)
+    : null;
+
+  return {
+    enabled,
+    target,
+    watching,
+    channel,
+    activeDrop,
+    watchStats,
+    channelsCount: channels.length,
+    stallTracker: stallTrackerRef.current,
+    cooldownUntil,
+  };
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { WatchingState } from "@renderer/shared/types";
-import { buildWatchPingKey } from "./useWatchPing";
+import { buildWatchPingKey, buildWatchStatsDelta } from "./useWatchPing";
 
 const makeWatching = (overrides: Partial<NonNullable<WatchingState>> = {}): WatchingState => ({
   id: "chan-1",
@@ -56,3 +56,13 @@ describe("buildWatchPingKey", () => {
     expect(buildWatchPingKey(viaFallback)).toBe(buildWatchPingKey(viaCanonical));
   });
 });
+
+describe("buildWatchStatsDelta", () => {
+  it("credits the primary slot as the last watched game", () => {
+    expect(buildWatchStatsDelta(0, "Rust")).toEqual({ minutes: 1, lastGame: "Rust" });
+  });
+
+  it("credits a secondary slot to its own game without replacing the last game", () => {
+    expect(buildWatchStatsDelta(1, "Valorant")).toEqual({ minutes: 1, creditGame: "Valorant" });
+  });
+});
@@ -8,6 +8,7 @@ import {
 } from "@renderer/shared/utils/ipc";
 import { logInfo, logWarn } from "@renderer/shared/utils/logger";
 import { TWITCH_ERROR_CODES } from "../../../../shared/errorCodes";
+import { PRIMARY_WATCH_SLOT } from "../../../../shared/watchSlots";
 
 export const WATCH_INTERVAL_MS = 59_000;
 const WATCH_JITTER_MS = 8_000;
@@ -20,9 +21,14 @@ export type WatchStats = {
 
 type Params = {
   watching: WatchingState;
-  bumpStats: (delta: { minutes?: number; lastGame?: string }) => void;
+  bumpStats: (delta: { minutes?: number; lastGame?: string; creditGame?: string }) => void;
   forwardAuthError: (message?: string) => void;
   demoMode?: boolean;
+  /**
+   * Watch slot this loop drives. Secondary slots credit their minutes to their
+   * own game without replacing the primary slot's "last game" stat.
+   */
+  slot?: number;
 };
 
 /**
@@ -45,7 +51,17 @@ export const buildWatchPingKey = (watching: WatchingState): string => {
   return `${channelId}|${login}|${streamId}`;
 };
 
-export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }: Params) {
+/** Stats credit for one successful ping on `slot`. */
+export const buildWatchStatsDelta = (slot: number, game: string) =>
+  slot === PRIMARY_WATCH_SLOT ? { minutes: 1, lastGame: game } : { minutes: 1, creditGame: game };
+
+export function useWatchPing({
+  watching,
+  bumpStats,
+  forwardAuthError,
+  demoMode,
+  slot = PRIMARY_WATCH_SLOT,
+}: Params) {
   const [watchStats, setWatchStats] = useState<WatchStats>({
     lastOk: 0,
     lastError: null,
@@ -75,12 +91,13 @@ export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }
       try {
         if (demoMode) {
           logInfo("watch: ping demo", {
+            slot,
             channelId: current.channelId ?? current.id,
             login: current.login ?? current.name,
             streamId: current.streamId,
           });
           if (current.game) {
-            void bumpStatsRef.current({ minutes: 1, lastGame: current.game });
+            void bumpStatsRef.current(buildWatchStatsDelta(slot, current.game));
           }
           if (!cancelled) {
             setWatchStats(() => ({
@@ -92,6 +109,7 @@ export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }
           return;
         }
         logInfo("watch: ping start", {
+          slot,
           channelId: current.channelId ?? current.id,
           login: current.login ?? current.name,
           streamId: current.streamId,
@@ -100,6 +118,7 @@ export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }
           channelId: current.channelId ?? current.id,
           login: current.login ?? current.name,
           streamId: current.streamId,
+          slot,
         });
         if (cancelled) return;
         if (isIpcErrorResponse(res)) {
@@ -119,13 +138,14 @@ export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }
           });
         }
         logInfo("watch: ping ok", {
+          slot,
           channelId: current.channelId ?? current.id,
           login: current.login ?? current.name,
           streamId: current.streamId,
         });
         if (cancelled) return;
         if (current.game) {
-          void bumpStatsRef.current({ minutes: 1, lastGame: current.game });
+          void bumpStatsRef.current(buildWatchStatsDelta(slot, current.game));
         }
         if (!cancelled) {
           setWatchStats(() => ({
@@ -161,7 +181,7 @@ export function useWatchPing({ watching, bumpStats, forwardAuthError, demoMode }
       cancelled = true;
       if (timeout) window.clearTimeout(timeout);
     };
-  }, [watchKey, demoMode]);
+  }, [watchKey, demoMode, slot]);
 
   useEffect(() => {
     if (watching) return;
@@ -14,9 +14,9 @@ describe("useWatchingActions helpers", () => {
     expect(next).toEqual({ count: 1, lastAt: 4_000 });
   });
 
-  it("requests logout when token is missing", () => {
+  it("requests logout when the session is gone", () => {
     const shouldLogout = shouldLogoutForAuthError({
-      token: "",
+      loggedIn: false,
       expiresAt: 0,
       now: 10_000,
       maxSoft: 1,
@@ -27,7 +27,7 @@ describe("useWatchingActions helpers", () => {
 
   it("requests logout when token is expired", () => {
     const shouldLogout = shouldLogoutForAuthError({
-      token: "abc",
+      loggedIn: true,
       expiresAt: 5_000,
       now: 10_000,
       maxSoft: 1,
@@ -38,7 +38,7 @@ describe("useWatchingActions helpers", () => {
 
   it("requests logout after too many soft errors", () => {
     const shouldLogout = shouldLogoutForAuthError({
-      token: "abc",
+      loggedIn: true,
       expiresAt: 0,
       now: 10_000,
       maxSoft: 1,
@@ -47,9 +47,9 @@ describe("useWatchingActions helpers", () => {
     expect(shouldLogout).toBe(true);
   });
 
-  it("keeps session for a valid token with acceptable error count", () => {
+  it("keeps a logged-in session with acceptable error count", () => {
     const shouldLogout = shouldLogoutForAuthError({
-      token: "abc",
+      loggedIn: true,
       expiresAt: 0,
       now: 10_000,
       maxSoft: 2,
@@ -28,20 +28,20 @@ export const updateAuthErrorTracker = (
 };
 
 export const shouldLogoutForAuthError = ({
-  token,
+  loggedIn,
   expiresAt,
   now,
   maxSoft,
   count,
 }: {
-  token: string;
+  loggedIn: boolean;
   expiresAt: number;
   now: number;
   maxSoft: number;
   count: number;
 }): boolean => {
   const expired = expiresAt > 0 && expiresAt <= now;
-  return !token || expired || count > maxSoft;
+  return !loggedIn || expired || count > maxSoft;
 };
 
 export function useWatchingActions({
@@ -82,7 +82,7 @@ export function useWatchingActions({
       void (async () => {
         type RevalidateResponse = { ok?: boolean; status?: string };
         const session = await window.electronAPI.auth.session().catch(() => null);
-        const token = session?.accessToken?.trim?.() ?? "";
+        const loggedIn = session?.loggedIn === true;
         const expiresAt = typeof session?.expiresAt === "number" ? session.expiresAt : 0;
         let revalidateResult: RevalidateResponse | null = null;
         try {
@@ -112,7 +112,7 @@ export function useWatchingActions({
           revalidateStatus === "refresh_unavailable" ||
           revalidateStatus === "refresh_failed";
         const shouldLogout = shouldLogoutForAuthError({
-          token,
+          loggedIn,
           expiresAt,
           now: Date.now(),
           maxSoft: AUTH_ERROR_MAX_SOFT,
@@ -1,4 +1,4 @@
-import { useCallback, useReducer } from "react";
+import { useCallback, useEffect, useReducer } from "react";
 import type { ChannelEntry, WatchingState } from "@renderer/shared/types";
 
 type WatchingAction =
@@ -39,9 +39,24 @@ const watchingReducer = (state: WatchingState, action: WatchingAction): Watching
   return isSameWatching(state, next) ? state : next;
 };
 
-export function useWatchingController(initial: WatchingState = null) {
+type WatchingControllerOptions = {
+  /**
+   * Entering a pause (e.g. by the farming schedule) stops watching. Callers
+   * keep their automatic paths from starting a new stream while it lasts.
+   */
+  paused?: boolean;
+};
+
+export function useWatchingController(
+  initial: WatchingState = null,
+  { paused = false }: WatchingControllerOptions = {},
+) {
   const [watching, dispatch] = useReducer(watchingReducer, initial);
 
+  useEffect(() => {
+    if (paused) dispatch({ type: "clear" });
+  }, [paused]);
+
   const setWatching = useCallback((next: WatchingState) => {
     dispatch({ type: "set", next });
   }, []);
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { ChannelEntry, InventoryItem } from "@renderer/shared/types";
+import { applyChannelReliabilityEvents } from "../../../../shared/channelReliability";
+import { DEFAULT_CHANNEL_SCORING } from "../../../../shared/channelScoring";
+import type { WithCategory } from "./channelAllowlist";
+import { rankWatchableChannels } from "./useChannels";
+import {
+  isWatchingTakenByOtherSlot,
+  pickSlotChannel,
+  selectSecondarySlotTarget,
+  selectSlotActiveDrop,
+} from "./watchSlots";
+
+const makeItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: "drop-1",
+  game: "Game",
+  title: "Drop",
+  requiredMinutes: 60,
+  earnedMinutes: 0,
+  status: "progress",
+  ...overrides,
+});
+
+const makeChannel = (overrides: Partial<ChannelEntry> = {}): ChannelEntry => ({
+  id: "1",
+  login: "one",
+  displayName: "One",
+  title: "",
+  viewers: 10,
+  game: "Game",
+  ...overrides,
+});
+
+const withCategories: WithCategory[] = [
+  { item: makeItem({ id: "a", game: "Alpha", campaignId: "ca" }), category: "in-progress" },
+  {
+    item: makeItem({ id: "b", game: "Beta", campaignId: "cb", campaignName: "Beta Drops" }),
+    category: "in-progress",
+  },
+  { item: makeItem({ id: "c", game: "Gamma", status: "claimed" }), category: "finished" },
+];
+
+describe("selectSecondarySlotTarget", () => {
+  it("skips the primary game and picks the next actionable priority game", () => {
+    expect(
+      selectSecondarySlotTarget({
+        priorityOrder: ["Alpha", "Gamma", "Beta"],
+        withCategories,
+        primaryGame: "alpha",
+      }),
+    ).toEqual({ game: "Beta", campaignId: "cb", campaignName: "Beta Drops" });
+  });
+
+  it("honours blocked games and returns null when nothing is left", () => {
+    expect(
+      selectSecondarySlotTarget({
+        priorityOrder: ["Alpha", "Beta"],
+        withCategories,
+        primaryGame: "Alpha",
+        isGameBlocked: (game) => game === "Beta",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("selectSlotActiveDrop", () => {
+  it("prefers the target campaign and falls back to the game", () => {
+    const items: WithCategory[] = [
+      { item: makeItem({ id: "x", game: "Beta", campaignId: "other" }), category: "in-progress" },
+      { item: makeItem({ id: "y", game: "Beta", campaignId: "cb" }), category: "in-progress" },
+    ];
+    expect(
+      selectSlotActiveDrop({ target: { game: "Beta", campaignId: "cb" }, withCategories: items })
+        ?.id,
+    ).toBe("y");
+    expect(
+      selectSlotActiveDrop({ target: { game: "Beta", campaignId: "gone" }, withCategories: items })
+        ?.id,
+    ).toBe("x");
+    expect(selectSlotActiveDrop({ target: null, withCategories: items })).toBeNull();
+  });
+});
+
+describe("pickSlotChannel", () => {
+  const channels = [
+    makeChannel({ id: "1", login: "one" }),
+    makeChannel({ id: "2", login: "two" }),
+    makeChannel({ id: "3", login: "three" }),
+  ];
+
+  it("never picks the stream another slot is watching", () => {
+    const other = { id: "1", name: "One", game: "Game", login: "one", channelId: "1" };
+    expect(pickSlotChannel({ channels, allowlist: null, otherSlots: [other] })?.id).toBe("2");
+    expect(isWatchingTakenByOtherSlot({ ...other, channelId: "9", id: "9" }, [other])).toBe(true);
+  });
+
+  it("respects the drop channel allowlist", () => {
+    expect(
+      pickSlotChannel({
+        channels,
+        allowlist: { ids: [], logins: ["three"] },
+        otherSlots: [null],
+      })?.id,
+    ).toBe("3");
+  });
+
+  it("walks the scored channel list like the primary engine", () => {
+    const { channels: ranked } = rankWatchableChannels(
+      [
+        makeChannel({ id: "1", login: "one", language: "en" }),
+        makeChannel({ id: "2", login: "two", language: "en" }),
+        makeChannel({ id: "3", login: "three", language: "de" }),
+      ],
+      {
+        settings: DEFAULT_CHANNEL_SCORING,
+        preferredLanguage: "de",
+        blockedLogins: new Set(["one"]),
+        history: {
+          three: { progressMinutes: 0, stalls: 3 },
+          two: { progressMinutes: 30, stalls: 0 },
+        },
+        now: 1_000,
+      },
+    );
+    expect(ranked.map((channel) => channel.id)).toEqual(["2", "3"]);
+    expect(pickSlotChannel({ channels: ranked, allowlist: null, otherSlots: [null] })?.id).toBe(
+      "2",
+    );
+  });
+
+  it("prefers a favourite streamer over bigger channels", () => {
+    const { channels: ranked } = rankWatchableChannels(
+      [
+        makeChannel({ id: "1", login: "one", viewers: 900 }),
+        makeChannel({ id: "2", login: "two", viewers: 20 }),
+      ],
+      { settings: DEFAULT_CHANNEL_SCORING, favoriteLogins: new Set(["two"]), now: 1_000 },
+    );
+    expect(pickSlotChannel({ channels: ranked, allowlist: null, otherSlots: [null] })?.id).toBe(
+      "2",
+    );
+  });
+
+  it("skips a channel the reliability ledger has cooling down", () => {
+    const reliability = applyChannelReliabilityEvents({}, [{ login: "one", kind: "stall" }], 1_000);
+    const { channels: ranked } = rankWatchableChannels(channels, {
+      settings: DEFAULT_CHANNEL_SCORING,
+      reliability,
+      now: 2_000,
+    });
+    expect(pickSlotChannel({ channels: ranked, allowlist: null, otherSlots: [null] })?.id).toBe(
+      "2",
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { DropChannelRestriction, type ChannelAllowlist } from "@renderer/shared/domain/dropDomain";
+import { sameGameName } from "@renderer/shared/domain/gameName";
+import { canEarnDrop } from "@renderer/shared/domain/inventory";
+import type { ChannelEntry, InventoryItem, WatchingState } from "@renderer/shared/types";
+import type { WithCategory } from "./channelAllowlist";
+
+/** What a watch slot is farming: a game, narrowed to one campaign when known. */
+export type WatchSlotTarget = {
+  game: string;
+  campaignId?: string;
+  campaignName?: string;
+};
+
+const isSameChannel = (channel: ChannelEntry, watching: WatchingState): boolean => {
+  if (!watching) return false;
+  const id = String(watching.channelId ?? watching.id ?? "").trim();
+  if (id && channel.id === id) return true;
+  const login = String(watching.login ?? watching.name ?? "")
+    .trim()
+    .toLowerCase();
+  return Boolean(login) && channel.login.trim().toLowerCase() === login;
+};
+
+/**
+ * Picks the secondary slot's target: the highest-priority actionable game the
+ * primary slot is not already farming. Two streams of the same game do not earn
+ * twice, so the primary game is always skipped.
+ */
+export const selectSecondarySlotTarget = ({
+  priorityOrder,
+  withCategories,
+  primaryGame,
+  isGameBlocked,
+  allowUpcoming = false,
+}: {
+  priorityOrder: string[];
+  withCategories: WithCategory[];
+  primaryGame: string;
+  isGameBlocked?: (game: string) => boolean;
+  allowUpcoming?: boolean;
+}): WatchSlotTarget | null => {
+  const seen = new Set<string>();
+  for (const rawGame of priorityOrder) {
+    const game = rawGame.trim();
+    if (!game || seen.has(game)) continue;
+    seen.add(game);
+    if (primaryGame.trim() && sameGameName(game, primaryGame)) continue;
+    if (isGameBlocked?.(game)) continue;
+    const match = withCategories.find(
+      ({ item, category }) =>
+        sameGameName(item.game, game) && canEarnDrop(item, { category, allowUpcoming }),
+    );
+    if (!match) continue;
+    return {
+      game,
+      campaignId: match.item.campaignId?.trim() || undefined,
+      campaignName: match.item.campaignName?.trim() || undefined,
+    };
+  }
+  return null;
+};
+
+/**
+ * The drop a slot is currently earning towards: the first earnable drop of the
+ * target campaign, falling back to any earnable drop of the target game.
+ */
+export const selectSlotActiveDrop = ({
+  target,
+  withCategories,
+  allowUpcoming = false,
+}: {
+  target: WatchSlotTarget | null;
+  withCategories: WithCategory[];
+  allowUpcoming?: boolean;
+}): InventoryItem | null => {
+  if (!target) return null;
+  const earnable = withCategories.filter(
+    ({ item, category }) =>
+      sameGameName(item.game, target.game) &&
+      item.status === "progress" &&
+      canEarnDrop(item, { category, allowUpcoming }),
+  );
+  const inCampaign = target.campaignId
+    ? earnable.find(({ item }) => item.campaignId === target.campaignId)
+    : undefined;
+  return (inCampaign ?? earnable[0])?.item ?? null;
+};
+
+/**
+ * First live channel a slot may watch: allowed by the target's channel
+ * restriction and not the stream another slot is already watching.
+ */
+export const pickSlotChannel = ({
+  channels,
+  allowlist,
+  otherSlots,
+}: {
+  channels: ChannelEntry[];
+  allowlist: ChannelAllowlist | null;
+  otherSlots: WatchingState[];
+}): ChannelEntry | null => {
+  const restriction = DropChannelRestriction.fromAllowlist(allowlist);
+  for (const channel of channels) {
+    if (!restriction.allowsChannel(channel)) continue;
+    if (otherSlots.some((watching) => isSameChannel(channel, watching))) continue;
+    return channel;
+  }
+  return null;
+};
+
+/** True when `watching` collides with another slot's stream. */
+export const isWatchingTakenByOtherSlot = (
+  watching: WatchingState,
+  otherSlots: WatchingState[],
+): boolean => {
+  if (!watching) return false;
+  const channel: ChannelEntry = {
+    id: String(watching.channelId ?? watching.id ?? ""),
+    login: String(watching.login ?? watching.name ?? ""),
+    displayName: watching.name,
+    title: "",
+    viewers: 0,
+    game: watching.game,
+  };
+  return otherSlots.some((other) => isSameChannel(channel, other));
+};
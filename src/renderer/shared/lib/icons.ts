@@ -41,6 +41,7 @@ export {
   Search,
   Filter,
   Plus,
+  SlidersHorizontal,
 
   // Domain
   User,
@@ -50,4 +51,6 @@ export {
   Gift,
   Sparkles,
   GripVertical,
+  Star,
+  Ban,
 } from "lucide-react";
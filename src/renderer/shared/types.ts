@@ -4,6 +4,24 @@ export type AuthState =
   | { status: "ok" }
   | { status: "error"; message: string };
 
+export type SessionVaultState = {
+  mode: "keychain" | "passphrase";
+  locked: boolean;
+  initialized: boolean;
+};
+
+export type SessionHealthState = "healthy" | "expiring" | "refreshing" | "expired";
+
+export type SessionHealth = {
+  state: SessionHealthState;
+  expiresAt: number | null;
+  lastCheckedAt: number | null;
+  lastRefreshedAt: number | null;
+  nextCheckAt: number | null;
+  failures: number;
+  lastError?: string;
+};
+
 export type ProfileState =
   | { status: "idle" }
   | { status: "loading" }
@@ -18,6 +36,8 @@ export type ErrorInfo = {
 export type InventoryItem = {
   id: string;
   game: string;
+  /** Twitch game (category) id, matched by `id:` priority and exclude entries. */
+  gameId?: string;
   title: string;
   requiredMinutes: number;
   earnedMinutes: number;
@@ -84,6 +104,7 @@ export type View =
   | "overview"
   | "stats"
   | "inventory"
+  | "rewards"
   | "control"
   | "priorities"
   | "settings"
@@ -98,6 +119,8 @@ export type ChannelEntry = {
   viewers: number;
   language?: string;
   thumbnail?: string;
+  /** ISO time the stream went live, when known. */
+  startedAt?: string;
   game: string;
 };
 
@@ -158,6 +181,37 @@ export type ChannelTrackerStatus = {
   shards?: ChannelTrackerShardStatus[];
 };
 
+export type GqlPriority = "high" | "normal" | "low";
+
+export type GqlSchedulerStatus = {
+  inFlight: number;
+  queued: number;
+  queuedByPriority: Record<GqlPriority, number>;
+  tokens: number;
+  completed: number;
+  failed: number;
+  retried: number;
+  throttled: number;
+  throttledUntil: number | null;
+  lastErrorAt: number | null;
+  lastErrorMessage?: string;
+};
+
+export type PersistedQueryHashSource = "override" | "remembered" | "default";
+
+export type PersistedQueryOperationStatus = {
+  operationName: string;
+  activeHash: string | null;
+  activeSource: PersistedQueryHashSource | null;
+  candidates: Array<{ hash: string; source: PersistedQueryHashSource; staleAt: number | null }>;
+  exhausted: boolean;
+};
+
+export type PersistedQueriesStatus = {
+  overridesFile: string;
+  operations: PersistedQueryOperationStatus[];
+};
+
 export type UserPubSubState = "idle" | "ok" | "error";
 export type UserPubSubConnectionState = "disconnected" | "connecting" | "connected";
 export type UserPubSubStatus = {
@@ -209,7 +263,12 @@ export type StatsData = {
   lastDropTitle?: string;
   lastGame?: string;
   claimsByGame: Record<string, number>;
-  daily: Record<string, { minutes: number; claims: number }>;
+  /** Absent in stats files written before per-game minutes were tracked. */
+  minutesByGame?: Record<string, number>;
+  daily: Record<
+    string,
+    { minutes: number; claims: number; minutesByGame?: Record<string, number> }
+  >;
 };
 
 export type StatsState =
@@ -218,6 +277,36 @@ export type StatsState =
   | { status: "ready"; data: StatsData }
   | { status: "error"; message: string; code?: string };
 
+export type AccountSummary = {
+  id: string;
+  login: string;
+  displayName?: string;
+  addedAt: number;
+  /** Overrides the global proxy for this account; absent = use the global one. */
+  proxyUrl?: string;
+  active: boolean;
+  runtime: {
+    background: boolean;
+    watchTarget: { channelId: string; login: string; streamId?: string } | null;
+    watchTargets?: Array<{ channelId: string; login: string; streamId?: string }>;
+    lastBackgroundPingAt: number | null;
+    lastBackgroundError?: string;
+  } | null;
+};
+
+export type AccountsState = {
+  activeAccountId: string | null;
+  accounts: AccountSummary[];
+};
+
+export type ProxyProbeResult = {
+  ok: boolean;
+  proxy: string;
+  http: { ok: boolean; status?: number; latencyMs: number; error?: string };
+  websocket: { ok: boolean; latencyMs: number; error?: string };
+  invalid?: boolean;
+};
+
 export type ClaimStatus = {
   kind: "success" | "error";
   message?: string;
@@ -8,6 +8,10 @@
  *
  * The buffer is a fixed ring (MAX_EVENTS). Newest events come first, so the
  * panel can render a chronological "most recent first" view.
+ *
+ * Each linked account gets its own buffer. `setActivityScope` swaps the
+ * visible buffer when the active account changes; switching back restores
+ * that account's earlier events for the rest of the app session.
  */
 
 import { useSyncExternalStore } from "react";
@@ -52,7 +56,11 @@ export type ActivityEvent =
 
 const MAX_EVENTS = 30;
 
+const DEFAULT_SCOPE = "default";
+
 let events: ActivityEvent[] = [];
+let scope = DEFAULT_SCOPE;
+const scopedEvents = new Map<string, ActivityEvent[]>();
 let nextId = 0;
 const subscribers = new Set<() => void>();
 
@@ -80,6 +88,15 @@ export function recordActivity(event: Omit<ActivityEvent, "id">): void {
   notify();
 }
 
+export function setActivityScope(next: string | null): void {
+  const resolved = next || DEFAULT_SCOPE;
+  if (resolved === scope) return;
+  scopedEvents.set(scope, events);
+  scope = resolved;
+  events = scopedEvents.get(resolved) ?? [];
+  notify();
+}
+
 export function getActivityEvents(): ActivityEvent[] {
   return events;
 }
@@ -1,12 +1,17 @@
 import { describe, expect, it } from "vitest";
 import {
+  isAccountsState,
   isChannelEntry,
   isChannelLiveDiff,
   isChannelTrackerStatus,
+  isGqlSchedulerStatus,
   isInventoryItem,
   isIpcAuthErrorResponse,
   isIpcErrorResponse,
+  isPersistedQueriesStatus,
   isPriorityPlan,
+  isProxyProbeResult,
+  isSessionHealth,
   isStatsData,
   isTwitchProfile,
   isUserPubSubEvent,
@@ -143,6 +148,9 @@ describe("ipc guards", () => {
     };
     expect(isStatsData(ok)).toBe(true);
     expect(isStatsData({ ...ok, claimsByGame: { Game: "2" } })).toBe(false);
+    // minutesByGame: optional, but numeric when present
+    expect(isStatsData({ ...ok, minutesByGame: { Game: 90 } })).toBe(true);
+    expect(isStatsData({ ...ok, minutesByGame: { Game: "90" } })).toBe(false);
     // daily: empty object is valid
     expect(isStatsData({ ...ok, daily: {} })).toBe(true);
     // daily: string minutes is invalid
@@ -152,4 +160,89 @@ describe("ipc guards", () => {
     // daily: missing entirely is invalid
     expect(isStatsData({ ...ok, daily: undefined })).toBe(false);
   });
+
+  it("validates accounts payloads", () => {
+    const ok = {
+      activeAccountId: "a1b2c3d4",
+      accounts: [
+        { id: "a1b2c3d4", login: "alpha", addedAt: 1, active: true, runtime: null },
+        { id: "e5f6a7b8", login: "beta", displayName: "Beta", addedAt: 2, active: false },
+      ],
+    };
+    expect(isAccountsState(ok)).toBe(true);
+    expect(isAccountsState({ activeAccountId: null, accounts: [] })).toBe(true);
+    expect(isAccountsState({ ...ok, activeAccountId: 5 })).toBe(false);
+    expect(isAccountsState({ ...ok, accounts: [{ id: "x", login: "y" }] })).toBe(false);
+  });
+
+  it("validates gql scheduler status payloads", () => {
+    const ok = {
+      inFlight: 1,
+      queued: 2,
+      queuedByPriority: { high: 0, normal: 1, low: 1 },
+      tokens: 3.5,
+      completed: 10,
+      failed: 0,
+      retried: 1,
+      throttled: 0,
+      throttledUntil: null,
+      lastErrorAt: null,
+    };
+    expect(isGqlSchedulerStatus(ok)).toBe(true);
+    expect(isGqlSchedulerStatus({ ...ok, queuedByPriority: { high: 0 } })).toBe(false);
+    expect(isGqlSchedulerStatus({ ...ok, throttledUntil: "later" })).toBe(false);
+  });
+
+  it("validates persisted query status payloads", () => {
+    const ok = {
+      overridesFile: "/tmp/persisted-queries.override.json",
+      operations: [
+        {
+          operationName: "Inventory",
+          activeHash: "b",
+          activeSource: "default",
+          candidates: [
+            { hash: "a", source: "default", staleAt: 10 },
+            { hash: "b", source: "default", staleAt: null },
+          ],
+          exhausted: false,
+        },
+      ],
+    };
+    expect(isPersistedQueriesStatus(ok)).toBe(true);
+    expect(isPersistedQueriesStatus({ ...ok, overridesFile: 1 })).toBe(false);
+    expect(
+      isPersistedQueriesStatus({
+        ...ok,
+        operations: [{ ...ok.operations[0], activeSource: "guess" }],
+      }),
+    ).toBe(false);
+  });
+
+  it("validates session health payloads", () => {
+    const ok = {
+      state: "expiring",
+      expiresAt: 1000,
+      lastCheckedAt: 500,
+      lastRefreshedAt: null,
+      nextCheckAt: 800,
+      failures: 0,
+    };
+    expect(isSessionHealth(ok)).toBe(true);
+    expect(isSessionHealth({ ...ok, expiresAt: null, lastError: "offline" })).toBe(true);
+    expect(isSessionHealth({ ...ok, state: "stale" })).toBe(false);
+    expect(isSessionHealth({ ...ok, failures: "1" })).toBe(false);
+  });
+
+  it("validates proxy probe results", () => {
+    const ok = {
+      ok: false,
+      proxy: "http://proxy:8080",
+      http: { ok: true, status: 401, latencyMs: 120 },
+      websocket: { ok: false, latencyMs: 10_000, error: "timeout" },
+    };
+    expect(isProxyProbeResult(ok)).toBe(true);
+    expect(isProxyProbeResult({ ...ok, http: { ok: true } })).toBe(false);
+    expect(isProxyProbeResult({ ...ok, proxy: null })).toBe(false);
+  });
 });
@@ -1,11 +1,16 @@
 import type {
+  AccountsState,
   ChannelEntry,
   ChannelLiveDiff,
   ChannelTrackerStatus,
+  GqlSchedulerStatus,
   CampaignDropSummary,
   CampaignSummary,
   InventoryItem,
+  PersistedQueriesStatus,
   PriorityPlan,
+  ProxyProbeResult,
+  SessionHealth,
   StatsData,
   UserPubSubEvent,
   UserPubSubStatus,
@@ -101,6 +106,15 @@ export const isIpcOkFalseResponse = (
 ): value is { ok: false; status?: string; message?: string } =>
   isRecord(value) && value.ok === false;
 
+/** The claim queue's answer for a drop that is still backing off in main. */
+export const isClaimQueuedResponse = (
+  value: unknown,
+): value is { ok: false; queued: true; nextAttemptAt: number } =>
+  isRecord(value) &&
+  value.ok === false &&
+  value.queued === true &&
+  isFiniteNumber(value.nextAttemptAt);
+
 export const isTwitchProfile = (value: unknown): value is TwitchProfile => {
   if (!isRecord(value)) return false;
   return isString(value.login) && isString(value.displayName);
@@ -174,6 +188,54 @@ export const isUserPubSubStatus = (value: unknown): value is UserPubSubStatus =>
   );
 };
 
+export const isGqlSchedulerStatus = (value: unknown): value is GqlSchedulerStatus => {
+  if (!isRecord(value)) return false;
+  const queued = value.queuedByPriority;
+  return (
+    isFiniteNumber(value.inFlight) &&
+    isFiniteNumber(value.queued) &&
+    isRecord(queued) &&
+    isFiniteNumber(queued.high) &&
+    isFiniteNumber(queued.normal) &&
+    isFiniteNumber(queued.low) &&
+    isFiniteNumber(value.tokens) &&
+    isFiniteNumber(value.completed) &&
+    isFiniteNumber(value.failed) &&
+    isFiniteNumber(value.retried) &&
+    isFiniteNumber(value.throttled) &&
+    isNullableFiniteNumber(value.throttledUntil) &&
+    isNullableFiniteNumber(value.lastErrorAt) &&
+    isOptionalString(value.lastErrorMessage)
+  );
+};
+
+const PERSISTED_QUERY_SOURCES = new Set(["override", "remembered", "default"]);
+
+const isPersistedQuerySource = (value: unknown): boolean =>
+  isString(value) && PERSISTED_QUERY_SOURCES.has(value);
+
+export const isPersistedQueriesStatus = (value: unknown): value is PersistedQueriesStatus => {
+  if (!isRecord(value) || !isString(value.overridesFile) || !Array.isArray(value.operations)) {
+    return false;
+  }
+  return value.operations.every(
+    (entry) =>
+      isRecord(entry) &&
+      isString(entry.operationName) &&
+      (entry.activeHash === null || isString(entry.activeHash)) &&
+      (entry.activeSource === null || isPersistedQuerySource(entry.activeSource)) &&
+      typeof entry.exhausted === "boolean" &&
+      Array.isArray(entry.candidates) &&
+      entry.candidates.every(
+        (candidate) =>
+          isRecord(candidate) &&
+          isString(candidate.hash) &&
+          isPersistedQuerySource(candidate.source) &&
+          isNullableFiniteNumber(candidate.staleAt),
+      ),
+  );
+};
+
 export const isUserPubSubEvent = (value: unknown): value is UserPubSubEvent => {
   if (!isRecord(value)) return false;
   const validKind =
@@ -284,9 +346,56 @@ export const isStatsData = (value: unknown): value is StatsData => {
   if (!isRecord(value.claimsByGame)) return false;
   const claimsByGame = value.claimsByGame as UnknownRecord;
   if (!Object.values(claimsByGame).every((entry) => isFiniteNumber(entry))) return false;
+  if (value.minutesByGame !== undefined) {
+    if (!isRecord(value.minutesByGame)) return false;
+    const minutesByGame = value.minutesByGame as UnknownRecord;
+    if (!Object.values(minutesByGame).every((entry) => isFiniteNumber(entry))) return false;
+  }
   if (!isRecord(value.daily)) return false;
   const daily = value.daily as UnknownRecord;
   return Object.values(daily).every(
     (entry) => isRecord(entry) && isFiniteNumber(entry.minutes) && isFiniteNumber(entry.claims),
   );
 };
+
+export const isAccountsState = (value: unknown): value is AccountsState => {
+  if (!isRecord(value)) return false;
+  if (value.activeAccountId !== null && !isString(value.activeAccountId)) return false;
+  if (!Array.isArray(value.accounts)) return false;
+  return value.accounts.every(
+    (entry) =>
+      isRecord(entry) &&
+      isString(entry.id) &&
+      isString(entry.login) &&
+      isOptionalString(entry.displayName) &&
+      isOptionalString(entry.proxyUrl) &&
+      isFiniteNumber(entry.addedAt) &&
+      typeof entry.active === "boolean",
+  );
+};
+
+const isProbeLeg = (value: unknown) =>
+  isRecord(value) &&
+  typeof value.ok === "boolean" &&
+  isFiniteNumber(value.latencyMs) &&
+  isOptionalString(value.error);
+
+export const isProxyProbeResult = (value: unknown): value is ProxyProbeResult =>
+  isRecord(value) &&
+  typeof value.ok === "boolean" &&
+  isString(value.proxy) &&
+  isProbeLeg(value.http) &&
+  isProbeLeg(value.websocket);
+
+const SESSION_HEALTH_STATES = new Set(["healthy", "expiring", "refreshing", "expired"]);
+
+export const isSessionHealth = (value: unknown): value is SessionHealth =>
+  isRecord(value) &&
+  isString(value.state) &&
+  SESSION_HEALTH_STATES.has(value.state) &&
+  isNullableFiniteNumber(value.expiresAt) &&
+  isNullableFiniteNumber(value.lastCheckedAt) &&
+  isNullableFiniteNumber(value.lastRefreshedAt) &&
+  isNullableFiniteNumber(value.nextCheckAt) &&
+  isFiniteNumber(value.failures) &&
+  isOptionalString(value.lastError);
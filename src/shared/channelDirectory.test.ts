@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CHANNEL_DIRECTORY_PAGES,
+  MAX_CHANNEL_DIRECTORY_PAGES,
+  MAX_DIRECT_CHANNEL_LOOKUPS,
+  channelDirectoryRequestKey,
+  normalizeChannelDirectoryPages,
+  normalizeChannelDirectoryRequest,
+} from "./channelDirectory";
+
+describe("normalizeChannelDirectoryPages", () => {
+  it("clamps the depth to the supported range", () => {
+    expect(normalizeChannelDirectoryPages(undefined)).toBe(DEFAULT_CHANNEL_DIRECTORY_PAGES);
+    expect(normalizeChannelDirectoryPages("3")).toBe(3);
+    expect(normalizeChannelDirectoryPages(0)).toBe(1);
+    expect(normalizeChannelDirectoryPages(99)).toBe(MAX_CHANNEL_DIRECTORY_PAGES);
+  });
+});
+
+describe("normalizeChannelDirectoryRequest", () => {
+  it("normalizes languages and caps direct login lookups", () => {
+    const logins = Array.from({ length: MAX_DIRECT_CHANNEL_LOOKUPS + 5 }, (_, i) => `user${i}`);
+    const request = normalizeChannelDirectoryRequest({
+      pages: 2,
+      languages: ["DE", "en", "de"],
+      logins: ["@Alpha", ...logins],
+    });
+    expect(request.pages).toBe(2);
+    expect(request.languages).toEqual(["de", "en"]);
+    expect(request.logins).toHaveLength(MAX_DIRECT_CHANNEL_LOOKUPS);
+    expect(request.logins[0]).toBe("alpha");
+  });
+
+  it("keeps numeric, unique allowlisted ids", () => {
+    expect(
+      normalizeChannelDirectoryRequest({ ids: ["123", 456, "123", "abc", " 789 "] }).ids,
+    ).toEqual(["123", "456", "789"]);
+  });
+
+  it("falls back to one unfiltered page", () => {
+    expect(normalizeChannelDirectoryRequest(null)).toEqual({
+      pages: DEFAULT_CHANNEL_DIRECTORY_PAGES,
+      languages: [],
+      logins: [],
+      ids: [],
+    });
+  });
+
+  it("keys requests independently of list order", () => {
+    expect(
+      channelDirectoryRequestKey({
+        pages: 1,
+        languages: ["en", "de"],
+        logins: ["b", "a"],
+        ids: ["2", "1"],
+      }),
+    ).toBe(
+      channelDirectoryRequestKey({
+        pages: 1,
+        languages: ["de", "en"],
+        logins: ["a", "b"],
+        ids: ["1", "2"],
+      }),
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { parseLanguageList } from "./channelScoring";
+import { normalizeChannelLogins } from "./streamerLists";
+
+/**
+ * How a game's live channels are fetched: directory pages (by viewers),
+ * server-side broadcaster languages, and allowlisted logins that are looked up
+ * directly because they may sit far below the directory's top pages.
+ * Allowlisted ids are watched for going live even when no login is known.
+ */
+export type ChannelDirectoryRequest = {
+  pages: number;
+  /** Lower-case broadcaster languages; empty means every language. */
+  languages: string[];
+  logins: string[];
+  ids: string[];
+};
+
+/** The part of a request that comes from settings rather than the renderer's allowlist. */
+export type ChannelDirectorySettings = Pick<ChannelDirectoryRequest, "pages" | "languages">;
+
+/** Channels per DirectoryPage_Game request. */
+export const CHANNEL_DIRECTORY_PAGE_SIZE = 20;
+export const DEFAULT_CHANNEL_DIRECTORY_PAGES = 1;
+export const MAX_CHANNEL_DIRECTORY_PAGES = 5;
+/** Each direct lookup is one GQL request; larger allowlists rely on the directory. */
+export const MAX_DIRECT_CHANNEL_LOOKUPS = 20;
+
+const normalizeChannelIds = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const ids = value
+    .map((id) => (typeof id === "number" ? String(id) : typeof id === "string" ? id.trim() : ""))
+    .filter((id) => /^\d+$/.test(id));
+  return Array.from(new Set(ids));
+};
+
+export const normalizeChannelDirectoryPages = (value: unknown): number => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+    return DEFAULT_CHANNEL_DIRECTORY_PAGES;
+  }
+  return Math.min(MAX_CHANNEL_DIRECTORY_PAGES, Math.max(1, Math.round(parsed)));
+};
+
+export const normalizeChannelDirectoryRequest = (value: unknown): ChannelDirectoryRequest => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    pages: normalizeChannelDirectoryPages(raw.pages),
+    languages: parseLanguageList(raw.languages),
+    logins: normalizeChannelLogins(raw.logins).slice(0, MAX_DIRECT_CHANNEL_LOOKUPS),
+    ids: normalizeChannelIds(raw.ids).slice(0, MAX_DIRECT_CHANNEL_LOOKUPS),
+  };
+};
+
+/** Stable identity of a request; a cached channel list only serves the same key. */
+export const channelDirectoryRequestKey = (request: ChannelDirectoryRequest): string =>
+  [
+    request.pages,
+    [...request.languages].sort().join(","),
+    [...request.logins].sort().join(","),
+    [...request.ids].sort().join(","),
+  ].join("|");
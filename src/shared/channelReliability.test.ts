@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHANNEL_RELIABILITY_COOLDOWN_MS,
+  CHANNEL_RELIABILITY_CREDIT_WINDOW,
+  applyChannelReliabilityEvents,
+  channelCreditRatio,
+  isChannelCoolingDown,
+  normalizeChannelReliabilityLedger,
+  type ChannelReliabilityEvent,
+} from "./channelReliability";
+
+const NOW = 1_700_000_000_000;
+
+const pings = (login: string, times: number): ChannelReliabilityEvent[] =>
+  Array.from({ length: times }, () => ({ login, kind: "ping" as const }));
+
+describe("applyChannelReliabilityEvents", () => {
+  it("counts pings, credits and errors per lower-case login", () => {
+    const ledger = applyChannelReliabilityEvents(
+      {},
+      [
+        ...pings("Alpha", 2),
+        { login: "alpha", kind: "credit", minutes: 2 },
+        { login: "alpha", kind: "offline" },
+        { login: "ALPHA", kind: "pingFailed" },
+        { login: " ", kind: "ping" },
+      ],
+      NOW,
+    );
+    expect(Object.keys(ledger)).toEqual(["alpha"]);
+    expect(ledger.alpha).toMatchObject({
+      pingedMinutes: 2,
+      creditedMinutes: 2,
+      offlineErrors: 1,
+      pingErrors: 1,
+      errorStreak: 2,
+      cooldownUntil: 0,
+      lastEventAt: NOW,
+    });
+    expect(channelCreditRatio(ledger.alpha)).toBe(1);
+  });
+
+  it("starts a cooldown after a stall recovery", () => {
+    const ledger = applyChannelReliabilityEvents({}, [{ login: "beta", kind: "stall" }], NOW);
+    expect(ledger.beta.stallRecoveries).toBe(1);
+    expect(ledger.beta.cooldownReason).toBe("stall");
+    expect(isChannelCoolingDown(ledger.beta, NOW + 1)).toBe(true);
+    expect(isChannelCoolingDown(ledger.beta, NOW + CHANNEL_RELIABILITY_COOLDOWN_MS)).toBe(false);
+  });
+
+  it("starts a cooldown after an error streak and resets it on a successful ping", () => {
+    const errors: ChannelReliabilityEvent[] = [
+      { login: "gamma", kind: "offline" },
+      { login: "gamma", kind: "pingFailed" },
+    ];
+    const recovered = applyChannelReliabilityEvents({}, [...errors, ...pings("gamma", 1)], NOW);
+    expect(recovered.gamma.errorStreak).toBe(0);
+    expect(isChannelCoolingDown(recovered.gamma, NOW)).toBe(false);
+
+    const cooled = applyChannelReliabilityEvents(
+      {},
+      [...errors, { login: "gamma", kind: "offline" }],
+      NOW,
+    );
+    expect(cooled.gamma.cooldownReason).toBe("errors");
+    expect(isChannelCoolingDown(cooled.gamma, NOW)).toBe(true);
+  });
+
+  it("checks the credit ratio once per window of pinged minutes", () => {
+    const window = CHANNEL_RELIABILITY_CREDIT_WINDOW;
+    const crediting = applyChannelReliabilityEvents(
+      {},
+      [{ login: "delta", kind: "credit", minutes: window }, ...pings("delta", window)],
+      NOW,
+    );
+    expect(isChannelCoolingDown(crediting.delta, NOW)).toBe(false);
+    expect(crediting.delta.windowPinged).toBe(0);
+
+    const starving = applyChannelReliabilityEvents({}, pings("delta", window), NOW);
+    expect(starving.delta.cooldownReason).toBe("lowCredit");
+    expect(isChannelCoolingDown(starving.delta, NOW)).toBe(true);
+  });
+
+  it("never puts a channel on cooldown for pings whose credits are not tracked", () => {
+    const window = CHANNEL_RELIABILITY_CREDIT_WINDOW;
+    const untracked = pings("epsilon", window).map((event) => ({
+      ...event,
+      creditTracked: false,
+    }));
+    const ledger = applyChannelReliabilityEvents(
+      {},
+      [{ login: "epsilon", kind: "offline" }, ...untracked],
+      NOW,
+    );
+    expect(isChannelCoolingDown(ledger.epsilon, NOW)).toBe(false);
+    expect(ledger.epsilon).toMatchObject({ pingedMinutes: 0, windowPinged: 0, errorStreak: 0 });
+  });
+
+  it("returns the same ledger when nothing applies", () => {
+    const ledger = {};
+    expect(
+      applyChannelReliabilityEvents(ledger, [{ login: "x", kind: "credit", minutes: 0 }], NOW),
+    ).toBe(ledger);
+  });
+});
+
+describe("normalizeChannelReliabilityLedger", () => {
+  it("drops invalid entries and clamps counters", () => {
+    expect(
+      normalizeChannelReliabilityLedger({
+        Alpha: { pingedMinutes: "4", pingErrors: -2, cooldownReason: "nope" },
+        "": { pingedMinutes: 1 },
+        beta: null,
+      }),
+    ).toEqual({
+      alpha: {
+        pingedMinutes: 4,
+        creditedMinutes: 0,
+        offlineErrors: 0,
+        pingErrors: 0,
+        stallRecoveries: 0,
+        errorStreak: 0,
+        windowPinged: 0,
+        windowCredited: 0,
+        lastEventAt: 0,
+        cooldownUntil: 0,
+      },
+    });
+    expect(normalizeChannelReliabilityLedger([])).toEqual({});
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Per-channel watch outcomes that survive restarts. Main records ping results
+ * as they happen, the renderer adds credited minutes and stall recoveries, and
+ * the channel picker deprioritises channels while they are cooling down.
+ */
+export type ChannelReliabilityEntry = {
+  /** Successful watch pings, one per watch minute. */
+  pingedMinutes: number;
+  /** Drop minutes Twitch actually credited while the channel was watched. */
+  creditedMinutes: number;
+  /** `WATCH_OFFLINE` errors. */
+  offlineErrors: number;
+  /** `WATCH_PING_FAILED` errors. */
+  pingErrors: number;
+  /** No-progress recoveries that moved away from the channel. */
+  stallRecoveries: number;
+  /** Errors since the last successful ping. */
+  errorStreak: number;
+  /** Pings and credits since the last credit-ratio check. */
+  windowPinged: number;
+  windowCredited: number;
+  lastEventAt: number;
+  /** The picker deprioritises the channel until then; `0` when it is not cooling down. */
+  cooldownUntil: number;
+  cooldownReason?: ChannelReliabilityCooldownReason;
+};
+
+export type ChannelReliabilityCooldownReason = "stall" | "errors" | "lowCredit";
+
+/** Keyed by lower-case channel login. */
+export type ChannelReliabilityLedger = Record<string, ChannelReliabilityEntry>;
+
+export type ChannelReliabilityEventKind = "ping" | "credit" | "offline" | "pingFailed" | "stall";
+
+export type ChannelReliabilityEvent = {
+  login: string;
+  kind: ChannelReliabilityEventKind;
+  /** Credited minutes for `credit` events; ignored otherwise. */
+  minutes?: number;
+  /**
+   * `false` for pings whose credits nobody records (second slot, background
+   * accounts). They only reset the error streak and never enter the credit window.
+   */
+  creditTracked?: boolean;
+};
+
+export const CHANNEL_RELIABILITY_COOLDOWN_MS = 30 * 60_000;
+/** Consecutive offline/ping errors that start a cooldown. */
+export const CHANNEL_RELIABILITY_ERROR_STREAK = 3;
+/** Pinged minutes per credit-ratio check. */
+export const CHANNEL_RELIABILITY_CREDIT_WINDOW = 30;
+/** Below this share of credited to pinged minutes a channel counts as not crediting. */
+export const CHANNEL_RELIABILITY_MIN_CREDIT_RATIO = 0.25;
+const MAX_LEDGER_ENTRIES = 200;
+
+const emptyEntry = (): ChannelReliabilityEntry => ({
+  pingedMinutes: 0,
+  creditedMinutes: 0,
+  offlineErrors: 0,
+  pingErrors: 0,
+  stallRecoveries: 0,
+  errorStreak: 0,
+  windowPinged: 0,
+  windowCredited: 0,
+  lastEventAt: 0,
+  cooldownUntil: 0,
+});
+
+const COOLDOWN_REASONS = new Set<string>(["stall", "errors", "lowCredit"]);
+
+const count = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const loginKey = (value: unknown): string =>
+  typeof value === "string" ? value.trim().toLowerCase() : "";
+
+const normalizeEntry = (value: unknown): ChannelReliabilityEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const entry: ChannelReliabilityEntry = {
+    pingedMinutes: count(raw.pingedMinutes),
+    creditedMinutes: count(raw.creditedMinutes),
+    offlineErrors: count(raw.offlineErrors),
+    pingErrors: count(raw.pingErrors),
+    stallRecoveries: count(raw.stallRecoveries),
+    errorStreak: count(raw.errorStreak),
+    windowPinged: count(raw.windowPinged),
+    windowCredited: count(raw.windowCredited),
+    lastEventAt: count(raw.lastEventAt),
+    cooldownUntil: count(raw.cooldownUntil),
+  };
+  if (typeof raw.cooldownReason === "string" && COOLDOWN_REASONS.has(raw.cooldownReason)) {
+    entry.cooldownReason = raw.cooldownReason as ChannelReliabilityCooldownReason;
+  }
+  return entry;
+};
+
+/** Keeps the most recently active channels so the ledger file stays small. */
+const pruneLedger = (ledger: ChannelReliabilityLedger): ChannelReliabilityLedger => {
+  const keys = Object.keys(ledger);
+  if (keys.length <= MAX_LEDGER_ENTRIES) return ledger;
+  const kept = keys
+    .sort((left, right) => ledger[right].lastEventAt - ledger[left].lastEventAt)
+    .slice(0, MAX_LEDGER_ENTRIES);
+  const next: ChannelReliabilityLedger = {};
+  for (const key of kept) next[key] = ledger[key];
+  return next;
+};
+
+export const normalizeChannelReliabilityLedger = (value: unknown): ChannelReliabilityLedger => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const ledger: ChannelReliabilityLedger = {};
+  for (const [login, raw] of Object.entries(value as Record<string, unknown>)) {
+    const key = loginKey(login);
+    const entry = normalizeEntry(raw);
+    if (key && entry) ledger[key] = entry;
+  }
+  return pruneLedger(ledger);
+};
+
+const startCooldown = (
+  entry: ChannelReliabilityEntry,
+  reason: ChannelReliabilityCooldownReason,
+  now: number,
+): ChannelReliabilityEntry => ({
+  ...entry,
+  cooldownUntil: now + CHANNEL_RELIABILITY_COOLDOWN_MS,
+  cooldownReason: reason,
+});
+
+const applyEvent = (
+  entry: ChannelReliabilityEntry,
+  event: ChannelReliabilityEvent,
+  now: number,
+): ChannelReliabilityEntry => {
+  const base = { ...entry, lastEventAt: now };
+  switch (event.kind) {
+    case "ping": {
+      if (event.creditTracked === false) return { ...base, errorStreak: 0 };
+      const next = {
+        ...base,
+        pingedMinutes: base.pingedMinutes + 1,
+        windowPinged: base.windowPinged + 1,
+        errorStreak: 0,
+      };
+      if (next.windowPinged < CHANNEL_RELIABILITY_CREDIT_WINDOW) return next;
+      const ratio = next.windowCredited / next.windowPinged;
+      const checked = { ...next, windowPinged: 0, windowCredited: 0 };
+      return ratio < CHANNEL_RELIABILITY_MIN_CREDIT_RATIO
+        ? startCooldown(checked, "lowCredit", now)
+        : checked;
+    }
+    case "credit": {
+      const minutes = count(event.minutes);
+      if (minutes === 0) return entry;
+      return {
+        ...base,
+        creditedMinutes: base.creditedMinutes + minutes,
+        windowCredited: base.windowCredited + minutes,
+      };
+    }
+    case "offline":
+    case "pingFailed": {
+      const next = {
+        ...base,
+        offlineErrors: base.offlineErrors + (event.kind === "offline" ? 1 : 0),
+        pingErrors: base.pingErrors + (event.kind === "pingFailed" ? 1 : 0),
+        errorStreak: base.errorStreak + 1,
+      };
+      return next.errorStreak >= CHANNEL_RELIABILITY_ERROR_STREAK
+        ? startCooldown({ ...next, errorStreak: 0 }, "errors", now)
+        : next;
+    }
+    case "stall":
+      return startCooldown({ ...base, stallRecoveries: base.stallRecoveries + 1 }, "stall", now);
+    default:
+      return entry;
+  }
+};
+
+/** Applies events in order; events without a usable login are ignored. */
+export const applyChannelReliabilityEvents = (
+  ledger: ChannelReliabilityLedger,
+  events: ChannelReliabilityEvent[],
+  now: number,
+): ChannelReliabilityLedger => {
+  let next = ledger;
+  for (const event of events) {
+    const key = loginKey(event?.login);
+    if (!key) continue;
+    const current = next[key] ?? emptyEntry();
+    const updated = applyEvent(current, event, now);
+    if (updated === current) continue;
+    next = { ...next, [key]: updated };
+  }
+  return next === ledger ? ledger : pruneLedger(next);
+};
+
+export const isChannelCoolingDown = (
+  entry: ChannelReliabilityEntry | undefined,
+  now: number,
+): boolean => !!entry && entry.cooldownUntil > now;
+
+/** Credited share of pinged minutes, or `null` before the first ping. */
+export const channelCreditRatio = (entry: ChannelReliabilityEntry): number | null =>
+  entry.pingedMinutes > 0 ? Math.min(entry.creditedMinutes / entry.pingedMinutes, 1) : null;
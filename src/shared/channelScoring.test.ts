@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CHANNEL_SCORING,
+  normalizeChannelScoring,
+  parseLanguageList,
+} from "./channelScoring";
+
+describe("normalizeChannelScoring", () => {
+  it("falls back to the defaults for missing or invalid values", () => {
+    expect(normalizeChannelScoring(undefined)).toEqual(DEFAULT_CHANNEL_SCORING);
+    expect(normalizeChannelScoring({ weights: { language: "x" } })).toEqual(
+      DEFAULT_CHANNEL_SCORING,
+    );
+  });
+
+  it("clamps weights and sanitizes the viewer band", () => {
+    const result = normalizeChannelScoring({
+      weights: { language: 42, stalls: -3, uptime: "4.4" },
+      preferredLanguages: ["DE", " en ", "de"],
+      viewerBandMin: 500,
+      viewerBandMax: 100,
+    });
+    expect(result.weights.language).toBe(10);
+    expect(result.weights.stalls).toBe(0);
+    expect(result.weights.uptime).toBe(4);
+    expect(result.weights.streamer).toBe(DEFAULT_CHANNEL_SCORING.weights.streamer);
+    expect(result.preferredLanguages).toEqual(["de", "en"]);
+    expect(result).toMatchObject({ viewerBandMin: 500, viewerBandMax: 0 });
+  });
+});
+
+describe("parseLanguageList", () => {
+  it("splits free text into unique lower-case codes", () => {
+    expect(parseLanguageList("de, EN;fr  de")).toEqual(["de", "en", "fr"]);
+    expect(parseLanguageList(42)).toEqual([]);
+  });
+});
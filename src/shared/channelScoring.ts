@@ -0,0 +1,95 @@
+/**
+ * Criteria the channel picker weighs when auto-selecting or auto-switching.
+ * Each criterion yields a signal in [-1, 1] that is multiplied by its weight.
+ */
+export const CHANNEL_SCORING_CRITERIA = [
+  "language",
+  "streamer",
+  "viewers",
+  "uptime",
+  "progress",
+  "stalls",
+  "reliability",
+] as const;
+
+export type ChannelScoringCriterion = (typeof CHANNEL_SCORING_CRITERIA)[number];
+
+export type ChannelScoringWeights = Record<ChannelScoringCriterion, number>;
+
+export type ChannelScoringSettings = {
+  weights: ChannelScoringWeights;
+  /** Lower-case broadcaster languages, e.g. `["de", "en"]`. */
+  preferredLanguages: string[];
+  /** Viewer band that scores full marks; `0` leaves a bound open. */
+  viewerBandMin: number;
+  viewerBandMax: number;
+};
+
+export const MAX_CHANNEL_SCORING_WEIGHT = 10;
+
+export const DEFAULT_CHANNEL_SCORING: ChannelScoringSettings = {
+  weights: {
+    language: 3,
+    streamer: 5,
+    viewers: 1,
+    uptime: 1,
+    progress: 2,
+    stalls: 3,
+    reliability: 6,
+  },
+  preferredLanguages: [],
+  viewerBandMin: 0,
+  viewerBandMax: 0,
+};
+
+const clampWeight = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) return fallback;
+  return Math.min(MAX_CHANNEL_SCORING_WEIGHT, Math.max(0, Math.round(parsed)));
+};
+
+const normalizeViewerBound = (value: unknown): number => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed <= 0) return 0;
+  return Math.floor(parsed);
+};
+
+/** Parses a comma or space separated language list ("de, en") into unique codes. */
+export const parseLanguageList = (value: unknown): string[] => {
+  const parts = Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : typeof value === "string"
+      ? value.split(/[\s,;]+/)
+      : [];
+  const languages: string[] = [];
+  for (const part of parts) {
+    const language = part.trim().toLowerCase();
+    if (language && language.length <= 8 && !languages.includes(language)) {
+      languages.push(language);
+    }
+  }
+  return languages;
+};
+
+export const normalizeChannelScoring = (value: unknown): ChannelScoringSettings => {
+  if (!value || typeof value !== "object") return DEFAULT_CHANNEL_SCORING;
+  const raw = value as Record<string, unknown>;
+  const rawWeights =
+    raw.weights && typeof raw.weights === "object" ? (raw.weights as Record<string, unknown>) : {};
+  const weights = {} as ChannelScoringWeights;
+  for (const criterion of CHANNEL_SCORING_CRITERIA) {
+    weights[criterion] = clampWeight(
+      rawWeights[criterion],
+      DEFAULT_CHANNEL_SCORING.weights[criterion],
+    );
+  }
+  const viewerBandMin = normalizeViewerBound(raw.viewerBandMin);
+  const viewerBandMax = normalizeViewerBound(raw.viewerBandMax);
+  return {
+    weights,
+    preferredLanguages: parseLanguageList(raw.preferredLanguages),
+    viewerBandMin,
+    // An inverted band would never match; treat the upper bound as open instead.
+    viewerBandMax: viewerBandMax > 0 && viewerBandMax < viewerBandMin ? 0 : viewerBandMax,
+  };
+};
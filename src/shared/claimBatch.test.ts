@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyClaimStatus,
+  normalizeClaimBatchReport,
+  readyClaimRequests,
+  summarizeClaimBatch,
+  type ClaimBatchReport,
+} from "./claimBatch";
+
+describe("classifyClaimStatus", () => {
+  it("tells fresh claims from drops that were already claimed", () => {
+    expect(classifyClaimStatus("ELIGIBLE_FOR_ALL")).toBe("claimed");
+    expect(classifyClaimStatus("DROP_INSTANCE_ALREADY_CLAIMED")).toBe("already-claimed");
+    expect(classifyClaimStatus("ALREADY_CLAIMED")).toBe("already-claimed");
+  });
+});
+
+describe("readyClaimRequests", () => {
+  it("keeps unclaimed drops Twitch reports as claimable, as manual claims", () => {
+    const requests = readyClaimRequests([
+      { id: "a", title: "A", game: "Rust", status: "progress", isClaimable: true, campaignId: "c" },
+      { id: "b", title: "B", game: "Rust", status: "claimed", isClaimable: true },
+      { id: "c", title: "C", game: "Rust", status: "progress", isClaimable: false },
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ dropId: "a", campaignId: "c", source: "manual" });
+  });
+
+  it("picks the same drops as the renderer's claim button, fallback included", () => {
+    const base = { title: "", game: "Rust", campaignId: "c", requiredMinutes: 60 };
+    const requests = readyClaimRequests([
+      { ...base, id: "done", status: "progress", earnedMinutes: 60 },
+      { ...base, id: "short", status: "progress", earnedMinutes: 30 },
+      {
+        ...base,
+        id: "blocked",
+        status: "progress",
+        earnedMinutes: 60,
+        isClaimable: false,
+        blockingReasonHints: ["campaign_expired"],
+      },
+    ]);
+    expect(requests.map((request) => request.dropId)).toEqual(["done"]);
+  });
+});
+
+describe("summarizeClaimBatch", () => {
+  it("counts results per outcome", () => {
+    const report: ClaimBatchReport = {
+      startedAt: 1,
+      finishedAt: 2,
+      total: 3,
+      results: [
+        {
+          dropId: "a",
+          title: "A",
+          game: "",
+          outcome: "claimed",
+          reason: "ELIGIBLE_FOR_ALL",
+          code: "",
+        },
+        { dropId: "b", title: "B", game: "", outcome: "failed", reason: "x", code: "claim.failed" },
+        { dropId: "c", title: "C", game: "", outcome: "failed", reason: "x", code: "claim.failed" },
+      ],
+    };
+    expect(summarizeClaimBatch(report)).toEqual({ claimed: 1, "already-claimed": 0, failed: 2 });
+  });
+});
+
+describe("normalizeClaimBatchReport", () => {
+  it("keeps valid results and a running batch's null finish time", () => {
+    const report = normalizeClaimBatchReport({
+      startedAt: 10,
+      finishedAt: null,
+      total: 4,
+      results: [{ dropId: "a", outcome: "claimed" }, { dropId: "b", outcome: "nope" }, null],
+    });
+    expect(report).toEqual({
+      startedAt: 10,
+      finishedAt: null,
+      total: 4,
+      results: [{ dropId: "a", title: "", game: "", outcome: "claimed", reason: "", code: "" }],
+    });
+    expect(normalizeClaimBatchReport({ results: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import type { ClaimQueueRequest } from "./claimQueue";
+
+/**
+ * "Claim all ready drops": every ready drop is claimed one after another and
+ * reported back with its own outcome.
+ * - `claimed`: Twitch granted the drop just now.
+ * - `already-claimed`: Twitch (or an earlier claim) already had it claimed.
+ * - `failed`: the claim failed; `code` and `reason` say why.
+ */
+export type ClaimBatchOutcome = "claimed" | "already-claimed" | "failed";
+
+export type ClaimBatchResult = {
+  dropId: string;
+  title: string;
+  game: string;
+  outcome: ClaimBatchOutcome;
+  /** Twitch's claim status, or the error message for failed claims. */
+  reason: string;
+  /** Error code of a failed claim, translated by the renderer; empty otherwise. */
+  code: string;
+};
+
+export type ClaimBatchReport = {
+  startedAt: number;
+  /** Null while the batch is still running. */
+  finishedAt: number | null;
+  total: number;
+  results: ClaimBatchResult[];
+};
+
+export type ClaimBatchSummary = Record<ClaimBatchOutcome, number>;
+
+/** The shape of an inventory item this module needs; main and renderer items both fit. */
+export type ClaimBatchItem = {
+  id: string;
+  title: string;
+  game: string;
+  status?: string;
+  isClaimable?: boolean;
+  dropInstanceId?: string;
+  campaignId?: string;
+  imageUrl?: string;
+  campaignName?: string;
+  requiredMinutes?: number;
+  earnedMinutes?: number;
+  endsAt?: string;
+  blockingReasonHints?: string[];
+};
+
+/** Gap between two claims, so a long list does not hammer the claim mutation. */
+export const CLAIM_BATCH_PACE_MS = 1_500;
+
+const CLAIM_BATCH_OUTCOMES: ClaimBatchOutcome[] = ["claimed", "already-claimed", "failed"];
+const ALREADY_CLAIMED_STATUSES = new Set(["DROP_INSTANCE_ALREADY_CLAIMED", "ALREADY_CLAIMED"]);
+const CLAIM_WINDOW_MS = 24 * 60 * 60 * 1000;
+const SOFT_CLAIM_BLOCKER_REASONS = new Set([
+  "missing_drop_instance_id",
+  "account_not_linked",
+  "campaign_allow_disabled",
+]);
+
+const isWithinClaimWindow = (item: ClaimBatchItem, now: number): boolean => {
+  if (!item.endsAt) return true;
+  const endMs = Date.parse(item.endsAt);
+  if (!Number.isFinite(endMs)) return true;
+  return now < endMs + CLAIM_WINDOW_MS;
+};
+
+const hasHardClaimBlockers = (item: ClaimBatchItem): boolean =>
+  (item.blockingReasonHints ?? []).some((reason) => !SOFT_CLAIM_BLOCKER_REASONS.has(reason));
+
+const hasClaimIdCandidate = (item: ClaimBatchItem): boolean =>
+  Boolean(item.dropInstanceId || (item.campaignId && item.id));
+
+export const canClaimDrop = (
+  item: ClaimBatchItem,
+  opts?: { now?: number; allowFallbackWhenNotExplicit?: boolean },
+): boolean => {
+  const now = opts?.now ?? Date.now();
+  const allowFallbackWhenNotExplicit = opts?.allowFallbackWhenNotExplicit !== false;
+
+  if (item.status === "claimed") return false;
+  if (!isWithinClaimWindow(item, now)) return false;
+  if (!hasClaimIdCandidate(item)) return false;
+
+  const required = Math.max(0, Number(item.requiredMinutes) || 0);
+  const earned = Math.max(0, Number(item.earnedMinutes) || 0);
+  const progressDone = required === 0 || earned >= required;
+  if (!progressDone) return false;
+
+  if (item.isClaimable === true) return true;
+  if (!allowFallbackWhenNotExplicit) return false;
+  if (item.isClaimable === false && hasHardClaimBlockers(item)) return false;
+  return true;
+};
+
+/**
+ * A drop that is ready to claim. The tray and the renderer's claim button
+ * both use this, so they always agree on what "ready" means.
+ */
+export const isClaimBatchCandidate = (item: ClaimBatchItem, now = Date.now()): boolean =>
+  canClaimDrop(item, { now, allowFallbackWhenNotExplicit: true });
+
+export const classifyClaimStatus = (status: string): ClaimBatchOutcome =>
+  ALREADY_CLAIMED_STATUSES.has(status) ? "already-claimed" : "claimed";
+
+export const claimBatchRequest = (item: ClaimBatchItem, channel = ""): ClaimQueueRequest => ({
+  dropInstanceId: item.dropInstanceId,
+  dropId: item.id,
+  campaignId: item.campaignId,
+  title: item.title,
+  imageUrl: item.imageUrl,
+  game: item.game,
+  campaignName: item.campaignName,
+  minutes: item.requiredMinutes,
+  channel,
+  source: "manual",
+});
+
+/** Drops ready to claim. Main uses this when the batch is started from the tray. */
+export const readyClaimRequests = (
+  items: ClaimBatchItem[],
+  now = Date.now(),
+): ClaimQueueRequest[] =>
+  items.filter((item) => isClaimBatchCandidate(item, now)).map((item) => claimBatchRequest(item));
+
+export const summarizeClaimBatch = (report: ClaimBatchReport): ClaimBatchSummary => {
+  const summary: ClaimBatchSummary = { claimed: 0, "already-claimed": 0, failed: 0 };
+  for (const result of report.results) summary[result.outcome] += 1;
+  return summary;
+};
+
+const readString = (value: unknown): string => (typeof value === "string" ? value : "");
+
+const normalizeResult = (value: unknown): ClaimBatchResult | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const outcome = CLAIM_BATCH_OUTCOMES.find((entry) => entry === raw.outcome);
+  const dropId = readString(raw.dropId);
+  if (!outcome || !dropId) return null;
+  return {
+    dropId,
+    title: readString(raw.title),
+    game: readString(raw.game),
+    outcome,
+    reason: readString(raw.reason),
+    code: readString(raw.code),
+  };
+};
+
+/** Validates a report received over IPC; null when it is not one. */
+export const normalizeClaimBatchReport = (value: unknown): ClaimBatchReport | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const startedAt = Number(raw.startedAt);
+  if (!Number.isFinite(startedAt) || startedAt <= 0) return null;
+  const finishedAt = Number(raw.finishedAt);
+  const results = (Array.isArray(raw.results) ? raw.results : [])
+    .map(normalizeResult)
+    .filter((result): result is ClaimBatchResult => result !== null);
+  const total = Number(raw.total);
+  return {
+    startedAt,
+    finishedAt: raw.finishedAt !== null && Number.isFinite(finishedAt) ? finishedAt : null,
+    total: Number.isFinite(total) ? Math.max(results.length, Math.round(total)) : results.length,
+    results,
+  };
+};
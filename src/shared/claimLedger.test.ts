@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_CLAIM_LEDGER_ENTRIES,
+  claimLedgerToCsv,
+  normalizeClaimLedger,
+  recordClaimLedgerEntry,
+  searchClaimLedger,
+  type ClaimLedgerEntry,
+} from "./claimLedger";
+
+const entry = (overrides: Partial<ClaimLedgerEntry> = {}): ClaimLedgerEntry => ({
+  id: "camp-1:drop-1",
+  claimedAt: Date.UTC(2026, 9, 18, 12),
+  title: "Golden Crate",
+  imageUrl: "https://example.test/crate.png",
+  game: "Rust",
+  campaignId: "camp-1",
+  campaignName: "October Drops",
+  channel: "streamer",
+  minutes: 120,
+  source: "auto",
+  ...overrides,
+});
+
+describe("normalizeClaimLedger", () => {
+  it("drops invalid and duplicate entries and sorts newest first", () => {
+    const ledger = normalizeClaimLedger([
+      entry(),
+      entry({ minutes: 5 }),
+      { id: "x", title: "", claimedAt: 1 },
+      entry({ id: "camp-2:drop-1", claimedAt: Date.UTC(2026, 9, 19), source: "bogus" as never }),
+      "nope",
+    ]);
+    expect(ledger.map((item) => item.id)).toEqual(["camp-2:drop-1", "camp-1:drop-1"]);
+    expect(ledger[0].source).toBe("auto");
+    expect(ledger[1].minutes).toBe(120);
+  });
+
+  it("keeps only the newest entries past the cap", () => {
+    const many = Array.from({ length: MAX_CLAIM_LEDGER_ENTRIES + 3 }, (_, index) =>
+      entry({ id: `c:${index}`, claimedAt: index + 1 }),
+    );
+    const ledger = normalizeClaimLedger(many);
+    expect(ledger).toHaveLength(MAX_CLAIM_LEDGER_ENTRIES);
+    expect(ledger[0].claimedAt).toBe(MAX_CLAIM_LEDGER_ENTRIES + 3);
+  });
+});
+
+describe("recordClaimLedgerEntry", () => {
+  it("records a drop once", () => {
+    const first = recordClaimLedgerEntry([], entry());
+    expect(first).toHaveLength(1);
+    expect(recordClaimLedgerEntry(first, entry({ source: "pubsub" }))).toBe(first);
+  });
+});
+
+describe("searchClaimLedger", () => {
+  it("matches every term across title, game, campaign and channel", () => {
+    const ledger = [entry(), entry({ id: "b", title: "Skin", game: "Apex", channel: "other" })];
+    expect(searchClaimLedger(ledger, "rust crate").map((item) => item.id)).toEqual([
+      "camp-1:drop-1",
+    ]);
+    expect(searchClaimLedger(ledger, "OTHER")).toHaveLength(1);
+    expect(searchClaimLedger(ledger, "  ")).toBe(ledger);
+  });
+});
+
+describe("claimLedgerToCsv", () => {
+  it("writes a header and quotes cells that need it", () => {
+    const csv = claimLedgerToCsv([entry({ title: 'Crate, "gold"' })]);
+    const [header, row] = csv.trim().split("\r\n");
+    expect(header).toBe(
+      "claimedAt,title,game,campaignName,channel,minutes,source,imageUrl,campaignId,id",
+    );
+    expect(row).toBe(
+      '2026-10-18T12:00:00.000Z,"Crate, ""gold""",Rust,October Drops,streamer,120,auto,https://example.test/crate.png,camp-1,camp-1:drop-1',
+    );
+  });
+});
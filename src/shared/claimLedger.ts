@@ -0,0 +1,116 @@
+/**
+ * Every drop claimed on an account, newest first. Claimed drops disappear from
+ * the inventory once their campaign ends; the ledger keeps what was earned,
+ * where it was watched and how it was claimed.
+ */
+export type ClaimSource = "auto" | "manual" | "pubsub";
+
+export type ClaimLedgerEntry = {
+  /** `campaignId:dropId`, so the same drop claimed twice is recorded once. */
+  id: string;
+  claimedAt: number;
+  title: string;
+  imageUrl: string;
+  game: string;
+  campaignId: string;
+  campaignName: string;
+  /** Login of the channel watched for the drop; empty when unknown. */
+  channel: string;
+  minutes: number;
+  source: ClaimSource;
+};
+
+export type ClaimLedger = ClaimLedgerEntry[];
+
+export const CLAIM_SOURCES: ClaimSource[] = ["auto", "manual", "pubsub"];
+/** Oldest entries are dropped past this; a few years of farming fit comfortably. */
+export const MAX_CLAIM_LEDGER_ENTRIES = 5_000;
+
+export const claimLedgerEntryId = (campaignId: string, dropId: string): string =>
+  `${campaignId.trim()}:${dropId.trim()}`;
+
+const readString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const normalizeEntry = (value: unknown): ClaimLedgerEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const id = readString(raw.id);
+  const title = readString(raw.title);
+  const claimedAt = Number(raw.claimedAt);
+  if (!id || !title || !Number.isFinite(claimedAt) || claimedAt <= 0) return null;
+  const minutes = Number(raw.minutes);
+  return {
+    id,
+    claimedAt,
+    title,
+    imageUrl: readString(raw.imageUrl),
+    game: readString(raw.game),
+    campaignId: readString(raw.campaignId),
+    campaignName: readString(raw.campaignName),
+    channel: readString(raw.channel).toLowerCase(),
+    minutes: Number.isFinite(minutes) ? Math.max(0, Math.round(minutes)) : 0,
+    source: CLAIM_SOURCES.find((source) => source === raw.source) ?? "auto",
+  };
+};
+
+export const normalizeClaimLedger = (value: unknown): ClaimLedger => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const entries: ClaimLedger = [];
+  for (const item of value) {
+    const entry = normalizeEntry(item);
+    if (!entry || seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    entries.push(entry);
+  }
+  return entries
+    .sort((left, right) => right.claimedAt - left.claimedAt)
+    .slice(0, MAX_CLAIM_LEDGER_ENTRIES);
+};
+
+/** Adds a claim; the ledger is returned unchanged when the drop is already recorded. */
+export const recordClaimLedgerEntry = (ledger: ClaimLedger, entry: unknown): ClaimLedger => {
+  const next = normalizeEntry(entry);
+  if (!next || ledger.some((existing) => existing.id === next.id)) return ledger;
+  return normalizeClaimLedger([next, ...ledger]);
+};
+
+/** Entries matching every whitespace-separated term in title, game, campaign or channel. */
+export const searchClaimLedger = (ledger: ClaimLedger, query: string): ClaimLedger => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return ledger;
+  return ledger.filter((entry) => {
+    const haystack = [entry.title, entry.game, entry.campaignName, entry.channel]
+      .join("\n")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+const CSV_COLUMNS: Array<keyof ClaimLedgerEntry> = [
+  "claimedAt",
+  "title",
+  "game",
+  "campaignName",
+  "channel",
+  "minutes",
+  "source",
+  "imageUrl",
+  "campaignId",
+  "id",
+];
+
+const csvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** RFC 4180 CSV with an ISO timestamp column, for spreadsheets. */
+export const claimLedgerToCsv = (ledger: ClaimLedger): string => {
+  const rows = ledger.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      csvCell(
+        column === "claimedAt" ? new Date(entry.claimedAt).toISOString() : String(entry[column]),
+      ),
+    ).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLAIM_ATTEMPT_RETRY_MS,
+  MAX_CLAIM_ATTEMPTS,
+  claimJobFromRequest,
+  claimLedgerEntryFromJob,
+  dueClaimJobs,
+  emptyClaimQueueState,
+  enqueueClaimJob,
+  findRecentClaim,
+  getClaimRetryDelay,
+  nextClaimAttemptAt,
+  normalizeClaimQueueState,
+  recordClaimAttempt,
+  type ClaimJob,
+} from "./claimQueue";
+
+const NOW = Date.UTC(2026, 9, 18, 12);
+
+const job = (overrides: Partial<ClaimJob> = {}): ClaimJob => ({
+  ...(claimJobFromRequest(
+    {
+      dropId: "drop-1",
+      campaignId: "camp-1",
+      title: "Golden Crate",
+      game: "Rust",
+      channel: "Streamer",
+      minutes: 120,
+      source: "auto",
+    },
+    NOW,
+  ) as ClaimJob),
+  ...overrides,
+});
+
+const failure = { ok: false as const, code: "claim.failed", message: "Claim failed: UNKNOWN" };
+
+describe("claimJobFromRequest", () => {
+  it("keys jobs by drop id, falling back to the drop instance id", () => {
+    expect(job()).toMatchObject({ id: "drop-1", channel: "streamer", nextAttemptAt: NOW });
+    expect(claimJobFromRequest({ dropInstanceId: "inst-1" }, NOW)?.id).toBe("inst-1");
+    expect(claimJobFromRequest({ title: "Nameless" }, NOW)).toBeNull();
+  });
+});
+
+describe("enqueueClaimJob", () => {
+  it("keeps the backoff of an already queued drop", () => {
+    const queued = { jobs: [job({ attempts: 2, nextAttemptAt: NOW + 60_000 })], log: [] };
+    const { state, job: merged } = enqueueClaimJob(queued, job({ enqueuedAt: NOW + 1 }));
+    expect(state.jobs).toHaveLength(1);
+    expect(merged).toMatchObject({ attempts: 2, nextAttemptAt: NOW + 60_000 });
+  });
+
+  it("retries right away once the drop instance id shows up", () => {
+    const queued = { jobs: [job({ attempts: 2, nextAttemptAt: NOW + 60_000 })], log: [] };
+    const { job: merged } = enqueueClaimJob(
+      queued,
+      job({ dropInstanceId: "inst-1", enqueuedAt: NOW + 5, nextAttemptAt: NOW + 5 }),
+    );
+    expect(merged).toMatchObject({ dropInstanceId: "inst-1", nextAttemptAt: NOW + 5 });
+  });
+
+  it("retries right away when the user asks for the claim", () => {
+    const queued = { jobs: [job({ attempts: 2, nextAttemptAt: NOW + 60_000 })], log: [] };
+    const { job: merged } = enqueueClaimJob(
+      queued,
+      job({ source: "manual", enqueuedAt: NOW + 5, nextAttemptAt: NOW + 5 }),
+    );
+    expect(merged).toMatchObject({ source: "manual", attempts: 2, nextAttemptAt: NOW + 5 });
+  });
+});
+
+describe("recordClaimAttempt", () => {
+  it("removes claimed jobs and logs the status", () => {
+    const state = recordClaimAttempt(
+      { jobs: [job()], log: [] },
+      "drop-1",
+      { ok: true, status: "ELIGIBLE_FOR_ALL" },
+      NOW,
+    );
+    expect(state.jobs).toEqual([]);
+    expect(state.log[0]).toMatchObject({
+      jobId: "drop-1",
+      attempt: 1,
+      outcome: "claimed",
+      code: "ELIGIBLE_FOR_ALL",
+    });
+    expect(findRecentClaim(state, "drop-1", NOW)?.outcome).toBe("claimed");
+    expect(findRecentClaim(state, "drop-1", NOW + 1)).toBeNull();
+  });
+
+  it("backs failed jobs off and abandons them after the last attempt", () => {
+    let state = recordClaimAttempt({ jobs: [job()], log: [] }, "drop-1", failure, NOW);
+    expect(state.jobs[0]).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: NOW + CLAIM_ATTEMPT_RETRY_MS,
+      lastError: { code: "claim.failed", message: "Claim failed: UNKNOWN" },
+    });
+    expect(dueClaimJobs(state, NOW)).toEqual([]);
+    expect(nextClaimAttemptAt(state)).toBe(NOW + CLAIM_ATTEMPT_RETRY_MS);
+
+    state = {
+      ...state,
+      jobs: [{ ...state.jobs[0], attempts: MAX_CLAIM_ATTEMPTS - 1 }],
+    };
+    state = recordClaimAttempt(state, "drop-1", failure, NOW + 1);
+    expect(state.jobs).toEqual([]);
+    expect(state.log.map((entry) => entry.outcome)).toEqual(["abandoned", "failed"]);
+    expect(nextClaimAttemptAt(state)).toBeNull();
+  });
+
+  it("abandons permanent failures immediately", () => {
+    const state = recordClaimAttempt(
+      { jobs: [job()], log: [] },
+      "drop-1",
+      { ...failure, code: "claim.missing_id", permanent: true },
+      NOW,
+    );
+    expect(state.jobs).toEqual([]);
+    expect(state.log[0]).toMatchObject({ outcome: "abandoned", code: "claim.missing_id" });
+  });
+});
+
+describe("getClaimRetryDelay", () => {
+  it("doubles per attempt up to half an hour", () => {
+    expect(getClaimRetryDelay(1)).toBe(CLAIM_ATTEMPT_RETRY_MS);
+    expect(getClaimRetryDelay(2)).toBe(CLAIM_ATTEMPT_RETRY_MS * 2);
+    expect(getClaimRetryDelay(20)).toBe(30 * 60_000);
+  });
+});
+
+describe("normalizeClaimQueueState", () => {
+  it("drops malformed jobs and log entries", () => {
+    const state = normalizeClaimQueueState({
+      jobs: [job(), job({ title: "duplicate" }), { id: "" }, null],
+      log: [
+        { at: NOW, jobId: "drop-1", outcome: "failed", attempt: 1, code: "claim.failed" },
+        { at: NOW + 1, jobId: "drop-1", outcome: "exploded" },
+      ],
+    });
+    expect(state.jobs.map((entry) => entry.title)).toEqual(["Golden Crate"]);
+    expect(state.log).toHaveLength(1);
+    expect(normalizeClaimQueueState("nope")).toEqual(emptyClaimQueueState());
+  });
+});
+
+describe("claimLedgerEntryFromJob", () => {
+  it("uses the ledger's campaign:drop id", () => {
+    expect(claimLedgerEntryFromJob(job(), NOW)).toMatchObject({
+      id: "camp-1:drop-1",
+      claimedAt: NOW,
+      channel: "streamer",
+      minutes: 120,
+    });
+  });
+});
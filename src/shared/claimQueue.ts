@@ -0,0 +1,286 @@
+import {
+  CLAIM_SOURCES,
+  claimLedgerEntryId,
+  type ClaimLedgerEntry,
+  type ClaimSource,
+} from "./claimLedger";
+
+/**
+ * Drops waiting to be claimed on one account, plus an audit trail of every
+ * claim attempt. The queue lives in main and is persisted, so a failed claim
+ * keeps its backoff across reloads and is retried while no window is open.
+ */
+export type ClaimJob = {
+  /** The drop id, or the drop instance id when nothing else names the drop. */
+  id: string;
+  dropId: string;
+  dropInstanceId: string;
+  campaignId: string;
+  title: string;
+  imageUrl: string;
+  game: string;
+  campaignName: string;
+  /** Login of the channel watched for the drop; empty when unknown. */
+  channel: string;
+  minutes: number;
+  source: ClaimSource;
+  enqueuedAt: number;
+  /** Failed attempts so far. */
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: { code: string; message: string };
+};
+
+/**
+ * - `claimed`: Twitch accepted the claim (or it was already claimed).
+ * - `failed`: the attempt failed; the job stays queued with a backoff.
+ * - `abandoned`: the attempt failed and the job was dropped from the queue.
+ */
+export type ClaimAttemptOutcome = "claimed" | "failed" | "abandoned";
+
+export type ClaimAuditEntry = {
+  at: number;
+  jobId: string;
+  title: string;
+  game: string;
+  source: ClaimSource;
+  /** 1-based attempt number for the job. */
+  attempt: number;
+  outcome: ClaimAttemptOutcome;
+  /** Twitch's claim status on success, the error code otherwise. */
+  code: string;
+  message: string;
+};
+
+export type ClaimQueueState = {
+  jobs: ClaimJob[];
+  /** Newest first. */
+  log: ClaimAuditEntry[];
+};
+
+/** What the renderer sends to queue a claim; everything but an id is optional. */
+export type ClaimQueueRequest = {
+  dropInstanceId?: string;
+  dropId?: string;
+  campaignId?: string;
+  title?: string;
+  imageUrl?: string;
+  game?: string;
+  campaignName?: string;
+  channel?: string;
+  minutes?: number;
+  source?: ClaimSource;
+};
+
+export type ClaimAttemptResult =
+  | { ok: true; status: string }
+  | { ok: false; code: string; message: string; permanent?: boolean };
+
+export const CLAIM_ATTEMPT_RETRY_MS = 90_000;
+const CLAIM_RETRY_MAX_MS = 30 * 60_000;
+/** About two hours of retries with the backoff below. */
+export const MAX_CLAIM_ATTEMPTS = 8;
+export const MAX_CLAIM_AUDIT_ENTRIES = 500;
+
+const CLAIM_OUTCOMES: ClaimAttemptOutcome[] = ["claimed", "failed", "abandoned"];
+
+export const getClaimRetryDelay = (attempts: number): number =>
+  Math.min(CLAIM_RETRY_MAX_MS, CLAIM_ATTEMPT_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+
+export const emptyClaimQueueState = (): ClaimQueueState => ({ jobs: [], log: [] });
+
+const readString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const readCount = (value: unknown): number => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(0, Math.round(num)) : 0;
+};
+
+const readSource = (value: unknown): ClaimSource =>
+  CLAIM_SOURCES.find((source) => source === value) ?? "auto";
+
+const normalizeJob = (value: unknown): ClaimJob | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const id = readString(raw.id);
+  const enqueuedAt = Number(raw.enqueuedAt);
+  if (!id || !Number.isFinite(enqueuedAt) || enqueuedAt <= 0) return null;
+  const nextAttemptAt = Number(raw.nextAttemptAt);
+  const lastError = raw.lastError as Record<string, unknown> | undefined;
+  const job: ClaimJob = {
+    id,
+    dropId: readString(raw.dropId),
+    dropInstanceId: readString(raw.dropInstanceId),
+    campaignId: readString(raw.campaignId),
+    title: readString(raw.title),
+    imageUrl: readString(raw.imageUrl),
+    game: readString(raw.game),
+    campaignName: readString(raw.campaignName),
+    channel: readString(raw.channel).toLowerCase(),
+    minutes: readCount(raw.minutes),
+    source: readSource(raw.source),
+    enqueuedAt,
+    attempts: readCount(raw.attempts),
+    nextAttemptAt: Number.isFinite(nextAttemptAt) ? nextAttemptAt : enqueuedAt,
+  };
+  if (lastError && typeof lastError === "object" && readString(lastError.code)) {
+    job.lastError = { code: readString(lastError.code), message: readString(lastError.message) };
+  }
+  return job;
+};
+
+const normalizeAuditEntry = (value: unknown): ClaimAuditEntry | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const at = Number(raw.at);
+  const jobId = readString(raw.jobId);
+  const outcome = CLAIM_OUTCOMES.find((entry) => entry === raw.outcome);
+  if (!jobId || !outcome || !Number.isFinite(at) || at <= 0) return null;
+  return {
+    at,
+    jobId,
+    title: readString(raw.title),
+    game: readString(raw.game),
+    source: readSource(raw.source),
+    attempt: Math.max(1, readCount(raw.attempt)),
+    outcome,
+    code: readString(raw.code),
+    message: readString(raw.message),
+  };
+};
+
+export const normalizeClaimQueueState = (value: unknown): ClaimQueueState => {
+  if (!value || typeof value !== "object") return emptyClaimQueueState();
+  const raw = value as Record<string, unknown>;
+  const jobs: ClaimJob[] = [];
+  const seen = new Set<string>();
+  for (const item of Array.isArray(raw.jobs) ? raw.jobs : []) {
+    const job = normalizeJob(item);
+    if (!job || seen.has(job.id)) continue;
+    seen.add(job.id);
+    jobs.push(job);
+  }
+  const log = (Array.isArray(raw.log) ? raw.log : [])
+    .map(normalizeAuditEntry)
+    .filter((entry): entry is ClaimAuditEntry => entry !== null)
+    .sort((left, right) => right.at - left.at)
+    .slice(0, MAX_CLAIM_AUDIT_ENTRIES);
+  return { jobs, log };
+};
+
+/** Builds a fresh job from a renderer request; null when it names no drop. */
+export const claimJobFromRequest = (request: ClaimQueueRequest, now: number): ClaimJob | null =>
+  normalizeJob({
+    ...request,
+    id: readString(request.dropId) || readString(request.dropInstanceId),
+    enqueuedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  });
+
+/**
+ * Adds a job, or refreshes the queued one for the same drop. A refreshed job
+ * keeps its backoff unless the user asked for the claim, or the request carries
+ * a drop instance id the queued job did not have (Twitch only accepts the claim
+ * with it); both retry right away.
+ */
+export const enqueueClaimJob = (
+  state: ClaimQueueState,
+  job: ClaimJob,
+): { state: ClaimQueueState; job: ClaimJob } => {
+  const existing = state.jobs.find((entry) => entry.id === job.id);
+  if (!existing) return { state: { ...state, jobs: [...state.jobs, job] }, job };
+  const newInstance = Boolean(job.dropInstanceId) && job.dropInstanceId !== existing.dropInstanceId;
+  const manual = job.source === "manual";
+  const merged: ClaimJob = {
+    ...existing,
+    dropId: job.dropId || existing.dropId,
+    dropInstanceId: job.dropInstanceId || existing.dropInstanceId,
+    campaignId: job.campaignId || existing.campaignId,
+    title: job.title || existing.title,
+    imageUrl: job.imageUrl || existing.imageUrl,
+    game: job.game || existing.game,
+    campaignName: job.campaignName || existing.campaignName,
+    channel: job.channel || existing.channel,
+    minutes: job.minutes || existing.minutes,
+    source: manual ? "manual" : existing.source,
+    nextAttemptAt: newInstance || manual ? job.enqueuedAt : existing.nextAttemptAt,
+  };
+  return {
+    state: { ...state, jobs: state.jobs.map((entry) => (entry.id === job.id ? merged : entry)) },
+    job: merged,
+  };
+};
+
+export const dueClaimJobs = (state: ClaimQueueState, now: number): ClaimJob[] =>
+  state.jobs.filter((job) => job.nextAttemptAt <= now);
+
+export const nextClaimAttemptAt = (state: ClaimQueueState): number | null =>
+  state.jobs.length === 0 ? null : Math.min(...state.jobs.map((job) => job.nextAttemptAt));
+
+/**
+ * Applies an attempt's result: a claimed job leaves the queue, a failed one
+ * backs off, and a job that failed permanently or too often is abandoned.
+ * Every attempt lands in the audit log.
+ */
+export const recordClaimAttempt = (
+  state: ClaimQueueState,
+  jobId: string,
+  result: ClaimAttemptResult,
+  now: number,
+): ClaimQueueState => {
+  const job = state.jobs.find((entry) => entry.id === jobId);
+  if (!job) return state;
+  const attempt = job.attempts + 1;
+  const outcome: ClaimAttemptOutcome = result.ok
+    ? "claimed"
+    : result.permanent || attempt >= MAX_CLAIM_ATTEMPTS
+      ? "abandoned"
+      : "failed";
+  const entry: ClaimAuditEntry = {
+    at: now,
+    jobId,
+    title: job.title,
+    game: job.game,
+    source: job.source,
+    attempt,
+    outcome,
+    code: result.ok ? result.status : result.code,
+    message: result.ok ? "" : result.message,
+  };
+  const log = [entry, ...state.log].slice(0, MAX_CLAIM_AUDIT_ENTRIES);
+  if (result.ok || outcome === "abandoned") {
+    return { jobs: state.jobs.filter((other) => other.id !== jobId), log };
+  }
+  const failed: ClaimJob = {
+    ...job,
+    attempts: attempt,
+    nextAttemptAt: now + getClaimRetryDelay(attempt),
+    lastError: { code: result.code, message: result.message },
+  };
+  return { jobs: state.jobs.map((other) => (other.id === jobId ? failed : other)), log };
+};
+
+/** The latest successful claim of a job, when it happened at or after `since`. */
+export const findRecentClaim = (
+  state: ClaimQueueState,
+  jobId: string,
+  since: number,
+): ClaimAuditEntry | null =>
+  state.log.find(
+    (entry) => entry.jobId === jobId && entry.outcome === "claimed" && entry.at >= since,
+  ) ?? null;
+
+/** The ledger entry for a claimed job; its title is required for the ledger to keep it. */
+export const claimLedgerEntryFromJob = (job: ClaimJob, claimedAt: number): ClaimLedgerEntry => ({
+  id: claimLedgerEntryId(job.campaignId, job.dropId || job.id),
+  claimedAt,
+  title: job.title,
+  imageUrl: job.imageUrl,
+  game: job.game,
+  campaignId: job.campaignId,
+  campaignName: job.campaignName,
+  channel: job.channel,
+  minutes: job.minutes,
+  source: job.source,
+});
@@ -12,6 +12,8 @@ export const TWITCH_ERROR_CODES = {
   INVENTORY_EMPTY: "inventory.empty",
   CLAIM_MISSING_ID: "claim.missing_id",
   CLAIM_FAILED: "claim.failed",
+  CLAIM_BACKING_OFF: "claim.backing_off",
+  CLAIM_AUTH_EXPIRED: "claim.auth_expired",
   PROFILE_FETCH_FAILED: "profile.fetch_failed",
 } as const;
 
@@ -26,6 +28,7 @@ export const RENDERER_ERROR_CODES = {
   STATS_LOAD_FAILED: "stats.load_failed",
   STATS_INVALID_RESPONSE: "stats.invalid_response",
   STATS_RESET_FAILED: "stats.reset_failed",
+  CLAIM_ALL_FAILED: "claim.all_failed",
 } as const;
 
 export type RendererErrorCode = ValueOf<typeof RENDERER_ERROR_CODES>;
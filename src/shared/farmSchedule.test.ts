@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateFarmSchedule,
+  farmPauseEnd,
+  formatScheduleMinute,
+  normalizeFarmPauseUntil,
+  normalizeFarmSchedule,
+  parseScheduleMinute,
+  type FarmSchedule,
+} from "./farmSchedule";
+
+// 2026-10-19 is a Monday (day 1); dates are local so the tests hold in any time zone.
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 9, 19 + day, hours, minutes).getTime();
+
+const schedule = (blocks: FarmSchedule["blocks"]): FarmSchedule => ({ enabled: true, blocks });
+
+describe("normalizeFarmSchedule", () => {
+  it("drops unknown actions and duplicate ids and clamps times", () => {
+    expect(
+      normalizeFarmSchedule({
+        enabled: true,
+        blocks: [
+          { id: "a", action: "pause", days: [1, "2", 9], start: -5, end: 5000 },
+          { id: "a", action: "mute", days: [], start: 0, end: 60 },
+          { id: "b", action: "sleep", start: 0, end: 60 },
+          { action: "farm", start: 60, end: 120 },
+        ],
+      }),
+    ).toEqual({
+      enabled: true,
+      blocks: [
+        { id: "a", action: "pause", days: [1, 2], start: 0, end: 1439 },
+        { id: "block-4", action: "farm", days: [0, 1, 2, 3, 4, 5, 6], start: 60, end: 120 },
+      ],
+    });
+  });
+
+  it("falls back to a disabled, empty schedule", () => {
+    expect(normalizeFarmSchedule(null)).toEqual({ enabled: false, blocks: [] });
+  });
+});
+
+describe("schedule minutes", () => {
+  it("round-trips HH:MM", () => {
+    expect(formatScheduleMinute(9 * 60 + 5)).toBe("09:05");
+    expect(parseScheduleMinute("23:30")).toBe(23 * 60 + 30);
+    expect(parseScheduleMinute("24:00")).toBeNull();
+    expect(parseScheduleMinute("noon")).toBeNull();
+  });
+});
+
+describe("evaluateFarmSchedule", () => {
+  it("pauses inside pause blocks and reports when farming resumes", () => {
+    const night = schedule([{ id: "n", action: "pause", days: [1], start: 23 * 60, end: 7 * 60 }]);
+    expect(evaluateFarmSchedule(night, null, at(0, 22)).paused).toBe(false);
+    const state = evaluateFarmSchedule(night, null, at(1, 3));
+    expect(state).toMatchObject({ paused: true, pauseReason: "schedule", pausedUntil: at(1, 7) });
+    // The block is only set for Monday night.
+    expect(evaluateFarmSchedule(night, null, at(2, 3)).paused).toBe(false);
+  });
+
+  it("only farms inside farm blocks when there are any", () => {
+    const evenings = schedule([
+      { id: "e", action: "farm", days: [0, 1, 2, 3, 4, 5, 6], start: 18 * 60, end: 22 * 60 },
+    ]);
+    expect(evaluateFarmSchedule(evenings, null, at(0, 19)).paused).toBe(false);
+    expect(evaluateFarmSchedule(evenings, null, at(0, 12)).pausedUntil).toBe(at(0, 18));
+    expect(evaluateFarmSchedule(evenings, null, at(0, 23)).pausedUntil).toBe(at(1, 18));
+  });
+
+  it("extends a manual pause until the schedule allows farming again", () => {
+    const mornings = schedule([
+      { id: "m", action: "pause", days: [1], start: 8 * 60, end: 9 * 60 },
+    ]);
+    expect(evaluateFarmSchedule(mornings, at(0, 8, 30), at(0, 7))).toMatchObject({
+      paused: true,
+      pauseReason: "manual",
+      pausedUntil: at(0, 9),
+    });
+    expect(evaluateFarmSchedule({ enabled: false, blocks: [] }, at(0, 8), at(0, 7))).toMatchObject({
+      paused: true,
+      pausedUntil: at(0, 8),
+    });
+  });
+
+  it("mutes notifications without pausing", () => {
+    const quiet = schedule([{ id: "q", action: "mute", days: [1], start: 0, end: 0 }]);
+    expect(evaluateFarmSchedule(quiet, null, at(0, 12))).toMatchObject({
+      paused: false,
+      muted: true,
+      mutedUntil: at(1, 0),
+    });
+  });
+
+  it("ignores blocks while the schedule is disabled", () => {
+    const off: FarmSchedule = {
+      enabled: false,
+      blocks: [{ id: "p", action: "pause", days: [1], start: 0, end: 0 }],
+    };
+    expect(evaluateFarmSchedule(off, null, at(0, 12))).toMatchObject({
+      paused: false,
+      muted: false,
+    });
+  });
+});
+
+describe("manual pauses", () => {
+  it("ends an hour from now or at the next midnight", () => {
+    expect(farmPauseEnd("hour", at(0, 10))).toBe(at(0, 11));
+    expect(farmPauseEnd("tomorrow", at(0, 22, 15))).toBe(at(1, 0));
+  });
+
+  it("keeps only future pause ends", () => {
+    expect(normalizeFarmPauseUntil(at(0, 11), at(0, 10))).toBe(at(0, 11));
+    expect(normalizeFarmPauseUntil(at(0, 9), at(0, 10))).toBeNull();
+    expect(normalizeFarmPauseUntil("soon", at(0, 10))).toBeNull();
+  });
+});
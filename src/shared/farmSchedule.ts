@@ -0,0 +1,203 @@
+/**
+ * Weekly farming schedule. Blocks repeat on the given weekdays (0 = Sunday)
+ * between `start` and `end`, in minutes after local midnight; a block whose end
+ * is not after its start runs past midnight into the next day.
+ *
+ * - `farm`: auto-watch only runs inside farm blocks (when any exist)
+ * - `pause`: auto-watch stops inside the block
+ * - `mute`: notifications are held back inside the block
+ */
+export type FarmScheduleAction = "farm" | "pause" | "mute";
+
+export type FarmScheduleBlock = {
+  id: string;
+  action: FarmScheduleAction;
+  days: number[];
+  start: number;
+  end: number;
+};
+
+export type FarmSchedule = {
+  enabled: boolean;
+  blocks: FarmScheduleBlock[];
+};
+
+export type FarmPauseReason = "manual" | "schedule";
+
+export type FarmScheduleState = {
+  paused: boolean;
+  pauseReason: FarmPauseReason | null;
+  /** When auto-watch may run again; null while not paused or paused with no end in sight. */
+  pausedUntil: number | null;
+  muted: boolean;
+  mutedUntil: number | null;
+};
+
+export type FarmPauseSpan = "hour" | "tomorrow";
+
+export const FARM_SCHEDULE_ACTIONS: FarmScheduleAction[] = ["farm", "pause", "mute"];
+export const MAX_FARM_SCHEDULE_BLOCKS = 20;
+export const DEFAULT_FARM_SCHEDULE: FarmSchedule = { enabled: false, blocks: [] };
+
+const MINUTES_PER_DAY = 24 * 60;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+/** Boundaries are looked up this many days ahead; a week covers every repeating block. */
+const LOOKAHEAD_DAYS = 8;
+
+const normalizeMinute = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) return fallback;
+  return Math.min(MINUTES_PER_DAY - 1, Math.max(0, Math.round(parsed)));
+};
+
+const normalizeDays = (value: unknown): number[] => {
+  if (!Array.isArray(value)) return [...ALL_DAYS];
+  const days = value
+    .map((day) => (typeof day === "string" ? Number(day) : day))
+    .filter((day): day is number => typeof day === "number" && ALL_DAYS.includes(day));
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+const normalizeBlock = (value: unknown, index: number): FarmScheduleBlock | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const action = FARM_SCHEDULE_ACTIONS.find((entry) => entry === raw.action);
+  if (!action) return null;
+  const id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `block-${index + 1}`;
+  return {
+    id,
+    action,
+    days: normalizeDays(raw.days),
+    start: normalizeMinute(raw.start, 0),
+    end: normalizeMinute(raw.end, 0),
+  };
+};
+
+export const normalizeFarmSchedule = (value: unknown): FarmSchedule => {
+  if (!value || typeof value !== "object") return { ...DEFAULT_FARM_SCHEDULE, blocks: [] };
+  const raw = value as Record<string, unknown>;
+  const seen = new Set<string>();
+  const blocks: FarmScheduleBlock[] = [];
+  const entries: unknown[] = Array.isArray(raw.blocks) ? raw.blocks : [];
+  for (let index = 0; index < entries.length; index += 1) {
+    const block = normalizeBlock(entries[index], index);
+    if (!block || seen.has(block.id)) continue;
+    seen.add(block.id);
+    blocks.push(block);
+    if (blocks.length >= MAX_FARM_SCHEDULE_BLOCKS) break;
+  }
+  return { enabled: raw.enabled === true, blocks };
+};
+
+/** A manual pause end: a timestamp in the future, or null for none. */
+export const normalizeFarmPauseUntil = (value: unknown, now = Date.now()): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value > now ? value : null;
+
+/** "HH:MM" for a minute of the day. */
+export const formatScheduleMinute = (minute: number): string => {
+  const value = normalizeMinute(minute, 0);
+  const hours = String(Math.floor(value / 60)).padStart(2, "0");
+  const minutes = String(value % 60).padStart(2, "0");
+  return `${hours}:${minutes}`;
+};
+
+/** Minute of the day for "HH:MM", or null when it does not parse. */
+export const parseScheduleMinute = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+const blockCovers = (block: FarmScheduleBlock, at: Date): boolean => {
+  const day = at.getDay();
+  const minute = at.getHours() * 60 + at.getMinutes();
+  if (block.start === block.end) return block.days.includes(day);
+  if (block.start < block.end) {
+    return block.days.includes(day) && minute >= block.start && minute < block.end;
+  }
+  const previousDay = (day + 6) % 7;
+  return (
+    (block.days.includes(day) && minute >= block.start) ||
+    (block.days.includes(previousDay) && minute < block.end)
+  );
+};
+
+const isFarmingAllowedAt = (schedule: FarmSchedule, at: number): boolean => {
+  if (!schedule.enabled) return true;
+  const date = new Date(at);
+  const farmBlocks = schedule.blocks.filter((block) => block.action === "farm");
+  if (farmBlocks.length > 0 && !farmBlocks.some((block) => blockCovers(block, date))) {
+    return false;
+  }
+  return !schedule.blocks.some((block) => block.action === "pause" && blockCovers(block, date));
+};
+
+const isMutedAt = (schedule: FarmSchedule, at: number): boolean => {
+  if (!schedule.enabled) return false;
+  const date = new Date(at);
+  return schedule.blocks.some((block) => block.action === "mute" && blockCovers(block, date));
+};
+
+/** Local times at which some block starts or ends (or a day begins), after `from`, in order. */
+const blockBoundariesAfter = (schedule: FarmSchedule, from: number): number[] => {
+  const origin = new Date(from);
+  const boundaries = new Set<number>();
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset += 1) {
+    for (const block of schedule.blocks) {
+      for (const minute of [0, block.start, block.end]) {
+        const at = new Date(
+          origin.getFullYear(),
+          origin.getMonth(),
+          origin.getDate() + offset,
+          0,
+          minute,
+        ).getTime();
+        if (at > from) boundaries.add(at);
+      }
+    }
+  }
+  return Array.from(boundaries).sort((a, b) => a - b);
+};
+
+/** The first moment at or after `from` where `holds` is true, or null within the lookahead. */
+const firstMomentWhere = (
+  schedule: FarmSchedule,
+  from: number,
+  holds: (at: number) => boolean,
+): number | null => {
+  if (holds(from)) return from;
+  return blockBoundariesAfter(schedule, from).find((at) => holds(at)) ?? null;
+};
+
+/** Where the schedule and a manual pause leave auto-watch and notifications at `now`. */
+export const evaluateFarmSchedule = (
+  schedule: FarmSchedule,
+  pauseUntil: number | null,
+  now = Date.now(),
+): FarmScheduleState => {
+  const manual = pauseUntil !== null && pauseUntil > now;
+  const scheduled = !isFarmingAllowedAt(schedule, now);
+  const allowed = (at: number) => isFarmingAllowedAt(schedule, at);
+  const muted = isMutedAt(schedule, now);
+  return {
+    paused: manual || scheduled,
+    pauseReason: manual ? "manual" : scheduled ? "schedule" : null,
+    pausedUntil: manual
+      ? firstMomentWhere(schedule, pauseUntil, allowed)
+      : scheduled
+        ? firstMomentWhere(schedule, now, allowed)
+        : null,
+    muted,
+    mutedUntil: muted ? firstMomentWhere(schedule, now, (at) => !isMutedAt(schedule, at)) : null,
+  };
+};
+
+/** End of a manual pause: an hour from now, or the coming local midnight. */
+export const farmPauseEnd = (span: FarmPauseSpan, now = Date.now()): number => {
+  if (span === "hour") return now + 60 * 60_000;
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
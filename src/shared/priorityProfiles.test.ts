@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPriorityProfileId,
+  nextPriorityProfileId,
+  normalizePriorityProfiles,
+  reconcilePriorityProfiles,
+  type PriorityProfile,
+  type PriorityProfileSettings,
+} from "./priorityProfiles";
+
+const live: PriorityProfileSettings = {
+  priorityGames: [{ game: "Rust" }],
+  excludeGames: [],
+  obeyPriority: true,
+  warmupEnabled: true,
+  allowUnlinkedGames: false,
+};
+
+const weekend: PriorityProfile = {
+  id: "weekend",
+  name: "weekend: everything",
+  priorityGames: [],
+  excludeGames: ["Apex"],
+  obeyPriority: false,
+  warmupEnabled: true,
+  allowUnlinkedGames: true,
+};
+
+describe("normalizePriorityProfiles", () => {
+  it("drops nameless and duplicate profiles and fills missing fields", () => {
+    expect(
+      normalizePriorityProfiles(
+        [
+          { id: "weekday", name: " weekday: only Rust ", priorityGames: ["Rust"] },
+          { id: "weekday", name: "dupe" },
+          { id: "nameless" },
+          "junk",
+        ],
+        live,
+      ),
+    ).toEqual([{ ...live, id: "weekday", name: "weekday: only Rust" }]);
+    expect(normalizePriorityProfiles(undefined, live)).toEqual([]);
+  });
+});
+
+describe("reconcilePriorityProfiles", () => {
+  it("loads a newly activated profile into the live settings", () => {
+    const result = reconcilePriorityProfiles({
+      profiles: [weekend],
+      activeId: "weekend",
+      previousActiveId: null,
+      live,
+    });
+    expect(result.activeId).toBe("weekend");
+    expect(result.live.excludeGames).toEqual(["Apex"]);
+    expect(result.live.allowUnlinkedGames).toBe(true);
+  });
+
+  it("writes live edits back into the active profile", () => {
+    const result = reconcilePriorityProfiles({
+      profiles: [weekend],
+      activeId: "weekend",
+      previousActiveId: "weekend",
+      live,
+    });
+    expect(result.profiles[0]).toEqual({ ...live, id: "weekend", name: "weekend: everything" });
+  });
+
+  it("clears an active id that no longer exists", () => {
+    expect(
+      reconcilePriorityProfiles({ profiles: [], activeId: "gone", previousActiveId: "gone", live })
+        .activeId,
+    ).toBeNull();
+  });
+});
+
+describe("profile ids", () => {
+  it("slugifies names uniquely and cycles through profiles", () => {
+    expect(createPriorityProfileId("Event Week!", [])).toBe("event-week");
+    expect(createPriorityProfileId("Weekend", [weekend])).toBe("weekend-2");
+    expect(createPriorityProfileId("   ", [])).toBe("profile");
+    const profiles = [weekend, { ...weekend, id: "event" }];
+    expect(nextPriorityProfileId(profiles, "weekend")).toBe("event");
+    expect(nextPriorityProfileId(profiles, "event")).toBe("weekend");
+    expect(nextPriorityProfileId(profiles, null)).toBe("weekend");
+    expect(nextPriorityProfileId([], null)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { normalizePriorityRules, type PriorityRule } from "./priorityRules";
+
+/** The settings a priority profile captures and restores as a unit. */
+export type PriorityProfileSettings = {
+  priorityGames: PriorityRule[];
+  excludeGames: string[];
+  obeyPriority: boolean;
+  warmupEnabled: boolean;
+  allowUnlinkedGames: boolean;
+};
+
+/**
+ * A named snapshot of the priority settings, e.g. "weekday: only Rust" or
+ * "event week". The live settings always hold the active profile's values;
+ * edits made while a profile is active are written back into it.
+ */
+export type PriorityProfile = PriorityProfileSettings & {
+  id: string;
+  name: string;
+};
+
+const MAX_NAME_LENGTH = 60;
+
+export const pickPriorityProfileSettings = (
+  source: PriorityProfileSettings,
+): PriorityProfileSettings => ({
+  priorityGames: source.priorityGames,
+  excludeGames: source.excludeGames,
+  obeyPriority: source.obeyPriority,
+  warmupEnabled: source.warmupEnabled,
+  allowUnlinkedGames: source.allowUnlinkedGames,
+});
+
+const normalizePriorityProfile = (
+  value: unknown,
+  fallback: PriorityProfileSettings,
+): PriorityProfile | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, MAX_NAME_LENGTH) : "";
+  if (!id || !name) return null;
+  return {
+    id,
+    name,
+    priorityGames: Array.isArray(raw.priorityGames)
+      ? normalizePriorityRules(raw.priorityGames)
+      : fallback.priorityGames,
+    excludeGames: Array.isArray(raw.excludeGames)
+      ? raw.excludeGames.filter((game): game is string => typeof game === "string")
+      : fallback.excludeGames,
+    obeyPriority: typeof raw.obeyPriority === "boolean" ? raw.obeyPriority : fallback.obeyPriority,
+    warmupEnabled:
+      typeof raw.warmupEnabled === "boolean" ? raw.warmupEnabled : fallback.warmupEnabled,
+    allowUnlinkedGames:
+      typeof raw.allowUnlinkedGames === "boolean"
+        ? raw.allowUnlinkedGames
+        : fallback.allowUnlinkedGames,
+  };
+};
+
+/** Normalizes stored profiles; missing fields fall back to `fallback`, duplicate ids are dropped. */
+export const normalizePriorityProfiles = (
+  value: unknown,
+  fallback: PriorityProfileSettings,
+): PriorityProfile[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const profiles: PriorityProfile[] = [];
+  for (const entry of value) {
+    const profile = normalizePriorityProfile(entry, fallback);
+    if (!profile || seen.has(profile.id)) continue;
+    seen.add(profile.id);
+    profiles.push(profile);
+  }
+  return profiles;
+};
+
+/** A stable id derived from the name, suffixed when already taken. */
+export const createPriorityProfileId = (name: string, profiles: PriorityProfile[]): string => {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "profile";
+  const taken = new Set(profiles.map((profile) => profile.id));
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix += 1;
+  return `${base}-${suffix}`;
+};
+
+/** The profile after `activeId`, wrapping around; used by the cycle shortcut. */
+export const nextPriorityProfileId = (
+  profiles: PriorityProfile[],
+  activeId: string | null,
+): string | null => {
+  if (profiles.length === 0) return null;
+  const index = profiles.findIndex((profile) => profile.id === activeId);
+  return profiles[(index + 1) % profiles.length].id;
+};
+
+/**
+ * Resolves the profile list and live settings after a save. Switching to
+ * another profile loads its values; otherwise the active profile picks up
+ * the live values so edits made in the Priority view stick to it.
+ */
+export const reconcilePriorityProfiles = ({
+  profiles,
+  activeId,
+  previousActiveId,
+  live,
+}: {
+  profiles: PriorityProfile[];
+  activeId: string | null;
+  previousActiveId: string | null;
+  live: PriorityProfileSettings;
+}): {
+  profiles: PriorityProfile[];
+  activeId: string | null;
+  live: PriorityProfileSettings;
+} => {
+  const active = profiles.find((profile) => profile.id === activeId);
+  if (!active) return { profiles, activeId: null, live };
+  if (active.id !== previousActiveId) {
+    return { profiles, activeId: active.id, live: pickPriorityProfileSettings(active) };
+  }
+  return {
+    profiles: profiles.map((profile) =>
+      profile.id === active.id ? { ...profile, ...pickPriorityProfileSettings(live) } : profile,
+    ),
+    activeId: active.id,
+    live,
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasPriorityRuleConstraints,
+  isWithinRuleSchedule,
+  normalizePriorityRules,
+} from "./priorityRules";
+
+describe("normalizePriorityRules", () => {
+  it("migrates plain game names and drops duplicates", () => {
+    expect(normalizePriorityRules([" Rust ", "Rust", "", { game: "WoW" }, 42])).toEqual([
+      { game: "Rust" },
+      { game: "WoW" },
+    ]);
+    expect(normalizePriorityRules("Rust")).toEqual([]);
+  });
+
+  it("keeps valid constraints and discards invalid ones", () => {
+    expect(
+      normalizePriorityRules([
+        {
+          game: "Rust",
+          hours: { from: 18, to: 2 },
+          weekdays: [6, 0, 6, 9],
+          maxMinutesPerDay: "120",
+          stopAfterClaims: 0,
+          endsWithinDays: 3.7,
+          language: " EN ",
+        },
+        { game: "WoW", hours: { from: 5, to: 5 }, weekdays: [0, 1, 2, 3, 4, 5, 6] },
+      ]),
+    ).toEqual([
+      {
+        game: "Rust",
+        hours: { from: 18, to: 2 },
+        weekdays: [0, 6],
+        maxMinutesPerDay: 120,
+        endsWithinDays: 3,
+        language: "en",
+      },
+      { game: "WoW" },
+    ]);
+  });
+});
+
+describe("isWithinRuleSchedule", () => {
+  const saturdayAt = (hour: number) => new Date(2026, 0, 10, hour, 30);
+
+  it("checks weekdays and hour windows, including windows past midnight", () => {
+    const rule = { game: "Rust", hours: { from: 18, to: 2 }, weekdays: [6] };
+    expect(isWithinRuleSchedule(rule, saturdayAt(20))).toEqual({ ok: true });
+    expect(isWithinRuleSchedule(rule, saturdayAt(1))).toEqual({ ok: true });
+    expect(isWithinRuleSchedule(rule, saturdayAt(12))).toEqual({ ok: false, reason: "hours" });
+    expect(isWithinRuleSchedule(rule, new Date(2026, 0, 11, 20))).toEqual({
+      ok: false,
+      reason: "weekday",
+    });
+    expect(hasPriorityRuleConstraints(rule)).toBe(true);
+    expect(hasPriorityRuleConstraints({ game: "Rust" })).toBe(false);
+  });
+});
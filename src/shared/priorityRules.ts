@@ -0,0 +1,100 @@
+/**
+ * A priority list entry. Only `game` is required; every other field narrows
+ * when the game may be farmed. Settings written before rules existed stored
+ * plain game names, which `normalizePriorityRules` migrates to `{ game }`.
+ */
+export type PriorityRule = {
+  game: string;
+  /** Local hours the game may be farmed, `from` inclusive, `to` exclusive; wraps past midnight when `from > to`. */
+  hours?: { from: number; to: number };
+  /** Local weekdays the game may be farmed (0 = Sunday). */
+  weekdays?: number[];
+  /** Watch minutes allowed per local day. */
+  maxMinutesPerDay?: number;
+  /** Stop once this many drops of a campaign have been claimed. */
+  stopAfterClaims?: number;
+  /** Only farm campaigns that end within this many days. */
+  endsWithinDays?: number;
+  /** Preferred stream language (ISO 639-1, e.g. "en"). */
+  language?: string;
+};
+
+const toPositiveInt = (value: unknown): number | undefined => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) return undefined;
+  const rounded = Math.floor(parsed);
+  return rounded > 0 ? rounded : undefined;
+};
+
+const toHour = (value: unknown): number | undefined => {
+  if (typeof value !== "number" || !Number.isInteger(value)) return undefined;
+  return value >= 0 && value <= 24 ? value : undefined;
+};
+
+export const normalizePriorityRule = (value: unknown): PriorityRule | null => {
+  if (typeof value === "string") {
+    const game = value.trim();
+    return game ? { game } : null;
+  }
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const game = typeof raw.game === "string" ? raw.game.trim() : "";
+  if (!game) return null;
+  const rule: PriorityRule = { game };
+  const hours = raw.hours as Record<string, unknown> | undefined;
+  const from = toHour(hours?.from);
+  const to = toHour(hours?.to);
+  if (from !== undefined && to !== undefined && from !== to) rule.hours = { from, to };
+  if (Array.isArray(raw.weekdays)) {
+    const weekdays = Array.from(
+      new Set(
+        raw.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6),
+      ),
+    ).sort((a, b) => a - b);
+    if (weekdays.length > 0 && weekdays.length < 7) rule.weekdays = weekdays;
+  }
+  const maxMinutesPerDay = toPositiveInt(raw.maxMinutesPerDay);
+  if (maxMinutesPerDay !== undefined) rule.maxMinutesPerDay = maxMinutesPerDay;
+  const stopAfterClaims = toPositiveInt(raw.stopAfterClaims);
+  if (stopAfterClaims !== undefined) rule.stopAfterClaims = stopAfterClaims;
+  const endsWithinDays = toPositiveInt(raw.endsWithinDays);
+  if (endsWithinDays !== undefined) rule.endsWithinDays = endsWithinDays;
+  const language = typeof raw.language === "string" ? raw.language.trim().toLowerCase() : "";
+  if (language) rule.language = language;
+  return rule;
+};
+
+/** Normalizes a stored priority list, migrating plain names and dropping duplicates. */
+export const normalizePriorityRules = (value: unknown): PriorityRule[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const rules: PriorityRule[] = [];
+  for (const entry of value) {
+    const rule = normalizePriorityRule(entry);
+    if (!rule || seen.has(rule.game)) continue;
+    seen.add(rule.game);
+    rules.push(rule);
+  }
+  return rules;
+};
+
+/** True when the rule carries any constraint beyond the game name. */
+export const hasPriorityRuleConstraints = (rule: PriorityRule): boolean =>
+  Object.keys(rule).some((key) => key !== "game");
+
+/** Whether `date` (local time) falls inside the rule's weekday and hour window. */
+export const isWithinRuleSchedule = (
+  rule: PriorityRule,
+  date: Date,
+): { ok: true } | { ok: false; reason: "weekday" | "hours" } => {
+  if (rule.weekdays && !rule.weekdays.includes(date.getDay())) {
+    return { ok: false, reason: "weekday" };
+  }
+  if (rule.hours) {
+    const hour = date.getHours();
+    const { from, to } = rule.hours;
+    const inside = from < to ? hour >= from && hour < to : hour >= from || hour < to;
+    if (!inside) return { ok: false, reason: "hours" };
+  }
+  return { ok: true };
+};
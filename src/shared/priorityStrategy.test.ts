@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRIORITY_STRATEGY, normalizePriorityStrategy } from "./priorityStrategy";
+
+describe("normalizePriorityStrategy", () => {
+  it("keeps known strategies and falls back to the list order", () => {
+    expect(normalizePriorityStrategy("deadline")).toBe("deadline");
+    expect(normalizePriorityStrategy("list")).toBe("list");
+    expect(normalizePriorityStrategy("soonest")).toBe(DEFAULT_PRIORITY_STRATEGY);
+    expect(normalizePriorityStrategy(undefined)).toBe(DEFAULT_PRIORITY_STRATEGY);
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * How the watch engine orders actionable games: "list" follows the manual
+ * priority list (with the available-games fallback), "deadline" farms the
+ * campaign most at risk of expiring unfinished first.
+ */
+export const PRIORITY_STRATEGIES = ["list", "deadline"] as const;
+
+export type PriorityStrategy = (typeof PRIORITY_STRATEGIES)[number];
+
+export const DEFAULT_PRIORITY_STRATEGY: PriorityStrategy = "list";
+
+export const normalizePriorityStrategy = (value: unknown): PriorityStrategy =>
+  value === "deadline" ? "deadline" : DEFAULT_PRIORITY_STRATEGY;
@@ -0,0 +1,108 @@
+export const PROXY_PROTOCOLS = ["http", "https", "socks5"] as const;
+
+export type ProxyProtocol = (typeof PROXY_PROTOCOLS)[number];
+
+export type ProxyConfig = {
+  protocol: ProxyProtocol;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+};
+
+const DEFAULT_PORTS: Record<ProxyProtocol, number> = {
+  http: 80,
+  https: 443,
+  socks5: 1080,
+};
+
+/** `socks5h` resolves names on the proxy, which is what SOCKS5 always does here. */
+const PROTOCOL_ALIASES: Record<string, ProxyProtocol> = {
+  "http:": "http",
+  "https:": "https",
+  "socks:": "socks5",
+  "socks5:": "socks5",
+  "socks5h:": "socks5",
+};
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a proxy URL as typed by the user. A bare `host:port` means an HTTP
+ * proxy; empty input or anything unparseable returns null (direct connection).
+ */
+export const parseProxyUrl = (value: unknown): ProxyConfig | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return null;
+  }
+  const protocol = PROTOCOL_ALIASES[url.protocol.toLowerCase()];
+  if (!protocol || !url.hostname) return null;
+  if ((url.pathname && url.pathname !== "/") || url.search || url.hash) return null;
+  const port = url.port ? Number(url.port) : DEFAULT_PORTS[protocol];
+  if (!Number.isInteger(port) || port < 1 || port > 65_535) return null;
+  return {
+    protocol,
+    host: url.hostname,
+    port,
+    username: url.username ? decode(url.username) : undefined,
+    password: url.password ? decode(url.password) : undefined,
+  };
+};
+
+export const formatProxyUrl = (config: ProxyConfig): string => {
+  const auth = config.username
+    ? `${encodeURIComponent(config.username)}${
+        config.password ? `:${encodeURIComponent(config.password)}` : ""
+      }@`
+    : "";
+  return `${config.protocol}://${auth}${config.host}:${config.port}`;
+};
+
+/** Canonical form stored in settings; "" when the input is not a usable proxy. */
+export const normalizeProxyUrl = (value: unknown): string => {
+  const config = parseProxyUrl(value);
+  return config ? formatProxyUrl(config) : "";
+};
+
+/** Same URL with the password masked, for logs and status lines. */
+export const redactProxyUrl = (value: string): string => {
+  const config = parseProxyUrl(value);
+  if (!config) return "";
+  return formatProxyUrl(config.password ? { ...config, password: "***" } : config);
+};
+
+/** Same URL without username and password, for settings files that get shared. */
+export const stripProxyCredentials = (value: string): string => {
+  const config = parseProxyUrl(value);
+  if (!config) return "";
+  return formatProxyUrl({ ...config, username: undefined, password: undefined });
+};
+
+/**
+ * A proxy URL coming back from an export or the settings JSON: when it is the
+ * current proxy with its credentials stripped or masked by the two helpers
+ * above, the stored credentials are kept instead of being overwritten.
+ */
+export const restoreProxyCredentials = (incoming: unknown, current: string): string => {
+  const next = parseProxyUrl(incoming);
+  const stored = parseProxyUrl(current);
+  if (!next || !stored) return normalizeProxyUrl(incoming);
+  const sameProxy =
+    next.protocol === stored.protocol && next.host === stored.host && next.port === stored.port;
+  const credentialsHidden =
+    !next.username || (next.username === stored.username && next.password === "***");
+  return sameProxy && credentialsHidden ? formatProxyUrl(stored) : formatProxyUrl(next);
+};
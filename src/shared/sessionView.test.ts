@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { redactSession } from "./sessionView";
+
+describe("redactSession", () => {
+  it("returns null when there is no session", () => {
+    expect(redactSession(null)).toBeNull();
+    expect(redactSession(undefined)).toBeNull();
+  });
+
+  it("never exposes tokens or cookies", () => {
+    const view = redactSession({
+      accessToken: "secret-access",
+      refreshToken: "secret-refresh",
+      cookies: "auth-token=secret-access; login=alpha",
+      expiresAt: 1_700_000_000_000,
+      scopes: ["user_read"],
+      loginName: "alpha",
+    });
+    expect(view).toEqual({
+      loggedIn: true,
+      loginName: "alpha",
+      expiresAt: 1_700_000_000_000,
+      scopes: ["user_read"],
+      hasRefreshToken: true,
+      hasCookies: true,
+    });
+    expect(JSON.stringify(view)).not.toContain("secret");
+  });
+
+  it("reports a blank token as logged out", () => {
+    expect(redactSession({ accessToken: "  ", scopes: "nope" })).toMatchObject({
+      loggedIn: false,
+      scopes: [],
+      hasRefreshToken: false,
+    });
+  });
+});
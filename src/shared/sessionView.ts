@@ -0,0 +1,42 @@
+/**
+ * Renderer-facing view of a stored Twitch session. The renderer only needs to
+ * know whether an account is linked and when it expires; tokens and the web
+ * cookie header stay in the main process.
+ */
+export type SessionView = {
+  loggedIn: boolean;
+  loginName?: string;
+  expiresAt?: number;
+  scopes: string[];
+  hasRefreshToken: boolean;
+  hasCookies: boolean;
+};
+
+type SessionLike = {
+  accessToken?: unknown;
+  refreshToken?: unknown;
+  expiresAt?: unknown;
+  scopes?: unknown;
+  cookies?: unknown;
+  loginName?: unknown;
+};
+
+const nonEmpty = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+export function redactSession(session: SessionLike | null | undefined): SessionView | null {
+  if (!session) return null;
+  return {
+    loggedIn: nonEmpty(session.accessToken),
+    loginName: nonEmpty(session.loginName) ? session.loginName : undefined,
+    expiresAt:
+      typeof session.expiresAt === "number" && Number.isFinite(session.expiresAt)
+        ? session.expiresAt
+        : undefined,
+    scopes: Array.isArray(session.scopes)
+      ? session.scopes.filter((scope): scope is string => typeof scope === "string")
+      : [],
+    hasRefreshToken: nonEmpty(session.refreshToken),
+    hasCookies: nonEmpty(session.cookies),
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  getStreamerListMembership,
+  normalizeChannelLogin,
+  normalizeChannelLogins,
+  setStreamerListMembership,
+} from "./streamerLists";
+
+describe("normalizeChannelLogin", () => {
+  it("accepts logins, @handles and channel URLs", () => {
+    expect(normalizeChannelLogin(" Some_Streamer ")).toBe("some_streamer");
+    expect(normalizeChannelLogin("@rustacean")).toBe("rustacean");
+    expect(normalizeChannelLogin("https://www.twitch.tv/Shroud/videos")).toBe("shroud");
+    expect(normalizeChannelLogin("not a login")).toBe("");
+    expect(normalizeChannelLogin(42)).toBe("");
+  });
+
+  it("drops invalid and duplicate entries", () => {
+    expect(normalizeChannelLogins(["a", "A", "b c", null, "c"])).toEqual(["a", "c"]);
+    expect(normalizeChannelLogins("a")).toEqual([]);
+  });
+});
+
+describe("setStreamerListMembership", () => {
+  const lists = { favoriteChannels: ["alpha"], blockedChannels: ["beta"] };
+
+  it("keeps a login in at most one list", () => {
+    expect(setStreamerListMembership(lists, "Beta", "favorite")).toEqual({
+      favoriteChannels: ["alpha", "beta"],
+      blockedChannels: [],
+    });
+    expect(setStreamerListMembership(lists, "alpha", "blocked")).toEqual({
+      favoriteChannels: [],
+      blockedChannels: ["beta", "alpha"],
+    });
+    expect(setStreamerListMembership(lists, "alpha", null)).toEqual({
+      favoriteChannels: [],
+      blockedChannels: ["beta"],
+    });
+    expect(setStreamerListMembership(lists, "??", "favorite")).toBe(lists);
+  });
+
+  it("reports the current membership", () => {
+    expect(getStreamerListMembership(lists, "ALPHA")).toBe("favorite");
+    expect(getStreamerListMembership(lists, "beta")).toBe("blocked");
+    expect(getStreamerListMembership(lists, "gamma")).toBeNull();
+  });
+});
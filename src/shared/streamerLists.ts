@@ -0,0 +1,64 @@
+/**
+ * Per-login streamer preferences that apply across all games: favourites are
+ * preferred by the channel picker, blocked channels are never watched.
+ */
+export type StreamerLists = {
+  favoriteChannels: string[];
+  blockedChannels: string[];
+};
+
+export type StreamerListMembership = "favorite" | "blocked" | null;
+
+/** Twitch logins: 1–25 characters of letters, digits and underscores. */
+const LOGIN_PATTERN = /^[a-z0-9_]{1,25}$/;
+
+export const normalizeChannelLogin = (value: unknown): string => {
+  if (typeof value !== "string") return "";
+  const login = value
+    .trim()
+    .replace(/^@/, "")
+    .replace(/^(?:https?:\/\/)?(?:www\.)?twitch\.tv\//i, "")
+    .replace(/\/.*$/, "")
+    .toLowerCase();
+  return LOGIN_PATTERN.test(login) ? login : "";
+};
+
+/** Normalized, de-duplicated logins; invalid entries are dropped. */
+export const normalizeChannelLogins = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const logins: string[] = [];
+  for (const entry of value) {
+    const login = normalizeChannelLogin(entry);
+    if (login && !logins.includes(login)) logins.push(login);
+  }
+  return logins;
+};
+
+export const getStreamerListMembership = (
+  lists: StreamerLists,
+  login: string,
+): StreamerListMembership => {
+  const key = normalizeChannelLogin(login);
+  if (!key) return null;
+  if (lists.blockedChannels.includes(key)) return "blocked";
+  if (lists.favoriteChannels.includes(key)) return "favorite";
+  return null;
+};
+
+/**
+ * Moves a login into one list (or out of both). A login is never a favourite
+ * and blocked at the same time.
+ */
+export const setStreamerListMembership = (
+  lists: StreamerLists,
+  login: string,
+  membership: StreamerListMembership,
+): StreamerLists => {
+  const key = normalizeChannelLogin(login);
+  if (!key) return lists;
+  const favoriteChannels = lists.favoriteChannels.filter((entry) => entry !== key);
+  const blockedChannels = lists.blockedChannels.filter((entry) => entry !== key);
+  if (membership === "favorite") favoriteChannels.push(key);
+  if (membership === "blocked") blockedChannels.push(key);
+  return { favoriteChannels, blockedChannels };
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { normalizeWatchSlotIndex, normalizeWatchSlots } from "./watchSlots";
+
+describe("watchSlots", () => {
+  it("accepts one or two slots and defaults to one", () => {
+    expect(normalizeWatchSlots(2)).toBe(2);
+    expect(normalizeWatchSlots("2")).toBe(2);
+    expect(normalizeWatchSlots(1)).toBe(1);
+    expect(normalizeWatchSlots(3)).toBe(1);
+    expect(normalizeWatchSlots(undefined)).toBe(1);
+  });
+
+  it("falls back to the primary slot for out-of-range indexes", () => {
+    expect(normalizeWatchSlotIndex(1)).toBe(1);
+    expect(normalizeWatchSlotIndex(2)).toBe(0);
+    expect(normalizeWatchSlotIndex(-1)).toBe(0);
+    expect(normalizeWatchSlotIndex(0.5)).toBe(0);
+    expect(normalizeWatchSlotIndex("1")).toBe(0);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Twitch credits drop progress for at most two concurrently watched streams,
+ * so the watch engine runs one or two independent slots.
+ */
+export const WATCH_SLOT_COUNTS = [1, 2] as const;
+
+export type WatchSlotCount = (typeof WATCH_SLOT_COUNTS)[number];
+
+export const DEFAULT_WATCH_SLOTS: WatchSlotCount = 1;
+
+/** Index of the slot driven by the primary watch engine. */
+export const PRIMARY_WATCH_SLOT = 0;
+
+export const normalizeWatchSlots = (value: unknown): WatchSlotCount => {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return parsed === 2 ? 2 : DEFAULT_WATCH_SLOTS;
+};
+
+/** Clamps an IPC-supplied slot index to the supported range. */
+export const normalizeWatchSlotIndex = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isInteger(value)) return PRIMARY_WATCH_SLOT;
+  return value >= 0 && value < WATCH_SLOT_COUNTS.length ? value : PRIMARY_WATCH_SLOT;
+};